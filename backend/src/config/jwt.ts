@@ -1,5 +1,7 @@
 import jwt, { SignOptions, VerifyOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
+import SessionService from '../services/sessionService';
 
 // JWT Configuration
 export const JWT_CONFIG = {
@@ -21,6 +23,26 @@ export const JWT_CONFIG = {
     AUDIENCE: process.env.JWT_AUDIENCE || 'eduknit-learn-users',
   },
   
+  // Two-factor challenge, issued after the password check and exchanged for a
+  // token pair once the second factor is verified
+  MFA_CHALLENGE: {
+    SECRET: process.env.JWT_SECRET!,
+    EXPIRES_IN: '5m',
+    ALGORITHM: 'HS256' as const,
+    ISSUER: process.env.JWT_ISSUER || 'eduknit-learn',
+    AUDIENCE: 'eduknit-learn-mfa',
+  },
+  
+  // SCORM/xAPI package launch: package content runs in a sandbox without the
+  // session cookie, so its file and xAPI requests carry this token instead
+  PACKAGE_LAUNCH: {
+    SECRET: process.env.JWT_SECRET!,
+    EXPIRES_IN: '12h',
+    ALGORITHM: 'HS256' as const,
+    ISSUER: process.env.JWT_ISSUER || 'eduknit-learn',
+    AUDIENCE: 'eduknit-learn-package',
+  },
+  
   // Cookie Configuration
   COOKIE: {
     ACCESS_TOKEN_NAME: 'accessToken',
@@ -39,6 +61,7 @@ export interface AccessTokenPayload {
     id: string;
     role: string;
   };
+  sid?: string; // refresh session the token was issued for; refused once it is revoked
 }
 
 export interface RefreshTokenPayload {
@@ -46,6 +69,25 @@ export interface RefreshTokenPayload {
     id: string;
     role: string;
   };
+  sid?: string; // refresh session (token family) the token belongs to
+}
+
+export interface MfaChallengePayload {
+  user: {
+    id: string;
+    role: string;
+  };
+  purpose: 'mfa_challenge';
+}
+
+export interface PackageLaunchPayload {
+  user: {
+    id: string;
+    role: string;
+  };
+  lessonId: string;
+  packageId: string;
+  purpose: 'package_launch';
 }
 
 // JWT Utility Functions
@@ -59,7 +101,8 @@ export class JWTUtils {
       user: {
         id: typeof payload.user === 'object' ? payload.user.id : payload.user,
         role: typeof payload.user === 'object' ? payload.user.role : payload.role || 'user'
-      }
+      },
+      ...(payload.sid ? { sid: payload.sid } : {})
     };
     
     const options: SignOptions = {
@@ -81,10 +124,13 @@ export class JWTUtils {
       user: {
         id: typeof payload.user === 'object' ? payload.user.id : payload.user,
         role: typeof payload.user === 'object' ? payload.user.role : payload.role || 'user'
-      }
+      },
+      ...(payload.sid ? { sid: payload.sid } : {})
     };
     
+    // A unique id keeps tokens issued within the same second distinct
     const options: SignOptions = {
+      jwtid: crypto.randomUUID(),
       expiresIn: JWT_CONFIG.REFRESH_TOKEN.EXPIRES_IN as any,
       algorithm: JWT_CONFIG.REFRESH_TOKEN.ALGORITHM,
       issuer: JWT_CONFIG.REFRESH_TOKEN.ISSUER,
@@ -94,6 +140,74 @@ export class JWTUtils {
     return jwt.sign(cleanPayload, JWT_CONFIG.REFRESH_TOKEN.SECRET, options);
   }
 
+  /**
+   * Generate a short-lived two-factor challenge token. It has its own audience
+   * so it is never accepted as an access or refresh token.
+   */
+  static generateMfaChallengeToken(user: { id: string; role: string }): string {
+    const options: SignOptions = {
+      jwtid: crypto.randomUUID(),
+      expiresIn: JWT_CONFIG.MFA_CHALLENGE.EXPIRES_IN as any,
+      algorithm: JWT_CONFIG.MFA_CHALLENGE.ALGORITHM,
+      issuer: JWT_CONFIG.MFA_CHALLENGE.ISSUER,
+      audience: JWT_CONFIG.MFA_CHALLENGE.AUDIENCE,
+    };
+
+    return jwt.sign({ user: { id: user.id, role: user.role }, purpose: 'mfa_challenge' }, JWT_CONFIG.MFA_CHALLENGE.SECRET, options);
+  }
+
+  /**
+   * Verify two-factor challenge token
+   */
+  static verifyMfaChallengeToken(token: string): MfaChallengePayload {
+    const options: VerifyOptions = {
+      algorithms: ['HS256'],
+      issuer: JWT_CONFIG.MFA_CHALLENGE.ISSUER,
+      audience: JWT_CONFIG.MFA_CHALLENGE.AUDIENCE,
+    };
+    const payload = jwt.verify(token, JWT_CONFIG.MFA_CHALLENGE.SECRET, options) as MfaChallengePayload;
+    if (payload.purpose !== 'mfa_challenge') {
+      throw new JWTError('Invalid challenge token', 'INVALID_TOKEN');
+    }
+    return payload;
+  }
+
+  /**
+   * Generate a token that lets a launched lesson package load its files and
+   * send xAPI statements for one lesson. It has its own audience so it is
+   * never accepted as an access token.
+   */
+  static generatePackageLaunchToken(user: { id: string; role: string }, lessonId: string, packageId: string): string {
+    const options: SignOptions = {
+      expiresIn: JWT_CONFIG.PACKAGE_LAUNCH.EXPIRES_IN as any,
+      algorithm: JWT_CONFIG.PACKAGE_LAUNCH.ALGORITHM,
+      issuer: JWT_CONFIG.PACKAGE_LAUNCH.ISSUER,
+      audience: JWT_CONFIG.PACKAGE_LAUNCH.AUDIENCE,
+    };
+
+    return jwt.sign(
+      { user: { id: user.id, role: user.role }, lessonId, packageId, purpose: 'package_launch' },
+      JWT_CONFIG.PACKAGE_LAUNCH.SECRET,
+      options
+    );
+  }
+
+  /**
+   * Verify package launch token
+   */
+  static verifyPackageLaunchToken(token: string): PackageLaunchPayload {
+    const options: VerifyOptions = {
+      algorithms: ['HS256'],
+      issuer: JWT_CONFIG.PACKAGE_LAUNCH.ISSUER,
+      audience: JWT_CONFIG.PACKAGE_LAUNCH.AUDIENCE,
+    };
+    const payload = jwt.verify(token, JWT_CONFIG.PACKAGE_LAUNCH.SECRET, options) as PackageLaunchPayload;
+    if (payload.purpose !== 'package_launch') {
+      throw new JWTError('Invalid package launch token', 'INVALID_TOKEN');
+    }
+    return payload;
+  }
+
   /**
    * Verify access token
    */
@@ -249,7 +363,7 @@ export class JWTError extends Error {
 
 // JWT Middleware Helper
 export const createJWTMiddleware = (tokenType: 'access' | 'refresh') => {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
       let token: string | null = null;
 
@@ -286,6 +400,16 @@ export const createJWTMiddleware = (tokenType: 'access' | 'refresh') => {
         payload = JWTUtils.verifyRefreshToken(token);
       }
 
+      // Refresh tokens are checked against their session when they are rotated
+      if (tokenType === 'access' && payload.sid && !(await SessionService.isActive(payload.sid))) {
+        res.status(401).json({
+          success: false,
+          message: 'Session has ended. Please sign in again.',
+          code: 'SESSION_REVOKED',
+        });
+        return;
+      }
+
       // Add payload to request
       (req as any).user = payload.user;
       console.log('JWT Middleware: User authenticated:', { userId: payload.user.id, role: payload.user.role, url: req.originalUrl });
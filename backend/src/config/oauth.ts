@@ -0,0 +1,129 @@
+/**
+ * Social sign-in providers. A provider is enabled when its client id is set.
+ * Any OpenID Connect provider can be added through the OIDC_* variables, and
+ * tests can register their own (e.g. a mock provider) with `registerOAuthProvider`.
+ */
+
+// Identity details every provider is mapped to
+export interface OAuthProfile {
+  subject: string; // the provider's stable user id
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+export interface OAuthProviderConfig {
+  id: string;
+  name: string;
+  clientId: string;
+  clientSecret?: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  scopes: string[];
+  // Extra query parameters for the authorization request
+  authorizationParams?: Record<string, string>;
+  // Turn the user info response into a profile; may call further endpoints with the access token
+  mapProfile: (userInfo: any, accessToken: string) => Promise<OAuthProfile> | OAuthProfile;
+}
+
+// Standard OpenID Connect claims
+const mapOidcClaims = (claims: any): OAuthProfile => ({
+  subject: String(claims.sub),
+  email: claims.email,
+  emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+  firstName: claims.given_name,
+  lastName: claims.family_name,
+  displayName: claims.name,
+  avatarUrl: claims.picture
+});
+
+// GitHub only returns a public email on the user; the verified primary one needs another call
+const mapGitHubProfile = async (user: any, accessToken: string): Promise<OAuthProfile> => {
+  const response = await fetch('https://api.github.com/user/emails', {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/vnd.github+json' }
+  });
+  const emails: { email: string; primary: boolean; verified: boolean }[] = response.ok ? await response.json() as any : [];
+  const primary = emails.find(entry => entry.primary && entry.verified);
+  const [firstName, ...rest] = String(user.name || '').split(' ');
+
+  return {
+    subject: String(user.id),
+    email: primary?.email,
+    emailVerified: !!primary,
+    firstName: firstName || undefined,
+    lastName: rest.join(' ') || undefined,
+    displayName: user.name || user.login,
+    avatarUrl: user.avatar_url
+  };
+};
+
+const env = process.env;
+
+const builtInProviders: (OAuthProviderConfig | null)[] = [
+  env.GOOGLE_CLIENT_ID ? {
+    id: 'google',
+    name: 'Google',
+    clientId: env.GOOGLE_CLIENT_ID,
+    clientSecret: env.GOOGLE_CLIENT_SECRET,
+    authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+    scopes: ['openid', 'email', 'profile'],
+    authorizationParams: { prompt: 'select_account' },
+    mapProfile: mapOidcClaims
+  } : null,
+  env.GITHUB_CLIENT_ID ? {
+    id: 'github',
+    name: 'GitHub',
+    clientId: env.GITHUB_CLIENT_ID,
+    clientSecret: env.GITHUB_CLIENT_SECRET,
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    userInfoUrl: 'https://api.github.com/user',
+    scopes: ['read:user', 'user:email'],
+    mapProfile: mapGitHubProfile
+  } : null,
+  // Generic OpenID Connect provider (Microsoft, Okta, Keycloak, ...)
+  env.OIDC_CLIENT_ID && env.OIDC_AUTHORIZATION_URL && env.OIDC_TOKEN_URL && env.OIDC_USERINFO_URL ? {
+    id: env.OIDC_PROVIDER_ID || 'oidc',
+    name: env.OIDC_PROVIDER_NAME || 'Single Sign-On',
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET,
+    authorizationUrl: env.OIDC_AUTHORIZATION_URL,
+    tokenUrl: env.OIDC_TOKEN_URL,
+    userInfoUrl: env.OIDC_USERINFO_URL,
+    scopes: (env.OIDC_SCOPES || 'openid email profile').split(/\s+/),
+    mapProfile: mapOidcClaims
+  } : null
+];
+
+const providers = new Map<string, OAuthProviderConfig>(
+  builtInProviders
+    .filter((provider): provider is OAuthProviderConfig => provider !== null)
+    .map(provider => [provider.id, provider])
+);
+
+export const OAUTH_CONFIG = {
+  // How long a user has to finish signing in at the provider
+  STATE_TTL_MS: 10 * 60 * 1000,
+  // Where providers send the user back to; must match the provider's app settings
+  CALLBACK_BASE_URL: env.OAUTH_CALLBACK_BASE_URL || (env.NODE_ENV === 'production'
+    ? env.BACKEND_URL || 'https://api.eduknit.com'
+    : `http://localhost:${env.PORT || 5000}`),
+  FRONTEND_URL: env.FRONTEND_URL || 'http://localhost:5173',
+};
+
+export const getOAuthProvider = (id: string): OAuthProviderConfig | undefined => providers.get(id);
+
+export const getOAuthProviders = (): OAuthProviderConfig[] => [...providers.values()];
+
+export const registerOAuthProvider = (provider: OAuthProviderConfig): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getOAuthCallbackUrl = (providerId: string): string =>
+  `${OAUTH_CONFIG.CALLBACK_BASE_URL}/api/auth/oauth/${providerId}/callback`;
@@ -0,0 +1,44 @@
+import type { UserRole } from '../models/User';
+
+/**
+ * What each role may do in the admin area. Admins hold every permission
+ * platform-wide; instructors only hold theirs for the programmes listed in
+ * `Programme.instructorIds` (checked by `requirePermission`).
+ */
+
+export const PERMISSIONS = [
+  'courses:view',
+  'courses:manage',
+  'content:manage', // modules and lessons
+  'lesson-packages:manage', // SCORM/xAPI uploads, which run their own scripts for every learner
+  'quizzes:manage',
+  'quizzes:grade',
+  'analytics:view', // programme and quiz analytics
+  'reports:view', // platform-wide dashboards and statistics
+  'assignments:manage',
+  'live-sessions:manage',
+  'badges:manage',
+  'support:manage', // tickets and FAQs
+  'payments:manage', // orders, refunds and coupons
+  'question-bank:manage',
+  'settings:manage',
+  'notifications:manage' // outbound email and webhook deliveries
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  instructor: ['courses:view', 'content:manage', 'quizzes:manage', 'quizzes:grade', 'analytics:view'],
+  user: [],
+  student: [],
+  visitor: []
+};
+
+// Roles whose permissions only cover the programmes they are assigned to
+const PROGRAMME_SCOPED_ROLES: readonly UserRole[] = ['instructor'];
+
+export const hasPermission = (role: string, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role as UserRole]?.includes(permission) ?? false;
+
+export const isProgrammeScoped = (role: string): boolean =>
+  PROGRAMME_SCOPED_ROLES.includes(role as UserRole);
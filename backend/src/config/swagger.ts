@@ -64,7 +64,7 @@ const options = {
             },
             role: {
               type: 'string',
-              enum: ['admin', 'user', 'visitor'],
+              enum: ['admin', 'instructor', 'user', 'student', 'visitor'],
               description: 'User role',
             },
             isEmailVerified: {
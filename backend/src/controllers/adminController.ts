@@ -5,12 +5,16 @@ import ProgrammeModule from '../models/ProgrammeModule';
 import ProgrammeLesson from '../models/ProgrammeLesson';
 import Enrollment from '../models/Enrollment';
 import User from '../models/User';
+import PermissionService from '../services/permissionService';
+import ContentVersionService from '../services/contentVersionService';
 import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError, ValidationError } from '../utils/errors';
 import { 
   success, 
   created, 
   validationError, 
   notFound, 
+  error as errorResponse,
   serverError 
 } from '../utils/response';
 import logger from '../config/logger';
@@ -26,6 +30,7 @@ export const createCourse = async (req: AuthenticatedRequest, res: Response): Pr
       description,
       category,
       instructor,
+      instructorIds,
       duration,
       timeframe,
       level,
@@ -50,6 +55,10 @@ export const createCourse = async (req: AuthenticatedRequest, res: Response): Pr
       return validationError(res, 'Title, description, category, and instructor are required');
     }
 
+    const assignedInstructorIds = instructorIds !== undefined
+      ? await PermissionService.validateInstructorIds(instructorIds)
+      : [];
+
     // Validate minimum values for totalModules, totalLessons, and estimatedDuration
     const finalTotalModules = totalModules || 1;
     const finalTotalLessons = totalLessons || 1;
@@ -61,6 +70,7 @@ export const createCourse = async (req: AuthenticatedRequest, res: Response): Pr
       description,
       category,
       instructor,
+      instructorIds: assignedInstructorIds,
       duration: duration || '2-3 hours/week',
       timeframe: timeframe || '4-6 weeks',
       level: level || 'BEGINNER',
@@ -86,6 +96,10 @@ export const createCourse = async (req: AuthenticatedRequest, res: Response): Pr
 
     created(res, programme, 'Course created successfully');
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return validationError(res, error.message);
+    }
+
     logger.error('Create course error:', error);
     
     // Handle validation errors specifically
@@ -134,6 +148,8 @@ export const getAllCourses = async (req: AuthenticatedRequest, res: Response): P
     if (category) query.category = category;
     if (level) query.level = level;
     if (status !== undefined) query.isActive = status === 'active';
+    // Instructors only see the courses they are assigned to
+    if (req.programmeScope) query._id = { $in: req.programmeScope };
 
     // Get courses with pagination
     const courses = await Programme.find(query)
@@ -207,6 +223,10 @@ export const updateCourse = async (req: AuthenticatedRequest, res: Response): Pr
       return notFound(res, 'Course not found');
     }
 
+    if (updateData.instructorIds !== undefined) {
+      updateData.instructorIds = await PermissionService.validateInstructorIds(updateData.instructorIds);
+    }
+
     // Update course
     Object.assign(course, updateData, { lastModifiedBy: adminId });
     await course.save();
@@ -215,6 +235,9 @@ export const updateCourse = async (req: AuthenticatedRequest, res: Response): Pr
 
     success(res, course, 'Course updated successfully');
   } catch (error) {
+    if (error instanceof AppError) {
+      return validationError(res, error.message);
+    }
     logger.error('Update course error:', error);
     serverError(res, 'Failed to update course');
   }
@@ -483,8 +506,7 @@ export const createModule = async (req: AuthenticatedRequest, res: Response): Pr
       estimatedDuration, 
       totalLessons, 
       learningObjectives, 
-      prerequisites,
-      isActive 
+      prerequisites
     } = req.body;
     
     if (!programmeId || !title || !description) {
@@ -514,8 +536,7 @@ export const createModule = async (req: AuthenticatedRequest, res: Response): Pr
       estimatedDuration: estimatedDuration || 30,
       totalLessons: totalLessons || 1,
       learningObjectives: learningObjectives || [],
-      prerequisites: prerequisites || [],
-      isActive: isActive !== false
+      prerequisites: prerequisites || []
     });
 
     const module = new ProgrammeModule({
@@ -527,7 +548,9 @@ export const createModule = async (req: AuthenticatedRequest, res: Response): Pr
       totalLessons: totalLessons || 1, // Default 1 lesson
       learningObjectives: learningObjectives || [],
       prerequisites: prerequisites || [],
-      isActive: isActive !== false
+      // Hidden from students until it is published
+      isActive: false,
+      publishing: { status: 'DRAFT' }
     });
     
     await module.save();
@@ -558,6 +581,8 @@ export const getModulesByProgramme = async (req: AuthenticatedRequest, res: Resp
     // If programmeId is provided, filter by it
     if (programmeId && programmeId !== 'all') {
       query.programmeId = programmeId;
+    } else if (req.programmeScope) {
+      query.programmeId = { $in: req.programmeScope };
     }
     
     // Add search functionality
@@ -603,16 +628,19 @@ export const getModulesByProgramme = async (req: AuthenticatedRequest, res: Resp
       const courseRef = (module as any).programmeId;
       const courseId = courseRef?._id || (module as any).programmeId;
       const courseTitle = courseRef?.title;
+      // Editors see their unpublished changes
+      const view = ContentVersionService.toEditorView('module', module);
       
       return {
         id: module._id,
-        title: module.title,
-        description: module.description,
+        title: view.title,
+        description: view.description,
         order: (module as any).order || module.orderIndex || 1,
-        estimatedDuration: module.estimatedDuration || 30,
-        objectives: module.learningObjectives || [],
+        estimatedDuration: view.estimatedDuration || 30,
+        objectives: view.learningObjectives || [],
         prerequisites: module.prerequisites || [],
         isActive: module.isActive,
+        publishing: view.publishing,
         createdAt: module.createdAt,
         updatedAt: module.updatedAt,
         createdBy: { username: 'admin', email: 'admin@eduknit.com' },
@@ -643,17 +671,19 @@ export const getModuleById = async (req: AuthenticatedRequest, res: Response): P
     const { id } = req.params;
     const module = await ProgrammeModule.findById(id);
     if (!module) return notFound(res, 'Module not found');
+    const view = ContentVersionService.toEditorView('module', module);
     
     // Transform the response to match frontend expectations
     const transformedModule = {
       id: module._id,
-      title: module.title,
-      description: module.description,
+      title: view.title,
+      description: view.description,
       order: module.orderIndex || 1,
-      estimatedDuration: module.estimatedDuration || 30,
-      objectives: module.learningObjectives || [],
+      estimatedDuration: view.estimatedDuration || 30,
+      objectives: view.learningObjectives || [],
       prerequisites: module.prerequisites || [],
       isActive: module.isActive,
+      publishing: view.publishing,
       createdAt: module.createdAt,
       updatedAt: module.updatedAt,
       createdBy: { username: 'admin', email: 'admin@eduknit.com' },
@@ -669,16 +699,21 @@ export const getModuleById = async (req: AuthenticatedRequest, res: Response): P
   }
 };
 
+/**
+ * Content edits to a published module are saved as a draft until published
+ */
 export const updateModule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const updateData = req.body;
-    const module = await ProgrammeModule.findById(id);
-    if (!module) return notFound(res, 'Module not found');
-    Object.assign(module, updateData);
-    await module.save();
-    success(res, module, 'Module updated successfully');
+    const module = await ContentVersionService.saveDraft('module', id, req.body, req.user!.id);
+    success(res, ContentVersionService.toEditorView('module', module), 'Module updated successfully');
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationError(res, error.message, error.details);
+    }
+    if (error instanceof AppError) {
+      return errorResponse(res, error.message, error.statusCode, error.code);
+    }
     logger.error('Update module error:', error);
     serverError(res, 'Failed to update module');
   }
@@ -689,6 +724,9 @@ export const toggleModuleStatus = async (req: AuthenticatedRequest, res: Respons
     const { id } = req.params;
     const module = await ProgrammeModule.findById(id);
     if (!module) return notFound(res, 'Module not found');
+    if (module.publishing.status === 'DRAFT') {
+      return validationError(res, 'Publish the module before activating it');
+    }
     module.isActive = !module.isActive;
     await module.save();
     success(res, module, 'Module status updated successfully');
@@ -702,8 +740,11 @@ export const deleteModule = async (req: AuthenticatedRequest, res: Response): Pr
   try {
     const { id } = req.params;
     // Delete related lessons
+    const lessonIds = await ProgrammeLesson.find({ moduleId: id }).distinct('_id');
     await ProgrammeLesson.deleteMany({ moduleId: id });
     await ProgrammeModule.findByIdAndDelete(id);
+    await ContentVersionService.deleteHistory('lesson', lessonIds);
+    await ContentVersionService.deleteHistory('module', [id]);
     success(res, null, 'Module and related lessons deleted successfully');
   } catch (error) {
     logger.error('Delete module error:', error);
@@ -718,7 +759,7 @@ export const createLesson = async (req: AuthenticatedRequest, res: Response): Pr
   try {
     console.log('Create lesson request body:', req.body);
     
-    const { moduleId, programmeId, title, description, orderIndex, type, content, estimatedDuration, duration, isRequired, learningObjectives, resources, isActive } = req.body;
+    const { moduleId, programmeId, title, description, orderIndex, type, content, estimatedDuration, duration, isRequired, learningObjectives, resources } = req.body;
     
     if (!moduleId || !programmeId || !title || !type) {
       console.log('Validation failed:', { moduleId, programmeId, title, type });
@@ -774,7 +815,6 @@ export const createLesson = async (req: AuthenticatedRequest, res: Response): Pr
       type,
       estimatedDuration: estimatedDuration || 15,
       isRequired: isRequired !== false,
-      isActive: isActive !== false,
       content: cleanedContent
     });
 
@@ -791,7 +831,9 @@ export const createLesson = async (req: AuthenticatedRequest, res: Response): Pr
       isRequired: isRequired !== false,
       learningObjectives: learningObjectives || [],
       resources: resources || [],
-      isActive: isActive !== false
+      // Hidden from students until it is published
+      isActive: false,
+      publishing: { status: 'DRAFT' }
     });
     
     await lesson.save();
@@ -820,7 +862,7 @@ export const getLessonsByModule = async (req: AuthenticatedRequest, res: Respons
     const total = await ProgrammeLesson.countDocuments({ moduleId });
 
     success(res, {
-      lessons,
+      lessons: lessons.map(lesson => ContentVersionService.toEditorView('lesson', lesson)),
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -839,23 +881,28 @@ export const getLessonById = async (req: AuthenticatedRequest, res: Response): P
     const { id } = req.params;
     const lesson = await ProgrammeLesson.findById(id);
     if (!lesson) return notFound(res, 'Lesson not found');
-    success(res, lesson, 'Lesson retrieved successfully');
+    success(res, ContentVersionService.toEditorView('lesson', lesson), 'Lesson retrieved successfully');
   } catch (error) {
     logger.error('Get lesson by ID error:', error);
     serverError(res, 'Failed to retrieve lesson');
   }
 };
 
+/**
+ * Content edits to a published lesson are saved as a draft until published
+ */
 export const updateLesson = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const updateData = req.body;
-    const lesson = await ProgrammeLesson.findById(id);
-    if (!lesson) return notFound(res, 'Lesson not found');
-    Object.assign(lesson, updateData);
-    await lesson.save();
-    success(res, lesson, 'Lesson updated successfully');
+    const lesson = await ContentVersionService.saveDraft('lesson', id, req.body, req.user!.id);
+    success(res, ContentVersionService.toEditorView('lesson', lesson), 'Lesson updated successfully');
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationError(res, error.message, error.details);
+    }
+    if (error instanceof AppError) {
+      return errorResponse(res, error.message, error.statusCode, error.code);
+    }
     logger.error('Update lesson error:', error);
     serverError(res, 'Failed to update lesson');
   }
@@ -865,6 +912,7 @@ export const deleteLesson = async (req: AuthenticatedRequest, res: Response): Pr
   try {
     const { id } = req.params;
     await ProgrammeLesson.findByIdAndDelete(id);
+    await ContentVersionService.deleteHistory('lesson', [id]);
     success(res, null, 'Lesson deleted successfully');
   } catch (error) {
     logger.error('Delete lesson error:', error);
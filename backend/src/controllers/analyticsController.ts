@@ -1,4 +1,5 @@
 import type { Request, Response } from 'express';
+import { Types } from 'mongoose';
 import UserCourse from '../models/UserCourse';
 import StudentProfile from '../models/StudentProfile';
 import Enrollment from '../models/Enrollment';
@@ -7,6 +8,7 @@ import { AuthenticatedRequest } from '../utils/jwt';
 import logger from '../config/logger';
 import LessonCompletion from '../models/LessonCompletion';
 import QuizResult from '../models/QuizResult';
+import analyticsService from '../services/analyticsService';
 
 /**
  * Get analytics overview for student
@@ -907,3 +909,37 @@ export const getAchievements = async (req: AuthenticatedRequest, res: Response)
     res.status(500).json({ message: 'Internal server error' });
   }
 };
+
+const REPORT_RANGES = [7, 30, 90, 365];
+
+/**
+ * Get everything the student analytics page needs: totals, level, daily and weekly
+ * activity series, course progress, badge progress and the streak heatmap
+ * GET /api/analytics/dashboard?days=30&courseId=
+ */
+export const getDashboardAnalytics = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return validationError(res, 'User ID is required');
+    }
+
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
+    if (!REPORT_RANGES.includes(days)) {
+      return validationError(res, `days must be one of ${REPORT_RANGES.join(', ')}`);
+    }
+
+    const courseId = typeof req.query.courseId === 'string' && req.query.courseId !== 'all'
+      ? req.query.courseId
+      : undefined;
+    if (courseId && !Types.ObjectId.isValid(courseId)) {
+      return validationError(res, 'Invalid course ID');
+    }
+
+    const report = await analyticsService.getStudentAnalyticsReport(userId, days, courseId);
+    success(res, report, 'Analytics retrieved successfully');
+  } catch (error) {
+    logger.error('Get dashboard analytics error:', error);
+    serverError(res, 'Failed to retrieve analytics');
+  }
+};
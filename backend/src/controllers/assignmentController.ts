@@ -0,0 +1,483 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import fs from 'fs/promises';
+import Assignment from '../models/Assignment';
+import AssignmentSubmission, { IAssignmentSubmission } from '../models/AssignmentSubmission';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import { IUser } from '../models/User';
+import AssignmentService from '../services/assignmentService';
+import PermissionService from '../services/permissionService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import {
+  success,
+  created,
+  validationError,
+  notFound,
+  conflict,
+  forbidden,
+  serverError
+} from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Remove files written by multer when a submission is rejected
+ */
+const removeUploadedFiles = async (files?: Express.Multer.File[]): Promise<void> => {
+  if (!files) return;
+  await Promise.all(files.map(file => fs.unlink(file.path).catch(() => undefined)));
+};
+
+/**
+ * Whether the user may download a submission's files: the student who submitted
+ * it, or staff who manage assignments in its programme
+ */
+const canAccessSubmission = async (
+  user: Pick<IUser, 'id' | 'role'>,
+  submission: IAssignmentSubmission
+): Promise<boolean> => {
+  if (String(submission.studentId) === user.id) {
+    return true;
+  }
+  if (!PermissionService.can(user.role, 'assignments:manage')) {
+    return false;
+  }
+  const scope = await PermissionService.getProgrammeScope(user);
+  return !scope || scope.includes(String(submission.programmeId));
+};
+
+/**
+ * Get assignments for the authenticated student's enrolled programmes
+ * @route GET /api/student/assignments
+ * @query programmeId - Optional programme filter
+ */
+export const getStudentAssignments = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const { programmeId } = req.query;
+    const assignments = await AssignmentService.getStudentAssignments(
+      studentId,
+      typeof programmeId === 'string' ? programmeId : undefined
+    );
+
+    success(res, assignments, 'Assignments retrieved successfully');
+  } catch (error) {
+    logger.error('Get student assignments error:', error);
+    serverError(res, 'Failed to retrieve assignments');
+  }
+};
+
+/**
+ * Get a single assignment with the student's submission
+ * @route GET /api/student/assignments/:assignmentId
+ */
+export const getStudentAssignment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    const { assignmentId } = req.params;
+
+    if (!Types.ObjectId.isValid(assignmentId)) {
+      return validationError(res, 'Invalid assignment ID format');
+    }
+
+    const assignment = await Assignment.findOne({ _id: assignmentId, isActive: true }).populate('programmeId', 'title');
+    if (!assignment) {
+      return notFound(res, 'Assignment');
+    }
+
+    const programmeId = (assignment.programmeId as any)._id?.toString() || String(assignment.programmeId);
+    if (!(await AssignmentService.isStudentEnrolled(studentId, programmeId))) {
+      return forbidden(res, 'You are not enrolled in this programme');
+    }
+
+    const submission = await AssignmentSubmission.findOne({ assignmentId, studentId });
+    success(res, AssignmentService.toStudentAssignment(assignment, submission), 'Assignment retrieved successfully');
+  } catch (error) {
+    logger.error('Get student assignment error:', error);
+    serverError(res, 'Failed to retrieve assignment');
+  }
+};
+
+/**
+ * Submit (or resubmit before grading) an assignment with files and/or text
+ * @route POST /api/student/assignments/:assignmentId/submit
+ * @body multipart: files[] (up to 5), textResponse
+ */
+export const submitAssignment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  try {
+    const studentId = req.user?.id;
+    const { assignmentId } = req.params;
+    const textResponse = typeof req.body.textResponse === 'string' ? req.body.textResponse.trim() : '';
+
+    if (!Types.ObjectId.isValid(assignmentId)) {
+      await removeUploadedFiles(files);
+      return validationError(res, 'Invalid assignment ID format');
+    }
+
+    const assignment = await Assignment.findOne({ _id: assignmentId, isActive: true });
+    if (!assignment) {
+      await removeUploadedFiles(files);
+      return notFound(res, 'Assignment');
+    }
+
+    if (!(await AssignmentService.isStudentEnrolled(studentId, assignment.programmeId.toString()))) {
+      await removeUploadedFiles(files);
+      return forbidden(res, 'You are not enrolled in this programme');
+    }
+
+    if (files.length > 0 && !assignment.submissionTypes.includes('FILE')) {
+      await removeUploadedFiles(files);
+      return validationError(res, 'This assignment does not accept file uploads');
+    }
+    if (textResponse && !assignment.submissionTypes.includes('TEXT')) {
+      await removeUploadedFiles(files);
+      return validationError(res, 'This assignment does not accept text responses');
+    }
+    if (files.length === 0 && !textResponse) {
+      return validationError(res, 'A file or text response is required');
+    }
+
+    const now = new Date();
+    const isLate = now.getTime() > assignment.dueDate.getTime();
+    if (isLate && !assignment.allowLateSubmission) {
+      await removeUploadedFiles(files);
+      return validationError(res, 'The deadline for this assignment has passed');
+    }
+
+    let submission = await AssignmentSubmission.findOne({ assignmentId, studentId });
+    if (submission?.status === 'GRADED') {
+      await removeUploadedFiles(files);
+      return conflict(res, 'This assignment has already been graded');
+    }
+
+    const submissionId = submission ? String(submission._id) : new Types.ObjectId().toString();
+    const uploadedFiles = files.map(file => ({
+      filename: file.filename,
+      originalName: file.originalname,
+      url: AssignmentService.fileUrl(submissionId, file.filename),
+      size: file.size,
+      mimeType: file.mimetype
+    }));
+
+    if (submission) {
+      // Replace previous submission content
+      const previousFiles = submission.files.map(file => file.filename);
+      submission.textResponse = textResponse || undefined;
+      submission.files = uploadedFiles as any;
+      submission.submittedAt = now;
+      submission.isLate = isLate;
+      submission.attemptCount += 1;
+      await submission.save();
+      await Promise.all(previousFiles.map(filename =>
+        fs.unlink(AssignmentService.getFilePath(filename)).catch(() => undefined)
+      ));
+    } else {
+      submission = await AssignmentSubmission.create({
+        _id: submissionId,
+        assignmentId,
+        studentId,
+        programmeId: assignment.programmeId,
+        textResponse: textResponse || undefined,
+        files: uploadedFiles,
+        submittedAt: now,
+        isLate
+      });
+    }
+
+    await AssignmentService.syncDeadline(studentId, assignment, now);
+
+    created(res, AssignmentService.toStudentAssignment(assignment, submission, now), 'Assignment submitted successfully');
+  } catch (error) {
+    await removeUploadedFiles(files);
+    logger.error('Submit assignment error:', error);
+    serverError(res, 'Failed to submit assignment');
+  }
+};
+
+/**
+ * Download a submitted file
+ * @route GET /api/student/assignment-submissions/:submissionId/files/:filename
+ */
+export const downloadSubmissionFile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { submissionId, filename } = req.params;
+    if (!Types.ObjectId.isValid(submissionId)) {
+      return validationError(res, 'Invalid submission ID format');
+    }
+
+    const submission = await AssignmentSubmission.findById(submissionId);
+    const file = submission?.files.find(item => item.filename === filename);
+    if (!submission || !file) {
+      return notFound(res, 'File');
+    }
+
+    if (!(await canAccessSubmission(req.user!, submission))) {
+      return forbidden(res, 'You do not have access to this submission');
+    }
+
+    const filePath = AssignmentService.getFilePath(file.filename);
+    try {
+      await fs.access(filePath);
+    } catch {
+      logger.error(`Assignment submission file missing: ${file.filename}`);
+      return notFound(res, 'File');
+    }
+
+    res.setHeader('Content-Type', file.mimeType);
+    res.attachment(file.originalName);
+    res.sendFile(filePath);
+  } catch (error) {
+    logger.error('Download submission file error:', error);
+    serverError(res, 'Failed to download file');
+  }
+};
+
+/**
+ * Create an assignment for a lesson
+ * @route POST /api/admin/assignments
+ */
+export const createAssignment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const {
+      lessonId,
+      title,
+      description,
+      instructions,
+      dueDate,
+      maxScore,
+      passingScore,
+      priority,
+      submissionTypes,
+      allowLateSubmission,
+      attachments,
+      rubric,
+      isActive
+    } = req.body;
+
+    if (!lessonId || !title || !description || !dueDate) {
+      return validationError(res, 'lessonId, title, description and dueDate are required');
+    }
+    if (!Types.ObjectId.isValid(lessonId)) {
+      return validationError(res, 'Invalid lessonId format');
+    }
+
+    const lesson = await ProgrammeLesson.findById(lessonId);
+    if (!lesson) {
+      return notFound(res, 'Lesson');
+    }
+
+    const assignment = await Assignment.create({
+      lessonId,
+      moduleId: lesson.moduleId,
+      programmeId: lesson.programmeId,
+      title,
+      description,
+      instructions,
+      dueDate,
+      maxScore,
+      passingScore,
+      priority,
+      submissionTypes,
+      allowLateSubmission,
+      attachments: attachments || [],
+      rubric: rubric || [],
+      isActive: isActive !== false,
+      createdBy: req.user?.id
+    });
+
+    created(res, assignment, 'Assignment created successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Create assignment error:', error);
+    serverError(res, 'Failed to create assignment');
+  }
+};
+
+/**
+ * List assignments with submission counts
+ * @route GET /api/admin/assignments?programmeId=...&lessonId=...
+ */
+export const getAssignments = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { programmeId, lessonId } = req.query;
+    const query: any = {};
+    if (typeof programmeId === 'string' && Types.ObjectId.isValid(programmeId)) query.programmeId = programmeId;
+    if (typeof lessonId === 'string' && Types.ObjectId.isValid(lessonId)) query.lessonId = lessonId;
+
+    const assignments = await Assignment.find(query)
+      .populate('programmeId', 'title')
+      .populate('lessonId', 'title')
+      .sort({ dueDate: 1 });
+
+    const counts = await AssignmentSubmission.aggregate([
+      { $match: { assignmentId: { $in: assignments.map(a => a._id) } } },
+      {
+        $group: {
+          _id: '$assignmentId',
+          submitted: { $sum: 1 },
+          graded: { $sum: { $cond: [{ $eq: ['$status', 'GRADED'] }, 1, 0] } }
+        }
+      }
+    ]);
+    const countMap = new Map(counts.map(c => [c._id.toString(), c]));
+
+    success(res, assignments.map(assignment => ({
+      ...assignment.toJSON(),
+      submissionCount: countMap.get(String(assignment._id))?.submitted || 0,
+      gradedCount: countMap.get(String(assignment._id))?.graded || 0
+    })), 'Assignments retrieved successfully');
+  } catch (error) {
+    logger.error('Get assignments error:', error);
+    serverError(res, 'Failed to retrieve assignments');
+  }
+};
+
+/**
+ * Update an assignment
+ * @route PUT /api/admin/assignments/:id
+ */
+export const updateAssignment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updates = { ...req.body };
+
+    // Lesson placement is fixed at creation time
+    delete updates.lessonId;
+    delete updates.moduleId;
+    delete updates.programmeId;
+    delete updates.createdBy;
+
+    const assignment = await Assignment.findByIdAndUpdate(id, updates, { new: true, runValidators: true });
+    if (!assignment) {
+      return notFound(res, 'Assignment');
+    }
+
+    success(res, assignment, 'Assignment updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError' || error.name === 'CastError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Update assignment error:', error);
+    serverError(res, 'Failed to update assignment');
+  }
+};
+
+/**
+ * Delete an assignment; assignments with submissions are deactivated instead
+ * @route DELETE /api/admin/assignments/:id
+ */
+export const deleteAssignment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const assignment = await Assignment.findById(id);
+    if (!assignment) {
+      return notFound(res, 'Assignment');
+    }
+
+    const hasSubmissions = await AssignmentSubmission.exists({ assignmentId: id });
+    if (hasSubmissions) {
+      assignment.isActive = false;
+      await assignment.save();
+      return success(res, assignment, 'Assignment has submissions and was deactivated');
+    }
+
+    await assignment.deleteOne();
+    success(res, null, 'Assignment deleted successfully');
+  } catch (error) {
+    logger.error('Delete assignment error:', error);
+    serverError(res, 'Failed to delete assignment');
+  }
+};
+
+/**
+ * List submissions for an assignment
+ * @route GET /api/admin/assignments/:id/submissions?status=SUBMITTED|GRADED
+ */
+export const getAssignmentSubmissions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status } = req.query;
+
+    const assignment = await Assignment.findById(id);
+    if (!assignment) {
+      return notFound(res, 'Assignment');
+    }
+
+    const query: any = { assignmentId: id };
+    if (status === 'SUBMITTED' || status === 'GRADED') query.status = status;
+
+    const submissions = await AssignmentSubmission.find(query)
+      .populate('studentId', 'firstName lastName email username')
+      .sort({ submittedAt: 1 });
+
+    success(res, { assignment, submissions }, 'Submissions retrieved successfully');
+  } catch (error) {
+    logger.error('Get assignment submissions error:', error);
+    serverError(res, 'Failed to retrieve submissions');
+  }
+};
+
+/**
+ * Grade a submission using rubric scores and/or a direct score
+ * @route PUT /api/admin/assignment-submissions/:submissionId/grade
+ * @body { rubricScores?: [{ criterion, points, comment }], score?: number, feedback?: string }
+ */
+export const gradeSubmission = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { submissionId } = req.params;
+    const { rubricScores = [], score, feedback } = req.body;
+
+    const submission = await AssignmentSubmission.findById(submissionId);
+    if (!submission) {
+      return notFound(res, 'Submission');
+    }
+
+    const assignment = await Assignment.findById(submission.assignmentId);
+    if (!assignment) {
+      return notFound(res, 'Assignment');
+    }
+
+    if (!Array.isArray(rubricScores)) {
+      return validationError(res, 'rubricScores must be an array');
+    }
+
+    let finalScore: number;
+    if (score !== undefined && score !== null) {
+      finalScore = Number(score);
+    } else if (assignment.rubric.length > 0) {
+      try {
+        finalScore = AssignmentService.scoreFromRubric(assignment, rubricScores);
+      } catch (rubricError) {
+        return validationError(res, (rubricError as Error).message);
+      }
+    } else {
+      return validationError(res, 'A score is required when the assignment has no rubric');
+    }
+
+    if (Number.isNaN(finalScore) || finalScore < 0 || finalScore > assignment.maxScore) {
+      return validationError(res, `Score must be between 0 and ${assignment.maxScore}`);
+    }
+
+    submission.status = 'GRADED';
+    submission.grade = {
+      score: finalScore,
+      rubricScores,
+      feedback,
+      gradedBy: req.user?.id,
+      gradedAt: new Date()
+    } as any;
+    await submission.save();
+
+    success(res, submission, 'Submission graded successfully');
+  } catch (error) {
+    logger.error('Grade submission error:', error);
+    serverError(res, 'Failed to grade submission');
+  }
+};
@@ -3,11 +3,10 @@ import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import User, { IUser } from '../models/User';
 import { 
-  generateAccessToken, 
-  generateRefreshToken, 
-  verifyRefreshToken,
   setTokensInCookies,
   clearTokensFromCookies,
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken,
   AuthenticatedRequest
 } from '../utils/jwt';
 import { 
@@ -15,7 +14,8 @@ import {
   created, 
   authenticationError, 
   conflict, 
-  validationError 
+  validationError,
+  forbidden
 } from '../utils/response';
 import { 
   AuthenticationError, 
@@ -23,12 +23,93 @@ import {
   ValidationError 
 } from '../utils/errors';
 import emailService from '../services/emailService';
+import SettingsService from '../services/settingsService';
+import SessionService, { ClientInfo } from '../services/sessionService';
+import TwoFactorService from '../services/twoFactorService';
+import AuditService from '../services/auditService';
+import { IAuditLog } from '../models/AuditLog';
 import logger from '../config/logger';
 
+const getClientInfo = (req: Request): ClientInfo => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
+// Audit logs have no visitor role
+const auditRole = (role: IUser['role']): IAuditLog['performedByRole'] => role === 'visitor' ? 'user' : role;
+
+/**
+ * Finish a sign-in once every factor has been checked: start a session for
+ * this device, set its cookies and send the user's profile
+ */
+const completeLogin = async (req: Request, res: Response, user: IUser, extra: Record<string, unknown> = {}): Promise<void> => {
+  // Reset login attempts on successful login
+  await user.resetLoginAttempts();
+
+  // Update last login
+  user.lastLoginAt = new Date();
+  await user.save();
+
+  // Start a session for this device and issue its tokens
+  const { accessToken, refreshToken } = await SessionService.createSession(
+    { id: user.id, role: user.role },
+    getClientInfo(req)
+  );
+
+  // Set tokens in cookies
+  setTokensInCookies(res, accessToken, refreshToken);
+
+  logger.info(`User logged in: ${user.email}`);
+
+  success(res, {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    isEmailVerified: user.isEmailVerified,
+    enrollmentStatus: user.enrollmentStatus,
+    ...extra
+  }, 'Login successful');
+};
+
+/**
+ * Resolve the user behind a two-factor challenge token, or send a 401
+ */
+const getChallengedUser = async (req: Request, res: Response): Promise<IUser | null> => {
+  let userId: string;
+  try {
+    userId = verifyMfaChallengeToken(req.body.challengeToken).user.id;
+  } catch {
+    authenticationError(res, 'Your sign-in has expired. Please enter your password again.');
+    return null;
+  }
+
+  const user = await User.findById(userId);
+  if (!user || user.enrollmentStatus !== 'active') {
+    authenticationError(res, 'Account is not active. Please contact support.');
+    return null;
+  }
+  if (user.isLocked()) {
+    authenticationError(res, 'Account is temporarily locked due to too many failed login attempts. Please try again later.');
+    return null;
+  }
+  return user;
+};
+
 // Register a new user
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { username, email, password, firstName, lastName, role = 'user' } = req.body;
+    const settings = await SettingsService.getSettings();
+    if (!settings.enableRegistration) {
+      forbidden(res, 'Registration is currently disabled');
+      return;
+    }
+
+    const { username, email, password, firstName, lastName } = req.body;
+    // Never taken from the request: self-registration must not pick its own role
+    const role = settings.defaultUserRole;
 
     // Check if user already exists
     const existingUser = await User.findOne({ 
@@ -45,6 +126,35 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     const salt = await bcrypt.genSalt(parseInt(process.env.BCRYPT_ROUNDS || '12'));
     const hashedPassword = await bcrypt.hash(password, salt);
 
+    // Skip the verification step entirely when the platform does not require it
+    if (!settings.requireEmailVerification) {
+      const user = new User({
+        username,
+        email,
+        password: hashedPassword,
+        firstName,
+        lastName,
+        role,
+        isEmailVerified: true,
+        enrollmentStatus: 'active'
+      });
+
+      await user.save();
+
+      logger.info(`New user registered without email verification: ${user.email}`);
+
+      created(res, {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        isEmailVerified: user.isEmailVerified
+      }, 'User registered successfully. You can now log in.');
+      return;
+    }
+
     // Generate email verification token
     const emailVerificationToken = crypto.randomBytes(32).toString('hex');
     const emailVerificationExpires = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
@@ -134,51 +244,90 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     if (!isPasswordValid) {
       // Increment login attempts
       await user.incLoginAttempts();
+      await AuditService.logLogin(user.id, auditRole(user.role), req, false, 'Invalid credentials', 'password');
       
       authenticationError(res, 'Invalid credentials');
       return;
     }
 
-    // Reset login attempts on successful login
-    await user.resetLoginAttempts();
-
-    // Update last login
-    user.lastLoginAt = new Date();
-    await user.save();
+    await AuditService.logLogin(user.id, auditRole(user.role), req, true, undefined, 'password');
+
+    // With two-factor authentication on (or required for the role but not yet
+    // set up) the password only earns a short-lived challenge. Failed attempts
+    // keep counting until the second factor is passed.
+    const enrollmentRequired = !user.twoFactor?.enabled && await TwoFactorService.isRequired(user.role);
+    if (user.twoFactor?.enabled || enrollmentRequired) {
+      success(res, {
+        mfaRequired: true,
+        enrollmentRequired,
+        challengeToken: generateMfaChallengeToken({ id: user.id, role: user.role })
+      }, enrollmentRequired
+        ? 'Two-factor authentication must be set up for your account'
+        : 'Enter the code from your authenticator app');
+      return;
+    }
 
-    // Generate tokens
-    const payload = {
-      user: {
-        id: user.id,
-        role: user.role,
-      },
-    };
+    await completeLogin(req, res, user);
 
-    const accessToken = generateAccessToken(payload);
-    const refreshToken = generateRefreshToken(payload);
+  } catch (error) {
+    logger.error('Login error:', error);
+    throw error; // Let the global error handler deal with it
+  }
+};
 
-    // Add refresh token to user's refresh tokens array
-    user.refreshTokens.push(refreshToken);
-    await user.save();
+// Start the two-factor setup a role policy requires, during sign-in
+export const setupTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await getChallengedUser(req, res);
+    if (!user) {
+      return;
+    }
+    if (user.twoFactor?.enabled) {
+      conflict(res, 'Two-factor authentication is already set up');
+      return;
+    }
 
-    // Set tokens in cookies
-    setTokensInCookies(res, accessToken, refreshToken);
+    const enrollment = await TwoFactorService.beginEnrollment(user.id);
+    success(res, enrollment, 'Add this account to your authenticator app, then enter the code it shows');
+  } catch (error) {
+    logger.error('Two-factor login setup error:', error);
+    throw error; // Let the global error handler deal with it
+  }
+};
 
-    logger.info(`User logged in: ${user.email}`);
+// Second step of sign-in: check the authenticator or recovery code behind a challenge
+export const verifyTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await getChallengedUser(req, res);
+    if (!user) {
+      return;
+    }
 
-    success(res, {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      role: user.role,
-      isEmailVerified: user.isEmailVerified,
-      enrollmentStatus: user.enrollmentStatus
-    }, 'Login successful');
+    const { code, recoveryCode } = req.body;
+    let step: string;
+    let recoveryCodes: string[] | undefined;
+    try {
+      if (user.twoFactor?.enabled) {
+        step = await TwoFactorService.verify(user.id, { code, recoveryCode });
+      } else {
+        // First code from a newly added authenticator finishes the required setup
+        step = 'enrollment';
+        recoveryCodes = await TwoFactorService.confirmEnrollment(user.id, code);
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof ValidationError) {
+        await user.incLoginAttempts();
+        await AuditService.logLogin(user.id, auditRole(user.role), req, false, error.message, 'two_factor');
+        authenticationError(res, error.message);
+        return;
+      }
+      throw error;
+    }
 
+    await AuditService.logLogin(user.id, auditRole(user.role), req, true, undefined, `two_factor:${step}`);
+    await completeLogin(req, res, user, recoveryCodes ? { recoveryCodes } : {});
   } catch (error) {
-    logger.error('Login error:', error);
+    logger.error('Two-factor login error:', error);
     throw error; // Let the global error handler deal with it
   }
 };
@@ -190,10 +339,8 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
     const user = (req as any).user;
     
     if (refreshToken && user) {
-      // Remove refresh token from user's refresh tokens array
-      await User.findByIdAndUpdate(user.id, {
-        $pull: { refreshTokens: refreshToken }
-      });
+      // End this device's session
+      await SessionService.endSession(refreshToken, user.id);
     }
 
     // Clear cookies
@@ -227,35 +374,11 @@ export const refreshToken = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
-    // Verify refresh token
-    const decodedPayload = verifyRefreshToken(refreshToken);
-    
-    // Check if refresh token exists in user's refresh tokens array
-    const user = await User.findById(decodedPayload.user.id);
-    if (!user || !user.refreshTokens.includes(refreshToken)) {
-      res.status(401).json({
-        success: false,
-        message: 'Invalid refresh token'
-      });
-      return;
-    }
-
-    // Create clean payload without expiration data
-    const payload = {
-      user: {
-        id: decodedPayload.user.id,
-        role: decodedPayload.user.role
-      }
-    };
-
-    // Generate new tokens
-    const newAccessToken = generateAccessToken(payload);
-    const newRefreshToken = generateRefreshToken(payload);
-
-    // Update user's refresh tokens array
-    user.refreshTokens = user.refreshTokens.filter(token => token !== refreshToken);
-    user.refreshTokens.push(newRefreshToken);
-    await user.save();
+    // Rotate the token; reusing an already rotated token revokes its session
+    const { accessToken: newAccessToken, refreshToken: newRefreshToken } = await SessionService.rotate(
+      refreshToken,
+      getClientInfo(req)
+    );
 
     // Set new tokens in cookies
     setTokensInCookies(res, newAccessToken, newRefreshToken);
@@ -265,6 +388,14 @@ export const refreshToken = async (req: Request, res: Response): Promise<void> =
       message: 'Token refreshed successfully'
     });
   } catch (error) {
+    if (error instanceof AuthenticationError) {
+      clearTokensFromCookies(res);
+      res.status(401).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
     logger.error('Token refresh error:', error);
     res.status(401).json({
       success: false,
@@ -412,10 +543,14 @@ export const resetPassword = async (req: Request, res: Response): Promise<void>
 
     // Update password and clear reset token
     user.password = hashedPassword;
+    user.hasPassword = true;
     user.passwordResetToken = undefined;
     user.passwordResetExpires = undefined;
     await user.save();
 
+    // Whoever knew the old password may still be signed in
+    await SessionService.revokeAllSessions(user.id, 'PASSWORD_CHANGED');
+
     logger.info(`Password reset successful for: ${user.email}`);
 
     res.json({
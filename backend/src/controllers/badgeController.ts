@@ -0,0 +1,153 @@
+import { Response } from 'express';
+import Badge from '../models/Badge';
+import StudentProfile from '../models/StudentProfile';
+import User from '../models/User';
+import BadgeService from '../services/badgeService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { success, created, validationError, notFound, conflict, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+const EDITABLE_BADGE_FIELDS = ['name', 'description', 'icon', 'category', 'points', 'rule', 'isActive'] as const;
+
+/**
+ * List badge definitions with how many students hold each one
+ * @route GET /api/admin/badges
+ */
+export const getBadges = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await BadgeService.ensureDefaultBadges();
+
+    const filter: Record<string, any> = {};
+    if (req.query.isActive !== undefined) {
+      filter.isActive = req.query.isActive === 'true';
+    }
+
+    const badges = await Badge.find(filter).sort({ isSystem: -1, createdAt: 1 });
+    const awardCounts = await StudentProfile.aggregate([
+      { $unwind: '$gamification.badges' },
+      { $group: { _id: '$gamification.badges.badgeId', count: { $sum: 1 } } }
+    ]);
+    const countByBadge = new Map(awardCounts.map(item => [item._id, item.count]));
+
+    success(res, badges.map(badge => ({
+      ...badge.toJSON(),
+      awardedCount: countByBadge.get(badge.badgeId) || 0
+    })), 'Badges retrieved successfully');
+  } catch (error) {
+    logger.error('Get badges error:', error);
+    serverError(res, 'Failed to retrieve badges');
+  }
+};
+
+/**
+ * Create a badge rule
+ * @route POST /api/admin/badges
+ */
+export const createBadge = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { badgeId, name, description, icon, category, points, rule, isActive } = req.body;
+
+    const existing = await Badge.findOne({ badgeId: String(badgeId).toLowerCase() });
+    if (existing) {
+      return conflict(res, 'A badge with this ID already exists');
+    }
+
+    const badge = await Badge.create({
+      badgeId,
+      name,
+      description,
+      icon,
+      category,
+      points,
+      rule,
+      isActive,
+      isSystem: false,
+      createdBy: req.user?.id
+    });
+
+    logger.info(`Badge ${badge.badgeId} created by ${req.user?.id}`);
+    created(res, badge, 'Badge created successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Create badge error:', error);
+    serverError(res, 'Failed to create badge');
+  }
+};
+
+/**
+ * Update a badge rule. The badge ID is immutable because awarded badges reference it.
+ * @route PUT /api/admin/badges/:id
+ */
+export const updateBadge = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const badge = await Badge.findById(req.params.id);
+    if (!badge) {
+      return notFound(res, 'Badge');
+    }
+
+    for (const field of EDITABLE_BADGE_FIELDS) {
+      if (req.body[field] !== undefined) {
+        badge.set(field, req.body[field]);
+      }
+    }
+    await badge.save();
+
+    logger.info(`Badge ${badge.badgeId} updated by ${req.user?.id}`);
+    success(res, badge, 'Badge updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Update badge error:', error);
+    serverError(res, 'Failed to update badge');
+  }
+};
+
+/**
+ * Delete a badge rule. Built-in badges and badges students already hold are deactivated instead.
+ * @route DELETE /api/admin/badges/:id
+ */
+export const deleteBadge = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const badge = await Badge.findById(req.params.id);
+    if (!badge) {
+      return notFound(res, 'Badge');
+    }
+
+    const isAwarded = await StudentProfile.exists({ 'gamification.badges.badgeId': badge.badgeId });
+    if (badge.isSystem || isAwarded) {
+      badge.isActive = false;
+      await badge.save();
+      return success(res, badge, 'Badge deactivated because it is built in or already awarded');
+    }
+
+    await badge.deleteOne();
+
+    logger.info(`Badge ${badge.badgeId} deleted by ${req.user?.id}`);
+    success(res, null, 'Badge deleted successfully');
+  } catch (error) {
+    logger.error('Delete badge error:', error);
+    serverError(res, 'Failed to delete badge');
+  }
+};
+
+/**
+ * Re-evaluate badge rules for a student, e.g. after adding a new badge
+ * @route POST /api/admin/badges/evaluate/:studentId
+ */
+export const evaluateStudentBadges = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const student = await User.findById(req.params.studentId).select('_id');
+    if (!student) {
+      return notFound(res, 'Student');
+    }
+
+    const awarded = await BadgeService.evaluate(req.params.studentId, 'MANUAL');
+    success(res, { awarded }, `${awarded.length} badge(s) awarded`);
+  } catch (error) {
+    logger.error('Evaluate student badges error:', error);
+    serverError(res, 'Failed to evaluate badges');
+  }
+};
@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import CalendarService from '../services/calendarService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { success, validationError, notFound, forbidden, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+const MAX_RANGE_DAYS = 400;
+
+/**
+ * Get calendar events for the authenticated student
+ * @route GET /api/student/calendar
+ * @query from, to - ISO dates bounding the window (default: last 30 days to next year)
+ */
+export const getStudentCalendar = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const range = CalendarService.defaultRange();
+    if (typeof req.query.from === 'string') {
+      range.from = new Date(req.query.from);
+    }
+    if (typeof req.query.to === 'string') {
+      range.to = new Date(req.query.to);
+    }
+    if (isNaN(range.from.getTime()) || isNaN(range.to.getTime()) || range.from > range.to) {
+      return validationError(res, 'Invalid date range');
+    }
+    if (range.to.getTime() - range.from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return validationError(res, `Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+    }
+
+    const events = await CalendarService.getStudentEvents(studentId, range);
+    success(res, { events, from: range.from, to: range.to }, 'Calendar events retrieved successfully');
+  } catch (error) {
+    logger.error('Get student calendar error:', error);
+    serverError(res, 'Failed to retrieve calendar events');
+  }
+};
+
+/**
+ * Get the student's private calendar subscription URL
+ * @route GET /api/student/calendar/feed
+ */
+export const getCalendarFeedUrl = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const token = await CalendarService.getFeedToken(studentId);
+    success(res, { feedUrl: CalendarService.getFeedUrl(token) }, 'Calendar feed URL retrieved successfully');
+  } catch (error) {
+    logger.error('Get calendar feed URL error:', error);
+    serverError(res, 'Failed to retrieve calendar feed URL');
+  }
+};
+
+/**
+ * Replace the student's calendar subscription URL, revoking the old one
+ * @route POST /api/student/calendar/feed/regenerate
+ */
+export const regenerateCalendarFeedUrl = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const token = await CalendarService.regenerateFeedToken(studentId);
+    logger.info(`Calendar feed token regenerated for ${studentId}`);
+    success(res, { feedUrl: CalendarService.getFeedUrl(token) }, 'Calendar feed URL regenerated successfully');
+  } catch (error) {
+    logger.error('Regenerate calendar feed URL error:', error);
+    serverError(res, 'Failed to regenerate calendar feed URL');
+  }
+};
+
+/**
+ * Serve a student's calendar as an iCalendar feed. The token in the URL is the only credential,
+ * so calendar apps can subscribe without logging in.
+ * @route GET /api/calendar/:token.ics
+ */
+export const getCalendarFeed = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await CalendarService.findUserByFeedToken(req.params.token);
+    if (!user) {
+      return notFound(res, 'Calendar feed');
+    }
+
+    const events = await CalendarService.getStudentEvents(user.id);
+    const ics = CalendarService.toICalendar(events, `EduKnit – ${user.name}`);
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="eduknit.ics"',
+      'Cache-Control': 'private, max-age=300'
+    });
+    res.send(ics);
+  } catch (error) {
+    logger.error('Get calendar feed error:', error);
+    serverError(res, 'Failed to generate calendar feed');
+  }
+};
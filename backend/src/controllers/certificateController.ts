@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import { AuthenticatedRequest } from '../utils/jwt';
+import Certificate from '../models/Certificate';
+import Enrollment from '../models/Enrollment';
+import CertificateService from '../services/certificateService';
+import { success, notFound, serverError, forbidden, validationError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Get certificates earned by the authenticated student
+ * @route GET /api/certificates
+ */
+export const getMyCertificates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const certificates = await CertificateService.getStudentCertificates(studentId);
+
+    success(res, certificates.map(certificate => ({
+      id: certificate._id,
+      certificateId: certificate.certificateId,
+      programmeId: certificate.programmeId,
+      enrollmentId: certificate.enrollmentId,
+      programmeTitle: certificate.programmeTitle,
+      studentName: certificate.studentName,
+      issuedAt: certificate.issuedAt,
+      completionDate: certificate.completionDate,
+      status: certificate.status,
+      downloadUrl: `/api/certificates/${certificate.certificateId}/download`
+    })), 'Certificates retrieved successfully');
+  } catch (error) {
+    logger.error('Get certificates error:', error);
+    serverError(res, 'Failed to retrieve certificates');
+  }
+};
+
+/**
+ * Issue the certificate for a completed enrollment if it was not issued automatically
+ * @route POST /api/certificates/enrollments/:enrollmentId
+ */
+export const claimCertificate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    const { enrollmentId } = req.params;
+
+    if (!enrollmentId.match(/^[0-9a-fA-F]{24}$/)) {
+      return validationError(res, 'Invalid enrollment ID format');
+    }
+
+    const enrollment = await Enrollment.findOne({ _id: enrollmentId, studentId });
+    if (!enrollment) {
+      return notFound(res, 'Enrollment');
+    }
+
+    const certificate = await CertificateService.issueForEnrollment(enrollmentId);
+    if (!certificate) {
+      return validationError(res, 'Certificate is not available for this enrollment yet');
+    }
+
+    success(res, {
+      certificateId: certificate.certificateId,
+      issuedAt: certificate.issuedAt,
+      downloadUrl: `/api/certificates/${certificate.certificateId}/download`
+    }, 'Certificate issued successfully');
+  } catch (error) {
+    logger.error('Claim certificate error:', error);
+    serverError(res, 'Failed to issue certificate');
+  }
+};
+
+/**
+ * Download a rendered certificate (owner or admin only)
+ * @route GET /api/certificates/:certificateId/download
+ */
+export const downloadCertificate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { certificateId } = req.params;
+    const certificate = await Certificate.findOne({ certificateId: certificateId.toUpperCase() });
+
+    if (!certificate) {
+      return notFound(res, 'Certificate');
+    }
+
+    const isOwner = certificate.studentId.toString() === String(req.user?.id);
+    if (!isOwner && req.user?.role !== 'admin') {
+      return forbidden(res, 'You do not have access to this certificate');
+    }
+
+    const filePath = CertificateService.getFilePath(certificate);
+    if (!fs.existsSync(filePath)) {
+      logger.error(`Certificate file missing for ${certificate.certificateId}`);
+      return notFound(res, 'Certificate file');
+    }
+
+    res.setHeader('Content-Type', certificate.file.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${certificate.certificateId}.svg"`);
+    res.sendFile(filePath);
+  } catch (error) {
+    logger.error('Download certificate error:', error);
+    serverError(res, 'Failed to download certificate');
+  }
+};
+
+/**
+ * Publicly verify that a certificate ID is genuine
+ * @route GET /api/certificates/verify/:certificateId
+ */
+export const verifyCertificate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { certificateId } = req.params;
+    const verification = await CertificateService.verify(certificateId);
+
+    if (!verification.status) {
+      return notFound(res, 'Certificate');
+    }
+
+    success(res, verification, verification.valid ? 'Certificate is valid' : 'Certificate has been revoked');
+  } catch (error) {
+    logger.error('Verify certificate error:', error);
+    serverError(res, 'Failed to verify certificate');
+  }
+};
@@ -0,0 +1,140 @@
+import { Response } from 'express';
+import ContentVersionService, { ContentRef } from '../services/contentVersionService';
+import { VersionedContentType } from '../models/ContentVersion';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError, ValidationError } from '../utils/errors';
+import { success, error as errorResponse, validationError, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+type Handler = (req: AuthenticatedRequest, res: Response) => Promise<void>;
+
+const LABELS: Record<VersionedContentType, string> = {
+  lesson: 'Lesson',
+  module: 'Module'
+};
+
+const handleError = (res: Response, err: unknown, action: string, fallback: string): void => {
+  if (err instanceof ValidationError) {
+    return validationError(res, err.message, err.details);
+  }
+  if (err instanceof AppError) {
+    return errorResponse(res, err.message, err.statusCode, err.code);
+  }
+  logger.error(`${action} error:`, err);
+  serverError(res, fallback);
+};
+
+const parseRef = (value: unknown, fallback: ContentRef): ContentRef => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  if (value === 'published' || value === 'draft') {
+    return value;
+  }
+  return Number(value);
+};
+
+/**
+ * Publish the pending changes as a new version
+ * @route POST /api/admin/lessons/:id/publish, POST /api/admin/modules/:id/publish
+ */
+export const publishContent = (contentType: VersionedContentType): Handler => async (req, res) => {
+  try {
+    const doc = await ContentVersionService.publish(contentType, req.params.id, req.user!.id, { note: req.body.note });
+    success(res, ContentVersionService.toEditorView(contentType, doc), `${LABELS[contentType]} published as version ${doc.publishing.version}`);
+  } catch (error) {
+    handleError(res, error, `Publish ${contentType}`, `Failed to publish ${contentType}`);
+  }
+};
+
+/**
+ * @route PUT /api/admin/lessons/:id/schedule, PUT /api/admin/modules/:id/schedule
+ */
+export const scheduleContentPublish = (contentType: VersionedContentType): Handler => async (req, res) => {
+  try {
+    const doc = await ContentVersionService.schedule(contentType, req.params.id, new Date(req.body.publishAt), req.user!.id);
+    success(res, ContentVersionService.toEditorView(contentType, doc), 'Publish scheduled');
+  } catch (error) {
+    handleError(res, error, `Schedule ${contentType} publish`, 'Failed to schedule publish');
+  }
+};
+
+/**
+ * @route DELETE /api/admin/lessons/:id/schedule, DELETE /api/admin/modules/:id/schedule
+ */
+export const cancelScheduledPublish = (contentType: VersionedContentType): Handler => async (req, res) => {
+  try {
+    const doc = await ContentVersionService.unschedule(contentType, req.params.id);
+    success(res, ContentVersionService.toEditorView(contentType, doc), 'Scheduled publish cancelled');
+  } catch (error) {
+    handleError(res, error, `Cancel ${contentType} publish`, 'Failed to cancel scheduled publish');
+  }
+};
+
+/**
+ * @route DELETE /api/admin/lessons/:id/draft, DELETE /api/admin/modules/:id/draft
+ */
+export const discardContentDraft = (contentType: VersionedContentType): Handler => async (req, res) => {
+  try {
+    const doc = await ContentVersionService.discardDraft(contentType, req.params.id);
+    success(res, ContentVersionService.toEditorView(contentType, doc), 'Draft discarded');
+  } catch (error) {
+    handleError(res, error, `Discard ${contentType} draft`, 'Failed to discard draft');
+  }
+};
+
+/**
+ * @route GET /api/admin/lessons/:id/versions, GET /api/admin/modules/:id/versions
+ */
+export const getContentVersions = (contentType: VersionedContentType): Handler => async (req, res) => {
+  try {
+    const versions = await ContentVersionService.listVersions(contentType, req.params.id);
+    success(res, versions);
+  } catch (error) {
+    handleError(res, error, `Get ${contentType} versions`, 'Failed to retrieve versions');
+  }
+};
+
+/**
+ * Differences between two versions; `published` and `draft` stand for the
+ * published content and the working copy
+ * @route GET /api/admin/lessons/:id/versions/diff?from=&to=
+ */
+export const getContentDiff = (contentType: VersionedContentType): Handler => async (req, res) => {
+  try {
+    const diff = await ContentVersionService.diff(
+      contentType,
+      req.params.id,
+      parseRef(req.query.from, 'published'),
+      parseRef(req.query.to, 'draft')
+    );
+    success(res, diff);
+  } catch (error) {
+    handleError(res, error, `Diff ${contentType} versions`, 'Failed to compare versions');
+  }
+};
+
+/**
+ * @route GET /api/admin/lessons/:id/versions/:version
+ */
+export const getContentVersion = (contentType: VersionedContentType): Handler => async (req, res) => {
+  try {
+    const version = await ContentVersionService.getVersion(contentType, req.params.id, Number(req.params.version));
+    success(res, version);
+  } catch (error) {
+    handleError(res, error, `Get ${contentType} version`, 'Failed to retrieve version');
+  }
+};
+
+/**
+ * Publish an earlier version's content as a new version
+ * @route POST /api/admin/lessons/:id/versions/:version/rollback
+ */
+export const rollbackContent = (contentType: VersionedContentType): Handler => async (req, res) => {
+  try {
+    const doc = await ContentVersionService.rollback(contentType, req.params.id, Number(req.params.version), req.user!.id);
+    success(res, ContentVersionService.toEditorView(contentType, doc), `${LABELS[contentType]} rolled back to version ${req.params.version}`);
+  } catch (error) {
+    handleError(res, error, `Roll back ${contentType}`, `Failed to roll back ${contentType}`);
+  }
+};
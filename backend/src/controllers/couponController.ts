@@ -0,0 +1,221 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import Coupon from '../models/Coupon';
+import CouponRedemption from '../models/CouponRedemption';
+import Programme from '../models/Programme';
+import CouponService from '../services/couponService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { ValidationError } from '../utils/errors';
+import { success, created, validationError, notFound, conflict, forbidden, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+const EDITABLE_COUPON_FIELDS = [
+  'description',
+  'discountType',
+  'discountValue',
+  'currency',
+  'programmeIds',
+  'validFrom',
+  'expiresAt',
+  'maxRedemptions',
+  'maxRedemptionsPerStudent',
+  'isActive'
+] as const;
+
+/**
+ * Price a programme for the student with an optional coupon or referral code
+ * @route GET /api/student/pricing
+ * @query programmeId, code (optional)
+ */
+export const getPriceQuote = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const programme = await Programme.findById(req.query.programmeId);
+    if (!programme) {
+      return notFound(res, 'Programme');
+    }
+
+    const quote = await CouponService.quote(studentId, programme, req.query.code as string | undefined);
+    success(res, quote, 'Price calculated successfully');
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationError(res, error.message);
+    }
+    logger.error('Get price quote error:', error);
+    serverError(res, 'Failed to calculate price');
+  }
+};
+
+/**
+ * Get the student's referral code and the rewards it has earned
+ * @route GET /api/student/referral
+ */
+export const getMyReferral = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const summary = await CouponService.getReferralSummary(studentId);
+    success(res, summary, 'Referral code retrieved successfully');
+  } catch (error) {
+    logger.error('Get referral error:', error);
+    serverError(res, 'Failed to retrieve referral code');
+  }
+};
+
+/**
+ * List coupons
+ * @route GET /api/admin/coupons
+ */
+export const getCoupons = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, any> = {};
+    if (req.query.isActive !== undefined) {
+      filter.isActive = req.query.isActive === 'true';
+    }
+    if (typeof req.query.search === 'string' && req.query.search.trim()) {
+      const pattern = new RegExp(req.query.search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ code: pattern }, { description: pattern }];
+    }
+
+    const coupons = await Coupon.find(filter)
+      .populate('programmeIds', 'title')
+      .sort({ createdAt: -1 });
+    success(res, coupons, 'Coupons retrieved successfully');
+  } catch (error) {
+    logger.error('Get coupons error:', error);
+    serverError(res, 'Failed to retrieve coupons');
+  }
+};
+
+/**
+ * Create a coupon
+ * @route POST /api/admin/coupons
+ */
+export const createCoupon = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const code = String(req.body.code).trim().toUpperCase();
+    const existing = await Coupon.exists({ code });
+    if (existing) {
+      return conflict(res, 'A coupon with this code already exists');
+    }
+
+    const coupon = new Coupon({ code, createdBy: req.user?.id });
+    for (const field of EDITABLE_COUPON_FIELDS) {
+      if (req.body[field] !== undefined && req.body[field] !== null) {
+        coupon.set(field, req.body[field]);
+      }
+    }
+    await coupon.save();
+
+    logger.info(`Coupon ${coupon.code} created by ${req.user?.id}`);
+    created(res, coupon, 'Coupon created successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    if (error.code === 11000) {
+      return conflict(res, 'A coupon with this code already exists');
+    }
+    logger.error('Create coupon error:', error);
+    serverError(res, 'Failed to create coupon');
+  }
+};
+
+/**
+ * Update a coupon. The code is immutable because redemptions reference it.
+ * @route PUT /api/admin/coupons/:id
+ */
+export const updateCoupon = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon) {
+      return notFound(res, 'Coupon');
+    }
+
+    for (const field of EDITABLE_COUPON_FIELDS) {
+      if (req.body[field] !== undefined) {
+        // null clears optional limits and dates
+        coupon.set(field, req.body[field] === null ? undefined : req.body[field]);
+      }
+    }
+    await coupon.save();
+
+    logger.info(`Coupon ${coupon.code} updated by ${req.user?.id}`);
+    success(res, coupon, 'Coupon updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Update coupon error:', error);
+    serverError(res, 'Failed to update coupon');
+  }
+};
+
+/**
+ * Delete a coupon. Coupons that have been redeemed are deactivated instead.
+ * @route DELETE /api/admin/coupons/:id
+ */
+export const deleteCoupon = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon) {
+      return notFound(res, 'Coupon');
+    }
+
+    const isRedeemed = await CouponRedemption.exists({ couponId: coupon._id });
+    if (isRedeemed) {
+      coupon.isActive = false;
+      await coupon.save();
+      return success(res, coupon, 'Coupon deactivated because it has already been redeemed');
+    }
+
+    await coupon.deleteOne();
+
+    logger.info(`Coupon ${coupon.code} deleted by ${req.user?.id}`);
+    success(res, null, 'Coupon deleted successfully');
+  } catch (error) {
+    logger.error('Delete coupon error:', error);
+    serverError(res, 'Failed to delete coupon');
+  }
+};
+
+/**
+ * List the redemptions of a coupon with the discount each one gave
+ * @route GET /api/admin/coupons/:id/redemptions
+ */
+export const getCouponRedemptions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon) {
+      return notFound(res, 'Coupon');
+    }
+
+    const [redemptions, totals] = await Promise.all([
+      CouponRedemption.find({ couponId: coupon._id })
+        .populate('studentId', 'firstName lastName email username')
+        .populate('programmeId', 'title')
+        .sort({ createdAt: -1 })
+        .limit(500),
+      CouponRedemption.aggregate([
+        { $match: { couponId: new Types.ObjectId(String(coupon._id)) } },
+        { $group: { _id: '$currency', discountAmount: { $sum: '$discountAmount' }, finalPrice: { $sum: '$finalPrice' }, count: { $sum: 1 } } }
+      ])
+    ]);
+
+    success(res, {
+      coupon,
+      redemptions,
+      totals: totals.map(item => ({ currency: item._id, discountAmount: item.discountAmount, revenue: item.finalPrice, count: item.count }))
+    }, 'Coupon redemptions retrieved successfully');
+  } catch (error) {
+    logger.error('Get coupon redemptions error:', error);
+    serverError(res, 'Failed to retrieve coupon redemptions');
+  }
+};
@@ -6,6 +6,8 @@ import ProgrammeLesson from '../models/ProgrammeLesson';
 import UserCourseProgress from '../models/UserCourseProgress';
 import LessonCompletion from '../models/LessonCompletion';
 import QuizResult from '../models/QuizResult';
+import BadgeService from '../services/badgeService';
+import LearningLedgerService from '../services/learningLedgerService';
 import { AuthRequest } from '../middleware/auth';
 
 /**
@@ -424,7 +426,9 @@ export const getLessonContent = async (req: Request, res: Response) => {
 export const updateLessonProgress = async (req: AuthRequest, res: Response) => {
   try {
     const { lessonId } = req.params;
-    const { studentId, timeSpent, progressPercentage, notes, bookmarked } = req.body;
+    const { timeSpent, progressPercentage, notes, bookmarked } = req.body;
+    // Progress is always recorded for the caller, never for a user named in the body
+    const studentId = req.user!.id;
 
     if (!Types.ObjectId.isValid(lessonId)) {
       return res.status(400).json({
@@ -433,44 +437,36 @@ export const updateLessonProgress = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Get or create progress record
-    let progress = await UserCourseProgress.findOne({
-      studentId,
-      lessonId
-    });
-
-    if (!progress) {
-      const lessonDoc = await ProgrammeLesson.findById(lessonId).select('programmeId moduleId');
-      if (!lessonDoc) {
-        return res.status(404).json({
-          success: false,
-          message: 'Lesson not found'
-        });
-      }
-      
-      progress = new UserCourseProgress({
-        studentId,
-        lessonId,
-        programmeId: lessonDoc.programmeId,
-        moduleId: lessonDoc.moduleId,
-        status: 'IN_PROGRESS'
+    const lessonDoc = await ProgrammeLesson.findById(lessonId).select('programmeId moduleId');
+    if (!lessonDoc) {
+      return res.status(404).json({
+        success: false,
+        message: 'Lesson not found'
       });
     }
 
-    // Update progress
-    progress.timeSpent = timeSpent || progress.timeSpent;
-    progress.progressPercentage = Math.min(progressPercentage || 0, 100);
-    progress.lastAccessedAt = new Date();
-    progress.notes = notes !== undefined ? notes : progress.notes;
-    progress.bookmarked = bookmarked !== undefined ? bookmarked : progress.bookmarked;
-
-    // Mark as completed if progress is 100%
-    if (progress.progressPercentage >= 100 && progress.status !== 'COMPLETED') {
-      progress.status = 'COMPLETED';
-      progress.completedAt = new Date();
-    }
+    // The client reports the total time spent on the lesson; the ledger records what was added
+    const previous = await UserCourseProgress.findOne({ studentId, lessonId }).select('timeSpent');
+    const addedTime = timeSpent ? Math.max(timeSpent - (previous?.timeSpent || 0), 0) : 0;
+    const percentage = Math.min(progressPercentage || 0, 100);
+
+    const { lessonProgress } = await LearningLedgerService.record({
+      studentId: String(studentId),
+      programmeId: String(lessonDoc.programmeId),
+      moduleId: String(lessonDoc.moduleId),
+      lessonId,
+      type: percentage >= 100 ? 'LESSON_COMPLETED' : 'LESSON_PROGRESSED',
+      progressPercentage: percentage,
+      timeSpent: addedTime,
+      source: 'courseContent.updateLessonProgress'
+    });
+    const progress = lessonProgress!;
 
-    await progress.save();
+    if (notes !== undefined || bookmarked !== undefined) {
+      progress.notes = notes !== undefined ? notes : progress.notes;
+      progress.bookmarked = bookmarked !== undefined ? bookmarked : progress.bookmarked;
+      await progress.save();
+    }
 
     res.status(200).json({
       success: true,
@@ -496,7 +492,8 @@ export const updateLessonProgress = async (req: AuthRequest, res: Response) => {
 export const submitQuiz = async (req: AuthRequest, res: Response) => {
   try {
     const { lessonId } = req.params;
-    const { studentId, answers, timeSpent } = req.body;
+    const { answers, timeSpent } = req.body;
+    const studentId = req.user!.id;
 
     if (!Types.ObjectId.isValid(lessonId)) {
       return res.status(400).json({
@@ -558,32 +555,28 @@ export const submitQuiz = async (req: AuthRequest, res: Response) => {
 
     await quizResult.save();
 
-    // Update lesson progress
-    let progress = await UserCourseProgress.findOne({
-      studentId,
-      lessonId
+    // A passed quiz completes the lesson, a failed one leaves it half done
+    const quizEvent = {
+      studentId: String(studentId),
+      programmeId: String(lesson.programmeId),
+      moduleId: String(lesson.moduleId),
+      lessonId,
+      source: 'courseContent.submitQuiz'
+    };
+    await LearningLedgerService.record({
+      ...quizEvent,
+      type: 'QUIZ_SUBMITTED',
+      timeSpent: timeSpent || 0,
+      score: totalScore,
+      maxScore,
+      percentage,
+      passed
     });
+    await LearningLedgerService.record(passed
+      ? { ...quizEvent, type: 'LESSON_COMPLETED' }
+      : { ...quizEvent, type: 'LESSON_PROGRESSED', progressPercentage: 50 });
 
-    if (!progress) {
-      progress = new UserCourseProgress({
-        studentId,
-        lessonId,
-        programmeId: lesson.programmeId,
-        moduleId: lesson.moduleId,
-        status: passed ? 'COMPLETED' : 'IN_PROGRESS'
-      });
-    }
-
-    progress.progressPercentage = passed ? 100 : Math.max(progress.progressPercentage, 50);
-    progress.timeSpent = (progress.timeSpent || 0) + (timeSpent || 0);
-    progress.lastAccessedAt = new Date();
-
-    if (passed && progress.status !== 'COMPLETED') {
-      progress.status = 'COMPLETED';
-      progress.completedAt = new Date();
-    }
-
-    await progress.save();
+    await BadgeService.evaluateSafely(String(studentId), 'QUIZ_SUBMITTED', { programmeId: String(lesson.programmeId) });
 
     res.status(200).json({
       success: true,
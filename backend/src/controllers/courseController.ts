@@ -360,6 +360,14 @@ export const enrollInCourse = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Paid courses are enrolled by the payment webhook once checkout succeeds
+    if (programme.price > 0) {
+      return res.status(402).json({
+        success: false,
+        message: 'This course requires payment. Start checkout to enroll.'
+      });
+    }
+
     // Check if already enrolled
     const existingEnrollment = await Enrollment.findOne({
       studentId: new mongoose.Types.ObjectId(studentId),
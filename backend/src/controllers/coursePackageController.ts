@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import CoursePackageService from '../services/coursePackageService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError, ValidationError } from '../utils/errors';
+import { success, created, error as errorResponse, validationError, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+const MAX_UPLOAD_MB = 50;
+
+const packageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024, files: 1 }
+}).single('package');
+
+/**
+ * Accept a course package as a multipart upload in the `package` field. A
+ * JSON request body is left to the JSON body parser.
+ */
+export const uploadCoursePackage = (req: Request, res: Response, next: NextFunction): void => {
+  packageUpload(req, res, (err?: any) => {
+    if (!err) {
+      return next();
+    }
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      return validationError(res, `Package too large. Maximum size is ${MAX_UPLOAD_MB}MB`);
+    }
+    return validationError(res, err.message || 'Invalid upload');
+  });
+};
+
+/**
+ * Download a programme with its modules and lessons as a course package
+ * @route GET /api/admin/courses/:id/export
+ * @query format json (default) | zip
+ */
+export const exportCoursePackage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const coursePackage = await CoursePackageService.exportPackage(req.params.id);
+    const filename = `${coursePackage.programme.slug}.course`;
+
+    if (req.query.format === 'zip') {
+      res.set({
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}.zip"`
+      });
+      res.send(CoursePackageService.toZip(coursePackage));
+      return;
+    }
+
+    res.set('Content-Disposition', `attachment; filename="${filename}.json"`);
+    res.type('application/json').send(JSON.stringify(coursePackage, null, 2));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(res, error.message, error.statusCode, error.code);
+    }
+    logger.error('Export course package error:', error);
+    serverError(res, 'Failed to export course');
+  }
+};
+
+/**
+ * Create or update a programme from a course package, uploaded as a file or
+ * sent as the JSON body. With `dryRun=true` only the planned changes are returned.
+ * @route POST /api/admin/courses/import
+ * @query dryRun
+ */
+export const importCoursePackage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const input = req.file ? CoursePackageService.parse(req.file.buffer) : req.body;
+    const dryRun = req.query.dryRun === 'true';
+    const result = await CoursePackageService.importPackage(input, { userId: req.user!.id, dryRun });
+
+    if (dryRun) {
+      success(res, result, 'Dry run complete, nothing was changed');
+    } else if (result.programme.action === 'create') {
+      created(res, result, 'Course imported');
+    } else {
+      success(res, result, 'Course updated from package');
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationError(res, error.message, error.details);
+    }
+    if (error instanceof AppError) {
+      return errorResponse(res, error.message, error.statusCode, error.code);
+    }
+    logger.error('Import course package error:', error);
+    serverError(res, 'Failed to import course');
+  }
+};
@@ -8,9 +8,10 @@ import QuizResult from '../models/QuizResult';
 import UserCourseProgress from '../models/UserCourseProgress';
 import ProgrammeModule from '../models/ProgrammeModule';
 import ProgrammeLesson from '../models/ProgrammeLesson';
+import BadgeService from '../services/badgeService';
+import LearningLedgerService from '../services/learningLedgerService';
 import { success, serverError, notFound, validationError } from '../utils/response';
 import logger from '../config/logger';
-import mongoose from 'mongoose';
 
 /**
  * Get comprehensive course progress data for student dashboard courses page
@@ -420,48 +421,18 @@ export const updateCourseProgressRealtime = async (req: AuthenticatedRequest, re
       return;
     }
 
-    // Update lesson completion if completed
-    if (completed) {
-      const existingCompletion = await LessonCompletion.findOne({
-        userId: studentId,
-        lessonId
-      });
-
-      if (!existingCompletion) {
-        const lessonCompletion = new LessonCompletion({
-          userId: studentId,
-          courseId,
-          moduleId: moduleId || new mongoose.Types.ObjectId(),
-          lessonId,
-          completedAt: new Date(),
-          timeSpent
-        });
-        await lessonCompletion.save();
-      }
-    }
-
-    // Update enrollment progress
-    const enrollment = await Enrollment.findOne({
+    await LearningLedgerService.record({
       studentId,
-      programmeId: courseId
+      programmeId: courseId,
+      moduleId,
+      lessonId,
+      type: completed ? 'LESSON_COMPLETED' : 'LESSON_PROGRESSED',
+      timeSpent,
+      source: 'courseProgress.updateCourseProgressRealtime'
     });
 
-    if (enrollment) {
-      if (completed && !enrollment.progress.completedLessons.includes(lessonId)) {
-        enrollment.progress.completedLessons.push(lessonId);
-      }
-
-      enrollment.progress.timeSpent += timeSpent;
-      enrollment.progress.lastActivityDate = new Date();
-
-      // Recalculate progress
-      const programme = await Programme.findById(courseId);
-      if (programme && programme.totalLessons) {
-        const completedCount = enrollment.progress.completedLessons.length;
-        enrollment.progress.totalProgress = Math.round((completedCount / programme.totalLessons) * 100);
-      }
-
-      await enrollment.save();
+    if (completed) {
+      await BadgeService.evaluateSafely(studentId, 'LESSON_COMPLETED', { programmeId: courseId });
     }
 
     // Return updated progress data
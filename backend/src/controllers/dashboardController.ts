@@ -3,9 +3,11 @@ import { AuthenticatedRequest } from '../utils/jwt';
 import Enrollment from '../models/Enrollment';
 import LessonCompletion from '../models/LessonCompletion';
 import StudentProfile from '../models/StudentProfile';
-import Programme from '../models/Programme';
 import QuizResult from '../models/QuizResult';
 import UserCourseProgress from '../models/UserCourseProgress';
+import BadgeService from '../services/badgeService';
+import LearningLedgerService from '../services/learningLedgerService';
+import NotificationService from '../services/notificationService';
 import { success, serverError, notFound } from '../utils/response';
 import logger from '../config/logger';
 
@@ -380,9 +382,8 @@ function calculateLevel(points: number) {
  * Get student notifications
  */
 async function getStudentNotifications(studentId: string) {
-  // This would typically fetch from a notifications table
-  // For now, return empty array
-  return [];
+  const notifications = await NotificationService.getUserNotifications(studentId, { limit: 10 });
+  return notifications.map(notification => notification.toJSON());
 }
 
 /**
@@ -409,45 +410,16 @@ export const updateCourseProgress = async (req: AuthenticatedRequest, res: Respo
       return;
     }
 
-    // Update lesson completion if completed
-    if (completed) {
-      // Check if lesson completion already exists
-      const existingCompletion = await LessonCompletion.findOne({
-        userId: studentId,
-        lessonId
-      });
-
-      if (!existingCompletion) {
-        // Create new lesson completion
-        const lessonCompletion = new LessonCompletion({
-          userId: studentId,
-          courseId,
-          moduleId,
-          lessonId,
-          completedAt: new Date(),
-          timeSpent
-        });
-        await lessonCompletion.save();
-
-        // Update enrollment progress
-        if (!enrollment.progress.completedLessons.includes(lessonId)) {
-          enrollment.progress.completedLessons.push(lessonId);
-        }
-      }
-    }
-
-    // Update time spent
-    enrollment.progress.timeSpent += timeSpent;
-    enrollment.progress.lastActivityDate = new Date();
-
-    // Recalculate total progress
-    const programme = await Programme.findById(courseId);
-    if (programme && programme.totalLessons) {
-      const completedLessons = enrollment.progress.completedLessons.length;
-      enrollment.progress.totalProgress = Math.round((completedLessons / programme.totalLessons) * 100);
-    }
-
-    await enrollment.save();
+    const { enrollment: updated } = await LearningLedgerService.record({
+      studentId,
+      programmeId: courseId,
+      moduleId,
+      lessonId,
+      type: completed ? 'LESSON_COMPLETED' : 'LESSON_PROGRESSED',
+      timeSpent,
+      source: 'dashboard.updateCourseProgress'
+    });
+    const progress = (updated || enrollment).progress;
 
     // Update student profile
     const studentProfile = await StudentProfile.findOne({ userId: studentId });
@@ -460,10 +432,14 @@ export const updateCourseProgress = async (req: AuthenticatedRequest, res: Respo
       await studentProfile.save();
     }
 
+    if (completed) {
+      await BadgeService.evaluateSafely(studentId, 'LESSON_COMPLETED', { programmeId: courseId });
+    }
+
     success(res, {
-      courseProgress: enrollment.progress.totalProgress,
-      totalTimeSpent: enrollment.progress.timeSpent,
-      completedLessons: enrollment.progress.completedLessons.length
+      courseProgress: progress.totalProgress,
+      totalTimeSpent: progress.timeSpent,
+      completedLessons: progress.completedLessons.length
     }, 'Course progress updated successfully');
 
   } catch (error) {
@@ -1,7 +1,7 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../utils/jwt';
 import Integration from '../models/Integration';
-import discordService from '../services/discordService';
+import { getNotifier } from '../services/integrationNotifiers';
 import { success, error } from '../utils/response';
 
 // Get user integrations
@@ -38,11 +38,16 @@ export const createOrUpdateIntegration = async (req: AuthenticatedRequest, res:
       return;
     }
 
-    // For Discord, validate webhook URL if provided
-    if (platform === 'discord' && config?.webhookUrl) {
-      const isValid = await discordService.validateWebhook(config.webhookUrl);
+    // For chat platforms, validate webhook URL if provided
+    const notifier = getNotifier(platform);
+    if (notifier && config?.webhookUrl) {
+      if (!notifier.isAllowedWebhookUrl(config.webhookUrl)) {
+        error(res, `Webhook URL is not a ${platform} webhook`, 400, 'VALIDATION_ERROR');
+        return;
+      }
+      const isValid = await notifier.validateWebhook(config.webhookUrl);
       if (!isValid) {
-        error(res, 'Invalid Discord webhook URL', 400, 'VALIDATION_ERROR');
+        error(res, `Invalid ${platform} webhook URL`, 400, 'VALIDATION_ERROR');
         return;
       }
     }
@@ -96,15 +101,17 @@ export const testIntegration = async (req: AuthenticatedRequest, res: Response):
 
     const { platform } = req.params;
 
-    if (platform === 'discord') {
-      const result = await discordService.testConnection(userId.toString());
-      if (result) {
-        success(res, { connected: true }, 'Discord integration test successful');
-      } else {
-        error(res, 'Discord integration test failed', 400, 'TEST_FAILED');
-      }
-    } else {
+    const notifier = getNotifier(platform);
+    if (!notifier) {
       error(res, 'Platform not supported for testing', 400, 'VALIDATION_ERROR');
+      return;
+    }
+
+    const result = await notifier.testConnection(userId.toString());
+    if (result) {
+      success(res, { connected: true }, `${platform} integration test successful`);
+    } else {
+      error(res, `${platform} integration test failed`, 400, 'TEST_FAILED');
     }
   } catch (err) {
     console.error('Error testing integration:', err);
@@ -148,28 +155,37 @@ export const sendTestNotification = async (req: AuthenticatedRequest, res: Respo
 
     const { platform, type } = req.body;
 
-    if (platform === 'discord') {
-      switch (type) {
-        case 'enrollment':
-          await discordService.notifyEnrollment(userId.toString(), 'Test Course - Integration Demo');
-          break;
-        case 'achievement':
-          await discordService.notifyAchievement(userId.toString(), 'Integration Master', 100);
-          break;
-        case 'progress':
-          await discordService.notifyProgress(userId.toString(), 'Test Course - Integration Demo', 50);
-          break;
-        case 'announcement':
-          await discordService.sendAnnouncement(userId.toString(), 'Test Announcement', 'This is a test announcement from EduKnit!');
-          break;
-        default:
-          error(res, 'Invalid notification type', 400, 'VALIDATION_ERROR');
-          return;
-      }
-      success(res, null, 'Test notification sent successfully');
-    } else {
+    const notifier = getNotifier(platform);
+    if (!notifier) {
       error(res, 'Platform not supported', 400, 'VALIDATION_ERROR');
+      return;
+    }
+
+    let sent: boolean;
+    switch (type) {
+      case 'enrollment':
+        sent = await notifier.notifyEnrollment(userId.toString(), 'Test Course - Integration Demo');
+        break;
+      case 'achievement':
+        sent = await notifier.notifyAchievement(userId.toString(), 'Integration Master', 100);
+        break;
+      case 'progress':
+        sent = await notifier.notifyProgress(userId.toString(), 'Test Course - Integration Demo', 50);
+        break;
+      case 'announcement':
+        sent = await notifier.sendAnnouncement(userId.toString(), 'Test Announcement', 'This is a test announcement from EduKnit!');
+        break;
+      default:
+        error(res, 'Invalid notification type', 400, 'VALIDATION_ERROR');
+        return;
+    }
+
+    if (!sent) {
+      // Nothing is queued when the integration is disabled or the message type is turned off
+      error(res, 'Test notification was not sent. Check that the integration is enabled and this notification type is turned on.', 400, 'TEST_FAILED');
+      return;
     }
+    success(res, null, 'Test notification queued for delivery');
   } catch (err) {
     console.error('Error sending test notification:', err);
     error(res, 'Failed to send test notification', 500, 'INTERNAL_SERVER_ERROR');
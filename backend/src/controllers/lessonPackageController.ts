@@ -0,0 +1,216 @@
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs/promises';
+import multer from 'multer';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import LessonPackageService from '../services/lessonPackageService';
+import ScormRuntimeService from '../services/scormRuntimeService';
+import XapiService, { XAPI_VERSION } from '../services/xapiService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { injectScormApi } from '../utils/scormApi';
+import { AppError, ValidationError } from '../utils/errors';
+import { success, created, noContent, notFound, error as errorResponse, validationError, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+const MAX_UPLOAD_MB = 200;
+
+const packageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024, files: 1 }
+}).single('package');
+
+// Package content is authored elsewhere and commonly relies on inline scripts
+// and styles. It runs sandboxed, in an opaque origin without access to the
+// app's cookies, storage or API, and may only be framed by the app itself.
+const PACKAGE_CONTENT_SECURITY_POLICY = [
+  'sandbox allow-scripts allow-forms allow-popups allow-modals',
+  "default-src 'self'",
+  "script-src 'self' 'unsafe-inline' 'unsafe-eval'",
+  "style-src 'self' 'unsafe-inline' https:",
+  "img-src 'self' data: blob: https:",
+  "media-src 'self' data: blob: https:",
+  "font-src 'self' data: https:",
+  "connect-src 'self'",
+  "object-src 'none'",
+  "frame-ancestors 'self'"
+].join('; ');
+
+const handleError = (res: Response, err: unknown, action: string, fallback: string): void => {
+  if (err instanceof ValidationError) {
+    return validationError(res, err.message, err.details);
+  }
+  if (err instanceof AppError) {
+    return errorResponse(res, err.message, err.statusCode, err.code);
+  }
+  logger.error(`${action} error:`, err);
+  serverError(res, fallback);
+};
+
+/**
+ * Accept a SCORM/xAPI ZIP as a multipart upload in the `package` field
+ */
+export const uploadLessonPackageFile = (req: Request, res: Response, next: NextFunction): void => {
+  packageUpload(req, res, (err?: any) => {
+    if (!err) {
+      return next();
+    }
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      return validationError(res, `Package too large. Maximum size is ${MAX_UPLOAD_MB}MB`);
+    }
+    return validationError(res, err.message || 'Invalid upload');
+  });
+};
+
+/**
+ * Install a SCORM 1.2 or xAPI package as the lesson's content
+ * @route POST /api/admin/lessons/:id/package
+ */
+export const uploadLessonPackage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      return validationError(res, 'No package file uploaded');
+    }
+    const lessonPackage = await LessonPackageService.install(req.params.id, req.file.buffer);
+    created(res, lessonPackage, 'Lesson package installed');
+  } catch (error) {
+    handleError(res, error, 'Upload lesson package', 'Failed to install lesson package');
+  }
+};
+
+/**
+ * @route DELETE /api/admin/lessons/:id/package
+ */
+export const deleteLessonPackage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await LessonPackageService.remove(req.params.id);
+    success(res, null, 'Lesson package removed');
+  } catch (error) {
+    handleError(res, error, 'Delete lesson package', 'Failed to remove lesson package');
+  }
+};
+
+/**
+ * Serve a file of the lesson's package to the player's iframe. The launch page
+ * of a SCORM package gets the runtime API, set up with the student's saved data.
+ * @route GET /api/lessons/:lessonId/package/files/:launchToken/*
+ */
+export const getLessonPackageFile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const launch = req.packageLaunch!;
+    const filePath = req.params[0] || '';
+    const lesson = await ProgrammeLesson.findById(req.params.lessonId).select('content.package');
+    // Tokens issued for a replaced package no longer load anything
+    const file = lesson?.content?.package?.id === launch.packageId
+      ? await LessonPackageService.resolveFile(lesson, filePath)
+      : null;
+    if (!lesson || !file) {
+      return notFound(res, 'File');
+    }
+
+    res.set({
+      'Content-Security-Policy': PACKAGE_CONTENT_SECURITY_POLICY,
+      // The sandboxed frame has an opaque origin, so its own files are cross-origin to it
+      'Cross-Origin-Resource-Policy': 'cross-origin',
+      // Keeps the launch token in the URL from leaking to third-party resources
+      'Referrer-Policy': 'no-referrer'
+    });
+
+    if (LessonPackageService.isScormLaunchFile(lesson, filePath)) {
+      const runtime = await ScormRuntimeService.getRuntime(launch.user, req.params.lessonId);
+      const html = await fs.readFile(file, 'utf8');
+      res.set('Cache-Control', 'no-store');
+      res.type('html').send(injectScormApi(html, runtime.cmi!));
+      return;
+    }
+
+    // A new upload gets a new package id, so files never change once served
+    res.set('Cache-Control', 'private, max-age=86400');
+    res.sendFile(file);
+  } catch (error) {
+    handleError(res, error, 'Get lesson package file', 'Failed to load file');
+  }
+};
+
+/**
+ * Launch data for the lesson's package, with the caller's saved SCORM data
+ * @route GET /api/lessons/:lessonId/package/runtime
+ */
+export const getPackageRuntime = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id, role } = req.user!;
+    const runtime = await ScormRuntimeService.getRuntime({ id, role }, req.params.lessonId);
+    success(res, runtime);
+  } catch (error) {
+    handleError(res, error, 'Get package runtime', 'Failed to load lesson package');
+  }
+};
+
+/**
+ * Save SCORM values committed by the runtime API shim
+ * @route PUT /api/lessons/:lessonId/package/runtime
+ */
+export const commitPackageRuntime = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const state = await ScormRuntimeService.commit(req.user!.id, req.params.lessonId, req.body);
+    success(res, {
+      lessonStatus: state.lessonStatus,
+      totalTime: state.totalTime,
+      sessionCount: state.sessionCount
+    }, 'SCORM data saved');
+  } catch (error) {
+    handleError(res, error, 'Commit package runtime', 'Failed to save SCORM data');
+  }
+};
+
+/**
+ * xAPI responses carry the spec version they follow
+ */
+export const setXapiVersion = (req: Request, res: Response, next: NextFunction): void => {
+  res.set('X-Experience-API-Version', XAPI_VERSION);
+  next();
+};
+
+/**
+ * @route GET /api/lessons/:lessonId/xapi/about
+ */
+export const getXapiAbout = (req: Request, res: Response): void => {
+  res.json({ version: [XAPI_VERSION] });
+};
+
+/**
+ * Store one statement or a batch; answers with the statement ids as the
+ * xAPI spec requires
+ * @route POST /api/lessons/:lessonId/xapi/statements
+ */
+export const postXapiStatements = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const ids = await XapiService.storeStatements(req.user!.id, req.params.lessonId, req.body);
+    res.json(ids);
+  } catch (error) {
+    handleError(res, error, 'Store xAPI statements', 'Failed to store statements');
+  }
+};
+
+/**
+ * Store a single statement under the given id
+ * @route PUT /api/lessons/:lessonId/xapi/statements?statementId=
+ */
+export const putXapiStatement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await XapiService.storeStatements(req.user!.id, req.params.lessonId, req.body, String(req.query.statementId));
+    noContent(res);
+  } catch (error) {
+    handleError(res, error, 'Store xAPI statement', 'Failed to store statement');
+  }
+};
+
+/**
+ * @route GET /api/lessons/:lessonId/xapi/statements?statementId=
+ */
+export const getXapiStatement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const statement = await XapiService.getStatement(req.user!.id, req.params.lessonId, String(req.query.statementId));
+    res.json(statement);
+  } catch (error) {
+    handleError(res, error, 'Get xAPI statement', 'Failed to load statement');
+  }
+};
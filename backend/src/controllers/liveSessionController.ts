@@ -0,0 +1,382 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import LiveSession from '../models/LiveSession';
+import Programme from '../models/Programme';
+import ProgrammeModule from '../models/ProgrammeModule';
+import LiveSessionService from '../services/liveSessionService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import {
+  success,
+  created,
+  validationError,
+  notFound,
+  conflict,
+  forbidden,
+  serverError
+} from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Get live sessions for the authenticated student's enrolled programmes
+ * @route GET /api/student/live-sessions
+ * @query programmeId - Optional programme filter
+ */
+export const getStudentLiveSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const { programmeId } = req.query;
+    const sessions = await LiveSessionService.getStudentSessions(
+      studentId,
+      typeof programmeId === 'string' ? programmeId : undefined
+    );
+
+    success(res, sessions, 'Live sessions retrieved successfully');
+  } catch (error) {
+    logger.error('Get student live sessions error:', error);
+    serverError(res, 'Failed to retrieve live sessions');
+  }
+};
+
+/**
+ * Reserve a place in a live session
+ * @route POST /api/student/live-sessions/:sessionId/rsvp
+ */
+export const rsvpLiveSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    const { sessionId } = req.params;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return validationError(res, 'Invalid session ID format');
+    }
+
+    const session = await LiveSession.findById(sessionId);
+    if (!session) {
+      return notFound(res, 'Live session');
+    }
+    if (!(await LiveSessionService.isStudentEnrolled(studentId, String(session.programmeId)))) {
+      return forbidden(res, 'You must be enrolled in this programme to join its live sessions');
+    }
+
+    const status = LiveSessionService.computeStatus(session);
+    if (status === 'CANCELLED' || status === 'COMPLETED') {
+      return conflict(res, `This session is ${status.toLowerCase()}`);
+    }
+
+    const updated = await LiveSessionService.reservePlace(sessionId, studentId);
+    if (!updated) {
+      return conflict(res, 'This session is full');
+    }
+
+    await updated.populate('programmeId', 'title');
+    success(res, LiveSessionService.toStudentSession(updated, studentId), 'Place reserved successfully');
+  } catch (error) {
+    logger.error('RSVP live session error:', error);
+    serverError(res, 'Failed to reserve a place');
+  }
+};
+
+/**
+ * Release a reserved place in a live session
+ * @route DELETE /api/student/live-sessions/:sessionId/rsvp
+ */
+export const cancelLiveSessionRsvp = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    const { sessionId } = req.params;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return validationError(res, 'Invalid session ID format');
+    }
+
+    const session = await LiveSession.findById(sessionId);
+    if (!session) {
+      return notFound(res, 'Live session');
+    }
+    if (LiveSessionService.computeStatus(session) !== 'UPCOMING') {
+      return conflict(res, 'Reservations can only be cancelled before the session starts');
+    }
+
+    const updated = await LiveSessionService.releasePlace(sessionId, studentId);
+    if (!updated) {
+      return notFound(res, 'Live session');
+    }
+
+    await updated.populate('programmeId', 'title');
+    success(res, LiveSessionService.toStudentSession(updated, studentId), 'Reservation cancelled successfully');
+  } catch (error) {
+    logger.error('Cancel live session RSVP error:', error);
+    serverError(res, 'Failed to cancel reservation');
+  }
+};
+
+/**
+ * Check in to a live session, recording attendance
+ * @route POST /api/student/live-sessions/:sessionId/attend
+ */
+export const attendLiveSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    const { sessionId } = req.params;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return validationError(res, 'Invalid session ID format');
+    }
+
+    const session = await LiveSession.findById(sessionId).populate('programmeId', 'title');
+    if (!session) {
+      return notFound(res, 'Live session');
+    }
+    if (!session.rsvps.some(rsvp => rsvp.studentId.toString() === studentId)) {
+      return forbidden(res, 'Reserve a place before joining this session');
+    }
+    if (!LiveSessionService.isCheckInOpen(session)) {
+      return conflict(res, 'Check-in is not open for this session');
+    }
+
+    // Self check-in only vouches for the time from now on; instructors can record more
+    const recorded = await LiveSessionService.recordAttendance(session, studentId, LiveSessionService.minutesFromCheckIn(session));
+    const updated = recorded ? await LiveSession.findById(sessionId).populate('programmeId', 'title') : session;
+
+    success(
+      res,
+      LiveSessionService.toStudentSession(updated || session, studentId),
+      recorded ? 'Attendance recorded successfully' : 'Attendance already recorded'
+    );
+  } catch (error) {
+    logger.error('Attend live session error:', error);
+    serverError(res, 'Failed to record attendance');
+  }
+};
+
+/**
+ * Schedule a live session
+ * @route POST /api/admin/live-sessions
+ */
+export const createLiveSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const {
+      programmeId,
+      moduleId,
+      title,
+      description,
+      instructor,
+      instructorId,
+      startTime,
+      endTime,
+      platform,
+      meetingLink,
+      meetingId,
+      password,
+      maxParticipants,
+      topics,
+      recordingUrl
+    } = req.body;
+
+    if (!programmeId || !title || !instructor || !startTime || !endTime) {
+      return validationError(res, 'programmeId, title, instructor, startTime and endTime are required');
+    }
+
+    const programme = await Programme.findById(programmeId);
+    if (!programme) {
+      return notFound(res, 'Programme');
+    }
+
+    if (moduleId) {
+      const module = await ProgrammeModule.findOne({ _id: moduleId, programmeId });
+      if (!module) {
+        return validationError(res, 'Module does not belong to this programme');
+      }
+    }
+
+    // Fall back to the creator's Zoom integration for the meeting link
+    const sessionPlatform = platform || 'zoom';
+    let link = meetingLink;
+    if (!link && sessionPlatform === 'zoom' && req.user?.id) {
+      link = await LiveSessionService.getZoomMeetingLink(req.user.id);
+    }
+
+    const session = await LiveSession.create({
+      programmeId,
+      moduleId,
+      title,
+      description,
+      instructor,
+      instructorId,
+      startTime,
+      endTime,
+      platform: sessionPlatform,
+      meetingLink: link,
+      meetingId,
+      password,
+      maxParticipants,
+      topics: topics || [],
+      recordingUrl,
+      createdBy: req.user?.id
+    });
+
+    created(res, session, 'Live session created successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Create live session error:', error);
+    serverError(res, 'Failed to create live session');
+  }
+};
+
+/**
+ * List live sessions with RSVP and attendance counts
+ * @route GET /api/admin/live-sessions
+ * @query programmeId, from, to - Optional filters
+ */
+export const getLiveSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { programmeId, from, to } = req.query;
+    const filter: any = {};
+    if (programmeId) filter.programmeId = programmeId;
+    if (from || to) {
+      filter.startTime = {};
+      if (from) filter.startTime.$gte = new Date(from as string);
+      if (to) filter.startTime.$lte = new Date(to as string);
+    }
+
+    const sessions = await LiveSession.find(filter)
+      .populate('programmeId', 'title')
+      .populate('moduleId', 'title')
+      .sort({ startTime: -1 });
+
+    const now = new Date();
+    success(res, sessions.map(session => ({
+      ...session.toJSON(),
+      displayStatus: LiveSessionService.computeStatus(session, now),
+      rsvpCount: session.rsvps.length,
+      attendanceCount: session.attendance.length
+    })), 'Live sessions retrieved successfully');
+  } catch (error) {
+    logger.error('Get live sessions error:', error);
+    serverError(res, 'Failed to retrieve live sessions');
+  }
+};
+
+/**
+ * Update a live session
+ * @route PUT /api/admin/live-sessions/:id
+ */
+export const updateLiveSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updates = { ...req.body };
+    delete updates.programmeId;
+    delete updates.rsvps;
+    delete updates.attendance;
+    delete updates.createdBy;
+
+    const session = await LiveSession.findById(id);
+    if (!session) {
+      return notFound(res, 'Live session');
+    }
+
+    if (updates.maxParticipants !== undefined && updates.maxParticipants < session.rsvps.length) {
+      return conflict(res, `Capacity cannot be lower than the ${session.rsvps.length} existing reservations`);
+    }
+    if (updates.moduleId) {
+      const module = await ProgrammeModule.findOne({ _id: updates.moduleId, programmeId: session.programmeId });
+      if (!module) {
+        return validationError(res, 'Module does not belong to this programme');
+      }
+    }
+    if (updates.status === 'CANCELLED' && session.status !== 'CANCELLED') {
+      updates.cancelledAt = new Date();
+    }
+
+    session.set(updates);
+    await session.save();
+
+    success(res, session, 'Live session updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Update live session error:', error);
+    serverError(res, 'Failed to update live session');
+  }
+};
+
+/**
+ * Delete a live session. Sessions with attendance are cancelled instead.
+ * @route DELETE /api/admin/live-sessions/:id
+ */
+export const deleteLiveSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const session = await LiveSession.findById(id);
+    if (!session) {
+      return notFound(res, 'Live session');
+    }
+
+    if (session.attendance.length > 0) {
+      session.status = 'CANCELLED';
+      session.cancelledAt = session.cancelledAt || new Date();
+      await session.save();
+      return success(res, session, 'Live session has attendance and was cancelled');
+    }
+
+    await session.deleteOne();
+    success(res, null, 'Live session deleted successfully');
+  } catch (error) {
+    logger.error('Delete live session error:', error);
+    serverError(res, 'Failed to delete live session');
+  }
+};
+
+/**
+ * Mark attendance for students, e.g. from the meeting provider's report
+ * @route POST /api/admin/live-sessions/:id/attendance
+ * @body attendees - [{ studentId, minutesAttended? }]
+ */
+export const markLiveSessionAttendance = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { attendees } = req.body as { attendees: { studentId: string; minutesAttended?: number }[] };
+
+    const session = await LiveSession.findById(id);
+    if (!session) {
+      return notFound(res, 'Live session');
+    }
+    if (session.status === 'CANCELLED') {
+      return conflict(res, 'Cannot record attendance for a cancelled session');
+    }
+
+    let recorded = 0;
+    const skipped: string[] = [];
+    for (const attendee of attendees) {
+      if (!(await LiveSessionService.isStudentEnrolled(attendee.studentId, String(session.programmeId)))) {
+        skipped.push(attendee.studentId);
+        continue;
+      }
+      const added = await LiveSessionService.recordAttendance(
+        session,
+        attendee.studentId,
+        attendee.minutesAttended ?? session.duration,
+        req.user?.id
+      );
+      if (added) recorded++;
+    }
+
+    success(res, { recorded, skipped }, 'Attendance recorded successfully');
+  } catch (error) {
+    logger.error('Mark live session attendance error:', error);
+    serverError(res, 'Failed to record attendance');
+  }
+};
@@ -0,0 +1,61 @@
+import { Response } from 'express';
+import NotificationService from '../services/notificationService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { success, notFound, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Get the current user's notifications
+ * @route GET /api/dashboard/notifications
+ */
+export const getNotifications = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const [notifications, unreadCount] = await Promise.all([
+      NotificationService.getUserNotifications(userId, {
+        limit,
+        unreadOnly: req.query.unreadOnly === 'true'
+      }),
+      NotificationService.getUnreadCount(userId)
+    ]);
+
+    success(res, { notifications, unreadCount }, 'Notifications retrieved successfully');
+  } catch (error) {
+    logger.error('Get notifications error:', error);
+    serverError(res, 'Failed to retrieve notifications');
+  }
+};
+
+/**
+ * Mark one notification as read
+ * @route PUT /api/dashboard/notifications/:notificationId/read
+ */
+export const markNotificationRead = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const notification = await NotificationService.markAsRead(req.user!.id, req.params.notificationId);
+    if (!notification) {
+      return notFound(res, 'Notification');
+    }
+
+    success(res, notification, 'Notification marked as read');
+  } catch (error) {
+    logger.error('Mark notification read error:', error);
+    serverError(res, 'Failed to update notification');
+  }
+};
+
+/**
+ * Mark all notifications as read
+ * @route PUT /api/dashboard/notifications/read-all
+ */
+export const markAllNotificationsRead = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const updated = await NotificationService.markAllAsRead(req.user!.id);
+    success(res, { updated }, 'All notifications marked as read');
+  } catch (error) {
+    logger.error('Mark all notifications read error:', error);
+    serverError(res, 'Failed to update notifications');
+  }
+};
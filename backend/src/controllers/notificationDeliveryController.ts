@@ -0,0 +1,86 @@
+import { Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import OutboundMessage, { OUTBOUND_CHANNELS, OUTBOUND_MESSAGE_STATUSES } from '../models/OutboundMessage';
+import NotificationQueueService from '../services/notificationQueueService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import { success, error as errorResponse, notFound, serverError, validationError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * List outbound deliveries, failed ones by default. Payloads are left out as
+ * emails can carry reset and verification links, and webhook destinations are
+ * cut down to their origin.
+ * @route GET /api/admin/notifications/deliveries
+ * @query status (default dead), channel, search, page, limit
+ */
+export const getOutboundMessages = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { status = 'dead', channel, search } = req.query;
+    if (!OUTBOUND_MESSAGE_STATUSES.includes(status as any)) {
+      return validationError(res, 'Invalid delivery status');
+    }
+    if (channel !== undefined && !OUTBOUND_CHANNELS.includes(channel as any)) {
+      return validationError(res, 'Invalid delivery channel');
+    }
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const filter: Record<string, any> = { status };
+    if (channel) {
+      filter.channel = channel;
+    }
+    if (typeof search === 'string' && search.trim()) {
+      const pattern = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      // Webhook URLs are not searchable, as matching them would reveal their secret
+      filter.$or = [{ channel: 'email', destination: pattern }, { description: pattern }];
+    }
+
+    const [messages, total, counts] = await Promise.all([
+      OutboundMessage.find(filter)
+        .select('-payload')
+        .populate('replayedBy', 'firstName lastName email username')
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      OutboundMessage.countDocuments(filter),
+      OutboundMessage.aggregate([
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    success(res, {
+      messages,
+      counts: Object.fromEntries(counts.map(item => [item._id, item.count])),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }, 'Deliveries retrieved successfully');
+  } catch (error) {
+    logger.error('Get outbound messages error:', error);
+    serverError(res, 'Failed to retrieve deliveries');
+  }
+};
+
+/**
+ * Queue a failed delivery again
+ * @route POST /api/admin/notifications/deliveries/:id/replay
+ */
+export const replayOutboundMessage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!isValidObjectId(req.params.id)) {
+      return notFound(res, 'Delivery');
+    }
+    const message = await NotificationQueueService.replay(req.params.id, req.user!.id);
+    success(res, message, 'Delivery queued again');
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(res, error.message, error.statusCode, error.code);
+    }
+    logger.error('Replay outbound message error:', error);
+    serverError(res, 'Failed to replay delivery');
+  }
+};
@@ -0,0 +1,155 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import OAuthService from '../services/oauthService';
+import SessionService from '../services/sessionService';
+import TwoFactorService from '../services/twoFactorService';
+import AuditService from '../services/auditService';
+import { OAUTH_CONFIG } from '../config/oauth';
+import { AuthenticatedRequest, generateMfaChallengeToken, setTokensInCookies } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import { success, error as errorResponse, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Send service errors with their own status, anything else as a 500
+ */
+const handleOAuthError = (res: Response, error: unknown, context: string, fallback: string): void => {
+  if (error instanceof AppError) {
+    return errorResponse(res, error.message, error.statusCode, error.code);
+  }
+  logger.error(`${context} error:`, error);
+  serverError(res, fallback);
+};
+
+// The provider redirects the browser, so results go back to the frontend in the URL
+const frontendUrl = (path: string, params: Record<string, string> = {}, fragment?: Record<string, string>): string => {
+  const query = new URLSearchParams(params).toString();
+  const hash = fragment ? `#${new URLSearchParams(fragment).toString()}` : '';
+  return `${OAUTH_CONFIG.FRONTEND_URL}${path}${query ? `?${query}` : ''}${hash}`;
+};
+
+const SETTINGS_PATH = '/student-dashboard/settings';
+
+/**
+ * List the social sign-in providers that are configured
+ * @route GET /api/auth/oauth/providers
+ */
+export const getOAuthProviders = async (req: Request, res: Response): Promise<void> => {
+  success(res, OAuthService.listProviders(), 'Sign-in providers retrieved successfully');
+};
+
+/**
+ * Send the browser to the provider to sign in
+ * @route GET /api/auth/oauth/:provider/authorize
+ */
+export const startOAuthLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.redirect(await OAuthService.startAuthorization(req.params.provider, 'login'));
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      logger.error('Start OAuth login error:', error);
+    }
+    res.redirect(frontendUrl('/login', { oauthError: error instanceof AppError ? error.message : 'Sign-in failed' }));
+  }
+};
+
+/**
+ * Get the provider URL that links an account to the current user
+ * @route POST /api/auth/oauth/:provider/link
+ */
+export const startOAuthLink = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const authorizationUrl = await OAuthService.startAuthorization(req.params.provider, 'link', req.user!.id);
+    success(res, { authorizationUrl }, 'Continue at the provider to link your account');
+  } catch (error) {
+    handleOAuthError(res, error, 'Start OAuth link', 'Failed to start linking');
+  }
+};
+
+/**
+ * Where the provider sends the browser back to. Signs the user in (or asks for
+ * their second factor) or links the identity, then returns to the frontend.
+ * @route GET /api/auth/oauth/:provider/callback
+ * @query code, state, error
+ */
+export const oauthCallback = async (req: Request, res: Response): Promise<void> => {
+  const { code, state, error: providerError } = req.query as Record<string, string | undefined>;
+  const mode = await OAuthService.peekMode(state).catch(() => null);
+  const failurePath = mode === 'link' ? SETTINGS_PATH : '/login';
+
+  try {
+    // The user cancelled at the provider
+    if (providerError || !code || !state) {
+      res.redirect(frontendUrl(failurePath, { oauthError: 'Sign-in was cancelled' }));
+      return;
+    }
+
+    const result = await OAuthService.completeAuthorization(req.params.provider, code, state);
+    if (result.mode === 'link') {
+      res.redirect(frontendUrl(SETTINGS_PATH, { linked: result.provider.name }));
+      return;
+    }
+
+    const { user, provider } = result;
+    const auditRole = user.role === 'visitor' ? 'user' : user.role;
+    await AuditService.logLogin(user.id, auditRole, req, true, undefined, `oauth:${provider.id}`);
+
+    // The provider replaces the password step, not the second factor. The
+    // challenge goes in the fragment so it is not sent to servers or logged.
+    const enrollmentRequired = !user.twoFactor?.enabled && await TwoFactorService.isRequired(user.role);
+    if (user.twoFactor?.enabled || enrollmentRequired) {
+      res.redirect(frontendUrl('/auth/callback', {}, {
+        challengeToken: generateMfaChallengeToken({ id: user.id, role: user.role }),
+        enrollmentRequired: String(enrollmentRequired)
+      }));
+      return;
+    }
+
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    const { accessToken, refreshToken } = await SessionService.createSession(
+      { id: user.id, role: user.role },
+      { userAgent: req.get('user-agent'), ipAddress: req.ip }
+    );
+    setTokensInCookies(res, accessToken, refreshToken);
+
+    logger.info(`User logged in with ${provider.id}: ${user.email}`);
+    res.redirect(frontendUrl('/auth/callback', result.created ? { welcome: '1' } : {}));
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      logger.error('OAuth callback error:', error);
+    }
+    res.redirect(frontendUrl(failurePath, { oauthError: error instanceof AppError ? error.message : 'Sign-in failed' }));
+  }
+};
+
+/**
+ * List the provider accounts linked to the current user
+ * @route GET /api/auth/identities
+ */
+export const getIdentities = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const identities = await OAuthService.listIdentities(req.user!.id);
+    success(res, { ...identities, providers: OAuthService.listProviders() }, 'Linked accounts retrieved successfully');
+  } catch (error) {
+    handleOAuthError(res, error, 'Get identities', 'Failed to retrieve linked accounts');
+  }
+};
+
+/**
+ * Unlink a provider account from the current user
+ * @route DELETE /api/auth/identities/:identityId
+ */
+export const unlinkIdentity = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.identityId)) {
+      errorResponse(res, 'Invalid linked account ID', 400);
+      return;
+    }
+    await OAuthService.unlinkIdentity(req.user!.id, req.params.identityId);
+    success(res, null, 'Account unlinked');
+  } catch (error) {
+    handleOAuthError(res, error, 'Unlink identity', 'Failed to unlink account');
+  }
+};
@@ -0,0 +1,212 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import PaymentOrder from '../models/PaymentOrder';
+import PaymentService from '../services/paymentService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import {
+  success,
+  created,
+  error as errorResponse,
+  validationError,
+  notFound,
+  forbidden,
+  serverError
+} from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Send service errors with their own status, anything else as a 500
+ */
+const handlePaymentError = (res: Response, error: unknown, context: string, fallback: string): void => {
+  if (error instanceof AppError) {
+    return errorResponse(res, error.message, error.statusCode, error.code);
+  }
+  logger.error(`${context} error:`, error);
+  serverError(res, fallback);
+};
+
+/**
+ * Start checkout for a paid programme
+ * @route POST /api/student/checkout
+ * @body programmeId, code (optional coupon or referral code)
+ */
+export const createCheckout = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const order = await PaymentService.createCheckout(studentId, req.body.programmeId, req.body.code);
+    created(res, order, 'Checkout created successfully');
+  } catch (error) {
+    handlePaymentError(res, error, 'Create checkout', 'Failed to create checkout');
+  }
+};
+
+/**
+ * Get the student's payment orders
+ * @route GET /api/student/orders
+ */
+export const getMyOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const orders = await PaymentOrder.find({ studentId })
+      .populate('programmeId', 'title slug imageUrl')
+      .sort({ createdAt: -1 });
+    success(res, orders, 'Orders retrieved successfully');
+  } catch (error) {
+    logger.error('Get my orders error:', error);
+    serverError(res, 'Failed to retrieve orders');
+  }
+};
+
+/**
+ * Get one of the student's payment orders
+ * @route GET /api/student/orders/:orderId
+ */
+export const getMyOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+    if (!Types.ObjectId.isValid(req.params.orderId)) {
+      return validationError(res, 'Invalid order ID');
+    }
+
+    const order = await PaymentOrder.findOne({ _id: req.params.orderId, studentId })
+      .populate('programmeId', 'title slug imageUrl');
+    if (!order) {
+      return notFound(res, 'Order');
+    }
+    success(res, order, 'Order retrieved successfully');
+  } catch (error) {
+    logger.error('Get my order error:', error);
+    serverError(res, 'Failed to retrieve order');
+  }
+};
+
+/**
+ * Complete a fake-provider checkout (development only)
+ * @route POST /api/student/orders/:orderId/fake-complete
+ * @body outcome: 'success' | 'failure'
+ */
+export const completeFakeCheckout = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+    if (!Types.ObjectId.isValid(req.params.orderId)) {
+      return validationError(res, 'Invalid order ID');
+    }
+
+    const order = await PaymentOrder.findOne({ _id: req.params.orderId, studentId });
+    if (!order) {
+      return notFound(res, 'Order');
+    }
+    if (order.provider !== 'fake') {
+      return forbidden(res, 'This order must be paid through its payment provider');
+    }
+
+    const updated = await PaymentService.completeFakeCheckout(order, req.body.outcome !== 'failure');
+    success(res, updated, 'Checkout completed');
+  } catch (error) {
+    handlePaymentError(res, error, 'Complete fake checkout', 'Failed to complete checkout');
+  }
+};
+
+/**
+ * Receive a payment provider webhook. The body is kept raw so the signature can be checked.
+ * @route POST /api/payments/webhook/:provider
+ */
+export const handlePaymentWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!Buffer.isBuffer(req.body)) {
+      return validationError(res, 'Webhook body must be sent as application/json');
+    }
+
+    const order = await PaymentService.handleWebhook(req.params.provider, req.body, req.headers);
+    success(res, { received: true, orderId: order?.id }, 'Webhook processed');
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return validationError(res, 'Malformed webhook payload');
+    }
+    handlePaymentError(res, error, 'Payment webhook', 'Failed to process webhook');
+  }
+};
+
+/**
+ * Get payment orders for the admin dashboard
+ * @route GET /api/admin/payments/orders
+ */
+export const getPaymentOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { status, studentId, programmeId, search } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const filter: Record<string, any> = {};
+    if (status) {
+      filter.status = status;
+    }
+    if (studentId) {
+      filter.studentId = studentId;
+    }
+    if (programmeId) {
+      filter.programmeId = programmeId;
+    }
+    if (typeof search === 'string' && search.trim()) {
+      const pattern = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ orderNumber: pattern }, { providerOrderId: pattern }];
+    }
+
+    const [orders, total, revenue] = await Promise.all([
+      PaymentOrder.find(filter)
+        .populate('studentId', 'firstName lastName email username')
+        .populate('programmeId', 'title')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PaymentOrder.countDocuments(filter),
+      PaymentOrder.aggregate([
+        { $match: { status: { $in: ['PAID', 'REFUNDED'] } } },
+        { $group: { _id: { currency: '$currency', status: '$status' }, amount: { $sum: '$amount' }, count: { $sum: 1 } } }
+      ])
+    ]);
+
+    success(res, {
+      orders,
+      revenue: revenue.map(item => ({ currency: item._id.currency, status: item._id.status, amount: item.amount, count: item.count })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }, 'Payment orders retrieved successfully');
+  } catch (error) {
+    logger.error('Get payment orders error:', error);
+    serverError(res, 'Failed to retrieve payment orders');
+  }
+};
+
+/**
+ * Refund a paid order and revoke the enrollment it granted
+ * @route POST /api/admin/payments/orders/:id/refund
+ * @body reason (optional)
+ */
+export const refundPaymentOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const order = await PaymentService.refundOrder(req.params.id, req.user!.id, req.body.reason);
+    success(res, order, 'Order refunded successfully');
+  } catch (error) {
+    handlePaymentError(res, error, 'Refund payment order', 'Failed to refund order');
+  }
+};
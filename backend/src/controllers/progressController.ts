@@ -9,7 +9,9 @@ import ProgrammeModule, { IProgrammeModule } from '../models/ProgrammeModule';
 import LessonCompletion from '../models/LessonCompletion';
 import { AuthRequest } from '../middleware/auth';
 import ProgressService from '../services/progressService';
+import LearningLedgerService from '../services/learningLedgerService';
 import AnalyticsService from '../services/analyticsService';
+import BadgeService from '../services/badgeService';
 
 // Define populated interfaces for proper typing
 interface PopulatedProgrammeModule extends Omit<IProgrammeModule, 'programmeId'> {
@@ -320,107 +322,48 @@ export const markLessonCompleted = async (req: AuthRequest, res: Response) => {
         const moduleId = moduleData._id;
         const programmeId = ((moduleData.programmeId as any)?._id || moduleData.programmeId).toString();
 
-        // Start transaction for atomic operation
-        const session = await UserCourseProgress.startSession();
-        session.startTransaction();
+        const { lessonProgress: progressRecord, enrollment } = await LearningLedgerService.record({
+            studentId: studentId!,
+            programmeId,
+            moduleId: String(moduleId),
+            lessonId,
+            type: 'LESSON_COMPLETED',
+            timeSpent: timeSpent || 0,
+            videoSeconds: watchTimeVideo || 0,
+            source: 'progress.markLessonCompleted'
+        });
 
+        // Notes are not progress, so they are kept on the projected record directly
+        if (notes && progressRecord) {
+            progressRecord.notes = notes;
+            await progressRecord.save();
+        }
+
+        // Update analytics after successful completion
         try {
-            // Find or create progress record
-            let progressRecord = await UserCourseProgress.findOne({
+            const points = 10; // Base points for lesson completion
+            await AnalyticsService.updateAnalyticsOnLessonCompletion(
                 studentId,
+                lessonId,
                 programmeId,
-                moduleId,
-                lessonId
-            }).session(session);
-
-            if (!progressRecord) {
-                progressRecord = new UserCourseProgress({
-                    studentId,
-                    programmeId,
-                    moduleId,
-                    lessonId,
-                    status: 'COMPLETED',
-                    progressPercentage: 100,
-                    timeSpent: timeSpent || 0,
-                    startedAt: new Date(),
-                    completedAt: new Date(),
-                    lastAccessedAt: new Date(),
-                    attempts: 1,
-                    watchTimeVideo: watchTimeVideo || 0,
-                    notes: notes || '',
-                    isRequired: true
-                });
-            } else {
-                await progressRecord.markAsCompleted(timeSpent || 0);
-                if (watchTimeVideo) progressRecord.watchTimeVideo = (progressRecord.watchTimeVideo || 0) + watchTimeVideo;
-                if (notes) progressRecord.notes = notes;
-            }
-
-            await progressRecord.save({ session });
-
-            // Update enrollment progress
-            const enrollment = await Enrollment.findOne({
-                studentId,
-                programmeId
-            }).session(session);
-
-            if (enrollment) {
-                // Check if lesson already in completed list
-                const lessonIndex = enrollment.progress.completedLessons.findIndex(
-                    (id: any) => id.toString() === lessonId
-                );
-                
-                if (lessonIndex === -1) {
-                    enrollment.progress.completedLessons.push(lessonId as any);
-                }
-                
-                // Update total time spent
-                enrollment.progress.timeSpent += timeSpent || 0;
-                
-                // Recalculate total progress
-                const totalLessons = await ProgrammeLesson.countDocuments({
-                    moduleId: { $in: await ProgrammeModule.find({ programmeId }).distinct('_id') }
-                });
-                
-                enrollment.progress.totalProgress = (enrollment.progress.completedLessons.length / totalLessons) * 100;
-                
-                await enrollment.save({ session });
-            }
+                timeSpent || 0,
+                points
+            );
+        } catch (analyticsError) {
+            console.error('Error updating analytics:', analyticsError);
+            // Don't fail the main operation if analytics update fails
+        }
 
-            await session.commitTransaction();
-
-            // Update analytics after successful completion
-            try {
-                const points = 10; // Base points for lesson completion
-                await AnalyticsService.updateAnalyticsOnLessonCompletion(
-                    studentId,
-                    lessonId,
-                    (programmeId as any).toString(),
-                    timeSpent || 0,
-                    points
-                );
-            } catch (analyticsError) {
-                console.error('Error updating analytics:', analyticsError);
-                // Don't fail the main operation if analytics update fails
+        res.status(200).json({
+            success: true,
+            message: 'Lesson marked as completed successfully',
+            data: {
+                progressRecord,
+                lessonTitle: lesson.title,
+                moduleTitle: moduleData.title,
+                completionPercentage: enrollment?.progress.totalProgress || 0
             }
-
-            res.status(200).json({
-                success: true,
-                message: 'Lesson marked as completed successfully',
-                data: {
-                    progressRecord,
-                    lessonTitle: lesson.title,
-                    moduleTitle: moduleData.title,
-                    completionPercentage: enrollment?.progress.totalProgress || 0
-                }
-            });
-
-        } catch (transactionError) {
-            await session.abortTransaction();
-            throw transactionError;
-        } finally {
-            session.endSession();
-        }
+        });
 
     } catch (error) {
         console.error('Error marking lesson as completed:', error);
@@ -473,48 +416,23 @@ export const updateLessonProgress = async (req: AuthRequest, res: Response) => {
         const moduleId = moduleData._id;
         const programmeId = moduleData.programmeId._id;
 
-        // Find or create progress record
-        let progressRecord = await UserCourseProgress.findOne({
-            studentId,
-            programmeId,
-            moduleId,
-            lessonId
+        const { lessonProgress: progressRecord } = await LearningLedgerService.record({
+            studentId: studentId!,
+            programmeId: String(programmeId),
+            moduleId: String(moduleId),
+            lessonId,
+            type: progressPercentage >= 100 ? 'LESSON_COMPLETED' : 'LESSON_PROGRESSED',
+            progressPercentage,
+            timeSpent: timeSpent || 0,
+            videoSeconds: watchTimeVideo || 0,
+            source: 'progress.updateLessonProgress'
         });
 
-        if (!progressRecord) {
-            progressRecord = new UserCourseProgress({
-                studentId,
-                programmeId,
-                moduleId,
-                lessonId,
-                status: progressPercentage >= 100 ? 'COMPLETED' : progressPercentage > 0 ? 'IN_PROGRESS' : 'NOT_STARTED',
-                progressPercentage,
-                timeSpent: timeSpent || 0,
-                startedAt: progressPercentage > 0 ? new Date() : undefined,
-                completedAt: progressPercentage >= 100 ? new Date() : undefined,
-                lastAccessedAt: new Date(),
-                attempts: progressPercentage > 0 ? 1 : 0,
-                watchTimeVideo: watchTimeVideo || 0,
-                notes: notes || '',
-                isRequired: true
-            });
-        } else {
-            await progressRecord.updateProgress(progressPercentage, timeSpent || 0, watchTimeVideo || 0);
-            
-            if (progressPercentage >= 100 && progressRecord.status !== 'COMPLETED') {
-                progressRecord.status = 'COMPLETED';
-                progressRecord.completedAt = new Date();
-            } else if (progressPercentage > 0 && progressRecord.status === 'NOT_STARTED') {
-                progressRecord.status = 'IN_PROGRESS';
-                progressRecord.startedAt = new Date();
-                progressRecord.attempts += 1;
-            }
-            
-            if (notes) progressRecord.notes = notes;
+        if (notes && progressRecord) {
+            progressRecord.notes = notes;
+            await progressRecord.save();
         }
 
-        await progressRecord.save();
-
         res.status(200).json({
             success: true,
             message: 'Lesson progress updated successfully',
@@ -588,84 +506,66 @@ export const recordQuizResult = async (req: AuthRequest, res: Response) => {
             quizId: quizId || 'default'
         });
 
-        // Start transaction
-        const session = await QuizResult.startSession();
-        session.startTransaction();
+        const quizResult = await QuizResult.create({
+            studentId,
+            programmeId,
+            moduleId,
+            lessonId,
+            quizId: quizId || 'default',
+            score,
+            maxScore,
+            percentage,
+            passingScore,
+            isPassed,
+            timeSpent: timeSpent || 0,
+            startedAt: new Date(Date.now() - (timeSpent || 0) * 60000), // Estimate start time
+            completedAt: new Date(),
+            attempt: previousAttempts + 1,
+            answers: answers || [],
+            feedback: feedback || ''
+        });
+
+        await LearningLedgerService.record({
+            studentId: studentId!,
+            programmeId: String(programmeId),
+            moduleId: String(moduleId),
+            lessonId,
+            type: 'QUIZ_SUBMITTED',
+            timeSpent: timeSpent || 0,
+            score,
+            maxScore,
+            percentage,
+            passed: isPassed,
+            source: 'progress.recordQuizResult'
+        });
 
-        try {
-            // Create quiz result
-            const quizResult = new QuizResult({
-                studentId,
-                programmeId,
-                moduleId,
+        // Passing the quiz completes the lesson
+        if (isPassed) {
+            await LearningLedgerService.record({
+                studentId: studentId!,
+                programmeId: String(programmeId),
+                moduleId: String(moduleId),
                 lessonId,
-                quizId: quizId || 'default',
-                score,
-                maxScore,
-                percentage,
-                passingScore,
-                isPassed,
-                timeSpent: timeSpent || 0,
-                startedAt: new Date(Date.now() - (timeSpent || 0) * 60000), // Estimate start time
-                completedAt: new Date(),
-                attempt: previousAttempts + 1,
-                answers: answers || [],
-                feedback: feedback || ''
+                type: 'LESSON_COMPLETED',
+                source: 'progress.recordQuizResult'
             });
+        }
 
-            await quizResult.save({ session });
-
-            // If quiz passed, update lesson progress
-            if (isPassed) {
-                let progressRecord = await UserCourseProgress.findOne({
-                    studentId,
-                    programmeId,
-                    moduleId,
-                    lessonId
-                }).session(session);
-
-                if (!progressRecord) {
-                    progressRecord = new UserCourseProgress({
-                        studentId,
-                        programmeId,
-                        moduleId,
-                        lessonId,
-                        status: 'COMPLETED',
-                        progressPercentage: 100,
-                        timeSpent: timeSpent || 0,
-                        startedAt: new Date(),
-                        completedAt: new Date(),
-                        lastAccessedAt: new Date(),
-                        attempts: 1,
-                        isRequired: true
-                    });
-                } else if (progressRecord.status !== 'COMPLETED') {
-                    await progressRecord.markAsCompleted(timeSpent || 0);
-                }
+        if (studentId) {
+            await BadgeService.evaluateSafely(studentId, 'QUIZ_SUBMITTED', { programmeId: String(programmeId) });
+        }
 
-                await progressRecord.save({ session });
+        res.status(200).json({
+            success: true,
+            message: 'Quiz result recorded successfully',
+            data: {
+                quizResult,
+                lessonTitle: lesson.title,
+                moduleTitle: (lesson.moduleId as any).title,
+                passed: isPassed,
+                attemptNumber: previousAttempts + 1
             }
-
-            await session.commitTransaction();
-
-            res.status(200).json({
-                success: true,
-                message: 'Quiz result recorded successfully',
-                data: {
-                    quizResult,
-                    lessonTitle: lesson.title,
-                    moduleTitle: (lesson.moduleId as any).title,
-                    passed: isPassed,
-                    attemptNumber: previousAttempts + 1
-                }
-            });
-
-        } catch (transactionError) {
-            await session.abortTransaction();
-            throw transactionError;
-        } finally {
-            session.endSession();
-        }
+        });
 
     } catch (error) {
         console.error('Error recording quiz result:', error);
@@ -878,15 +778,6 @@ export const getProgressDashboard = async (req: AuthRequest, res: Response) => {
     try {
         console.log('getProgressDashboard called with studentId:', req.params.studentId);
         const { studentId } = req.params;
-        const userId = req.user?.id;
-
-        // Ensure user can only access their own data or has admin privileges
-        if (userId !== studentId && req.user?.role !== 'admin') {
-            return res.status(403).json({
-                success: false,
-                message: 'Access denied'
-            });
-        }
 
         if (!Types.ObjectId.isValid(studentId)) {
             return res.status(400).json({
@@ -1153,15 +1044,6 @@ export const getUserSmartProgress = async (req: AuthRequest, res: Response) => {
 export const getQuizResults = async (req: AuthRequest, res: Response) => {
     try {
         const { studentId, lessonId } = req.params;
-        const userId = req.user?.id;
-
-        // Ensure user can only access their own data or has admin privileges
-        if (userId !== studentId && req.user?.role !== 'admin') {
-            return res.status(403).json({
-                success: false,
-                message: 'Access denied'
-            });
-        }
 
         if (!Types.ObjectId.isValid(studentId) || !Types.ObjectId.isValid(lessonId)) {
             return res.status(400).json({
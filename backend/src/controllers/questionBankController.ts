@@ -0,0 +1,181 @@
+import { Response } from 'express';
+import QuestionBankItem from '../models/QuestionBankItem';
+import QuizAttempt from '../models/QuizAttempt';
+import QuestionBankService from '../services/questionBankService';
+import QuestionScoring from '../services/questionScoring';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { success, created, validationError, notFound, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+const EDITABLE_QUESTION_FIELDS = [
+  'question',
+  'type',
+  'options',
+  'correctAnswer',
+  'acceptedAnswers',
+  'tolerance',
+  'partialCredit',
+  'points',
+  'explanation',
+  'tags',
+  'difficulty',
+  'isActive'
+] as const;
+
+/**
+ * List question bank items
+ * @route GET /api/admin/question-bank
+ * @query tag, difficulty, type, isActive, search, page, limit
+ */
+export const getQuestionBankItems = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { tag, difficulty, type, isActive, search } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const filter: Record<string, any> = {};
+    if (typeof tag === 'string' && tag.trim()) {
+      filter.tags = tag.trim().toLowerCase();
+    }
+    if (difficulty) {
+      filter.difficulty = difficulty;
+    }
+    if (type) {
+      filter.type = type;
+    }
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+    if (typeof search === 'string' && search.trim()) {
+      filter.question = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    }
+
+    const [items, total] = await Promise.all([
+      QuestionBankItem.find(filter)
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      QuestionBankItem.countDocuments(filter)
+    ]);
+
+    success(res, {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }, 'Questions retrieved successfully');
+  } catch (error) {
+    logger.error('Get question bank error:', error);
+    serverError(res, 'Failed to retrieve questions');
+  }
+};
+
+/**
+ * List tags with active question counts per difficulty, for building question pools
+ * @route GET /api/admin/question-bank/tags
+ */
+export const getQuestionBankTags = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const tags = await QuestionBankService.getTagSummary();
+    success(res, tags, 'Question tags retrieved successfully');
+  } catch (error) {
+    logger.error('Get question bank tags error:', error);
+    serverError(res, 'Failed to retrieve question tags');
+  }
+};
+
+/**
+ * Add a question to the bank
+ * @route POST /api/admin/question-bank
+ */
+export const createQuestionBankItem = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const questionError = QuestionScoring.validate(req.body);
+    if (questionError) {
+      return validationError(res, questionError);
+    }
+
+    const item = new QuestionBankItem({ createdBy: req.user?.id });
+    for (const field of EDITABLE_QUESTION_FIELDS) {
+      if (req.body[field] !== undefined) {
+        item.set(field, req.body[field]);
+      }
+    }
+    await item.save();
+
+    logger.info(`Question ${item.id} added to the bank by ${req.user?.id}`);
+    created(res, item, 'Question created successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Create question error:', error);
+    serverError(res, 'Failed to create question');
+  }
+};
+
+/**
+ * Update a bank question. Attempts in progress are scored against the new answer key.
+ * @route PUT /api/admin/question-bank/:id
+ */
+export const updateQuestionBankItem = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const item = await QuestionBankItem.findById(req.params.id);
+    if (!item) {
+      return notFound(res, 'Question');
+    }
+
+    for (const field of EDITABLE_QUESTION_FIELDS) {
+      if (req.body[field] !== undefined) {
+        item.set(field, req.body[field]);
+      }
+    }
+
+    const questionError = QuestionScoring.validate(item.toObject());
+    if (questionError) {
+      return validationError(res, questionError);
+    }
+    await item.save();
+
+    logger.info(`Question ${item.id} updated by ${req.user?.id}`);
+    success(res, item, 'Question updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Update question error:', error);
+    serverError(res, 'Failed to update question');
+  }
+};
+
+/**
+ * Delete a bank question. Questions that appear in past attempts are deactivated
+ * instead so those attempts can still be reviewed.
+ * @route DELETE /api/admin/question-bank/:id
+ */
+export const deleteQuestionBankItem = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const item = await QuestionBankItem.findById(req.params.id);
+    if (!item) {
+      return notFound(res, 'Question');
+    }
+
+    const isUsed = await QuizAttempt.exists({ questionIds: String(item._id) });
+    if (isUsed) {
+      item.isActive = false;
+      await item.save();
+      return success(res, item, 'Question deactivated because it has been used in quiz attempts');
+    }
+
+    await item.deleteOne();
+
+    logger.info(`Question ${item.id} deleted by ${req.user?.id}`);
+    success(res, null, 'Question deleted successfully');
+  } catch (error) {
+    logger.error('Delete question error:', error);
+    serverError(res, 'Failed to delete question');
+  }
+};
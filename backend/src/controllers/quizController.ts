@@ -3,7 +3,13 @@ import { Types } from 'mongoose';
 import ProgrammeLesson from '../models/ProgrammeLesson';
 import QuizAttempt from '../models/QuizAttempt';
 import Enrollment from '../models/Enrollment';
-import LessonCompletion from '../models/LessonCompletion';
+import BadgeService from '../services/badgeService';
+import QuestionBankService from '../services/questionBankService';
+import QuestionScoring, { QuizQuestion } from '../services/questionScoring';
+import QuizAttemptService from '../services/quizAttemptService';
+import QuizItemAnalysisService from '../services/quizItemAnalysisService';
+import { IQuizAttempt } from '../models/QuizAttempt';
+import { ValidationError, NotFoundError } from '../utils/errors';
 import logger from '../config/logger';
 
 // Helper function to calculate grade letter
@@ -15,6 +21,17 @@ const calculateGradeLetter = (percentage: number): string => {
     return 'F';
 };
 
+// Attempt details a student needs to take (or resume) a quiz
+const toAttemptData = (attempt: IQuizAttempt, questions: QuizQuestion[]) => ({
+    attemptId: attempt.id,
+    attemptNumber: attempt.attemptNumber,
+    startedAt: attempt.startedAt,
+    expiresAt: attempt.expiresAt,
+    timeLimit: attempt.settings.timeLimit,
+    maxScore: attempt.maxScore,
+    questions: QuizAttemptService.toStudentQuestions(attempt, questions)
+});
+
 /**
  * Get quiz for a lesson
  * @route GET /api/quiz/lesson/:lessonId
@@ -54,7 +71,8 @@ export const getLessonQuiz = async (req: Request, res: Response): Promise<void>
 
         // Check if lesson has a quiz
         const quizData = lesson.quiz || lesson.content?.quiz;
-        if (!quizData || !quizData.questions || quizData.questions.length === 0) {
+        const pooledQuestionCount = (quizData?.questionPools || []).reduce((sum, pool) => sum + pool.count, 0);
+        if (!quizData || ((quizData.questions?.length || 0) === 0 && pooledQuestionCount === 0)) {
             res.status(404).json({
                 success: false,
                 message: 'No quiz found for this lesson'
@@ -80,6 +98,8 @@ export const getLessonQuiz = async (req: Request, res: Response): Promise<void>
         // Check previous attempts
         const previousAttempts = await QuizAttempt.findStudentAttempts(userId, lessonId);
         const bestAttempt = await QuizAttempt.findBestAttempt(userId, lessonId);
+        const attemptSettings = QuizAttemptService.getSettings(quizData);
+        const eligibility = await QuizAttemptService.getEligibility(userId, lessonId, quizData);
 
         // Prepare quiz data (without correct answers for new attempts)
         const quiz = {
@@ -88,26 +108,27 @@ export const getLessonQuiz = async (req: Request, res: Response): Promise<void>
             lessonTitle: lesson.title,
             programmeId: lesson.programmeId,
             moduleId: lesson.moduleId,
-            questions: quizData.questions.map(q => ({
-                id: q.id,
-                question: q.question,
-                type: q.type,
-                options: q.options || [],
-                points: q.points
-                // Note: correctAnswer is not included for active attempts
-            })),
+            // Correct answers are never sent; pooled questions are drawn when an attempt starts
+            questions: (quizData.questions || []).map(q => QuestionScoring.toStudentView(q)),
             settings: {
-                timeLimit: quizData.timeLimit || (quizData as any).settings?.timeLimit,
+                timeLimit: attemptSettings.timeLimit,
                 passingScore: quizData.passingScore || (quizData as any).settings?.passingScore || 60,
                 allowMultipleAttempts: (quizData as any).settings?.allowMultipleAttempts ?? true,
                 showCorrectAnswers: (quizData as any).settings?.showCorrectAnswers ?? true,
-                showFeedback: (quizData as any).settings?.showFeedback ?? true
+                showFeedback: (quizData as any).settings?.showFeedback ?? true,
+                maxAttempts: attemptSettings.maxAttempts,
+                retakeCooldownMinutes: attemptSettings.retakeCooldownMinutes
             },
-            totalQuestions: quizData.questions.length,
-            maxScore: quizData.questions.reduce((sum, q) => sum + q.points, 0),
+            totalQuestions: (quizData.questions?.length || 0) + pooledQuestionCount,
+            pooledQuestions: pooledQuestionCount,
+            maxScore: (quizData.questions || []).reduce((sum, q) => sum + q.points, 0),
             previousAttempts: previousAttempts.length,
             bestScore: bestAttempt ? bestAttempt.percentage : null,
-            canAttempt: true // Can add logic for attempt limits later
+            canAttempt: eligibility.canAttempt,
+            attemptsRemaining: eligibility.attemptsRemaining,
+            nextAttemptAt: eligibility.nextAttemptAt,
+            cannotAttemptReason: eligibility.reason,
+            inProgressAttemptId: eligibility.inProgressAttemptId
         };
 
         res.status(200).json({
@@ -153,7 +174,8 @@ export const startQuizAttempt = async (req: Request, res: Response): Promise<voi
             return;
         }
 
-        // Check for any incomplete attempts
+        // An incomplete attempt is resumed with the same questions in the same order,
+        // unless its time has run out
         const incompleteAttempt = await QuizAttempt.findOne({
             studentId: userId,
             lessonId,
@@ -162,12 +184,29 @@ export const startQuizAttempt = async (req: Request, res: Response): Promise<voi
         });
 
         if (incompleteAttempt) {
-            res.status(400).json({
+            if (!QuizAttemptService.isOverdue(incompleteAttempt)) {
+                const questions = await QuestionBankService.resolveQuestions(quizData, incompleteAttempt.questionIds);
+                res.status(200).json({
+                    success: true,
+                    message: 'Resuming your quiz attempt',
+                    data: {
+                        ...toAttemptData(incompleteAttempt, questions),
+                        resumed: true
+                    }
+                });
+                return;
+            }
+            await QuizAttemptService.expireOverdueAttempts(incompleteAttempt.id);
+        }
+
+        const eligibility = await QuizAttemptService.getEligibility(userId, lessonId, quizData);
+        if (!eligibility.canAttempt) {
+            res.status(403).json({
                 success: false,
-                message: 'You have an incomplete attempt. Please complete or abandon it first.',
+                message: eligibility.reason,
                 data: {
-                    attemptId: incompleteAttempt.id,
-                    startedAt: incompleteAttempt.startedAt
+                    attemptsRemaining: eligibility.attemptsRemaining,
+                    nextAttemptAt: eligibility.nextAttemptAt
                 }
             });
             return;
@@ -182,6 +221,26 @@ export const startQuizAttempt = async (req: Request, res: Response): Promise<voi
 
         const attemptNumber = lastAttempt ? lastAttempt.attemptNumber + 1 : 1;
 
+        // Pooled questions are drawn and shuffled now, and recorded so the attempt is
+        // shown and scored with the same set
+        let presentation;
+        try {
+            presentation = await QuizAttemptService.buildPresentation(quizData);
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                res.status(400).json({
+                    success: false,
+                    message: error.message
+                });
+                return;
+            }
+            throw error;
+        }
+
+        const { questions, optionOrder } = presentation;
+        const attemptSettings = QuizAttemptService.getSettings(quizData);
+        const startedAt = new Date();
+
         // Create new attempt
         const newAttempt = new QuizAttempt({
             studentId: userId,
@@ -190,12 +249,16 @@ export const startQuizAttempt = async (req: Request, res: Response): Promise<voi
             lessonId,
             quizId: `quiz_${lessonId}`,
             attemptNumber,
-            maxScore: quizData.questions.reduce((sum, q) => sum + q.points, 0),
+            startedAt,
+            expiresAt: attemptSettings.timeLimit ? new Date(startedAt.getTime() + attemptSettings.timeLimit * 60 * 1000) : undefined,
+            questionIds: questions.map(q => q.id),
+            optionOrder,
+            maxScore: questions.reduce((sum, q) => sum + q.points, 0),
             passingScore: quizData.passingScore || (quizData as any).settings?.passingScore || 60,
             settings: {
-                timeLimit: quizData.timeLimit || (quizData as any).settings?.timeLimit,
-                questionsRandomized: (quizData as any).settings?.questionsRandomized ?? false,
-                optionsRandomized: (quizData as any).settings?.optionsRandomized ?? false,
+                timeLimit: attemptSettings.timeLimit,
+                questionsRandomized: attemptSettings.questionsRandomized,
+                optionsRandomized: attemptSettings.optionsRandomized,
                 allowMultipleAttempts: (quizData as any).settings?.allowMultipleAttempts ?? true,
                 showCorrectAnswers: (quizData as any).settings?.showCorrectAnswers ?? true,
                 showFeedback: (quizData as any).settings?.showFeedback ?? true
@@ -210,13 +273,7 @@ export const startQuizAttempt = async (req: Request, res: Response): Promise<voi
         res.status(201).json({
             success: true,
             message: 'Quiz attempt started successfully',
-            data: {
-                attemptId: newAttempt.id,
-                attemptNumber: newAttempt.attemptNumber,
-                startedAt: newAttempt.startedAt,
-                timeLimit: newAttempt.settings.timeLimit,
-                maxScore: newAttempt.maxScore
-            }
+            data: toAttemptData(newAttempt, questions)
         });
 
     } catch (error) {
@@ -271,6 +328,15 @@ export const submitQuizAttempt = async (req: Request, res: Response): Promise<vo
             return;
         }
 
+        if (QuizAttemptService.isOverdue(attempt)) {
+            await QuizAttemptService.expireOverdueAttempts(attempt.id);
+            res.status(400).json({
+                success: false,
+                message: 'The time limit for this attempt has passed, so it was not scored'
+            });
+            return;
+        }
+
         // Get the lesson with quiz data
         const lesson = await ProgrammeLesson.findById(attempt.lessonId);
         const quizData = lesson?.quiz || lesson?.content?.quiz;
@@ -282,10 +348,11 @@ export const submitQuizAttempt = async (req: Request, res: Response): Promise<vo
             return;
         }
 
-        // Validate and score answers
-        const quizQuestions = quizData.questions;
+        // Validate and score answers against the questions this attempt was given
+        const quizQuestions = await QuestionBankService.resolveQuestions(quizData, attempt.questionIds);
         let totalScore = 0;
         const scoredAnswers: any[] = [];
+        const answeredIds = new Set<string>();
 
         for (const submittedAnswer of answers) {
             const question = quizQuestions.find(q => q.id === submittedAnswer.questionId);
@@ -298,38 +365,26 @@ export const submitQuizAttempt = async (req: Request, res: Response): Promise<vo
                 return;
             }
 
-            let isCorrect = false;
-            let pointsAwarded = 0;
-
-            // Check answer based on question type
-            switch (question.type) {
-                case 'MULTIPLE_CHOICE':
-                    isCorrect = submittedAnswer.answer === question.correctAnswer;
-                    break;
-                case 'TRUE_FALSE':
-                    isCorrect = Boolean(submittedAnswer.answer) === Boolean(question.correctAnswer);
-                    break;
-                case 'SHORT_ANSWER':
-                    // Simple string comparison (case-insensitive)
-                    const submittedText = String(submittedAnswer.answer).trim().toLowerCase();
-                    const correctText = String(question.correctAnswer).trim().toLowerCase();
-                    isCorrect = submittedText === correctText;
-                    break;
-                default:
-                    isCorrect = false;
+            // Each question is scored once, so repeating an answer cannot add to the score
+            if (answeredIds.has(question.id)) {
+                res.status(400).json({
+                    success: false,
+                    message: `Question ${question.id} was answered more than once`
+                });
+                return;
             }
+            answeredIds.add(question.id);
 
-            if (isCorrect) {
-                pointsAwarded = question.points;
-                totalScore += pointsAwarded;
-            }
+            const { isCorrect, pointsAwarded, needsReview } = QuestionScoring.score(question, submittedAnswer.answer);
+            totalScore += pointsAwarded;
 
             scoredAnswers.push({
                 questionId: question.id,
-                answer: submittedAnswer.answer,
+                answer: submittedAnswer.answer ?? '',
                 isCorrect,
                 pointsAwarded,
-                timeSpent: submittedAnswer.timeSpent || 0
+                timeSpent: Math.max(0, Math.round(Number(submittedAnswer.timeSpent) || 0)),
+                needsReview
             });
         }
 
@@ -340,54 +395,47 @@ export const submitQuizAttempt = async (req: Request, res: Response): Promise<vo
         // Update attempt with results
         attempt.completedAt = completedAt;
         attempt.timeSpent = timeSpent;
+        totalScore = Math.round(totalScore * 100) / 100;
         attempt.score = totalScore;
         attempt.answers = scoredAnswers;
-        attempt.status = 'COMPLETED';
+
+        // Essay answers wait for a grader; the score so far covers only auto-scored questions
+        const pendingReview = scoredAnswers.some(answer => answer.needsReview);
+        attempt.status = pendingReview ? 'PENDING_REVIEW' : 'COMPLETED';
+        attempt.flaggedForReview = pendingReview;
         
         // Calculate results manually
-        attempt.percentage = Math.round((totalScore / attempt.maxScore) * 100);
-        attempt.isPassed = attempt.percentage >= attempt.passingScore;
+        attempt.percentage = attempt.maxScore > 0 ? Math.round((totalScore / attempt.maxScore) * 100) : 0;
+        attempt.isPassed = !pendingReview && attempt.percentage >= attempt.passingScore;
         
         await attempt.save();
 
-        // Mark lesson as completed if quiz is passed (optional logic)
-        if (attempt.isPassed) {
-            const existingCompletion = await LessonCompletion.findOne({
-                userId,
-                lessonId: attempt.lessonId
-            });
+        // The lesson only counts as completed once the quiz is passed
+        await QuizAttemptService.recordAttemptResult(attempt);
 
-            if (!existingCompletion) {
-                const lessonCompletion = new LessonCompletion({
-                    userId,
-                    courseId: attempt.programmeId,
-                    moduleId: attempt.moduleId,
-                    lessonId: attempt.lessonId,
-                    timeSpent: Math.round(timeSpent / 60), // Convert to minutes
-                    score: attempt.percentage,
-                    completedAt
-                });
-                await lessonCompletion.save();
-                logger.info(`Lesson completed through quiz: User ${userId}, Lesson ${attempt.lessonId}`);
-            }
+        if (!pendingReview) {
+            await BadgeService.evaluateSafely(userId, 'QUIZ_SUBMITTED', { programmeId: String(attempt.programmeId) });
         }
 
         // Prepare response with correct answers and feedback
-        const questionsWithAnswers = quizQuestions.map((q: any) => {
+        const studentViews = QuizAttemptService.toStudentQuestions(attempt, quizQuestions);
+        const questionsWithAnswers = quizQuestions.map((q, index) => {
             const studentAnswer: any = scoredAnswers.find((a: any) => a.questionId === q.id);
             return {
-                id: q.id,
-                question: q.question,
-                type: q.type,
-                options: q.options || [],
+                ...studentViews[index],
                 correctAnswer: q.correctAnswer,
+                acceptedAnswers: q.acceptedAnswers,
+                tolerance: q.tolerance,
+                explanation: q.explanation,
                 studentAnswer: studentAnswer?.answer,
                 isCorrect: studentAnswer?.isCorrect || false,
                 pointsAwarded: studentAnswer?.pointsAwarded || 0,
-                points: q.points
+                needsReview: studentAnswer?.needsReview || false
             };
         });
 
+        const retakeEligibility = await QuizAttemptService.getEligibility(userId, String(attempt.lessonId), quizData);
+
         logger.info(`Quiz submitted: User ${userId}, Lesson ${attempt.lessonId}, Score: ${attempt.percentage}%`);
 
         res.status(200).json({
@@ -403,10 +451,16 @@ export const submitQuizAttempt = async (req: Request, res: Response): Promise<vo
                 timeSpent: timeSpent,
                 completedAt: completedAt,
                 questions: questionsWithAnswers,
-                feedback: attempt.isPassed ? 
+                status: attempt.status,
+                pendingReview,
+                feedback: pendingReview ?
+                    'Your answers have been submitted. Some need to be graded by an instructor; you will be notified when your final score is ready.' :
+                    attempt.isPassed ? 
                     'Congratulations! You passed the quiz.' : 
                     'You did not pass this time. Review the material and try again.',
-                canRetake: !attempt.isPassed // Logic for retakes
+                canRetake: !pendingReview && !attempt.isPassed && retakeEligibility.canAttempt,
+                attemptsRemaining: retakeEligibility.attemptsRemaining,
+                nextAttemptAt: retakeEligibility.nextAttemptAt
             }
         });
 
@@ -551,22 +605,13 @@ export const getStudentQuizAttempts = async (req: Request, res: Response): Promi
 };
 
 /**
- * Get quiz analytics for admin
+ * Get quiz analytics for a lesson
  * @route GET /api/quiz/lesson/:lessonId/analytics
- * @access Private (Admin)
+ * @access Private (Admin, or the programme's instructors)
  */
 export const getQuizAnalytics = async (req: Request, res: Response): Promise<void> => {
     try {
         const { lessonId } = req.params;
-        const userRole = (req as any).user?.role;
-
-        if (userRole !== 'admin') {
-            res.status(403).json({
-                success: false,
-                message: 'Access denied. Admin role required.'
-            });
-            return;
-        }
 
         if (!Types.ObjectId.isValid(lessonId)) {
             res.status(400).json({
@@ -609,14 +654,14 @@ export const getQuizAnalytics = async (req: Request, res: Response): Promise<voi
 };
 
 /**
- * Create or update quiz for a lesson (Admin only)
+ * Create or update quiz for a lesson
  * @route POST /api/quiz/lesson/:lessonId/manage
- * @access Private (Admin)
+ * @access Private (Admin, or the programme's instructors)
  */
 export const createOrUpdateQuiz = async (req: Request, res: Response): Promise<void> => {
     try {
         const { lessonId } = req.params;
-        const { questions, settings } = req.body;
+        const { questions = [], questionPools = [], settings } = req.body;
 
         if (!lessonId || !Types.ObjectId.isValid(lessonId)) {
             res.status(400).json({
@@ -636,36 +681,39 @@ export const createOrUpdateQuiz = async (req: Request, res: Response): Promise<v
         }
 
         // Validate quiz data
-        if (!questions || !Array.isArray(questions) || questions.length === 0) {
+        if (!Array.isArray(questions) || !Array.isArray(questionPools) || (questions.length === 0 && questionPools.length === 0)) {
             res.status(400).json({
                 success: false,
-                message: 'At least one question is required'
+                message: 'At least one question or question pool is required'
             });
             return;
         }
 
-        // Validate each question
-        for (const question of questions) {
-            if (!question.question || !question.type || !question.points) {
+        for (const pool of questionPools) {
+            if (!pool?.tag || typeof pool.tag !== 'string' || !Number.isInteger(Number(pool.count)) || Number(pool.count) < 1) {
                 res.status(400).json({
                     success: false,
-                    message: 'Each question must have question text, type, and points'
+                    message: 'Each question pool needs a tag and a question count of at least 1'
                 });
                 return;
             }
+        }
 
-            if (!['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER'].includes(question.type)) {
+        // Validate each question
+        for (const question of questions) {
+            if (!question.question || !question.type || !question.points) {
                 res.status(400).json({
                     success: false,
-                    message: 'Invalid question type'
+                    message: 'Each question must have question text, type, and points'
                 });
                 return;
             }
 
-            if (question.type === 'MULTIPLE_CHOICE' && (!question.options || question.options.length < 2)) {
+            const questionError = QuestionScoring.validate(question);
+            if (questionError) {
                 res.status(400).json({
                     success: false,
-                    message: 'Multiple choice questions must have at least 2 options'
+                    message: `${questionError}: "${question.question}"`
                 });
                 return;
             }
@@ -679,9 +727,17 @@ export const createOrUpdateQuiz = async (req: Request, res: Response): Promise<v
                 type: q.type,
                 options: q.options || [],
                 correctAnswer: q.correctAnswer,
+                acceptedAnswers: q.acceptedAnswers || [],
+                tolerance: q.tolerance,
+                partialCredit: q.partialCredit ?? false,
                 points: q.points,
                 explanation: q.explanation || ''
             })),
+            questionPools: questionPools.map((pool: any) => ({
+                tag: String(pool.tag).trim().toLowerCase(),
+                count: Number(pool.count),
+                difficulty: pool.difficulty || undefined
+            })),
             settings: {
                 timeLimit: settings?.timeLimit || null,
                 passingScore: settings?.passingScore || 60,
@@ -690,7 +746,8 @@ export const createOrUpdateQuiz = async (req: Request, res: Response): Promise<v
                 showFeedback: settings?.showFeedback ?? true,
                 maxAttempts: settings?.maxAttempts || 3,
                 questionsRandomized: settings?.questionsRandomized ?? false,
-                optionsRandomized: settings?.optionsRandomized ?? false
+                optionsRandomized: settings?.optionsRandomized ?? false,
+                retakeCooldownMinutes: Math.max(Number(settings?.retakeCooldownMinutes) || 0, 0)
             }
         };
 
@@ -706,7 +763,7 @@ export const createOrUpdateQuiz = async (req: Request, res: Response): Promise<v
             { new: true }
         );
 
-        logger.info(`Quiz created/updated for lesson: ${lessonId} by admin: ${(req as any).user?.id}`);
+        logger.info(`Quiz created/updated for lesson: ${lessonId} by user: ${(req as any).user?.id}`);
 
         res.status(200).json({
             success: true,
@@ -715,6 +772,7 @@ export const createOrUpdateQuiz = async (req: Request, res: Response): Promise<v
                 lessonId: updatedLesson?._id,
                 quiz: updatedLesson?.quiz || updatedLesson?.content?.quiz,
                 questionCount: questions.length,
+                pooledQuestionCount: questionPools.reduce((sum: number, pool: any) => sum + Number(pool.count), 0),
                 maxScore: questions.reduce((sum: number, q: any) => sum + q.points, 0)
             }
         });
@@ -729,9 +787,9 @@ export const createOrUpdateQuiz = async (req: Request, res: Response): Promise<v
 };
 
 /**
- * Delete quiz from a lesson (Admin only)
+ * Delete quiz from a lesson
  * @route DELETE /api/quiz/lesson/:lessonId/manage
- * @access Private (Admin)
+ * @access Private (Admin, or the programme's instructors)
  */
 export const deleteQuiz = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -762,7 +820,7 @@ export const deleteQuiz = async (req: Request, res: Response): Promise<void> =>
             }
         );
 
-        logger.info(`Quiz deleted from lesson: ${lessonId} by admin: ${(req as any).user?.id}`);
+        logger.info(`Quiz deleted from lesson: ${lessonId} by user: ${(req as any).user?.id}`);
 
         res.status(200).json({
             success: true,
@@ -779,9 +837,9 @@ export const deleteQuiz = async (req: Request, res: Response): Promise<void> =>
 };
 
 /**
- * Get detailed quiz analytics for admin (Admin only)
+ * Get detailed quiz analytics for a lesson
  * @route GET /api/quiz/lesson/:lessonId/admin-analytics
- * @access Private (Admin)
+ * @access Private (Admin, or the programme's instructors)
  */
 export const getDetailedQuizAnalytics = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -894,6 +952,47 @@ export const getDetailedQuizAnalytics = async (req: Request, res: Response): Pro
     }
 };
 
+/**
+ * Get per-question difficulty, discrimination, option frequencies and timing
+ * across completed attempts
+ * @route GET /api/quiz/lesson/:lessonId/item-analysis
+ * @access Private (Admin, or the programme's instructors)
+ */
+export const getQuizItemAnalysis = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { lessonId } = req.params;
+
+        if (!Types.ObjectId.isValid(lessonId)) {
+            res.status(400).json({
+                success: false,
+                message: 'Invalid lesson ID'
+            });
+            return;
+        }
+
+        const analysis = await QuizItemAnalysisService.analyze(lessonId);
+
+        res.status(200).json({
+            success: true,
+            data: analysis
+        });
+
+    } catch (error) {
+        if (error instanceof NotFoundError) {
+            res.status(404).json({
+                success: false,
+                message: 'No quiz found for this lesson'
+            });
+            return;
+        }
+        logger.error('Error getting quiz item analysis:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error'
+        });
+    }
+};
+
 export default {
     getLessonQuiz,
     startQuizAttempt,
@@ -903,5 +1002,6 @@ export default {
     getQuizAnalytics,
     createOrUpdateQuiz,
     deleteQuiz,
-    getDetailedQuizAnalytics
+    getDetailedQuizAnalytics,
+    getQuizItemAnalysis
 };
@@ -0,0 +1,74 @@
+import { Response } from 'express';
+import QuizGradingService from '../services/quizGradingService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import { success, error as errorResponse, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Send service errors with their own status, anything else as a 500
+ */
+const handleGradingError = (res: Response, error: unknown, context: string, fallback: string): void => {
+  if (error instanceof AppError) {
+    return errorResponse(res, error.message, error.statusCode, error.code);
+  }
+  logger.error(`${context} error:`, error);
+  serverError(res, fallback);
+};
+
+/**
+ * List quiz attempts waiting for manual grading
+ * @route GET /api/admin/quiz-grading
+ * @query programmeId, lessonId, page, limit
+ */
+export const getGradingQueue = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const queue = await QuizGradingService.getQueue({
+      programmeId: req.query.programmeId as string | undefined,
+      programmeIds: req.programmeScope,
+      lessonId: req.query.lessonId as string | undefined,
+      page: Math.max(parseInt(req.query.page as string) || 1, 1),
+      limit: Math.min(parseInt(req.query.limit as string) || 20, 100)
+    });
+    success(res, queue, 'Grading queue retrieved successfully');
+  } catch (error) {
+    handleGradingError(res, error, 'Get grading queue', 'Failed to retrieve grading queue');
+  }
+};
+
+/**
+ * Get a quiz attempt with its answers and answer key for grading
+ * @route GET /api/admin/quiz-grading/:attemptId
+ */
+export const getAttemptForGrading = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const attempt = await QuizGradingService.getAttemptForGrading(req.params.attemptId);
+    success(res, attempt, 'Quiz attempt retrieved successfully');
+  } catch (error) {
+    handleGradingError(res, error, 'Get attempt for grading', 'Failed to retrieve quiz attempt');
+  }
+};
+
+/**
+ * Award points and comments to answers. The attempt is finalised once every
+ * answer that needed review has been graded.
+ * @route PUT /api/admin/quiz-grading/:attemptId
+ * @body grades: [{ questionId, pointsAwarded, comment }], feedback
+ */
+export const gradeQuizAttempt = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { grades, feedback } = req.body;
+    const attempt = await QuizGradingService.gradeAttempt(req.params.attemptId, req.user!.id, grades, feedback);
+
+    success(res, {
+      id: attempt.id,
+      status: attempt.status,
+      score: attempt.score,
+      maxScore: attempt.maxScore,
+      percentage: attempt.percentage,
+      isPassed: attempt.isPassed
+    }, attempt.status === 'COMPLETED' ? 'Grading complete; the student has been notified' : 'Grades saved');
+  } catch (error) {
+    handleGradingError(res, error, 'Grade quiz attempt', 'Failed to grade quiz attempt');
+  }
+};
@@ -0,0 +1,78 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import SessionService from '../services/sessionService';
+import { AuthenticatedRequest, JWT_CONFIG } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import { success, error as errorResponse, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Send service errors with their own status, anything else as a 500
+ */
+const handleSessionError = (res: Response, error: unknown, context: string, fallback: string): void => {
+  if (error instanceof AppError) {
+    return errorResponse(res, error.message, error.statusCode, error.code);
+  }
+  logger.error(`${context} error:`, error);
+  serverError(res, fallback);
+};
+
+const currentSessionId = (req: AuthenticatedRequest): string | null =>
+  SessionService.getSessionId(req.cookies?.[JWT_CONFIG.COOKIE.REFRESH_TOKEN_NAME]);
+
+/**
+ * List the signed-in devices of the current user
+ * @route GET /api/auth/sessions
+ */
+export const getSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await SessionService.listSessions(req.user!.id, currentSessionId(req));
+    success(res, sessions, 'Sessions retrieved successfully');
+  } catch (error) {
+    handleSessionError(res, error, 'Get sessions', 'Failed to retrieve sessions');
+  }
+};
+
+/**
+ * Sign the current user out of one device
+ * @route DELETE /api/auth/sessions/:sessionId
+ */
+export const revokeSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await SessionService.revokeSession(req.user!.id, req.params.sessionId);
+    success(res, null, 'Device signed out');
+  } catch (error) {
+    handleSessionError(res, error, 'Revoke session', 'Failed to sign out device');
+  }
+};
+
+/**
+ * Sign the current user out of every device except this one
+ * @route DELETE /api/auth/sessions
+ */
+export const revokeOtherSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const revoked = await SessionService.revokeAllSessions(req.user!.id, 'USER_REVOKED', currentSessionId(req));
+    success(res, { revoked }, `Signed out of ${revoked} other device(s)`);
+  } catch (error) {
+    handleSessionError(res, error, 'Revoke other sessions', 'Failed to sign out other devices');
+  }
+};
+
+/**
+ * Sign a user out of every device (Admin only)
+ * @route DELETE /api/user/:id/sessions
+ */
+export const revokeUserSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      errorResponse(res, 'Invalid user ID', 400);
+      return;
+    }
+    const revoked = await SessionService.revokeAllSessions(req.params.id, 'ADMIN_REVOKED');
+    logger.info(`Admin ${req.user!.id} revoked all sessions of user ${req.params.id}`);
+    success(res, { revoked }, `Revoked ${revoked} session(s)`);
+  } catch (error) {
+    handleSessionError(res, error, 'Revoke user sessions', 'Failed to revoke sessions');
+  }
+};
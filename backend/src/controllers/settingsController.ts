@@ -0,0 +1,38 @@
+import { Response } from 'express';
+import SettingsService from '../services/settingsService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { success, validationError, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Get platform settings
+ * @route GET /api/admin/settings
+ */
+export const getPlatformSettings = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getSettings();
+    success(res, settings, 'Settings retrieved successfully');
+  } catch (error) {
+    logger.error('Get platform settings error:', error);
+    serverError(res, 'Failed to retrieve settings');
+  }
+};
+
+/**
+ * Update platform settings
+ * @route PUT /api/admin/settings
+ */
+export const updatePlatformSettings = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.updateSettings(req.body, req.user?.id);
+
+    logger.info(`Platform settings updated by ${req.user?.id}`);
+    success(res, settings, 'Settings updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Update platform settings error:', error);
+    serverError(res, 'Failed to update settings');
+  }
+};
@@ -16,12 +16,18 @@ import {
   serverError,
   validationError,
   conflict,
-  forbidden 
+  forbidden,
+  error as errorResponse
 } from '../utils/response';
 import { AuthenticatedRequest } from '../utils/jwt';
+import { createSettingsAwareUpload } from '../middleware/upload';
 import logger from '../config/logger';
 import AnalyticsService from '../services/analyticsService';
+import CouponService, { PriceQuote } from '../services/couponService';
+import { ASSIGNMENT_SUBMISSIONS_DIR } from '../services/assignmentService';
+import { ValidationError } from '../utils/errors';
 import LessonCompletion from '../models/LessonCompletion';
+import LearningLedgerService from '../services/learningLedgerService';
 
 // Generate initials-based avatar URL
 const generateInitialsAvatar = (firstName?: string, lastName?: string, username?: string, email?: string): string => {
@@ -67,10 +73,9 @@ const getProfilePhotoWithFallback = (user: any, profile?: any): { url: string; s
   };
 };
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
+// Configure multer disk storage for a directory
+const createDiskStorage = (uploadDir: string, filePrefix: string) => multer.diskStorage({
   destination: async (req, file, cb) => {
-    const uploadDir = path.join(process.cwd(), 'uploads', 'profiles');
     try {
       await fs.mkdir(uploadDir, { recursive: true });
       cb(null, uploadDir);
@@ -82,10 +87,12 @@ const storage = multer.diskStorage({
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
     const ext = path.extname(file.originalname);
     // Use a generic filename since req.user is not available in multer callback
-    cb(null, `profile-${uniqueSuffix}${ext}`);
+    cb(null, `${filePrefix}-${uniqueSuffix}${ext}`);
   }
 });
 
+const storage = createDiskStorage(path.join(process.cwd(), 'uploads', 'profiles'), 'profile');
+
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
   if (allowedTypes.includes(file.mimetype)) {
@@ -95,12 +102,33 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
   }
 };
 
-export const upload = multer({
+// Size and extension limits come from the platform settings
+export const upload = createSettingsAwareUpload({
   storage,
-  fileFilter,
-  limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
+  fileFilter
+});
+
+const assignmentFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedTypes = [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/zip',
+    'text/plain',
+    'image/jpeg',
+    'image/png'
+  ];
+  if (allowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only PDF, Word, ZIP, text, JPEG and PNG files are allowed.'));
   }
+};
+
+export const assignmentUpload = createSettingsAwareUpload({
+  storage: createDiskStorage(ASSIGNMENT_SUBMISSIONS_DIR, 'submission'),
+  fileFilter: assignmentFileFilter,
+  maxFiles: 5
 });
 
 /**
@@ -631,6 +659,8 @@ export const getStudentEnrollments = async (req: AuthenticatedRequest, res: Resp
           timeSpent: enrollment.progress?.timeSpent || 0,
           lastActivityDate: enrollment.progress?.lastActivityDate
         },
+        certificateIssued: enrollment.certificateIssued || false,
+        certificateId: enrollment.certificateId,
         programme: {
           id: programme._id?.toString() || '',
           title: programme.title || '',
@@ -712,26 +742,16 @@ export const updateLearningActivity = async (req: AuthenticatedRequest, res: Res
       return notFound(res, 'Enrollment not found');
     }
 
-    // Update progress
-    if (moduleId && !enrollment.progress.completedModules.includes(moduleId)) {
-      enrollment.progress.completedModules.push(moduleId);
-    }
-
-    if (lessonId && !enrollment.progress.completedLessons.includes(lessonId)) {
-      enrollment.progress.completedLessons.push(lessonId);
-    }
-
-    enrollment.progress.timeSpent += timeSpent;
-    enrollment.progress.lastActivityDate = new Date();
-    
-    // Calculate progress percentage using totalProgress field
-    const programme = await Programme.findById(enrollment.programmeId);
-    if (programme) {
-      const totalModules = programme.totalModules || 1;
-      enrollment.progress.totalProgress = Math.round((enrollment.progress.completedModules.length / totalModules) * 100);
-    }
-
-    await enrollment.save();
+    // Completed modules follow from their lessons, so a module alone only records the time spent
+    const { enrollment: updated } = await LearningLedgerService.record({
+      studentId,
+      programmeId: String(enrollment.programmeId),
+      moduleId,
+      lessonId,
+      type: lessonId ? 'LESSON_COMPLETED' : 'LESSON_PROGRESSED',
+      timeSpent,
+      source: 'student.updateLearningActivity'
+    });
 
     // Update student profile learning streak
     const profile = await StudentProfile.findOne({ userId: studentId });
@@ -742,7 +762,7 @@ export const updateLearningActivity = async (req: AuthenticatedRequest, res: Res
     }
 
     success(res, {
-      progress: enrollment.progress,
+      progress: (updated || enrollment).progress,
       streak: profile?.gamification.streaks || null
     }, 'Learning activity updated successfully');
 
@@ -785,6 +805,7 @@ export const getStudentAnalytics = async (req: AuthenticatedRequest, res: Respon
         completedCourses: dashboardOverview.enrolledCourses.completed,
         activeEnrollments: dashboardOverview.enrolledCourses.active,
         certificatesEarned: dashboardOverview.certificatesEarned,
+        liveSessionsAttended: dashboardOverview.liveSessionsAttended,
         totalTimeSpent: dashboardOverview.totalTimeSpent,
         averageProgress: dashboardOverview.overallProgress
       },
@@ -1019,7 +1040,7 @@ export const getEnrolledPrograms = async (req: AuthenticatedRequest, res: Respon
 /**
  * Enroll in a program (Enroll Now logic)
  * @route POST /api/student/enroll
- * @body programmeId: string
+ * @body programmeId: string, code?: coupon or referral code
  */
 export const enrollInProgram = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -1031,7 +1052,7 @@ export const enrollInProgram = async (req: AuthenticatedRequest, res: Response):
     }
 
     const studentId = req.user?.id;
-    const { programmeId } = req.body;
+    const { programmeId, code } = req.body;
     
     // Log for debugging
     logger.info('Enrollment request:', { studentId, programmeId, userRole: req.user?.role });
@@ -1066,6 +1087,24 @@ export const enrollInProgram = async (req: AuthenticatedRequest, res: Response):
       return;
     }
 
+    // Paid programmes are enrolled by the payment webhook once checkout succeeds
+    if (programme.price > 0) {
+      errorResponse(res, 'This programme requires payment. Start checkout to enroll.', 402, 'PAYMENT_REQUIRED');
+      return;
+    }
+
+    // A code on a free programme still records the promotion or rewards the referrer
+    let quote: PriceQuote;
+    try {
+      quote = await CouponService.quote(studentId, programme, code);
+    } catch (codeError) {
+      if (codeError instanceof ValidationError) {
+        validationError(res, codeError.message);
+        return;
+      }
+      throw codeError;
+    }
+
     // Create new enrollment with ACTIVE status
     const enrollment = new Enrollment({
       studentId,
@@ -1081,11 +1120,35 @@ export const enrollInProgram = async (req: AuthenticatedRequest, res: Response):
       },
       paymentStatus: 'COMPLETED', // Set to COMPLETED for free courses
       certificateIssued: false,
-      metadata: { enrollmentSource: 'DIRECT' },
+      metadata: {
+        enrollmentSource: quote.enrollmentSource,
+        referralCode: quote.enrollmentSource === 'REFERRAL' ? quote.code : undefined,
+        couponCode: quote.enrollmentSource === 'PROMOTION' ? quote.code : undefined,
+        originalPrice: quote.originalPrice,
+        discountApplied: quote.discountApplied,
+        finalPrice: quote.finalPrice
+      },
       createdAt: new Date(),
       updatedAt: new Date()
     });
 
+    // The code's usage limits are checked again as it is redeemed, before access is granted
+    if (quote.code) {
+      try {
+        await CouponService.redeem(quote, {
+          studentId,
+          programmeId,
+          enrollmentId: String(enrollment._id)
+        });
+      } catch (codeError) {
+        if (codeError instanceof ValidationError) {
+          validationError(res, codeError.message);
+          return;
+        }
+        throw codeError;
+      }
+    }
+
     await enrollment.save();
 
     // Update student profile statistics
@@ -1159,31 +1222,16 @@ export const markLessonCompleted = async (req: AuthenticatedRequest, res: Respon
       return notFound(res, 'Enrollment not found');
     }
 
-    // Update progress
-    const progress = enrollment.progress;
-    
-    // Add module if not already completed
-    if (moduleId && !progress.completedModules.includes(moduleId)) {
-      progress.completedModules.push(moduleId);
-    }
-
-    // Add lesson if not already completed
-    if (lessonId && !progress.completedLessons.includes(lessonId)) {
-      progress.completedLessons.push(lessonId);
-    }
-
-    // Update time spent
-    progress.timeSpent += timeSpent;
-    progress.lastActivityDate = new Date();
-    
-    // Calculate progress percentage
-    const programme = enrollment.programmeId as any;
-    if (programme) {
-      const totalLessons = programme.totalLessons || 1;
-      progress.totalProgress = Math.round((progress.completedLessons.length / totalLessons) * 100);
-    }
-
-    await enrollment.save();
+    const { enrollment: updated } = await LearningLedgerService.record({
+      studentId,
+      programmeId: String((enrollment.programmeId as any)._id || enrollment.programmeId),
+      moduleId,
+      lessonId,
+      type: 'LESSON_COMPLETED',
+      timeSpent,
+      source: 'student.markLessonCompleted'
+    });
+    const completedEnrollment = updated || enrollment;
 
     // Update student profile statistics
     const profile = await StudentProfile.findOne({ userId: studentId });
@@ -1195,9 +1243,9 @@ export const markLessonCompleted = async (req: AuthenticatedRequest, res: Respon
 
     success(res, {
       enrollment: {
-        id: enrollment._id,
-        progress: enrollment.progress,
-        status: enrollment.status
+        id: completedEnrollment._id,
+        progress: completedEnrollment.progress,
+        status: completedEnrollment.status
       },
       profile: profile ? {
         totalLearningHours: profile.statistics.totalLearningHours,
@@ -1235,29 +1283,20 @@ export const updateLessonProgress = async (req: AuthenticatedRequest, res: Respo
       return notFound(res, 'Enrollment not found');
     }
 
-    // Update progress
-    const progress = enrollment.progress;
-    progress.timeSpent += timeSpent;
-    progress.lastActivityDate = new Date();
-
-    // If lesson is 100% complete, add it to completed lessons
-    if (progressPercentage >= 100 && !progress.completedLessons.includes(lessonId)) {
-      progress.completedLessons.push(lessonId);
-    }
-
-    // Recalculate total progress
-    const programme = await Programme.findById(enrollment.programmeId);
-    if (programme) {
-      const totalLessons = programme.totalLessons || 1;
-      progress.totalProgress = Math.round((progress.completedLessons.length / totalLessons) * 100);
-    }
-
-    await enrollment.save();
+    const { enrollment: updated } = await LearningLedgerService.record({
+      studentId,
+      programmeId: String(enrollment.programmeId),
+      lessonId,
+      type: progressPercentage >= 100 ? 'LESSON_COMPLETED' : 'LESSON_PROGRESSED',
+      progressPercentage: Math.min(Math.max(progressPercentage || 0, 0), 100),
+      timeSpent,
+      source: 'student.updateLessonProgress'
+    });
 
     success(res, {
       enrollment: {
         id: enrollment._id,
-        progress: enrollment.progress
+        progress: (updated || enrollment).progress
       }
     }, 'Lesson progress updated successfully');
 
@@ -1296,14 +1335,9 @@ export const updateEnrollmentStatus = async (req: AuthenticatedRequest, res: Res
       return notFound(res, 'Enrollment not found');
     }
 
-    // Update the enrollment status
+    // Update the enrollment status; progress is left to the learning ledger
     enrollment.status = status;
     enrollment.progress.lastActivityDate = new Date();
-    
-    // If marking as completed, ensure progress is 100%
-    if (status === 'COMPLETED' && enrollment.progress.totalProgress < 100) {
-      enrollment.progress.totalProgress = 100;
-    }
 
     await enrollment.save();
 
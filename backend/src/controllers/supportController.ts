@@ -0,0 +1,421 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import SupportTicket from '../models/SupportTicket';
+import FaqEntry from '../models/FaqEntry';
+import User from '../models/User';
+import SupportService from '../services/supportService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import {
+  success,
+  created,
+  validationError,
+  notFound,
+  conflict,
+  forbidden,
+  serverError
+} from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Get published FAQ entries
+ * @route GET /api/student/support/faqs
+ */
+export const getFaqs = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const faqs = await SupportService.getPublishedFaqs();
+    success(res, faqs, 'FAQ retrieved successfully');
+  } catch (error) {
+    logger.error('Get FAQ error:', error);
+    serverError(res, 'Failed to retrieve FAQ');
+  }
+};
+
+/**
+ * Get the authenticated student's support tickets
+ * @route GET /api/student/support/tickets
+ */
+export const getMyTickets = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const tickets = await SupportTicket.find({ studentId })
+      .select('-messages.authorId')
+      .sort({ lastActivityAt: -1 });
+
+    success(res, tickets.map(ticket => {
+      const { messages, ...rest } = ticket.toJSON();
+      return {
+        ...rest,
+        messageCount: messages.length,
+        lastMessage: messages[messages.length - 1]
+      };
+    }), 'Support tickets retrieved successfully');
+  } catch (error) {
+    logger.error('Get student tickets error:', error);
+    serverError(res, 'Failed to retrieve support tickets');
+  }
+};
+
+/**
+ * Open a support ticket
+ * @route POST /api/student/support/tickets
+ */
+export const createTicket = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+
+    const { subject, category, priority, message } = req.body;
+    const ticket = await SupportService.createTicket(studentId, { subject, category, priority, message });
+
+    created(res, ticket, 'Support ticket created successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Create ticket error:', error);
+    serverError(res, 'Failed to create support ticket');
+  }
+};
+
+/**
+ * Get one of the authenticated student's tickets with its full thread
+ * @route GET /api/student/support/tickets/:ticketId
+ */
+export const getMyTicket = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    const { ticketId } = req.params;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+    if (!Types.ObjectId.isValid(ticketId)) {
+      return validationError(res, 'Invalid ticket ID format');
+    }
+
+    // Ownership is checked on the stored id, which stays set when the user it
+    // points to no longer exists and populates to null
+    if (!(await SupportTicket.exists({ _id: ticketId, studentId }))) {
+      return notFound(res, 'Support ticket');
+    }
+
+    const ticket = await SupportService.getTicketDetails(ticketId);
+    if (!ticket) {
+      return notFound(res, 'Support ticket');
+    }
+
+    success(res, ticket, 'Support ticket retrieved successfully');
+  } catch (error) {
+    logger.error('Get student ticket error:', error);
+    serverError(res, 'Failed to retrieve support ticket');
+  }
+};
+
+/**
+ * Reply to one of the authenticated student's tickets
+ * @route POST /api/student/support/tickets/:ticketId/messages
+ */
+export const replyToMyTicket = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    const { ticketId } = req.params;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+    if (!Types.ObjectId.isValid(ticketId)) {
+      return validationError(res, 'Invalid ticket ID format');
+    }
+
+    const ticket = await SupportTicket.findOne({ _id: ticketId, studentId });
+    if (!ticket) {
+      return notFound(res, 'Support ticket');
+    }
+    if (ticket.status === 'CLOSED') {
+      return conflict(res, 'This ticket is closed. Please open a new ticket.');
+    }
+
+    await SupportService.addMessage(ticket, studentId, 'student', req.body.message);
+    const updated = await SupportService.getTicketDetails(ticketId);
+
+    success(res, updated, 'Reply added successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Reply to ticket error:', error);
+    serverError(res, 'Failed to add reply');
+  }
+};
+
+/**
+ * Close one of the authenticated student's tickets
+ * @route PUT /api/student/support/tickets/:ticketId/close
+ */
+export const closeMyTicket = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const studentId = req.user?.id;
+    const { ticketId } = req.params;
+    if (!studentId) {
+      return forbidden(res, 'Student ID is required');
+    }
+    if (!Types.ObjectId.isValid(ticketId)) {
+      return validationError(res, 'Invalid ticket ID format');
+    }
+
+    const ticket = await SupportTicket.findOne({ _id: ticketId, studentId });
+    if (!ticket) {
+      return notFound(res, 'Support ticket');
+    }
+
+    if (ticket.status !== 'CLOSED') {
+      SupportService.applyStatus(ticket, 'CLOSED');
+      ticket.lastActivityAt = new Date();
+      await ticket.save();
+    }
+
+    success(res, ticket, 'Support ticket closed');
+  } catch (error) {
+    logger.error('Close ticket error:', error);
+    serverError(res, 'Failed to close support ticket');
+  }
+};
+
+/**
+ * Get the support queue
+ * @route GET /api/admin/support/tickets
+ * @query status, priority, category, assignedTo (a user ID, "me" or "unassigned"), search, page, limit
+ */
+export const getSupportQueue = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { status, priority, category, assignedTo, search } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const filter: Record<string, any> = {};
+    if (status) {
+      filter.status = status;
+    } else {
+      filter.status = { $in: ['OPEN', 'PENDING'] };
+    }
+    if (priority) {
+      filter.priority = priority;
+    }
+    if (category) {
+      filter.category = category;
+    }
+    if (assignedTo === 'me') {
+      filter.assignedTo = req.user?.id;
+    } else if (assignedTo === 'unassigned') {
+      filter.assignedTo = { $exists: false };
+    } else if (typeof assignedTo === 'string' && Types.ObjectId.isValid(assignedTo)) {
+      filter.assignedTo = assignedTo;
+    }
+    if (typeof search === 'string' && search.trim()) {
+      const pattern = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ subject: pattern }, { ticketNumber: pattern }];
+    }
+
+    const [tickets, total, statusCounts] = await Promise.all([
+      SupportTicket.find(filter)
+        .select('-messages')
+        .populate('studentId', 'firstName lastName email username')
+        .populate('assignedTo', 'firstName lastName username')
+        .sort({ lastActivityAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      SupportTicket.countDocuments(filter),
+      SupportTicket.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }])
+    ]);
+
+    success(res, {
+      tickets,
+      counts: statusCounts.reduce((counts, item) => ({ ...counts, [item._id]: item.count }), {}),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }, 'Support queue retrieved successfully');
+  } catch (error) {
+    logger.error('Get support queue error:', error);
+    serverError(res, 'Failed to retrieve support queue');
+  }
+};
+
+/**
+ * Get a ticket with its full thread
+ * @route GET /api/admin/support/tickets/:id
+ */
+export const getSupportTicket = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const ticket = await SupportService.getTicketDetails(req.params.id);
+    if (!ticket) {
+      return notFound(res, 'Support ticket');
+    }
+
+    success(res, ticket, 'Support ticket retrieved successfully');
+  } catch (error) {
+    logger.error('Get support ticket error:', error);
+    serverError(res, 'Failed to retrieve support ticket');
+  }
+};
+
+/**
+ * Assign a ticket or change its status or priority
+ * @route PUT /api/admin/support/tickets/:id
+ */
+export const updateSupportTicket = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const ticket = await SupportTicket.findById(req.params.id);
+    if (!ticket) {
+      return notFound(res, 'Support ticket');
+    }
+
+    const { status, priority, assignedTo } = req.body;
+    if (assignedTo) {
+      const assignee = await User.findById(assignedTo).select('role');
+      if (!assignee || assignee.role !== 'admin') {
+        return validationError(res, 'Tickets can only be assigned to admins');
+      }
+    }
+
+    await SupportService.updateTicket(ticket, { status, priority, assignedTo });
+    const updated = await SupportService.getTicketDetails(req.params.id);
+
+    logger.info(`Support ticket ${ticket.ticketNumber} updated by ${req.user?.id}`);
+    success(res, updated, 'Support ticket updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Update support ticket error:', error);
+    serverError(res, 'Failed to update support ticket');
+  }
+};
+
+/**
+ * Reply to a ticket as support
+ * @route POST /api/admin/support/tickets/:id/messages
+ */
+export const replySupportTicket = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const adminId = req.user!.id;
+    const ticket = await SupportTicket.findById(req.params.id);
+    if (!ticket) {
+      return notFound(res, 'Support ticket');
+    }
+    if (ticket.status === 'CLOSED') {
+      return conflict(res, 'This ticket is closed. Reopen it before replying.');
+    }
+
+    // Whoever answers an unassigned ticket picks it up
+    if (!ticket.assignedTo) {
+      ticket.set('assignedTo', adminId);
+    }
+
+    await SupportService.addMessage(ticket, adminId, 'admin', req.body.message, req.body.status);
+    const updated = await SupportService.getTicketDetails(req.params.id);
+
+    success(res, updated, 'Reply sent successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Reply support ticket error:', error);
+    serverError(res, 'Failed to send reply');
+  }
+};
+
+/**
+ * Get all FAQ entries, including unpublished ones
+ * @route GET /api/admin/faqs
+ */
+export const getAllFaqs = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await SupportService.ensureDefaultFaqs();
+    const faqs = await FaqEntry.find().sort({ order: 1, createdAt: 1 });
+    success(res, faqs, 'FAQ retrieved successfully');
+  } catch (error) {
+    logger.error('Get all FAQ error:', error);
+    serverError(res, 'Failed to retrieve FAQ');
+  }
+};
+
+/**
+ * Create an FAQ entry
+ * @route POST /api/admin/faqs
+ */
+export const createFaq = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { question, answer, category, order, isPublished } = req.body;
+    const faq = await FaqEntry.create({
+      question,
+      answer,
+      category,
+      order,
+      isPublished,
+      updatedBy: req.user?.id
+    });
+
+    created(res, faq, 'FAQ entry created successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Create FAQ error:', error);
+    serverError(res, 'Failed to create FAQ entry');
+  }
+};
+
+/**
+ * Update an FAQ entry
+ * @route PUT /api/admin/faqs/:id
+ */
+export const updateFaq = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const faq = await FaqEntry.findById(req.params.id);
+    if (!faq) {
+      return notFound(res, 'FAQ entry');
+    }
+
+    for (const field of ['question', 'answer', 'category', 'order', 'isPublished']) {
+      if (req.body[field] !== undefined) {
+        faq.set(field, req.body[field]);
+      }
+    }
+    faq.set('updatedBy', req.user?.id);
+    await faq.save();
+
+    success(res, faq, 'FAQ entry updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return validationError(res, error.message);
+    }
+    logger.error('Update FAQ error:', error);
+    serverError(res, 'Failed to update FAQ entry');
+  }
+};
+
+/**
+ * Delete an FAQ entry
+ * @route DELETE /api/admin/faqs/:id
+ */
+export const deleteFaq = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const faq = await FaqEntry.findByIdAndDelete(req.params.id);
+    if (!faq) {
+      return notFound(res, 'FAQ entry');
+    }
+
+    success(res, null, 'FAQ entry deleted successfully');
+  } catch (error) {
+    logger.error('Delete FAQ error:', error);
+    serverError(res, 'Failed to delete FAQ entry');
+  }
+};
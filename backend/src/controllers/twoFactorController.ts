@@ -0,0 +1,109 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import TwoFactorService from '../services/twoFactorService';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import { success, error as errorResponse, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * Send service errors with their own status, anything else as a 500
+ */
+const handleTwoFactorError = (res: Response, error: unknown, context: string, fallback: string): void => {
+  if (error instanceof AppError) {
+    return errorResponse(res, error.message, error.statusCode, error.code);
+  }
+  logger.error(`${context} error:`, error);
+  serverError(res, fallback);
+};
+
+/**
+ * Whether two-factor authentication is on for the current user and required for their role
+ * @route GET /api/auth/2fa
+ */
+export const getTwoFactorStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const status = await TwoFactorService.getStatus(req.user!.id);
+    success(res, status, 'Two-factor status retrieved successfully');
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Get two-factor status', 'Failed to retrieve two-factor status');
+  }
+};
+
+/**
+ * Generate a secret and provisioning URI for an authenticator app
+ * @route POST /api/auth/2fa/setup
+ */
+export const setupTwoFactor = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const enrollment = await TwoFactorService.beginEnrollment(req.user!.id);
+    success(res, enrollment, 'Add this account to your authenticator app, then enter the code it shows');
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Set up two-factor', 'Failed to start two-factor setup');
+  }
+};
+
+/**
+ * Confirm the setup with a code from the app; returns the recovery codes
+ * @route POST /api/auth/2fa/enable
+ * @body code
+ */
+export const enableTwoFactor = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(req.user!.id, req.body.code);
+    logger.info(`Two-factor authentication enabled for user ${req.user!.id}`);
+    success(res, { recoveryCodes }, 'Two-factor authentication enabled');
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Enable two-factor', 'Failed to enable two-factor authentication');
+  }
+};
+
+/**
+ * Turn two-factor authentication off
+ * @route POST /api/auth/2fa/disable
+ * @body code or recoveryCode
+ */
+export const disableTwoFactor = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await TwoFactorService.disable(req.user!.id, { code: req.body.code, recoveryCode: req.body.recoveryCode });
+    logger.info(`Two-factor authentication disabled for user ${req.user!.id}`);
+    success(res, null, 'Two-factor authentication disabled');
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Disable two-factor', 'Failed to disable two-factor authentication');
+  }
+};
+
+/**
+ * Replace the recovery codes; the old ones stop working
+ * @route POST /api/auth/2fa/recovery-codes
+ * @body code or recoveryCode
+ */
+export const regenerateRecoveryCodes = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user!.id, {
+      code: req.body.code,
+      recoveryCode: req.body.recoveryCode
+    });
+    success(res, { recoveryCodes }, 'New recovery codes generated');
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Regenerate recovery codes', 'Failed to generate recovery codes');
+  }
+};
+
+/**
+ * Reset a user's two-factor authentication when they have lost their authenticator (Admin only)
+ * @route DELETE /api/user/:id/two-factor
+ */
+export const resetUserTwoFactor = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      errorResponse(res, 'Invalid user ID', 400);
+      return;
+    }
+    await TwoFactorService.reset(req.params.id);
+    logger.info(`Admin ${req.user!.id} reset two-factor authentication of user ${req.params.id}`);
+    success(res, null, 'Two-factor authentication reset');
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Reset user two-factor', 'Failed to reset two-factor authentication');
+  }
+};
@@ -8,6 +8,7 @@ import path from 'path';
 import fs from 'fs';
 import { connectDB } from './config/db';
 import { configureSecurity } from './middleware/security';
+import { maintenanceMode } from './middleware/maintenance';
 import logger from './config/logger';
 import cors from 'cors';
 
@@ -26,6 +27,9 @@ import analyticsRoutes from './routes/analytics';
 import quizRoutes from './routes/quiz';
 import dashboardRoutes from './routes/dashboard';
 import courseProgressRoutes from './routes/courseProgress';
+import certificateRoutes from './routes/certificates';
+import calendarRoutes from './routes/calendar';
+import paymentRoutes from './routes/payments';
 import swaggerUi from 'swagger-ui-express';
 import { specs } from './config/swagger';
 import ScheduledJobsService from './services/scheduledJobsService';
@@ -60,6 +64,8 @@ if (!fs.existsSync(profilesDir)) {
 configureSecurity(app);
 
 // Body parsing middleware
+// Payment webhooks keep the raw body so provider signatures can be verified
+app.use('/api/payments/webhook', express.raw({ type: '*/*', limit: '1mb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -111,6 +117,9 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs, {
   customSiteTitle: 'EduKnit Learn API Documentation',
 }));
 
+// Maintenance mode (non-admins receive 503)
+app.use('/api', maintenanceMode);
+
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/user', userRoutes);
@@ -126,6 +135,9 @@ app.use('/api/lessons', lessonRoutes);
 app.use('/api/quiz', quizRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/course-progress', courseProgressRoutes);
+app.use('/api/certificates', certificateRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/payments', paymentRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
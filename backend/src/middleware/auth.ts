@@ -1,15 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
-import { JWTUtils, JWT_CONFIG } from '../config/jwt';
+import { JWTUtils, JWT_CONFIG, PackageLaunchPayload } from '../config/jwt';
+import SessionService from '../services/sessionService';
 
 export interface AuthRequest extends Request {
   user?: any;
+  packageLaunch?: PackageLaunchPayload;
 }
 
 /**
  * Middleware to authenticate JWT tokens in requests.
  * Supports both Authorization header (Bearer token) and HTTP-only cookies.
+ * Tokens from a session that has been signed out or revoked are refused.
  */
-export const authenticateJWT = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authenticateJWT = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     let token: string | null = null;
 
@@ -29,13 +32,10 @@ export const authenticateJWT = (req: AuthRequest, res: Response, next: NextFunct
       return;
     }
 
+    let decoded;
     try {
       // Verify token
-      const decoded = JWTUtils.verifyAccessToken(token);
-
-      // Attach user to request object
-      req.user = decoded.user;
-      next();
+      decoded = JWTUtils.verifyAccessToken(token);
     } catch (err: any) {
       console.error('Token verification error:', err);
       
@@ -52,7 +52,21 @@ export const authenticateJWT = (req: AuthRequest, res: Response, next: NextFunct
           code: 'INVALID_TOKEN'
         });
       }
+      return;
     }
+
+    if (decoded.sid && !(await SessionService.isActive(decoded.sid))) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has ended. Please sign in again.',
+        code: 'SESSION_REVOKED'
+      });
+      return;
+    }
+
+    // Attach user to request object
+    req.user = decoded.user;
+    next();
   } catch (error) {
     console.error('Authentication middleware error:', error);
     res.status(500).json({ 
@@ -61,3 +75,61 @@ export const authenticateJWT = (req: AuthRequest, res: Response, next: NextFunct
     });
   }
 };
+
+/**
+ * Attach the user when the request carries a valid access token, without
+ * requiring one. For public routes that add the caller's own data when signed in.
+ */
+export const optionalAuthenticateJWT = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = JWTUtils.extractTokenFromHeader(req)
+    || JWTUtils.extractTokenFromCookies(req, JWT_CONFIG.COOKIE.ACCESS_TOKEN_NAME);
+
+  if (token) {
+    try {
+      const decoded = JWTUtils.verifyAccessToken(token);
+      if (!decoded.sid || await SessionService.isActive(decoded.sid)) {
+        req.user = decoded.user;
+      }
+    } catch {
+      // An invalid or expired token is treated like no token on public routes
+    }
+  }
+  next();
+};
+
+/**
+ * Authenticate requests made by a launched SCORM/xAPI package. Package content
+ * runs in a sandbox without the session cookie, so it sends the launch token
+ * issued with the lesson's runtime data, in the `launchToken` route parameter
+ * or as a Bearer token. The token is only accepted for its own lesson.
+ */
+export const authenticatePackageLaunch = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = req.params.launchToken || JWTUtils.extractTokenFromHeader(req);
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      message: 'No launch token, authorization denied'
+    });
+    return;
+  }
+
+  try {
+    const payload = JWTUtils.verifyPackageLaunchToken(token);
+    if (payload.lessonId !== req.params.lessonId) {
+      res.status(403).json({
+        success: false,
+        message: 'Launch token is not valid for this lesson'
+      });
+      return;
+    }
+    req.user = payload.user;
+    req.packageLaunch = payload;
+    next();
+  } catch (err: any) {
+    res.status(401).json({
+      success: false,
+      message: err.name === 'TokenExpiredError' ? 'Launch token expired' : 'Launch token is not valid',
+      code: err.name === 'TokenExpiredError' ? 'EXPIRED_TOKEN' : 'INVALID_TOKEN'
+    });
+  }
+};
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { JWTUtils, JWT_CONFIG } from '../config/jwt';
+import SettingsService from '../services/settingsService';
+import { error } from '../utils/response';
+
+// Routes that stay reachable during maintenance so admins can sign in, the platform can be
+// monitored and payment providers can still confirm payments
+const MAINTENANCE_ALLOWED_PATHS = [
+  '/api/health',
+  '/api/payments/webhook',
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/refresh',
+  '/api/auth/me'
+];
+
+/**
+ * Resolve the role of the requester from the access token, if any.
+ * Invalid or expired tokens are treated as anonymous.
+ */
+const getRequesterRole = (req: Request): string | null => {
+  const token = JWTUtils.extractTokenFromHeader(req)
+    || JWTUtils.extractTokenFromCookies(req, JWT_CONFIG.COOKIE.ACCESS_TOKEN_NAME);
+  if (!token) {
+    return null;
+  }
+  try {
+    return JWTUtils.verifyAccessToken(token).user.role;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Middleware returning 503 to non-admin API requests while maintenance mode is enabled.
+ */
+export const maintenanceMode = async (req: Request, res: Response, next: NextFunction) => {
+  const settings = await SettingsService.getSettingsSafely();
+  if (!settings.maintenanceMode) {
+    return next();
+  }
+
+  const requestPath = req.originalUrl.split('?')[0];
+  if (MAINTENANCE_ALLOWED_PATHS.some(allowed => requestPath === allowed || requestPath.startsWith(`${allowed}/`))) {
+    return next();
+  }
+
+  if (getRequesterRole(req) === 'admin') {
+    return next();
+  }
+
+  res.setHeader('Retry-After', '3600');
+  error(res, `${settings.siteName} is undergoing maintenance. Please try again later.`, 503, 'MAINTENANCE_MODE');
+};
@@ -0,0 +1,66 @@
+import { Response, NextFunction } from 'express';
+import PermissionService, { ProgrammeResource } from '../services/permissionService';
+import { Permission } from '../config/permissions';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import { error as errorResponse, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+// Where a route finds the id of the resource it acts on
+export interface ResourceLocator {
+  resource: ProgrammeResource;
+  locate: (req: AuthenticatedRequest) => unknown;
+}
+
+export const fromParam = (resource: ProgrammeResource, name: string = 'id'): ResourceLocator => ({
+  resource,
+  locate: req => req.params[name]
+});
+
+export const fromQuery = (resource: ProgrammeResource, name: string): ResourceLocator => ({
+  resource,
+  locate: req => req.query[name]
+});
+
+export const fromBody = (resource: ProgrammeResource, name: string): ResourceLocator => ({
+  resource,
+  locate: req => req.body?.[name]
+});
+
+/**
+ * Allow the request when the user's role holds the permission. For roles that
+ * are limited to their assigned programmes (instructors), every resource the
+ * locators find must belong to one of those programmes, and the programmes
+ * are left on `req.programmeScope` so list endpoints can filter by them.
+ *
+ * @example router.put('/lessons/:id', requirePermission('content:manage', fromParam('lesson')), updateLesson)
+ */
+export const requirePermission = (permission: Permission, ...locators: ResourceLocator[]) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      return errorResponse(res, 'Authentication required', 401);
+    }
+    if (!PermissionService.can(req.user.role, permission)) {
+      return errorResponse(res, 'Insufficient permissions', 403, 'AUTHORIZATION_ERROR');
+    }
+
+    try {
+      const scope = await PermissionService.getProgrammeScope(req.user);
+      if (scope) {
+        const resources = locators
+          .map(({ resource, locate }) => ({ resource, id: locate(req) }))
+          .filter(({ id }) => id !== undefined && id !== '' && id !== 'all')
+          .map(({ resource, id }) => ({ resource, id: String(id) }));
+        await PermissionService.assertInScope(scope, resources);
+        req.programmeScope = scope;
+      }
+      next();
+    } catch (error) {
+      if (error instanceof AppError) {
+        return errorResponse(res, error.message, error.statusCode, error.code);
+      }
+      logger.error('Permission check error:', error);
+      serverError(res, 'Failed to check permissions');
+    }
+  };
+};
@@ -0,0 +1,92 @@
+import { Response, NextFunction } from 'express';
+import PermissionService from '../services/permissionService';
+import { ResourceLocator } from './permissions';
+import { AuthenticatedRequest } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import { error as errorResponse, serverError } from '../utils/response';
+import logger from '../config/logger';
+
+/**
+ * A rule under which a request is allowed. Policies only grant access, so a
+ * route lists every policy that may let a caller through.
+ */
+export type Policy = (req: AuthenticatedRequest) => Promise<boolean>;
+
+// Where a route finds the id of the user whose data it reads or changes
+export type UserLocator = (req: AuthenticatedRequest) => unknown;
+
+export const userFromParam = (name: string = 'studentId'): UserLocator => req => req.params[name];
+
+export const userFromQuery = (name: string = 'studentId'): UserLocator => req => req.query[name];
+
+/**
+ * The request concerns the caller's own data, or the caller is an admin.
+ * When the route does not name a user (e.g. a public course page that only
+ * adds progress for `?studentId=`), there is nothing to protect.
+ */
+export const selfOrAdmin = (locate: UserLocator): Policy => async req => {
+  const userId = locate(req);
+  if (userId === undefined || userId === '') {
+    return true;
+  }
+  return !!req.user && (req.user.role === 'admin' || req.user.id === String(userId));
+};
+
+/**
+ * The caller is an admin
+ */
+export const isAdmin: Policy = async req => req.user?.role === 'admin';
+
+/**
+ * The caller is enrolled in the programme the resource belongs to
+ */
+export const enrolledInProgramme = ({ resource, locate }: ResourceLocator): Policy => async req => {
+  if (!req.user) {
+    return false;
+  }
+  const programmeId = await PermissionService.resolveProgrammeId(resource, String(locate(req) ?? ''));
+  return PermissionService.isEnrolled(req.user.id, programmeId);
+};
+
+/**
+ * The caller is an instructor assigned to the programme the resource belongs to
+ */
+export const instructorOfProgramme = ({ resource, locate }: ResourceLocator): Policy => async req => {
+  if (!req.user) {
+    return false;
+  }
+  const scope = await PermissionService.getProgrammeScope(req.user);
+  if (!scope) {
+    return false;
+  }
+  const programmeId = await PermissionService.resolveProgrammeId(resource, String(locate(req) ?? ''));
+  return scope.includes(programmeId);
+};
+
+/**
+ * Allow the request when any of the policies allows it. Ids that do not
+ * resolve answer 400/404 as they would in the handler.
+ *
+ * @example router.get('/quiz/:studentId/:lessonId', requirePolicy(selfOrAdmin(userFromParam()), instructorOfProgramme(fromParam('lesson', 'lessonId'))), getQuizResults)
+ */
+export const requirePolicy = (...policies: Policy[]) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      for (const policy of policies) {
+        if (await policy(req)) {
+          return next();
+        }
+      }
+      if (!req.user) {
+        return errorResponse(res, 'Authentication required', 401);
+      }
+      errorResponse(res, 'Access denied', 403, 'AUTHORIZATION_ERROR');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return errorResponse(res, error.message, error.statusCode, error.code);
+      }
+      logger.error('Policy check error:', error);
+      serverError(res, 'Failed to check access');
+    }
+  };
+};
@@ -3,7 +3,8 @@ import RealtimeSyncService from '../services/realtimeSyncService';
 import logger from '../config/logger';
 
 /**
- * Middleware to automatically sync lesson completion data
+ * Middleware to automatically sync profile statistics after a lesson completion.
+ * The endpoint itself records the completion in the learning ledger.
  */
 export const autoSyncLessonCompletion = async (req: Request, res: Response, next: NextFunction) => {
   // Store original response.json to intercept successful responses
@@ -13,17 +14,16 @@ export const autoSyncLessonCompletion = async (req: Request, res: Response, next
     // Check if this is a successful lesson completion
     if (res.statusCode >= 200 && res.statusCode < 300 && data.success) {
       // Extract data from request body for lesson completion
-      const { userId, studentId, courseId, lessonId, moduleId, timeSpent } = req.body;
+      const { userId, studentId, courseId, lessonId, timeSpent, completed } = req.body;
       const user = (req as any).user;
       
       const actualStudentId = studentId || userId || user?.id;
       
-      if (actualStudentId && courseId && lessonId && timeSpent) {
+      if (actualStudentId && courseId && lessonId && completed) {
         // Perform async sync without blocking the response
         RealtimeSyncService.syncLessonCompletion(
           actualStudentId,
           courseId,
-          moduleId || '',
           lessonId,
           timeSpent || 0
         ).catch(error => {
@@ -24,7 +24,20 @@ export const configureSecurity = (app: Express) => {
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
   };
-  app.use(cors(corsOptions));
+  // SCORM/xAPI package content runs sandboxed in an opaque origin and
+  // authenticates with its launch token rather than cookies, so its file and
+  // xAPI requests are allowed from any origin, without credentials
+  const packageCorsOptions = {
+    origin: '*',
+    optionsSuccessStatus: 200,
+    methods: ['GET', 'POST', 'PUT', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Experience-API-Version'],
+    exposedHeaders: ['X-Experience-API-Version'],
+  };
+  const packageContentPath = /^\/api\/lessons\/[^/]+\/(package\/files|xapi)\//;
+  app.use(cors((req, callback) => {
+    callback(null, packageContentPath.test(req.path) ? packageCorsOptions : corsOptions);
+  }));
 
   // General API rate limiting
   const apiLimiter = rateLimit({
@@ -37,9 +50,26 @@ export const configureSecurity = (app: Express) => {
     },
     standardHeaders: true,
     legacyHeaders: false,
+    // Package files have their own limit below
+    skip: (req) => /^\/lessons\/[^/]+\/package\/files\//.test(req.path),
   });
   app.use('/api/', apiLimiter);
 
+  // A SCORM/xAPI lesson loads all of its package's files through the API,
+  // often hundreds per launch
+  const packageFileLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: process.env.NODE_ENV === 'production'
+      ? parseInt(process.env.PACKAGE_FILE_RATE_LIMIT_MAX_REQUESTS || '3000')
+      : 10000,
+    message: {
+      error: 'Too many requests from this IP, please try again later.',
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+  app.use('/api/lessons/:lessonId/package/files/', packageFileLimiter);
+
   // Stricter rate limiting for auth routes (more lenient in development)
   const authLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import path from 'path';
+import SettingsService from '../services/settingsService';
+import { validationError } from '../utils/response';
+
+interface SettingsAwareUploadOptions {
+  storage: multer.StorageEngine;
+  fileFilter?: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => void;
+  maxFiles?: number;
+}
+
+/**
+ * Build a multer middleware per request using the admin-configured
+ * maximum file size and allowed file extensions.
+ */
+const withSettings = (
+  options: SettingsAwareUploadOptions,
+  select: (instance: multer.Multer) => RequestHandler
+): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const settings = await SettingsService.getSettingsSafely();
+    const allowedExtensions = settings.allowedFileTypes.map(type => type.toLowerCase());
+
+    const instance = multer({
+      storage: options.storage,
+      limits: {
+        fileSize: settings.maxFileSize * 1024 * 1024,
+        ...(options.maxFiles ? { files: options.maxFiles } : {})
+      },
+      fileFilter: (request, file, cb) => {
+        const extension = path.extname(file.originalname).toLowerCase().replace('.', '');
+        if (!allowedExtensions.includes(extension)) {
+          cb(new Error(`File type .${extension || 'unknown'} is not allowed. Allowed types: ${allowedExtensions.join(', ')}`));
+          return;
+        }
+        if (options.fileFilter) {
+          options.fileFilter(request, file, cb);
+          return;
+        }
+        cb(null, true);
+      }
+    });
+
+    select(instance)(req, res, (err?: any) => {
+      if (!err) {
+        return next();
+      }
+      if (err instanceof multer.MulterError) {
+        const message = err.code === 'LIMIT_FILE_SIZE'
+          ? `File too large. Maximum size is ${settings.maxFileSize}MB`
+          : err.message;
+        return validationError(res, message);
+      }
+      return validationError(res, err.message || 'Invalid upload');
+    });
+  };
+};
+
+/**
+ * Create an upload handler whose limits follow the platform settings
+ */
+export const createSettingsAwareUpload = (options: SettingsAwareUploadOptions) => ({
+  single: (fieldName: string): RequestHandler =>
+    withSettings(options, instance => instance.single(fieldName)),
+  array: (fieldName: string, maxCount?: number): RequestHandler =>
+    withSettings(options, instance => instance.array(fieldName, maxCount))
+});
@@ -47,11 +47,6 @@ export const validateRegistration = [
     .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
     .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number'),
   
-  body('role')
-    .optional()
-    .isIn(['admin', 'user', 'student', 'visitor'])
-    .withMessage('Role must be admin, user, student, or visitor'),
-  
   handleValidationErrors
 ];
 
@@ -127,3 +122,34 @@ export const validateForgotPassword = [
   
   handleValidationErrors
 ];
+
+// Two-factor code validation: an authenticator code or a recovery code
+export const validateTwoFactorCode = [
+  body('code')
+    .optional()
+    .isString()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be the 6 digits shown in your authenticator app'),
+  
+  body('recoveryCode')
+    .optional()
+    .isString()
+    .isLength({ max: 20 })
+    .withMessage('Invalid recovery code'),
+  
+  body()
+    .custom(value => !!(value?.code || value?.recoveryCode))
+    .withMessage('An authenticator code or recovery code is required'),
+  
+  handleValidationErrors
+];
+
+// Two-factor sign-in validation
+export const validateTwoFactorChallenge = [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  
+  handleValidationErrors
+];
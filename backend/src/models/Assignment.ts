@@ -0,0 +1,158 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing an Assignment attached to a programme lesson.
+ */
+export interface IAssignment extends Document {
+    lessonId: Schema.Types.ObjectId;
+    moduleId: Schema.Types.ObjectId;
+    programmeId: Schema.Types.ObjectId;
+    title: string;
+    description: string;
+    instructions?: string;
+    dueDate: Date;
+    maxScore: number;
+    passingScore: number;
+    priority: 'LOW' | 'MEDIUM' | 'HIGH';
+    submissionTypes: ('FILE' | 'TEXT')[];
+    allowLateSubmission: boolean;
+    attachments: {
+        name: string;
+        url: string;
+    }[];
+    rubric: {
+        criterion: string;
+        description?: string;
+        maxPoints: number;
+    }[];
+    isActive: boolean;
+    createdBy?: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const AssignmentSchema = new Schema<IAssignment>(
+    {
+        lessonId: {
+            type: Schema.Types.ObjectId,
+            ref: 'ProgrammeLesson',
+            required: true,
+            index: true
+        },
+        moduleId: {
+            type: Schema.Types.ObjectId,
+            ref: 'ProgrammeModule',
+            required: true,
+            index: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true,
+            index: true
+        },
+        title: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200
+        },
+        description: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 2000
+        },
+        instructions: {
+            type: String,
+            trim: true,
+            maxlength: 10000
+        },
+        dueDate: {
+            type: Date,
+            required: true,
+            index: true
+        },
+        maxScore: {
+            type: Number,
+            required: true,
+            min: 1,
+            default: 100
+        },
+        passingScore: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        priority: {
+            type: String,
+            enum: ['LOW', 'MEDIUM', 'HIGH'],
+            default: 'MEDIUM'
+        },
+        submissionTypes: {
+            type: [{
+                type: String,
+                enum: ['FILE', 'TEXT']
+            }],
+            default: ['FILE', 'TEXT']
+        },
+        allowLateSubmission: {
+            type: Boolean,
+            default: true
+        },
+        attachments: [{
+            name: {
+                type: String,
+                required: true,
+                trim: true
+            },
+            url: {
+                type: String,
+                required: true,
+                trim: true
+            }
+        }],
+        rubric: [{
+            criterion: {
+                type: String,
+                required: true,
+                trim: true,
+                maxlength: 200
+            },
+            description: {
+                type: String,
+                trim: true,
+                maxlength: 1000
+            },
+            maxPoints: {
+                type: Number,
+                required: true,
+                min: 0
+            }
+        }],
+        isActive: {
+            type: Boolean,
+            default: true,
+            index: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+AssignmentSchema.index({ programmeId: 1, dueDate: 1 });
+
+export default model<IAssignment>('Assignment', AssignmentSchema);
@@ -0,0 +1,159 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing a student's submission for an Assignment.
+ * A student has at most one submission per assignment; resubmitting
+ * before grading replaces the previous content.
+ */
+export interface IAssignmentSubmission extends Document {
+    assignmentId: Schema.Types.ObjectId;
+    studentId: Schema.Types.ObjectId;
+    programmeId: Schema.Types.ObjectId;
+    textResponse?: string;
+    files: {
+        filename: string;
+        originalName: string;
+        url: string;
+        size: number; // in bytes
+        mimeType: string;
+    }[];
+    submittedAt: Date;
+    isLate: boolean;
+    attemptCount: number;
+    status: 'SUBMITTED' | 'GRADED';
+    grade?: {
+        score: number;
+        rubricScores: {
+            criterion: string;
+            points: number;
+            comment?: string;
+        }[];
+        feedback?: string;
+        gradedBy: Schema.Types.ObjectId;
+        gradedAt: Date;
+    };
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const AssignmentSubmissionSchema = new Schema<IAssignmentSubmission>(
+    {
+        assignmentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Assignment',
+            required: true,
+            index: true
+        },
+        studentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true,
+            index: true
+        },
+        textResponse: {
+            type: String,
+            trim: true,
+            maxlength: 20000
+        },
+        files: [{
+            filename: {
+                type: String,
+                required: true
+            },
+            originalName: {
+                type: String,
+                required: true,
+                trim: true
+            },
+            url: {
+                type: String,
+                required: true
+            },
+            size: {
+                type: Number,
+                min: 0,
+                default: 0
+            },
+            mimeType: {
+                type: String
+            }
+        }],
+        submittedAt: {
+            type: Date,
+            default: Date.now,
+            required: true
+        },
+        isLate: {
+            type: Boolean,
+            default: false
+        },
+        attemptCount: {
+            type: Number,
+            default: 1,
+            min: 1
+        },
+        status: {
+            type: String,
+            enum: ['SUBMITTED', 'GRADED'],
+            default: 'SUBMITTED',
+            index: true
+        },
+        grade: {
+            score: {
+                type: Number,
+                min: 0
+            },
+            rubricScores: [{
+                criterion: {
+                    type: String,
+                    required: true,
+                    trim: true
+                },
+                points: {
+                    type: Number,
+                    required: true,
+                    min: 0
+                },
+                comment: {
+                    type: String,
+                    trim: true,
+                    maxlength: 1000
+                }
+            }],
+            feedback: {
+                type: String,
+                trim: true,
+                maxlength: 5000
+            },
+            gradedBy: {
+                type: Schema.Types.ObjectId,
+                ref: 'User'
+            },
+            gradedAt: {
+                type: Date
+            }
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+AssignmentSubmissionSchema.index({ assignmentId: 1, studentId: 1 }, { unique: true });
+AssignmentSubmissionSchema.index({ assignmentId: 1, status: 1 });
+
+export default model<IAssignmentSubmission>('AssignmentSubmission', AssignmentSubmissionSchema);
@@ -9,7 +9,7 @@ export interface IAuditLog extends Document {
     resource: string; // e.g., 'profile', 'user_data', 'settings'
     resourceId?: string;
     performedBy: string; // user ID who performed the action
-    performedByRole: 'admin' | 'user' | 'student' | 'system';
+    performedByRole: 'admin' | 'instructor' | 'user' | 'student' | 'system';
     ipAddress?: string;
     userAgent?: string;
     details?: {
@@ -52,7 +52,7 @@ const AuditLogSchema = new Schema<IAuditLog>(
         },
         performedByRole: {
             type: String,
-            enum: ['admin', 'user', 'student', 'system'],
+            enum: ['admin', 'instructor', 'user', 'student', 'system'],
             required: true
         },
         ipAddress: {
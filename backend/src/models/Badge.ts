@@ -0,0 +1,116 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const BADGE_METRICS = [
+    'LESSONS_COMPLETED',
+    'LEARNING_STREAK_DAYS',
+    'QUIZZES_PASSED',
+    'PERFECT_QUIZ_SCORES',
+    'PROGRAMMES_COMPLETED',
+    'CERTIFICATES_EARNED',
+    'LIVE_SESSIONS_ATTENDED',
+    'TOTAL_POINTS'
+] as const;
+
+export type BadgeMetric = typeof BADGE_METRICS[number];
+
+/**
+ * Interface representing a badge definition. Badges are awarded by the
+ * rule engine when a student's metric reaches the rule threshold, so new
+ * badges can be defined from the admin panel without code changes.
+ */
+export interface IBadge extends Document {
+    badgeId: string;
+    name: string;
+    description: string;
+    icon?: string;
+    category: 'COMPLETION' | 'ACHIEVEMENT' | 'PARTICIPATION' | 'STREAK';
+    points: number;
+    rule: {
+        metric: BadgeMetric;
+        threshold: number;
+    };
+    isActive: boolean;
+    isSystem: boolean;
+    createdBy?: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const BadgeSchema = new Schema<IBadge>(
+    {
+        badgeId: {
+            type: String,
+            required: true,
+            unique: true,
+            trim: true,
+            lowercase: true,
+            match: /^[a-z0-9-]+$/,
+            maxlength: 64
+        },
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 100
+        },
+        description: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 500
+        },
+        icon: {
+            type: String,
+            trim: true,
+            maxlength: 16
+        },
+        category: {
+            type: String,
+            enum: ['COMPLETION', 'ACHIEVEMENT', 'PARTICIPATION', 'STREAK'],
+            required: true
+        },
+        points: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        rule: {
+            metric: {
+                type: String,
+                enum: BADGE_METRICS,
+                required: true
+            },
+            threshold: {
+                type: Number,
+                required: true,
+                min: 1
+            }
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+            index: true
+        },
+        isSystem: {
+            type: Boolean,
+            default: false
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+export default model<IBadge>('Badge', BadgeSchema);
@@ -0,0 +1,122 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing an issued Certificate document in MongoDB.
+ * Names and titles are copied at issue time so the certificate stays
+ * verifiable even if the student or programme is later renamed.
+ */
+export interface ICertificate extends Document {
+    certificateId: string;
+    enrollmentId: Schema.Types.ObjectId;
+    studentId: Schema.Types.ObjectId;
+    programmeId: Schema.Types.ObjectId;
+    studentName: string;
+    programmeTitle: string;
+    issuedAt: Date;
+    completionDate?: Date;
+    file: {
+        filename: string;
+        mimeType: string;
+        size: number; // in bytes
+    };
+    status: 'ISSUED' | 'REVOKED';
+    revokedAt?: Date;
+    revocationReason?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CertificateSchema = new Schema<ICertificate>(
+    {
+        certificateId: {
+            type: String,
+            required: true,
+            unique: true,
+            trim: true,
+            uppercase: true,
+            index: true
+        },
+        enrollmentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Enrollment',
+            required: true,
+            unique: true
+        },
+        studentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true,
+            index: true
+        },
+        studentName: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200
+        },
+        programmeTitle: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200
+        },
+        issuedAt: {
+            type: Date,
+            default: Date.now,
+            required: true
+        },
+        completionDate: {
+            type: Date
+        },
+        file: {
+            filename: {
+                type: String,
+                required: true
+            },
+            mimeType: {
+                type: String,
+                default: 'image/svg+xml'
+            },
+            size: {
+                type: Number,
+                min: 0,
+                default: 0
+            }
+        },
+        status: {
+            type: String,
+            enum: ['ISSUED', 'REVOKED'],
+            default: 'ISSUED',
+            index: true
+        },
+        revokedAt: {
+            type: Date
+        },
+        revocationReason: {
+            type: String,
+            trim: true,
+            maxlength: 500
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+CertificateSchema.index({ studentId: 1, issuedAt: -1 });
+
+export default model<ICertificate>('Certificate', CertificateSchema);
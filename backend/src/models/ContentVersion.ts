@@ -0,0 +1,141 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const VERSIONED_CONTENT_TYPES = ['lesson', 'module'] as const;
+
+export type VersionedContentType = typeof VERSIONED_CONTENT_TYPES[number];
+
+export const PUBLISH_STATUSES = ['DRAFT', 'PUBLISHED'] as const;
+
+export type PublishStatus = typeof PUBLISH_STATUSES[number];
+
+/**
+ * Publishing state of a lesson or module. The document itself always holds
+ * the published content students see; edits to published content wait in
+ * `draft` until they are published.
+ */
+export interface IContentPublishing {
+    status: PublishStatus; // DRAFT until the first publish
+    version: number; // latest published version, 0 before the first one
+    draft?: Record<string, any>; // unpublished edits, by field
+    draftUpdatedAt?: Date;
+    draftUpdatedBy?: Schema.Types.ObjectId;
+    scheduledAt?: Date; // publish the pending changes at this time
+    scheduledBy?: Schema.Types.ObjectId;
+    publishedAt?: Date;
+    publishedBy?: Schema.Types.ObjectId;
+}
+
+// Documents created before versioning have no publishing state: they are
+// treated as published, with no versions yet
+export const ContentPublishingSchema = new Schema<IContentPublishing>(
+    {
+        status: {
+            type: String,
+            enum: PUBLISH_STATUSES,
+            default: 'PUBLISHED'
+        },
+        version: {
+            type: Number,
+            default: 0,
+            min: 0
+        },
+        draft: Schema.Types.Mixed,
+        draftUpdatedAt: Date,
+        draftUpdatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        scheduledAt: {
+            type: Date,
+            index: true
+        },
+        scheduledBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        publishedAt: Date,
+        publishedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    { _id: false }
+);
+
+/**
+ * Interface representing a published version of a lesson or module.
+ * Versions are never changed once written: a rollback publishes a new version
+ * with the content of an earlier one.
+ */
+export interface IContentVersion extends Document {
+    contentType: VersionedContentType;
+    contentId: Schema.Types.ObjectId; // the lesson or module, whose id never changes
+    programmeId: Schema.Types.ObjectId;
+    version: number;
+    snapshot: Record<string, any>; // the versioned fields as published
+    note?: string;
+    restoredFrom?: number; // set when the version is a rollback
+    publishedBy?: Schema.Types.ObjectId;
+    publishedAt: Date;
+}
+
+const ContentVersionSchema = new Schema<IContentVersion>(
+    {
+        contentType: {
+            type: String,
+            enum: VERSIONED_CONTENT_TYPES,
+            required: true
+        },
+        contentId: {
+            type: Schema.Types.ObjectId,
+            required: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true,
+            index: true
+        },
+        version: {
+            type: Number,
+            required: true,
+            min: 1
+        },
+        snapshot: {
+            type: Schema.Types.Mixed,
+            required: true
+        },
+        note: {
+            type: String,
+            trim: true,
+            maxlength: 500
+        },
+        restoredFrom: {
+            type: Number,
+            min: 1
+        },
+        publishedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        publishedAt: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    {
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+// One document per version; also stops two publishes claiming the same number
+ContentVersionSchema.index({ contentType: 1, contentId: 1, version: -1 }, { unique: true });
+
+export default model<IContentVersion>('ContentVersion', ContentVersionSchema);
@@ -0,0 +1,117 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const COUPON_DISCOUNT_TYPES = ['PERCENT', 'FIXED'] as const;
+
+export type CouponDiscountType = typeof COUPON_DISCOUNT_TYPES[number];
+
+/**
+ * Interface representing an admin-managed discount code. PERCENT coupons take
+ * `discountValue` percent off; FIXED coupons take `discountValue` off in `currency`.
+ */
+export interface ICoupon extends Document {
+    code: string;
+    description?: string;
+    discountType: CouponDiscountType;
+    discountValue: number;
+    currency?: string; // FIXED coupons only apply to programmes priced in this currency
+    programmeIds: Schema.Types.ObjectId[]; // empty applies to every programme
+    validFrom?: Date;
+    expiresAt?: Date;
+    maxRedemptions?: number; // across all students; unset is unlimited
+    maxRedemptionsPerStudent: number;
+    redemptionCount: number;
+    isActive: boolean;
+    createdBy?: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CouponSchema = new Schema<ICoupon>(
+    {
+        code: {
+            type: String,
+            required: true,
+            unique: true,
+            uppercase: true,
+            trim: true,
+            match: [/^[A-Z0-9_-]{3,32}$/, 'Code must be 3-32 letters, digits, dashes or underscores']
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: 300
+        },
+        discountType: {
+            type: String,
+            enum: COUPON_DISCOUNT_TYPES,
+            required: true
+        },
+        discountValue: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        currency: {
+            type: String,
+            uppercase: true,
+            maxlength: 3
+        },
+        programmeIds: [{
+            type: Schema.Types.ObjectId,
+            ref: 'Programme'
+        }],
+        validFrom: {
+            type: Date
+        },
+        expiresAt: {
+            type: Date,
+            index: { sparse: true }
+        },
+        maxRedemptions: {
+            type: Number,
+            min: 1
+        },
+        maxRedemptionsPerStudent: {
+            type: Number,
+            min: 1,
+            default: 1
+        },
+        redemptionCount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+            index: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+CouponSchema.pre('validate', function(next) {
+    if (this.discountType === 'PERCENT' && this.discountValue > 100) {
+        this.invalidate('discountValue', 'Percentage discounts cannot exceed 100');
+    }
+    if (this.validFrom && this.expiresAt && this.validFrom >= this.expiresAt) {
+        this.invalidate('expiresAt', 'Expiry must be after the start date');
+    }
+    next();
+});
+
+export default model<ICoupon>('Coupon', CouponSchema);
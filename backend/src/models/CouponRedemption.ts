@@ -0,0 +1,92 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing one use of a coupon, recorded when the order it priced
+ * is placed and released again if that order fails or expires
+ */
+export interface ICouponRedemption extends Document {
+    couponId: Schema.Types.ObjectId;
+    code: string;
+    studentId: Schema.Types.ObjectId;
+    programmeId: Schema.Types.ObjectId;
+    enrollmentId?: Schema.Types.ObjectId;
+    orderId?: Schema.Types.ObjectId;
+    originalPrice: number;
+    discountAmount: number;
+    finalPrice: number;
+    currency: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CouponRedemptionSchema = new Schema<ICouponRedemption>(
+    {
+        couponId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Coupon',
+            required: true,
+            index: true
+        },
+        code: {
+            type: String,
+            required: true,
+            uppercase: true
+        },
+        studentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true
+        },
+        enrollmentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Enrollment'
+        },
+        orderId: {
+            type: Schema.Types.ObjectId,
+            ref: 'PaymentOrder'
+        },
+        originalPrice: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        discountAmount: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        finalPrice: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        currency: {
+            type: String,
+            required: true,
+            uppercase: true
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+CouponRedemptionSchema.index({ couponId: 1, studentId: 1 });
+// One redemption per paid order, so webhook retries cannot count a coupon twice
+CouponRedemptionSchema.index({ orderId: 1 }, { unique: true, sparse: true });
+
+export default model<ICouponRedemption>('CouponRedemption', CouponRedemptionSchema);
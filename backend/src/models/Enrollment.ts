@@ -1,4 +1,5 @@
 import { Schema, model, Document, Types } from 'mongoose';
+import crypto from 'crypto';
 
 /**
  * Interface representing a Student Enrollment document in MongoDB.
@@ -26,6 +27,7 @@ export interface IEnrollment extends Document {
     metadata: {
         enrollmentSource: 'DIRECT' | 'PROMOTION' | 'ADMIN' | 'REFERRAL';
         referralCode?: string;
+        couponCode?: string;
         discountApplied?: number;
         originalPrice?: number;
         finalPrice?: number;
@@ -136,6 +138,11 @@ const EnrollmentSchema = new Schema<IEnrollment>(
                 trim: true,
                 uppercase: true
             },
+            couponCode: {
+                type: String,
+                trim: true,
+                uppercase: true
+            },
             discountApplied: {
                 type: Number,
                 min: 0,
@@ -240,7 +247,7 @@ EnrollmentSchema.methods.issueCertificate = function() {
 EnrollmentSchema.methods.generateCertificateId = function() {
     const prefix = 'EDUKNIT';
     const timestamp = Date.now().toString(36).toUpperCase();
-    const random = Math.random().toString(36).substr(2, 4).toUpperCase();
+    const random = crypto.randomBytes(4).toString('hex').toUpperCase();
     return `${prefix}-${timestamp}-${random}`;
 };
 
@@ -0,0 +1,65 @@
+import { Schema, model, Document } from 'mongoose';
+import { SUPPORT_CATEGORIES, SupportCategory } from './SupportTicket';
+
+/**
+ * Interface representing an entry on the help page FAQ
+ */
+export interface IFaqEntry extends Document {
+    question: string;
+    answer: string;
+    category: SupportCategory;
+    order: number;
+    isPublished: boolean;
+    updatedBy?: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const FaqEntrySchema = new Schema<IFaqEntry>(
+    {
+        question: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 300
+        },
+        answer: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 5000
+        },
+        category: {
+            type: String,
+            enum: SUPPORT_CATEGORIES,
+            default: 'GENERAL'
+        },
+        order: {
+            type: Number,
+            default: 0
+        },
+        isPublished: {
+            type: Boolean,
+            default: true
+        },
+        updatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+FaqEntrySchema.index({ isPublished: 1, order: 1 });
+
+export default model<IFaqEntry>('FaqEntry', FaqEntrySchema);
@@ -8,7 +8,10 @@ export interface IIntegration extends Document {
     // Discord specific
     serverId?: string;
     channelId?: string;
+    // Discord, Slack and Teams incoming webhook
     webhookUrl?: string;
+    // Zoom specific
+    meetingUrl?: string;
     // General
     apiKey?: string;
     refreshToken?: string;
@@ -55,6 +58,7 @@ const IntegrationSchema = new Schema<IIntegration>(
       serverId: { type: String },
       channelId: { type: String },
       webhookUrl: { type: String },
+      meetingUrl: { type: String },
       apiKey: { type: String },
       refreshToken: { type: String },
       accessToken: { type: String },
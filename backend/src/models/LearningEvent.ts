@@ -0,0 +1,134 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const LEARNING_EVENT_TYPES = [
+    'LESSON_STARTED',
+    'LESSON_PROGRESSED',
+    'LESSON_COMPLETED',
+    'QUIZ_SUBMITTED',
+    'VIDEO_WATCHED'
+] as const;
+
+export type LearningEventType = typeof LEARNING_EVENT_TYPES[number];
+
+/**
+ * Interface representing a Learning Event document in MongoDB.
+ * Events are append-only: they are the source of truth for learning progress,
+ * and Enrollment.progress, UserCourse, UserCourseProgress and LessonCompletion
+ * are projections rebuilt from them.
+ */
+export interface ILearningEvent extends Document {
+    studentId: Schema.Types.ObjectId;
+    programmeId: Schema.Types.ObjectId;
+    moduleId?: Schema.Types.ObjectId;
+    lessonId?: Schema.Types.ObjectId;
+    type: LearningEventType;
+    occurredAt: Date;
+    timeSpent: number; // in minutes, added by this event
+    progressPercentage?: number; // 0-100, lesson progress reported by this event
+    videoSeconds?: number; // video watched by this event, in seconds
+    score?: number;
+    maxScore?: number;
+    percentage?: number;
+    passed?: boolean;
+    source: string; // code path that recorded the event, or 'backfill'
+    dedupeKey?: string; // set on events that may only be recorded once
+    createdAt: Date;
+}
+
+const LearningEventSchema = new Schema<ILearningEvent>(
+    {
+        studentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true,
+            index: true
+        },
+        moduleId: {
+            type: Schema.Types.ObjectId,
+            ref: 'ProgrammeModule'
+        },
+        lessonId: {
+            type: Schema.Types.ObjectId,
+            ref: 'ProgrammeLesson'
+        },
+        type: {
+            type: String,
+            enum: LEARNING_EVENT_TYPES,
+            required: true
+        },
+        occurredAt: {
+            type: Date,
+            default: Date.now,
+            required: true
+        },
+        timeSpent: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        progressPercentage: {
+            type: Number,
+            min: 0,
+            max: 100
+        },
+        videoSeconds: {
+            type: Number,
+            min: 0
+        },
+        score: Number,
+        maxScore: Number,
+        percentage: {
+            type: Number,
+            min: 0,
+            max: 100
+        },
+        passed: Boolean,
+        source: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        dedupeKey: {
+            type: String,
+            unique: true,
+            sparse: true
+        }
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+LearningEventSchema.index({ studentId: 1, programmeId: 1, occurredAt: 1 });
+LearningEventSchema.index({ studentId: 1, lessonId: 1, occurredAt: 1 });
+
+// Events are never edited; corrections are recorded as new events.
+// Deleting stays possible so account erasure can remove a student's history.
+LearningEventSchema.pre('save', function(next) {
+    if (!this.isNew) {
+        return next(new Error('Learning events are append-only and cannot be modified'));
+    }
+    next();
+});
+
+const rejectUpdate = function(next: (error?: Error) => void) {
+    next(new Error('Learning events are append-only and cannot be modified'));
+};
+
+LearningEventSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], rejectUpdate);
+
+export default model<ILearningEvent>('LearningEvent', LearningEventSchema);
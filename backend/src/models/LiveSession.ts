@@ -0,0 +1,193 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing a scheduled live session for a programme.
+ * RSVPs and attendance are embedded; capacity is enforced on RSVP.
+ */
+export interface ILiveSession extends Document {
+    programmeId: Schema.Types.ObjectId;
+    moduleId?: Schema.Types.ObjectId;
+    title: string;
+    description: string;
+    instructor: string;
+    instructorId?: Schema.Types.ObjectId;
+    startTime: Date;
+    endTime: Date;
+    status: 'SCHEDULED' | 'CANCELLED';
+    platform: 'zoom' | 'other';
+    meetingLink?: string;
+    meetingId?: string;
+    password?: string;
+    maxParticipants: number;
+    topics: string[];
+    recordingUrl?: string;
+    rsvps: {
+        studentId: Schema.Types.ObjectId;
+        rsvpAt: Date;
+    }[];
+    attendance: {
+        studentId: Schema.Types.ObjectId;
+        joinedAt: Date;
+        minutesAttended: number;
+        markedBy?: Schema.Types.ObjectId;
+    }[];
+    createdBy?: Schema.Types.ObjectId;
+    cancelledAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+    // Virtuals
+    duration: number;
+}
+
+const LiveSessionSchema = new Schema<ILiveSession>(
+    {
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true,
+            index: true
+        },
+        moduleId: {
+            type: Schema.Types.ObjectId,
+            ref: 'ProgrammeModule',
+            index: true
+        },
+        title: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: 2000,
+            default: ''
+        },
+        instructor: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 100
+        },
+        instructorId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        startTime: {
+            type: Date,
+            required: true,
+            index: true
+        },
+        endTime: {
+            type: Date,
+            required: true,
+            validate: {
+                validator: function(this: ILiveSession, value: Date) {
+                    return !this.startTime || value > this.startTime;
+                },
+                message: 'End time must be after start time'
+            }
+        },
+        status: {
+            type: String,
+            enum: ['SCHEDULED', 'CANCELLED'],
+            default: 'SCHEDULED',
+            index: true
+        },
+        platform: {
+            type: String,
+            enum: ['zoom', 'other'],
+            default: 'zoom'
+        },
+        meetingLink: {
+            type: String,
+            trim: true
+        },
+        meetingId: {
+            type: String,
+            trim: true
+        },
+        password: {
+            type: String,
+            trim: true
+        },
+        maxParticipants: {
+            type: Number,
+            required: true,
+            min: 1,
+            default: 50
+        },
+        topics: [{
+            type: String,
+            trim: true,
+            maxlength: 100
+        }],
+        recordingUrl: {
+            type: String,
+            trim: true
+        },
+        rsvps: [{
+            studentId: {
+                type: Schema.Types.ObjectId,
+                ref: 'User',
+                required: true
+            },
+            rsvpAt: {
+                type: Date,
+                default: Date.now
+            }
+        }],
+        attendance: [{
+            studentId: {
+                type: Schema.Types.ObjectId,
+                ref: 'User',
+                required: true
+            },
+            joinedAt: {
+                type: Date,
+                default: Date.now
+            },
+            minutesAttended: {
+                type: Number,
+                min: 0,
+                default: 0
+            },
+            markedBy: {
+                type: Schema.Types.ObjectId,
+                ref: 'User'
+            }
+        }],
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        cancelledAt: {
+            type: Date
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+// Duration in minutes
+LiveSessionSchema.virtual('duration').get(function(this: ILiveSession) {
+    if (!this.startTime || !this.endTime) return 0;
+    return Math.round((this.endTime.getTime() - this.startTime.getTime()) / (1000 * 60));
+});
+
+LiveSessionSchema.index({ programmeId: 1, startTime: 1 });
+LiveSessionSchema.index({ 'rsvps.studentId': 1 });
+LiveSessionSchema.index({ 'attendance.studentId': 1 });
+
+export default model<ILiveSession>('LiveSession', LiveSessionSchema);
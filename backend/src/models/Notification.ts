@@ -0,0 +1,75 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing an in-app notification for a user.
+ */
+export interface INotification extends Document {
+    userId: Schema.Types.ObjectId;
+    type: 'BADGE_EARNED' | 'SUPPORT_REPLY' | 'PAYMENT' | 'REFERRAL' | 'QUIZ_GRADED' | 'SYSTEM';
+    title: string;
+    message: string;
+    severity: 'info' | 'success' | 'warning';
+    data?: Record<string, any>;
+    read: boolean;
+    readAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const NotificationSchema = new Schema<INotification>(
+    {
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        type: {
+            type: String,
+            enum: ['BADGE_EARNED', 'SUPPORT_REPLY', 'PAYMENT', 'REFERRAL', 'QUIZ_GRADED', 'SYSTEM'],
+            required: true
+        },
+        title: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200
+        },
+        message: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 1000
+        },
+        severity: {
+            type: String,
+            enum: ['info', 'success', 'warning'],
+            default: 'info'
+        },
+        data: {
+            type: Schema.Types.Mixed
+        },
+        read: {
+            type: Boolean,
+            default: false
+        },
+        readAt: {
+            type: Date
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+NotificationSchema.index({ userId: 1, read: 1, createdAt: -1 });
+
+export default model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,59 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const OAUTH_FLOW_MODES = ['login', 'link'] as const;
+export type OAuthFlowMode = typeof OAUTH_FLOW_MODES[number];
+
+/**
+ * Interface representing a sign-in in progress at a provider. It is looked up
+ * by the `state` parameter the provider echoes back, holds the PKCE verifier
+ * for the code exchange and is deleted as soon as the callback uses it.
+ */
+export interface IOAuthState extends Document {
+    stateHash: string; // SHA-256 of the state parameter
+    provider: string;
+    codeVerifier: string;
+    mode: OAuthFlowMode;
+    userId?: Schema.Types.ObjectId; // the signed-in user, when linking
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const OAuthStateSchema = new Schema<IOAuthState>(
+    {
+        stateHash: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        provider: {
+            type: String,
+            required: true
+        },
+        codeVerifier: {
+            type: String,
+            required: true
+        },
+        mode: {
+            type: String,
+            enum: OAUTH_FLOW_MODES,
+            required: true
+        },
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+// Abandoned sign-ins are cleaned up once they can no longer be completed
+OAuthStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IOAuthState>('OAuthState', OAuthStateSchema);
@@ -0,0 +1,139 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const OUTBOUND_CHANNELS = ['email', 'webhook'] as const;
+export const OUTBOUND_MESSAGE_STATUSES = ['pending', 'processing', 'sent', 'dead'] as const;
+
+export type OutboundChannel = typeof OUTBOUND_CHANNELS[number];
+export type OutboundMessageStatus = typeof OUTBOUND_MESSAGE_STATUSES[number];
+
+/**
+ * Interface representing a queued email or webhook post. Messages are retried
+ * with backoff until they are sent or run out of attempts, after which they
+ * stay in the queue as dead letters until an admin replays them.
+ */
+export interface IOutboundMessage extends Document {
+    channel: OutboundChannel;
+    destination: string; // recipient address or webhook URL; deliveries are rate limited per destination
+    description: string; // what the message is, for the admin view
+    payload: Record<string, any>; // email options, or the JSON body for a webhook
+    integrationId?: Schema.Types.ObjectId; // webhook messages sent for a user's integration
+    status: OutboundMessageStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: Date;
+    lastAttemptAt?: Date;
+    lockedUntil?: Date; // while processing, so a crashed worker's message is picked up again
+    lastError?: string;
+    sentAt?: Date;
+    deadAt?: Date;
+    replayedBy?: Schema.Types.ObjectId;
+    replayedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const webhookOrigin = (url: string): string => {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return 'webhook';
+    }
+};
+
+const OutboundMessageSchema = new Schema<IOutboundMessage>(
+    {
+        channel: {
+            type: String,
+            enum: OUTBOUND_CHANNELS,
+            required: true
+        },
+        destination: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        description: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200
+        },
+        payload: {
+            type: Schema.Types.Mixed,
+            required: true
+        },
+        integrationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Integration',
+            index: { sparse: true }
+        },
+        status: {
+            type: String,
+            enum: OUTBOUND_MESSAGE_STATUSES,
+            default: 'pending'
+        },
+        attempts: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        maxAttempts: {
+            type: Number,
+            min: 1,
+            default: 6
+        },
+        nextAttemptAt: {
+            type: Date,
+            default: Date.now
+        },
+        lastAttemptAt: {
+            type: Date
+        },
+        lockedUntil: {
+            type: Date
+        },
+        lastError: {
+            type: String,
+            trim: true,
+            maxlength: 1000
+        },
+        sentAt: {
+            type: Date
+        },
+        deadAt: {
+            type: Date
+        },
+        replayedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        replayedAt: {
+            type: Date
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                // Webhook URLs carry their secret in the path, so only the origin is sent out
+                if (ret.channel === 'webhook' && ret.destination) {
+                    ret.destination = webhookOrigin(ret.destination);
+                }
+                return ret;
+            }
+        }
+    }
+);
+
+OutboundMessageSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboundMessageSchema.index({ destination: 1, lastAttemptAt: -1 });
+OutboundMessageSchema.index({ status: 1, deadAt: -1 });
+// Delivered messages are only kept for a month, failed ones for three months
+// so they can still be replayed; replaying clears `deadAt`
+OutboundMessageSchema.index({ sentAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+OutboundMessageSchema.index({ deadAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export default model<IOutboundMessage>('OutboundMessage', OutboundMessageSchema);
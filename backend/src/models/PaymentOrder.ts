@@ -0,0 +1,173 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const PAYMENT_ORDER_STATUSES = ['PENDING', 'PAID', 'FAILED', 'CANCELLED', 'REFUNDED'] as const;
+
+export type PaymentOrderStatus = typeof PAYMENT_ORDER_STATUSES[number];
+
+/**
+ * Interface representing a checkout order for a paid programme. The enrollment is
+ * only created once the provider confirms the payment.
+ */
+export interface IPaymentOrder extends Document {
+    orderNumber: string;
+    studentId: Schema.Types.ObjectId;
+    programmeId: Schema.Types.ObjectId;
+    enrollmentId?: Schema.Types.ObjectId;
+    provider: string;
+    providerOrderId?: string;
+    providerPaymentId?: string;
+    checkoutUrl?: string;
+    originalPrice: number;
+    discountAmount: number;
+    discountApplied: number; // percentage 0-100
+    amount: number; // amount charged, in the programme currency
+    enrollmentSource: 'DIRECT' | 'PROMOTION' | 'REFERRAL';
+    code?: string; // coupon or referral code applied at checkout
+    couponId?: Schema.Types.ObjectId;
+    referrerId?: Schema.Types.ObjectId;
+    currency: string;
+    status: PaymentOrderStatus;
+    failureReason?: string;
+    paidAt?: Date;
+    refund?: {
+        providerRefundId?: string;
+        amount: number;
+        reason?: string;
+        refundedBy?: Schema.Types.ObjectId;
+        refundedAt: Date;
+    };
+    processedEvents: string[]; // provider webhook event ids already applied
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PaymentOrderSchema = new Schema<IPaymentOrder>(
+    {
+        orderNumber: {
+            type: String,
+            required: true,
+            unique: true,
+            index: true
+        },
+        studentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true,
+            index: true
+        },
+        enrollmentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Enrollment'
+        },
+        provider: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        providerOrderId: {
+            type: String,
+            trim: true,
+            index: { sparse: true }
+        },
+        providerPaymentId: {
+            type: String,
+            trim: true
+        },
+        checkoutUrl: {
+            type: String,
+            trim: true
+        },
+        originalPrice: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        discountAmount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        discountApplied: {
+            type: Number,
+            min: 0,
+            max: 100,
+            default: 0
+        },
+        amount: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        enrollmentSource: {
+            type: String,
+            enum: ['DIRECT', 'PROMOTION', 'REFERRAL'],
+            default: 'DIRECT'
+        },
+        code: {
+            type: String,
+            uppercase: true,
+            trim: true
+        },
+        couponId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Coupon'
+        },
+        referrerId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        currency: {
+            type: String,
+            required: true,
+            uppercase: true,
+            maxlength: 3
+        },
+        status: {
+            type: String,
+            enum: PAYMENT_ORDER_STATUSES,
+            default: 'PENDING',
+            index: true
+        },
+        failureReason: {
+            type: String,
+            trim: true,
+            maxlength: 500
+        },
+        paidAt: {
+            type: Date
+        },
+        refund: {
+            providerRefundId: { type: String, trim: true },
+            amount: { type: Number, min: 0 },
+            reason: { type: String, trim: true, maxlength: 500 },
+            refundedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+            refundedAt: { type: Date }
+        },
+        processedEvents: [{
+            type: String
+        }]
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                delete (ret as any).processedEvents;
+                return ret;
+            }
+        }
+    }
+);
+
+PaymentOrderSchema.index({ studentId: 1, programmeId: 1, status: 1 });
+PaymentOrderSchema.index({ status: 1, createdAt: -1 });
+
+export default model<IPaymentOrder>('PaymentOrder', PaymentOrderSchema);
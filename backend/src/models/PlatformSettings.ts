@@ -0,0 +1,120 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing the platform-wide settings managed from the admin panel.
+ * There is a single document, identified by `key: 'platform'`.
+ */
+export interface IPlatformSettings extends Document {
+    key: 'platform';
+    siteName: string;
+    siteDescription: string;
+    contactEmail: string;
+    supportEmail: string;
+    maxFileSize: number; // in MB
+    allowedFileTypes: string[]; // lowercase extensions without the dot
+    enableRegistration: boolean;
+    requireEmailVerification: boolean;
+    enableDiscordIntegration: boolean;
+    enableAnalytics: boolean;
+    maintenanceMode: boolean;
+    requireAdminTwoFactor: boolean; // admins must set up two-factor authentication to sign in
+    defaultUserRole: 'user' | 'student' | 'visitor';
+    updatedBy?: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PlatformSettingsSchema = new Schema<IPlatformSettings>(
+    {
+        key: {
+            type: String,
+            enum: ['platform'],
+            default: 'platform',
+            unique: true
+        },
+        siteName: {
+            type: String,
+            trim: true,
+            maxlength: 100,
+            default: 'EduKnit'
+        },
+        siteDescription: {
+            type: String,
+            trim: true,
+            maxlength: 500,
+            default: 'Modern Learning Platform'
+        },
+        contactEmail: {
+            type: String,
+            trim: true,
+            lowercase: true,
+            default: 'contact@eduknit.com'
+        },
+        supportEmail: {
+            type: String,
+            trim: true,
+            lowercase: true,
+            default: 'support@eduknit.com'
+        },
+        maxFileSize: {
+            type: Number,
+            min: 1,
+            max: 100,
+            default: 10
+        },
+        allowedFileTypes: {
+            type: [{
+                type: String,
+                trim: true,
+                lowercase: true
+            }],
+            default: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'pdf', 'doc', 'docx', 'txt', 'zip', 'mp4']
+        },
+        enableRegistration: {
+            type: Boolean,
+            default: true
+        },
+        requireEmailVerification: {
+            type: Boolean,
+            default: true
+        },
+        enableDiscordIntegration: {
+            type: Boolean,
+            default: false
+        },
+        enableAnalytics: {
+            type: Boolean,
+            default: true
+        },
+        maintenanceMode: {
+            type: Boolean,
+            default: false
+        },
+        requireAdminTwoFactor: {
+            type: Boolean,
+            default: true
+        },
+        defaultUserRole: {
+            type: String,
+            enum: ['user', 'student', 'visitor'],
+            default: 'user'
+        },
+        updatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                delete (ret as any).key;
+                return ret;
+            }
+        }
+    }
+);
+
+export default model<IPlatformSettings>('PlatformSettings', PlatformSettingsSchema);
@@ -1,4 +1,4 @@
-import { Schema, model, Document } from 'mongoose';
+import { Schema, model, Document, Types } from 'mongoose';
 
 /**
  * Interface representing a Programme/Course document in MongoDB.
@@ -8,7 +8,8 @@ export interface IProgramme extends Document {
     slug: string;
     description: string;
     category: 'AI_CERTIFICATE' | 'DATA_CERTIFICATION' | 'PROFESSIONAL_SKILLS' | 'TECHNICAL_SKILLS';
-    instructor: string;
+    instructor: string; // display name shown to students
+    instructorIds: Types.ObjectId[]; // instructor accounts that manage the programme's content
     duration: string; // e.g., "3-5 hours/week"
     timeframe: string; // e.g., "1-2 months"
     level: 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED' | 'ALL_LEVELS';
@@ -65,6 +66,10 @@ const ProgrammeSchema = new Schema<IProgramme>(
             trim: true,
             maxlength: 100
         },
+        instructorIds: [{
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }],
         duration: {
             type: String,
             required: true,
@@ -172,6 +177,7 @@ ProgrammeSchema.index({ title: 'text', description: 'text', skills: 'text' });
 ProgrammeSchema.index({ category: 1, level: 1 });
 ProgrammeSchema.index({ isActive: 1, createdAt: -1 });
 ProgrammeSchema.index({ instructor: 1 });
+ProgrammeSchema.index({ instructorIds: 1 });
 
 // Virtual for search relevance
 ProgrammeSchema.virtual('searchRelevance').get(function() {
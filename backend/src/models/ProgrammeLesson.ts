@@ -1,4 +1,51 @@
 import { Schema, model, Document } from 'mongoose';
+import { QUESTION_TYPES, QUESTION_DIFFICULTIES, MANUALLY_GRADED_TYPES, QuestionType, QuestionDifficulty } from './QuestionBankItem';
+import { ContentPublishingSchema, IContentPublishing } from './ContentVersion';
+
+/**
+ * An inline quiz question. The answer key follows the same per-type shape as
+ * question bank items (see IQuestionBankItem).
+ */
+export interface ILessonQuizQuestion {
+    id: string;
+    question: string;
+    type: QuestionType;
+    options?: string[];
+    correctAnswer: any;
+    acceptedAnswers?: string[];
+    tolerance?: number;
+    partialCredit?: boolean;
+    points: number;
+    explanation?: string;
+}
+
+/**
+ * Draw `count` random active bank questions tagged `tag` for each attempt
+ */
+export interface IQuestionPool {
+    tag: string;
+    count: number;
+    difficulty?: QuestionDifficulty;
+}
+
+export const LESSON_PACKAGE_STANDARDS = ['SCORM_1_2', 'XAPI'] as const;
+
+export type LessonPackageStandard = typeof LESSON_PACKAGE_STANDARDS[number];
+
+/**
+ * An uploaded SCORM 1.2 or xAPI package, unpacked under
+ * LESSON_PACKAGES_DIR/<lessonId>/<id> and launched at `launchPath`
+ */
+export interface ILessonPackage {
+    id: string;
+    standard: LessonPackageStandard;
+    title?: string;
+    launchPath: string; // relative to the package root, may carry a query string
+    activityId?: string; // xAPI id of the package's top-level activity
+    masteryScore?: number; // SCORM adlcp:masteryscore, 0-100
+    fileCount: number;
+    uploadedAt: Date;
+}
 
 /**
  * Interface representing a Programme Lesson document in MongoDB.
@@ -38,16 +85,13 @@ export interface IProgrammeLesson extends Document {
         
         // Content format indicator
         contentFormat?: 'HTML' | 'JSON' | 'LEGACY';
+
+        // SCORM/xAPI package played instead of the lesson's own content
+        package?: ILessonPackage;
         
         quiz?: {
-            questions: {
-                id: string;
-                question: string;
-                type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER';
-                options?: string[];
-                correctAnswer: any;
-                points: number;
-            }[];
+            questions: ILessonQuizQuestion[];
+            questionPools?: IQuestionPool[];
             timeLimit?: number; // in minutes
             passingScore: number;
         };
@@ -64,14 +108,8 @@ export interface IProgrammeLesson extends Document {
     }[];
     isActive: boolean;
     quiz?: {
-        questions: {
-            id: string;
-            question: string;
-            type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER';
-            options?: string[];
-            correctAnswer: any;
-            points: number;
-        }[];
+        questions: ILessonQuizQuestion[];
+        questionPools?: IQuestionPool[];
         timeLimit?: number;
         passingScore?: number;
         settings?: {
@@ -83,13 +121,120 @@ export interface IProgrammeLesson extends Document {
             maxAttempts?: number;
             questionsRandomized?: boolean;
             optionsRandomized?: boolean;
+            retakeCooldownMinutes?: number; // minimum wait between finishing an attempt and starting the next
         };
     };
     hasQuiz?: boolean;
+    publishing: IContentPublishing;
     createdAt: Date;
     updatedAt: Date;
 }
 
+const LessonQuizQuestionSchema = new Schema<ILessonQuizQuestion>(
+    {
+        id: {
+            type: String,
+            required: true
+        },
+        question: {
+            type: String,
+            required: true
+        },
+        type: {
+            type: String,
+            enum: QUESTION_TYPES,
+            required: true
+        },
+        options: [{
+            type: String
+        }],
+        correctAnswer: {
+            type: Schema.Types.Mixed,
+            required: function(this: ILessonQuizQuestion) {
+                return !MANUALLY_GRADED_TYPES.includes(this.type);
+            }
+        },
+        acceptedAnswers: [{
+            type: String
+        }],
+        tolerance: {
+            type: Number,
+            min: 0
+        },
+        partialCredit: {
+            type: Boolean
+        },
+        points: {
+            type: Number,
+            required: true
+        },
+        explanation: {
+            type: String
+        }
+    }
+);
+
+const QuestionPoolSchema = new Schema<IQuestionPool>(
+    {
+        tag: {
+            type: String,
+            required: true,
+            trim: true,
+            lowercase: true
+        },
+        count: {
+            type: Number,
+            required: true,
+            min: 1
+        },
+        difficulty: {
+            type: String,
+            enum: QUESTION_DIFFICULTIES
+        }
+    },
+    { _id: false }
+);
+
+const LessonPackageSchema = new Schema<ILessonPackage>(
+    {
+        id: {
+            type: String,
+            required: true
+        },
+        standard: {
+            type: String,
+            enum: LESSON_PACKAGE_STANDARDS,
+            required: true
+        },
+        title: {
+            type: String,
+            trim: true
+        },
+        launchPath: {
+            type: String,
+            required: true
+        },
+        activityId: {
+            type: String
+        },
+        masteryScore: {
+            type: Number,
+            min: 0,
+            max: 100
+        },
+        fileCount: {
+            type: Number,
+            required: true,
+            min: 1
+        },
+        uploadedAt: {
+            type: Date,
+            required: true
+        }
+    },
+    { _id: false }
+);
+
 const ProgrammeLessonSchema = new Schema<IProgrammeLesson>(
     {
         moduleId: {
@@ -179,34 +324,12 @@ const ProgrammeLessonSchema = new Schema<IProgrammeLesson>(
                 enum: ['HTML', 'JSON', 'LEGACY'],
                 default: 'LEGACY'
             },
+
+            package: LessonPackageSchema,
             
             quiz: {
-                questions: [{
-                    id: {
-                        type: String,
-                        required: true
-                    },
-                    question: {
-                        type: String,
-                        required: true
-                    },
-                    type: {
-                        type: String,
-                        enum: ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER'],
-                        required: true
-                    },
-                    options: [{
-                        type: String
-                    }],
-                    correctAnswer: {
-                        type: Schema.Types.Mixed,
-                        required: true
-                    },
-                    points: {
-                        type: Number,
-                        required: true
-                    }
-                }],
+                questions: [LessonQuizQuestionSchema],
+                questionPools: [QuestionPoolSchema],
                 timeLimit: {
                     type: Number,
                     min: 0
@@ -264,32 +387,8 @@ const ProgrammeLessonSchema = new Schema<IProgrammeLesson>(
             index: true
         },
         quiz: {
-            questions: [{
-                id: {
-                    type: String,
-                    required: true
-                },
-                question: {
-                    type: String,
-                    required: true
-                },
-                type: {
-                    type: String,
-                    enum: ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER'],
-                    required: true
-                },
-                options: [{
-                    type: String
-                }],
-                correctAnswer: {
-                    type: Schema.Types.Mixed,
-                    required: true
-                },
-                points: {
-                    type: Number,
-                    required: true
-                }
-            }],
+            questions: [LessonQuizQuestionSchema],
+            questionPools: [QuestionPoolSchema],
             timeLimit: {
                 type: Number,
                 min: 0
@@ -307,12 +406,20 @@ const ProgrammeLessonSchema = new Schema<IProgrammeLesson>(
                 showFeedback: Boolean,
                 maxAttempts: Number,
                 questionsRandomized: Boolean,
-                optionsRandomized: Boolean
+                optionsRandomized: Boolean,
+                retakeCooldownMinutes: {
+                    type: Number,
+                    min: 0
+                }
             }
         },
         hasQuiz: {
             type: Boolean,
             default: false
+        },
+        publishing: {
+            type: ContentPublishingSchema,
+            default: () => ({})
         }
     },
     {
@@ -322,6 +429,8 @@ const ProgrammeLessonSchema = new Schema<IProgrammeLesson>(
                 ret.id = ret._id;
                 delete (ret as any)._id;
                 delete (ret as any).__v;
+                // Unpublished edits are only shown to editors, through ContentVersionService
+                delete (ret as any).publishing?.draft;
                 return ret;
             }
         }
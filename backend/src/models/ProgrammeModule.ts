@@ -1,4 +1,5 @@
 import { Schema, model, Document } from 'mongoose';
+import { ContentPublishingSchema, IContentPublishing } from './ContentVersion';
 
 /**
  * Interface representing a Programme Module document in MongoDB.
@@ -15,6 +16,7 @@ export interface IProgrammeModule extends Document {
     dueDate?: Date;
     learningObjectives: string[];
     isActive: boolean;
+    publishing: IContentPublishing;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -76,6 +78,10 @@ const ProgrammeModuleSchema = new Schema<IProgrammeModule>(
             type: Boolean,
             default: true,
             index: true
+        },
+        publishing: {
+            type: ContentPublishingSchema,
+            default: () => ({})
         }
     },
     {
@@ -85,6 +91,8 @@ const ProgrammeModuleSchema = new Schema<IProgrammeModule>(
                 ret.id = ret._id;
                 delete (ret as any)._id;
                 delete (ret as any).__v;
+                // Unpublished edits are only shown to editors, through ContentVersionService
+                delete (ret as any).publishing?.draft;
                 return ret;
             }
         }
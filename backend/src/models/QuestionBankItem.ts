@@ -0,0 +1,140 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const QUESTION_TYPES = [
+    'MULTIPLE_CHOICE',
+    'MULTI_SELECT',
+    'TRUE_FALSE',
+    'SHORT_ANSWER',
+    'NUMERIC',
+    'ORDERING',
+    'MATCHING',
+    'FILL_IN_BLANK',
+    'ESSAY'
+] as const;
+
+// Question types scored by a grader instead of automatically
+export const MANUALLY_GRADED_TYPES: readonly QuestionType[] = ['ESSAY'];
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export const QUESTION_DIFFICULTIES = ['EASY', 'MEDIUM', 'HARD'] as const;
+
+export type QuestionDifficulty = typeof QUESTION_DIFFICULTIES[number];
+
+/**
+ * Interface representing a reusable question in the question bank. Quizzes
+ * draw bank questions by tag, so the same question can appear in many lessons.
+ *
+ * The shape of `correctAnswer` depends on the type:
+ * - MULTIPLE_CHOICE: the correct option text
+ * - MULTI_SELECT: the correct option texts
+ * - TRUE_FALSE: a boolean
+ * - SHORT_ANSWER: the expected text; `acceptedAnswers` lists variants
+ * - NUMERIC: a number; answers within `tolerance` are correct
+ * - ORDERING: the options in their correct order
+ * - MATCHING: `{ left, right }` pairs
+ * - FILL_IN_BLANK: one `{ accepted, pattern?, caseSensitive? }` entry per blank
+ * - ESSAY: an optional model answer or marking guide shown to graders
+ */
+export interface IQuestionBankItem extends Document {
+    question: string;
+    type: QuestionType;
+    options: string[];
+    correctAnswer: any;
+    acceptedAnswers: string[];
+    tolerance?: number;
+    partialCredit: boolean;
+    points: number;
+    explanation?: string;
+    tags: string[];
+    difficulty: QuestionDifficulty;
+    isActive: boolean;
+    createdBy?: Schema.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const QuestionBankItemSchema = new Schema<IQuestionBankItem>(
+    {
+        question: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 2000
+        },
+        type: {
+            type: String,
+            enum: QUESTION_TYPES,
+            required: true,
+            index: true
+        },
+        options: [{
+            type: String,
+            trim: true
+        }],
+        correctAnswer: {
+            type: Schema.Types.Mixed,
+            required: function(this: IQuestionBankItem) {
+                return !MANUALLY_GRADED_TYPES.includes(this.type);
+            }
+        },
+        acceptedAnswers: [{
+            type: String,
+            trim: true
+        }],
+        tolerance: {
+            type: Number,
+            min: 0
+        },
+        partialCredit: {
+            type: Boolean,
+            default: false
+        },
+        points: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        explanation: {
+            type: String,
+            trim: true,
+            maxlength: 2000
+        },
+        tags: [{
+            type: String,
+            trim: true,
+            lowercase: true,
+            maxlength: 50
+        }],
+        difficulty: {
+            type: String,
+            enum: QUESTION_DIFFICULTIES,
+            default: 'MEDIUM',
+            index: true
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+            index: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+QuestionBankItemSchema.index({ tags: 1, difficulty: 1, isActive: 1 });
+
+export default model<IQuestionBankItem>('QuestionBankItem', QuestionBankItemSchema);
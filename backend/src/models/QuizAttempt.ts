@@ -1,5 +1,9 @@
 import { Schema, model, Document, Model } from 'mongoose';
 
+export const QUIZ_ATTEMPT_STATUSES = ['IN_PROGRESS', 'PENDING_REVIEW', 'COMPLETED', 'ABANDONED', 'EXPIRED'] as const;
+
+export type QuizAttemptStatus = typeof QUIZ_ATTEMPT_STATUSES[number];
+
 /**
  * Interface representing a Quiz Attempt document in MongoDB.
  * This tracks individual quiz attempts by students.
@@ -24,6 +28,19 @@ export interface IQuizAttempt extends Document {
     isPassed: boolean;
     passingScore: number;
     
+    // Questions given in this attempt, in presentation order (inline ids or bank item ids)
+    questionIds: string[];
+
+    // Options of each question in the order they were shown, so a resumed attempt
+    // and its review match what the student saw
+    optionOrder: {
+        questionId: string;
+        options: string[];
+    }[];
+
+    // Deadline for time-limited attempts; overdue attempts are expired by a scheduled job
+    expiresAt?: Date;
+
     // Question responses
     answers: {
         questionId: string;
@@ -31,6 +48,10 @@ export interface IQuizAttempt extends Document {
         isCorrect: boolean;
         pointsAwarded: number;
         timeSpent?: number; // time spent on this question
+        needsReview?: boolean; // waiting for a grader
+        graderComment?: string;
+        gradedBy?: Schema.Types.ObjectId;
+        gradedAt?: Date;
     }[];
     
     // Settings applied during attempt
@@ -47,9 +68,12 @@ export interface IQuizAttempt extends Document {
     feedback?: string;
     reviewNotes?: string;
     flaggedForReview?: boolean;
+    gradedBy?: Schema.Types.ObjectId;
+    gradedAt?: Date;
     
-    // Status tracking
-    status: 'IN_PROGRESS' | 'COMPLETED' | 'ABANDONED' | 'EXPIRED';
+    // Status tracking. Attempts with answers that need a grader stay PENDING_REVIEW
+    // until every one of them is graded.
+    status: QuizAttemptStatus;
     isDeleted: boolean;
 }
 
@@ -150,6 +174,22 @@ const QuizAttemptSchema = new Schema<IQuizAttempt>(
             max: 100,
             default: 60
         },
+        questionIds: [{
+            type: String
+        }],
+        optionOrder: [{
+            _id: false,
+            questionId: {
+                type: String,
+                required: true
+            },
+            options: [{
+                type: String
+            }]
+        }],
+        expiresAt: {
+            type: Date
+        },
         answers: [{
             questionId: {
                 type: String,
@@ -171,6 +211,22 @@ const QuizAttemptSchema = new Schema<IQuizAttempt>(
             timeSpent: {
                 type: Number,
                 min: 0
+            },
+            needsReview: {
+                type: Boolean,
+                default: false
+            },
+            graderComment: {
+                type: String,
+                trim: true,
+                maxlength: 2000
+            },
+            gradedBy: {
+                type: Schema.Types.ObjectId,
+                ref: 'User'
+            },
+            gradedAt: {
+                type: Date
             }
         }],
         settings: {
@@ -213,9 +269,16 @@ const QuizAttemptSchema = new Schema<IQuizAttempt>(
             type: Boolean,
             default: false
         },
+        gradedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        gradedAt: {
+            type: Date
+        },
         status: {
             type: String,
-            enum: ['IN_PROGRESS', 'COMPLETED', 'ABANDONED', 'EXPIRED'],
+            enum: QUIZ_ATTEMPT_STATUSES,
             default: 'IN_PROGRESS',
             index: true
         },
@@ -241,6 +304,7 @@ const QuizAttemptSchema = new Schema<IQuizAttempt>(
 // Compound indexes for better query performance
 QuizAttemptSchema.index({ studentId: 1, lessonId: 1, attemptNumber: 1 }, { unique: true });
 QuizAttemptSchema.index({ studentId: 1, status: 1, completedAt: -1 });
+QuizAttemptSchema.index({ status: 1, expiresAt: 1 });
 QuizAttemptSchema.index({ lessonId: 1, isPassed: 1, completedAt: -1 });
 QuizAttemptSchema.index({ programmeId: 1, completedAt: -1 });
 
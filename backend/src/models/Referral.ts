@@ -0,0 +1,65 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing a student who joined a programme with another student's
+ * referral code. Each student can be referred once.
+ */
+export interface IReferral extends Document {
+    referrerId: Schema.Types.ObjectId;
+    refereeId: Schema.Types.ObjectId;
+    code: string;
+    programmeId: Schema.Types.ObjectId;
+    enrollmentId?: Schema.Types.ObjectId;
+    pointsAwarded: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ReferralSchema = new Schema<IReferral>(
+    {
+        referrerId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        refereeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            unique: true
+        },
+        code: {
+            type: String,
+            required: true,
+            uppercase: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true
+        },
+        enrollmentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Enrollment'
+        },
+        pointsAwarded: {
+            type: Number,
+            min: 0,
+            default: 0
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+export default model<IReferral>('Referral', ReferralSchema);
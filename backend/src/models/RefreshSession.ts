@@ -0,0 +1,87 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const SESSION_REVOKE_REASONS = ['LOGOUT', 'USER_REVOKED', 'ADMIN_REVOKED', 'TOKEN_REUSE', 'PASSWORD_CHANGED', 'SESSION_LIMIT'] as const;
+export type SessionRevokeReason = typeof SESSION_REVOKE_REASONS[number];
+
+/**
+ * Interface representing a signed-in device. Each session is one refresh-token
+ * family: every refresh replaces the token, and only the hash of the latest one
+ * is kept. Presenting an older token of the family revokes the whole session.
+ */
+export interface IRefreshSession extends Document {
+    userId: Schema.Types.ObjectId;
+    tokenHash: string; // SHA-256 of the current refresh token
+    userAgent?: string;
+    ipAddress?: string;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    rotationCount: number;
+    revokedAt?: Date;
+    revokedReason?: SessionRevokeReason;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const RefreshSessionSchema = new Schema<IRefreshSession>(
+    {
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        tokenHash: {
+            type: String,
+            required: true
+        },
+        userAgent: {
+            type: String,
+            trim: true,
+            maxlength: 500
+        },
+        ipAddress: {
+            type: String,
+            trim: true,
+            maxlength: 100
+        },
+        lastUsedAt: {
+            type: Date,
+            default: Date.now
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        },
+        rotationCount: {
+            type: Number,
+            default: 0,
+            min: 0
+        },
+        revokedAt: {
+            type: Date
+        },
+        revokedReason: {
+            type: String,
+            enum: SESSION_REVOKE_REASONS
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                delete (ret as any).tokenHash;
+                return ret;
+            }
+        }
+    }
+);
+
+RefreshSessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 });
+// Sessions are removed once their last refresh token has expired. Revoked
+// sessions are kept until then so their tokens keep being rejected as reuse.
+RefreshSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IRefreshSession>('RefreshSession', RefreshSessionSchema);
@@ -0,0 +1,123 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const SCORM_LESSON_STATUSES = [
+    'passed',
+    'completed',
+    'failed',
+    'incomplete',
+    'browsed',
+    'not attempted'
+] as const;
+
+export type ScormLessonStatus = typeof SCORM_LESSON_STATUSES[number];
+
+export const SCORM_EXIT_VALUES = ['time-out', 'suspend', 'logout', ''] as const;
+
+export type ScormExit = typeof SCORM_EXIT_VALUES[number];
+
+/**
+ * Interface representing a SCORM Runtime State document in MongoDB.
+ * Holds the SCORM 1.2 `cmi` data a student's package has saved for a lesson,
+ * so that the next launch resumes where the last one stopped.
+ */
+export interface IScormRuntimeState extends Document {
+    studentId: Schema.Types.ObjectId;
+    programmeId: Schema.Types.ObjectId;
+    lessonId: Schema.Types.ObjectId;
+    packageId: string; // package the data was saved by; a new upload starts over
+    lessonStatus: ScormLessonStatus;
+    lessonLocation: string;
+    suspendData: string;
+    exit: ScormExit;
+    scoreRaw?: number;
+    scoreMin?: number;
+    scoreMax?: number;
+    totalTime: number; // in seconds, over finished sessions
+    sessionCount: number;
+    lastSessionId?: string; // last session that was finished or scored
+    lastSessionScored: boolean;
+    lastSessionFinished: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ScormRuntimeStateSchema = new Schema<IScormRuntimeState>(
+    {
+        studentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true
+        },
+        lessonId: {
+            type: Schema.Types.ObjectId,
+            ref: 'ProgrammeLesson',
+            required: true
+        },
+        packageId: {
+            type: String,
+            required: true
+        },
+        lessonStatus: {
+            type: String,
+            enum: SCORM_LESSON_STATUSES,
+            default: 'not attempted'
+        },
+        lessonLocation: {
+            type: String,
+            maxlength: 255,
+            default: ''
+        },
+        suspendData: {
+            type: String,
+            maxlength: 4096,
+            default: ''
+        },
+        exit: {
+            type: String,
+            enum: SCORM_EXIT_VALUES,
+            default: ''
+        },
+        scoreRaw: Number,
+        scoreMin: Number,
+        scoreMax: Number,
+        totalTime: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        sessionCount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        lastSessionId: String,
+        lastSessionScored: {
+            type: Boolean,
+            default: false
+        },
+        lastSessionFinished: {
+            type: Boolean,
+            default: false
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+ScormRuntimeStateSchema.index({ studentId: 1, lessonId: 1 }, { unique: true });
+
+export default model<IScormRuntimeState>('ScormRuntimeState', ScormRuntimeStateSchema);
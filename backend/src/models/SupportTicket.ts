@@ -0,0 +1,136 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export const SUPPORT_CATEGORIES = ['GENERAL', 'TECHNICAL', 'COURSE', 'PAYMENT', 'ACCOUNT'] as const;
+
+export type SupportCategory = typeof SUPPORT_CATEGORIES[number];
+
+/**
+ * A single message in a support ticket thread
+ */
+export interface ITicketMessage {
+    _id?: Types.ObjectId;
+    authorId: Schema.Types.ObjectId;
+    authorRole: 'student' | 'admin';
+    body: string;
+    createdAt: Date;
+}
+
+/**
+ * Interface representing a support ticket. OPEN tickets are waiting on
+ * support, PENDING tickets are waiting on the student.
+ */
+export interface ISupportTicket extends Document {
+    ticketNumber: string;
+    studentId: Schema.Types.ObjectId;
+    subject: string;
+    category: SupportCategory;
+    priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+    status: 'OPEN' | 'PENDING' | 'RESOLVED' | 'CLOSED';
+    assignedTo?: Schema.Types.ObjectId;
+    messages: ITicketMessage[];
+    lastActivityAt: Date;
+    resolvedAt?: Date;
+    closedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const TicketMessageSchema = new Schema<ITicketMessage>(
+    {
+        authorId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        authorRole: {
+            type: String,
+            enum: ['student', 'admin'],
+            required: true
+        },
+        body: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 5000
+        },
+        createdAt: {
+            type: Date,
+            default: Date.now
+        }
+    }
+);
+
+const SupportTicketSchema = new Schema<ISupportTicket>(
+    {
+        ticketNumber: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        studentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        subject: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200
+        },
+        category: {
+            type: String,
+            enum: SUPPORT_CATEGORIES,
+            default: 'GENERAL'
+        },
+        priority: {
+            type: String,
+            enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'],
+            default: 'MEDIUM'
+        },
+        status: {
+            type: String,
+            enum: ['OPEN', 'PENDING', 'RESOLVED', 'CLOSED'],
+            default: 'OPEN',
+            index: true
+        },
+        assignedTo: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            index: true
+        },
+        messages: {
+            type: [TicketMessageSchema],
+            validate: {
+                validator: (messages: ITicketMessage[]) => messages.length > 0,
+                message: 'A ticket must have at least one message'
+            }
+        },
+        lastActivityAt: {
+            type: Date,
+            default: Date.now
+        },
+        resolvedAt: {
+            type: Date
+        },
+        closedAt: {
+            type: Date
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+SupportTicketSchema.index({ status: 1, priority: 1, lastActivityAt: -1 });
+
+export default model<ISupportTicket>('SupportTicket', SupportTicketSchema);
@@ -1,5 +1,8 @@
 import { Schema, model, Document } from 'mongoose';
 
+export const USER_ROLES = ['admin', 'instructor', 'user', 'student', 'visitor'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 /**
  * Interface representing a User document in MongoDB.
  */
@@ -7,7 +10,8 @@ export interface IUser extends Document {
     username: string;
     email: string;
     password: string;
-    role: 'admin' | 'user' | 'student' | 'visitor';
+    hasPassword: boolean; // false for accounts created through social sign-in until a password is set
+    role: UserRole;
     firstName?: string;
     lastName?: string;
     profilePicture?: string;
@@ -31,7 +35,16 @@ export interface IUser extends Document {
     passwordResetExpires?: Date;
     loginAttempts: number;
     lockUntil?: Date;
-    refreshTokens: string[];
+    calendarFeedToken?: string;
+    referralCode?: string;
+    twoFactor: {
+        enabled: boolean;
+        secret?: string; // encrypted TOTP secret
+        pendingSecret?: string; // encrypted secret awaiting its first code
+        recoveryCodes: string[]; // SHA-256 hashes of unused recovery codes
+        enabledAt?: Date;
+        lastUsedStep?: number; // time step of the last accepted code, so a code works once
+    };
     // Privacy and visibility settings
     profileVisibility: 'PUBLIC' | 'PRIVATE' | 'CONNECTIONS_ONLY';
     allowMessaging: boolean;
@@ -77,9 +90,13 @@ const UserSchema = new Schema<IUser>(
             required: true,
             minlength: 8
         },
+        hasPassword: {
+            type: Boolean,
+            default: true
+        },
         role: {
             type: String,
-            enum: ['admin', 'user', 'student', 'visitor'],
+            enum: USER_ROLES,
             default: 'visitor',
         },
         firstName: {
@@ -139,9 +156,41 @@ const UserSchema = new Schema<IUser>(
             default: 0
         },
         lockUntil: Date,
-        refreshTokens: [{
-            type: String
-        }],
+        calendarFeedToken: {
+            type: String,
+            index: { unique: true, sparse: true }
+        },
+        referralCode: {
+            type: String,
+            uppercase: true,
+            trim: true,
+            index: { unique: true, sparse: true }
+        },
+        // TOTP two-factor authentication; secrets are only loaded when explicitly selected
+        twoFactor: {
+            enabled: {
+                type: Boolean,
+                default: false
+            },
+            secret: {
+                type: String,
+                select: false
+            },
+            pendingSecret: {
+                type: String,
+                select: false
+            },
+            recoveryCodes: {
+                type: [String],
+                default: [],
+                select: false
+            },
+            enabledAt: Date,
+            lastUsedStep: {
+                type: Number,
+                select: false
+            }
+        },
         // Privacy and visibility settings
         profileVisibility: {
             type: String,
@@ -211,6 +260,10 @@ const UserSchema = new Schema<IUser>(
                 delete (ret as any).passwordResetToken;
                 delete (ret as any).passwordResetExpires;
                 delete (ret as any).refreshTokens;
+                delete (ret as any).calendarFeedToken;
+                if (ret.twoFactor) {
+                    (ret as any).twoFactor = { enabled: ret.twoFactor.enabled, enabledAt: ret.twoFactor.enabledAt };
+                }
                 return ret;
             }
         }
@@ -0,0 +1,75 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing an account at a social sign-in provider linked to a
+ * user. A provider account can only be linked to one user.
+ */
+export interface IUserIdentity extends Document {
+    userId: Schema.Types.ObjectId;
+    provider: string;
+    subject: string; // the provider's id for the account
+    email?: string;
+    emailVerified: boolean;
+    displayName?: string;
+    avatarUrl?: string;
+    lastLoginAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const UserIdentitySchema = new Schema<IUserIdentity>(
+    {
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        provider: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        subject: {
+            type: String,
+            required: true
+        },
+        email: {
+            type: String,
+            lowercase: true,
+            trim: true
+        },
+        emailVerified: {
+            type: Boolean,
+            default: false
+        },
+        displayName: {
+            type: String,
+            trim: true,
+            maxlength: 200
+        },
+        avatarUrl: {
+            type: String,
+            trim: true
+        },
+        lastLoginAt: {
+            type: Date
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+UserIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+UserIdentitySchema.index({ userId: 1, provider: 1 }, { unique: true });
+
+export default model<IUserIdentity>('UserIdentity', UserIdentitySchema);
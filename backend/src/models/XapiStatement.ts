@@ -0,0 +1,74 @@
+import { Schema, model, Document } from 'mongoose';
+
+/**
+ * Interface representing an xAPI Statement document in MongoDB.
+ * Statements sent by a lesson's xAPI package are kept as received, with the
+ * fields needed to find them again.
+ */
+export interface IXapiStatement extends Document {
+    statementId: string; // xAPI statement id (UUID)
+    studentId: Schema.Types.ObjectId;
+    programmeId: Schema.Types.ObjectId;
+    lessonId: Schema.Types.ObjectId;
+    verb: string; // verb IRI
+    objectId?: string; // activity IRI, when the object is an activity
+    statement: Record<string, any>;
+    timestamp: Date;
+    stored: Date;
+}
+
+const XapiStatementSchema = new Schema<IXapiStatement>(
+    {
+        statementId: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        studentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        programmeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Programme',
+            required: true
+        },
+        lessonId: {
+            type: Schema.Types.ObjectId,
+            ref: 'ProgrammeLesson',
+            required: true
+        },
+        verb: {
+            type: String,
+            required: true
+        },
+        objectId: String,
+        statement: {
+            type: Schema.Types.Mixed,
+            required: true
+        },
+        timestamp: {
+            type: Date,
+            required: true
+        },
+        stored: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    {
+        toJSON: {
+            transform: function(doc, ret) {
+                ret.id = ret._id;
+                delete (ret as any)._id;
+                delete (ret as any).__v;
+                return ret;
+            }
+        }
+    }
+);
+
+XapiStatementSchema.index({ studentId: 1, lessonId: 1, timestamp: -1 });
+
+export default model<IXapiStatement>('XapiStatement', XapiStatementSchema);
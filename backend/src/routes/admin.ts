@@ -1,6 +1,6 @@
 import express from 'express';
 import { authenticateJWT } from '../middleware/auth';
-import { authorizeRoles } from '../middleware/roles';
+import { requirePermission, fromParam, fromQuery, fromBody } from '../middleware/permissions';
 import {
   createCourse,
   getAllCourses,
@@ -25,32 +25,106 @@ import {
   deleteLesson,
   toggleModuleStatus
 } from '../controllers/adminController';
+import {
+  createAssignment,
+  getAssignments,
+  updateAssignment,
+  deleteAssignment,
+  getAssignmentSubmissions,
+  gradeSubmission
+} from '../controllers/assignmentController';
+import {
+  createLiveSession,
+  getLiveSessions,
+  updateLiveSession,
+  deleteLiveSession,
+  markLiveSessionAttendance
+} from '../controllers/liveSessionController';
+import { uploadCoursePackage, exportCoursePackage, importCoursePackage } from '../controllers/coursePackageController';
+import { uploadLessonPackageFile, uploadLessonPackage, deleteLessonPackage } from '../controllers/lessonPackageController';
+import {
+  publishContent,
+  scheduleContentPublish,
+  cancelScheduledPublish,
+  discardContentDraft,
+  getContentVersions,
+  getContentDiff,
+  getContentVersion,
+  rollbackContent
+} from '../controllers/contentVersionController';
+import { getPlatformSettings, updatePlatformSettings } from '../controllers/settingsController';
+import { getOutboundMessages, replayOutboundMessage } from '../controllers/notificationDeliveryController';
 import { body, param, query } from 'express-validator';
+import {
+  getBadges,
+  createBadge,
+  updateBadge,
+  deleteBadge,
+  evaluateStudentBadges
+} from '../controllers/badgeController';
+import {
+  getSupportQueue,
+  getSupportTicket,
+  updateSupportTicket,
+  replySupportTicket,
+  getAllFaqs,
+  createFaq,
+  updateFaq,
+  deleteFaq
+} from '../controllers/supportController';
+import { getPaymentOrders, refundPaymentOrder } from '../controllers/paymentController';
+import {
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  getCouponRedemptions
+} from '../controllers/couponController';
+import {
+  getQuestionBankItems,
+  getQuestionBankTags,
+  createQuestionBankItem,
+  updateQuestionBankItem,
+  deleteQuestionBankItem
+} from '../controllers/questionBankController';
+import {
+  getGradingQueue,
+  getAttemptForGrading,
+  gradeQuizAttempt
+} from '../controllers/quizGradingController';
+import { BADGE_METRICS } from '../models/Badge';
+import { SUPPORT_CATEGORIES } from '../models/SupportTicket';
+import { PAYMENT_ORDER_STATUSES } from '../models/PaymentOrder';
+import { COUPON_DISCOUNT_TYPES } from '../models/Coupon';
+import { QUESTION_TYPES, QUESTION_DIFFICULTIES } from '../models/QuestionBankItem';
+import { OUTBOUND_CHANNELS, OUTBOUND_MESSAGE_STATUSES } from '../models/OutboundMessage';
 import { handleValidationErrors } from '../middleware/validation';
 
 const router = express.Router();
 
-// Apply authentication and admin authorization to all routes
+// Apply authentication to all routes. Each route checks its own permission:
+// admins hold all of them, instructors only some, for their own programmes.
 router.use(authenticateJWT);
-router.use(authorizeRoles('admin'));
 
 /**
  * @route   GET /api/admin/dashboard/stats
  * @desc    Get comprehensive dashboard statistics
  * @access  Admin only
  */
-router.get('/dashboard/stats', getDashboardStats);
+router.get('/dashboard/stats', requirePermission('reports:view'), getDashboardStats);
 
 /**
  * @route   POST /api/admin/courses
  * @desc    Create a new course
  * @access  Admin only
  */
-router.post('/courses', [
+router.post('/courses', requirePermission('courses:manage'), [
   body('title').trim().isLength({ min: 1, max: 200 }).withMessage('Title is required and must be less than 200 characters'),
   body('description').trim().isLength({ min: 1, max: 1000 }).withMessage('Description is required and must be less than 1000 characters'),
   body('category').isIn(['AI_CERTIFICATE', 'DATA_CERTIFICATION', 'PROFESSIONAL_SKILLS', 'TECHNICAL_SKILLS']).withMessage('Invalid category'),
   body('instructor').trim().isLength({ min: 1, max: 100 }).withMessage('Instructor is required and must be less than 100 characters'),
+  body('instructorIds').optional().isArray().withMessage('instructorIds must be an array'),
+  body('instructorIds.*').isMongoId().withMessage('Invalid instructor ID'),
   body('duration').optional().trim().isLength({ max: 100 }),
   body('timeframe').optional().trim().isLength({ max: 100 }),
   body('level').optional().isIn(['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'ALL_LEVELS']).withMessage('Invalid level'),
@@ -68,19 +142,29 @@ router.post('/courses', [
   handleValidationErrors
 ], createCourse);
 
+/**
+ * @route   POST /api/admin/courses/import
+ * @desc    Create or update a course from a package (JSON body, or a .json/.zip file in `package`)
+ * @access  Admin only
+ */
+router.post('/courses/import', requirePermission('courses:manage'), uploadCoursePackage, [
+  query('dryRun').optional().isBoolean().withMessage('dryRun must be true or false'),
+  handleValidationErrors
+], importCoursePackage);
+
 /**
  * @route   GET /api/admin/courses/stats
  * @desc    Get overall course statistics for dashboard
  * @access  Admin only
  */
-router.get('/courses/stats', getOverallCourseStats);
+router.get('/courses/stats', requirePermission('reports:view'), getOverallCourseStats);
 
 /**
  * @route   GET /api/admin/courses
  * @desc    Get all courses with pagination and filtering
- * @access  Admin only
+ * @access  Admin, or instructors (their assigned courses only)
  */
-router.get('/courses', [
+router.get('/courses', requirePermission('courses:view'), [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term must be less than 100 characters'),
@@ -93,24 +177,37 @@ router.get('/courses', [
 /**
  * @route   GET /api/admin/courses/:id
  * @desc    Get course by ID with full details
- * @access  Admin only
+ * @access  Admin, or the course's instructors
  */
-router.get('/courses/:id', [
+router.get('/courses/:id', requirePermission('courses:view', fromParam('programme')), [
   param('id').isMongoId().withMessage('Invalid course ID'),
   handleValidationErrors
 ], getCourseById);
 
+/**
+ * @route   GET /api/admin/courses/:id/export
+ * @desc    Download a course with its modules and lessons as a package
+ * @access  Admin, or the course's instructors
+ */
+router.get('/courses/:id/export', requirePermission('content:manage', fromParam('programme')), [
+  param('id').isMongoId().withMessage('Invalid course ID'),
+  query('format').optional().isIn(['json', 'zip']).withMessage('Format must be json or zip'),
+  handleValidationErrors
+], exportCoursePackage);
+
 /**
  * @route   PUT /api/admin/courses/:id
  * @desc    Update course
  * @access  Admin only
  */
-router.put('/courses/:id', [
+router.put('/courses/:id', requirePermission('courses:manage'), [
   param('id').isMongoId().withMessage('Invalid course ID'),
   body('title').optional().trim().isLength({ min: 1, max: 200 }).withMessage('Title must be less than 200 characters'),
   body('description').optional().trim().isLength({ min: 1, max: 1000 }).withMessage('Description must be less than 1000 characters'),
   body('category').optional().isIn(['AI_CERTIFICATE', 'DATA_CERTIFICATION', 'PROFESSIONAL_SKILLS', 'TECHNICAL_SKILLS']).withMessage('Invalid category'),
   body('instructor').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Instructor must be less than 100 characters'),
+  body('instructorIds').optional().isArray().withMessage('instructorIds must be an array'),
+  body('instructorIds.*').isMongoId().withMessage('Invalid instructor ID'),
   body('duration').optional().trim().isLength({ max: 100 }),
   body('timeframe').optional().trim().isLength({ max: 100 }),
   body('level').optional().isIn(['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'ALL_LEVELS']).withMessage('Invalid level'),
@@ -133,7 +230,7 @@ router.put('/courses/:id', [
  * @desc    Delete course
  * @access  Admin only
  */
-router.delete('/courses/:id', [
+router.delete('/courses/:id', requirePermission('courses:manage'), [
   param('id').isMongoId().withMessage('Invalid course ID'),
   handleValidationErrors
 ], deleteCourse);
@@ -143,7 +240,7 @@ router.delete('/courses/:id', [
  * @desc    Toggle course status (active/inactive)
  * @access  Admin only
  */
-router.patch('/courses/:id/toggle-status', [
+router.patch('/courses/:id/toggle-status', requirePermission('courses:manage'), [
   param('id').isMongoId().withMessage('Invalid course ID'),
   handleValidationErrors
 ], toggleCourseStatus);
@@ -151,44 +248,438 @@ router.patch('/courses/:id/toggle-status', [
 /**
  * @route   GET /api/admin/courses/:id/stats
  * @desc    Get course statistics
- * @access  Admin only
+ * @access  Admin, or the course's instructors
  */
-router.get('/courses/:id/stats', [
+router.get('/courses/:id/stats', requirePermission('analytics:view', fromParam('programme')), [
   param('id').isMongoId().withMessage('Invalid course ID'),
   handleValidationErrors
 ], getCourseStats);
 
 /**
- * MODULE CRUD (Admin)
+ * MODULE CRUD (Admin, and instructors for their assigned programmes)
+ */
+router.post('/modules', requirePermission('content:manage', fromBody('programme', 'programmeId')), createModule);
+router.get('/modules', requirePermission('content:manage', fromQuery('programme', 'programmeId')), getModulesByProgramme); // ?programmeId=...
+router.get('/modules/:id', requirePermission('content:manage', fromParam('module')), getModuleById);
+router.put('/modules/:id', requirePermission('content:manage', fromParam('module'), fromBody('programme', 'programmeId')), updateModule);
+router.delete('/modules/:id', requirePermission('content:manage', fromParam('module')), deleteModule);
+router.patch('/modules/:id/toggle-status', requirePermission('content:manage', fromParam('module')), toggleModuleStatus);
+
+/**
+ * MODULE PUBLISHING AND VERSION HISTORY
+ * Edits to a published module are a draft until published; each publish is a new version.
+ */
+const moduleIdParam = param('id').isMongoId().withMessage('Invalid module ID');
+const moduleVersionParam = param('version').isInt({ min: 1 }).withMessage('Version must be a positive number');
+
+router.post('/modules/:id/publish', requirePermission('content:manage', fromParam('module')), [
+  moduleIdParam,
+  body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('Note must be less than 500 characters'),
+  handleValidationErrors
+], publishContent('module'));
+router.put('/modules/:id/schedule', requirePermission('content:manage', fromParam('module')), [
+  moduleIdParam,
+  body('publishAt').isISO8601().withMessage('publishAt must be an ISO 8601 date'),
+  handleValidationErrors
+], scheduleContentPublish('module'));
+router.delete('/modules/:id/schedule', requirePermission('content:manage', fromParam('module')), [moduleIdParam, handleValidationErrors], cancelScheduledPublish('module'));
+router.delete('/modules/:id/draft', requirePermission('content:manage', fromParam('module')), [moduleIdParam, handleValidationErrors], discardContentDraft('module'));
+router.get('/modules/:id/versions', requirePermission('content:manage', fromParam('module')), [moduleIdParam, handleValidationErrors], getContentVersions('module'));
+router.get('/modules/:id/versions/diff', requirePermission('content:manage', fromParam('module')), [
+  moduleIdParam,
+  query(['from', 'to']).optional().matches(/^([1-9]\d*|published|draft)$/).withMessage('Must be a version number, published or draft'),
+  handleValidationErrors
+], getContentDiff('module')); // ?from=3&to=draft
+router.get('/modules/:id/versions/:version', requirePermission('content:manage', fromParam('module')), [moduleIdParam, moduleVersionParam, handleValidationErrors], getContentVersion('module'));
+router.post('/modules/:id/versions/:version/rollback', requirePermission('content:manage', fromParam('module')), [moduleIdParam, moduleVersionParam, handleValidationErrors], rollbackContent('module'));
+
+/**
+ * LESSON CRUD (Admin, and instructors for their assigned programmes)
+ */
+router.post('/lessons', requirePermission('content:manage', fromBody('module', 'moduleId'), fromBody('programme', 'programmeId')), createLesson);
+router.get('/lessons', requirePermission('content:manage', fromQuery('module', 'moduleId')), getLessonsByModule); // ?moduleId=...
+router.get('/lessons/:id', requirePermission('content:manage', fromParam('lesson')), getLessonById);
+router.put('/lessons/:id', requirePermission('content:manage', fromParam('lesson'), fromBody('module', 'moduleId'), fromBody('programme', 'programmeId')), updateLesson);
+router.delete('/lessons/:id', requirePermission('content:manage', fromParam('lesson')), deleteLesson);
+
+/**
+ * @route   POST /api/admin/lessons/:id/package
+ * @desc    Upload a SCORM 1.2 or xAPI ZIP package as the lesson's content (multipart field `package`)
+ * @access  Admin
  */
-router.post('/modules', createModule);
-router.get('/modules', getModulesByProgramme); // ?programmeId=...
-router.get('/modules/:id', getModuleById);
-router.put('/modules/:id', updateModule);
-router.delete('/modules/:id', deleteModule);
-router.patch('/modules/:id/toggle-status', toggleModuleStatus);
+router.post('/lessons/:id/package', requirePermission('lesson-packages:manage'), uploadLessonPackageFile, [
+  param('id').isMongoId().withMessage('Invalid lesson ID'),
+  handleValidationErrors
+], uploadLessonPackage);
 
 /**
- * LESSON CRUD (Admin)
+ * @route   DELETE /api/admin/lessons/:id/package
+ * @desc    Remove the lesson's SCORM/xAPI package and its files
+ * @access  Admin
  */
-router.post('/lessons', createLesson);
-router.get('/lessons', getLessonsByModule); // ?moduleId=...
-router.get('/lessons/:id', getLessonById);
-router.put('/lessons/:id', updateLesson);
-router.delete('/lessons/:id', deleteLesson);
+router.delete('/lessons/:id/package', requirePermission('lesson-packages:manage'), [
+  param('id').isMongoId().withMessage('Invalid lesson ID'),
+  handleValidationErrors
+], deleteLessonPackage);
+
+/**
+ * LESSON PUBLISHING AND VERSION HISTORY
+ * Edits to a published lesson are a draft until published; each publish is a new version.
+ */
+const lessonIdParam = param('id').isMongoId().withMessage('Invalid lesson ID');
+const lessonVersionParam = param('version').isInt({ min: 1 }).withMessage('Version must be a positive number');
+
+router.post('/lessons/:id/publish', requirePermission('content:manage', fromParam('lesson')), [
+  lessonIdParam,
+  body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('Note must be less than 500 characters'),
+  handleValidationErrors
+], publishContent('lesson'));
+router.put('/lessons/:id/schedule', requirePermission('content:manage', fromParam('lesson')), [
+  lessonIdParam,
+  body('publishAt').isISO8601().withMessage('publishAt must be an ISO 8601 date'),
+  handleValidationErrors
+], scheduleContentPublish('lesson'));
+router.delete('/lessons/:id/schedule', requirePermission('content:manage', fromParam('lesson')), [lessonIdParam, handleValidationErrors], cancelScheduledPublish('lesson'));
+router.delete('/lessons/:id/draft', requirePermission('content:manage', fromParam('lesson')), [lessonIdParam, handleValidationErrors], discardContentDraft('lesson'));
+router.get('/lessons/:id/versions', requirePermission('content:manage', fromParam('lesson')), [lessonIdParam, handleValidationErrors], getContentVersions('lesson'));
+router.get('/lessons/:id/versions/diff', requirePermission('content:manage', fromParam('lesson')), [
+  lessonIdParam,
+  query(['from', 'to']).optional().matches(/^([1-9]\d*|published|draft)$/).withMessage('Must be a version number, published or draft'),
+  handleValidationErrors
+], getContentDiff('lesson')); // ?from=3&to=draft
+router.get('/lessons/:id/versions/:version', requirePermission('content:manage', fromParam('lesson')), [lessonIdParam, lessonVersionParam, handleValidationErrors], getContentVersion('lesson'));
+router.post('/lessons/:id/versions/:version/rollback', requirePermission('content:manage', fromParam('lesson')), [lessonIdParam, lessonVersionParam, handleValidationErrors], rollbackContent('lesson'));
+
+/**
+ * PLATFORM SETTINGS (Admin)
+ */
+router.get('/settings', requirePermission('settings:manage'), getPlatformSettings);
+router.put('/settings', requirePermission('settings:manage'), [
+  body('siteName').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Site name must be 1-100 characters'),
+  body('siteDescription').optional().trim().isLength({ max: 500 }).withMessage('Site description must be less than 500 characters'),
+  body('contactEmail').optional().isEmail().withMessage('Contact email must be a valid email'),
+  body('supportEmail').optional().isEmail().withMessage('Support email must be a valid email'),
+  body('maxFileSize').optional().isInt({ min: 1, max: 100 }).withMessage('Max file size must be between 1 and 100 MB'),
+  body('allowedFileTypes').optional().isArray({ min: 1 }).withMessage('Allowed file types must be a non-empty array'),
+  body('allowedFileTypes.*').optional().isString().matches(/^\.?[a-zA-Z0-9]+$/).withMessage('File types must be extensions such as pdf or .png'),
+  body('enableRegistration').optional().isBoolean().withMessage('enableRegistration must be a boolean'),
+  body('requireEmailVerification').optional().isBoolean().withMessage('requireEmailVerification must be a boolean'),
+  body('enableDiscordIntegration').optional().isBoolean().withMessage('enableDiscordIntegration must be a boolean'),
+  body('enableAnalytics').optional().isBoolean().withMessage('enableAnalytics must be a boolean'),
+  body('maintenanceMode').optional().isBoolean().withMessage('maintenanceMode must be a boolean'),
+  body('requireAdminTwoFactor').optional().isBoolean().withMessage('requireAdminTwoFactor must be a boolean'),
+  body('defaultUserRole').optional().isIn(['user', 'student', 'visitor']).withMessage('Default role must be user, student, or visitor'),
+  handleValidationErrors
+], updatePlatformSettings);
+
+/**
+ * NOTIFICATION DELIVERIES (Admin)
+ */
+router.get('/notifications/deliveries', requirePermission('notifications:manage'), [
+  query('status').optional().isIn([...OUTBOUND_MESSAGE_STATUSES]).withMessage('Invalid status'),
+  query('channel').optional().isIn([...OUTBOUND_CHANNELS]).withMessage('Invalid channel'),
+  handleValidationErrors
+], getOutboundMessages);
+router.post('/notifications/deliveries/:id/replay', requirePermission('notifications:manage'), [
+  param('id').isMongoId().withMessage('Invalid message ID'),
+  handleValidationErrors
+], replayOutboundMessage);
+
+/**
+ * ASSIGNMENT CRUD AND GRADING (Admin)
+ */
+router.post('/assignments', requirePermission('assignments:manage'), [
+  body('lessonId').isMongoId().withMessage('Invalid lesson ID'),
+  body('title').trim().isLength({ min: 1, max: 200 }).withMessage('Title is required and must be less than 200 characters'),
+  body('description').trim().isLength({ min: 1, max: 2000 }).withMessage('Description is required and must be less than 2000 characters'),
+  body('dueDate').isISO8601().withMessage('Due date must be a valid date'),
+  body('maxScore').optional().isFloat({ min: 1 }).withMessage('Max score must be at least 1'),
+  body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH']).withMessage('Invalid priority'),
+  body('submissionTypes').optional().isArray({ min: 1 }).withMessage('Submission types must be a non-empty array'),
+  body('rubric').optional().isArray().withMessage('Rubric must be an array'),
+  handleValidationErrors
+], createAssignment);
+router.get('/assignments', requirePermission('assignments:manage'), getAssignments); // ?programmeId=...&lessonId=...
+router.put('/assignments/:id', requirePermission('assignments:manage'), [
+  param('id').isMongoId().withMessage('Invalid assignment ID'),
+  body('dueDate').optional().isISO8601().withMessage('Due date must be a valid date'),
+  body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH']).withMessage('Invalid priority'),
+  handleValidationErrors
+], updateAssignment);
+router.delete('/assignments/:id', requirePermission('assignments:manage'), [
+  param('id').isMongoId().withMessage('Invalid assignment ID'),
+  handleValidationErrors
+], deleteAssignment);
+router.get('/assignments/:id/submissions', requirePermission('assignments:manage'), [
+  param('id').isMongoId().withMessage('Invalid assignment ID'),
+  handleValidationErrors
+], getAssignmentSubmissions);
+router.put('/assignment-submissions/:submissionId/grade', requirePermission('assignments:manage'), [
+  param('submissionId').isMongoId().withMessage('Invalid submission ID'),
+  body('score').optional().isFloat({ min: 0 }).withMessage('Score must be a positive number'),
+  body('rubricScores').optional().isArray().withMessage('Rubric scores must be an array'),
+  body('feedback').optional().trim().isLength({ max: 5000 }).withMessage('Feedback must be less than 5000 characters'),
+  handleValidationErrors
+], gradeSubmission);
+
+/**
+ * LIVE SESSION SCHEDULING (Admin)
+ */
+router.post('/live-sessions', requirePermission('live-sessions:manage'), [
+  body('programmeId').isMongoId().withMessage('Invalid programme ID'),
+  body('moduleId').optional().isMongoId().withMessage('Invalid module ID'),
+  body('title').trim().isLength({ min: 1, max: 200 }).withMessage('Title is required and must be less than 200 characters'),
+  body('instructor').trim().isLength({ min: 1, max: 100 }).withMessage('Instructor is required'),
+  body('startTime').isISO8601().withMessage('Start time must be a valid date'),
+  body('endTime').isISO8601().withMessage('End time must be a valid date'),
+  body('platform').optional().isIn(['zoom', 'other']).withMessage('Invalid platform'),
+  body('meetingLink').optional().isURL().withMessage('Meeting link must be a valid URL'),
+  body('maxParticipants').optional().isInt({ min: 1 }).withMessage('Max participants must be at least 1'),
+  body('topics').optional().isArray().withMessage('Topics must be an array'),
+  handleValidationErrors
+], createLiveSession);
+router.get('/live-sessions', requirePermission('live-sessions:manage'), getLiveSessions); // ?programmeId=...&from=...&to=...
+router.put('/live-sessions/:id', requirePermission('live-sessions:manage'), [
+  param('id').isMongoId().withMessage('Invalid session ID'),
+  body('startTime').optional().isISO8601().withMessage('Start time must be a valid date'),
+  body('endTime').optional().isISO8601().withMessage('End time must be a valid date'),
+  body('status').optional().isIn(['SCHEDULED', 'CANCELLED']).withMessage('Invalid status'),
+  body('meetingLink').optional().isURL().withMessage('Meeting link must be a valid URL'),
+  body('recordingUrl').optional().isURL().withMessage('Recording URL must be a valid URL'),
+  body('maxParticipants').optional().isInt({ min: 1 }).withMessage('Max participants must be at least 1'),
+  handleValidationErrors
+], updateLiveSession);
+router.delete('/live-sessions/:id', requirePermission('live-sessions:manage'), [
+  param('id').isMongoId().withMessage('Invalid session ID'),
+  handleValidationErrors
+], deleteLiveSession);
+router.post('/live-sessions/:id/attendance', requirePermission('live-sessions:manage'), [
+  param('id').isMongoId().withMessage('Invalid session ID'),
+  body('attendees').isArray({ min: 1 }).withMessage('Attendees must be a non-empty array'),
+  body('attendees.*.studentId').isMongoId().withMessage('Invalid student ID'),
+  body('attendees.*.minutesAttended').optional().isFloat({ min: 0 }).withMessage('Minutes attended must be a positive number'),
+  handleValidationErrors
+], markLiveSessionAttendance);
+
+/**
+ * BADGE RULES (Admin)
+ */
+const BADGE_CATEGORIES = ['COMPLETION', 'ACHIEVEMENT', 'PARTICIPATION', 'STREAK'];
+
+router.get('/badges', requirePermission('badges:manage'), getBadges); // ?isActive=true|false
+router.post('/badges', requirePermission('badges:manage'), [
+  body('badgeId').trim().matches(/^[a-zA-Z0-9-]+$/).isLength({ max: 64 }).withMessage('Badge ID may only contain letters, numbers and hyphens'),
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Name is required and must be less than 100 characters'),
+  body('description').trim().isLength({ min: 1, max: 500 }).withMessage('Description is required and must be less than 500 characters'),
+  body('category').isIn(BADGE_CATEGORIES).withMessage('Invalid badge category'),
+  body('points').optional().isInt({ min: 0 }).withMessage('Points must be a positive integer'),
+  body('rule.metric').isIn([...BADGE_METRICS]).withMessage('Invalid badge metric'),
+  body('rule.threshold').isInt({ min: 1 }).withMessage('Threshold must be at least 1'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  handleValidationErrors
+], createBadge);
+router.put('/badges/:id', requirePermission('badges:manage'), [
+  param('id').isMongoId().withMessage('Invalid badge ID'),
+  body('name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be less than 100 characters'),
+  body('description').optional().trim().isLength({ min: 1, max: 500 }).withMessage('Description must be less than 500 characters'),
+  body('category').optional().isIn(BADGE_CATEGORIES).withMessage('Invalid badge category'),
+  body('points').optional().isInt({ min: 0 }).withMessage('Points must be a positive integer'),
+  body('rule.metric').optional().isIn([...BADGE_METRICS]).withMessage('Invalid badge metric'),
+  body('rule.threshold').optional().isInt({ min: 1 }).withMessage('Threshold must be at least 1'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  handleValidationErrors
+], updateBadge);
+router.delete('/badges/:id', requirePermission('badges:manage'), [
+  param('id').isMongoId().withMessage('Invalid badge ID'),
+  handleValidationErrors
+], deleteBadge);
+router.post('/badges/evaluate/:studentId', requirePermission('badges:manage'), [
+  param('studentId').isMongoId().withMessage('Invalid student ID'),
+  handleValidationErrors
+], evaluateStudentBadges);
+
+/**
+ * SUPPORT TICKETS AND FAQ (Admin)
+ */
+const TICKET_STATUSES = ['OPEN', 'PENDING', 'RESOLVED', 'CLOSED'];
+const TICKET_PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+router.get('/support/tickets', requirePermission('support:manage'), [
+  query('status').optional().isIn(TICKET_STATUSES).withMessage('Invalid status'),
+  query('priority').optional().isIn(TICKET_PRIORITIES).withMessage('Invalid priority'),
+  query('category').optional().isIn([...SUPPORT_CATEGORIES]).withMessage('Invalid category'),
+  handleValidationErrors
+], getSupportQueue);
+router.get('/support/tickets/:id', requirePermission('support:manage'), [
+  param('id').isMongoId().withMessage('Invalid ticket ID'),
+  handleValidationErrors
+], getSupportTicket);
+router.put('/support/tickets/:id', requirePermission('support:manage'), [
+  param('id').isMongoId().withMessage('Invalid ticket ID'),
+  body('status').optional().isIn(TICKET_STATUSES).withMessage('Invalid status'),
+  body('priority').optional().isIn(TICKET_PRIORITIES).withMessage('Invalid priority'),
+  body('assignedTo').optional({ nullable: true }).isMongoId().withMessage('Invalid assignee ID'),
+  handleValidationErrors
+], updateSupportTicket);
+router.post('/support/tickets/:id/messages', requirePermission('support:manage'), [
+  param('id').isMongoId().withMessage('Invalid ticket ID'),
+  body('message').trim().isLength({ min: 1, max: 5000 }).withMessage('Message is required and must be less than 5000 characters'),
+  body('status').optional().isIn(TICKET_STATUSES).withMessage('Invalid status'),
+  handleValidationErrors
+], replySupportTicket);
+router.get('/faqs', requirePermission('support:manage'), getAllFaqs);
+router.post('/faqs', requirePermission('support:manage'), [
+  body('question').trim().isLength({ min: 1, max: 300 }).withMessage('Question is required and must be less than 300 characters'),
+  body('answer').trim().isLength({ min: 1, max: 5000 }).withMessage('Answer is required and must be less than 5000 characters'),
+  body('category').optional().isIn([...SUPPORT_CATEGORIES]).withMessage('Invalid category'),
+  body('order').optional().isInt().withMessage('Order must be an integer'),
+  body('isPublished').optional().isBoolean().withMessage('isPublished must be a boolean'),
+  handleValidationErrors
+], createFaq);
+router.put('/faqs/:id', requirePermission('support:manage'), [
+  param('id').isMongoId().withMessage('Invalid FAQ ID'),
+  body('question').optional().trim().isLength({ min: 1, max: 300 }).withMessage('Question must be less than 300 characters'),
+  body('answer').optional().trim().isLength({ min: 1, max: 5000 }).withMessage('Answer must be less than 5000 characters'),
+  body('category').optional().isIn([...SUPPORT_CATEGORIES]).withMessage('Invalid category'),
+  body('order').optional().isInt().withMessage('Order must be an integer'),
+  body('isPublished').optional().isBoolean().withMessage('isPublished must be a boolean'),
+  handleValidationErrors
+], updateFaq);
+router.delete('/faqs/:id', requirePermission('support:manage'), [
+  param('id').isMongoId().withMessage('Invalid FAQ ID'),
+  handleValidationErrors
+], deleteFaq);
+
+/**
+ * PAYMENTS (Admin)
+ */
+router.get('/payments/orders', requirePermission('payments:manage'), [
+  query('status').optional().isIn([...PAYMENT_ORDER_STATUSES]).withMessage('Invalid status'),
+  query('studentId').optional().isMongoId().withMessage('Invalid student ID'),
+  query('programmeId').optional().isMongoId().withMessage('Invalid programme ID'),
+  handleValidationErrors
+], getPaymentOrders);
+router.post('/payments/orders/:id/refund', requirePermission('payments:manage'), [
+  param('id').isMongoId().withMessage('Invalid order ID'),
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason must be less than 500 characters'),
+  handleValidationErrors
+], refundPaymentOrder);
+
+/**
+ * COUPONS (Admin)
+ */
+const couponFieldValidators = [
+  body('description').optional().trim().isLength({ max: 500 }).withMessage('Description must be less than 500 characters'),
+  body('currency').optional({ nullable: true }).trim().isLength({ min: 3, max: 3 }).withMessage('Currency must be a 3-letter code'),
+  body('programmeIds').optional().isArray().withMessage('programmeIds must be an array'),
+  body('programmeIds.*').isMongoId().withMessage('Invalid programme ID'),
+  body('validFrom').optional({ nullable: true }).isISO8601().withMessage('validFrom must be a date'),
+  body('expiresAt').optional({ nullable: true }).isISO8601().withMessage('expiresAt must be a date'),
+  body('maxRedemptions').optional({ nullable: true }).isInt({ min: 1 }).withMessage('maxRedemptions must be at least 1'),
+  body('maxRedemptionsPerStudent').optional().isInt({ min: 1 }).withMessage('maxRedemptionsPerStudent must be at least 1'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean')
+];
+
+router.get('/coupons', requirePermission('payments:manage'), getCoupons); // ?isActive=true|false&search=
+router.post('/coupons', requirePermission('payments:manage'), [
+  body('code').trim().matches(/^[A-Za-z0-9_-]{3,32}$/).withMessage('Code must be 3-32 letters, digits, dashes or underscores'),
+  body('discountType').isIn([...COUPON_DISCOUNT_TYPES]).withMessage('Invalid discount type'),
+  body('discountValue').isFloat({ min: 0 }).withMessage('Discount value must be a positive number'),
+  ...couponFieldValidators,
+  handleValidationErrors
+], createCoupon);
+router.put('/coupons/:id', requirePermission('payments:manage'), [
+  param('id').isMongoId().withMessage('Invalid coupon ID'),
+  body('discountType').optional().isIn([...COUPON_DISCOUNT_TYPES]).withMessage('Invalid discount type'),
+  body('discountValue').optional().isFloat({ min: 0 }).withMessage('Discount value must be a positive number'),
+  ...couponFieldValidators,
+  handleValidationErrors
+], updateCoupon);
+router.delete('/coupons/:id', requirePermission('payments:manage'), [
+  param('id').isMongoId().withMessage('Invalid coupon ID'),
+  handleValidationErrors
+], deleteCoupon);
+router.get('/coupons/:id/redemptions', requirePermission('payments:manage'), [
+  param('id').isMongoId().withMessage('Invalid coupon ID'),
+  handleValidationErrors
+], getCouponRedemptions);
+
+/**
+ * QUESTION BANK (Admin)
+ */
+const questionFieldValidators = [
+  body('options').optional().isArray().withMessage('Options must be an array'),
+  body('acceptedAnswers').optional().isArray().withMessage('Accepted answers must be an array'),
+  body('tolerance').optional().isFloat({ min: 0 }).withMessage('Tolerance must be a positive number'),
+  body('partialCredit').optional().isBoolean().withMessage('partialCredit must be a boolean'),
+  body('explanation').optional().trim().isLength({ max: 2000 }).withMessage('Explanation must be less than 2000 characters'),
+  body('tags').optional().isArray({ max: 20 }).withMessage('Tags must be an array of at most 20 entries'),
+  body('tags.*').isString().trim().isLength({ min: 1, max: 50 }).withMessage('Tags must be 1-50 characters'),
+  body('difficulty').optional().isIn([...QUESTION_DIFFICULTIES]).withMessage('Invalid difficulty'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean')
+];
+
+router.get('/question-bank', requirePermission('question-bank:manage'), [
+  query('type').optional().isIn([...QUESTION_TYPES]).withMessage('Invalid question type'),
+  query('difficulty').optional().isIn([...QUESTION_DIFFICULTIES]).withMessage('Invalid difficulty'),
+  handleValidationErrors
+], getQuestionBankItems);
+// Quiz editors pick question pools by tag
+router.get('/question-bank/tags', requirePermission('quizzes:manage'), getQuestionBankTags);
+router.post('/question-bank', requirePermission('question-bank:manage'), [
+  body('question').trim().isLength({ min: 1, max: 2000 }).withMessage('Question text is required and must be less than 2000 characters'),
+  body('type').isIn([...QUESTION_TYPES]).withMessage('Invalid question type'),
+  body('points').isFloat({ min: 0 }).withMessage('Points must be a positive number'),
+  ...questionFieldValidators,
+  handleValidationErrors
+], createQuestionBankItem);
+router.put('/question-bank/:id', requirePermission('question-bank:manage'), [
+  param('id').isMongoId().withMessage('Invalid question ID'),
+  body('question').optional().trim().isLength({ min: 1, max: 2000 }).withMessage('Question text must be less than 2000 characters'),
+  body('type').optional().isIn([...QUESTION_TYPES]).withMessage('Invalid question type'),
+  body('points').optional().isFloat({ min: 0 }).withMessage('Points must be a positive number'),
+  ...questionFieldValidators,
+  handleValidationErrors
+], updateQuestionBankItem);
+router.delete('/question-bank/:id', requirePermission('question-bank:manage'), [
+  param('id').isMongoId().withMessage('Invalid question ID'),
+  handleValidationErrors
+], deleteQuestionBankItem);
+
+/**
+ * QUIZ GRADING (Admin, and instructors for their assigned programmes)
+ */
+router.get('/quiz-grading', requirePermission('quizzes:grade', fromQuery('programme', 'programmeId'), fromQuery('lesson', 'lessonId')), [
+  query('programmeId').optional().isMongoId().withMessage('Invalid programme ID'),
+  query('lessonId').optional().isMongoId().withMessage('Invalid lesson ID'),
+  handleValidationErrors
+], getGradingQueue);
+router.get('/quiz-grading/:attemptId', requirePermission('quizzes:grade', fromParam('quizAttempt', 'attemptId')), [
+  param('attemptId').isMongoId().withMessage('Invalid attempt ID'),
+  handleValidationErrors
+], getAttemptForGrading);
+router.put('/quiz-grading/:attemptId', requirePermission('quizzes:grade', fromParam('quizAttempt', 'attemptId')), [
+  param('attemptId').isMongoId().withMessage('Invalid attempt ID'),
+  body('grades').isArray({ min: 1 }).withMessage('At least one grade is required'),
+  body('grades.*.questionId').isString().notEmpty().withMessage('Each grade needs a question ID'),
+  body('grades.*.pointsAwarded').isFloat({ min: 0 }).withMessage('Points must be a positive number'),
+  body('grades.*.comment').optional().isString().trim().isLength({ max: 2000 }).withMessage('Comments must be less than 2000 characters'),
+  body('feedback').optional().trim().isLength({ max: 1000 }).withMessage('Feedback must be less than 1000 characters'),
+  handleValidationErrors
+], gradeQuizAttempt);
 
 /**
  * @route   GET /api/admin/enrollments/stats
  * @desc    Get enrollment statistics for dashboard
  * @access  Admin only
  */
-router.get('/enrollments/stats', getEnrollmentStats);
+router.get('/enrollments/stats', requirePermission('reports:view'), getEnrollmentStats);
 
 /**
  * @route   GET /api/admin/analytics
  * @desc    Get comprehensive admin analytics data
  * @access  Admin only
  */
-router.get('/analytics', getAdminAnalytics);
+router.get('/analytics', requirePermission('reports:view'), getAdminAnalytics);
 
 export default router; 
\ No newline at end of file
@@ -7,7 +7,8 @@ import {
     getStudentAnalytics,
     getCourseAnalytics,
     getLearningStreak,
-    getAchievements
+    getAchievements,
+    getDashboardAnalytics
 } from '../controllers/analyticsController';
 import { authenticateJWT } from '../middleware/auth';
 
@@ -21,6 +22,7 @@ router.get('/overview', getAnalyticsOverview);
 router.get('/progress-history', getProgressHistory);
 router.get('/category-performance', getCategoryPerformance);
 router.get('/streaks', getStreaksAndAchievements);
+router.get('/dashboard', getDashboardAnalytics);
 
 // Student analytics routes
 router.get('/student', getStudentAnalytics);
@@ -9,14 +9,34 @@ import {
   resetPassword,
   validateResetToken,
   verifyEmail,
-  resendEmailVerification
+  resendEmailVerification,
+  setupTwoFactorLogin,
+  verifyTwoFactorLogin
 } from '../controllers/authController';
+import { getSessions, revokeSession, revokeOtherSessions } from '../controllers/sessionController';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '../controllers/twoFactorController';
+import {
+  getOAuthProviders,
+  startOAuthLogin,
+  startOAuthLink,
+  oauthCallback,
+  getIdentities,
+  unlinkIdentity
+} from '../controllers/oauthController';
 import {
   validateRegistration,
   validateLogin,
   validatePasswordChange,
   validateResetPassword,
   validateForgotPassword,
+  validateTwoFactorCode,
+  validateTwoFactorChallenge,
   handleValidationErrors
 } from '../middleware/validation';
 import { createJWTMiddleware } from '../utils/jwt';
@@ -37,6 +57,62 @@ router.post('/register', ...validateRegistration, register);
  */
 router.post('/login', ...validateLogin, login);
 
+/**
+ * @route   POST /api/auth/login/2fa/setup
+ * @desc    Start the two-factor setup required for the user's role during sign-in
+ * @access  Public (challenge token from /login)
+ */
+router.post('/login/2fa/setup', ...validateTwoFactorChallenge, setupTwoFactorLogin);
+
+/**
+ * @route   POST /api/auth/login/2fa
+ * @desc    Complete sign-in with an authenticator or recovery code
+ * @access  Public (challenge token from /login)
+ */
+router.post('/login/2fa', ...validateTwoFactorChallenge, ...validateTwoFactorCode, verifyTwoFactorLogin);
+
+/**
+ * @route   GET /api/auth/oauth/providers
+ * @desc    List the configured social sign-in providers
+ * @access  Public
+ */
+router.get('/oauth/providers', getOAuthProviders);
+
+/**
+ * @route   GET /api/auth/oauth/:provider/authorize
+ * @desc    Redirect to a provider to sign in
+ * @access  Public
+ */
+router.get('/oauth/:provider/authorize', startOAuthLogin);
+
+/**
+ * @route   GET /api/auth/oauth/:provider/callback
+ * @desc    Provider redirect target; signs in or links the account
+ * @access  Public (state from /authorize or /link)
+ */
+router.get('/oauth/:provider/callback', oauthCallback);
+
+/**
+ * @route   POST /api/auth/oauth/:provider/link
+ * @desc    Get the provider URL that links an account to the user
+ * @access  Private
+ */
+router.post('/oauth/:provider/link', createJWTMiddleware('access'), startOAuthLink);
+
+/**
+ * @route   GET /api/auth/identities
+ * @desc    List the provider accounts linked to the user
+ * @access  Private
+ */
+router.get('/identities', createJWTMiddleware('access'), getIdentities);
+
+/**
+ * @route   DELETE /api/auth/identities/:identityId
+ * @desc    Unlink a provider account
+ * @access  Private
+ */
+router.delete('/identities/:identityId', createJWTMiddleware('access'), unlinkIdentity);
+
 /**
  * @route   POST /api/auth/logout
  * @desc    Logout user and invalidate tokens
@@ -51,6 +127,62 @@ router.post('/logout', createJWTMiddleware('access'), logout);
  */
 router.post('/refresh', refreshToken);
 
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the devices the user is signed in on
+ * @access  Private
+ */
+router.get('/sessions', createJWTMiddleware('access'), getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Sign out of every other device
+ * @access  Private
+ */
+router.delete('/sessions', createJWTMiddleware('access'), revokeOtherSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @desc    Sign out of one device
+ * @access  Private
+ */
+router.delete('/sessions/:sessionId', createJWTMiddleware('access'), revokeSession);
+
+/**
+ * @route   GET /api/auth/2fa
+ * @desc    Get the user's two-factor authentication status
+ * @access  Private
+ */
+router.get('/2fa', createJWTMiddleware('access'), getTwoFactorStatus);
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Generate an authenticator secret and provisioning URI
+ * @access  Private
+ */
+router.post('/2fa/setup', createJWTMiddleware('access'), setupTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Confirm the authenticator with a code and get recovery codes
+ * @access  Private
+ */
+router.post('/2fa/enable', createJWTMiddleware('access'), ...validateTwoFactorCode, enableTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Turn two-factor authentication off
+ * @access  Private
+ */
+router.post('/2fa/disable', createJWTMiddleware('access'), ...validateTwoFactorCode, disableTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Replace the recovery codes
+ * @access  Private
+ */
+router.post('/2fa/recovery-codes', createJWTMiddleware('access'), ...validateTwoFactorCode, regenerateRecoveryCodes);
+
 /**
  * @route   GET /api/auth/me
  * @desc    Get current user profile
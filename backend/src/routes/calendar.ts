@@ -0,0 +1,13 @@
+import express from 'express';
+import { getCalendarFeed } from '../controllers/calendarController';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/calendar/:token.ics
+ * @desc    iCalendar feed of a student's deadlines and live sessions
+ * @access  Public (secret feed token)
+ */
+router.get('/:token.ics', getCalendarFeed);
+
+export default router;
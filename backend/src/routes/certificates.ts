@@ -0,0 +1,48 @@
+import express from 'express';
+import { param } from 'express-validator';
+import { authenticateJWT } from '../middleware/auth';
+import { handleValidationErrors } from '../middleware/validation';
+import {
+  getMyCertificates,
+  claimCertificate,
+  downloadCertificate,
+  verifyCertificate
+} from '../controllers/certificateController';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/certificates/verify/:certificateId
+ * @desc    Verify that a certificate is genuine
+ * @access  Public
+ */
+router.get('/verify/:certificateId', [
+  param('certificateId').trim().isLength({ min: 1, max: 64 }).withMessage('Invalid certificate ID'),
+  handleValidationErrors
+], verifyCertificate);
+
+// All remaining routes require authentication
+router.use(authenticateJWT);
+
+/**
+ * @route   GET /api/certificates
+ * @desc    Get certificates earned by the current student
+ * @access  Private
+ */
+router.get('/', getMyCertificates);
+
+/**
+ * @route   POST /api/certificates/enrollments/:enrollmentId
+ * @desc    Issue the certificate for a completed enrollment
+ * @access  Private (enrollment owner)
+ */
+router.post('/enrollments/:enrollmentId', claimCertificate);
+
+/**
+ * @route   GET /api/certificates/:certificateId/download
+ * @desc    Download a rendered certificate
+ * @access  Private (certificate owner or admin)
+ */
+router.get('/:certificateId/download', downloadCertificate);
+
+export default router;
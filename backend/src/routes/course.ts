@@ -1,5 +1,6 @@
 import express from 'express';
-import { authenticateJWT } from '../middleware/auth';
+import { authenticateJWT, optionalAuthenticateJWT } from '../middleware/auth';
+import { requirePolicy, selfOrAdmin, userFromQuery } from '../middleware/policies';
 import courseController from '../controllers/courseController';
 
 const router = express.Router();
@@ -9,7 +10,7 @@ router.get('/', courseController.getAllCourses);
 router.get('/mapping', courseController.getCourseMapping);
 router.get('/debug', courseController.debugAllCourses);
 router.get('/slug/:slug', courseController.getCourseBySlug);
-router.get('/:courseId', courseController.getCourseById);
+router.get('/:courseId', optionalAuthenticateJWT, requirePolicy(selfOrAdmin(userFromQuery())), courseController.getCourseById);
 
 // Protected routes
 router.get('/student/courses', authenticateJWT, courseController.getStudentCourses);
@@ -12,10 +12,21 @@ import {
   getCourseMapping
 } from '../controllers/courseContentController';
 import { getCourseBySlug, debugAllCourses } from '../controllers/courseController';
-import { authenticateJWT } from '../middleware/auth';
+import { authenticateJWT, optionalAuthenticateJWT } from '../middleware/auth';
+import { fromParam } from '../middleware/permissions';
+import {
+  requirePolicy,
+  selfOrAdmin,
+  enrolledInProgramme,
+  instructorOfProgramme,
+  userFromQuery
+} from '../middleware/policies';
 
 const router = express.Router();
 
+// Public pages only add progress for `?studentId=` when it is the caller's own
+const ownProgress = [optionalAuthenticateJWT, requirePolicy(selfOrAdmin(userFromQuery()))];
+
 /**
  * @route GET /api/courses
  * @desc Get all active courses
@@ -47,57 +58,60 @@ router.get('/slug/:slug', getCourseBySlug);
 /**
  * @route GET /api/course-content/modules/:programmeId
  * @desc Get all modules for a course with progress information
- * @access Public (with optional studentId query param)
+ * @access Public (studentId query param must be the caller's own)
  */
-router.get('/modules/:programmeId', getModulesForCourse);
+router.get('/modules/:programmeId', ...ownProgress, getModulesForCourse);
 
 /**
  * @route GET /api/course-content/lessons/:moduleId
  * @desc Get all lessons for a module with progress information
- * @access Public (with optional studentId query param)
+ * @access Public (studentId query param must be the caller's own)
  */
-router.get('/lessons/:moduleId', getLessonsForModule);
+router.get('/lessons/:moduleId', ...ownProgress, getLessonsForModule);
 
 /**
  * @route GET /api/course-content/lesson/:lessonId
  * @desc Get detailed lesson information with navigation
- * @access Public (with optional studentId query param)
+ * @access Public (studentId query param must be the caller's own)
  */
-router.get('/lesson/:lessonId', getLessonDetails);
+router.get('/lesson/:lessonId', ...ownProgress, getLessonDetails);
 
 /**
  * @route GET /api/course-content/lesson-content/:lessonId
  * @desc Get lesson content with quiz if available
- * @access Public (with optional studentId query param)
+ * @access Public (studentId query param must be the caller's own)
  */
-router.get('/lesson-content/:lessonId', getLessonContent);
+router.get('/lesson-content/:lessonId', ...ownProgress, getLessonContent);
 
 /**
  * @route PUT /api/course-content/lesson-progress/:lessonId
- * @desc Update lesson progress
- * @access Private
+ * @desc Update the caller's lesson progress
+ * @access Private (students enrolled in the lesson's programme)
  */
-router.put('/lesson-progress/:lessonId', authenticateJWT, updateLessonProgress);
+router.put('/lesson-progress/:lessonId', authenticateJWT, requirePolicy(enrolledInProgramme(fromParam('lesson', 'lessonId'))), updateLessonProgress);
 
 /**
  * @route POST /api/course-content/quiz/:lessonId
- * @desc Submit quiz answers
- * @access Private
+ * @desc Submit the caller's quiz answers
+ * @access Private (students enrolled in the lesson's programme)
  */
-router.post('/quiz/:lessonId', authenticateJWT, submitQuiz);
+router.post('/quiz/:lessonId', authenticateJWT, requirePolicy(enrolledInProgramme(fromParam('lesson', 'lessonId'))), submitQuiz);
 
 /**
  * @route GET /api/course-content/next-module/:programmeId
  * @desc Get next module recommendation
- * @access Public (with optional studentId query param)
+ * @access Public (studentId query param must be the caller's own)
  */
-router.get('/next-module/:programmeId', getNextModule);
+router.get('/next-module/:programmeId', ...ownProgress, getNextModule);
 
 /**
  * @route GET /api/course-content/progress/:programmeId
  * @desc Get course progress overview
- * @access Public (with optional studentId query param)
+ * @access Public (studentId query param must be the caller's own, or the caller an instructor of the programme)
  */
-router.get('/progress/:programmeId', getCourseProgress);
+router.get('/progress/:programmeId', optionalAuthenticateJWT, requirePolicy(
+  selfOrAdmin(userFromQuery()),
+  instructorOfProgramme(fromParam('programme', 'programmeId'))
+), getCourseProgress);
 
 export default router;
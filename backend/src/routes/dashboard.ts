@@ -1,10 +1,16 @@
 import express from 'express';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 import {
   getRealTimeDashboard,
   updateCourseProgress,
   getLearningStatistics
 } from '../controllers/dashboardController';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+} from '../controllers/notificationController';
+import { handleValidationErrors } from '../middleware/validation';
 import { createJWTMiddleware, authorizeRoles } from '../utils/jwt';
 
 const router = express.Router();
@@ -43,4 +49,29 @@ router.post('/progress/update', requireStudent, [
  */
 router.get('/statistics', requireStudent, getLearningStatistics);
 
+/**
+ * @route   GET /api/dashboard/notifications
+ * @desc    Get notifications such as newly earned badges
+ * @access  Student only
+ * @query   unreadOnly - Only return unread notifications; limit - max results (default: 20)
+ */
+router.get('/notifications', requireStudent, getNotifications);
+
+/**
+ * @route   PUT /api/dashboard/notifications/read-all
+ * @desc    Mark all notifications as read
+ * @access  Student only
+ */
+router.put('/notifications/read-all', requireStudent, markAllNotificationsRead);
+
+/**
+ * @route   PUT /api/dashboard/notifications/:notificationId/read
+ * @desc    Mark a notification as read
+ * @access  Student only
+ */
+router.put('/notifications/:notificationId/read', requireStudent, [
+  param('notificationId').isMongoId().withMessage('Invalid notification ID'),
+  handleValidationErrors
+], markNotificationRead);
+
 export default router;
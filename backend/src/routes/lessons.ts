@@ -1,13 +1,75 @@
 import express from 'express';
 import { getLessonContent } from '../controllers/courseContentController';
+import {
+  getLessonPackageFile,
+  getPackageRuntime,
+  commitPackageRuntime,
+  setXapiVersion,
+  getXapiAbout,
+  postXapiStatements,
+  putXapiStatement,
+  getXapiStatement
+} from '../controllers/lessonPackageController';
+import { authenticateJWT, optionalAuthenticateJWT, authenticatePackageLaunch } from '../middleware/auth';
+import { fromParam } from '../middleware/permissions';
+import {
+  requirePolicy,
+  selfOrAdmin,
+  enrolledInProgramme,
+  instructorOfProgramme,
+  isAdmin,
+  userFromQuery
+} from '../middleware/policies';
 
 const router = express.Router();
 
+const lessonParam = fromParam('lesson', 'lessonId');
+
+// Public pages only add progress for `?studentId=` when it is the caller's own
+const ownProgress = [optionalAuthenticateJWT, requirePolicy(selfOrAdmin(userFromQuery()))];
+
+// Students of the lesson, and staff previewing it
+const lessonViewers = [authenticateJWT, requirePolicy(enrolledInProgramme(lessonParam), instructorOfProgramme(lessonParam), isAdmin)];
+
 /**
  * @route GET /api/lessons/:lessonId/content
  * @desc Get lesson content (alternative route for compatibility)
- * @access Public (with optional studentId query param)
+ * @access Public; progress for `?studentId=` only for that student or admins
+ */
+router.get('/:lessonId/content', ...ownProgress, getLessonContent);
+
+/**
+ * @route GET /api/lessons/:lessonId/package/runtime
+ * @desc Launch data for the lesson's SCORM/xAPI package, with the caller's saved SCORM data
+ * @access Enrolled students; instructors of the course and admins in browse mode
+ */
+router.get('/:lessonId/package/runtime', lessonViewers, getPackageRuntime);
+
+/**
+ * @route PUT /api/lessons/:lessonId/package/runtime
+ * @desc Save values committed through the SCORM 1.2 runtime API
+ * @access Enrolled students
+ */
+router.put('/:lessonId/package/runtime', authenticateJWT, requirePolicy(enrolledInProgramme(lessonParam)), commitPackageRuntime);
+
+/**
+ * @route GET /api/lessons/:lessonId/package/files/:launchToken/*
+ * @desc Files of the lesson's package, loaded by the player's sandboxed iframe.
+ *       The launch token comes with the runtime data; relative URLs inside the
+ *       package keep it.
+ * @access Holders of a launch token for the lesson
+ */
+router.get('/:lessonId/package/files/:launchToken/*', authenticatePackageLaunch, getLessonPackageFile);
+
+/**
+ * xAPI statement endpoint for the lesson's xAPI package. The player passes
+ * `/api/lessons/:lessonId/xapi/` as the launch endpoint, and the launch token
+ * as the `auth` the package sends in its Authorization header.
  */
-router.get('/:lessonId/content', getLessonContent);
+router.use('/:lessonId/xapi', setXapiVersion);
+router.get('/:lessonId/xapi/about', getXapiAbout);
+router.post('/:lessonId/xapi/statements', authenticatePackageLaunch, postXapiStatements);
+router.put('/:lessonId/xapi/statements', authenticatePackageLaunch, putXapiStatement);
+router.get('/:lessonId/xapi/statements', authenticatePackageLaunch, getXapiStatement);
 
 export default router;
@@ -0,0 +1,13 @@
+import express from 'express';
+import { handlePaymentWebhook } from '../controllers/paymentController';
+
+const router = express.Router();
+
+/**
+ * @route   POST /api/payments/webhook/:provider
+ * @desc    Payment provider webhook (order paid, failed or refunded)
+ * @access  Public (signed by the provider)
+ */
+router.post('/webhook/:provider', handlePaymentWebhook);
+
+export default router;
@@ -27,9 +27,9 @@ const validateRequest: RequestHandler = (req, res, next) => {
 };
 
 // Helper function to get user role for audit logs
-const getUserRoleForAudit = (role: string): 'admin' | 'user' | 'student' | 'system' => {
+const getUserRoleForAudit = (role: string): 'admin' | 'instructor' | 'user' | 'student' | 'system' => {
     if (role === 'visitor') return 'user';
-    return role as 'admin' | 'user' | 'student' | 'system';
+    return role as 'admin' | 'instructor' | 'user' | 'student' | 'system';
 };
 
 // Privacy Settings Routes
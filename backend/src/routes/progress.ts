@@ -1,5 +1,13 @@
 import express from 'express';
 import { authenticateJWT } from '../middleware/auth';
+import { fromParam } from '../middleware/permissions';
+import {
+    requirePolicy,
+    selfOrAdmin,
+    enrolledInProgramme,
+    instructorOfProgramme,
+    userFromParam
+} from '../middleware/policies';
 import {
     getStudentProgress,
     getCourseProgress,
@@ -29,16 +37,19 @@ router.get('/', getGeneralProgress);
  * @route GET /api/progress/student/:studentId
  * @desc Get comprehensive progress for a student's enrolled courses
  * @query programmeId (optional) - Filter by specific programme
- * @access Private
+ * @access Private (the student or an admin)
  */
-router.get('/student/:studentId', getStudentProgress);
+router.get('/student/:studentId', requirePolicy(selfOrAdmin(userFromParam())), getStudentProgress);
 
 /**
  * @route GET /api/progress/course/:studentId/:programmeId
  * @desc Get detailed progress for a specific course
- * @access Private
+ * @access Private (the student, an admin or an instructor of the programme)
  */
-router.get('/course/:studentId/:programmeId', getCourseProgress);
+router.get('/course/:studentId/:programmeId', requirePolicy(
+    selfOrAdmin(userFromParam()),
+    instructorOfProgramme(fromParam('programme', 'programmeId'))
+), getCourseProgress);
 
 /**
  * @route GET /api/progress/course-details/:programmeId
@@ -51,39 +62,42 @@ router.get('/course-details/:programmeId', getCourseProgressDetails);
  * @route POST /api/progress/lesson/:lessonId/complete
  * @desc Mark a lesson as completed
  * @body timeSpent, watchTimeVideo, notes
- * @access Private
+ * @access Private (students enrolled in the lesson's programme)
  */
-router.post('/lesson/:lessonId/complete', markLessonCompleted);
+router.post('/lesson/:lessonId/complete', requirePolicy(enrolledInProgramme(fromParam('lesson', 'lessonId'))), markLessonCompleted);
 
 /**
  * @route PUT /api/progress/lesson/:lessonId/progress
  * @desc Update lesson progress (partial completion)
  * @body progressPercentage, timeSpent, watchTimeVideo, notes
- * @access Private
+ * @access Private (students enrolled in the lesson's programme)
  */
-router.put('/lesson/:lessonId/progress', updateLessonProgress);
+router.put('/lesson/:lessonId/progress', requirePolicy(enrolledInProgramme(fromParam('lesson', 'lessonId'))), updateLessonProgress);
 
 /**
  * @route POST /api/progress/lesson/:lessonId/quiz
  * @desc Record quiz/assessment results
  * @body quizId, score, maxScore, passingScore, timeSpent, answers, feedback
- * @access Private
+ * @access Private (students enrolled in the lesson's programme)
  */
-router.post('/lesson/:lessonId/quiz', recordQuizResult);
+router.post('/lesson/:lessonId/quiz', requirePolicy(enrolledInProgramme(fromParam('lesson', 'lessonId'))), recordQuizResult);
 
 /**
  * @route GET /api/progress/quiz/:studentId/:lessonId
  * @desc Get quiz results for a lesson
- * @access Private
+ * @access Private (the student, an admin or an instructor of the programme)
  */
-router.get('/quiz/:studentId/:lessonId', getQuizResults);
+router.get('/quiz/:studentId/:lessonId', requirePolicy(
+    selfOrAdmin(userFromParam()),
+    instructorOfProgramme(fromParam('lesson', 'lessonId'))
+), getQuizResults);
 
 /**
  * @route GET /api/progress/dashboard/:studentId
  * @desc Get comprehensive progress dashboard for a student
- * @access Private
+ * @access Private (the student or an admin)
  */
-router.get('/dashboard/:studentId', getProgressDashboard);
+router.get('/dashboard/:studentId', requirePolicy(selfOrAdmin(userFromParam())), getProgressDashboard);
 
 /**
  * @route GET /api/progress/analytics/:studentId/:programmeId
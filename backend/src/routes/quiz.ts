@@ -8,9 +8,11 @@ import {
     getQuizAnalytics,
     createOrUpdateQuiz,
     deleteQuiz,
-    getDetailedQuizAnalytics
+    getDetailedQuizAnalytics,
+    getQuizItemAnalysis
 } from '../controllers/quizController';
 import { createJWTMiddleware } from '../utils/jwt';
+import { requirePermission, fromParam } from '../middleware/permissions';
 import ProgrammeLesson from '../models/ProgrammeLesson';
 
 const router = express.Router();
@@ -137,39 +139,46 @@ router.get('/attempt/:attemptId', createJWTMiddleware('access'), getQuizAttemptR
 router.get('/student/attempts', createJWTMiddleware('access'), getStudentQuizAttempts);
 
 /**
- * Admin Analytics Routes
+ * Analytics Routes (admins, and instructors for their assigned programmes)
  */
 
 /**
  * @route   GET /api/quiz/lesson/:lessonId/analytics
- * @desc    Get quiz analytics for a lesson (admin only)
- * @access  Private (Admin)
+ * @desc    Get quiz analytics for a lesson
+ * @access  Private (Admin, or the programme's instructors)
  */
-router.get('/lesson/:lessonId/analytics', createJWTMiddleware('access'), getQuizAnalytics);
+router.get('/lesson/:lessonId/analytics', createJWTMiddleware('access'), requirePermission('analytics:view', fromParam('lesson', 'lessonId')), getQuizAnalytics);
 
 /**
- * Admin Quiz Management Routes
+ * Quiz Management Routes (admins, and instructors for their assigned programmes)
  */
 
 /**
  * @route   POST /api/quiz/lesson/:lessonId/manage
- * @desc    Create or update quiz for a lesson (admin only)
- * @access  Private (Admin)
+ * @desc    Create or update quiz for a lesson
+ * @access  Private (Admin, or the programme's instructors)
  */
-router.post('/lesson/:lessonId/manage', createJWTMiddleware('access'), createOrUpdateQuiz);
+router.post('/lesson/:lessonId/manage', createJWTMiddleware('access'), requirePermission('quizzes:manage', fromParam('lesson', 'lessonId')), createOrUpdateQuiz);
 
 /**
  * @route   DELETE /api/quiz/lesson/:lessonId/manage
- * @desc    Delete quiz from a lesson (admin only)
- * @access  Private (Admin)
+ * @desc    Delete quiz from a lesson
+ * @access  Private (Admin, or the programme's instructors)
  */
-router.delete('/lesson/:lessonId/manage', createJWTMiddleware('access'), deleteQuiz);
+router.delete('/lesson/:lessonId/manage', createJWTMiddleware('access'), requirePermission('quizzes:manage', fromParam('lesson', 'lessonId')), deleteQuiz);
 
 /**
  * @route   GET /api/quiz/lesson/:lessonId/admin-analytics
- * @desc    Get detailed quiz analytics for admin
- * @access  Private (Admin)
+ * @desc    Get detailed quiz analytics
+ * @access  Private (Admin, or the programme's instructors)
  */
-router.get('/lesson/:lessonId/admin-analytics', createJWTMiddleware('access'), getDetailedQuizAnalytics);
+router.get('/lesson/:lessonId/admin-analytics', createJWTMiddleware('access'), requirePermission('analytics:view', fromParam('lesson', 'lessonId')), getDetailedQuizAnalytics);
+
+/**
+ * @route   GET /api/quiz/lesson/:lessonId/item-analysis
+ * @desc    Get per-question difficulty and discrimination statistics
+ * @access  Private (Admin, or the programme's instructors)
+ */
+router.get('/lesson/:lessonId/item-analysis', createJWTMiddleware('access'), requirePermission('analytics:view', fromParam('lesson', 'lessonId')), getQuizItemAnalysis);
 
 export default router;
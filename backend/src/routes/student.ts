@@ -1,5 +1,5 @@
 import express from 'express';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
 import { autoSyncLessonCompletion, autoSyncEnrollmentStats } from '../middleware/realtimeSync';
 import {
   getStudentDashboard,
@@ -15,11 +15,46 @@ import {
   getStudentAnalytics,
   getCourseAnalytics,
   upload,
+  assignmentUpload,
   enrollInProgram,
   markLessonCompleted,
   updateLessonProgress,
   updateEnrollmentStatus
 } from '../controllers/studentController';
+import {
+  getStudentAssignments,
+  getStudentAssignment,
+  submitAssignment,
+  downloadSubmissionFile
+} from '../controllers/assignmentController';
+import {
+  getStudentLiveSessions,
+  rsvpLiveSession,
+  cancelLiveSessionRsvp,
+  attendLiveSession
+} from '../controllers/liveSessionController';
+import {
+  getFaqs,
+  getMyTickets,
+  createTicket,
+  getMyTicket,
+  replyToMyTicket,
+  closeMyTicket
+} from '../controllers/supportController';
+import {
+  getStudentCalendar,
+  getCalendarFeedUrl,
+  regenerateCalendarFeedUrl
+} from '../controllers/calendarController';
+import {
+  createCheckout,
+  getMyOrders,
+  getMyOrder,
+  completeFakeCheckout
+} from '../controllers/paymentController';
+import { getPriceQuote, getMyReferral } from '../controllers/couponController';
+import { SUPPORT_CATEGORIES } from '../models/SupportTicket';
+import { handleValidationErrors } from '../middleware/validation';
 import { 
   createJWTMiddleware, 
   authorizeRoles 
@@ -143,8 +178,12 @@ router.post('/activity', requireStudent, [
  * @route   POST /api/student/enroll
  * @desc    Enroll in a program
  * @access  Authenticated Student
+ * @body    programmeId, code (optional coupon or referral code)
  */
-router.post('/enroll', autoSyncEnrollmentStats, enrollInProgram);
+router.post('/enroll', [
+  body('code').optional().isString().trim().isLength({ max: 32 }).withMessage('Invalid code'),
+  handleValidationErrors
+], autoSyncEnrollmentStats, enrollInProgram);
 
 /**
  * @route   POST /api/student/lesson/complete
@@ -174,6 +213,191 @@ router.get('/analytics', requireStudent, getStudentAnalytics);
  */
 router.get('/analytics/course/:courseId', requireStudent, getCourseAnalytics);
 
+/**
+ * @route   GET /api/student/assignments
+ * @desc    Get assignments for enrolled programmes with computed status
+ * @access  Student only
+ * @query   programmeId - Optional programme filter
+ */
+router.get('/assignments', requireStudent, getStudentAssignments);
+
+/**
+ * @route   GET /api/student/assignments/:assignmentId
+ * @desc    Get a single assignment with the student's submission
+ * @access  Student only
+ */
+router.get('/assignments/:assignmentId', requireStudent, getStudentAssignment);
+
+/**
+ * @route   POST /api/student/assignments/:assignmentId/submit
+ * @desc    Submit an assignment (multipart: files[], textResponse)
+ * @access  Student only
+ */
+router.post('/assignments/:assignmentId/submit', requireStudent, assignmentUpload.array('files', 5), submitAssignment);
+
+/**
+ * @route   GET /api/student/assignment-submissions/:submissionId/files/:filename
+ * @desc    Download a file submitted for an assignment
+ * @access  Private (submitting student, or staff who manage the programme's assignments)
+ */
+router.get('/assignment-submissions/:submissionId/files/:filename', downloadSubmissionFile);
+
+/**
+ * @route   GET /api/student/live-sessions
+ * @desc    Get live sessions for enrolled programmes
+ * @access  Student only
+ * @query   programmeId - Optional programme filter
+ */
+router.get('/live-sessions', requireStudent, getStudentLiveSessions);
+
+/**
+ * @route   POST /api/student/live-sessions/:sessionId/rsvp
+ * @desc    Reserve a place in a live session (within capacity)
+ * @access  Student only
+ */
+router.post('/live-sessions/:sessionId/rsvp', requireStudent, rsvpLiveSession);
+
+/**
+ * @route   DELETE /api/student/live-sessions/:sessionId/rsvp
+ * @desc    Cancel a live session reservation
+ * @access  Student only
+ */
+router.delete('/live-sessions/:sessionId/rsvp', requireStudent, cancelLiveSessionRsvp);
+
+/**
+ * @route   POST /api/student/live-sessions/:sessionId/attend
+ * @desc    Check in to a live session and record attendance
+ * @access  Student only
+ */
+router.post('/live-sessions/:sessionId/attend', requireStudent, attendLiveSession);
+
+/**
+ * @route   GET /api/student/support/faqs
+ * @desc    Get published FAQ entries
+ * @access  Student only
+ */
+router.get('/support/faqs', requireStudent, getFaqs);
+
+/**
+ * @route   GET /api/student/support/tickets
+ * @desc    Get the student's support tickets
+ * @access  Student only
+ */
+router.get('/support/tickets', requireStudent, getMyTickets);
+
+/**
+ * @route   POST /api/student/support/tickets
+ * @desc    Open a support ticket
+ * @access  Student only
+ */
+router.post('/support/tickets', requireStudent, [
+  body('subject').trim().isLength({ min: 1, max: 200 }).withMessage('Subject is required and must be less than 200 characters'),
+  body('category').optional().isIn([...SUPPORT_CATEGORIES]).withMessage('Invalid category'),
+  body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).withMessage('Invalid priority'),
+  body('message').trim().isLength({ min: 1, max: 5000 }).withMessage('Message is required and must be less than 5000 characters'),
+  handleValidationErrors
+], createTicket);
+
+/**
+ * @route   GET /api/student/support/tickets/:ticketId
+ * @desc    Get a support ticket with its messages
+ * @access  Student only
+ */
+router.get('/support/tickets/:ticketId', requireStudent, getMyTicket);
+
+/**
+ * @route   POST /api/student/support/tickets/:ticketId/messages
+ * @desc    Reply to a support ticket
+ * @access  Student only
+ */
+router.post('/support/tickets/:ticketId/messages', requireStudent, [
+  body('message').trim().isLength({ min: 1, max: 5000 }).withMessage('Message is required and must be less than 5000 characters'),
+  handleValidationErrors
+], replyToMyTicket);
+
+/**
+ * @route   PUT /api/student/support/tickets/:ticketId/close
+ * @desc    Close a support ticket
+ * @access  Student only
+ */
+router.put('/support/tickets/:ticketId/close', requireStudent, closeMyTicket);
+
+/**
+ * @route   GET /api/student/calendar
+ * @desc    Get deadlines, live sessions and access expiry dates for enrolled programmes
+ * @access  Student only
+ * @query   from, to - ISO dates bounding the window
+ */
+router.get('/calendar', requireStudent, getStudentCalendar);
+
+/**
+ * @route   GET /api/student/calendar/feed
+ * @desc    Get the private iCalendar subscription URL
+ * @access  Student only
+ */
+router.get('/calendar/feed', requireStudent, getCalendarFeedUrl);
+
+/**
+ * @route   POST /api/student/calendar/feed/regenerate
+ * @desc    Replace the iCalendar subscription URL, revoking the old one
+ * @access  Student only
+ */
+router.post('/calendar/feed/regenerate', requireStudent, regenerateCalendarFeedUrl);
+
+/**
+ * @route   POST /api/student/checkout
+ * @desc    Start checkout for a paid programme
+ * @access  Student only
+ */
+router.post('/checkout', requireStudent, [
+  body('programmeId').isMongoId().withMessage('Valid programme ID is required'),
+  body('code').optional().isString().trim().isLength({ max: 32 }).withMessage('Invalid code'),
+  handleValidationErrors
+], createCheckout);
+
+/**
+ * @route   GET /api/student/pricing
+ * @desc    Price a programme with an optional coupon or referral code
+ * @access  Student only
+ * @query   programmeId, code (optional)
+ */
+router.get('/pricing', requireStudent, [
+  query('programmeId').isMongoId().withMessage('Valid programme ID is required'),
+  query('code').optional().isString().trim().isLength({ max: 32 }).withMessage('Invalid code'),
+  handleValidationErrors
+], getPriceQuote);
+
+/**
+ * @route   GET /api/student/referral
+ * @desc    Get the student's referral code and referral rewards
+ * @access  Student only
+ */
+router.get('/referral', requireStudent, getMyReferral);
+
+/**
+ * @route   GET /api/student/orders
+ * @desc    Get the student's payment orders
+ * @access  Student only
+ */
+router.get('/orders', requireStudent, getMyOrders);
+
+/**
+ * @route   GET /api/student/orders/:orderId
+ * @desc    Get a payment order (used to poll checkout status)
+ * @access  Student only
+ */
+router.get('/orders/:orderId', requireStudent, getMyOrder);
+
+/**
+ * @route   POST /api/student/orders/:orderId/fake-complete
+ * @desc    Simulate the payment outcome of a fake-provider checkout (development only)
+ * @access  Student only
+ */
+router.post('/orders/:orderId/fake-complete', requireStudent, [
+  body('outcome').optional().isIn(['success', 'failure']).withMessage('Outcome must be success or failure'),
+  handleValidationErrors
+], completeFakeCheckout);
+
 /**
  * @route   GET /api/student/test
  * @desc    Test endpoint to verify routing is working
@@ -11,6 +11,8 @@ import {
   getUserCourses,
   getUserLearningStats
 } from '../controllers/userController';
+import { revokeUserSessions } from '../controllers/sessionController';
+import { resetUserTwoFactor } from '../controllers/twoFactorController';
 import {
   validateUserUpdate,
   validatePasswordChange
@@ -20,6 +22,7 @@ import {
   requireAdmin, 
   requireUserOrAdmin 
 } from '../utils/jwt';
+import { requirePolicy, selfOrAdmin, userFromParam } from '../middleware/policies';
 
 const router = express.Router();
 
@@ -66,14 +69,14 @@ router.post('/', requireAdmin, createUser);
  * @desc    Get user by ID (Admin or own profile)
  * @access  Admin or Own Profile
  */
-router.get('/:id', getUserById);
+router.get('/:id', requirePolicy(selfOrAdmin(userFromParam('id'))), getUserById);
 
 /**
  * @route   PUT /api/user/:id
  * @desc    Update user profile (Admin or own profile)
  * @access  Admin or Own Profile
  */
-router.put('/:id', validateUserUpdate, updateUser);
+router.put('/:id', requirePolicy(selfOrAdmin(userFromParam('id'))), validateUserUpdate, updateUser);
 
 /**
  * @route   DELETE /api/user/:id
@@ -89,6 +92,20 @@ router.delete('/:id', requireAdmin, deleteUser);
  */
 router.patch('/:id/enrollment-status', requireAdmin, updateEnrollmentStatus);
 
+/**
+ * @route   DELETE /api/user/:id/sessions
+ * @desc    Sign a user out of every device (Admin only)
+ * @access  Admin
+ */
+router.delete('/:id/sessions', requireAdmin, revokeUserSessions);
+
+/**
+ * @route   DELETE /api/user/:id/two-factor
+ * @desc    Reset a user's two-factor authentication (Admin only)
+ * @access  Admin
+ */
+router.delete('/:id/two-factor', requireAdmin, resetUserTwoFactor);
+
 /**
  * @route   POST /api/user/change-password
  * @desc    Change user password
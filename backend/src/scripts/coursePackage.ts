@@ -0,0 +1,118 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import Programme from '../models/Programme';
+import User from '../models/User';
+import CoursePackageService from '../services/coursePackageService';
+import { ValidationError } from '../utils/errors';
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function connectDB() {
+  try {
+    const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/eduknit_learn';
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+  } catch (error) {
+    console.error('Failed to connect to MongoDB:', error);
+    process.exit(1);
+  }
+}
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function printUsage() {
+  console.log('Course Packages');
+  console.log('Usage:');
+  console.log('  npm run course-package -- export <slug|programmeId> [--out <file>]  - Write a course to <slug>.course.json (or .zip)');
+  console.log('  npm run course-package -- import <file> [--dry-run] [--as <email>]   - Create or update a course from a package');
+}
+
+async function exportCourse(args: string[]) {
+  const ref = args[1];
+  if (!ref) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const programme = await Programme.findOne(mongoose.Types.ObjectId.isValid(ref) ? { _id: ref } : { slug: ref });
+  if (!programme) {
+    console.error(`❌ No course found for '${ref}'`);
+    process.exit(1);
+  }
+
+  const coursePackage = await CoursePackageService.exportPackage(programme.id);
+  const out = readOption(args, '--out') || `${programme.slug}.course.json`;
+  fs.writeFileSync(out, out.endsWith('.zip')
+    ? CoursePackageService.toZip(coursePackage)
+    : `${JSON.stringify(coursePackage, null, 2)}\n`);
+
+  console.log(`✅ Exported '${programme.title}' (${coursePackage.modules.length} modules, ${coursePackage.lessons.length} lessons) to ${out}`);
+}
+
+async function importCourse(args: string[]) {
+  const file = args[1];
+  if (!file || !fs.existsSync(file)) {
+    console.error(file ? `❌ File not found: ${file}` : '❌ No package file given');
+    printUsage();
+    process.exit(1);
+  }
+
+  // Programmes record who created and last changed them
+  const email = readOption(args, '--as');
+  const user = await User.findOne(email ? { email: email.toLowerCase() } : { role: 'admin' }).sort({ createdAt: 1 });
+  if (!user) {
+    console.error(email ? `❌ No user found with email ${email}` : '❌ No admin user found; pass --as <email>');
+    process.exit(1);
+  }
+
+  const dryRun = args.includes('--dry-run');
+  const result = await CoursePackageService.importPackage(
+    CoursePackageService.parse(fs.readFileSync(file)),
+    { userId: user.id, dryRun }
+  );
+
+  console.log(`\n=== ${dryRun ? 'Dry run' : 'Import'}: ${result.programme.title} ===`);
+  for (const change of [result.programme, ...result.modules, ...result.lessons]) {
+    if (change.action !== 'unchanged') {
+      const fields = change.fields.length > 0 ? ` (${change.fields.join(', ')})` : '';
+      console.log(`  ${change.action.padEnd(10)} ${change.title}${fields}`);
+    }
+  }
+  const { summary } = result;
+  console.log(`Created: ${summary.create}, updated: ${summary.update}, unchanged: ${summary.unchanged}, deactivated: ${summary.deactivate}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+  if (command !== 'export' && command !== 'import') {
+    printUsage();
+    process.exit(command && command !== '--help' ? 1 : 0);
+  }
+
+  await connectDB();
+  try {
+    await (command === 'export' ? exportCourse(args) : importCourse(args));
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  }
+}
+
+main().catch(error => {
+  if (error instanceof ValidationError) {
+    console.error(`❌ ${error.message}`);
+    for (const detail of error.details) {
+      console.error(`   ${detail.field}: ${detail.message}`);
+    }
+  } else {
+    console.error('Course package command failed:', error);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import path from 'path';
+import LearningLedgerService from '../services/learningLedgerService';
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function connectDB() {
+  try {
+    const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/eduknit_learn';
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+  } catch (error) {
+    console.error('Failed to connect to MongoDB:', error);
+    process.exit(1);
+  }
+}
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function printUsage() {
+  console.log('Progress Ledger Rebuild');
+  console.log('Usage:');
+  console.log('  npm run rebuild-progress                              - Backfill and rebuild progress for every course');
+  console.log('  npm run rebuild-progress -- --student <userId>        - Only one student');
+  console.log('  npm run rebuild-progress -- --programme <programmeId> - Only one programme');
+  console.log('  npm run rebuild-progress -- --no-backfill             - Rebuild from existing events only');
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    printUsage();
+    return;
+  }
+
+  const studentId = readOption(args, '--student');
+  const programmeId = readOption(args, '--programme');
+  for (const id of [studentId, programmeId]) {
+    if (id !== undefined && !mongoose.Types.ObjectId.isValid(id)) {
+      console.error(`❌ '${id}' is not a valid id`);
+      printUsage();
+      process.exit(1);
+    }
+  }
+
+  await connectDB();
+
+  const summary = await LearningLedgerService.rebuild({
+    studentId,
+    programmeId,
+    backfill: !args.includes('--no-backfill')
+  });
+
+  console.log('\n=== Progress Ledger Rebuild ===');
+  console.log(`Courses rebuilt:     ${summary.pairs}`);
+  console.log(`Courses backfilled:  ${summary.backfilledPairs} (${summary.backfilledEvents} events)`);
+  console.log(`Courses completed:   ${summary.completedCourses}`);
+  console.log(`Failures:            ${summary.failures}`);
+
+  await mongoose.disconnect();
+  console.log('Disconnected from MongoDB');
+
+  if (summary.failures > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('Progress ledger rebuild failed:', error);
+  process.exit(1);
+});
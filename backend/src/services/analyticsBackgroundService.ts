@@ -4,6 +4,7 @@ import Enrollment from '../models/Enrollment';
 import LessonCompletion from '../models/LessonCompletion';
 import StudentProfile from '../models/StudentProfile';
 import AnalyticsService from './analyticsService';
+import BadgeService from './badgeService';
 import logger from '../config/logger';
 
 class AnalyticsBackgroundService {
@@ -78,6 +79,9 @@ class AnalyticsBackgroundService {
           // Update course progress
           await this.updateCourseProgress(studentId);
 
+          // Award badges for milestones reached since the last run
+          await BadgeService.evaluate(studentId, 'NIGHTLY');
+
           processedCount++;
         } catch (error) {
           errorCount++;
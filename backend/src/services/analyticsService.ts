@@ -3,10 +3,13 @@ import Enrollment from '../models/Enrollment';
 import UserCourseProgress from '../models/UserCourseProgress';
 import LessonCompletion from '../models/LessonCompletion';
 import QuizResult from '../models/QuizResult';
-import Programme from '../models/Programme';
 import ProgrammeModule from '../models/ProgrammeModule';
 import ProgrammeLesson from '../models/ProgrammeLesson';
 import StudentProfile from '../models/StudentProfile';
+import LiveSession from '../models/LiveSession';
+import QuizAttempt from '../models/QuizAttempt';
+import Badge from '../models/Badge';
+import BadgeService from './badgeService';
 import logger from '../config/logger';
 
 export interface DashboardOverview {
@@ -30,6 +33,7 @@ export interface DashboardOverview {
   level: number;
   totalTimeSpent: number;
   certificatesEarned: number;
+  liveSessionsAttended: number;
 }
 
 export interface CourseAnalytics {
@@ -100,6 +104,64 @@ export interface AnalyticsData {
   }>;
 }
 
+export interface ActivityPoint {
+  date: string;
+  lessonsCompleted: number;
+  timeSpent: number;
+  quizzesTaken: number;
+  quizzesPassed: number;
+  pointsEarned: number;
+}
+
+export interface StudentAnalyticsReport {
+  range: { days: number; from: string; to: string; courseId?: string };
+  totalCourses: number;
+  completedCourses: number;
+  totalLessons: number;
+  completedLessons: number;
+  totalQuizzes: number;
+  passedQuizzes: number;
+  averageScore: number;
+  studyTime: number;
+  streakDays: number;
+  longestStreak: number;
+  currentLevel: number;
+  experiencePoints: number;
+  currentLevelXP: number;
+  nextLevelXP: number;
+  liveSessionsAttended: number;
+  courses: Array<{ courseId: string; courseTitle: string }>;
+  daily: ActivityPoint[];
+  weekly: Array<ActivityPoint & { weekStart: string; activeDays: number }>;
+  courseProgress: Array<{
+    courseId: string;
+    courseTitle: string;
+    progress: number;
+    lessonsCompleted: number;
+    totalLessons: number;
+    averageScore: number;
+    timeSpent: number;
+    lastAccessed: Date;
+  }>;
+  achievements: Array<{
+    id: string;
+    title: string;
+    description: string;
+    icon: string;
+    earnedAt?: Date;
+    progress: number;
+    maxProgress: number;
+  }>;
+  learningStreak: Array<{
+    date: string;
+    active: boolean;
+    minutes: number;
+  }>;
+}
+
+// Points needed per level, matching the real-time dashboard
+const POINTS_PER_LEVEL = 100;
+
 class AnalyticsService {
   /**
    * Calculate comprehensive dashboard overview
@@ -119,6 +181,11 @@ class AnalyticsService {
       // Get student profile for gamification data
       const profile = await StudentProfile.findOne({ userId: studentId }).lean();
 
+      // Count live sessions the student attended
+      const liveSessionsAttended = await LiveSession.countDocuments({
+        'attendance.studentId': new mongoose.Types.ObjectId(studentId)
+      });
+
       // Calculate enrolled courses stats
       const enrolledCourses = {
         total: enrollments.length,
@@ -173,7 +240,8 @@ class AnalyticsService {
         totalPoints,
         level: profile?.gamification?.level || 1,
         totalTimeSpent,
-        certificatesEarned: profile?.statistics?.totalCertificatesEarned || 0
+        certificatesEarned: profile?.statistics?.totalCertificatesEarned || 0,
+        liveSessionsAttended
       };
     } catch (error) {
       logger.error('Error getting dashboard overview:', error);
@@ -364,6 +432,182 @@ class AnalyticsService {
     }
   }
 
+  /**
+   * Everything the student analytics page needs in one payload. Totals cover all time; the
+   * daily and weekly series cover the last `days` days and are built from lesson completions
+   * and quiz attempts. Optionally scoped to one course.
+   */
+  async getStudentAnalyticsReport(studentId: string, days: number = 30, courseId?: string): Promise<StudentAnalyticsReport> {
+    try {
+      const studentObjectId = new mongoose.Types.ObjectId(studentId);
+      const today = new Date();
+      const startDate = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1)));
+
+      const courseFilter = courseId ? { programmeId: courseId } : {};
+      const [overview, allEnrollments, lessonCompletions, quizAttempts, quizResults, profile] = await Promise.all([
+        this.getDashboardOverview(studentId),
+        Enrollment.find({ studentId })
+          .populate('programmeId', 'title totalLessons')
+          .lean(),
+        LessonCompletion.find({ userId: studentId, ...(courseId ? { courseId } : {}) })
+          .select('courseId completedAt timeSpent')
+          .lean(),
+        QuizAttempt.find({ studentId: studentObjectId, status: 'COMPLETED', isDeleted: { $ne: true }, ...courseFilter })
+          .select('programmeId percentage isPassed completedAt')
+          .lean(),
+        QuizResult.find({ studentId, ...courseFilter })
+          .select('programmeId percentage isPassed completedAt')
+          .lean(),
+        StudentProfile.findOne({ userId: studentId }).select('gamification').lean()
+      ]);
+
+      const enrollments = allEnrollments.filter(enrollment =>
+        enrollment.programmeId && (!courseId || (enrollment.programmeId as any)._id.toString() === courseId)
+      );
+
+      // Quiz attempts and legacy quiz results are both graded submissions
+      const quizzes = [...quizAttempts, ...quizResults]
+        .filter(quiz => quiz.completedAt)
+        .map(quiz => ({
+          programmeId: quiz.programmeId?.toString(),
+          percentage: quiz.percentage || 0,
+          isPassed: !!quiz.isPassed,
+          completedAt: new Date(quiz.completedAt!)
+        }));
+
+      // Daily series
+      const dailyByDate = new Map<string, ActivityPoint>();
+      for (let i = 0; i < days; i++) {
+        const date = new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        dailyByDate.set(date, { date, lessonsCompleted: 0, timeSpent: 0, quizzesTaken: 0, quizzesPassed: 0, pointsEarned: 0 });
+      }
+      lessonCompletions.forEach(lc => {
+        const point = dailyByDate.get(new Date(lc.completedAt).toISOString().split('T')[0]);
+        if (point) {
+          point.lessonsCompleted++;
+          point.timeSpent += lc.timeSpent || 0;
+          point.pointsEarned += this.calculateLessonPoints(lc);
+        }
+      });
+      quizzes.forEach(quiz => {
+        const point = dailyByDate.get(quiz.completedAt.toISOString().split('T')[0]);
+        if (point) {
+          point.quizzesTaken++;
+          point.quizzesPassed += quiz.isPassed ? 1 : 0;
+          point.pointsEarned += Math.round(quiz.percentage / 10);
+        }
+      });
+      const daily = Array.from(dailyByDate.values());
+
+      // Weekly series, weeks starting on Monday
+      const weeklyByStart = new Map<string, StudentAnalyticsReport['weekly'][number]>();
+      daily.forEach(point => {
+        const date = new Date(`${point.date}T00:00:00Z`);
+        date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+        const weekStart = date.toISOString().split('T')[0];
+        const week = weeklyByStart.get(weekStart) || {
+          weekStart,
+          date: weekStart,
+          lessonsCompleted: 0,
+          timeSpent: 0,
+          quizzesTaken: 0,
+          quizzesPassed: 0,
+          pointsEarned: 0,
+          activeDays: 0
+        };
+        week.lessonsCompleted += point.lessonsCompleted;
+        week.timeSpent += point.timeSpent;
+        week.quizzesTaken += point.quizzesTaken;
+        week.quizzesPassed += point.quizzesPassed;
+        week.pointsEarned += point.pointsEarned;
+        week.activeDays += point.lessonsCompleted > 0 || point.quizzesTaken > 0 ? 1 : 0;
+        weeklyByStart.set(weekStart, week);
+      });
+
+      // Per-course progress
+      const courseProgress = enrollments.map(enrollment => {
+        const programme = enrollment.programmeId as any;
+        const programmeId = programme._id.toString();
+        const courseQuizzes = quizzes.filter(quiz => quiz.programmeId === programmeId);
+        return {
+          courseId: programmeId,
+          courseTitle: programme.title,
+          progress: Math.round(enrollment.progress?.totalProgress || 0),
+          lessonsCompleted: enrollment.progress?.completedLessons?.length || 0,
+          totalLessons: programme.totalLessons || 0,
+          averageScore: courseQuizzes.length > 0
+            ? Math.round(courseQuizzes.reduce((sum, quiz) => sum + quiz.percentage, 0) / courseQuizzes.length)
+            : 0,
+          timeSpent: enrollment.progress?.timeSpent || 0,
+          lastAccessed: enrollment.progress?.lastActivityDate || enrollment.enrollmentDate
+        };
+      });
+
+      // Badge progress towards each active rule
+      await BadgeService.ensureDefaultBadges();
+      const badges = await Badge.find({ isActive: true }).sort({ 'rule.threshold': 1 });
+      const earnedBadges = new Map((profile?.gamification?.badges || []).map(badge => [badge.badgeId, badge]));
+      const metrics = await BadgeService.computeMetrics(
+        studentId,
+        new Set(badges.map(badge => badge.rule.metric)),
+        profile?.gamification?.totalPoints || 0
+      );
+      const achievements = badges.map(badge => ({
+        id: badge.badgeId,
+        title: badge.name,
+        description: badge.description,
+        icon: badge.icon || '🏅',
+        earnedAt: earnedBadges.get(badge.badgeId)?.earnedDate,
+        progress: Math.min(metrics[badge.rule.metric] || 0, badge.rule.threshold),
+        maxProgress: badge.rule.threshold
+      }));
+
+      const experiencePoints = profile?.gamification?.totalPoints || overview.totalPoints;
+      const currentLevel = Math.floor(experiencePoints / POINTS_PER_LEVEL) + 1;
+      const totalLessons = courseProgress.reduce((sum, course) => sum + course.totalLessons, 0);
+      const completedLessons = courseProgress.reduce((sum, course) => sum + course.lessonsCompleted, 0);
+
+      return {
+        range: { days, from: startDate.toISOString(), to: today.toISOString(), courseId },
+        totalCourses: courseProgress.length,
+        completedCourses: enrollments.filter(e => e.status === 'COMPLETED').length,
+        totalLessons,
+        completedLessons: Math.min(completedLessons, totalLessons || completedLessons),
+        totalQuizzes: quizzes.length,
+        passedQuizzes: quizzes.filter(quiz => quiz.isPassed).length,
+        averageScore: quizzes.length > 0
+          ? Math.round((quizzes.reduce((sum, quiz) => sum + quiz.percentage, 0) / quizzes.length) * 10) / 10
+          : 0,
+        studyTime: courseProgress.reduce((sum, course) => sum + course.timeSpent, 0),
+        streakDays: overview.learningStreak,
+        longestStreak: overview.longestStreak,
+        currentLevel,
+        experiencePoints,
+        currentLevelXP: (currentLevel - 1) * POINTS_PER_LEVEL,
+        nextLevelXP: currentLevel * POINTS_PER_LEVEL,
+        liveSessionsAttended: overview.liveSessionsAttended,
+        courses: allEnrollments
+          .filter(enrollment => enrollment.programmeId)
+          .map(enrollment => ({
+            courseId: (enrollment.programmeId as any)._id.toString(),
+            courseTitle: (enrollment.programmeId as any).title
+          })),
+        daily,
+        weekly: Array.from(weeklyByStart.values()),
+        courseProgress,
+        achievements,
+        learningStreak: daily.map(point => ({
+          date: point.date,
+          active: point.lessonsCompleted > 0 || point.quizzesTaken > 0,
+          minutes: point.timeSpent
+        }))
+      };
+    } catch (error) {
+      logger.error('Error getting student analytics report:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update analytics when a lesson is completed
    */
@@ -375,20 +619,7 @@ class AnalyticsService {
     points: number
   ): Promise<void> {
     try {
-      // Update enrollment progress
-      await Enrollment.findOneAndUpdate(
-        { studentId, programmeId: courseId },
-        {
-          $inc: {
-            'progress.completedLessons': 1,
-            'progress.timeSpent': timeSpent,
-            'progress.totalProgress': this.calculateProgressIncrement(courseId)
-          },
-          $set: {
-            'progress.lastActivityDate': new Date()
-          }
-        }
-      );
+      // Enrollment progress is projected from the learning ledger by the caller
 
       // Update student profile points and level
       await StudentProfile.findOneAndUpdate(
@@ -820,16 +1051,6 @@ class AnalyticsService {
     );
   }
 
-  /**
-   * Calculate progress increment for a course
-   */
-  private async calculateProgressIncrement(courseId: string): Promise<number> {
-    const programme = await Programme.findById(courseId).lean();
-    if (!programme || !programme.totalLessons) return 1;
-    
-    return 100 / programme.totalLessons;
-  }
-
   /**
    * Calculate lesson points
    */
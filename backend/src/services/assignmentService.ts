@@ -0,0 +1,226 @@
+import path from 'path';
+import { Types } from 'mongoose';
+import Assignment, { IAssignment } from '../models/Assignment';
+import AssignmentSubmission, { IAssignmentSubmission } from '../models/AssignmentSubmission';
+import Enrollment from '../models/Enrollment';
+import UserCourse from '../models/UserCourse';
+
+// Files students submit. Kept outside `uploads/`, which is served publicly, so
+// that only the student and the staff grading them can download them.
+export const ASSIGNMENT_SUBMISSIONS_DIR = path.join(process.cwd(), 'assignment-submissions');
+
+export type AssignmentStatus = 'PENDING' | 'SUBMITTED' | 'GRADED' | 'OVERDUE';
+
+export interface StudentAssignment {
+    id: string;
+    title: string;
+    description: string;
+    instructions?: string;
+    programmeId: string;
+    courseTitle: string;
+    lessonId: string;
+    moduleId: string;
+    dueDate: Date;
+    priority: IAssignment['priority'];
+    submissionTypes: IAssignment['submissionTypes'];
+    allowLateSubmission: boolean;
+    attachments: IAssignment['attachments'];
+    rubric: IAssignment['rubric'];
+    status: AssignmentStatus;
+    maxGrade: number;
+    grade?: number;
+    feedback?: string;
+    submittedAt?: Date;
+    isLate?: boolean;
+    submission?: {
+        id: string;
+        textResponse?: string;
+        files: IAssignmentSubmission['files'];
+        rubricScores: NonNullable<IAssignmentSubmission['grade']>['rubricScores'];
+    };
+}
+
+export class AssignmentService {
+    /**
+     * Derive the student-facing status of an assignment from its submission and due date
+     */
+    static computeStatus(
+        assignment: Pick<IAssignment, 'dueDate'>,
+        submission?: Pick<IAssignmentSubmission, 'status'> | null,
+        now: Date = new Date()
+    ): AssignmentStatus {
+        if (submission) {
+            return submission.status === 'GRADED' ? 'GRADED' : 'SUBMITTED';
+        }
+        return new Date(assignment.dueDate).getTime() < now.getTime() ? 'OVERDUE' : 'PENDING';
+    }
+
+    /**
+     * Get programme IDs the student can see assignments for
+     */
+    static async getEnrolledProgrammeIds(studentId: string): Promise<Types.ObjectId[]> {
+        const enrollments = await Enrollment.find({
+            studentId,
+            status: { $in: ['ENROLLED', 'ACTIVE', 'COMPLETED', 'PAUSED'] }
+        }).select('programmeId').lean();
+
+        return enrollments.map(enrollment => enrollment.programmeId as unknown as Types.ObjectId);
+    }
+
+    /**
+     * Check whether a student is enrolled in the programme an assignment belongs to
+     */
+    static async isStudentEnrolled(studentId: string, programmeId: string): Promise<boolean> {
+        const enrollment = await Enrollment.exists({
+            studentId,
+            programmeId,
+            status: { $in: ['ENROLLED', 'ACTIVE', 'COMPLETED', 'PAUSED'] }
+        });
+        return !!enrollment;
+    }
+
+    /**
+     * List all assignments for a student's enrolled programmes with computed status
+     */
+    static async getStudentAssignments(studentId: string, programmeId?: string): Promise<StudentAssignment[]> {
+        let programmeIds = await this.getEnrolledProgrammeIds(studentId);
+        if (programmeId) {
+            programmeIds = programmeIds.filter(id => id.toString() === programmeId);
+        }
+
+        if (programmeIds.length === 0) {
+            return [];
+        }
+
+        const assignments = await Assignment.find({
+            programmeId: { $in: programmeIds },
+            isActive: true
+        })
+            .populate('programmeId', 'title')
+            .sort({ dueDate: 1 });
+
+        const submissions = await AssignmentSubmission.find({
+            studentId,
+            assignmentId: { $in: assignments.map(a => a._id) }
+        });
+        const submissionByAssignment = new Map(
+            submissions.map(submission => [submission.assignmentId.toString(), submission])
+        );
+
+        const now = new Date();
+        return assignments.map(assignment =>
+            this.toStudentAssignment(assignment, submissionByAssignment.get(String(assignment._id)), now)
+        );
+    }
+
+    /**
+     * Shape an assignment and the student's submission for the student dashboard
+     */
+    static toStudentAssignment(
+        assignment: IAssignment,
+        submission?: IAssignmentSubmission | null,
+        now: Date = new Date()
+    ): StudentAssignment {
+        const programme = assignment.programmeId as any;
+        const isGraded = submission?.status === 'GRADED';
+
+        return {
+            id: String(assignment._id),
+            title: assignment.title,
+            description: assignment.description,
+            instructions: assignment.instructions,
+            programmeId: programme?._id ? programme._id.toString() : String(assignment.programmeId),
+            courseTitle: programme?.title || '',
+            lessonId: assignment.lessonId.toString(),
+            moduleId: assignment.moduleId.toString(),
+            dueDate: assignment.dueDate,
+            priority: assignment.priority,
+            submissionTypes: assignment.submissionTypes,
+            allowLateSubmission: assignment.allowLateSubmission,
+            attachments: assignment.attachments,
+            rubric: assignment.rubric,
+            status: this.computeStatus(assignment, submission, now),
+            maxGrade: assignment.maxScore,
+            grade: isGraded ? submission?.grade?.score : undefined,
+            feedback: isGraded ? submission?.grade?.feedback : undefined,
+            submittedAt: submission?.submittedAt,
+            isLate: submission?.isLate,
+            submission: submission ? {
+                id: String(submission._id),
+                textResponse: submission.textResponse,
+                files: submission.files,
+                rubricScores: isGraded ? submission.grade?.rubricScores || [] : []
+            } : undefined
+        };
+    }
+
+    /**
+     * Download URL of a submitted file
+     */
+    static fileUrl(submissionId: string, filename: string): string {
+        return `/api/student/assignment-submissions/${submissionId}/files/${encodeURIComponent(filename)}`;
+    }
+
+    static getFilePath(filename: string): string {
+        return path.join(ASSIGNMENT_SUBMISSIONS_DIR, path.basename(filename));
+    }
+
+    /**
+     * Calculate the final score from rubric points, validating each criterion against the rubric.
+     * Rubric totals are scaled onto the assignment's maxScore.
+     */
+    static scoreFromRubric(
+        assignment: Pick<IAssignment, 'rubric' | 'maxScore'>,
+        rubricScores: { criterion: string; points: number }[]
+    ): number {
+        const rubricTotal = assignment.rubric.reduce((sum, item) => sum + item.maxPoints, 0);
+        let earned = 0;
+
+        for (const entry of rubricScores) {
+            const criterion = assignment.rubric.find(item => item.criterion === entry.criterion);
+            if (!criterion) {
+                throw new Error(`Unknown rubric criterion: ${entry.criterion}`);
+            }
+            if (entry.points < 0 || entry.points > criterion.maxPoints) {
+                throw new Error(`Points for "${entry.criterion}" must be between 0 and ${criterion.maxPoints}`);
+            }
+            earned += entry.points;
+        }
+
+        if (rubricTotal <= 0) {
+            return 0;
+        }
+        return Math.round((earned / rubricTotal) * assignment.maxScore * 100) / 100;
+    }
+
+    /**
+     * Keep the UserCourse deadline entry for an assignment in sync with the submission
+     */
+    static async syncDeadline(
+        studentId: string,
+        assignment: IAssignment,
+        submittedAt?: Date
+    ): Promise<void> {
+        const userCourse = await UserCourse.findOne({ userId: studentId, courseId: assignment.programmeId });
+        if (!userCourse) {
+            return;
+        }
+
+        const deadline = userCourse.deadlines.find(d => d.assignmentId.toString() === String(assignment._id));
+        if (deadline) {
+            deadline.dueDate = assignment.dueDate;
+            deadline.completed = !!submittedAt;
+            deadline.submittedAt = submittedAt;
+        } else {
+            userCourse.deadlines.push({
+                assignmentId: assignment._id as any,
+                dueDate: assignment.dueDate,
+                completed: !!submittedAt,
+                submittedAt
+            });
+        }
+        await userCourse.save();
+    }
+}
+
+export default AssignmentService;
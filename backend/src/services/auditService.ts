@@ -184,14 +184,16 @@ export class AuditService {
     }
 
     /**
-     * Log login event
+     * Log login event. `step` names the stage of a multi-step sign-in
+     * (e.g. password, two-factor) the event belongs to.
      */
     static async logLogin(
         userId: string,
         userRole: IAuditLog['performedByRole'],
         req?: Request,
         success: boolean = true,
-        errorMessage?: string
+        errorMessage?: string,
+        step?: string
     ): Promise<void> {
         await this.logEvent({
             userId,
@@ -200,6 +202,7 @@ export class AuditService {
             performedBy: userId,
             performedByRole: userRole,
             req,
+            details: step ? { metadata: { step } } : undefined,
             success,
             errorMessage
         });
@@ -0,0 +1,272 @@
+import { Types } from 'mongoose';
+import Badge, { IBadge, BadgeMetric } from '../models/Badge';
+import StudentProfile from '../models/StudentProfile';
+import UserCourse from '../models/UserCourse';
+import LessonCompletion from '../models/LessonCompletion';
+import QuizResult from '../models/QuizResult';
+import QuizAttempt from '../models/QuizAttempt';
+import Enrollment from '../models/Enrollment';
+import Certificate from '../models/Certificate';
+import LiveSession from '../models/LiveSession';
+import NotificationService from './notificationService';
+import logger from '../config/logger';
+
+export type BadgeTrigger = 'LESSON_COMPLETED' | 'QUIZ_SUBMITTED' | 'NIGHTLY' | 'MANUAL';
+
+export interface BadgeEvaluationContext {
+    programmeId?: string;
+}
+
+type BadgeDefinition = Pick<IBadge, 'badgeId' | 'name' | 'description' | 'icon' | 'category' | 'points' | 'rule'>;
+
+/**
+ * Built-in badges, created on first evaluation. Admins can deactivate or
+ * edit them, and add their own through /api/admin/badges.
+ */
+export const DEFAULT_BADGES: BadgeDefinition[] = [
+    {
+        badgeId: 'first-lesson',
+        name: 'First Steps',
+        description: 'Complete your first lesson',
+        icon: '🎯',
+        category: 'PARTICIPATION',
+        points: 10,
+        rule: { metric: 'LESSONS_COMPLETED', threshold: 1 }
+    },
+    {
+        badgeId: 'seven-day-streak',
+        name: 'Week Warrior',
+        description: 'Maintain a 7-day learning streak',
+        icon: '🔥',
+        category: 'STREAK',
+        points: 50,
+        rule: { metric: 'LEARNING_STREAK_DAYS', threshold: 7 }
+    },
+    {
+        badgeId: 'perfect-quiz',
+        name: 'Perfect Score',
+        description: 'Score 100% on a quiz',
+        icon: '⭐',
+        category: 'ACHIEVEMENT',
+        points: 25,
+        rule: { metric: 'PERFECT_QUIZ_SCORES', threshold: 1 }
+    },
+    {
+        badgeId: 'programme-completed',
+        name: 'Finisher',
+        description: 'Complete your first programme',
+        icon: '🎓',
+        category: 'COMPLETION',
+        points: 100,
+        rule: { metric: 'PROGRAMMES_COMPLETED', threshold: 1 }
+    }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BadgeService {
+    private static defaultsEnsured = false;
+
+    /**
+     * Create the built-in badges if they do not exist yet. Existing badges are left untouched
+     * so admin edits survive restarts.
+     */
+    static async ensureDefaultBadges(): Promise<void> {
+        if (this.defaultsEnsured) {
+            return;
+        }
+
+        await Badge.bulkWrite(DEFAULT_BADGES.map(badge => ({
+            updateOne: {
+                filter: { badgeId: badge.badgeId },
+                update: { $setOnInsert: { ...badge, isActive: true, isSystem: true } },
+                upsert: true
+            }
+        })));
+        this.defaultsEnsured = true;
+    }
+
+    /**
+     * Evaluate all active badge rules for a student and award any newly earned badges.
+     * Returns the badges awarded by this evaluation.
+     */
+    static async evaluate(
+        studentId: string,
+        trigger: BadgeTrigger,
+        context: BadgeEvaluationContext = {}
+    ): Promise<IBadge[]> {
+        await this.ensureDefaultBadges();
+
+        const profile = await StudentProfile.findOne({ userId: studentId })
+            .select('gamification.badges gamification.totalPoints')
+            .lean();
+        if (!profile) {
+            return [];
+        }
+
+        const earnedBadgeIds = new Set((profile.gamification?.badges || []).map(badge => badge.badgeId));
+        const candidates = (await Badge.find({ isActive: true })).filter(badge => !earnedBadgeIds.has(badge.badgeId));
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        const metrics = await this.computeMetrics(
+            studentId,
+            new Set(candidates.map(badge => badge.rule.metric)),
+            profile.gamification?.totalPoints || 0
+        );
+
+        const awarded: IBadge[] = [];
+        for (const badge of candidates) {
+            if ((metrics[badge.rule.metric] || 0) < badge.rule.threshold) {
+                continue;
+            }
+            if (await this.award(studentId, badge, context)) {
+                awarded.push(badge);
+            }
+        }
+
+        if (awarded.length > 0) {
+            logger.info(`Awarded ${awarded.length} badge(s) to student ${studentId} on ${trigger}: ${awarded.map(b => b.badgeId).join(', ')}`);
+        }
+        return awarded;
+    }
+
+    /**
+     * Evaluate badges without failing the caller
+     */
+    static async evaluateSafely(
+        studentId: string,
+        trigger: BadgeTrigger,
+        context: BadgeEvaluationContext = {}
+    ): Promise<void> {
+        try {
+            await this.evaluate(studentId, trigger, context);
+        } catch (error) {
+            logger.error(`Badge evaluation failed for student ${studentId} on ${trigger}:`, error);
+        }
+    }
+
+    /**
+     * Award a badge once. The badge is pushed only if the profile does not already hold it,
+     * so concurrent evaluations cannot award it twice.
+     */
+    static async award(studentId: string, badge: IBadge, context: BadgeEvaluationContext = {}): Promise<boolean> {
+        const result = await StudentProfile.updateOne(
+            { userId: studentId, 'gamification.badges.badgeId': { $ne: badge.badgeId } },
+            {
+                $push: {
+                    'gamification.badges': {
+                        badgeId: badge.badgeId,
+                        name: badge.name,
+                        description: badge.description,
+                        earnedDate: new Date(),
+                        category: badge.category
+                    }
+                },
+                $inc: { 'gamification.totalPoints': badge.points }
+            }
+        );
+
+        if (result.modifiedCount === 0) {
+            return false;
+        }
+
+        // Record the achievement against the course the student was working on
+        if (context.programmeId) {
+            await UserCourse.updateOne(
+                { userId: studentId, courseId: context.programmeId, 'achievements.badgeId': { $ne: badge.badgeId } },
+                {
+                    $push: { achievements: { badgeId: badge.badgeId, earnedAt: new Date(), points: badge.points } },
+                    $inc: { 'analytics.totalPoints': badge.points }
+                }
+            );
+        }
+
+        await NotificationService.notifySafely(studentId, {
+            type: 'BADGE_EARNED',
+            title: `Badge earned: ${badge.name}`,
+            message: badge.points > 0
+                ? `${badge.description}. You earned ${badge.points} points.`
+                : badge.description,
+            severity: 'success',
+            data: { badgeId: badge.badgeId, category: badge.category, points: badge.points, icon: badge.icon }
+        });
+
+        return true;
+    }
+
+    /**
+     * Compute the requested metrics for a student
+     */
+    static async computeMetrics(
+        studentId: string,
+        metrics: Set<BadgeMetric>,
+        totalPoints: number = 0
+    ): Promise<Partial<Record<BadgeMetric, number>>> {
+        const studentObjectId = new Types.ObjectId(studentId);
+        const values: Partial<Record<BadgeMetric, number>> = {};
+
+        if (metrics.has('LESSONS_COMPLETED') || metrics.has('LEARNING_STREAK_DAYS')) {
+            const completions = await LessonCompletion.find({ userId: studentId }).select('completedAt').lean();
+
+            if (metrics.has('LESSONS_COMPLETED')) {
+                const enrollments = await Enrollment.find({ studentId }).select('progress.completedLessons').lean();
+                const enrollmentLessons = enrollments.reduce(
+                    (sum, enrollment) => sum + (enrollment.progress?.completedLessons?.length || 0),
+                    0
+                );
+                values.LESSONS_COMPLETED = Math.max(completions.length, enrollmentLessons);
+            }
+            if (metrics.has('LEARNING_STREAK_DAYS')) {
+                values.LEARNING_STREAK_DAYS = this.longestDailyStreak(completions.map(c => c.completedAt));
+            }
+        }
+
+        if (metrics.has('QUIZZES_PASSED') || metrics.has('PERFECT_QUIZ_SCORES')) {
+            const [results, attempts] = await Promise.all([
+                QuizResult.find({ studentId }).select('percentage isPassed').lean(),
+                QuizAttempt.find({ studentId, status: 'COMPLETED' }).select('percentage isPassed').lean()
+            ]);
+            const scores = [...results, ...attempts];
+            values.QUIZZES_PASSED = scores.filter(score => score.isPassed).length;
+            values.PERFECT_QUIZ_SCORES = scores.filter(score => score.percentage >= 100).length;
+        }
+
+        if (metrics.has('PROGRAMMES_COMPLETED')) {
+            values.PROGRAMMES_COMPLETED = await Enrollment.countDocuments({ studentId, status: 'COMPLETED' });
+        }
+
+        if (metrics.has('CERTIFICATES_EARNED')) {
+            values.CERTIFICATES_EARNED = await Certificate.countDocuments({ studentId, status: 'ISSUED' });
+        }
+
+        if (metrics.has('LIVE_SESSIONS_ATTENDED')) {
+            values.LIVE_SESSIONS_ATTENDED = await LiveSession.countDocuments({ 'attendance.studentId': studentObjectId });
+        }
+
+        if (metrics.has('TOTAL_POINTS')) {
+            values.TOTAL_POINTS = totalPoints;
+        }
+
+        return values;
+    }
+
+    /**
+     * Longest run of consecutive calendar days (UTC) with at least one completion
+     */
+    static longestDailyStreak(dates: Date[]): number {
+        const days = Array.from(new Set(dates.map(date => Math.floor(new Date(date).getTime() / DAY_MS))))
+            .sort((a, b) => a - b);
+
+        let longest = 0;
+        let current = 0;
+        for (let i = 0; i < days.length; i++) {
+            current = i > 0 && days[i] - days[i - 1] === 1 ? current + 1 : 1;
+            longest = Math.max(longest, current);
+        }
+        return longest;
+    }
+}
+
+export default BadgeService;
@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import Enrollment from '../models/Enrollment';
+import ProgrammeModule from '../models/ProgrammeModule';
+import User from '../models/User';
+import AssignmentService from './assignmentService';
+import LiveSessionService from './liveSessionService';
+
+export type CalendarEventType = 'LIVE_SESSION' | 'ASSIGNMENT' | 'DEADLINE' | 'ACCESS_EXPIRY';
+
+export interface CalendarEvent {
+    id: string;
+    type: CalendarEventType;
+    title: string;
+    description: string;
+    start: Date;
+    end?: Date;
+    programmeId: string;
+    courseTitle: string;
+    priority: 'LOW' | 'MEDIUM' | 'HIGH';
+    cancelled?: boolean;
+    completed?: boolean;
+    zoomLink?: string;
+    path: string;
+}
+
+export interface CalendarRange {
+    from: Date;
+    to: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ACTIVE_ENROLLMENT_STATUSES = ['ENROLLED', 'ACTIVE', 'COMPLETED', 'PAUSED'];
+
+export class CalendarService {
+    /**
+     * Default window: the last 30 days and the next year
+     */
+    static defaultRange(now: Date = new Date()): CalendarRange {
+        return {
+            from: new Date(now.getTime() - 30 * DAY_MS),
+            to: new Date(now.getTime() + 365 * DAY_MS)
+        };
+    }
+
+    /**
+     * Collect the dated items for a student's enrolled programmes: module due dates,
+     * assignment deadlines, live sessions and enrollment expiry dates
+     */
+    static async getStudentEvents(studentId: string, range: CalendarRange = this.defaultRange()): Promise<CalendarEvent[]> {
+        const now = new Date();
+        const inRange = (date?: Date) => !!date && date >= range.from && date <= range.to;
+
+        const enrollments = await Enrollment.find({
+            studentId,
+            status: { $in: ACTIVE_ENROLLMENT_STATUSES }
+        })
+            .populate('programmeId', 'title')
+            .select('programmeId expiryDate status');
+
+        const programmeIds = enrollments
+            .map(enrollment => (enrollment.programmeId as any)?._id)
+            .filter(Boolean) as Types.ObjectId[];
+        const titleByProgramme = new Map(
+            enrollments.map(enrollment => [
+                String((enrollment.programmeId as any)?._id),
+                (enrollment.programmeId as any)?.title || ''
+            ])
+        );
+
+        const [modules, assignments, sessions] = await Promise.all([
+            ProgrammeModule.find({
+                programmeId: { $in: programmeIds },
+                isActive: true,
+                dueDate: { $gte: range.from, $lte: range.to }
+            }).select('programmeId title description dueDate'),
+            AssignmentService.getStudentAssignments(studentId),
+            LiveSessionService.getStudentSessions(studentId)
+        ]);
+
+        const events: CalendarEvent[] = [];
+
+        for (const session of sessions) {
+            if (!inRange(session.startTime)) {
+                continue;
+            }
+            events.push({
+                id: `live-session-${session.id}`,
+                type: 'LIVE_SESSION',
+                title: session.title,
+                description: session.description,
+                start: session.startTime,
+                end: session.endTime,
+                programmeId: session.programmeId,
+                courseTitle: session.courseTitle,
+                priority: session.isRsvped ? 'HIGH' : 'MEDIUM',
+                cancelled: session.status === 'CANCELLED',
+                completed: session.status === 'COMPLETED',
+                zoomLink: session.zoomLink,
+                path: '/dashboard/live-sessions'
+            });
+        }
+
+        for (const assignment of assignments) {
+            if (!inRange(assignment.dueDate)) {
+                continue;
+            }
+            const done = assignment.status === 'SUBMITTED' || assignment.status === 'GRADED';
+            events.push({
+                id: `assignment-${assignment.id}`,
+                type: 'ASSIGNMENT',
+                title: `${assignment.title} due`,
+                description: assignment.description,
+                start: assignment.dueDate,
+                programmeId: assignment.programmeId,
+                courseTitle: assignment.courseTitle,
+                priority: done ? 'LOW' : this.priorityForDeadline(assignment.dueDate, now),
+                completed: done,
+                path: '/dashboard/assignments'
+            });
+        }
+
+        for (const module of modules) {
+            const programmeId = String(module.programmeId);
+            events.push({
+                id: `module-${module._id}`,
+                type: 'DEADLINE',
+                title: `${module.title} due`,
+                description: module.description || `Complete the ${module.title} module`,
+                start: module.dueDate!,
+                programmeId,
+                courseTitle: titleByProgramme.get(programmeId) || '',
+                priority: this.priorityForDeadline(module.dueDate!, now),
+                path: `/student-dashboard/courses/${programmeId}`
+            });
+        }
+
+        for (const enrollment of enrollments) {
+            if (!inRange(enrollment.expiryDate) || enrollment.status === 'COMPLETED') {
+                continue;
+            }
+            const programmeId = String((enrollment.programmeId as any)?._id || enrollment.programmeId);
+            const courseTitle = titleByProgramme.get(programmeId) || '';
+            events.push({
+                id: `enrollment-expiry-${enrollment._id}`,
+                type: 'ACCESS_EXPIRY',
+                title: `Access to ${courseTitle || 'course'} ends`,
+                description: 'Your enrollment expires on this date. Finish any remaining lessons before then.',
+                start: enrollment.expiryDate!,
+                programmeId,
+                courseTitle,
+                priority: this.priorityForDeadline(enrollment.expiryDate!, now),
+                path: `/student-dashboard/courses/${programmeId}`
+            });
+        }
+
+        return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+    }
+
+    /**
+     * Deadlines within two days are high priority, within a week medium
+     */
+    static priorityForDeadline(date: Date, now: Date = new Date()): CalendarEvent['priority'] {
+        const remaining = date.getTime() - now.getTime();
+        if (remaining <= 2 * DAY_MS) {
+            return 'HIGH';
+        }
+        return remaining <= 7 * DAY_MS ? 'MEDIUM' : 'LOW';
+    }
+
+    /**
+     * Get the student's calendar feed token, creating one on first use
+     */
+    static async getFeedToken(userId: string): Promise<string> {
+        const user = await User.findById(userId).select('calendarFeedToken');
+        if (!user) {
+            throw new Error('User not found');
+        }
+        if (user.calendarFeedToken) {
+            return user.calendarFeedToken;
+        }
+        return this.regenerateFeedToken(userId);
+    }
+
+    /**
+     * Replace the feed token, invalidating any previously shared subscription URL
+     */
+    static async regenerateFeedToken(userId: string): Promise<string> {
+        const token = crypto.randomBytes(24).toString('hex');
+        await User.updateOne({ _id: userId }, { $set: { calendarFeedToken: token } });
+        return token;
+    }
+
+    /**
+     * Resolve a feed token to the owning user
+     */
+    static async findUserByFeedToken(token: string): Promise<{ id: string; name: string } | null> {
+        if (!/^[a-f0-9]{48}$/.test(token)) {
+            return null;
+        }
+        const user = await User.findOne({ calendarFeedToken: token, enrollmentStatus: 'active' })
+            .select('firstName lastName username');
+        if (!user) {
+            return null;
+        }
+        return {
+            id: String(user._id),
+            name: user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.username
+        };
+    }
+
+    /**
+     * Public URL of a feed token
+     */
+    static getFeedUrl(token: string): string {
+        const baseUrl = process.env.NODE_ENV === 'production'
+            ? process.env.BACKEND_URL || 'https://api.eduknit.com'
+            : `http://localhost:${process.env.PORT || 5000}`;
+        return `${baseUrl}/api/calendar/${token}.ics`;
+    }
+
+    /**
+     * Render events as an RFC 5545 iCalendar document
+     */
+    static toICalendar(events: CalendarEvent[], calendarName: string): string {
+        const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+        const stamp = this.formatDateTime(new Date());
+
+        const lines = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//EduKnit//Learning Calendar//EN',
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            `X-WR-CALNAME:${this.escapeText(calendarName)}`,
+            'X-PUBLISHED-TTL:PT1H'
+        ];
+
+        for (const event of events) {
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:${event.id}@eduknit`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${this.formatDateTime(event.start)}`
+            );
+            if (event.end) {
+                lines.push(`DTEND:${this.formatDateTime(event.end)}`);
+            }
+
+            const description = [event.courseTitle, event.description, event.zoomLink && `Join: ${event.zoomLink}`]
+                .filter(Boolean)
+                .join('\n\n');
+            lines.push(
+                `SUMMARY:${this.escapeText(event.title)}`,
+                `DESCRIPTION:${this.escapeText(description)}`,
+                `URL:${frontendUrl}${event.path}`,
+                `CATEGORIES:${event.type}`,
+                `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+                'TRANSP:TRANSPARENT',
+                'END:VEVENT'
+            );
+        }
+
+        lines.push('END:VCALENDAR');
+        return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+    }
+
+    private static formatDateTime(date: Date): string {
+        return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    }
+
+    private static escapeText(value: string): string {
+        return value
+            .replace(/\\/g, '\\\\')
+            .replace(/;/g, '\\;')
+            .replace(/,/g, '\\,')
+            .replace(/\r?\n/g, '\\n');
+    }
+
+    /**
+     * Fold content lines longer than 75 octets, as required by RFC 5545
+     */
+    private static foldLine(line: string): string {
+        const parts: string[] = [];
+        let current = '';
+        let currentBytes = 0;
+        const limit = () => (parts.length === 0 ? 75 : 74);
+
+        for (const char of line) {
+            const charBytes = Buffer.byteLength(char, 'utf8');
+            if (currentBytes + charBytes > limit()) {
+                parts.push(current);
+                current = '';
+                currentBytes = 0;
+            }
+            current += char;
+            currentBytes += charBytes;
+        }
+        parts.push(current);
+
+        return parts.join('\r\n ');
+    }
+}
+
+export default CalendarService;
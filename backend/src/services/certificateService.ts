@@ -0,0 +1,227 @@
+import path from 'path';
+import fs from 'fs/promises';
+import Certificate, { ICertificate } from '../models/Certificate';
+import Enrollment from '../models/Enrollment';
+import Programme from '../models/Programme';
+import User from '../models/User';
+import StudentProfile from '../models/StudentProfile';
+import logger from '../config/logger';
+
+// Rendered certificates. Not under `uploads/`, which is served publicly:
+// certificates are only downloaded through the owner-checked route.
+export const CERTIFICATES_DIR = path.join(process.cwd(), 'certificates');
+
+export interface CertificateVerification {
+    valid: boolean;
+    certificateId: string;
+    status?: ICertificate['status'];
+    studentName?: string;
+    programmeTitle?: string;
+    issuedAt?: Date;
+    completionDate?: Date;
+    revokedAt?: Date;
+}
+
+/**
+ * Escape text for safe inclusion in SVG markup
+ */
+const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+export class CertificateService {
+    /**
+     * Issue a certificate for a completed enrollment.
+     * Safe to call repeatedly: an already issued certificate is returned as-is.
+     * Returns null when the enrollment is not complete or the programme does not award certificates.
+     */
+    static async issueForEnrollment(enrollmentId: string): Promise<ICertificate | null> {
+        const existing = await Certificate.findOne({ enrollmentId });
+        if (existing) {
+            return existing;
+        }
+
+        const enrollment = await Enrollment.findById(enrollmentId);
+        if (!enrollment) {
+            throw new Error('Enrollment not found');
+        }
+
+        if (enrollment.status !== 'COMPLETED' && enrollment.progress.totalProgress < 100) {
+            return null;
+        }
+
+        const [programme, student] = await Promise.all([
+            Programme.findById(enrollment.programmeId),
+            User.findById(enrollment.studentId).select('firstName lastName username')
+        ]);
+
+        if (!programme || !student) {
+            throw new Error('Programme or student not found');
+        }
+
+        if (!programme.certificateAwarded) {
+            return null;
+        }
+
+        const certificateId = await this.generateUniqueCertificateId(enrollment);
+        const studentName = [student.firstName, student.lastName].filter(Boolean).join(' ') || student.username;
+        const issuedAt = new Date();
+        const completionDate = enrollment.completionDate || issuedAt;
+
+        const svg = this.renderSvg({
+            certificateId,
+            studentName,
+            programmeTitle: programme.title,
+            completionDate
+        });
+
+        await fs.mkdir(CERTIFICATES_DIR, { recursive: true });
+        const filename = `${certificateId}.svg`;
+        await fs.writeFile(path.join(CERTIFICATES_DIR, filename), svg, 'utf8');
+
+        let certificate: ICertificate;
+        try {
+            certificate = await Certificate.create({
+                certificateId,
+                enrollmentId: enrollment._id,
+                studentId: enrollment.studentId,
+                programmeId: enrollment.programmeId,
+                studentName,
+                programmeTitle: programme.title,
+                issuedAt,
+                completionDate,
+                file: {
+                    filename,
+                    mimeType: 'image/svg+xml',
+                    size: Buffer.byteLength(svg, 'utf8')
+                }
+            });
+        } catch (error: any) {
+            // Another request issued the certificate concurrently
+            if (error.code === 11000) {
+                await fs.unlink(path.join(CERTIFICATES_DIR, filename)).catch(() => undefined);
+                return Certificate.findOne({ enrollmentId });
+            }
+            throw error;
+        }
+
+        enrollment.certificateIssued = true;
+        enrollment.certificateIssuedDate = issuedAt;
+        enrollment.certificateId = certificateId;
+        if (!enrollment.completionDate) {
+            enrollment.completionDate = completionDate;
+        }
+        await enrollment.save();
+
+        await StudentProfile.updateOne(
+            { userId: enrollment.studentId },
+            { $inc: { 'statistics.totalCertificatesEarned': 1 } }
+        );
+
+        logger.info(`Certificate ${certificateId} issued for enrollment ${enrollmentId}`);
+        return certificate;
+    }
+
+    /**
+     * Issue a certificate without letting failures break the progress update that triggered it
+     */
+    static async issueSafely(enrollmentId: string): Promise<void> {
+        try {
+            await this.issueForEnrollment(enrollmentId);
+        } catch (error) {
+            logger.error(`Failed to issue certificate for enrollment ${enrollmentId}:`, error);
+        }
+    }
+
+    /**
+     * Get all certificates issued to a student
+     */
+    static async getStudentCertificates(studentId: string): Promise<ICertificate[]> {
+        return Certificate.find({ studentId }).sort({ issuedAt: -1 });
+    }
+
+    /**
+     * Get the absolute path of a certificate's rendered file
+     */
+    static getFilePath(certificate: ICertificate): string {
+        return path.join(CERTIFICATES_DIR, path.basename(certificate.file.filename));
+    }
+
+    /**
+     * Public verification of a certificate ID; exposes no personal data beyond what is printed on the certificate
+     */
+    static async verify(certificateId: string): Promise<CertificateVerification> {
+        const normalizedId = certificateId.trim().toUpperCase();
+        const certificate = await Certificate.findOne({ certificateId: normalizedId });
+
+        if (!certificate) {
+            return { valid: false, certificateId: normalizedId };
+        }
+
+        return {
+            valid: certificate.status === 'ISSUED',
+            certificateId: certificate.certificateId,
+            status: certificate.status,
+            studentName: certificate.studentName,
+            programmeTitle: certificate.programmeTitle,
+            issuedAt: certificate.issuedAt,
+            completionDate: certificate.completionDate,
+            revokedAt: certificate.revokedAt
+        };
+    }
+
+    /**
+     * Generate a certificate ID that is not yet in use
+     */
+    private static async generateUniqueCertificateId(enrollment: any): Promise<string> {
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const candidate: string = enrollment.generateCertificateId();
+            const taken = await Certificate.exists({ certificateId: candidate });
+            if (!taken) {
+                return candidate;
+            }
+        }
+        throw new Error('Unable to generate a unique certificate ID');
+    }
+
+    /**
+     * Render the certificate as a landscape A4 SVG document
+     */
+    private static renderSvg(data: {
+        certificateId: string;
+        studentName: string;
+        programmeTitle: string;
+        completionDate: Date;
+    }): string {
+        const dateText = data.completionDate.toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+        });
+        const verifyUrl = `${process.env.FRONTEND_URL || ''}/api/certificates/verify/${data.certificateId}`;
+
+        return `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="1123" height="794" viewBox="0 0 1123 794" xmlns="http://www.w3.org/2000/svg">
+  <rect width="1123" height="794" fill="#ffffff"/>
+  <rect x="24" y="24" width="1075" height="746" fill="none" stroke="#1e3a8a" stroke-width="6"/>
+  <rect x="40" y="40" width="1043" height="714" fill="none" stroke="#93c5fd" stroke-width="2"/>
+  <text x="561.5" y="150" font-family="Georgia, serif" font-size="28" fill="#1e3a8a" text-anchor="middle" letter-spacing="6">EDUKNIT LEARN</text>
+  <text x="561.5" y="230" font-family="Georgia, serif" font-size="54" font-weight="bold" fill="#111827" text-anchor="middle">Certificate of Completion</text>
+  <text x="561.5" y="300" font-family="Arial, sans-serif" font-size="20" fill="#4b5563" text-anchor="middle">This certifies that</text>
+  <text x="561.5" y="375" font-family="Georgia, serif" font-size="46" fill="#1e40af" text-anchor="middle">${escapeXml(data.studentName)}</text>
+  <line x1="261.5" y1="400" x2="861.5" y2="400" stroke="#d1d5db" stroke-width="2"/>
+  <text x="561.5" y="450" font-family="Arial, sans-serif" font-size="20" fill="#4b5563" text-anchor="middle">has successfully completed the programme</text>
+  <text x="561.5" y="510" font-family="Georgia, serif" font-size="32" font-weight="bold" fill="#111827" text-anchor="middle">${escapeXml(data.programmeTitle)}</text>
+  <text x="561.5" y="570" font-family="Arial, sans-serif" font-size="20" fill="#4b5563" text-anchor="middle">on ${escapeXml(dateText)}</text>
+  <text x="80" y="710" font-family="Arial, sans-serif" font-size="16" fill="#6b7280">Certificate ID: ${escapeXml(data.certificateId)}</text>
+  <text x="1043" y="710" font-family="Arial, sans-serif" font-size="14" fill="#6b7280" text-anchor="end">Verify at ${escapeXml(verifyUrl)}</text>
+</svg>
+`;
+    }
+}
+
+export default CertificateService;
@@ -0,0 +1,519 @@
+import { Error as MongooseError, Model, Types } from 'mongoose';
+import ProgrammeLesson, { IProgrammeLesson } from '../models/ProgrammeLesson';
+import ProgrammeModule, { IProgrammeModule } from '../models/ProgrammeModule';
+import ContentVersion, { IContentVersion, VersionedContentType } from '../models/ContentVersion';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+
+type VersionedDocument = IProgrammeLesson | IProgrammeModule;
+
+interface ContentTypeConfig {
+    model: Model<any>;
+    label: string;
+    // Content fields that go through drafts and are kept in versions. Other
+    // fields (order, module, visibility, quiz) still apply immediately.
+    fields: string[];
+}
+
+const CONTENT_TYPES: Record<VersionedContentType, ContentTypeConfig> = {
+    lesson: {
+        model: ProgrammeLesson,
+        label: 'Lesson',
+        fields: ['title', 'description', 'type', 'content', 'estimatedDuration', 'duration', 'isRequired', 'prerequisites', 'learningObjectives', 'resources']
+    },
+    module: {
+        model: ProgrammeModule,
+        label: 'Module',
+        fields: ['title', 'description', 'estimatedDuration', 'learningObjectives', 'dueDate']
+    }
+};
+
+// Never taken from request bodies
+const PROTECTED_FIELDS = ['_id', 'id', 'publishing', 'createdAt', 'updatedAt'];
+
+// Parts of a lesson's content with their own editors (quiz builder, package
+// upload); they apply immediately and are left out of drafts and versions
+const SEPARATELY_MANAGED_CONTENT = ['quiz', 'package'];
+
+/**
+ * Where a diff side comes from: a version number, the published content or
+ * the working copy (published content with the draft applied)
+ */
+export type ContentRef = number | 'published' | 'draft';
+
+export interface ContentChange {
+    path: string;
+    change: 'added' | 'removed' | 'changed';
+    before: unknown;
+    after: unknown;
+}
+
+export interface ContentDiff {
+    from: ContentRef;
+    to: ContentRef;
+    changes: ContentChange[];
+}
+
+export interface PublishOptions {
+    note?: string;
+}
+
+const isEmpty = (value: unknown): boolean =>
+    value === undefined || value === null
+    || (Array.isArray(value) && value.length === 0)
+    || (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+
+const prune = (value: any): any => {
+    if (Array.isArray(value)) {
+        return value.map(prune);
+    }
+    if (value && typeof value === 'object') {
+        const pruned: Record<string, any> = {};
+        // Sorted, so equal content always serializes the same way
+        for (const [key, item] of Object.entries(value).sort(([a], [b]) => a.localeCompare(b))) {
+            const prunedItem = prune(item);
+            if (key !== '_id' && !isEmpty(prunedItem)) {
+                pruned[key] = prunedItem;
+            }
+        }
+        return pruned;
+    }
+    return value;
+};
+
+/**
+ * JSON-safe copy without empty values and without Mongoose's generated
+ * subdocument ids, which change whenever an array is re-saved and would
+ * otherwise show up as differences
+ */
+const plain = (value: unknown): any => (value === undefined ? undefined : prune(JSON.parse(JSON.stringify(value))));
+
+const isSame = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const flatten = (value: unknown, prefix: string, out: Map<string, unknown>): Map<string, unknown> => {
+    if (Array.isArray(value) && value.length > 0) {
+        value.forEach((item, index) => flatten(item, `${prefix}[${index}]`, out));
+    } else if (value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0) {
+        Object.entries(value).forEach(([key, item]) => flatten(item, prefix ? `${prefix}.${key}` : key, out));
+    } else if (value !== undefined) {
+        out.set(prefix, value);
+    }
+    return out;
+};
+
+const diffSnapshots = (before: Record<string, any>, after: Record<string, any>): ContentChange[] => {
+    const beforeValues = flatten(before, '', new Map());
+    const afterValues = flatten(after, '', new Map());
+    const paths = [...new Set([...beforeValues.keys(), ...afterValues.keys()])];
+
+    return paths
+        .filter(path => !isSame(beforeValues.get(path), afterValues.get(path)))
+        .map(path => ({
+            path,
+            change: !beforeValues.has(path) ? 'added' : !afterValues.has(path) ? 'removed' : 'changed',
+            before: beforeValues.get(path) ?? null,
+            after: afterValues.get(path) ?? null
+        }));
+};
+
+const toValidationError = (error: unknown, label: string): unknown => {
+    if (error instanceof MongooseError.ValidationError) {
+        return new ValidationError(`Invalid ${label.toLowerCase()}`, Object.values(error.errors).map(item => ({
+            field: item.path,
+            message: item.message
+        })));
+    }
+    return error;
+};
+
+/**
+ * Draft/publish workflow and version history for lessons and modules.
+ *
+ * The lesson or module document always holds the published content, so its
+ * id (and every progress record pointing at it) stays the same across
+ * versions. A new item is a draft, hidden from students, until its first
+ * publish; after that, edits wait in `publishing.draft`.
+ */
+export class ContentVersionService {
+    /**
+     * Save edits: straight to the document while it has never been
+     * published, otherwise to its draft
+     */
+    static async saveDraft(contentType: VersionedContentType, id: string, updates: Record<string, any>, userId: string): Promise<VersionedDocument> {
+        const config = CONTENT_TYPES[contentType];
+        const doc = await this.findContent(contentType, id);
+
+        const versioned: Record<string, any> = {};
+        const immediate: Record<string, any> = {};
+        for (const [field, value] of Object.entries(updates)) {
+            if (PROTECTED_FIELDS.includes(field)) {
+                continue;
+            }
+            (config.fields.includes(field) ? versioned : immediate)[field] = value;
+        }
+
+        if (doc.publishing.status === 'DRAFT') {
+            // Stays hidden until it is published
+            delete immediate.isActive;
+            this.applyFields(contentType, doc, versioned);
+        } else {
+            const working = this.workingCopy(contentType, doc);
+            this.applyFields(contentType, working, versioned);
+            try {
+                await working.validate();
+            } catch (error) {
+                throw toValidationError(error, config.label);
+            }
+
+            // Only what differs from the published content is kept
+            const published = this.snapshotOf(contentType, doc);
+            const edited = this.snapshotOf(contentType, working);
+            const draft: Record<string, any> = {};
+            for (const field of config.fields) {
+                if (!isSame(published[field], edited[field])) {
+                    draft[field] = edited[field] ?? null;
+                }
+            }
+
+            if (Object.keys(draft).length > 0) {
+                doc.set('publishing.draft', draft);
+                doc.set('publishing.draftUpdatedAt', new Date());
+                doc.set('publishing.draftUpdatedBy', userId);
+            } else {
+                this.clearDraft(doc);
+            }
+        }
+
+        doc.set(immediate);
+        try {
+            await doc.save();
+        } catch (error) {
+            throw toValidationError(error, config.label);
+        }
+        return doc;
+    }
+
+    /**
+     * Publish the pending changes as a new version. When content from before
+     * versioning is first edited, it is kept as version 1 so it can be
+     * rolled back to.
+     */
+    static async publish(contentType: VersionedContentType, id: string, userId?: string, options: PublishOptions = {}): Promise<VersionedDocument> {
+        const doc = await this.findContent(contentType, id);
+        const { status, version, draft } = doc.publishing;
+
+        if (status === 'PUBLISHED' && version > 0 && !draft) {
+            throw new ValidationError('There are no unpublished changes');
+        }
+
+        let nextVersion = version + 1;
+        if (status === 'PUBLISHED' && version === 0 && draft) {
+            const hasBaseline = await ContentVersion.exists({ contentType, contentId: doc._id, version: 1 });
+            if (!hasBaseline) {
+                await this.recordVersion(contentType, doc, 1, undefined, { note: 'Content before versioning' });
+            }
+            nextVersion = 2;
+        }
+
+        if (draft) {
+            this.applyFields(contentType, doc, draft);
+        }
+        if (status === 'DRAFT') {
+            doc.set('isActive', true);
+        }
+
+        await this.commitVersion(contentType, doc, nextVersion, userId, { note: options.note });
+        logger.info(`Published ${contentType} ${id} as version ${nextVersion}`);
+        return doc;
+    }
+
+    /**
+     * Publish the content of an earlier version as a new version. Pending
+     * changes are discarded.
+     */
+    static async rollback(contentType: VersionedContentType, id: string, version: number, userId: string): Promise<VersionedDocument> {
+        const doc = await this.findContent(contentType, id);
+        const target = await this.getVersion(contentType, id, version);
+
+        const snapshot: Record<string, any> = {};
+        for (const field of CONTENT_TYPES[contentType].fields) {
+            snapshot[field] = target.snapshot[field];
+        }
+        this.applyFields(contentType, doc, snapshot);
+
+        const nextVersion = doc.publishing.version + 1;
+        await this.commitVersion(contentType, doc, nextVersion, userId, { restoredFrom: version });
+        logger.info(`Rolled ${contentType} ${id} back to version ${version} as version ${nextVersion}`);
+        return doc;
+    }
+
+    /**
+     * Publish the pending changes automatically at `publishAt`
+     */
+    static async schedule(contentType: VersionedContentType, id: string, publishAt: Date, userId: string): Promise<VersionedDocument> {
+        const doc = await this.findContent(contentType, id);
+        if (publishAt.getTime() <= Date.now()) {
+            throw new ValidationError('Publish time must be in the future', [{ field: 'publishAt', message: 'Must be in the future' }]);
+        }
+        if (!this.hasPendingChanges(doc)) {
+            throw new ValidationError('There are no unpublished changes');
+        }
+
+        doc.set('publishing.scheduledAt', publishAt);
+        doc.set('publishing.scheduledBy', userId);
+        await doc.save();
+        return doc;
+    }
+
+    static async unschedule(contentType: VersionedContentType, id: string): Promise<VersionedDocument> {
+        const doc = await this.findContent(contentType, id);
+        if (!doc.publishing.scheduledAt) {
+            throw new NotFoundError('Scheduled publish');
+        }
+        doc.set('publishing.scheduledAt', undefined);
+        doc.set('publishing.scheduledBy', undefined);
+        await doc.save();
+        return doc;
+    }
+
+    /**
+     * Throw away the draft, going back to the published content
+     */
+    static async discardDraft(contentType: VersionedContentType, id: string): Promise<VersionedDocument> {
+        const doc = await this.findContent(contentType, id);
+        if (!doc.publishing.draft) {
+            throw new NotFoundError('Draft');
+        }
+        this.clearDraft(doc);
+        await doc.save();
+        return doc;
+    }
+
+    static async listVersions(contentType: VersionedContentType, id: string): Promise<IContentVersion[]> {
+        await this.findContent(contentType, id);
+        return ContentVersion.find({ contentType, contentId: id })
+            .select('-snapshot')
+            .sort({ version: -1 })
+            .populate('publishedBy', 'username firstName lastName');
+    }
+
+    static async getVersion(contentType: VersionedContentType, id: string, version: number): Promise<IContentVersion> {
+        const found = await ContentVersion.findOne({ contentType, contentId: id, version })
+            .populate('publishedBy', 'username firstName lastName');
+        if (!found) {
+            throw new NotFoundError('Version');
+        }
+        return found;
+    }
+
+    /**
+     * Field-by-field differences between two versions, the published content
+     * or the working copy
+     */
+    static async diff(contentType: VersionedContentType, id: string, from: ContentRef, to: ContentRef): Promise<ContentDiff> {
+        const doc = await this.findContent(contentType, id);
+        const [before, after] = await Promise.all([
+            this.resolveSnapshot(contentType, doc, from),
+            this.resolveSnapshot(contentType, doc, to)
+        ]);
+        return { from, to, changes: diffSnapshots(before, after) };
+    }
+
+    /**
+     * Publish everything whose scheduled time has come. Called by the
+     * scheduled jobs service.
+     */
+    static async publishDue(now: Date = new Date()): Promise<number> {
+        let published = 0;
+
+        for (const contentType of Object.keys(CONTENT_TYPES) as VersionedContentType[]) {
+            const due: VersionedDocument[] = await CONTENT_TYPES[contentType].model
+                .find({ 'publishing.scheduledAt': { $lte: now } })
+                .select('publishing');
+
+            for (const item of due) {
+                try {
+                    await this.publish(contentType, item.id, item.publishing.scheduledBy?.toString());
+                    published++;
+                } catch (error) {
+                    // Unpublishable content would otherwise be retried every run
+                    logger.error(`Scheduled publish of ${contentType} ${item.id} failed:`, error);
+                    await CONTENT_TYPES[contentType].model.updateOne(
+                        { _id: item._id },
+                        { $unset: { 'publishing.scheduledAt': 1, 'publishing.scheduledBy': 1 } }
+                    );
+                }
+            }
+        }
+
+        return published;
+    }
+
+    /**
+     * The document as editors see it: the working copy, with a summary of its
+     * publishing state instead of the raw draft
+     */
+    static toEditorView(contentType: VersionedContentType, doc: VersionedDocument): Record<string, any> {
+        const { status, version, draft, draftUpdatedAt, scheduledAt, publishedAt } = doc.publishing;
+        const published = doc.toJSON();
+        const view: Record<string, any> = { ...published, ...draft };
+        if (contentType === 'lesson' && draft?.content) {
+            view.content = { ...draft.content };
+            for (const key of SEPARATELY_MANAGED_CONTENT) {
+                view.content[key] = published.content?.[key];
+            }
+        }
+        return {
+            ...view,
+            publishing: {
+                status,
+                version,
+                hasDraft: !!draft,
+                draftUpdatedAt,
+                scheduledAt,
+                publishedAt
+            }
+        };
+    }
+
+    /**
+     * Remove the version history of deleted lessons or modules
+     */
+    static async deleteHistory(contentType: VersionedContentType, ids: Array<string | Types.ObjectId>): Promise<void> {
+        await ContentVersion.deleteMany({ contentType, contentId: { $in: ids } });
+    }
+
+    private static async findContent(contentType: VersionedContentType, id: string): Promise<VersionedDocument> {
+        const { model, label } = CONTENT_TYPES[contentType];
+        if (!Types.ObjectId.isValid(id)) {
+            throw new ValidationError(`Invalid ${label.toLowerCase()} ID`);
+        }
+        const doc = await model.findById(id);
+        if (!doc) {
+            throw new NotFoundError(label);
+        }
+        return doc;
+    }
+
+    private static hasPendingChanges(doc: VersionedDocument): boolean {
+        const { status, version, draft } = doc.publishing;
+        return status === 'DRAFT' || version === 0 || !!draft;
+    }
+
+    /**
+     * The versioned fields of a document, as kept in drafts and versions
+     */
+    private static snapshotOf(contentType: VersionedContentType, doc: VersionedDocument): Record<string, any> {
+        const fields: Record<string, any> = {};
+        for (const field of CONTENT_TYPES[contentType].fields) {
+            fields[field] = doc.get(field);
+        }
+        if (contentType === 'lesson' && fields.content) {
+            fields.content = { ...doc.toObject().content };
+            for (const key of SEPARATELY_MANAGED_CONTENT) {
+                delete fields.content[key];
+            }
+        }
+        return plain(fields);
+    }
+
+    private static applyFields(contentType: VersionedContentType, doc: VersionedDocument, fields: Record<string, any>): void {
+        const content = contentType === 'lesson' ? doc.toObject().content : undefined;
+        for (const [field, value] of Object.entries(fields)) {
+            doc.set(field, value ?? undefined);
+        }
+        if (content && 'content' in fields) {
+            for (const key of SEPARATELY_MANAGED_CONTENT) {
+                if (content[key] !== undefined) {
+                    doc.set(`content.${key}`, content[key]);
+                }
+            }
+        }
+    }
+
+    private static workingCopy(contentType: VersionedContentType, doc: VersionedDocument): VersionedDocument {
+        const working: VersionedDocument = CONTENT_TYPES[contentType].model.hydrate(doc.toObject());
+        if (doc.publishing.draft) {
+            this.applyFields(contentType, working, doc.publishing.draft);
+        }
+        return working;
+    }
+
+    private static clearDraft(doc: VersionedDocument): void {
+        doc.set('publishing.draft', undefined);
+        doc.set('publishing.draftUpdatedAt', undefined);
+        doc.set('publishing.draftUpdatedBy', undefined);
+        // Nothing is left to publish
+        doc.set('publishing.scheduledAt', undefined);
+        doc.set('publishing.scheduledBy', undefined);
+    }
+
+    private static async resolveSnapshot(contentType: VersionedContentType, doc: VersionedDocument, ref: ContentRef): Promise<Record<string, any>> {
+        if (ref === 'published') {
+            return this.snapshotOf(contentType, doc);
+        }
+        if (ref === 'draft') {
+            return this.snapshotOf(contentType, this.workingCopy(contentType, doc));
+        }
+        return (await this.getVersion(contentType, doc.id, ref)).snapshot;
+    }
+
+    private static async recordVersion(
+        contentType: VersionedContentType,
+        doc: VersionedDocument,
+        version: number,
+        userId: string | undefined,
+        details: { note?: string; restoredFrom?: number }
+    ): Promise<IContentVersion> {
+        try {
+            return await ContentVersion.create({
+                contentType,
+                contentId: doc._id,
+                programmeId: doc.get('programmeId'),
+                version,
+                snapshot: this.snapshotOf(contentType, doc),
+                publishedBy: userId,
+                ...details
+            });
+        } catch (error: any) {
+            if (error?.code === 11000) {
+                throw new ConflictError('This content was just published by someone else. Reload it and try again.');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Record `doc` as `version` and make it the published content
+     */
+    private static async commitVersion(
+        contentType: VersionedContentType,
+        doc: VersionedDocument,
+        version: number,
+        userId: string | undefined,
+        details: { note?: string; restoredFrom?: number }
+    ): Promise<void> {
+        const { label } = CONTENT_TYPES[contentType];
+        try {
+            await doc.validate();
+        } catch (error) {
+            throw toValidationError(error, label);
+        }
+
+        const record = await this.recordVersion(contentType, doc, version, userId, details);
+        this.clearDraft(doc);
+        doc.set('publishing.status', 'PUBLISHED');
+        doc.set('publishing.version', version);
+        doc.set('publishing.publishedAt', record.publishedAt);
+        doc.set('publishing.publishedBy', userId);
+
+        try {
+            await doc.save();
+        } catch (error) {
+            await ContentVersion.deleteOne({ _id: record._id });
+            throw toValidationError(error, label);
+        }
+    }
+}
+
+export default ContentVersionService;
@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import Coupon from '../models/Coupon';
+import CouponRedemption from '../models/CouponRedemption';
+import Referral from '../models/Referral';
+import User from '../models/User';
+import StudentProfile from '../models/StudentProfile';
+import { IProgramme } from '../models/Programme';
+import NotificationService from './notificationService';
+import { ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+
+// Points the referrer earns the first time a new student enrolls with their code
+export const REFERRAL_POINTS = 100;
+
+/**
+ * Price of a programme for a student after applying an optional coupon or referral code
+ */
+export interface PriceQuote {
+    originalPrice: number;
+    discountAmount: number;
+    discountApplied: number; // percentage of the original price, 0-100
+    finalPrice: number;
+    currency: string;
+    enrollmentSource: 'DIRECT' | 'PROMOTION' | 'REFERRAL';
+    code?: string;
+    couponId?: string;
+    referrerId?: string;
+}
+
+export interface RedemptionContext {
+    studentId: string;
+    programmeId: string;
+    enrollmentId?: string;
+    orderId?: string;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export class CouponService {
+    /**
+     * Price a programme for a student. The code may be a coupon or another student's
+     * referral code; an invalid code throws a ValidationError explaining why.
+     */
+    static async quote(studentId: string, programme: IProgramme, code?: string): Promise<PriceQuote> {
+        const originalPrice = roundMoney(programme.price || 0);
+        const currency = programme.currency || 'USD';
+        const base: PriceQuote = {
+            originalPrice,
+            discountAmount: 0,
+            discountApplied: 0,
+            finalPrice: originalPrice,
+            currency,
+            enrollmentSource: 'DIRECT'
+        };
+
+        const normalized = code?.trim().toUpperCase();
+        if (!normalized) {
+            return base;
+        }
+
+        const coupon = await Coupon.findOne({ code: normalized });
+        if (coupon) {
+            const now = new Date();
+            if (!coupon.isActive) {
+                throw new ValidationError('This code is no longer active');
+            }
+            if (coupon.validFrom && coupon.validFrom > now) {
+                throw new ValidationError('This code is not valid yet');
+            }
+            if (coupon.expiresAt && coupon.expiresAt < now) {
+                throw new ValidationError('This code has expired');
+            }
+            if (coupon.programmeIds.length > 0 && !coupon.programmeIds.some(id => String(id) === String(programme._id))) {
+                throw new ValidationError('This code does not apply to this programme');
+            }
+            if (coupon.discountType === 'FIXED' && coupon.currency && coupon.currency !== currency) {
+                throw new ValidationError(`This code only applies to prices in ${coupon.currency}`);
+            }
+            if (coupon.maxRedemptions && coupon.redemptionCount >= coupon.maxRedemptions) {
+                throw new ValidationError('This code has reached its usage limit');
+            }
+            const usedByStudent = await CouponRedemption.countDocuments({ couponId: coupon._id, studentId });
+            if (usedByStudent >= coupon.maxRedemptionsPerStudent) {
+                throw new ValidationError('You have already used this code');
+            }
+
+            const discountAmount = roundMoney(Math.min(
+                originalPrice,
+                coupon.discountType === 'PERCENT' ? originalPrice * coupon.discountValue / 100 : coupon.discountValue
+            ));
+            return {
+                ...base,
+                discountAmount,
+                discountApplied: originalPrice > 0 ? roundMoney(discountAmount / originalPrice * 100) : 0,
+                finalPrice: roundMoney(originalPrice - discountAmount),
+                enrollmentSource: 'PROMOTION',
+                code: coupon.code,
+                couponId: String(coupon._id)
+            };
+        }
+
+        const referrer = await User.findOne({ referralCode: normalized }).select('_id');
+        if (referrer) {
+            if (String(referrer._id) === String(studentId)) {
+                throw new ValidationError('You cannot use your own referral code');
+            }
+            if (await Referral.exists({ refereeId: studentId })) {
+                throw new ValidationError('A referral code has already been applied to your account');
+            }
+            return {
+                ...base,
+                enrollmentSource: 'REFERRAL',
+                code: normalized,
+                referrerId: String(referrer._id)
+            };
+        }
+
+        throw new ValidationError('Invalid code');
+    }
+
+    /**
+     * Record that a quoted code was used for an enrollment: count the coupon use or
+     * reward the referrer. Safe to call again for the same order. Coupon usage
+     * limits are enforced here too, since they may have been reached after the
+     * quote; a ValidationError explains which.
+     */
+    static async redeem(quote: PriceQuote, context: RedemptionContext): Promise<void> {
+        if (quote.couponId) {
+            await this.redeemCoupon(quote, context);
+        }
+
+        if (quote.referrerId) {
+            await this.awardReferral(quote.referrerId, quote.code!, context);
+        }
+    }
+
+    /**
+     * Give back the coupon use held by an order that will not be paid, so the code's
+     * usage limit counts only orders that can still go through
+     */
+    static async release(orderId: string): Promise<void> {
+        const redemption = await CouponRedemption.findOneAndDelete({ orderId, enrollmentId: { $exists: false } });
+        if (redemption) {
+            await Coupon.updateOne({ _id: redemption.couponId }, { $inc: { redemptionCount: -1 } });
+        }
+    }
+
+    /**
+     * Redeem without failing the caller; the enrollment has already been granted
+     */
+    static async redeemSafely(quote: PriceQuote, context: RedemptionContext): Promise<void> {
+        try {
+            await this.redeem(quote, context);
+        } catch (error) {
+            logger.error(`Failed to redeem code ${quote.code} for ${context.studentId}:`, error);
+        }
+    }
+
+    /**
+     * Get a student's referral code, creating one on first use
+     */
+    static async getReferralCode(userId: string): Promise<string> {
+        const user = await User.findById(userId).select('referralCode');
+        if (!user) {
+            throw new Error('User not found');
+        }
+        if (user.referralCode) {
+            return user.referralCode;
+        }
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const candidate = `REF-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+            const taken = await User.exists({ referralCode: candidate }) || await Coupon.exists({ code: candidate });
+            if (!taken) {
+                await User.updateOne({ _id: userId }, { $set: { referralCode: candidate } });
+                return candidate;
+            }
+        }
+        throw new Error('Unable to generate a unique referral code');
+    }
+
+    /**
+     * Summary of a student's referrals
+     */
+    static async getReferralSummary(userId: string): Promise<{ code: string; referrals: number; pointsEarned: number; pointsPerReferral: number }> {
+        const code = await this.getReferralCode(userId);
+        const [summary] = await Referral.aggregate([
+            { $match: { referrerId: new Types.ObjectId(userId) } },
+            { $group: { _id: null, referrals: { $sum: 1 }, pointsEarned: { $sum: '$pointsAwarded' } } }
+        ]);
+        return {
+            code,
+            referrals: summary?.referrals || 0,
+            pointsEarned: summary?.pointsEarned || 0,
+            pointsPerReferral: REFERRAL_POINTS
+        };
+    }
+
+    private static async redeemCoupon(quote: PriceQuote, context: RedemptionContext): Promise<void> {
+        if (context.orderId) {
+            const existing = await CouponRedemption.findOne({ orderId: context.orderId }).select('_id');
+            if (existing) {
+                // Redeemed for this order already; only the enrollment may be new
+                if (context.enrollmentId) {
+                    await CouponRedemption.updateOne({ _id: existing._id }, { $set: { enrollmentId: context.enrollmentId } });
+                }
+                return;
+            }
+        }
+
+        const coupon = await Coupon.findById(quote.couponId).select('maxRedemptions maxRedemptionsPerStudent');
+        if (!coupon) {
+            throw new ValidationError('Invalid code');
+        }
+        const usedByStudent = () => CouponRedemption.countDocuments({ couponId: coupon._id, studentId: context.studentId });
+        if (await usedByStudent() >= coupon.maxRedemptionsPerStudent) {
+            throw new ValidationError('You have already used this code');
+        }
+
+        // Take a use atomically, so concurrent redemptions cannot go over the limit
+        const claimed = await Coupon.findOneAndUpdate(
+            coupon.maxRedemptions
+                ? { _id: coupon._id, redemptionCount: { $lt: coupon.maxRedemptions } }
+                : { _id: coupon._id },
+            { $inc: { redemptionCount: 1 } }
+        );
+        if (!claimed) {
+            throw new ValidationError('This code has reached its usage limit');
+        }
+        const releaseUse = () => Coupon.updateOne({ _id: coupon._id }, { $inc: { redemptionCount: -1 } });
+
+        let redemption;
+        try {
+            redemption = await CouponRedemption.create({
+                couponId: quote.couponId,
+                code: quote.code,
+                studentId: context.studentId,
+                programmeId: context.programmeId,
+                enrollmentId: context.enrollmentId,
+                orderId: context.orderId,
+                originalPrice: quote.originalPrice,
+                discountAmount: quote.discountAmount,
+                finalPrice: quote.finalPrice,
+                currency: quote.currency
+            });
+        } catch (error: any) {
+            await releaseUse();
+            // The same order was redeemed concurrently
+            if (error?.code === 11000) {
+                return;
+            }
+            throw error;
+        }
+
+        // Another of the student's redemptions may have been recorded since the check
+        if (await usedByStudent() > coupon.maxRedemptionsPerStudent) {
+            await CouponRedemption.deleteOne({ _id: redemption._id });
+            await releaseUse();
+            throw new ValidationError('You have already used this code');
+        }
+    }
+
+    private static async awardReferral(referrerId: string, code: string, context: RedemptionContext): Promise<void> {
+        try {
+            await Referral.create({
+                referrerId,
+                refereeId: context.studentId,
+                code,
+                programmeId: context.programmeId,
+                enrollmentId: context.enrollmentId,
+                pointsAwarded: REFERRAL_POINTS
+            });
+        } catch (error: any) {
+            // The student was already referred; the referrer is only rewarded once
+            if (error?.code === 11000) {
+                return;
+            }
+            throw error;
+        }
+
+        await StudentProfile.updateOne(
+            { userId: referrerId },
+            { $inc: { 'gamification.totalPoints': REFERRAL_POINTS } }
+        );
+        await NotificationService.notifySafely(referrerId, {
+            type: 'REFERRAL',
+            title: 'Referral reward',
+            message: `Someone enrolled using your referral code. You earned ${REFERRAL_POINTS} points.`,
+            severity: 'success',
+            data: { points: REFERRAL_POINTS, programmeId: context.programmeId }
+        });
+        logger.info(`Referral ${code}: ${referrerId} rewarded for ${context.studentId}`);
+    }
+}
+
+export default CouponService;
@@ -0,0 +1,491 @@
+import { Document, Error as MongooseError, Types } from 'mongoose';
+import Programme from '../models/Programme';
+import ProgrammeModule, { IProgrammeModule } from '../models/ProgrammeModule';
+import ProgrammeLesson, { IProgrammeLesson } from '../models/ProgrammeLesson';
+import { createZip, readZip, ZipFormatError } from '../utils/zip';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export const COURSE_PACKAGE_FORMAT = 'eduknit-course-package';
+export const COURSE_PACKAGE_VERSION = 1;
+
+// Name of the package document inside a ZIP package
+export const COURSE_PACKAGE_FILE = 'course.json';
+
+const MAX_PACKAGE_SIZE = 50 * 1024 * 1024;
+
+// Fields carried by a package. Instructor assignments and authorship refer to
+// users of one environment, so they stay behind.
+const PROGRAMME_FIELDS = [
+    'title', 'slug', 'description', 'category', 'instructor', 'duration', 'timeframe', 'level',
+    'price', 'currency', 'imageUrl', 'overview', 'skills', 'prerequisites', 'isActive',
+    'totalModules', 'totalLessons', 'estimatedDuration', 'durationDays', 'certificateAwarded'
+];
+const MODULE_FIELDS = [
+    'title', 'description', 'orderIndex', 'isUnlocked', 'estimatedDuration', 'totalLessons',
+    'prerequisites', 'dueDate', 'learningObjectives', 'isActive'
+];
+const LESSON_FIELDS = [
+    'title', 'description', 'orderIndex', 'type', 'content', 'estimatedDuration', 'duration',
+    'isRequired', 'prerequisites', 'learningObjectives', 'resources', 'isActive', 'quiz', 'hasQuiz'
+];
+
+/**
+ * A programme with its modules and lessons, independent of database ids.
+ * Modules and lessons are identified by `key` and refer to each other
+ * (`moduleKey`, `prerequisites`) by key; keys are remapped to ids on import.
+ */
+export interface CoursePackage {
+    format: typeof COURSE_PACKAGE_FORMAT;
+    version: number;
+    exportedAt: string;
+    programme: Record<string, any>;
+    modules: Array<{ key: string } & Record<string, any>>;
+    lessons: Array<{ key: string; moduleKey: string } & Record<string, any>>;
+}
+
+export type PackageAction = 'create' | 'update' | 'unchanged' | 'deactivate';
+
+export interface PackageChange {
+    key?: string; // absent for database entities the package no longer contains
+    id: string;
+    title: string;
+    action: PackageAction;
+    fields: string[]; // fields that differ, for updates
+}
+
+export interface CoursePackageImport {
+    dryRun: boolean;
+    programme: PackageChange;
+    modules: PackageChange[];
+    lessons: PackageChange[];
+    summary: Record<PackageAction, number>;
+}
+
+interface FieldError {
+    field: string;
+    message: string;
+}
+
+// Package form of a stored value: ids and dates as strings, no subdocument ids
+const toPortable = (value: any): any => {
+    if (value instanceof Types.ObjectId) {
+        return value.toString();
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+        return value.map(toPortable);
+    }
+    if (value && typeof value === 'object') {
+        const result: Record<string, any> = {};
+        for (const [key, nested] of Object.entries(value)) {
+            if (key !== '_id' && key !== '__v' && nested !== undefined) {
+                result[key] = toPortable(nested);
+            }
+        }
+        return result;
+    }
+    return value;
+};
+
+const pickFields = (doc: Document, fields: string[]): Record<string, any> => {
+    const source = doc.toObject({ depopulate: true, virtuals: false });
+    const result: Record<string, any> = {};
+    for (const field of fields) {
+        if (source[field] !== undefined) {
+            result[field] = toPortable(source[field]);
+        }
+    }
+    return result;
+};
+
+// JSON with sorted object keys, so that equal values compare equal
+const canonical = (value: any): string => JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+        return Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]));
+    }
+    return nested;
+});
+
+const changedFields = (current: Document, next: Document, fields: string[]): string[] => {
+    const before = pickFields(current, fields);
+    const after = pickFields(next, fields);
+    return fields.filter(field => canonical(before[field]) !== canonical(after[field]));
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Uploaded SCORM/xAPI files live on the server's disk rather than in the
+// database, so `content.package` is not carried either
+const withoutLessonPackage = (fields: Record<string, any>): Record<string, any> => {
+    if (!isRecord(fields.content) || fields.content.package === undefined) {
+        return fields;
+    }
+    const { package: _package, ...content } = fields.content;
+    return { ...fields, content };
+};
+
+class CoursePackageService {
+    /**
+     * Export a programme with all of its modules and lessons, active or not
+     */
+    static async exportPackage(programmeId: string): Promise<CoursePackage> {
+        if (!Types.ObjectId.isValid(programmeId)) {
+            throw new ValidationError('Invalid programme ID');
+        }
+        const programme = await Programme.findById(programmeId);
+        if (!programme) {
+            throw new NotFoundError('Programme');
+        }
+
+        const modules = await ProgrammeModule.find({ programmeId }).sort({ orderIndex: 1 });
+        const modulePosition = new Map(modules.map((module, index) => [module.id, index]));
+        const lessons = (await ProgrammeLesson.find({ programmeId, moduleId: { $in: modules.map(module => module._id) } }))
+            .sort((a, b) =>
+                modulePosition.get(String(a.moduleId))! - modulePosition.get(String(b.moduleId))!
+                || a.orderIndex - b.orderIndex);
+
+        // Ids of the exporting database serve as keys, so re-exports diff cleanly in git
+        const lessonKeys = new Set(lessons.map(lesson => lesson.id));
+        const keepKnown = (ids: string[] = [], known: Set<string> | Map<string, number>) => ids.filter(id => known.has(id));
+
+        return {
+            format: COURSE_PACKAGE_FORMAT,
+            version: COURSE_PACKAGE_VERSION,
+            exportedAt: new Date().toISOString(),
+            programme: pickFields(programme, PROGRAMME_FIELDS),
+            modules: modules.map(module => {
+                const fields = pickFields(module, MODULE_FIELDS);
+                return { key: module.id, ...fields, prerequisites: keepKnown(fields.prerequisites, modulePosition) };
+            }),
+            lessons: lessons.map(lesson => {
+                const fields = withoutLessonPackage(pickFields(lesson, LESSON_FIELDS));
+                return {
+                    key: lesson.id,
+                    moduleKey: String(lesson.moduleId),
+                    ...fields,
+                    prerequisites: keepKnown(fields.prerequisites, lessonKeys)
+                };
+            })
+        };
+    }
+
+    static toZip(coursePackage: CoursePackage): Buffer {
+        return createZip([{
+            name: COURSE_PACKAGE_FILE,
+            data: Buffer.from(JSON.stringify(coursePackage, null, 2), 'utf8')
+        }]);
+    }
+
+    /**
+     * Read an uploaded package, either the JSON document or a ZIP containing it
+     */
+    static parse(file: Buffer): unknown {
+        let json = file;
+        if (file.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+            try {
+                const entry = readZip(file, MAX_PACKAGE_SIZE).find(item => item.name === COURSE_PACKAGE_FILE);
+                if (!entry) {
+                    throw new ValidationError(`ZIP package must contain ${COURSE_PACKAGE_FILE}`);
+                }
+                json = entry.data;
+            } catch (error) {
+                if (error instanceof ZipFormatError) {
+                    throw new ValidationError(error.message);
+                }
+                throw error;
+            }
+        }
+
+        try {
+            return JSON.parse(json.toString('utf8'));
+        } catch {
+            throw new ValidationError('Package is not valid JSON');
+        }
+    }
+
+    /**
+     * Import a package. The programme is matched by slug, its modules by
+     * orderIndex and lessons by orderIndex within their module, so importing
+     * into another environment updates the same course in place and keeps
+     * student progress attached. Stored modules and lessons missing from the
+     * package are deactivated, never deleted. Everything is validated before
+     * anything is written; with `dryRun` nothing is written at all.
+     */
+    static async importPackage(input: unknown, options: { userId: string; dryRun?: boolean }): Promise<CoursePackageImport> {
+        const coursePackage = this.checkStructure(input);
+        const dryRun = options.dryRun === true;
+
+        const existingProgramme = await Programme.findOne({ slug: coursePackage.programme.slug });
+        const [existingModules, existingLessons] = existingProgramme
+            ? await Promise.all([
+                ProgrammeModule.find({ programmeId: existingProgramme._id }).sort({ orderIndex: 1, createdAt: 1 }),
+                ProgrammeLesson.find({ programmeId: existingProgramme._id }).sort({ orderIndex: 1, createdAt: 1 })
+            ])
+            : [[], []];
+
+        const programmeId = existingProgramme ? existingProgramme._id as Types.ObjectId : new Types.ObjectId();
+        const fieldErrors: FieldError[] = [];
+
+        // Match stored entities first so that every key has an id before references are resolved
+        const matchedModules = new Map<string, IProgrammeModule>();
+        const moduleIds = new Map<string, Types.ObjectId>();
+        for (const module of coursePackage.modules) {
+            const match = existingModules.find(candidate =>
+                candidate.orderIndex === module.orderIndex && ![...matchedModules.values()].includes(candidate));
+            if (match) {
+                matchedModules.set(module.key, match);
+            }
+            moduleIds.set(module.key, match ? match._id as Types.ObjectId : new Types.ObjectId());
+        }
+
+        const matchedLessons = new Map<string, IProgrammeLesson>();
+        const lessonIds = new Map<string, Types.ObjectId>();
+        for (const lesson of coursePackage.lessons) {
+            const moduleId = String(moduleIds.get(lesson.moduleKey));
+            const match = existingLessons.find(candidate =>
+                String(candidate.moduleId) === moduleId
+                && candidate.orderIndex === lesson.orderIndex
+                && ![...matchedLessons.values()].includes(candidate));
+            if (match) {
+                matchedLessons.set(lesson.key, match);
+            }
+            lessonIds.set(lesson.key, match ? match._id as Types.ObjectId : new Types.ObjectId());
+        }
+
+        // Build every document as it will be saved, and validate them all before writing
+        const programmeDoc = new Programme({
+            ...this.pickPackaged(coursePackage.programme, PROGRAMME_FIELDS),
+            _id: programmeId,
+            lastModifiedBy: options.userId,
+            instructorIds: existingProgramme?.instructorIds || [],
+            createdBy: existingProgramme?.createdBy || options.userId
+        });
+        await this.collectErrors(programmeDoc, 'programme', fieldErrors);
+
+        const moduleDocs = await Promise.all(coursePackage.modules.map(async (module, index) => {
+            const doc = new ProgrammeModule({
+                ...this.pickPackaged(module, MODULE_FIELDS),
+                _id: moduleIds.get(module.key),
+                programmeId,
+                prerequisites: (module.prerequisites || []).map((key: string) => moduleIds.get(key))
+            });
+            await this.collectErrors(doc, `modules[${index}]`, fieldErrors);
+            return doc;
+        }));
+
+        const lessonDocs = await Promise.all(coursePackage.lessons.map(async (lesson, index) => {
+            const doc = new ProgrammeLesson({
+                ...withoutLessonPackage(this.pickPackaged(lesson, LESSON_FIELDS)),
+                _id: lessonIds.get(lesson.key),
+                programmeId,
+                moduleId: moduleIds.get(lesson.moduleKey),
+                prerequisites: (lesson.prerequisites || []).map((key: string) => lessonIds.get(key))
+            });
+            // A lesson keeps the SCORM/xAPI package uploaded in this environment
+            const uploadedPackage = matchedLessons.get(lesson.key)?.content?.package;
+            if (uploadedPackage) {
+                doc.set('content.package', uploadedPackage);
+            }
+            await this.collectErrors(doc, `lessons[${index}]`, fieldErrors);
+            return doc;
+        }));
+
+        if (fieldErrors.length > 0) {
+            throw new ValidationError('Course package is invalid', fieldErrors);
+        }
+
+        const planChange = <T extends Document & { title: string }>(
+            key: string | undefined,
+            doc: T,
+            existing: T | undefined,
+            fields: string[]
+        ): PackageChange => {
+            if (!existing) {
+                return { key, id: doc.id, title: doc.title, action: 'create', fields: [] };
+            }
+            const changes = changedFields(existing, doc, fields);
+            return { key, id: existing.id, title: doc.title, action: changes.length > 0 ? 'update' : 'unchanged', fields: changes };
+        };
+
+        const programmeChange = planChange(undefined, programmeDoc, existingProgramme || undefined, PROGRAMME_FIELDS);
+        const moduleChanges = coursePackage.modules.map((module, index) =>
+            planChange(module.key, moduleDocs[index], matchedModules.get(module.key), MODULE_FIELDS));
+        const lessonChanges = coursePackage.lessons.map((lesson, index) =>
+            planChange(lesson.key, lessonDocs[index], matchedLessons.get(lesson.key), LESSON_FIELDS));
+
+        const matchedModuleIds = new Set([...matchedModules.values()].map(module => module.id));
+        const matchedLessonIds = new Set([...matchedLessons.values()].map(lesson => lesson.id));
+        const retiredModules = existingModules.filter(module => module.isActive && !matchedModuleIds.has(module.id));
+        const retiredLessons = existingLessons.filter(lesson => lesson.isActive && !matchedLessonIds.has(lesson.id));
+        const retire = (doc: IProgrammeModule | IProgrammeLesson): PackageChange =>
+            ({ id: doc.id, title: doc.title, action: 'deactivate', fields: ['isActive'] });
+
+        const result: CoursePackageImport = {
+            dryRun,
+            programme: programmeChange,
+            modules: [...moduleChanges, ...retiredModules.map(retire)],
+            lessons: [...lessonChanges, ...retiredLessons.map(retire)],
+            summary: { create: 0, update: 0, unchanged: 0, deactivate: 0 }
+        };
+        for (const change of [result.programme, ...result.modules, ...result.lessons]) {
+            result.summary[change.action]++;
+        }
+
+        if (dryRun) {
+            return result;
+        }
+
+        await this.write(programmeChange, programmeDoc, existingProgramme, { lastModifiedBy: options.userId });
+        // Saving derives the slug from the title; keep the packaged one so later imports find this programme
+        await Programme.updateOne({ _id: programmeId, slug: { $ne: coursePackage.programme.slug } }, { slug: coursePackage.programme.slug });
+        for (const [index, module] of coursePackage.modules.entries()) {
+            await this.write(moduleChanges[index], moduleDocs[index], matchedModules.get(module.key));
+        }
+        for (const [index, lesson] of coursePackage.lessons.entries()) {
+            await this.write(lessonChanges[index], lessonDocs[index], matchedLessons.get(lesson.key));
+        }
+        if (retiredModules.length > 0) {
+            await ProgrammeModule.updateMany({ _id: { $in: retiredModules.map(module => module._id) } }, { isActive: false });
+        }
+        if (retiredLessons.length > 0) {
+            await ProgrammeLesson.updateMany({ _id: { $in: retiredLessons.map(lesson => lesson._id) } }, { isActive: false });
+        }
+
+        return result;
+    }
+
+    private static async write(
+        change: PackageChange,
+        doc: Document,
+        existing: Document | null | undefined,
+        extra: Record<string, any> = {}
+    ): Promise<void> {
+        if (change.action === 'create') {
+            await doc.save();
+        } else if (change.action === 'update' && existing) {
+            for (const field of change.fields) {
+                existing.set(field, doc.get(field));
+            }
+            existing.set(extra);
+            await existing.save();
+        }
+    }
+
+    private static pickPackaged(source: Record<string, any>, fields: string[]): Record<string, any> {
+        return Object.fromEntries(fields.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+    }
+
+    private static async collectErrors(doc: Document, label: string, errors: FieldError[]): Promise<void> {
+        try {
+            await doc.validate();
+        } catch (error) {
+            if (!(error instanceof MongooseError.ValidationError)) {
+                throw error;
+            }
+            for (const [path, detail] of Object.entries(error.errors)) {
+                errors.push({ field: `${label}.${path}`, message: detail.message });
+            }
+        }
+    }
+
+    /**
+     * Check the package format and the references between its entries. Field
+     * values are left to the model validators.
+     */
+    private static checkStructure(input: unknown): CoursePackage {
+        if (!isRecord(input) || input.format !== COURSE_PACKAGE_FORMAT) {
+            throw new ValidationError(`Not a course package (expected format "${COURSE_PACKAGE_FORMAT}")`);
+        }
+        if (input.version !== COURSE_PACKAGE_VERSION) {
+            throw new ValidationError(`Unsupported course package version ${input.version}; this server reads version ${COURSE_PACKAGE_VERSION}`);
+        }
+
+        const errors: FieldError[] = [];
+        if (!isRecord(input.programme)) {
+            errors.push({ field: 'programme', message: 'Programme is required' });
+        } else if (typeof input.programme.slug !== 'string' || !input.programme.slug.trim()) {
+            errors.push({ field: 'programme.slug', message: 'Slug is required' });
+        }
+        if (!Array.isArray(input.modules)) {
+            errors.push({ field: 'modules', message: 'Modules must be an array' });
+        }
+        if (!Array.isArray(input.lessons)) {
+            errors.push({ field: 'lessons', message: 'Lessons must be an array' });
+        }
+        if (errors.length > 0) {
+            throw new ValidationError('Course package is invalid', errors);
+        }
+
+        const modules: any[] = input.modules;
+        const lessons: any[] = input.lessons;
+        const keys = new Set<string>();
+        const moduleKeys = new Set<string>();
+        const lessonKeys = new Set<string>();
+        const positions = new Set<string>();
+
+        const checkEntry = (entry: any, label: string, ownKeys: Set<string>) => {
+            if (!isRecord(entry)) {
+                errors.push({ field: label, message: 'Must be an object' });
+                return false;
+            }
+            if (typeof entry.key !== 'string' || !entry.key) {
+                errors.push({ field: `${label}.key`, message: 'Key is required' });
+            } else if (keys.has(entry.key)) {
+                errors.push({ field: `${label}.key`, message: `Duplicate key ${entry.key}` });
+            } else {
+                keys.add(entry.key);
+                ownKeys.add(entry.key);
+            }
+            if (entry.prerequisites !== undefined && !Array.isArray(entry.prerequisites)) {
+                errors.push({ field: `${label}.prerequisites`, message: 'Prerequisites must be an array of keys' });
+            }
+            return true;
+        };
+
+        modules.forEach((module, index) => {
+            if (checkEntry(module, `modules[${index}]`, moduleKeys)) {
+                const position = `module:${module.orderIndex}`;
+                if (positions.has(position)) {
+                    errors.push({ field: `modules[${index}].orderIndex`, message: `Another module already has orderIndex ${module.orderIndex}` });
+                }
+                positions.add(position);
+            }
+        });
+        lessons.forEach((lesson, index) => {
+            if (checkEntry(lesson, `lessons[${index}]`, lessonKeys)) {
+                if (!moduleKeys.has(lesson.moduleKey)) {
+                    errors.push({ field: `lessons[${index}].moduleKey`, message: `Unknown module ${lesson.moduleKey}` });
+                }
+                const position = `lesson:${lesson.moduleKey}:${lesson.orderIndex}`;
+                if (positions.has(position)) {
+                    errors.push({ field: `lessons[${index}].orderIndex`, message: `Another lesson in the module already has orderIndex ${lesson.orderIndex}` });
+                }
+                positions.add(position);
+            }
+        });
+
+        // References are checked once every key is known, as they may point forward
+        const checkReferences = (entries: any[], collection: string, known: Set<string>) => entries.forEach((entry, index) => {
+            if (!isRecord(entry) || !Array.isArray(entry.prerequisites)) {
+                return;
+            }
+            entry.prerequisites.forEach((key: unknown, position: number) => {
+                if (typeof key !== 'string' || !known.has(key)) {
+                    errors.push({ field: `${collection}[${index}].prerequisites[${position}]`, message: `Unknown ${collection.slice(0, -1)} ${key}` });
+                }
+            });
+        });
+        checkReferences(modules, 'modules', moduleKeys);
+        checkReferences(lessons, 'lessons', lessonKeys);
+
+        if (errors.length > 0) {
+            throw new ValidationError('Course package is invalid', errors);
+        }
+        return input as unknown as CoursePackage;
+    }
+}
+
+export default CoursePackageService;
@@ -2,6 +2,7 @@ import DataDeletionRequest, { IDataDeletionRequest } from '../models/DataDeletio
 import User, { IUser } from '../models/User';
 import StudentProfile from '../models/StudentProfile';
 import Enrollment from '../models/Enrollment';
+import LearningEvent from '../models/LearningEvent';
 import AuditService from './auditService';
 import { Request } from 'express';
 import fs from 'fs';
@@ -372,8 +373,9 @@ export class DataDeletionService {
             // 2. Delete student profile
             await StudentProfile.deleteMany({ userId });
 
-            // 3. Delete enrollments
+            // 3. Delete enrollments and learning history
             await Enrollment.deleteMany({ studentId: userId });
+            await LearningEvent.deleteMany({ studentId: userId });
 
             // 4. Delete data deletion requests
             await DataDeletionRequest.deleteMany({ userId });
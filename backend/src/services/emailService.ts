@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import logger from '../config/logger';
+import NotificationQueueService, { DeliveryError } from './notificationQueueService';
 
 /**
  * Email Service for sending transactional emails
@@ -34,24 +35,45 @@ class EmailService {
   }
 
   /**
-   * Send email
+   * Queue an email; it is delivered, and retried if the SMTP server fails,
+   * by the notification queue. Returns whether it was queued.
    */
   async sendEmail(options: EmailOptions): Promise<boolean> {
     try {
-      const mailOptions = {
-        from: `"EduKnit Learn" <${process.env.SMTP_USER}>`,
-        to: options.to,
-        subject: options.subject,
-        html: options.html,
-        text: options.text,
-      };
+      await NotificationQueueService.enqueue({
+        channel: 'email',
+        destination: options.to,
+        description: `Email: ${options.subject}`,
+        payload: { ...options }
+      });
+      return true;
+    } catch (error) {
+      logger.error('Email queueing failed:', error);
+      return false;
+    }
+  }
 
+  /**
+   * Send an email now. SMTP 5xx replies are permanent, so those are not retried.
+   */
+  async deliverEmail(options: EmailOptions): Promise<void> {
+    const mailOptions = {
+      from: `"EduKnit Learn" <${process.env.SMTP_USER}>`,
+      to: options.to,
+      subject: options.subject,
+      html: options.html,
+      text: options.text,
+    };
+
+    try {
       const info = await this.transporter.sendMail(mailOptions);
       logger.info(`Email sent: ${info.messageId}`);
-      return true;
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Email sending failed:', error);
-      return false;
+      const responseCode = Number(error?.responseCode);
+      throw new DeliveryError(error?.message || 'Email sending failed', {
+        retryable: !(responseCode >= 500 && responseCode < 600)
+      });
     }
   }
 
@@ -471,4 +493,8 @@ class EmailService {
 // Create singleton instance
 const emailService = new EmailService();
 
+NotificationQueueService.registerDeliverer('email', message =>
+  emailService.deliverEmail(message.payload as EmailOptions)
+);
+
 export default emailService;
\ No newline at end of file
@@ -0,0 +1,18 @@
+import discordService from './discordService';
+import slackService from './slackService';
+import teamsService from './teamsService';
+import { IntegrationNotifier, NotifierPlatform } from './webhookNotifier';
+
+/**
+ * The chat platforms users can receive notifications on
+ */
+const NOTIFIERS: Record<NotifierPlatform, IntegrationNotifier> = {
+  discord: discordService,
+  slack: slackService,
+  teams: teamsService
+};
+
+export const getNotifier = (platform: string): IntegrationNotifier | null =>
+  Object.prototype.hasOwnProperty.call(NOTIFIERS, platform) ? NOTIFIERS[platform as NotifierPlatform] : null;
+
+export const getNotifiers = (): IntegrationNotifier[] => Object.values(NOTIFIERS);
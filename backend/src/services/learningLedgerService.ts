@@ -0,0 +1,643 @@
+import { Types } from 'mongoose';
+import LearningEvent, { ILearningEvent, LearningEventType } from '../models/LearningEvent';
+import Enrollment, { IEnrollment } from '../models/Enrollment';
+import UserCourse from '../models/UserCourse';
+import UserCourseProgress, { IUserCourseProgress } from '../models/UserCourseProgress';
+import LessonCompletion from '../models/LessonCompletion';
+import Programme from '../models/Programme';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import QuizResult from '../models/QuizResult';
+import QuizAttempt from '../models/QuizAttempt';
+import CertificateService from './certificateService';
+import logger from '../config/logger';
+
+export interface LearningEventInput {
+    studentId: string;
+    programmeId: string;
+    moduleId?: string;
+    lessonId?: string;
+    type: LearningEventType;
+    timeSpent?: number; // in minutes
+    progressPercentage?: number;
+    videoSeconds?: number;
+    score?: number;
+    maxScore?: number;
+    percentage?: number;
+    passed?: boolean;
+    occurredAt?: Date;
+    source: string;
+}
+
+export interface ProjectionResult {
+    enrollment: IEnrollment | null;
+    lessons: Map<string, IUserCourseProgress>;
+    courseCompleted: boolean;
+}
+
+export interface RecordResult {
+    event: ILearningEvent;
+    lessonProgress: IUserCourseProgress | null;
+    enrollment: IEnrollment | null;
+    courseCompleted: boolean;
+}
+
+export interface RebuildOptions {
+    studentId?: string;
+    programmeId?: string;
+    backfill?: boolean;
+}
+
+export interface RebuildSummary {
+    pairs: number;
+    backfilledPairs: number;
+    backfilledEvents: number;
+    completedCourses: number;
+    failures: number;
+}
+
+interface LessonState {
+    moduleId?: string;
+    progressPercentage: number;
+    completed: boolean;
+    timeSpent: number;
+    videoSeconds: number;
+    attempts: number;
+    startedAt: Date;
+    completedAt?: Date;
+    lastAccessedAt: Date;
+    bestScore?: number;
+}
+
+type BackfillEvent = Omit<LearningEventInput, 'studentId' | 'programmeId' | 'source'>;
+
+type LessonEvent = Pick<ILearningEvent, 'lessonId' | 'moduleId' | 'type' | 'occurredAt' | 'timeSpent' | 'videoSeconds' | 'progressPercentage' | 'percentage'>;
+
+type LessonSummary = { _id: unknown; moduleId: unknown; isActive: boolean };
+
+const toId = (value: unknown): string => String((value as any)?._id ?? value);
+
+const earliest = (...dates: (Date | undefined)[]): Date | undefined =>
+    dates.filter((date): date is Date => !!date).sort((a, b) => a.getTime() - b.getTime())[0];
+
+/**
+ * Append-only learning event log. Every progress write goes through `record`;
+ * Enrollment.progress, UserCourse, UserCourseProgress and LessonCompletion are
+ * projections recomputed from the events, so they can always be rebuilt and
+ * cannot drift apart.
+ */
+export class LearningLedgerService {
+    /**
+     * Append an event and bring the projections of its course up to date. Issues
+     * the certificate when the event completes the course; badges and profile
+     * points stay with the callers.
+     */
+    static async record(input: LearningEventInput): Promise<RecordResult> {
+        // Courses with progress from before the ledger are backfilled first so
+        // the projection does not forget it
+        let backfilled = 0;
+        if (!(await LearningEvent.exists({ studentId: input.studentId, programmeId: input.programmeId }))) {
+            backfilled = await this.backfill(input.studentId, input.programmeId);
+        }
+
+        let moduleId = input.moduleId;
+        if (input.lessonId && !moduleId) {
+            const lesson = await ProgrammeLesson.findById(input.lessonId).select('moduleId');
+            moduleId = lesson ? toId(lesson.moduleId) : undefined;
+        }
+
+        const occurredAt = input.occurredAt || new Date();
+
+        // The first activity on a lesson starts it; the key keeps concurrent
+        // first activities from starting it twice
+        if (input.lessonId && input.type !== 'LESSON_STARTED'
+            && !(await LearningEvent.exists({ studentId: input.studentId, lessonId: input.lessonId }))) {
+            try {
+                await LearningEvent.create({
+                    studentId: input.studentId,
+                    programmeId: input.programmeId,
+                    moduleId,
+                    lessonId: input.lessonId,
+                    type: 'LESSON_STARTED',
+                    occurredAt,
+                    source: input.source,
+                    dedupeKey: `lesson-start:${input.studentId}:${input.lessonId}`
+                });
+            } catch (error: any) {
+                if (error?.code !== 11000) {
+                    throw error;
+                }
+            }
+        }
+
+        const event = await LearningEvent.create({
+            ...input,
+            moduleId,
+            timeSpent: Math.max(input.timeSpent || 0, 0),
+            occurredAt
+        });
+
+        // A backfill touches every lesson of the course; otherwise only the
+        // event's lesson has changed
+        const projection = backfilled > 0
+            ? await this.project(input.studentId, input.programmeId)
+            : await this.projectEvent(input.studentId, input.programmeId, event);
+
+        if (projection.courseCompleted && projection.enrollment) {
+            await CertificateService.issueSafely(String(projection.enrollment._id));
+        }
+
+        return {
+            event,
+            lessonProgress: input.lessonId ? projection.lessons.get(input.lessonId) || null : null,
+            enrollment: projection.enrollment,
+            courseCompleted: projection.courseCompleted
+        };
+    }
+
+    /**
+     * Recompute every progress store of a student's course from its events
+     */
+    static async project(studentId: string, programmeId: string): Promise<ProjectionResult> {
+        const [events, programmeLessons, programme, enrollment, userCourse] = await Promise.all([
+            LearningEvent.find({ studentId, programmeId }).sort({ occurredAt: 1, _id: 1 }).lean(),
+            ProgrammeLesson.find({ programmeId }).select('moduleId isActive').lean(),
+            Programme.findById(programmeId).select('totalLessons'),
+            Enrollment.findOne({ studentId, programmeId }),
+            UserCourse.findOne({ userId: studentId, courseId: programmeId }).select('status')
+        ]);
+
+        const lessonModules = new Map(programmeLessons.map(lesson => [toId(lesson._id), toId(lesson.moduleId)]));
+        const states = new Map<string, LessonState>();
+        let totalTimeSpent = 0;
+        let lastActivity: Date | undefined;
+
+        for (const event of events) {
+            totalTimeSpent += event.timeSpent || 0;
+            lastActivity = event.occurredAt;
+            this.applyToLesson(states, event, lessonModules);
+        }
+
+        // Lesson progress and completions
+        const lessons = new Map<string, IUserCourseProgress>();
+        for (const [lessonId, state] of states) {
+            const progress = await this.saveLesson(studentId, programmeId, lessonId, state);
+            if (progress) {
+                lessons.set(lessonId, progress);
+            }
+        }
+
+        // Lessons without events keep their notes and bookmarks but no progress
+        const lessonIds = [...lessons.keys()];
+        await UserCourseProgress.updateMany(
+            { studentId, programmeId, lessonId: { $nin: lessonIds }, status: { $ne: 'NOT_STARTED' } },
+            {
+                $set: { status: 'NOT_STARTED', progressPercentage: 0, timeSpent: 0, watchTimeVideo: 0, attempts: 0 },
+                $unset: { startedAt: 1, completedAt: 1 }
+            }
+        );
+
+        const completedIds = lessonIds.filter(lessonId => states.get(lessonId)!.completed);
+        await LessonCompletion.deleteMany({ userId: studentId, courseId: programmeId, lessonId: { $nin: completedIds } });
+
+        const { totalProgress, completedModules } = this.courseTotals(programmeLessons, programme?.totalLessons, completedIds);
+
+        let courseCompleted = false;
+        if (enrollment) {
+            enrollment.progress.completedLessons = completedIds.map(lessonId => new Types.ObjectId(lessonId)) as any;
+            enrollment.progress.completedModules = completedModules as any;
+            enrollment.progress.totalProgress = totalProgress;
+            enrollment.progress.timeSpent = totalTimeSpent;
+            if (lastActivity) {
+                enrollment.progress.lastActivityDate = lastActivity;
+            }
+
+            if (totalProgress >= 100 && ['ENROLLED', 'ACTIVE'].includes(enrollment.status)) {
+                enrollment.status = 'COMPLETED';
+                enrollment.completionDate = new Date();
+                courseCompleted = true;
+            }
+
+            await enrollment.save();
+        }
+
+        if (userCourse) {
+            const keepStatus = ['PAUSED', 'DROPPED'].includes(userCourse.status);
+            await UserCourse.updateOne(
+                { _id: userCourse._id },
+                {
+                    $set: {
+                        completedLessons: completedIds.map(lessonId => new Types.ObjectId(lessonId)),
+                        progressPercent: totalProgress,
+                        studyTime: totalTimeSpent,
+                        ...(lastActivity && { lastAccessed: lastActivity }),
+                        ...(!keepStatus && {
+                            status: totalProgress >= 100 ? 'COMPLETED' : events.length > 0 ? 'IN_PROGRESS' : 'ENROLLED'
+                        })
+                    }
+                }
+            );
+        }
+
+        return { enrollment, lessons, courseCompleted };
+    }
+
+    /**
+     * Reconcile the progress stores with the ledger. Courses without events are
+     * first backfilled from whatever the old stores recorded, merging them so
+     * no completion is lost; then every course is projected again.
+     */
+    static async rebuild(options: RebuildOptions = {}): Promise<RebuildSummary> {
+        const { studentId, programmeId, backfill = true } = options;
+        const summary: RebuildSummary = { pairs: 0, backfilledPairs: 0, backfilledEvents: 0, completedCourses: 0, failures: 0 };
+
+        const enrollmentFilter: Record<string, unknown> = {};
+        const userCourseFilter: Record<string, unknown> = {};
+        const eventFilter: Record<string, unknown> = {};
+        if (studentId) {
+            enrollmentFilter.studentId = userCourseFilter.userId = eventFilter.studentId = new Types.ObjectId(studentId);
+        }
+        if (programmeId) {
+            enrollmentFilter.programmeId = userCourseFilter.courseId = eventFilter.programmeId = new Types.ObjectId(programmeId);
+        }
+
+        const [enrollments, userCourses, eventPairs] = await Promise.all([
+            Enrollment.find(enrollmentFilter).select('studentId programmeId').lean(),
+            UserCourse.find(userCourseFilter).select('userId courseId').lean(),
+            LearningEvent.aggregate([
+                { $match: eventFilter },
+                { $group: { _id: { studentId: '$studentId', programmeId: '$programmeId' } } }
+            ])
+        ]);
+
+        const pairs = new Map<string, [string, string]>();
+        const addPair = (student: unknown, programme: unknown) => {
+            pairs.set(`${toId(student)}:${toId(programme)}`, [toId(student), toId(programme)]);
+        };
+        enrollments.forEach(enrollment => addPair(enrollment.studentId, enrollment.programmeId));
+        userCourses.forEach(userCourse => addPair(userCourse.userId, userCourse.courseId));
+        eventPairs.forEach(pair => addPair(pair._id.studentId, pair._id.programmeId));
+
+        for (const [student, programme] of pairs.values()) {
+            summary.pairs++;
+            try {
+                if (backfill && !(await LearningEvent.exists({ studentId: student, programmeId: programme }))) {
+                    const created = await this.backfill(student, programme);
+                    if (created > 0) {
+                        summary.backfilledPairs++;
+                        summary.backfilledEvents += created;
+                    }
+                }
+
+                const projection = await this.project(student, programme);
+                if (projection.courseCompleted && projection.enrollment) {
+                    summary.completedCourses++;
+                    await CertificateService.issueSafely(String(projection.enrollment._id));
+                }
+            } catch (error) {
+                summary.failures++;
+                logger.error(`Failed to rebuild progress for student ${student} in programme ${programme}:`, error);
+            }
+        }
+
+        logger.info(`Progress ledger rebuilt for ${summary.pairs} course(s), ${summary.backfilledEvents} event(s) backfilled`);
+        return summary;
+    }
+
+    /**
+     * Bring the projections up to date with one new event. Only the event's
+     * lesson is recomputed, from its own events; course totals are adjusted in
+     * place instead of being summed again from every event of the course.
+     */
+    private static async projectEvent(studentId: string, programmeId: string, event: ILearningEvent): Promise<ProjectionResult> {
+        const [programmeLessons, programme] = await Promise.all([
+            ProgrammeLesson.find({ programmeId }).select('moduleId isActive').lean(),
+            Programme.findById(programmeId).select('totalLessons')
+        ]);
+
+        const lessons = new Map<string, IUserCourseProgress>();
+        let completedLesson: Types.ObjectId | undefined;
+        if (event.lessonId) {
+            const lessonId = toId(event.lessonId);
+            const lessonModules = new Map(programmeLessons.map(lesson => [toId(lesson._id), toId(lesson.moduleId)]));
+            const lessonEvents = await LearningEvent.find({ studentId, programmeId, lessonId }).sort({ occurredAt: 1, _id: 1 }).lean();
+            const states = new Map<string, LessonState>();
+            lessonEvents.forEach(lessonEvent => this.applyToLesson(states, lessonEvent, lessonModules));
+
+            const state = states.get(lessonId)!;
+            const progress = await this.saveLesson(studentId, programmeId, lessonId, state);
+            if (progress) {
+                lessons.set(lessonId, progress);
+                if (state.completed) {
+                    completedLesson = new Types.ObjectId(lessonId);
+                }
+            }
+        }
+
+        // Completed lessons, time and last activity are updated atomically; the
+        // totals derived from the completed lessons are then only written if no
+        // other event has changed them in the meantime, as that event's own
+        // write is the newer one
+        let courseCompleted = false;
+        let enrollment = await Enrollment.findOneAndUpdate(
+            { studentId, programmeId },
+            {
+                ...(completedLesson && { $addToSet: { 'progress.completedLessons': completedLesson } }),
+                $inc: { 'progress.timeSpent': event.timeSpent || 0 },
+                $max: { 'progress.lastActivityDate': event.occurredAt }
+            },
+            { new: true }
+        );
+        if (enrollment) {
+            const completedLessons = enrollment.progress.completedLessons.map(toId);
+            const { totalProgress, completedModules } = this.courseTotals(programmeLessons, programme?.totalLessons, completedLessons);
+            await Enrollment.updateOne(
+                { _id: enrollment._id, 'progress.completedLessons': completedLessons },
+                { $set: { 'progress.totalProgress': totalProgress, 'progress.completedModules': completedModules } }
+            );
+
+            if (totalProgress >= 100) {
+                courseCompleted = !!(await Enrollment.findOneAndUpdate(
+                    { _id: enrollment._id, status: { $in: ['ENROLLED', 'ACTIVE'] } },
+                    { $set: { status: 'COMPLETED', completionDate: new Date() } }
+                ));
+            }
+            enrollment = await Enrollment.findById(enrollment._id);
+        }
+
+        const userCourse = await UserCourse.findOneAndUpdate(
+            { userId: studentId, courseId: programmeId },
+            {
+                ...(completedLesson && { $addToSet: { completedLessons: completedLesson } }),
+                $inc: { studyTime: event.timeSpent || 0 },
+                $max: { lastAccessed: event.occurredAt }
+            },
+            { new: true }
+        ).select('status completedLessons');
+        if (userCourse) {
+            const completedLessons = userCourse.completedLessons.map(toId);
+            const { totalProgress } = this.courseTotals(programmeLessons, programme?.totalLessons, completedLessons);
+            const keepStatus = ['PAUSED', 'DROPPED'].includes(userCourse.status);
+            await UserCourse.updateOne(
+                { _id: userCourse._id, completedLessons },
+                {
+                    $set: {
+                        progressPercent: totalProgress,
+                        ...(!keepStatus && { status: totalProgress >= 100 ? 'COMPLETED' : 'IN_PROGRESS' })
+                    }
+                }
+            );
+        }
+
+        return { enrollment, lessons, courseCompleted };
+    }
+
+    /**
+     * Fold an event into the state of its lesson
+     */
+    private static applyToLesson(states: Map<string, LessonState>, event: LessonEvent, lessonModules: Map<string, string>): void {
+        if (!event.lessonId) {
+            return;
+        }
+
+        const lessonId = toId(event.lessonId);
+        let state = states.get(lessonId);
+        if (!state) {
+            state = {
+                progressPercentage: 0,
+                completed: false,
+                timeSpent: 0,
+                videoSeconds: 0,
+                attempts: 0,
+                startedAt: event.occurredAt,
+                lastAccessedAt: event.occurredAt
+            };
+            states.set(lessonId, state);
+        }
+
+        state.moduleId = lessonModules.get(lessonId) || (event.moduleId ? toId(event.moduleId) : state.moduleId);
+        state.timeSpent += event.timeSpent || 0;
+        state.videoSeconds += event.videoSeconds || 0;
+        state.lastAccessedAt = event.occurredAt;
+        if (event.progressPercentage !== undefined) {
+            state.progressPercentage = Math.max(state.progressPercentage, event.progressPercentage);
+        }
+
+        switch (event.type) {
+            case 'LESSON_STARTED':
+                state.attempts++;
+                break;
+            case 'LESSON_COMPLETED':
+                state.completed = true;
+                break;
+            case 'QUIZ_SUBMITTED':
+                if (event.percentage !== undefined) {
+                    state.bestScore = Math.max(state.bestScore ?? 0, event.percentage);
+                }
+                break;
+        }
+
+        if (state.progressPercentage >= 100) {
+            state.completed = true;
+        }
+        if (state.completed && !state.completedAt) {
+            state.completedAt = event.occurredAt;
+        }
+    }
+
+    /**
+     * Write a lesson's progress, and its completion once completed. Returns null
+     * for lessons whose module is unknown.
+     */
+    private static async saveLesson(studentId: string, programmeId: string, lessonId: string, state: LessonState): Promise<IUserCourseProgress | null> {
+        if (!state.moduleId) {
+            logger.warn(`Skipping lesson progress for unknown lesson ${lessonId} in programme ${programmeId}`);
+            return null;
+        }
+
+        const progress = await UserCourseProgress.findOneAndUpdate(
+            { studentId, programmeId, lessonId },
+            {
+                $set: {
+                    moduleId: state.moduleId,
+                    status: state.completed ? 'COMPLETED' : 'IN_PROGRESS',
+                    progressPercentage: state.completed ? 100 : Math.min(state.progressPercentage, 100),
+                    timeSpent: state.timeSpent,
+                    watchTimeVideo: state.videoSeconds,
+                    attempts: Math.max(state.attempts, 1),
+                    startedAt: state.startedAt,
+                    lastAccessedAt: state.lastAccessedAt,
+                    ...(state.completedAt && { completedAt: state.completedAt })
+                },
+                ...(!state.completedAt && { $unset: { completedAt: 1 } })
+            },
+            { upsert: true, new: true, setDefaultsOnInsert: true }
+        );
+
+        if (state.completed) {
+            await LessonCompletion.findOneAndUpdate(
+                { userId: studentId, lessonId },
+                {
+                    $set: {
+                        courseId: programmeId,
+                        moduleId: state.moduleId,
+                        completedAt: state.completedAt,
+                        timeSpent: state.timeSpent,
+                        ...(state.bestScore !== undefined && { score: Math.min(state.bestScore, 100) })
+                    }
+                },
+                { upsert: true, setDefaultsOnInsert: true }
+            );
+        }
+
+        return progress;
+    }
+
+    /**
+     * Course percentage and completed modules for a set of completed lessons.
+     * Only active lessons count towards the percentage.
+     */
+    private static courseTotals(programmeLessons: LessonSummary[], fallbackTotal: number | undefined, completedIds: string[]): {
+        totalProgress: number;
+        completedModules: Types.ObjectId[];
+    } {
+        const completed = new Set(completedIds);
+        const activeLessons = programmeLessons.filter(lesson => lesson.isActive);
+        const completedActive = activeLessons.filter(lesson => completed.has(toId(lesson._id))).length;
+        const totalLessons = activeLessons.length || fallbackTotal || 0;
+        const totalProgress = totalLessons > 0
+            ? Math.min(Math.round(((activeLessons.length ? completedActive : completed.size) / totalLessons) * 100), 100)
+            : 0;
+
+        const moduleLessons = new Map<string, string[]>();
+        activeLessons.forEach(lesson => {
+            const moduleId = toId(lesson.moduleId);
+            moduleLessons.set(moduleId, [...(moduleLessons.get(moduleId) || []), toId(lesson._id)]);
+        });
+        const completedModules = [...moduleLessons.entries()]
+            .filter(([, ids]) => ids.every(lessonId => completed.has(lessonId)))
+            .map(([moduleId]) => new Types.ObjectId(moduleId));
+
+        return { totalProgress, completedModules };
+    }
+
+    /**
+     * Turn the progress a course recorded before the ledger into events.
+     * Returns the number of events created.
+     */
+    private static async backfill(studentId: string, programmeId: string): Promise<number> {
+        const [progressRecords, completions, enrollment, userCourse, quizResults, quizAttempts, programmeLessons] = await Promise.all([
+            UserCourseProgress.find({ studentId, programmeId }).lean(),
+            LessonCompletion.find({ userId: studentId, courseId: programmeId }).lean(),
+            Enrollment.findOne({ studentId, programmeId }).lean(),
+            UserCourse.findOne({ userId: studentId, courseId: programmeId }).lean(),
+            QuizResult.find({ studentId, programmeId }).lean(),
+            QuizAttempt.find({ studentId, programmeId, status: 'COMPLETED' }).lean(),
+            ProgrammeLesson.find({ programmeId }).select('moduleId').lean()
+        ]);
+
+        const lessonModules = new Map(programmeLessons.map(lesson => [toId(lesson._id), toId(lesson.moduleId)]));
+        const fallbackDate = enrollment?.progress?.lastActivityDate || userCourse?.lastAccessed || new Date();
+
+        const lessonIds = new Set<string>([
+            ...progressRecords.map(record => toId(record.lessonId)),
+            ...completions.map(completion => toId(completion.lessonId)),
+            ...(enrollment?.progress?.completedLessons || []).map(toId),
+            ...(userCourse?.completedLessons || []).map(toId)
+        ]);
+        const enrollmentCompleted = new Set((enrollment?.progress?.completedLessons || []).map(toId));
+        const userCourseCompleted = new Set((userCourse?.completedLessons || []).map(toId));
+
+        const events: BackfillEvent[] = [];
+        let lessonTime = 0;
+
+        for (const lessonId of lessonIds) {
+            const record = progressRecords.find(item => toId(item.lessonId) === lessonId);
+            const completion = completions.find(item => toId(item.lessonId) === lessonId);
+            const moduleId = lessonModules.get(lessonId)
+                || (record ? toId(record.moduleId) : completion ? toId(completion.moduleId) : undefined);
+            const completed = record?.status === 'COMPLETED'
+                || !!completion
+                || enrollmentCompleted.has(lessonId)
+                || userCourseCompleted.has(lessonId);
+            const timeSpent = Math.max(record?.timeSpent || 0, completion?.timeSpent || 0);
+            const completedAt = earliest(record?.completedAt, completion?.completedAt) || fallbackDate;
+            const startedAt = earliest(record?.startedAt, record?.createdAt, completion?.completedAt) || completedAt;
+            lessonTime += timeSpent;
+
+            events.push({ type: 'LESSON_STARTED', lessonId, moduleId, occurredAt: startedAt });
+            if (record?.watchTimeVideo) {
+                events.push({
+                    type: 'VIDEO_WATCHED',
+                    lessonId,
+                    moduleId,
+                    videoSeconds: record.watchTimeVideo,
+                    occurredAt: record.lastAccessedAt || startedAt
+                });
+            }
+            events.push(completed
+                ? { type: 'LESSON_COMPLETED', lessonId, moduleId, timeSpent, occurredAt: completedAt }
+                : {
+                    type: 'LESSON_PROGRESSED',
+                    lessonId,
+                    moduleId,
+                    timeSpent,
+                    progressPercentage: record?.progressPercentage || 0,
+                    occurredAt: record?.lastAccessedAt || startedAt
+                });
+        }
+
+        // Quiz time was never counted towards course time, so it is not added here
+        quizResults.forEach(result => events.push({
+            type: 'QUIZ_SUBMITTED',
+            lessonId: toId(result.lessonId),
+            moduleId: lessonModules.get(toId(result.lessonId)),
+            score: result.score,
+            maxScore: result.maxScore,
+            percentage: result.percentage,
+            passed: result.isPassed,
+            occurredAt: result.completedAt
+        }));
+        quizAttempts.forEach(attempt => events.push({
+            type: 'QUIZ_SUBMITTED',
+            lessonId: toId(attempt.lessonId),
+            moduleId: lessonModules.get(toId(attempt.lessonId)) || toId(attempt.moduleId),
+            score: attempt.score,
+            maxScore: attempt.maxScore,
+            percentage: attempt.percentage,
+            passed: attempt.isPassed,
+            occurredAt: attempt.completedAt || attempt.startedAt
+        }));
+
+        // Course time that was never attributed to a lesson
+        const courseTime = Math.max(enrollment?.progress?.timeSpent || 0, userCourse?.studyTime || 0);
+        if (courseTime > lessonTime) {
+            events.push({ type: 'LESSON_PROGRESSED', timeSpent: courseTime - lessonTime, occurredAt: fallbackDate });
+        }
+
+        if (events.length === 0) {
+            return 0;
+        }
+
+        // The first event carries the course's backfill key, so when two requests
+        // backfill a course at once, the second insert stops before writing anything
+        const documents = events
+            .sort((a, b) => a.occurredAt!.getTime() - b.occurredAt!.getTime())
+            .map(event => ({ ...event, studentId, programmeId, source: 'backfill' }));
+        try {
+            await LearningEvent.insertMany([
+                { ...documents[0], dedupeKey: `backfill:${studentId}:${programmeId}` },
+                ...documents.slice(1)
+            ], { ordered: true });
+        } catch (error: any) {
+            if (error?.code === 11000) {
+                return 0;
+            }
+            throw error;
+        }
+
+        logger.info(`Backfilled ${events.length} learning event(s) for student ${studentId} in programme ${programmeId}`);
+        return events.length;
+    }
+}
+
+export default LearningLedgerService;
@@ -0,0 +1,382 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Types } from 'mongoose';
+import ProgrammeLesson, { IProgrammeLesson, ILessonPackage } from '../models/ProgrammeLesson';
+import LessonCompletion from '../models/LessonCompletion';
+import QuizAttempt, { IQuizAttempt } from '../models/QuizAttempt';
+import LearningLedgerService from './learningLedgerService';
+import QuizAttemptService from './quizAttemptService';
+import BadgeService from './badgeService';
+import { readZip, ZipEntry, ZipFormatError } from '../utils/zip';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+
+// Unpacked SCORM/xAPI packages. Kept outside `uploads/`, which is served
+// publicly, so that only the lesson's students can load them.
+export const LESSON_PACKAGES_DIR = path.join(process.cwd(), 'lesson-packages');
+
+export const SCORM_MANIFEST_FILE = 'imsmanifest.xml';
+export const XAPI_MANIFEST_FILE = 'tincan.xml';
+
+const MAX_ENTRY_SIZE = 100 * 1024 * 1024;
+const MAX_EXTRACTED_SIZE = 500 * 1024 * 1024;
+const MAX_ATTEMPT_RETRIES = 5;
+
+/**
+ * What a package reported about a student's attempt at its lesson
+ */
+export interface LessonPackageResult {
+    completed: boolean;
+    percentage?: number; // 0-100, when the package reported a score
+    passed?: boolean;
+    timeSpent?: number; // in seconds, added by this report
+    started?: boolean; // first report for the lesson
+    source: string;
+}
+
+interface PackageManifest {
+    root: string; // folder of the manifest inside the archive
+    standard: ILessonPackage['standard'];
+    title?: string;
+    launchPath: string;
+    activityId?: string;
+    masteryScore?: number;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (value: string): string =>
+    value.replace(/&(amp|lt|gt|quot|apos);/g, (_match, entity: string) => XML_ENTITIES[entity]);
+
+const attribute = (tag: string, name: string): string | undefined => {
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+    return match ? decodeXml(match[1] ?? match[2]) : undefined;
+};
+
+// Opening tags of an element, whatever its namespace prefix
+const openingTags = (xml: string, element: string): string[] =>
+    xml.match(new RegExp(`<(?:[\\w-]+:)?${element}(?=[\\s/>])[^>]*>`, 'g')) || [];
+
+// Text of the first matching element, whatever its namespace prefix
+const elementText = (xml: string, element: string): string | undefined => {
+    const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${element}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${element}>`));
+    return match ? decodeXml(match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')).trim() : undefined;
+};
+
+// xml:base values join like relative URLs: "a/" + "b/" + "index.html"
+const joinBase = (...parts: Array<string | undefined>): string =>
+    parts.filter(Boolean).join('').replace(/^\.\//, '');
+
+const normalizeEntryName = (name: string): string => {
+    const normalized = name.replace(/\\/g, '/');
+    if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized) || normalized.split('/').includes('..')) {
+        throw new ValidationError(`Package contains an unsafe file path: ${name}`);
+    }
+    return normalized.replace(/^(\.\/)+/, '');
+};
+
+class LessonPackageService {
+    /**
+     * Install a SCORM 1.2 or xAPI (TinCan) package as the content of a lesson.
+     * The package replaces any earlier one, and the lesson becomes INTERACTIVE.
+     */
+    static async install(lessonId: string, archive: Buffer): Promise<ILessonPackage> {
+        const lesson = await this.findLesson(lessonId);
+
+        let entries: ZipEntry[];
+        try {
+            entries = readZip(archive, MAX_ENTRY_SIZE, MAX_EXTRACTED_SIZE);
+        } catch (error) {
+            if (error instanceof ZipFormatError) {
+                throw new ValidationError(`Invalid package: ${error.message}`);
+            }
+            throw error;
+        }
+        const files = new Map(entries.map(entry => [normalizeEntryName(entry.name), entry.data]));
+
+        const manifest = this.readManifest(files);
+        const packageFiles = [...files].filter(([name]) => name.startsWith(manifest.root));
+        const launchFile = manifest.root + manifest.launchPath.split(/[?#]/)[0];
+        if (!files.has(launchFile)) {
+            throw new ValidationError(`Package launch file ${manifest.launchPath} is missing`);
+        }
+
+        const lessonPackage: ILessonPackage = {
+            id: crypto.randomBytes(8).toString('hex'),
+            standard: manifest.standard,
+            title: manifest.title,
+            launchPath: manifest.launchPath,
+            activityId: manifest.activityId,
+            masteryScore: manifest.masteryScore,
+            fileCount: packageFiles.length,
+            uploadedAt: new Date()
+        };
+
+        const directory = this.packageDirectory(lessonId, lessonPackage.id);
+        try {
+            for (const [name, data] of packageFiles) {
+                const target = path.join(directory, name.slice(manifest.root.length));
+                await fs.mkdir(path.dirname(target), { recursive: true });
+                await fs.writeFile(target, data);
+            }
+
+            lesson.set('content.package', lessonPackage);
+            lesson.type = 'INTERACTIVE';
+            await lesson.save();
+        } catch (error) {
+            await fs.rm(directory, { recursive: true, force: true });
+            throw error;
+        }
+
+        await this.removeFiles(lessonId, lessonPackage.id);
+        logger.info(`Installed ${lessonPackage.standard} package ${lessonPackage.id} (${lessonPackage.fileCount} files) for lesson ${lessonId}`);
+        return lessonPackage;
+    }
+
+    /**
+     * Remove a lesson's package and its files. The lesson keeps its type.
+     */
+    static async remove(lessonId: string): Promise<void> {
+        const lesson = await this.findLesson(lessonId);
+        if (!lesson.content?.package) {
+            throw new NotFoundError('Lesson package');
+        }
+
+        lesson.set('content.package', undefined);
+        await lesson.save();
+        await this.removeFiles(lessonId);
+    }
+
+    /**
+     * Path on disk of a file of the lesson's current package, or null when the
+     * path leaves the package or the file does not exist
+     */
+    static async resolveFile(lesson: IProgrammeLesson, filePath: string): Promise<string | null> {
+        const lessonPackage = lesson.content?.package;
+        if (!lessonPackage) {
+            return null;
+        }
+
+        const root = this.packageDirectory(lesson.id, lessonPackage.id);
+        const file = path.resolve(root, filePath);
+        if (!file.startsWith(root + path.sep)) {
+            return null;
+        }
+
+        const stats = await fs.stat(file).catch(() => null);
+        return stats?.isFile() ? file : null;
+    }
+
+    /**
+     * Whether a file is the page a SCORM package launches, which needs the
+     * runtime API added
+     */
+    static isScormLaunchFile(lesson: IProgrammeLesson, filePath: string): boolean {
+        const lessonPackage = lesson.content?.package;
+        return lessonPackage?.standard === 'SCORM_1_2'
+            && path.posix.normalize(filePath) === path.posix.normalize(lessonPackage.launchPath.split(/[?#]/)[0]);
+    }
+
+    /**
+     * Record what a package reported in the learning ledger. A score is kept as
+     * a quiz attempt on the lesson, so it shows up with the student's quiz
+     * results; completing the lesson or adding time is recorded as lesson progress.
+     */
+    static async recordResult(lesson: IProgrammeLesson, studentId: string, result: LessonPackageResult): Promise<void> {
+        const lessonPackage = lesson.content.package!;
+        const lessonEvent = {
+            studentId,
+            programmeId: String(lesson.programmeId),
+            moduleId: String(lesson.moduleId),
+            lessonId: lesson.id,
+            source: result.source
+        };
+        const timeSpent = Math.max(result.timeSpent || 0, 0);
+        let recorded = false;
+        let completed = false;
+
+        if (result.percentage !== undefined) {
+            const percentage = Math.round(Math.min(Math.max(result.percentage, 0), 100) * 100) / 100;
+            const passed = result.passed ?? result.completed;
+            const completedAt = new Date();
+
+            const attempt = await this.createAttempt(studentId, lesson, {
+                programmeId: lesson.programmeId,
+                moduleId: lesson.moduleId,
+                quizId: `package:${lessonPackage.id}`,
+                startedAt: new Date(completedAt.getTime() - timeSpent * 1000),
+                completedAt,
+                timeSpent: Math.round(timeSpent),
+                score: percentage,
+                maxScore: 100,
+                percentage,
+                isPassed: passed,
+                passingScore: lessonPackage.masteryScore ?? 0,
+                status: 'COMPLETED'
+            });
+            completed = await QuizAttemptService.recordAttemptResult(attempt);
+            await BadgeService.evaluateSafely(studentId, 'QUIZ_SUBMITTED', { programmeId: lessonEvent.programmeId });
+            recorded = true;
+        }
+
+        if (result.completed && !(await LessonCompletion.exists({ userId: studentId, lessonId: lesson._id }))) {
+            await LearningLedgerService.record({
+                ...lessonEvent,
+                type: 'LESSON_COMPLETED',
+                timeSpent: recorded ? 0 : timeSpent / 60
+            });
+            completed = true;
+            recorded = true;
+        }
+
+        if (!recorded && (timeSpent > 0 || result.started)) {
+            await LearningLedgerService.record({
+                ...lessonEvent,
+                type: 'LESSON_PROGRESSED',
+                timeSpent: timeSpent / 60
+            });
+        }
+
+        if (completed) {
+            await BadgeService.evaluateSafely(studentId, 'LESSON_COMPLETED', { programmeId: lessonEvent.programmeId });
+        }
+    }
+
+    /**
+     * Save a package's score as the student's next attempt on the lesson. Two
+     * reports arriving together can both pick the same attempt number; the
+     * unique index rejects the second, which then takes the number after it.
+     */
+    private static async createAttempt(studentId: string, lesson: IProgrammeLesson, fields: Record<string, unknown>): Promise<IQuizAttempt> {
+        for (let retry = 0; ; retry++) {
+            const last = await QuizAttempt.findOne({ studentId, lessonId: lesson._id })
+                .sort({ attemptNumber: -1 })
+                .select('attemptNumber');
+            try {
+                return await QuizAttempt.create({
+                    ...fields,
+                    studentId,
+                    lessonId: lesson._id,
+                    attemptNumber: (last?.attemptNumber || 0) + 1
+                });
+            } catch (error: any) {
+                if (error?.code !== 11000 || retry >= MAX_ATTEMPT_RETRIES) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    private static async findLesson(lessonId: string): Promise<IProgrammeLesson> {
+        if (!Types.ObjectId.isValid(lessonId)) {
+            throw new ValidationError('Invalid lesson ID');
+        }
+        const lesson = await ProgrammeLesson.findById(lessonId);
+        if (!lesson) {
+            throw new NotFoundError('Lesson');
+        }
+        return lesson;
+    }
+
+    private static packageDirectory(lessonId: string, packageId: string): string {
+        return path.join(LESSON_PACKAGES_DIR, lessonId, packageId);
+    }
+
+    // Remove the lesson's package folders, except the one to keep
+    private static async removeFiles(lessonId: string, keepPackageId?: string): Promise<void> {
+        const lessonDirectory = path.join(LESSON_PACKAGES_DIR, lessonId);
+        const folders = await fs.readdir(lessonDirectory).catch(() => [] as string[]);
+        for (const folder of folders.filter(name => name !== keepPackageId)) {
+            await fs.rm(path.join(lessonDirectory, folder), { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Find the package's manifest, preferring the one closest to the top of the
+     * archive so packages zipped together with their folder work too
+     */
+    private static readManifest(files: Map<string, Buffer>): PackageManifest {
+        const manifests = [...files.keys()]
+            .filter(name => [SCORM_MANIFEST_FILE, XAPI_MANIFEST_FILE].includes(path.posix.basename(name)))
+            .sort((a, b) => a.split('/').length - b.split('/').length
+                || Number(a.endsWith(XAPI_MANIFEST_FILE)) - Number(b.endsWith(XAPI_MANIFEST_FILE)));
+        if (manifests.length === 0) {
+            throw new ValidationError(`Not a SCORM or xAPI package: no ${SCORM_MANIFEST_FILE} or ${XAPI_MANIFEST_FILE} found`);
+        }
+
+        const name = manifests[0];
+        const root = name.slice(0, name.length - path.posix.basename(name).length);
+        const xml = files.get(name)!.toString('utf8').replace(/<!--[\s\S]*?-->/g, '');
+        const manifest = name.endsWith(SCORM_MANIFEST_FILE) ? this.readScormManifest(xml) : this.readXapiManifest(xml);
+        return { root, ...manifest };
+    }
+
+    private static readScormManifest(xml: string): Omit<PackageManifest, 'root'> {
+        const schemaVersion = elementText(xml, 'schemaversion') || '';
+        if (/2004|CAM 1\.3/i.test(schemaVersion)) {
+            throw new ValidationError('SCORM 2004 packages are not supported; export the package as SCORM 1.2');
+        }
+
+        const organizations = xml.match(/<(?:[\w-]+:)?organization(?=[\s>])[^>]*>[\s\S]*?<\/(?:[\w-]+:)?organization>/g) || [];
+        const defaultOrganization = attribute(openingTags(xml, 'organizations')[0] || '', 'default');
+        const organization = organizations.find(candidate =>
+            attribute(openingTags(candidate, 'organization')[0], 'identifier') === defaultOrganization) || organizations[0];
+        if (!organization) {
+            throw new ValidationError(`${SCORM_MANIFEST_FILE} has no organization to launch`);
+        }
+
+        // The first item that points at a resource is what the course opens with
+        const item = openingTags(organization, 'item').find(tag => attribute(tag, 'identifierref'));
+        if (!item) {
+            throw new ValidationError(`${SCORM_MANIFEST_FILE} has no item to launch`);
+        }
+        const itemBody = organization.slice(organization.indexOf(item) + item.length).split(/<(?:[\w-]+:)?item[\s>/]|<\/(?:[\w-]+:)?item>/)[0];
+        const masteryScore = elementText(itemBody, 'masteryscore');
+
+        const resourceId = attribute(item, 'identifierref');
+        const resource = openingTags(xml, 'resource').find(tag => attribute(tag, 'identifier') === resourceId);
+        const href = resource && attribute(resource, 'href');
+        if (!href) {
+            throw new ValidationError(`${SCORM_MANIFEST_FILE} does not name a launch file for item ${attribute(item, 'identifier') || resourceId}`);
+        }
+
+        const base = joinBase(
+            attribute(openingTags(xml, 'manifest')[0] || '', 'xml:base'),
+            attribute(openingTags(xml, 'resources')[0] || '', 'xml:base'),
+            attribute(resource, 'xml:base')
+        );
+        const parameters = attribute(item, 'parameters')?.replace(/^[?&]/, '');
+        const launchPath = joinBase(base, href) + (parameters ? `${href.includes('?') ? '&' : '?'}${parameters}` : '');
+        const mastery = Number(masteryScore);
+
+        return {
+            standard: 'SCORM_1_2',
+            title: elementText(organization, 'title'),
+            launchPath,
+            masteryScore: masteryScore && mastery >= 0 && mastery <= 100 ? mastery : undefined
+        };
+    }
+
+    private static readXapiManifest(xml: string): Omit<PackageManifest, 'root'> {
+        const activities = xml.match(/<activity(?=[\s>])[^>]*>[\s\S]*?<\/activity>/g) || [];
+        const activity = activities.find(candidate => elementText(candidate, 'launch'));
+        if (!activity) {
+            throw new ValidationError(`${XAPI_MANIFEST_FILE} has no activity with a launch file`);
+        }
+
+        const activityId = attribute(openingTags(activity, 'activity')[0], 'id');
+        if (!activityId) {
+            throw new ValidationError(`${XAPI_MANIFEST_FILE} activity has no id`);
+        }
+
+        return {
+            standard: 'XAPI',
+            title: elementText(activity, 'name'),
+            launchPath: elementText(activity, 'launch')!,
+            activityId
+        };
+    }
+}
+
+export default LessonPackageService;
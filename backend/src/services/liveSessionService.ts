@@ -0,0 +1,241 @@
+import { Types } from 'mongoose';
+import LiveSession, { ILiveSession } from '../models/LiveSession';
+import Enrollment from '../models/Enrollment';
+import Integration from '../models/Integration';
+
+export type LiveSessionStatus = 'UPCOMING' | 'LIVE' | 'COMPLETED' | 'CANCELLED';
+
+export interface StudentLiveSession {
+    id: string;
+    programmeId: string;
+    moduleId?: string;
+    title: string;
+    description: string;
+    courseTitle: string;
+    instructor: string;
+    startTime: Date;
+    endTime: Date;
+    duration: number;
+    status: LiveSessionStatus;
+    zoomLink?: string;
+    meetingId?: string;
+    password?: string;
+    maxParticipants: number;
+    currentParticipants: number;
+    topics: string[];
+    recordingUrl?: string;
+    isRsvped: boolean;
+    attended: boolean;
+}
+
+// Students may check in this many minutes before the scheduled start
+const CHECK_IN_WINDOW_MINUTES = 15;
+
+const ACTIVE_ENROLLMENT_STATUSES = ['ENROLLED', 'ACTIVE', 'COMPLETED', 'PAUSED'];
+
+export class LiveSessionService {
+    /**
+     * Derive the display status of a session from its schedule
+     */
+    static computeStatus(
+        session: Pick<ILiveSession, 'status' | 'startTime' | 'endTime'>,
+        now: Date = new Date()
+    ): LiveSessionStatus {
+        if (session.status === 'CANCELLED') {
+            return 'CANCELLED';
+        }
+        if (now < session.startTime) {
+            return 'UPCOMING';
+        }
+        return now <= session.endTime ? 'LIVE' : 'COMPLETED';
+    }
+
+    /**
+     * Whether a student can check in to the session at the given time
+     */
+    static isCheckInOpen(session: Pick<ILiveSession, 'status' | 'startTime' | 'endTime'>, now: Date = new Date()): boolean {
+        if (session.status === 'CANCELLED') {
+            return false;
+        }
+        const opensAt = new Date(session.startTime.getTime() - CHECK_IN_WINDOW_MINUTES * 60 * 1000);
+        return now >= opensAt && now <= session.endTime;
+    }
+
+    /**
+     * Minutes of the session left from a check-in at the given time; a student
+     * who checks in early is credited from the start
+     */
+    static minutesFromCheckIn(session: Pick<ILiveSession, 'startTime' | 'endTime'>, now: Date = new Date()): number {
+        const from = Math.max(now.getTime(), session.startTime.getTime());
+        return Math.max(0, Math.round((session.endTime.getTime() - from) / (60 * 1000)));
+    }
+
+    /**
+     * Look up the meeting link from the user's enabled Zoom integration
+     */
+    static async getZoomMeetingLink(userId: string): Promise<string | undefined> {
+        const integration = await Integration.findOne({ userId, platform: 'zoom', enabled: true });
+        return integration?.config?.meetingUrl || undefined;
+    }
+
+    /**
+     * Check whether a student is enrolled in a programme
+     */
+    static async isStudentEnrolled(studentId: string, programmeId: string): Promise<boolean> {
+        const enrollment = await Enrollment.exists({
+            studentId,
+            programmeId,
+            status: { $in: ACTIVE_ENROLLMENT_STATUSES }
+        });
+        return !!enrollment;
+    }
+
+    /**
+     * List live sessions for the student's enrolled programmes
+     */
+    static async getStudentSessions(studentId: string, programmeId?: string): Promise<StudentLiveSession[]> {
+        const enrollments = await Enrollment.find({
+            studentId,
+            status: { $in: ACTIVE_ENROLLMENT_STATUSES }
+        }).select('programmeId').lean();
+
+        let programmeIds = enrollments.map(enrollment => String(enrollment.programmeId));
+        if (programmeId) {
+            programmeIds = programmeIds.filter(id => id === programmeId);
+        }
+        if (programmeIds.length === 0) {
+            return [];
+        }
+
+        const sessions = await LiveSession.find({ programmeId: { $in: programmeIds } })
+            .populate('programmeId', 'title')
+            .sort({ startTime: 1 });
+
+        const now = new Date();
+        return sessions.map(session => this.toStudentSession(session, studentId, now));
+    }
+
+    /**
+     * Shape a session for the student dashboard. Meeting details are only
+     * revealed to students holding a place in a session that has not ended.
+     */
+    static toStudentSession(session: ILiveSession, studentId: string, now: Date = new Date()): StudentLiveSession {
+        const programme = session.programmeId as any;
+        const status = this.computeStatus(session, now);
+        const isRsvped = session.rsvps.some(rsvp => rsvp.studentId.toString() === studentId);
+        const attended = session.attendance.some(entry => entry.studentId.toString() === studentId);
+        const showMeetingDetails = isRsvped && (status === 'UPCOMING' || status === 'LIVE');
+
+        return {
+            id: String(session._id),
+            programmeId: programme?._id ? programme._id.toString() : String(session.programmeId),
+            moduleId: session.moduleId ? session.moduleId.toString() : undefined,
+            title: session.title,
+            description: session.description,
+            courseTitle: programme?.title || '',
+            instructor: session.instructor,
+            startTime: session.startTime,
+            endTime: session.endTime,
+            duration: session.duration,
+            status,
+            zoomLink: showMeetingDetails ? session.meetingLink : undefined,
+            meetingId: showMeetingDetails ? session.meetingId : undefined,
+            password: showMeetingDetails ? session.password : undefined,
+            maxParticipants: session.maxParticipants,
+            currentParticipants: session.rsvps.length,
+            topics: session.topics,
+            recordingUrl: status === 'COMPLETED' ? session.recordingUrl : undefined,
+            isRsvped,
+            attended
+        };
+    }
+
+    /**
+     * Reserve a place for a student. The capacity check and the push happen
+     * in a single update so concurrent RSVPs cannot overbook the session.
+     * Returns null when the session is full.
+     */
+    static async reservePlace(sessionId: string, studentId: string): Promise<ILiveSession | null> {
+        const studentObjectId = new Types.ObjectId(studentId);
+
+        const alreadyReserved = await LiveSession.findOne({ _id: sessionId, 'rsvps.studentId': studentObjectId });
+        if (alreadyReserved) {
+            return alreadyReserved;
+        }
+
+        return LiveSession.findOneAndUpdate(
+            {
+                _id: sessionId,
+                status: 'SCHEDULED',
+                'rsvps.studentId': { $ne: studentObjectId },
+                $expr: { $lt: [{ $size: '$rsvps' }, '$maxParticipants'] }
+            },
+            { $push: { rsvps: { studentId: studentObjectId, rsvpAt: new Date() } } },
+            { new: true }
+        );
+    }
+
+    /**
+     * Release a student's place in a session
+     */
+    static async releasePlace(sessionId: string, studentId: string): Promise<ILiveSession | null> {
+        return LiveSession.findByIdAndUpdate(
+            sessionId,
+            { $pull: { rsvps: { studentId: new Types.ObjectId(studentId) } } },
+            { new: true }
+        );
+    }
+
+    /**
+     * Record a student's attendance once per session and credit the time
+     * to their enrollment so it shows up in progress analytics.
+     * Returns false if attendance was already recorded.
+     */
+    static async recordAttendance(
+        session: ILiveSession,
+        studentId: string,
+        minutesAttended: number,
+        markedBy?: string
+    ): Promise<boolean> {
+        const studentObjectId = new Types.ObjectId(studentId);
+        const minutes = Math.max(0, Math.min(Math.round(minutesAttended), session.duration));
+
+        const updated = await LiveSession.updateOne(
+            { _id: session._id, 'attendance.studentId': { $ne: studentObjectId } },
+            {
+                $push: {
+                    attendance: {
+                        studentId: studentObjectId,
+                        joinedAt: new Date(),
+                        minutesAttended: minutes,
+                        markedBy: markedBy ? new Types.ObjectId(markedBy) : undefined
+                    }
+                }
+            }
+        );
+
+        if (updated.modifiedCount === 0) {
+            return false;
+        }
+
+        await Enrollment.updateOne(
+            { studentId, programmeId: session.programmeId },
+            {
+                $inc: { 'progress.timeSpent': minutes },
+                $set: { 'progress.lastActivityDate': new Date() }
+            }
+        );
+        return true;
+    }
+
+    /**
+     * Count the live sessions a student has attended
+     */
+    static async countAttendedSessions(studentId: string): Promise<number> {
+        return LiveSession.countDocuments({
+            'attendance.studentId': new Types.ObjectId(studentId)
+        });
+    }
+}
+
+export default LiveSessionService;
@@ -0,0 +1,273 @@
+import OutboundMessage, { IOutboundMessage, OutboundChannel } from '../models/OutboundMessage';
+import Integration from '../models/Integration';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import logger from '../config/logger';
+
+/**
+ * A delivery failure. Permanent failures (e.g. a webhook that was deleted)
+ * go straight to the dead letters instead of being retried; `retryAfterMs`
+ * is honoured when the destination says when to come back.
+ */
+export class DeliveryError extends Error {
+    public retryable: boolean;
+    public retryAfterMs?: number;
+
+    constructor(message: string, options: { retryable?: boolean; retryAfterMs?: number } = {}) {
+        super(message);
+        this.retryable = options.retryable ?? true;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+export type OutboundDeliverer = (message: IOutboundMessage) => Promise<void>;
+
+export interface EnqueueOptions {
+    channel: OutboundChannel;
+    destination: string;
+    description: string;
+    payload: Record<string, any>;
+    integrationId?: unknown;
+    maxAttempts?: number;
+}
+
+// Minimum gap between two deliveries to the same destination
+const RATE_LIMIT_MS: Record<OutboundChannel, number> = {
+    email: 1000,
+    webhook: 1000
+};
+
+// Retry after 30s, 1m, 2m, ... capped at an hour
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// How long a worker may hold a message before another one picks it up again
+const PROCESSING_LOCK_MS = 5 * 60 * 1000;
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Post a webhook message's JSON body. Only 5xx, 408 and 429 responses are
+ * worth retrying; other 4xx mean the webhook is gone or rejects the payload.
+ */
+const deliverWebhook: OutboundDeliverer = async message => {
+    const response = await fetch(message.destination, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(message.payload),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (response.ok) {
+        return;
+    }
+    if (response.status === 429) {
+        throw new DeliveryError('Rate limited by the destination (HTTP 429)', {
+            retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+        });
+    }
+    throw new DeliveryError(`HTTP error! status: ${response.status}`, {
+        retryable: response.status >= 500 || response.status === 408
+    });
+};
+
+const deliverers = new Map<OutboundChannel, OutboundDeliverer>([['webhook', deliverWebhook]]);
+
+/**
+ * Mongo-backed queue for outbound emails and webhook posts. Messages are
+ * delivered by `processDue` (run every few seconds by the scheduled jobs),
+ * retried with exponential backoff and kept as dead letters once they run
+ * out of attempts.
+ */
+export class NotificationQueueService {
+    /**
+     * Register how a channel is delivered. Email is registered by the email
+     * service, which owns the SMTP transport.
+     */
+    static registerDeliverer(channel: OutboundChannel, deliverer: OutboundDeliverer): void {
+        deliverers.set(channel, deliverer);
+    }
+
+    /**
+     * Queue a message for delivery
+     */
+    static async enqueue(options: EnqueueOptions): Promise<IOutboundMessage> {
+        const message = await OutboundMessage.create({
+            channel: options.channel,
+            destination: options.destination,
+            description: options.description,
+            payload: options.payload,
+            integrationId: options.integrationId,
+            ...(options.maxAttempts && { maxAttempts: options.maxAttempts })
+        });
+        logger.info(`Queued ${options.description} (${message.id})`);
+        return message;
+    }
+
+    /**
+     * Deliver the messages that are due, oldest first. Returns how many were handled.
+     */
+    static async processDue(limit: number = 50): Promise<number> {
+        let handled = 0;
+        while (handled < limit) {
+            const message = await this.claimNext();
+            if (!message) {
+                break;
+            }
+            await this.deliver(message);
+            handled++;
+        }
+        return handled;
+    }
+
+    /**
+     * Put a dead message back in the queue with a fresh set of attempts
+     */
+    static async replay(messageId: string, replayedBy: string): Promise<IOutboundMessage> {
+        const message = await OutboundMessage.findOneAndUpdate(
+            { _id: messageId, status: 'dead' },
+            {
+                $set: {
+                    status: 'pending',
+                    attempts: 0,
+                    nextAttemptAt: new Date(),
+                    replayedBy,
+                    replayedAt: new Date()
+                },
+                $unset: { deadAt: 1, lockedUntil: 1 }
+            },
+            // The payload may hold webhook URLs and message contents
+            { new: true, projection: { payload: 0 } }
+        );
+
+        if (!message) {
+            if (!(await OutboundMessage.exists({ _id: messageId }))) {
+                throw new NotFoundError('Message');
+            }
+            throw new ConflictError('Only failed deliveries can be replayed');
+        }
+
+        await this.updateIntegrationStatus(message, 'pending');
+        logger.info(`Replayed ${message.description} (${message.id})`);
+        return message;
+    }
+
+    /**
+     * Delay before the next attempt, doubling with every failed attempt
+     */
+    static retryDelay(attempts: number): number {
+        return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+    }
+
+    /**
+     * Atomically take the next due message, including ones a crashed worker left locked
+     */
+    private static async claimNext(): Promise<IOutboundMessage | null> {
+        const now = new Date();
+        return OutboundMessage.findOneAndUpdate(
+            {
+                $or: [
+                    { status: 'pending', nextAttemptAt: { $lte: now } },
+                    { status: 'processing', lockedUntil: { $lte: now } }
+                ]
+            },
+            { $set: { status: 'processing', lockedUntil: new Date(now.getTime() + PROCESSING_LOCK_MS) } },
+            { sort: { nextAttemptAt: 1 }, new: true }
+        );
+    }
+
+    private static async deliver(message: IOutboundMessage): Promise<void> {
+        const now = new Date();
+
+        // Too soon after the last delivery to this destination: wait instead of dropping it
+        const interval = RATE_LIMIT_MS[message.channel];
+        const recent = await OutboundMessage.findOne({
+            _id: { $ne: message._id },
+            destination: message.destination,
+            lastAttemptAt: { $gt: new Date(now.getTime() - interval) }
+        }).sort({ lastAttemptAt: -1 });
+        if (recent?.lastAttemptAt) {
+            message.status = 'pending';
+            message.nextAttemptAt = new Date(recent.lastAttemptAt.getTime() + interval);
+            message.lockedUntil = undefined;
+            await message.save();
+            return;
+        }
+
+        message.attempts += 1;
+        message.lastAttemptAt = now;
+        await message.save();
+
+        try {
+            const deliverer = deliverers.get(message.channel);
+            if (!deliverer) {
+                throw new DeliveryError(`No deliverer registered for ${message.channel} messages`);
+            }
+            await deliverer(message);
+
+            message.status = 'sent';
+            message.sentAt = new Date();
+            message.lockedUntil = undefined;
+            message.lastError = undefined;
+            await message.save();
+            await this.updateIntegrationStatus(message, 'success');
+        } catch (error) {
+            await this.recordFailure(message, error);
+        }
+    }
+
+    private static async recordFailure(message: IOutboundMessage, error: unknown): Promise<void> {
+        const reason = (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+        const retryable = !(error instanceof DeliveryError) || error.retryable;
+
+        message.lastError = reason;
+        message.lockedUntil = undefined;
+
+        if (!retryable || message.attempts >= message.maxAttempts) {
+            message.status = 'dead';
+            message.deadAt = new Date();
+            await message.save();
+            await this.updateIntegrationStatus(message, 'failed', `Delivery failed: ${reason}`);
+            logger.error(`Giving up on ${message.description} (${message.id}) after ${message.attempts} attempt(s): ${reason}`);
+            return;
+        }
+
+        const retryAfterMs = error instanceof DeliveryError ? error.retryAfterMs : undefined;
+        message.status = 'pending';
+        message.nextAttemptAt = new Date(Date.now() + (retryAfterMs ?? this.retryDelay(message.attempts)));
+        await message.save();
+        await this.updateIntegrationStatus(message, 'pending', `Delivery failed, retrying: ${reason}`);
+        logger.warn(`Delivery of ${message.description} (${message.id}) failed, retrying at ${message.nextAttemptAt.toISOString()}: ${reason}`);
+    }
+
+    private static async updateIntegrationStatus(
+        message: IOutboundMessage,
+        status: 'success' | 'failed' | 'pending',
+        errorMessage?: string
+    ): Promise<void> {
+        if (!message.integrationId) {
+            return;
+        }
+        try {
+            const integration = await Integration.findById(message.integrationId);
+            await integration?.updateSyncStatus(status, errorMessage);
+        } catch (error) {
+            logger.error('Failed to update integration sync status:', error);
+        }
+    }
+}
+
+export default NotificationQueueService;
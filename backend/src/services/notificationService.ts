@@ -0,0 +1,85 @@
+import Notification, { INotification } from '../models/Notification';
+import logger from '../config/logger';
+
+export interface NotificationInput {
+    type: INotification['type'];
+    title: string;
+    message: string;
+    severity?: INotification['severity'];
+    data?: Record<string, any>;
+}
+
+export class NotificationService {
+    /**
+     * Create an in-app notification for a user
+     */
+    static async notify(userId: string, input: NotificationInput): Promise<INotification> {
+        return Notification.create({
+            userId,
+            type: input.type,
+            title: input.title,
+            message: input.message,
+            severity: input.severity || 'info',
+            data: input.data
+        });
+    }
+
+    /**
+     * Create a notification without failing the caller
+     */
+    static async notifySafely(userId: string, input: NotificationInput): Promise<void> {
+        try {
+            await this.notify(userId, input);
+        } catch (error) {
+            logger.error(`Failed to create ${input.type} notification for user ${userId}:`, error);
+        }
+    }
+
+    /**
+     * Get the most recent notifications for a user
+     */
+    static async getUserNotifications(
+        userId: string,
+        options: { limit?: number; unreadOnly?: boolean } = {}
+    ): Promise<INotification[]> {
+        const filter: Record<string, any> = { userId };
+        if (options.unreadOnly) {
+            filter.read = false;
+        }
+
+        return Notification.find(filter)
+            .sort({ createdAt: -1 })
+            .limit(options.limit || 20);
+    }
+
+    /**
+     * Count unread notifications for a user
+     */
+    static async getUnreadCount(userId: string): Promise<number> {
+        return Notification.countDocuments({ userId, read: false });
+    }
+
+    /**
+     * Mark one of the user's notifications as read
+     */
+    static async markAsRead(userId: string, notificationId: string): Promise<INotification | null> {
+        return Notification.findOneAndUpdate(
+            { _id: notificationId, userId },
+            { $set: { read: true, readAt: new Date() } },
+            { new: true }
+        );
+    }
+
+    /**
+     * Mark all of the user's notifications as read
+     */
+    static async markAllAsRead(userId: string): Promise<number> {
+        const result = await Notification.updateMany(
+            { userId, read: false },
+            { $set: { read: true, readAt: new Date() } }
+        );
+        return result.modifiedCount;
+    }
+}
+
+export default NotificationService;
@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import User, { IUser } from '../models/User';
+import UserIdentity, { IUserIdentity } from '../models/UserIdentity';
+import OAuthState, { OAuthFlowMode } from '../models/OAuthState';
+import StudentProfile from '../models/StudentProfile';
+import SettingsService from './settingsService';
+import {
+    OAUTH_CONFIG,
+    OAuthProfile,
+    OAuthProviderConfig,
+    getOAuthCallbackUrl,
+    getOAuthProvider,
+    getOAuthProviders
+} from '../config/oauth';
+import { AuthenticationError, AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+
+export interface OAuthProviderSummary {
+    id: string;
+    name: string;
+}
+
+export type OAuthCallbackResult =
+    | { mode: 'login'; provider: OAuthProviderConfig; user: IUser; created: boolean }
+    | { mode: 'link'; provider: OAuthProviderConfig; identity: IUserIdentity };
+
+export interface LinkedIdentities {
+    hasPassword: boolean;
+    identities: IUserIdentity[];
+}
+
+const base64Url = (buffer: Buffer): string => buffer.toString('base64url');
+
+const hashState = (state: string): string => crypto.createHash('sha256').update(state).digest('hex');
+
+/**
+ * Username for an account created through a provider: the email's local part,
+ * with a random suffix when it is taken
+ */
+const generateUsername = async (profile: OAuthProfile): Promise<string> => {
+    const base = (profile.email?.split('@')[0] || profile.displayName || 'learner')
+        .toLowerCase()
+        .replace(/[^a-z0-9_]/g, '')
+        .slice(0, 24)
+        .padEnd(3, '0');
+
+    let candidate = base;
+    while (await User.exists({ username: candidate })) {
+        candidate = `${base}${crypto.randomInt(1000, 100000)}`;
+    }
+    return candidate;
+};
+
+export class OAuthService {
+    static listProviders(): OAuthProviderSummary[] {
+        return getOAuthProviders().map(provider => ({ id: provider.id, name: provider.name }));
+    }
+
+    /**
+     * Start an authorization code flow with PKCE and return the provider URL to
+     * send the browser to. `userId` is the signed-in user when linking.
+     */
+    static async startAuthorization(providerId: string, mode: OAuthFlowMode, userId?: string): Promise<string> {
+        const provider = this.getProvider(providerId);
+
+        const state = base64Url(crypto.randomBytes(32));
+        const codeVerifier = base64Url(crypto.randomBytes(32));
+        const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+        await OAuthState.create({
+            stateHash: hashState(state),
+            provider: provider.id,
+            codeVerifier,
+            mode,
+            userId: mode === 'link' ? userId : undefined,
+            expiresAt: new Date(Date.now() + OAUTH_CONFIG.STATE_TTL_MS)
+        });
+
+        const params = new URLSearchParams({
+            response_type: 'code',
+            client_id: provider.clientId,
+            redirect_uri: getOAuthCallbackUrl(provider.id),
+            scope: provider.scopes.join(' '),
+            state,
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256',
+            ...provider.authorizationParams
+        });
+        return `${provider.authorizationUrl}?${params.toString()}`;
+    }
+
+    /**
+     * Mode of a pending flow, so a failed callback can send the user back to
+     * the page they started from. Does not consume the state.
+     */
+    static async peekMode(state?: string): Promise<OAuthFlowMode | null> {
+        if (!state) {
+            return null;
+        }
+        const pending = await OAuthState.findOne({ stateHash: hashState(state) }).select('mode');
+        return pending?.mode || null;
+    }
+
+    /**
+     * Finish a flow when the provider redirects back: check the state, exchange
+     * the code, then sign the user in or link the identity to their account
+     */
+    static async completeAuthorization(providerId: string, code: string, state: string): Promise<OAuthCallbackResult> {
+        const provider = this.getProvider(providerId);
+
+        // Each state can only be used once
+        const pending = await OAuthState.findOneAndDelete({
+            stateHash: hashState(state || ''),
+            provider: provider.id,
+            expiresAt: { $gt: new Date() }
+        });
+        if (!pending) {
+            throw new AuthenticationError('Sign-in link has expired. Please try again.');
+        }
+
+        const accessToken = await this.exchangeCode(provider, code, pending.codeVerifier);
+        const profile = await this.fetchProfile(provider, accessToken);
+
+        if (pending.mode === 'link') {
+            const identity = await this.linkIdentity(String(pending.userId), provider, profile);
+            return { mode: 'link', provider, identity };
+        }
+
+        const { user, created } = await this.findOrCreateUser(provider, profile);
+        return { mode: 'login', provider, user, created };
+    }
+
+    /**
+     * The provider accounts linked to a user
+     */
+    static async listIdentities(userId: string): Promise<LinkedIdentities> {
+        const [user, identities] = await Promise.all([
+            User.findById(userId).select('hasPassword'),
+            UserIdentity.find({ userId }).sort({ createdAt: 1 })
+        ]);
+        if (!user) {
+            throw new NotFoundError('User');
+        }
+        return { hasPassword: user.hasPassword !== false, identities };
+    }
+
+    /**
+     * Unlink a provider account, as long as the user can still sign in another way
+     */
+    static async unlinkIdentity(userId: string, identityId: string): Promise<void> {
+        const identity = await UserIdentity.findOne({ _id: identityId, userId });
+        if (!identity) {
+            throw new NotFoundError('Linked account');
+        }
+
+        const { hasPassword, identities } = await this.listIdentities(userId);
+        if (!hasPassword && identities.length <= 1) {
+            throw new ValidationError('Set a password before unlinking your only sign-in method. Use "Forgot password" to create one.');
+        }
+
+        await identity.deleteOne();
+    }
+
+    private static getProvider(providerId: string): OAuthProviderConfig {
+        const provider = getOAuthProvider(providerId);
+        if (!provider) {
+            throw new NotFoundError('Sign-in provider');
+        }
+        return provider;
+    }
+
+    private static async exchangeCode(provider: OAuthProviderConfig, code: string, codeVerifier: string): Promise<string> {
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: getOAuthCallbackUrl(provider.id),
+            client_id: provider.clientId,
+            code_verifier: codeVerifier
+        });
+        if (provider.clientSecret) {
+            body.set('client_secret', provider.clientSecret);
+        }
+
+        const response = await fetch(provider.tokenUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+            body
+        });
+        const data = await response.json().catch(() => ({})) as { access_token?: string; error?: string };
+        if (!response.ok || !data.access_token) {
+            logger.warn(`OAuth code exchange with ${provider.id} failed: ${data.error || response.status}`);
+            throw new AuthenticationError(`Could not sign in with ${provider.name}. Please try again.`);
+        }
+        return data.access_token;
+    }
+
+    private static async fetchProfile(provider: OAuthProviderConfig, accessToken: string): Promise<OAuthProfile> {
+        const response = await fetch(provider.userInfoUrl, {
+            headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' }
+        });
+        if (!response.ok) {
+            logger.warn(`OAuth user info from ${provider.id} failed: ${response.status}`);
+            throw new AuthenticationError(`Could not sign in with ${provider.name}. Please try again.`);
+        }
+
+        const profile = await provider.mapProfile(await response.json(), accessToken);
+        if (!profile.subject) {
+            throw new AuthenticationError(`Could not sign in with ${provider.name}. Please try again.`);
+        }
+        return { ...profile, email: profile.email?.trim().toLowerCase() };
+    }
+
+    /**
+     * The user a provider account signs in as: the one it is linked to, else the
+     * user with the same verified email (linking it), else a new account
+     */
+    private static async findOrCreateUser(provider: OAuthProviderConfig, profile: OAuthProfile): Promise<{ user: IUser; created: boolean }> {
+        const identity = await UserIdentity.findOne({ provider: provider.id, subject: profile.subject });
+        if (identity) {
+            const linkedUser = await User.findById(identity.userId);
+            if (!linkedUser) {
+                await identity.deleteOne();
+                throw new AuthenticationError('The linked account no longer exists. Please try again.');
+            }
+            identity.set({ email: profile.email, displayName: profile.displayName, avatarUrl: profile.avatarUrl, lastLoginAt: new Date() });
+            await identity.save();
+            this.assertCanSignIn(linkedUser);
+            return { user: linkedUser, created: false };
+        }
+
+        // An unverified email at the provider could belong to anyone
+        if (!profile.email || !profile.emailVerified) {
+            throw new AuthenticationError(`Your ${provider.name} account has no verified email address`);
+        }
+
+        const existing = await User.findOne({ email: profile.email });
+        if (existing) {
+            // Otherwise whoever registered the address first, without proving it, would get the account
+            if (!existing.isEmailVerified) {
+                throw new ConflictError(`An account with this email is waiting for email verification. Verify it, then link ${provider.name} from your settings.`);
+            }
+            this.assertCanSignIn(existing);
+            await this.createIdentity(existing.id, provider, profile);
+            logger.info(`Linked ${provider.id} account to existing user ${existing.email} by verified email`);
+            return { user: existing, created: false };
+        }
+
+        const settings = await SettingsService.getSettings();
+        if (!settings.enableRegistration) {
+            throw new AuthorizationError('Registration is currently disabled');
+        }
+
+        // The provider vouches for the email, so the account is ready to use. It
+        // gets an unusable random password until the user sets one.
+        const salt = await bcrypt.genSalt(parseInt(process.env.BCRYPT_ROUNDS || '12'));
+        const user = new User({
+            username: await generateUsername(profile),
+            email: profile.email,
+            password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), salt),
+            hasPassword: false,
+            firstName: profile.firstName,
+            lastName: profile.lastName,
+            profilePicture: profile.avatarUrl,
+            role: settings.defaultUserRole,
+            isEmailVerified: true,
+            enrollmentStatus: 'active'
+        });
+        await user.save();
+
+        await StudentProfile.create({
+            userId: user._id,
+            statistics: {
+                joinDate: user.createdAt
+            }
+        });
+        await this.createIdentity(user.id, provider, profile);
+
+        logger.info(`New user registered with ${provider.id}: ${user.email}`);
+        return { user, created: true };
+    }
+
+    private static async linkIdentity(userId: string, provider: OAuthProviderConfig, profile: OAuthProfile): Promise<IUserIdentity> {
+        const existing = await UserIdentity.findOne({ provider: provider.id, subject: profile.subject });
+        if (existing && String(existing.userId) !== userId) {
+            throw new ConflictError(`This ${provider.name} account is already linked to another user`);
+        }
+        if (existing) {
+            return existing;
+        }
+        if (await UserIdentity.exists({ userId, provider: provider.id })) {
+            throw new ConflictError(`Unlink your current ${provider.name} account first`);
+        }
+        return this.createIdentity(userId, provider, profile);
+    }
+
+    private static createIdentity(userId: string, provider: OAuthProviderConfig, profile: OAuthProfile): Promise<IUserIdentity> {
+        return UserIdentity.create({
+            userId,
+            provider: provider.id,
+            subject: profile.subject,
+            email: profile.email,
+            emailVerified: profile.emailVerified,
+            displayName: profile.displayName,
+            avatarUrl: profile.avatarUrl,
+            lastLoginAt: new Date()
+        });
+    }
+
+    // The same checks as a password sign-in, so a provider cannot get around a lockout
+    private static assertCanSignIn(user: IUser): void {
+        if (user.enrollmentStatus !== 'active') {
+            throw new AuthenticationError('Account is not active. Please contact support.');
+        }
+        if (user.isLocked()) {
+            throw new AuthenticationError('Account is temporarily locked due to too many failed login attempts. Please try again later.');
+        }
+    }
+}
+
+export default OAuthService;
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { IPaymentOrder } from '../models/PaymentOrder';
+import { AuthenticationError } from '../utils/errors';
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded';
+
+/**
+ * A verified webhook event, normalised across providers
+ */
+export interface PaymentEvent {
+    id: string;
+    type: PaymentEventType;
+    providerOrderId: string;
+    providerPaymentId?: string;
+    providerRefundId?: string;
+    failureReason?: string;
+}
+
+export interface CheckoutSession {
+    providerOrderId: string;
+    checkoutUrl: string;
+}
+
+export interface RefundResult {
+    providerRefundId: string;
+}
+
+/**
+ * Contract every payment gateway integration implements. Amounts are passed in the
+ * programme currency's major unit; providers convert to whatever their API expects.
+ */
+export interface PaymentProvider {
+    readonly name: string;
+
+    /** Create a hosted checkout for an order and return where to send the student */
+    createCheckout(order: IPaymentOrder): Promise<CheckoutSession>;
+
+    /** Check the webhook signature and parse the event, throwing if it cannot be trusted */
+    verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+
+    /** Refund a captured payment */
+    refund(order: IPaymentOrder, amount: number): Promise<RefundResult>;
+}
+
+// Reject webhooks signed more than five minutes ago to limit replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Local provider for development and tests. It never moves money: the checkout URL
+ * points at the frontend's checkout page, which asks the backend to simulate the
+ * outcome, and webhooks are signed with a shared HMAC secret in the same way a
+ * real gateway would sign them.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake';
+
+    static readonly SIGNATURE_HEADER = 'x-fake-signature';
+
+    constructor(private readonly secret: string) {}
+
+    async createCheckout(order: IPaymentOrder): Promise<CheckoutSession> {
+        const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+        return {
+            providerOrderId: `fake_ord_${crypto.randomBytes(8).toString('hex')}`,
+            checkoutUrl: `${frontendUrl}/checkout/${order._id}`
+        };
+    }
+
+    verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+        const header = headers[FakePaymentProvider.SIGNATURE_HEADER];
+        if (typeof header !== 'string') {
+            throw new AuthenticationError('Missing webhook signature');
+        }
+
+        const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+        const timestamp = Number(parts.t);
+        if (!timestamp || !parts.v1) {
+            throw new AuthenticationError('Malformed webhook signature');
+        }
+        if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+            throw new AuthenticationError('Webhook signature has expired');
+        }
+
+        const expected = Buffer.from(this.computeSignature(timestamp, rawBody), 'hex');
+        const received = Buffer.from(parts.v1, 'hex');
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+            throw new AuthenticationError('Invalid webhook signature');
+        }
+
+        const event = JSON.parse(rawBody.toString('utf8')) as PaymentEvent;
+        if (!event.id || !event.type || !event.providerOrderId) {
+            throw new AuthenticationError('Malformed webhook payload');
+        }
+        return event;
+    }
+
+    async refund(order: IPaymentOrder, amount: number): Promise<RefundResult> {
+        if (amount <= 0 || amount > order.amount) {
+            throw new Error('Invalid refund amount');
+        }
+        return { providerRefundId: `fake_re_${crypto.randomBytes(8).toString('hex')}` };
+    }
+
+    /**
+     * Build a signed webhook request for an event, as the gateway would send it
+     */
+    signEvent(event: PaymentEvent): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+        const rawBody = Buffer.from(JSON.stringify(event), 'utf8');
+        const timestamp = Math.floor(Date.now() / 1000);
+        return {
+            rawBody,
+            headers: {
+                'content-type': 'application/json',
+                [FakePaymentProvider.SIGNATURE_HEADER]: `t=${timestamp},v1=${this.computeSignature(timestamp, rawBody)}`
+            }
+        };
+    }
+
+    private computeSignature(timestamp: number, rawBody: Buffer): string {
+        return crypto
+            .createHmac('sha256', this.secret)
+            .update(`${timestamp}.`)
+            .update(rawBody)
+            .digest('hex');
+    }
+}
+
+const providerCache = new Map<string, PaymentProvider>();
+
+/**
+ * Resolve a provider by name, defaulting to PAYMENT_PROVIDER. Real gateways are
+ * registered here alongside the fake one.
+ */
+export const getPaymentProvider = (name: string = process.env.PAYMENT_PROVIDER || 'fake'): PaymentProvider => {
+    const cached = providerCache.get(name);
+    if (cached) {
+        return cached;
+    }
+
+    let provider: PaymentProvider;
+    switch (name) {
+        case 'fake': {
+            if (process.env.NODE_ENV === 'production') {
+                throw new Error('The fake payment provider cannot be used in production');
+            }
+            provider = new FakePaymentProvider(process.env.PAYMENT_WEBHOOK_SECRET || 'fake-webhook-secret');
+            break;
+        }
+        default:
+            throw new Error(`Unknown payment provider: ${name}`);
+    }
+
+    providerCache.set(name, provider);
+    return provider;
+};
@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import PaymentOrder, { IPaymentOrder } from '../models/PaymentOrder';
+import Programme from '../models/Programme';
+import Enrollment, { IEnrollment } from '../models/Enrollment';
+import StudentProfile from '../models/StudentProfile';
+import NotificationService from './notificationService';
+import CouponService, { PriceQuote } from './couponService';
+import { getPaymentProvider, PaymentEvent, FakePaymentProvider } from './paymentProviders';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+
+// A pending order is reused for repeat checkout attempts within this window
+const PENDING_ORDER_REUSE_MS = 24 * 60 * 60 * 1000;
+
+export class PaymentService {
+    /**
+     * Start checkout for a paid programme, optionally with a coupon or referral code.
+     * Returns a pending order whose checkoutUrl the student is redirected to; enrollment
+     * happens when the provider confirms payment. Fully discounted orders are settled at once.
+     */
+    static async createCheckout(studentId: string, programmeId: string, code?: string): Promise<IPaymentOrder> {
+        const programme = await Programme.findById(programmeId);
+        if (!programme) {
+            throw new NotFoundError('Programme');
+        }
+        if (!programme.isActive) {
+            throw new ValidationError('Programme is not available for enrollment');
+        }
+        if (!programme.price || programme.price <= 0) {
+            throw new ValidationError('This programme is free and does not require checkout');
+        }
+
+        const enrollment = await Enrollment.findOne({ studentId, programmeId });
+        if (enrollment && this.hasAccess(enrollment)) {
+            throw new ConflictError('Already enrolled in this programme');
+        }
+
+        const quote = await CouponService.quote(studentId, programme, code);
+        const orderFields = {
+            studentId,
+            programmeId,
+            originalPrice: quote.originalPrice,
+            discountAmount: quote.discountAmount,
+            discountApplied: quote.discountApplied,
+            amount: quote.finalPrice,
+            currency: quote.currency,
+            enrollmentSource: quote.enrollmentSource,
+            code: quote.code,
+            couponId: quote.couponId,
+            referrerId: quote.referrerId
+        };
+
+        if (quote.finalPrice <= 0) {
+            const order = new PaymentOrder({
+                ...orderFields,
+                orderNumber: await this.generateUniqueOrderNumber(),
+                provider: 'none',
+                status: 'PAID',
+                paidAt: new Date()
+            });
+            // Access is granted at once, so the coupon's usage limits must hold first
+            await CouponService.redeem(quote, { studentId, programmeId, orderId: String(order._id) });
+            await this.activateEnrollment(order);
+            await order.save();
+            logger.info(`Payment order ${order.orderNumber} fully discounted with ${quote.code} for ${studentId}`);
+            return order;
+        }
+
+        const provider = getPaymentProvider();
+        const existing = await PaymentOrder.findOne({
+            studentId,
+            programmeId,
+            provider: provider.name,
+            status: 'PENDING',
+            amount: quote.finalPrice,
+            code: quote.code ?? { $exists: false },
+            createdAt: { $gte: new Date(Date.now() - PENDING_ORDER_REUSE_MS) }
+        }).sort({ createdAt: -1 });
+        if (existing && existing.checkoutUrl) {
+            return existing;
+        }
+
+        const order = new PaymentOrder({
+            ...orderFields,
+            orderNumber: await this.generateUniqueOrderNumber(),
+            provider: provider.name
+        });
+
+        // Hold a coupon use while the order is pending, so concurrent checkouts
+        // cannot all be discounted past the coupon's limit
+        if (quote.couponId) {
+            await CouponService.redeem(quote, { studentId, programmeId, orderId: String(order._id) });
+        }
+        try {
+            const session = await provider.createCheckout(order);
+            order.providerOrderId = session.providerOrderId;
+            order.checkoutUrl = session.checkoutUrl;
+            await order.save();
+        } catch (error) {
+            await CouponService.release(String(order._id));
+            throw error;
+        }
+
+        logger.info(`Payment order ${order.orderNumber} created for ${studentId} (${order.amount} ${order.currency})`);
+        return order;
+    }
+
+    /**
+     * Verify and apply a provider webhook. Events are applied at most once per order,
+     * so provider retries are safe; an event that fails to apply can be delivered again.
+     */
+    static async handleWebhook(providerName: string, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<IPaymentOrder | null> {
+        const provider = getPaymentProvider(providerName);
+        const event = provider.verifyWebhook(rawBody, headers);
+
+        // Claim the event atomically so concurrent deliveries are not applied twice
+        const order = await PaymentOrder.findOneAndUpdate(
+            { provider: provider.name, providerOrderId: event.providerOrderId, processedEvents: { $ne: event.id } },
+            { $push: { processedEvents: event.id } },
+            { new: true }
+        );
+        if (!order) {
+            const known = await PaymentOrder.exists({ provider: provider.name, providerOrderId: event.providerOrderId });
+            if (!known) {
+                logger.warn(`Payment webhook ${event.id} references unknown order ${event.providerOrderId}`);
+            }
+            return null;
+        }
+
+        try {
+            await this.applyEvent(order, event);
+        } catch (error) {
+            // Release the claim, so the provider's retry of this event is applied
+            await PaymentOrder.updateOne({ _id: order._id }, { $pull: { processedEvents: event.id } });
+            throw error;
+        }
+        return order;
+    }
+
+    /**
+     * Simulate the outcome of a fake-provider checkout by sending ourselves the signed
+     * webhook the gateway would have sent
+     */
+    static async completeFakeCheckout(order: IPaymentOrder, succeeded: boolean): Promise<IPaymentOrder> {
+        const provider = getPaymentProvider(order.provider);
+        if (!(provider instanceof FakePaymentProvider)) {
+            throw new ValidationError('Only fake-provider orders can be completed this way');
+        }
+        if (!order.providerOrderId) {
+            throw new ValidationError('Order has no checkout session');
+        }
+
+        const { rawBody, headers } = provider.signEvent({
+            id: `fake_evt_${crypto.randomBytes(8).toString('hex')}`,
+            type: succeeded ? 'payment.succeeded' : 'payment.failed',
+            providerOrderId: order.providerOrderId,
+            providerPaymentId: succeeded ? `fake_pay_${crypto.randomBytes(8).toString('hex')}` : undefined,
+            failureReason: succeeded ? undefined : 'Card declined'
+        });
+        await this.handleWebhook(provider.name, rawBody, headers);
+
+        return (await PaymentOrder.findById(order._id))!;
+    }
+
+    /**
+     * Refund a paid order through its provider and revoke the enrollment it granted
+     */
+    static async refundOrder(orderId: string, adminId: string, reason?: string): Promise<IPaymentOrder> {
+        const order = await PaymentOrder.findById(orderId);
+        if (!order) {
+            throw new NotFoundError('Order');
+        }
+        if (order.status !== 'PAID') {
+            throw new ConflictError(`Only paid orders can be refunded (order is ${order.status})`);
+        }
+
+        // Fully discounted orders took no payment, so there is nothing to return to the provider
+        const providerRefundId = order.amount > 0
+            ? (await getPaymentProvider(order.provider).refund(order, order.amount)).providerRefundId
+            : undefined;
+        await this.applyRefund(order, providerRefundId, reason, adminId);
+
+        logger.info(`Payment order ${order.orderNumber} refunded by ${adminId}`);
+        return order;
+    }
+
+    /**
+     * Cancel pending orders too old to be reused and give back the coupon uses they hold.
+     * A payment that still arrives for one is applied, as for a failed order.
+     */
+    static async expireStaleOrders(): Promise<number> {
+        const stale = await PaymentOrder.find({
+            status: 'PENDING',
+            createdAt: { $lt: new Date(Date.now() - PENDING_ORDER_REUSE_MS) }
+        }).select('_id couponId');
+
+        let expired = 0;
+        for (const { _id, couponId } of stale) {
+            // A webhook may have settled the order since it was listed
+            const cancelled = await PaymentOrder.updateOne(
+                { _id, status: 'PENDING' },
+                { $set: { status: 'CANCELLED', failureReason: 'Checkout expired' } }
+            );
+            if (cancelled.modifiedCount === 0) {
+                continue;
+            }
+            if (couponId) {
+                await CouponService.release(String(_id));
+            }
+            expired++;
+        }
+        return expired;
+    }
+
+    /**
+     * Whether an enrollment currently grants access to its programme
+     */
+    static hasAccess(enrollment: IEnrollment): boolean {
+        return enrollment.paymentStatus !== 'REFUNDED' && !['CANCELLED', 'EXPIRED'].includes(enrollment.status);
+    }
+
+    private static async applyEvent(order: IPaymentOrder, event: PaymentEvent): Promise<void> {
+        switch (event.type) {
+            case 'payment.succeeded':
+                if (['PENDING', 'FAILED', 'CANCELLED'].includes(order.status)) {
+                    order.status = 'PAID';
+                    order.paidAt = new Date();
+                    order.providerPaymentId = event.providerPaymentId;
+                    order.failureReason = undefined;
+                    await this.activateEnrollment(order);
+                } else {
+                    logger.warn(`Ignoring payment success for ${order.orderNumber} in status ${order.status}`);
+                }
+                break;
+            case 'payment.failed':
+                if (order.status === 'PENDING') {
+                    order.status = 'FAILED';
+                    order.failureReason = event.failureReason || 'Payment failed';
+                    if (order.couponId) {
+                        await CouponService.release(String(order._id));
+                    }
+                }
+                break;
+            case 'refund.succeeded':
+                // Refunds issued from the provider's dashboard rather than through refundOrder
+                if (order.status === 'PAID') {
+                    await this.applyRefund(order, event.providerRefundId, 'Refunded by payment provider');
+                }
+                break;
+        }
+        await order.save();
+    }
+
+    /**
+     * Grant (or restore) the enrollment a paid order bought
+     */
+    private static async activateEnrollment(order: IPaymentOrder): Promise<void> {
+        const metadata = {
+            enrollmentSource: order.enrollmentSource,
+            referralCode: order.enrollmentSource === 'REFERRAL' ? order.code : undefined,
+            couponCode: order.enrollmentSource === 'PROMOTION' ? order.code : undefined,
+            originalPrice: order.originalPrice,
+            discountApplied: order.discountApplied,
+            finalPrice: order.amount
+        };
+
+        let enrollment = await Enrollment.findOne({ studentId: order.studentId, programmeId: order.programmeId });
+        if (enrollment) {
+            enrollment.status = 'ACTIVE';
+            enrollment.paymentStatus = 'COMPLETED';
+            enrollment.paymentReference = order.orderNumber;
+            enrollment.set('metadata', metadata);
+            await enrollment.save();
+        } else {
+            enrollment = await Enrollment.create({
+                studentId: order.studentId,
+                programmeId: order.programmeId,
+                enrollmentDate: new Date(),
+                status: 'ACTIVE',
+                progress: {
+                    completedModules: [],
+                    completedLessons: [],
+                    totalProgress: 0,
+                    lastActivityDate: new Date(),
+                    timeSpent: 0
+                },
+                paymentStatus: 'COMPLETED',
+                paymentReference: order.orderNumber,
+                certificateIssued: false,
+                metadata
+            });
+            await StudentProfile.updateOne(
+                { userId: order.studentId },
+                { $inc: { 'statistics.totalCoursesEnrolled': 1 } }
+            );
+        }
+        order.enrollmentId = enrollment._id as any;
+
+        // Usually records the enrollment on the use reserved at checkout; an order paid
+        // after failing or expiring takes a use again, logged if the limit has been reached
+        if (order.code) {
+            await CouponService.redeemSafely(this.quoteFromOrder(order), {
+                studentId: String(order.studentId),
+                programmeId: String(order.programmeId),
+                enrollmentId: String(enrollment._id),
+                orderId: String(order._id)
+            });
+        }
+
+        const programme = await Programme.findById(order.programmeId).select('title');
+        await NotificationService.notifySafely(String(order.studentId), {
+            type: 'PAYMENT',
+            title: 'Payment received',
+            message: `Your payment for ${programme?.title || 'your programme'} was successful. You now have full access.`,
+            severity: 'success',
+            data: { orderId: String(order._id), programmeId: String(order.programmeId) }
+        });
+    }
+
+    private static quoteFromOrder(order: IPaymentOrder): PriceQuote {
+        return {
+            originalPrice: order.originalPrice,
+            discountAmount: order.discountAmount,
+            discountApplied: order.discountApplied,
+            finalPrice: order.amount,
+            currency: order.currency,
+            enrollmentSource: order.enrollmentSource,
+            code: order.code,
+            couponId: order.couponId ? String(order.couponId) : undefined,
+            referrerId: order.referrerId ? String(order.referrerId) : undefined
+        };
+    }
+
+    private static async applyRefund(order: IPaymentOrder, providerRefundId?: string, reason?: string, refundedBy?: string): Promise<void> {
+        order.status = 'REFUNDED';
+        order.refund = {
+            providerRefundId,
+            amount: order.amount,
+            reason,
+            refundedBy: refundedBy as any,
+            refundedAt: new Date()
+        };
+        await order.save();
+
+        await Enrollment.updateOne(
+            { studentId: order.studentId, programmeId: order.programmeId, paymentReference: order.orderNumber },
+            { $set: { paymentStatus: 'REFUNDED', status: 'CANCELLED' } }
+        );
+
+        await NotificationService.notifySafely(String(order.studentId), {
+            type: 'PAYMENT',
+            title: 'Payment refunded',
+            message: `Order ${order.orderNumber} was refunded (${order.amount} ${order.currency}). Access to the programme has ended.`,
+            severity: 'warning',
+            data: { orderId: String(order._id), programmeId: String(order.programmeId) }
+        });
+    }
+
+    private static async generateUniqueOrderNumber(): Promise<string> {
+        const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const candidate = `ORD-${datePart}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+            const taken = await PaymentOrder.exists({ orderNumber: candidate });
+            if (!taken) {
+                return candidate;
+            }
+        }
+        throw new Error('Unable to generate a unique order number');
+    }
+}
+
+export default PaymentService;
@@ -0,0 +1,115 @@
+import { Types } from 'mongoose';
+import Programme from '../models/Programme';
+import ProgrammeModule from '../models/ProgrammeModule';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import QuizAttempt from '../models/QuizAttempt';
+import Enrollment from '../models/Enrollment';
+import User, { IUser } from '../models/User';
+import { hasPermission, isProgrammeScoped, Permission } from '../config/permissions';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors';
+
+// Resources that belong to a programme, and so can be checked against an instructor's assignments
+export type ProgrammeResource = 'programme' | 'module' | 'lesson' | 'quizAttempt';
+
+// Enrollments that still give a student access to their programme
+const ACCESS_ENROLLMENT_STATUSES = ['ENROLLED', 'ACTIVE', 'COMPLETED', 'PAUSED'];
+
+const RESOURCE_LABELS: Record<ProgrammeResource, string> = {
+    programme: 'Programme',
+    module: 'Module',
+    lesson: 'Lesson',
+    quizAttempt: 'Quiz attempt'
+};
+
+export class PermissionService {
+    static can(role: string, permission: Permission): boolean {
+        return hasPermission(role, permission);
+    }
+
+    /**
+     * Programmes the user may act on, or null when the role is not limited to
+     * assigned programmes (admins)
+     */
+    static async getProgrammeScope(user: Pick<IUser, 'id' | 'role'>): Promise<string[] | null> {
+        if (!isProgrammeScoped(user.role)) {
+            return null;
+        }
+        const programmes = await Programme.find({ instructorIds: user.id }).select('_id').lean();
+        return programmes.map(programme => String(programme._id));
+    }
+
+    /**
+     * Find the programme a module, lesson or quiz attempt belongs to
+     */
+    static async resolveProgrammeId(resource: ProgrammeResource, id: string): Promise<string> {
+        if (!Types.ObjectId.isValid(id)) {
+            throw new ValidationError(`Invalid ${RESOURCE_LABELS[resource].toLowerCase()} ID`);
+        }
+
+        let owner: { programmeId?: unknown; _id?: unknown } | null;
+        switch (resource) {
+            case 'programme':
+                owner = await Programme.findById(id).select('_id').lean();
+                return owner ? String(owner._id) : this.notFound(resource);
+            case 'module':
+                owner = await ProgrammeModule.findById(id).select('programmeId').lean();
+                break;
+            case 'lesson':
+                owner = await ProgrammeLesson.findById(id).select('programmeId').lean();
+                break;
+            case 'quizAttempt':
+                owner = await QuizAttempt.findById(id).select('programmeId').lean();
+                break;
+        }
+        return owner ? String(owner.programmeId) : this.notFound(resource);
+    }
+
+    /**
+     * Throw unless every given resource belongs to a programme in scope
+     */
+    static async assertInScope(
+        scope: string[],
+        resources: { resource: ProgrammeResource; id: string }[]
+    ): Promise<void> {
+        for (const { resource, id } of resources) {
+            const programmeId = await this.resolveProgrammeId(resource, id);
+            if (!scope.includes(programmeId)) {
+                throw new AuthorizationError('You are not assigned to this programme');
+            }
+        }
+    }
+
+    /**
+     * Whether the user is enrolled in the programme
+     */
+    static async isEnrolled(userId: string, programmeId: string): Promise<boolean> {
+        const enrollment = await Enrollment.exists({
+            studentId: userId,
+            programmeId,
+            status: { $in: ACCESS_ENROLLMENT_STATUSES }
+        });
+        return !!enrollment;
+    }
+
+    /**
+     * Check that every id belongs to an instructor account before assigning
+     * them to a programme
+     */
+    static async validateInstructorIds(instructorIds: unknown): Promise<string[]> {
+        if (!Array.isArray(instructorIds) || instructorIds.some(id => !Types.ObjectId.isValid(id))) {
+            throw new ValidationError('instructorIds must be a list of user IDs');
+        }
+        const ids = [...new Set(instructorIds.map(String))];
+        const instructors = await User.countDocuments({ _id: { $in: ids }, role: 'instructor' });
+        if (instructors !== ids.length) {
+            throw new ValidationError('Every assigned instructor must be a user with the instructor role');
+        }
+        return ids;
+    }
+
+    private static notFound(resource: ProgrammeResource): never {
+        throw new NotFoundError(RESOURCE_LABELS[resource]);
+    }
+}
+
+export default PermissionService;
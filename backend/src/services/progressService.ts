@@ -6,6 +6,8 @@ import ProgrammeLesson from '../models/ProgrammeLesson';
 import QuizResult from '../models/QuizResult';
 import ProgrammeModule from '../models/ProgrammeModule';
 import type { IEnrollment } from '../models/Enrollment';
+import LearningLedgerService from './learningLedgerService';
+import BadgeService from './badgeService';
 
 export interface ProgressMetrics {
     actualProgress: number;
@@ -306,7 +308,7 @@ export class ProgressService {
     }
 
     /**
-     * Update enrollment progress atomically
+     * Record a lesson completion; the enrollment progress is projected from the learning ledger
      */
     static async updateEnrollmentProgress(
         studentId: string,
@@ -314,42 +316,16 @@ export class ProgressService {
         lessonId: string,
         timeSpent: number = 0
     ): Promise<void> {
-        const session = await Enrollment.startSession();
-        
-        try {
-            await session.withTransaction(async () => {
-                // Get enrollment and programme data
-                const [enrollment, programme] = await Promise.all([
-                    Enrollment.findOne({ studentId, programmeId }).session(session),
-                    Programme.findById(programmeId).session(session)
-                ]);
-
-                if (!enrollment || !programme) {
-                    throw new Error('Enrollment or programme not found');
-                }
-
-                // Update enrollment progress if lesson not already completed
-                if (!enrollment.progress.completedLessons.some((l: any) => l.toString() === lessonId)) {
-                    enrollment.progress.completedLessons.push(new Types.ObjectId(lessonId) as any);
-                    enrollment.progress.timeSpent += timeSpent;
-                    enrollment.progress.lastActivityDate = new Date();
-
-                    // Recalculate total progress
-                    const completionPercentage = (enrollment.progress.completedLessons.length / programme.totalLessons) * 100;
-                    enrollment.progress.totalProgress = Math.round(completionPercentage);
-
-                    // Mark course as completed if 100%
-                    if (completionPercentage >= 100 && enrollment.status === 'ACTIVE') {
-                        enrollment.status = 'COMPLETED';
-                        enrollment.completionDate = new Date();
-                    }
+        await LearningLedgerService.record({
+            studentId,
+            programmeId,
+            lessonId,
+            type: 'LESSON_COMPLETED',
+            timeSpent,
+            source: 'progressService.updateEnrollmentProgress'
+        });
 
-                    await enrollment.save({ session });
-                }
-            });
-        } finally {
-            await session.endSession();
-        }
+        await BadgeService.evaluateSafely(studentId, 'LESSON_COMPLETED', { programmeId });
     }
 
     /**
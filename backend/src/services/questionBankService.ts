@@ -0,0 +1,145 @@
+import { Types } from 'mongoose';
+import QuestionBankItem, { IQuestionBankItem } from '../models/QuestionBankItem';
+import { IProgrammeLesson, IQuestionPool } from '../models/ProgrammeLesson';
+import { QuizQuestion } from './questionScoring';
+import { ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+
+export type LessonQuiz = NonNullable<IProgrammeLesson['quiz']>;
+
+export interface QuestionTagSummary {
+    tag: string;
+    total: number;
+    byDifficulty: Record<string, number>;
+}
+
+export class QuestionBankService {
+    /**
+     * Convert a bank item to the question shape used for scoring. Bank questions
+     * are identified by their document id.
+     */
+    static toQuizQuestion(item: IQuestionBankItem): QuizQuestion {
+        return {
+            id: String(item._id),
+            question: item.question,
+            type: item.type,
+            options: item.options,
+            correctAnswer: item.correctAnswer,
+            acceptedAnswers: item.acceptedAnswers,
+            tolerance: item.tolerance,
+            partialCredit: item.partialCredit,
+            points: item.points,
+            explanation: item.explanation
+        };
+    }
+
+    /**
+     * Pick the questions for a new attempt: the quiz's inline questions followed
+     * by a fresh random draw from each question pool
+     */
+    static async buildAttemptQuestions(quiz: LessonQuiz): Promise<QuizQuestion[]> {
+        const inline = (quiz.questions || []).map(question => this.fromLessonQuestion(question));
+        const drawn = await this.drawFromPools(quiz.questionPools || []);
+        const questions = [...inline, ...drawn];
+        if (questions.length === 0) {
+            throw new ValidationError('This quiz has no questions available');
+        }
+        return questions;
+    }
+
+    /**
+     * Load the questions an attempt was given, in the order they were presented.
+     * Attempts created before question sets were recorded use the inline questions.
+     */
+    static async resolveQuestions(quiz: LessonQuiz, questionIds?: string[]): Promise<QuizQuestion[]> {
+        const inline = (quiz.questions || []).map(question => this.fromLessonQuestion(question));
+        if (!questionIds || questionIds.length === 0) {
+            return inline;
+        }
+
+        const byId = new Map(inline.map(question => [question.id, question]));
+        const bankIds = questionIds.filter(id => !byId.has(id) && Types.ObjectId.isValid(id));
+        if (bankIds.length > 0) {
+            // Inactive items are still loaded so attempts in progress can be scored
+            const items = await QuestionBankItem.find({ _id: { $in: bankIds } });
+            items.forEach(item => byId.set(String(item._id), this.toQuizQuestion(item)));
+        }
+
+        return questionIds
+            .map(id => byId.get(id))
+            .filter((question): question is QuizQuestion => !!question);
+    }
+
+    /**
+     * Draw random active questions for each pool without repeating a question
+     */
+    static async drawFromPools(pools: IQuestionPool[]): Promise<QuizQuestion[]> {
+        const drawn: QuizQuestion[] = [];
+        const picked: Types.ObjectId[] = [];
+
+        for (const pool of pools) {
+            const match: Record<string, any> = {
+                isActive: true,
+                tags: pool.tag.toLowerCase(),
+                _id: { $nin: picked }
+            };
+            if (pool.difficulty) {
+                match.difficulty = pool.difficulty;
+            }
+
+            const sample = await QuestionBankItem.aggregate([
+                { $match: match },
+                { $sample: { size: pool.count } }
+            ]);
+            if (sample.length < pool.count) {
+                logger.warn(`Question pool "${pool.tag}" has ${sample.length} of ${pool.count} requested questions`);
+            }
+
+            for (const raw of sample) {
+                picked.push(raw._id);
+                drawn.push(this.toQuizQuestion(QuestionBankItem.hydrate(raw)));
+            }
+        }
+        return drawn;
+    }
+
+    /**
+     * Tags in use with how many active questions each has per difficulty, for
+     * building question pools
+     */
+    static async getTagSummary(): Promise<QuestionTagSummary[]> {
+        const rows = await QuestionBankItem.aggregate([
+            { $match: { isActive: true } },
+            { $unwind: '$tags' },
+            { $group: { _id: { tag: '$tags', difficulty: '$difficulty' }, count: { $sum: 1 } } },
+            { $sort: { '_id.tag': 1 } }
+        ]);
+
+        const summary = new Map<string, QuestionTagSummary>();
+        for (const row of rows) {
+            const entry: QuestionTagSummary = summary.get(row._id.tag) || { tag: row._id.tag, total: 0, byDifficulty: {} };
+            entry.total += row.count;
+            entry.byDifficulty[row._id.difficulty] = row.count;
+            summary.set(row._id.tag, entry);
+        }
+        return [...summary.values()];
+    }
+
+    private static fromLessonQuestion(question: any): QuizQuestion {
+        const plain = typeof question.toObject === 'function' ? question.toObject() : question;
+        return {
+            id: plain.id,
+            question: plain.question,
+            type: plain.type,
+            options: plain.options || [],
+            correctAnswer: plain.correctAnswer,
+            acceptedAnswers: plain.acceptedAnswers || [],
+            tolerance: plain.tolerance,
+            partialCredit: plain.partialCredit,
+            points: plain.points,
+            explanation: plain.explanation
+        };
+    }
+}
+
+export default QuestionBankService;
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import { QUESTION_TYPES, MANUALLY_GRADED_TYPES, QuestionType } from '../models/QuestionBankItem';
+
+/**
+ * A quiz question as stored inline on a lesson or in the question bank.
+ * See IQuestionBankItem for the shape of `correctAnswer` per type.
+ */
+export interface QuizQuestion {
+    id: string;
+    question: string;
+    type: string;
+    options?: string[];
+    correctAnswer: any;
+    acceptedAnswers?: string[];
+    tolerance?: number;
+    partialCredit?: boolean;
+    points: number;
+    explanation?: string;
+}
+
+/**
+ * A question as sent to a student taking the quiz, without anything that gives
+ * the answer away
+ */
+export interface StudentQuestionView {
+    id: string;
+    question: string;
+    type: string;
+    options: string[];
+    matchLeft?: string[];
+    blankCount?: number;
+    points: number;
+}
+
+export interface ScoredAnswer {
+    isCorrect: boolean;
+    pointsAwarded: number;
+    credit: number; // fraction of the points earned, 0-1
+    needsReview: boolean; // left for a grader; scores nothing until graded
+}
+
+interface BlankSpec {
+    accepted?: string[];
+    pattern?: string;
+    caseSensitive?: boolean;
+}
+
+const normalizeText = (value: unknown): string => String(value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const shuffle = <T>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = crypto.randomInt(i + 1);
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null || value === '' ? [] : [value]);
+
+// TRUE_FALSE answers and keys, also accepted as the strings older quizzes stored;
+// anything else, including a blank answer, is neither true nor false
+const toBoolean = (value: unknown): boolean | undefined => {
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+    return undefined;
+};
+
+// MATCHING answers may arrive as { left: right } or as [{ left, right }]
+const toPairMap = (value: unknown): Map<string, string> => {
+    const pairs = new Map<string, string>();
+    if (Array.isArray(value)) {
+        for (const pair of value) {
+            if (pair && typeof pair === 'object') {
+                pairs.set(normalizeText((pair as any).left), normalizeText((pair as any).right));
+            }
+        }
+    } else if (value && typeof value === 'object') {
+        for (const [left, right] of Object.entries(value)) {
+            pairs.set(normalizeText(left), normalizeText(right));
+        }
+    }
+    return pairs;
+};
+
+const buildBlankPattern = (blank: BlankSpec): RegExp | null => {
+    return blank.pattern ? new RegExp(`^(?:${blank.pattern})$`, blank.caseSensitive ? '' : 'i') : null;
+};
+
+const matchesBlank = (blank: BlankSpec, answer: unknown): boolean => {
+    const text = String(answer ?? '').trim().replace(/\s+/g, ' ');
+    if (!text) {
+        return false;
+    }
+    const accepted = (blank.accepted || []).map(value => String(value).trim().replace(/\s+/g, ' '));
+    if (accepted.some(value => (blank.caseSensitive ? value === text : value.toLowerCase() === text.toLowerCase()))) {
+        return true;
+    }
+    const pattern = buildBlankPattern(blank);
+    return pattern ? pattern.test(text) : false;
+};
+
+export class QuestionScoring {
+    /**
+     * Check that a question's answer key matches its type. Returns an error
+     * message, or null when the question is valid.
+     */
+    static validate(question: Partial<QuizQuestion>): string | null {
+        const { type, options = [], correctAnswer } = question;
+        if (!type || !(QUESTION_TYPES as readonly string[]).includes(type)) {
+            return 'Invalid question type';
+        }
+        if (this.needsManualGrading(type)) {
+            return null;
+        }
+        if (correctAnswer === undefined || correctAnswer === null || correctAnswer === '') {
+            return 'A correct answer is required';
+        }
+
+        switch (type) {
+            case 'MULTIPLE_CHOICE':
+                if (options.length < 2) {
+                    return 'Multiple choice questions must have at least 2 options';
+                }
+                if (!options.includes(correctAnswer)) {
+                    return 'The correct answer must be one of the options';
+                }
+                break;
+            case 'MULTI_SELECT':
+                if (options.length < 2) {
+                    return 'Multi-select questions must have at least 2 options';
+                }
+                if (!Array.isArray(correctAnswer) || correctAnswer.length === 0 || correctAnswer.some(answer => !options.includes(answer))) {
+                    return 'Multi-select questions need one or more correct options';
+                }
+                break;
+            case 'TRUE_FALSE':
+                if (toBoolean(correctAnswer) === undefined) {
+                    return 'True/false questions need a boolean correct answer';
+                }
+                break;
+            case 'NUMERIC':
+                if (!Number.isFinite(Number(correctAnswer))) {
+                    return 'Numeric questions need a numeric correct answer';
+                }
+                if (question.tolerance !== undefined && (!Number.isFinite(question.tolerance) || question.tolerance < 0)) {
+                    return 'Tolerance must be a positive number';
+                }
+                break;
+            case 'ORDERING':
+                if (!Array.isArray(correctAnswer) || correctAnswer.length < 2) {
+                    return 'Ordering questions need at least 2 items in their correct order';
+                }
+                break;
+            case 'MATCHING':
+                if (!Array.isArray(correctAnswer) || correctAnswer.length < 2
+                    || correctAnswer.some(pair => !pair || !String(pair.left ?? '').trim() || !String(pair.right ?? '').trim())) {
+                    return 'Matching questions need at least 2 complete pairs';
+                }
+                break;
+            case 'FILL_IN_BLANK':
+                if (!Array.isArray(correctAnswer) || correctAnswer.length === 0) {
+                    return 'Fill-in-the-blank questions need at least one blank';
+                }
+                for (const blank of correctAnswer as BlankSpec[]) {
+                    if (!blank || ((!blank.accepted || blank.accepted.length === 0) && !blank.pattern)) {
+                        return 'Each blank needs accepted answers or a pattern';
+                    }
+                    try {
+                        buildBlankPattern(blank);
+                    } catch {
+                        return `Invalid pattern: ${blank.pattern}`;
+                    }
+                }
+                break;
+        }
+        return null;
+    }
+
+    /**
+     * Whether answers to this question type are scored by a grader
+     */
+    static needsManualGrading(type: string): boolean {
+        return MANUALLY_GRADED_TYPES.includes(type as QuestionType);
+    }
+
+    /**
+     * Score a student's answer. Questions with `partialCredit` earn a share of
+     * their points for partly correct multi-part answers. Manually graded answers
+     * score nothing here and are flagged for review.
+     */
+    static score(question: QuizQuestion, answer: unknown): ScoredAnswer {
+        if (this.needsManualGrading(question.type)) {
+            // A blank answer has nothing to grade
+            return { isCorrect: false, pointsAwarded: 0, credit: 0, needsReview: String(answer ?? '').trim() !== '' };
+        }
+
+        let credit = 0;
+        let partial = 0;
+
+        switch (question.type) {
+            case 'MULTIPLE_CHOICE':
+                credit = normalizeText(answer) === normalizeText(question.correctAnswer) ? 1 : 0;
+                break;
+            case 'TRUE_FALSE': {
+                const given = toBoolean(answer);
+                credit = given !== undefined && given === toBoolean(question.correctAnswer) ? 1 : 0;
+                break;
+            }
+            case 'SHORT_ANSWER': {
+                const accepted = [question.correctAnswer, ...(question.acceptedAnswers || [])].map(normalizeText);
+                credit = accepted.includes(normalizeText(answer)) ? 1 : 0;
+                break;
+            }
+            case 'NUMERIC': {
+                const value = typeof answer === 'string' && answer.trim() === '' ? NaN : Number(answer);
+                credit = Number.isFinite(value) && Math.abs(value - Number(question.correctAnswer)) <= (question.tolerance || 0) + 1e-9 ? 1 : 0;
+                break;
+            }
+            case 'MULTI_SELECT': {
+                const correct = new Set(toArray(question.correctAnswer).map(normalizeText));
+                const chosen = new Set(toArray(answer).map(normalizeText));
+                const hits = [...chosen].filter(option => correct.has(option)).length;
+                const misses = chosen.size - hits;
+                credit = hits === correct.size && misses === 0 ? 1 : 0;
+                // Wrong picks cancel right ones so selecting everything earns nothing
+                partial = Math.max(0, (hits - misses) / correct.size);
+                break;
+            }
+            case 'ORDERING': {
+                const expected = toArray(question.correctAnswer).map(normalizeText);
+                const given = toArray(answer).map(normalizeText);
+                const inPlace = expected.filter((item, index) => given[index] === item).length;
+                credit = inPlace === expected.length && given.length === expected.length ? 1 : 0;
+                partial = inPlace / expected.length;
+                break;
+            }
+            case 'MATCHING': {
+                const expected = toPairMap(question.correctAnswer);
+                const given = toPairMap(answer);
+                const matched = [...expected].filter(([left, right]) => given.get(left) === right).length;
+                credit = matched === expected.size ? 1 : 0;
+                partial = matched / expected.size;
+                break;
+            }
+            case 'FILL_IN_BLANK': {
+                const blanks = toArray(question.correctAnswer) as BlankSpec[];
+                const given = toArray(answer);
+                const filled = blanks.filter((blank, index) => matchesBlank(blank, given[index])).length;
+                credit = filled === blanks.length ? 1 : 0;
+                partial = filled / blanks.length;
+                break;
+            }
+        }
+
+        if (credit < 1 && question.partialCredit) {
+            credit = partial;
+        }
+        return {
+            isCorrect: credit === 1,
+            pointsAwarded: Math.round(question.points * credit * 100) / 100,
+            credit,
+            needsReview: false
+        };
+    }
+
+    /**
+     * The options a student chooses from, in the order they are shown. Ordering
+     * items and matching answers are always shuffled so their order gives nothing
+     * away; choice options are shuffled when `randomize` is set.
+     */
+    static presentOptions(question: QuizQuestion, randomize = false): string[] {
+        switch (question.type) {
+            case 'ORDERING':
+                return shuffle(toArray(question.correctAnswer).map(String));
+            case 'MATCHING':
+                return shuffle((toArray(question.correctAnswer) as { right: string }[]).map(pair => String(pair.right)));
+            case 'FILL_IN_BLANK':
+                return [];
+            case 'MULTIPLE_CHOICE':
+            case 'MULTI_SELECT':
+                return randomize ? shuffle(question.options || []) : [...(question.options || [])];
+            default:
+                return question.options || [];
+        }
+    }
+
+    /**
+     * Strip the answer key from a question before sending it to a student. Pass
+     * the options recorded on an attempt to show them in the same order again.
+     */
+    static toStudentView(question: QuizQuestion, options: string[] = QuestionScoring.presentOptions(question)): StudentQuestionView {
+        const view: StudentQuestionView = {
+            id: question.id,
+            question: question.question,
+            type: question.type,
+            options,
+            points: question.points
+        };
+
+        switch (question.type) {
+            case 'MATCHING':
+                view.matchLeft = (toArray(question.correctAnswer) as { left: string }[]).map(pair => pair.left);
+                break;
+            case 'FILL_IN_BLANK':
+                view.blankCount = toArray(question.correctAnswer).length;
+                break;
+        }
+        return view;
+    }
+}
+
+export default QuestionScoring;
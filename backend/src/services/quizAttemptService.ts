@@ -0,0 +1,205 @@
+import QuizAttempt, { IQuizAttempt } from '../models/QuizAttempt';
+import LessonCompletion from '../models/LessonCompletion';
+import QuestionBankService, { LessonQuiz } from './questionBankService';
+import QuestionScoring, { QuizQuestion, StudentQuestionView, shuffle } from './questionScoring';
+import LearningLedgerService from './learningLedgerService';
+import logger from '../config/logger';
+
+// Submissions that arrive shortly after the deadline are still accepted, since
+// the client auto-submits when its timer runs out
+export const ATTEMPT_GRACE_SECONDS = 30;
+
+export interface QuizAttemptSettings {
+    timeLimit?: number; // in minutes
+    maxAttempts: number | null; // null means unlimited
+    retakeCooldownMinutes: number;
+    questionsRandomized: boolean;
+    optionsRandomized: boolean;
+}
+
+export interface AttemptEligibility {
+    canAttempt: boolean;
+    reason?: string;
+    attemptsUsed: number;
+    maxAttempts: number | null;
+    attemptsRemaining: number | null;
+    nextAttemptAt?: Date;
+    inProgressAttemptId?: string;
+}
+
+export interface AttemptPresentation {
+    questions: QuizQuestion[];
+    optionOrder: { questionId: string; options: string[] }[];
+}
+
+export class QuizAttemptService {
+    /**
+     * Resolve the attempt rules of a quiz. Older quizzes keep their time limit
+     * at the top level rather than under `settings`.
+     */
+    static getSettings(quiz: LessonQuiz): QuizAttemptSettings {
+        const settings = (quiz as any).settings || {};
+        const allowMultipleAttempts = settings.allowMultipleAttempts ?? true;
+        const maxAttempts = Number(settings.maxAttempts) > 0 ? Number(settings.maxAttempts) : null;
+
+        return {
+            timeLimit: quiz.timeLimit || settings.timeLimit || undefined,
+            maxAttempts: allowMultipleAttempts ? maxAttempts : 1,
+            retakeCooldownMinutes: Number(settings.retakeCooldownMinutes) || 0,
+            questionsRandomized: settings.questionsRandomized ?? false,
+            optionsRandomized: settings.optionsRandomized ?? false
+        };
+    }
+
+    /**
+     * Check whether a student may start an attempt. An attempt already in
+     * progress can always be resumed; otherwise the attempt limit and the
+     * cooldown since the last finished attempt apply.
+     */
+    static async getEligibility(studentId: string, lessonId: string, quiz: LessonQuiz): Promise<AttemptEligibility> {
+        const settings = this.getSettings(quiz);
+        const attempts = await QuizAttempt.find({ studentId, lessonId, isDeleted: false })
+            .select('status completedAt')
+            .sort({ completedAt: -1 });
+
+        const inProgress = attempts.find(attempt => attempt.status === 'IN_PROGRESS');
+        const finished = attempts.filter(attempt => attempt.status !== 'IN_PROGRESS');
+        const attemptsUsed = finished.length;
+        const attemptsRemaining = settings.maxAttempts === null ? null : Math.max(settings.maxAttempts - attemptsUsed, 0);
+        const eligibility: AttemptEligibility = {
+            canAttempt: true,
+            attemptsUsed,
+            maxAttempts: settings.maxAttempts,
+            attemptsRemaining
+        };
+
+        if (inProgress) {
+            eligibility.inProgressAttemptId = inProgress.id;
+            return eligibility;
+        }
+
+        if (attemptsRemaining === 0) {
+            eligibility.canAttempt = false;
+            eligibility.reason = `You have used all ${settings.maxAttempts} attempt(s) for this quiz`;
+            return eligibility;
+        }
+
+        const lastCompletedAt = finished[0]?.completedAt;
+        if (settings.retakeCooldownMinutes > 0 && lastCompletedAt) {
+            const nextAttemptAt = new Date(lastCompletedAt.getTime() + settings.retakeCooldownMinutes * 60 * 1000);
+            if (nextAttemptAt > new Date()) {
+                eligibility.canAttempt = false;
+                eligibility.nextAttemptAt = nextAttemptAt;
+                eligibility.reason = `You can retake this quiz after ${nextAttemptAt.toISOString()}`;
+            }
+        }
+        return eligibility;
+    }
+
+    /**
+     * Pick the questions for a new attempt and fix the order they are shown in.
+     * The order is stored on the attempt so it survives a page reload.
+     */
+    static async buildPresentation(quiz: LessonQuiz): Promise<AttemptPresentation> {
+        const settings = this.getSettings(quiz);
+        const drawn = await QuestionBankService.buildAttemptQuestions(quiz);
+        const questions = settings.questionsRandomized ? shuffle(drawn) : drawn;
+
+        return {
+            questions,
+            optionOrder: questions.map(question => ({
+                questionId: question.id,
+                options: QuestionScoring.presentOptions(question, settings.optionsRandomized)
+            }))
+        };
+    }
+
+    /**
+     * Student views of an attempt's questions, with options in the recorded order
+     */
+    static toStudentQuestions(attempt: IQuizAttempt, questions: QuizQuestion[]): StudentQuestionView[] {
+        const orders = new Map((attempt.optionOrder || []).map(order => [order.questionId, order.options]));
+        return questions.map(question => {
+            const options = orders.get(question.id);
+            return options ? QuestionScoring.toStudentView(question, options) : QuestionScoring.toStudentView(question);
+        });
+    }
+
+    /**
+     * Whether an attempt's time limit, plus the grace period, has passed
+     */
+    static isOverdue(attempt: IQuizAttempt, now: Date = new Date()): boolean {
+        return !!attempt.expiresAt && now.getTime() > attempt.expiresAt.getTime() + ATTEMPT_GRACE_SECONDS * 1000;
+    }
+
+    /**
+     * Record a finished attempt in the learning ledger, completing the quiz's
+     * lesson when it passed. Attempts waiting for a grader are recorded once graded.
+     * Returns whether the lesson was completed by this attempt.
+     */
+    static async recordAttemptResult(attempt: IQuizAttempt): Promise<boolean> {
+        if (attempt.status !== 'COMPLETED') {
+            return false;
+        }
+
+        const studentId = String(attempt.studentId);
+        const quizEvent = {
+            studentId,
+            programmeId: String(attempt.programmeId),
+            moduleId: String(attempt.moduleId),
+            lessonId: String(attempt.lessonId),
+            occurredAt: attempt.gradedAt || attempt.completedAt || new Date(),
+            source: 'quizAttempt'
+        };
+        await LearningLedgerService.record({
+            ...quizEvent,
+            type: 'QUIZ_SUBMITTED',
+            timeSpent: Math.round(attempt.timeSpent / 60), // Convert to minutes
+            score: attempt.score,
+            maxScore: attempt.maxScore,
+            percentage: attempt.percentage,
+            passed: attempt.isPassed
+        });
+
+        if (!attempt.isPassed || await LessonCompletion.exists({ userId: studentId, lessonId: attempt.lessonId })) {
+            return false;
+        }
+
+        await LearningLedgerService.record({ ...quizEvent, type: 'LESSON_COMPLETED' });
+        logger.info(`Lesson completed through quiz: User ${studentId}, Lesson ${attempt.lessonId}`);
+        return true;
+    }
+
+    /**
+     * Mark overdue in-progress attempts as EXPIRED. An expired attempt scores
+     * nothing and counts towards the attempt limit. Pass an attempt id to expire
+     * a single attempt.
+     */
+    static async expireOverdueAttempts(attemptId?: string): Promise<number> {
+        const filter: Record<string, any> = {
+            status: 'IN_PROGRESS',
+            expiresAt: { $lte: new Date(Date.now() - ATTEMPT_GRACE_SECONDS * 1000) }
+        };
+        if (attemptId) {
+            filter._id = attemptId;
+        }
+
+        const result = await QuizAttempt.updateMany(filter, [{
+            $set: {
+                status: 'EXPIRED',
+                completedAt: '$expiresAt',
+                timeSpent: { $round: [{ $divide: [{ $subtract: ['$expiresAt', '$startedAt'] }, 1000] }, 0] },
+                score: 0,
+                percentage: 0,
+                isPassed: false
+            }
+        }]);
+
+        if (result.modifiedCount > 0) {
+            logger.info(`Expired ${result.modifiedCount} overdue quiz attempt(s)`);
+        }
+        return result.modifiedCount;
+    }
+}
+
+export default QuizAttemptService;
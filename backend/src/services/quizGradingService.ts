@@ -0,0 +1,219 @@
+import QuizAttempt, { IQuizAttempt } from '../models/QuizAttempt';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import QuestionBankService from './questionBankService';
+import QuizAttemptService from './quizAttemptService';
+import { QuizQuestion } from './questionScoring';
+import BadgeService from './badgeService';
+import NotificationService from './notificationService';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+import logger from '../config/logger';
+
+export interface AnswerGradeInput {
+    questionId: string;
+    pointsAwarded: number;
+    comment?: string;
+}
+
+export interface GradingQueueFilters {
+    programmeId?: string;
+    programmeIds?: string[]; // limit the queue to these programmes (an instructor's assignments)
+    lessonId?: string;
+    page: number;
+    limit: number;
+}
+
+export interface GradingQuestion extends QuizQuestion {
+    answer: any;
+    isCorrect: boolean;
+    pointsAwarded: number;
+    needsReview: boolean;
+    graderComment?: string;
+}
+
+const STUDENT_FIELDS = 'firstName lastName email username';
+
+export class QuizGradingService {
+    /**
+     * Attempts waiting for a grader, oldest submission first
+     */
+    static async getQueue(filters: GradingQueueFilters) {
+        const query: Record<string, any> = { status: 'PENDING_REVIEW', isDeleted: false };
+        if (filters.programmeIds) {
+            query.programmeId = { $in: filters.programmeIds };
+        }
+        if (filters.programmeId) {
+            query.programmeId = filters.programmeId;
+        }
+        if (filters.lessonId) {
+            query.lessonId = filters.lessonId;
+        }
+
+        const [attempts, total] = await Promise.all([
+            QuizAttempt.find(query)
+                .populate('studentId', STUDENT_FIELDS)
+                .populate('lessonId', 'title')
+                .populate('programmeId', 'title')
+                .sort({ completedAt: 1 })
+                .skip((filters.page - 1) * filters.limit)
+                .limit(filters.limit),
+            QuizAttempt.countDocuments(query)
+        ]);
+
+        return {
+            attempts: attempts.map(attempt => ({
+                id: attempt.id,
+                student: attempt.studentId,
+                lesson: attempt.lessonId,
+                programme: attempt.programmeId,
+                attemptNumber: attempt.attemptNumber,
+                completedAt: attempt.completedAt,
+                score: attempt.score,
+                maxScore: attempt.maxScore,
+                answersToGrade: attempt.answers.filter(answer => answer.needsReview).length
+            })),
+            pagination: {
+                page: filters.page,
+                limit: filters.limit,
+                total,
+                pages: Math.ceil(total / filters.limit)
+            }
+        };
+    }
+
+    /**
+     * An attempt with each question, its answer key and the student's answer
+     */
+    static async getAttemptForGrading(attemptId: string) {
+        const attempt = await QuizAttempt.findOne({ _id: attemptId, isDeleted: false });
+        if (!attempt) {
+            throw new NotFoundError('Quiz attempt');
+        }
+
+        const questions = await this.loadQuestions(attempt);
+        await attempt.populate([
+            { path: 'studentId', select: STUDENT_FIELDS },
+            { path: 'lessonId', select: 'title' }
+        ]);
+        const answers = new Map(attempt.answers.map(answer => [answer.questionId, answer]));
+
+        const gradingQuestions: GradingQuestion[] = questions.map(question => {
+            const answer = answers.get(question.id);
+            return {
+                ...question,
+                answer: answer?.answer ?? '',
+                isCorrect: answer?.isCorrect || false,
+                pointsAwarded: answer?.pointsAwarded || 0,
+                needsReview: answer?.needsReview || false,
+                graderComment: answer?.graderComment
+            };
+        });
+
+        return {
+            id: attempt.id,
+            student: attempt.studentId,
+            lesson: attempt.lessonId,
+            attemptNumber: attempt.attemptNumber,
+            status: attempt.status,
+            completedAt: attempt.completedAt,
+            score: attempt.score,
+            maxScore: attempt.maxScore,
+            passingScore: attempt.passingScore,
+            feedback: attempt.feedback,
+            questions: gradingQuestions
+        };
+    }
+
+    /**
+     * Award points and comments to answers of a pending attempt. Once no answer
+     * needs review the score, percentage and pass status are recomputed, the
+     * student is notified, and a pass completes the lesson.
+     */
+    static async gradeAttempt(
+        attemptId: string,
+        graderId: string,
+        grades: AnswerGradeInput[],
+        feedback?: string
+    ): Promise<IQuizAttempt> {
+        const attempt = await QuizAttempt.findOne({ _id: attemptId, isDeleted: false });
+        if (!attempt) {
+            throw new NotFoundError('Quiz attempt');
+        }
+        if (attempt.status !== 'PENDING_REVIEW') {
+            throw new ConflictError('Only attempts waiting for review can be graded');
+        }
+
+        const questions = new Map((await this.loadQuestions(attempt)).map(question => [question.id, question]));
+        const gradedAt = new Date();
+
+        for (const grade of grades) {
+            const question = questions.get(grade.questionId);
+            const answer = attempt.answers.find(entry => entry.questionId === grade.questionId);
+            if (!question || !answer) {
+                throw new ValidationError(`Question ${grade.questionId} is not part of this attempt`);
+            }
+
+            const points = Number(grade.pointsAwarded);
+            if (!Number.isFinite(points) || points < 0 || points > question.points) {
+                throw new ValidationError(`Points for "${question.question}" must be between 0 and ${question.points}`);
+            }
+
+            answer.pointsAwarded = Math.round(points * 100) / 100;
+            answer.isCorrect = answer.pointsAwarded === question.points;
+            answer.needsReview = false;
+            answer.graderComment = grade.comment;
+            answer.gradedBy = graderId as any;
+            answer.gradedAt = gradedAt;
+        }
+
+        if (feedback !== undefined) {
+            attempt.feedback = feedback;
+        }
+
+        const finished = !attempt.answers.some(answer => answer.needsReview);
+        attempt.score = Math.round(attempt.answers.reduce((sum, answer) => sum + answer.pointsAwarded, 0) * 100) / 100;
+        attempt.percentage = attempt.maxScore > 0 ? Math.round((attempt.score / attempt.maxScore) * 100) : 0;
+
+        if (finished) {
+            attempt.status = 'COMPLETED';
+            attempt.isPassed = attempt.percentage >= attempt.passingScore;
+            attempt.flaggedForReview = false;
+            attempt.gradedBy = graderId as any;
+            attempt.gradedAt = gradedAt;
+        }
+        await attempt.save();
+
+        if (finished) {
+            await this.finishGrading(attempt);
+        }
+        logger.info(`Quiz attempt ${attempt.id} graded by ${graderId}${finished ? ' (complete)' : ''}`);
+        return attempt;
+    }
+
+    private static async finishGrading(attempt: IQuizAttempt): Promise<void> {
+        const studentId = String(attempt.studentId);
+        const lesson = await ProgrammeLesson.findById(attempt.lessonId).select('title');
+
+        await QuizAttemptService.recordAttemptResult(attempt);
+        await NotificationService.notifySafely(studentId, {
+            type: 'QUIZ_GRADED',
+            title: `Your quiz${lesson ? ` for "${lesson.title}"` : ''} has been graded`,
+            message: attempt.isPassed
+                ? `You scored ${attempt.percentage}% and passed.`
+                : `You scored ${attempt.percentage}%. The passing score is ${attempt.passingScore}%.`,
+            severity: attempt.isPassed ? 'success' : 'info',
+            data: { attemptId: attempt.id, lessonId: attempt.lessonId, percentage: attempt.percentage, isPassed: attempt.isPassed }
+        });
+        await BadgeService.evaluateSafely(studentId, 'QUIZ_SUBMITTED', { programmeId: String(attempt.programmeId) });
+    }
+
+    private static async loadQuestions(attempt: IQuizAttempt): Promise<QuizQuestion[]> {
+        const lesson = await ProgrammeLesson.findById(attempt.lessonId);
+        const quiz = lesson?.quiz || lesson?.content?.quiz;
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+        return QuestionBankService.resolveQuestions(quiz, attempt.questionIds);
+    }
+}
+
+export default QuizGradingService;
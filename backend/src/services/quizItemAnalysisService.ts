@@ -0,0 +1,229 @@
+import { Types } from 'mongoose';
+import QuizAttempt from '../models/QuizAttempt';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import QuestionBankService from './questionBankService';
+import { QuizQuestion } from './questionScoring';
+import { NotFoundError } from '../utils/errors';
+
+// Below this many responses the statistics are too noisy to flag a question
+export const MIN_RESPONSES_FOR_FLAGS = 10;
+
+export const ITEM_FLAGS = [
+    'TOO_EASY',
+    'TOO_HARD',
+    'LOW_DISCRIMINATION',
+    'NEGATIVE_DISCRIMINATION',
+    'DISTRACTOR_OUTSCORES_KEY',
+    'UNUSED_DISTRACTOR'
+] as const;
+export type ItemFlag = typeof ITEM_FLAGS[number];
+
+const THRESHOLDS = {
+    tooEasy: 0.9, // p-value above
+    tooHard: 0.25, // p-value below
+    lowDiscrimination: 0.2, // point-biserial below
+    unusedDistractor: 0.05 // share of responses below
+};
+
+export interface OptionFrequency {
+    option: string;
+    isCorrect: boolean;
+    count: number;
+    rate: number; // share of responses that chose the option, 0-1
+}
+
+export interface ItemStatistics {
+    questionId: string;
+    question: string;
+    type: string;
+    points: number;
+    responses: number;
+    pValue: number | null; // mean share of the points earned, 0-1; higher is easier
+    pointBiserial: number | null; // correlation with the rest of the quiz score, -1 to 1
+    averageTimeSpent: number | null; // seconds, over answers that recorded a time
+    options: OptionFrequency[]; // choice questions only
+    omitted: number;
+    flags: ItemFlag[];
+    needsReview: boolean;
+}
+
+export interface QuizItemAnalysis {
+    lessonId: string;
+    attemptsAnalyzed: number;
+    minResponsesForFlags: number;
+    items: ItemStatistics[];
+}
+
+const round = (value: number, digits = 3): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const normalizeText = (value: unknown): string => String(value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isBlank = (value: unknown): boolean =>
+    value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Pearson correlation; null when either series has no variance
+ */
+const correlation = (xs: number[], ys: number[]): number | null => {
+    if (xs.length < 2) {
+        return null;
+    }
+    const meanX = mean(xs);
+    const meanY = mean(ys);
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    xs.forEach((x, i) => {
+        covariance += (x - meanX) * (ys[i] - meanY);
+        varianceX += (x - meanX) ** 2;
+        varianceY += (ys[i] - meanY) ** 2;
+    });
+    return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// The options a student could pick from and which of them are keyed correct
+const choiceOptions = (question: QuizQuestion): { option: string; isCorrect: boolean }[] => {
+    switch (question.type) {
+        case 'MULTIPLE_CHOICE':
+            return (question.options || []).map(option => ({
+                option,
+                isCorrect: normalizeText(option) === normalizeText(question.correctAnswer)
+            }));
+        case 'MULTI_SELECT': {
+            const correct = new Set((question.correctAnswer || []).map(normalizeText));
+            return (question.options || []).map(option => ({ option, isCorrect: correct.has(normalizeText(option)) }));
+        }
+        case 'TRUE_FALSE': {
+            const correct = question.correctAnswer === true || question.correctAnswer === 'true';
+            return [{ option: 'True', isCorrect: correct }, { option: 'False', isCorrect: !correct }];
+        }
+        default:
+            return [];
+    }
+};
+
+interface ItemResponse {
+    credit: number; // share of the question's points earned, 0-1
+    restScore: number; // percentage earned on the other questions of the attempt
+    answer: unknown;
+    timeSpent?: number;
+}
+
+export class QuizItemAnalysisService {
+    /**
+     * Per-question statistics across the completed attempts of a lesson's quiz:
+     * difficulty (p-value), discrimination (point-biserial against the score on
+     * the remaining questions), how often each option was chosen and the average
+     * time taken. Questions whose statistics fall outside the usual bounds are
+     * flagged for review.
+     */
+    static async analyze(lessonId: string): Promise<QuizItemAnalysis> {
+        const lesson = await ProgrammeLesson.findById(lessonId);
+        const quiz = lesson?.quiz || lesson?.content?.quiz;
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        const attempts = await QuizAttempt.find({
+            lessonId: new Types.ObjectId(lessonId),
+            status: 'COMPLETED',
+            isDeleted: false
+        }).select('answers score maxScore');
+
+        // Inline questions first in quiz order, then bank questions as first seen
+        const inlineIds = (quiz.questions || []).map((question: any) => String(question.id));
+        const answeredIds = attempts.flatMap(attempt => attempt.answers.map(answer => answer.questionId));
+        const questionIds = [...new Set([...inlineIds, ...answeredIds])];
+        const questions = await QuestionBankService.resolveQuestions(quiz, questionIds);
+
+        const responses = new Map<string, ItemResponse[]>(questions.map(question => [question.id, []]));
+        const points = new Map(questions.map(question => [question.id, question.points]));
+        for (const attempt of attempts) {
+            for (const answer of attempt.answers) {
+                const questionPoints = points.get(answer.questionId);
+                if (questionPoints === undefined) {
+                    continue;
+                }
+                const otherPoints = attempt.maxScore - questionPoints;
+                responses.get(answer.questionId)!.push({
+                    credit: questionPoints > 0 ? Math.min(answer.pointsAwarded / questionPoints, 1) : 0,
+                    restScore: otherPoints > 0 ? ((attempt.score - answer.pointsAwarded) / otherPoints) * 100 : 0,
+                    answer: answer.answer,
+                    timeSpent: answer.timeSpent
+                });
+            }
+        }
+
+        return {
+            lessonId,
+            attemptsAnalyzed: attempts.length,
+            minResponsesForFlags: MIN_RESPONSES_FOR_FLAGS,
+            items: questions.map(question => this.analyzeItem(question, responses.get(question.id) || []))
+        };
+    }
+
+    private static analyzeItem(question: QuizQuestion, responses: ItemResponse[]): ItemStatistics {
+        const count = responses.length;
+        const pValue = count > 0 ? mean(responses.map(response => response.credit)) : null;
+        const pointBiserial = correlation(
+            responses.map(response => response.credit),
+            responses.map(response => response.restScore)
+        );
+
+        // Answers submitted before per-question timing was recorded carry a zero
+        const times = responses.map(response => response.timeSpent || 0).filter(time => time > 0);
+        const omitted = responses.filter(response => isBlank(response.answer)).length;
+
+        const options = choiceOptions(question).map(({ option, isCorrect }) => {
+            const key = normalizeText(option);
+            const chosen = responses.filter(response => {
+                const answers = Array.isArray(response.answer) ? response.answer : [response.answer];
+                return answers.some(answer => normalizeText(answer) === key);
+            }).length;
+            return { option, isCorrect, count: chosen, rate: count > 0 ? round(chosen / count) : 0 };
+        });
+
+        const flags: ItemFlag[] = [];
+        if (count >= MIN_RESPONSES_FOR_FLAGS) {
+            if (pValue !== null && pValue > THRESHOLDS.tooEasy) {
+                flags.push('TOO_EASY');
+            }
+            if (pValue !== null && pValue < THRESHOLDS.tooHard) {
+                flags.push('TOO_HARD');
+            }
+            if (pointBiserial !== null && pointBiserial < 0) {
+                flags.push('NEGATIVE_DISCRIMINATION');
+            } else if (pointBiserial !== null && pointBiserial < THRESHOLDS.lowDiscrimination) {
+                flags.push('LOW_DISCRIMINATION');
+            }
+
+            const distractors = options.filter(option => !option.isCorrect);
+            const keyRate = Math.max(0, ...options.filter(option => option.isCorrect).map(option => option.rate));
+            if (question.type === 'MULTIPLE_CHOICE' && distractors.some(option => option.rate > keyRate)) {
+                flags.push('DISTRACTOR_OUTSCORES_KEY');
+            }
+            if (question.type !== 'TRUE_FALSE' && distractors.some(option => option.rate < THRESHOLDS.unusedDistractor)) {
+                flags.push('UNUSED_DISTRACTOR');
+            }
+        }
+
+        return {
+            questionId: question.id,
+            question: question.question,
+            type: question.type,
+            points: question.points,
+            responses: count,
+            pValue: pValue === null ? null : round(pValue),
+            pointBiserial: pointBiserial === null ? null : round(pointBiserial),
+            averageTimeSpent: times.length > 0 ? round(mean(times), 1) : null,
+            options,
+            omitted,
+            flags,
+            needsReview: flags.length > 0
+        };
+    }
+}
+
+export default QuizItemAnalysisService;
@@ -3,7 +3,8 @@ import Enrollment from '../models/Enrollment';
 import LessonCompletion from '../models/LessonCompletion';
 import StudentProfile from '../models/StudentProfile';
 import QuizResult from '../models/QuizResult';
-import Programme from '../models/Programme';
+import LearningLedgerService from './learningLedgerService';
+import BadgeService from './badgeService';
 import logger from '../config/logger';
 
 /**
@@ -12,42 +13,30 @@ import logger from '../config/logger';
 class RealtimeSyncService {
 
   /**
-   * Sync lesson completion and update all related metrics
+   * Update the profile statistics, streak and points that follow a lesson
+   * completion. The completion itself is recorded in the learning ledger by
+   * the endpoint that reported it.
    */
   async syncLessonCompletion(
     studentId: string,
     courseId: string,
-    moduleId: string,
     lessonId: string,
     timeSpent: number
   ): Promise<void> {
     try {
-      // Start transaction-like approach
-      const session = await Enrollment.startSession();
-      
-      try {
-        await session.withTransaction(async () => {
-          // 1. Create or update lesson completion
-          await this.createLessonCompletion(studentId, courseId, moduleId, lessonId, timeSpent);
-          
-          // 2. Update enrollment progress
-          await this.updateEnrollmentProgress(studentId, courseId, lessonId, timeSpent);
-          
-          // 3. Update student profile statistics
-          await this.updateStudentProfileStats(studentId, timeSpent);
-          
-          // 4. Update learning streak
-          await this.updateLearningStreak(studentId);
-          
-          // 5. Calculate and update points
-          await this.updateStudentPoints(studentId, 10); // 10 points per lesson
-        });
-        
-        logger.info(`Lesson completion synced for student ${studentId}, lesson ${lessonId}`);
-      } finally {
-        await session.endSession();
-      }
-      
+      // 1. Update student profile statistics
+      await this.updateStudentProfileStats(studentId, timeSpent);
+
+      // 2. Update learning streak
+      await this.updateLearningStreak(studentId);
+
+      // 3. Calculate and update points
+      await this.updateStudentPoints(studentId, 10); // 10 points per lesson
+
+      // 4. Award any badges earned by this completion
+      await BadgeService.evaluateSafely(studentId, 'LESSON_COMPLETED', { programmeId: courseId });
+
+      logger.info(`Lesson completion synced for student ${studentId}, lesson ${lessonId}`);
     } catch (error) {
       logger.error('Error syncing lesson completion:', error);
       throw error;
@@ -89,6 +78,19 @@ class RealtimeSyncService {
       });
       await quizResult.save();
 
+      await LearningLedgerService.record({
+        studentId,
+        programmeId: courseId,
+        lessonId,
+        type: 'QUIZ_SUBMITTED',
+        timeSpent: quizData.timeSpent,
+        score: quizData.score,
+        maxScore: quizData.maxScore,
+        percentage,
+        passed: quizData.passed,
+        source: 'realtimeSync.syncQuizCompletion'
+      });
+
       // Update student profile
       await this.updateStudentProfileStats(studentId, quizData.timeSpent);
       
@@ -96,6 +98,9 @@ class RealtimeSyncService {
       const pointsEarned = Math.round((quizData.score / quizData.maxScore) * 100 / 10); // 1 point per 10% score
       await this.updateStudentPoints(studentId, pointsEarned);
 
+      // Award any badges earned by this quiz
+      await BadgeService.evaluateSafely(studentId, 'QUIZ_SUBMITTED', { programmeId: courseId });
+
       logger.info(`Quiz completion synced for student ${studentId}`);
     } catch (error) {
       logger.error('Error syncing quiz completion:', error);
@@ -126,83 +131,6 @@ class RealtimeSyncService {
     }
   }
 
-  /**
-   * Create lesson completion record
-   */
-  private async createLessonCompletion(
-    studentId: string,
-    courseId: string,
-    moduleId: string,
-    lessonId: string,
-    timeSpent: number
-  ): Promise<void> {
-    // Check if already exists
-    const existing = await LessonCompletion.findOne({
-      userId: studentId,
-      lessonId
-    });
-
-    if (!existing) {
-      const completion = new LessonCompletion({
-        userId: studentId,
-        courseId,
-        moduleId,
-        lessonId,
-        completedAt: new Date(),
-        timeSpent
-      });
-      await completion.save();
-    } else {
-      // Update time if completion already exists
-      existing.timeSpent += timeSpent;
-      existing.completedAt = new Date();
-      await existing.save();
-    }
-  }
-
-  /**
-   * Update enrollment progress
-   */
-  private async updateEnrollmentProgress(
-    studentId: string,
-    courseId: string,
-    lessonId: string,
-    timeSpent: number
-  ): Promise<void> {
-    const enrollment = await Enrollment.findOne({
-      studentId,
-      programmeId: courseId
-    });
-
-    if (!enrollment) {
-      throw new Error(`Enrollment not found for student ${studentId} and course ${courseId}`);
-    }
-
-    // Add lesson to completed list if not already there
-    if (!enrollment.progress.completedLessons.includes(lessonId as any)) {
-      enrollment.progress.completedLessons.push(lessonId as any);
-    }
-
-    // Update time spent
-    enrollment.progress.timeSpent += timeSpent;
-    enrollment.progress.lastActivityDate = new Date();
-
-    // Recalculate total progress
-    const programme = await Programme.findById(courseId);
-    if (programme && programme.totalLessons) {
-      const completedCount = enrollment.progress.completedLessons.length;
-      enrollment.progress.totalProgress = Math.round((completedCount / programme.totalLessons) * 100);
-      
-      // Check if course is completed
-      if (enrollment.progress.totalProgress >= 100 && enrollment.status !== 'COMPLETED') {
-        enrollment.status = 'COMPLETED';
-        enrollment.completionDate = new Date();
-      }
-    }
-
-    await enrollment.save();
-  }
-
   /**
    * Update student profile statistics
    */
@@ -395,32 +323,13 @@ class RealtimeSyncService {
     
     for (const studentId of studentIds) {
       try {
+        // Reconcile all course progress with the learning ledger first, the
+        // statistics below are read from its projections
+        await LearningLedgerService.rebuild({ studentId });
+
         await this.syncEnrollmentStats(studentId);
         await this.updateLearningStreak(studentId);
         
-        // Recalculate all course progress
-        const enrollments = await Enrollment.find({ studentId });
-        for (const enrollment of enrollments) {
-          const lessonCompletions = await LessonCompletion.find({
-            userId: studentId,
-            courseId: enrollment.programmeId
-          });
-          
-          // Update enrollment with actual lesson completion count
-          enrollment.progress.completedLessons = lessonCompletions.map(lc => lc.lessonId);
-          enrollment.progress.timeSpent = lessonCompletions.reduce((sum, lc) => sum + (lc.timeSpent || 0), 0);
-          
-          // Recalculate progress percentage
-          const programme = await Programme.findById(enrollment.programmeId);
-          if (programme && programme.totalLessons) {
-            enrollment.progress.totalProgress = Math.round(
-              (enrollment.progress.completedLessons.length / programme.totalLessons) * 100
-            );
-          }
-          
-          await enrollment.save();
-        }
-        
         logger.info(`Batch sync completed for student ${studentId}`);
       } catch (error) {
         logger.error(`Error in batch sync for student ${studentId}:`, error);
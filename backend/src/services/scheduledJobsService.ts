@@ -2,6 +2,10 @@ import cron from 'node-cron';
 import User from '../models/User';
 import DataDeletionService from './dataDeletionService';
 import AuditService from './auditService';
+import QuizAttemptService from './quizAttemptService';
+import NotificationQueueService from './notificationQueueService';
+import ContentVersionService from './contentVersionService';
+import PaymentService from './paymentService';
 import logger from '../config/logger';
 
 /**
@@ -36,6 +40,34 @@ export class ScheduledJobsService {
             timezone: "UTC"
         });
 
+        // Run every minute to expire quiz attempts past their time limit
+        cron.schedule('* * * * *', async () => {
+            await this.expireOverdueQuizAttempts();
+        }, {
+            timezone: "UTC"
+        });
+
+        // Run every 10 seconds to deliver queued emails and webhook notifications
+        cron.schedule('*/10 * * * * *', async () => {
+            await this.processNotificationQueue();
+        }, {
+            timezone: "UTC"
+        });
+
+        // Run every minute to publish lessons and modules scheduled for publishing
+        cron.schedule('* * * * *', async () => {
+            await this.publishScheduledContent();
+        }, {
+            timezone: "UTC"
+        });
+
+        // Run every hour to cancel checkouts left unpaid and release their coupon uses
+        cron.schedule('0 * * * *', async () => {
+            await this.expireStalePaymentOrders();
+        }, {
+            timezone: "UTC"
+        });
+
         this.isInitialized = true;
         logger.info('Scheduled jobs initialized successfully');
     }
@@ -132,6 +164,56 @@ export class ScheduledJobsService {
         }
     }
 
+    /**
+     * Mark quiz attempts that ran past their time limit as expired
+     */
+    static async expireOverdueQuizAttempts(): Promise<void> {
+        try {
+            await QuizAttemptService.expireOverdueAttempts();
+        } catch (error) {
+            logger.error('Error in expireOverdueQuizAttempts:', error);
+        }
+    }
+
+    /**
+     * Deliver queued notifications that are due, including retries
+     */
+    static async processNotificationQueue(): Promise<void> {
+        try {
+            await NotificationQueueService.processDue();
+        } catch (error) {
+            logger.error('Error in processNotificationQueue:', error);
+        }
+    }
+
+    /**
+     * Publish lessons and modules whose scheduled publish time has come
+     */
+    static async publishScheduledContent(): Promise<void> {
+        try {
+            const published = await ContentVersionService.publishDue();
+            if (published > 0) {
+                logger.info(`Published ${published} scheduled lessons/modules`);
+            }
+        } catch (error) {
+            logger.error('Error in publishScheduledContent:', error);
+        }
+    }
+
+    /**
+     * Cancel pending payment orders past their checkout window
+     */
+    static async expireStalePaymentOrders(): Promise<void> {
+        try {
+            const expired = await PaymentService.expireStaleOrders();
+            if (expired > 0) {
+                logger.info(`Cancelled ${expired} expired payment orders`);
+            }
+        } catch (error) {
+            logger.error('Error in expireStalePaymentOrders:', error);
+        }
+    }
+
     /**
      * Stop all scheduled jobs (useful for testing or shutdown)
      */
@@ -152,7 +234,7 @@ export class ScheduledJobsService {
 
         let taskIndex = 0;
         tasks.forEach((task: any, _: any) => {
-            const jobNames = ['Account Deletions', 'Audit Logs Cleanup'];
+            const jobNames = ['Account Deletions', 'Audit Logs Cleanup', 'Quiz Attempt Expiry', 'Notification Queue', 'Scheduled Publishing'];
             jobsStatus.push({
                 name: jobNames[taskIndex] || `Job ${taskIndex}`,
                 running: task.status === 'running',
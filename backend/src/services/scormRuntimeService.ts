@@ -0,0 +1,295 @@
+import { Types } from 'mongoose';
+import ProgrammeLesson, { IProgrammeLesson, ILessonPackage } from '../models/ProgrammeLesson';
+import ScormRuntimeState, {
+    IScormRuntimeState,
+    ScormExit,
+    ScormLessonStatus,
+    SCORM_EXIT_VALUES,
+    SCORM_LESSON_STATUSES
+} from '../models/ScormRuntimeState';
+import User, { IUser } from '../models/User';
+import LessonPackageService from './lessonPackageService';
+import PermissionService from './permissionService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { generatePackageLaunchToken } from '../utils/jwt';
+
+/**
+ * The SCORM 1.2 `cmi` values the runtime API shim works with
+ */
+export interface ScormCmi {
+    studentId: string;
+    studentName: string;
+    lessonLocation: string;
+    credit: 'credit' | 'no-credit';
+    lessonStatus: ScormLessonStatus;
+    entry: 'ab-initio' | 'resume' | '';
+    scoreRaw: string;
+    scoreMin: string;
+    scoreMax: string;
+    totalTime: string; // CMITimespan, HHHH:MM:SS.SS
+    lessonMode: 'normal' | 'browse';
+    suspendData: string;
+    masteryScore: string;
+}
+
+export interface PackageRuntime {
+    lessonId: string;
+    package: Pick<ILessonPackage, 'id' | 'standard' | 'title' | 'launchPath' | 'activityId'>;
+    learner: { id: string; name: string };
+    // Staff previewing a lesson they are not enrolled in: nothing is saved
+    mode: 'normal' | 'browse';
+    // Authenticates the package's file and xAPI requests, see authenticatePackageLaunch
+    launchToken: string;
+    cmi?: ScormCmi;
+}
+
+/**
+ * Values sent by LMSCommit and LMSFinish: those the package has set since
+ * LMSInitialize
+ */
+export interface ScormCommit {
+    sessionId: string; // one LMSInitialize/LMSFinish session of the shim
+    finished?: boolean;
+    lessonStatus?: string;
+    lessonLocation?: string;
+    suspendData?: string;
+    exit?: string;
+    scoreRaw?: string;
+    scoreMin?: string;
+    scoreMax?: string;
+    sessionTime?: string;
+}
+
+const COMPLETED_STATUSES: ScormLessonStatus[] = ['passed', 'completed'];
+const FINAL_STATUSES: ScormLessonStatus[] = ['passed', 'completed', 'failed'];
+
+// CMITimespan: HHHH:MM:SS.SS, hours of two to four digits
+const TIMESPAN_PATTERN = /^(\d{2,4}):([0-5]\d):([0-5]\d)(\.\d{1,2})?$/;
+
+const parseTimespan = (value: string): number => {
+    const match = value.match(TIMESPAN_PATTERN);
+    if (!match) {
+        throw new ValidationError('Invalid session time', [{ field: 'sessionTime', message: 'Must be a CMITimespan (HHHH:MM:SS.SS)' }]);
+    }
+    return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) + Number(match[4] || 0);
+};
+
+const formatTimespan = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const rest = (seconds % 60).toFixed(2).padStart(5, '0');
+    return `${String(hours).padStart(4, '0')}:${String(minutes).padStart(2, '0')}:${rest}`;
+};
+
+// CMIDecimal score, blank to clear it
+const parseScore = (value: string | undefined, field: string): number | undefined | null => {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (value === '') {
+        return null;
+    }
+    const score = Number(value);
+    if (!/^-?\d+(\.\d+)?$/.test(value) || score < 0 || score > 100) {
+        throw new ValidationError('Invalid score', [{ field, message: 'Must be a number from 0 to 100' }]);
+    }
+    return score;
+};
+
+const learnerName = (user: IUser | null): string =>
+    user ? (user.firstName && user.lastName ? `${user.lastName}, ${user.firstName}` : user.username) : '';
+
+class ScormRuntimeService {
+    /**
+     * What the player needs to launch a lesson's package, with the saved
+     * SCORM data of the caller for SCORM packages
+     */
+    static async getRuntime(user: { id: string; role: string }, lessonId: string): Promise<PackageRuntime> {
+        const lesson = await this.findPackagedLesson(lessonId);
+        const lessonPackage = lesson.content.package!;
+        const [account, enrolled] = await Promise.all([
+            User.findById(user.id).select('firstName lastName username'),
+            PermissionService.isEnrolled(user.id, String(lesson.programmeId))
+        ]);
+
+        const runtime: PackageRuntime = {
+            lessonId: lesson.id,
+            package: {
+                id: lessonPackage.id,
+                standard: lessonPackage.standard,
+                title: lessonPackage.title,
+                launchPath: lessonPackage.launchPath,
+                activityId: lessonPackage.activityId
+            },
+            learner: { id: user.id, name: learnerName(account) },
+            mode: enrolled ? 'normal' : 'browse',
+            launchToken: generatePackageLaunchToken(user, lesson.id, lessonPackage.id)
+        };
+
+        if (lessonPackage.standard === 'SCORM_1_2') {
+            const state = enrolled
+                ? await ScormRuntimeState.findOne({ studentId: user.id, lessonId: lesson._id, packageId: lessonPackage.id })
+                : null;
+            runtime.cmi = {
+                studentId: user.id,
+                studentName: runtime.learner.name,
+                lessonLocation: state?.lessonLocation || '',
+                credit: enrolled ? 'credit' : 'no-credit',
+                lessonStatus: state?.lessonStatus || 'not attempted',
+                entry: !state ? 'ab-initio' : state.exit === 'suspend' ? 'resume' : '',
+                scoreRaw: state?.scoreRaw?.toString() ?? '',
+                scoreMin: state?.scoreMin?.toString() ?? '',
+                scoreMax: state?.scoreMax?.toString() ?? '',
+                totalTime: formatTimespan(state?.totalTime || 0),
+                lessonMode: runtime.mode,
+                suspendData: state?.suspendData || '',
+                masteryScore: lessonPackage.masteryScore?.toString() ?? ''
+            };
+        }
+
+        return runtime;
+    }
+
+    /**
+     * Save the values a SCORM package committed for a student and record the
+     * outcome in their progress: completion when the lesson status becomes
+     * passed or completed, one quiz attempt per session that reports a score,
+     * and the session time once the session finishes.
+     */
+    static async commit(studentId: string, lessonId: string, values: ScormCommit): Promise<IScormRuntimeState> {
+        const lesson = await this.findPackagedLesson(lessonId);
+        const lessonPackage = lesson.content.package!;
+        if (lessonPackage.standard !== 'SCORM_1_2') {
+            throw new ValidationError('This lesson does not use a SCORM package');
+        }
+        if (typeof values.sessionId !== 'string' || !values.sessionId) {
+            throw new ValidationError('Session ID is required', [{ field: 'sessionId', message: 'Session ID is required' }]);
+        }
+
+        // Data saved by a replaced package starts over
+        const saved = await ScormRuntimeState.findOne({ studentId, lessonId: lesson._id });
+        if (saved && saved.packageId !== lessonPackage.id) {
+            await saved.deleteOne();
+        }
+        const existing = saved?.packageId === lessonPackage.id ? saved : null;
+        const state = existing || new ScormRuntimeState({
+            studentId,
+            programmeId: lesson.programmeId,
+            lessonId: lesson._id,
+            packageId: lessonPackage.id
+        });
+
+        if (state.lastSessionId !== values.sessionId) {
+            state.lastSessionId = values.sessionId;
+            state.lastSessionScored = false;
+            state.lastSessionFinished = false;
+        } else if (state.lastSessionFinished) {
+            throw new ConflictError('This SCORM session has already finished');
+        }
+
+        const previousStatus = state.lessonStatus;
+        this.apply(state, values);
+
+        const scoreRaw = state.scoreRaw;
+        const masteryScore = lessonPackage.masteryScore;
+        // SCORM 1.2 leaves passing to the LMS when the package declares a mastery score
+        if (masteryScore !== undefined && scoreRaw !== undefined && FINAL_STATUSES.includes(state.lessonStatus)) {
+            state.lessonStatus = scoreRaw >= masteryScore ? 'passed' : 'failed';
+        }
+
+        const sessionTime = values.finished && values.sessionTime ? parseTimespan(values.sessionTime) : 0;
+        if (values.finished) {
+            state.totalTime += sessionTime;
+            state.sessionCount += 1;
+            state.lastSessionFinished = true;
+        }
+
+        // A session's score counts once it reports a final status
+        let percentage: number | undefined;
+        if (scoreRaw !== undefined && values.scoreRaw && !state.lastSessionScored
+            && (FINAL_STATUSES.includes(state.lessonStatus) || values.finished)) {
+            const { scoreMin, scoreMax } = state;
+            percentage = scoreMin !== undefined && scoreMax !== undefined && scoreMax > scoreMin
+                ? (scoreRaw - scoreMin) / (scoreMax - scoreMin) * 100
+                : scoreRaw;
+            state.lastSessionScored = true;
+        }
+
+        await state.save();
+
+        await LessonPackageService.recordResult(lesson, studentId, {
+            completed: COMPLETED_STATUSES.includes(state.lessonStatus),
+            percentage,
+            passed: COMPLETED_STATUSES.includes(state.lessonStatus),
+            timeSpent: sessionTime,
+            started: !existing || (previousStatus === 'not attempted' && state.lessonStatus !== 'not attempted'),
+            source: 'scorm'
+        });
+
+        return state;
+    }
+
+    // Validate and copy the committed values onto the saved state
+    private static apply(state: IScormRuntimeState, values: ScormCommit): void {
+        const errors: { field: string; message: string }[] = [];
+
+        if (values.lessonStatus !== undefined) {
+            if (!SCORM_LESSON_STATUSES.includes(values.lessonStatus as ScormLessonStatus) || values.lessonStatus === 'not attempted') {
+                errors.push({ field: 'lessonStatus', message: 'Invalid lesson status' });
+            } else {
+                state.lessonStatus = values.lessonStatus as ScormLessonStatus;
+            }
+        }
+        if (values.exit !== undefined) {
+            if (!SCORM_EXIT_VALUES.includes(values.exit as ScormExit)) {
+                errors.push({ field: 'exit', message: 'Invalid exit value' });
+            } else {
+                state.exit = values.exit as ScormExit;
+            }
+        }
+        if (values.lessonLocation !== undefined) {
+            if (typeof values.lessonLocation !== 'string' || values.lessonLocation.length > 255) {
+                errors.push({ field: 'lessonLocation', message: 'Lesson location must be at most 255 characters' });
+            } else {
+                state.lessonLocation = values.lessonLocation;
+            }
+        }
+        if (values.suspendData !== undefined) {
+            if (typeof values.suspendData !== 'string' || values.suspendData.length > 4096) {
+                errors.push({ field: 'suspendData', message: 'Suspend data must be at most 4096 characters' });
+            } else {
+                state.suspendData = values.suspendData;
+            }
+        }
+        for (const field of ['scoreRaw', 'scoreMin', 'scoreMax'] as const) {
+            try {
+                const score = parseScore(values[field], field);
+                if (score !== undefined) {
+                    state.set(field, score ?? undefined);
+                }
+            } catch (error) {
+                errors.push(...(error as ValidationError).details);
+            }
+        }
+        if (values.sessionTime !== undefined && !TIMESPAN_PATTERN.test(values.sessionTime)) {
+            errors.push({ field: 'sessionTime', message: 'Must be a CMITimespan (HHHH:MM:SS.SS)' });
+        }
+
+        if (errors.length > 0) {
+            throw new ValidationError('Invalid SCORM data', errors);
+        }
+    }
+
+    private static async findPackagedLesson(lessonId: string): Promise<IProgrammeLesson> {
+        if (!Types.ObjectId.isValid(lessonId)) {
+            throw new ValidationError('Invalid lesson ID');
+        }
+        const lesson = await ProgrammeLesson.findById(lessonId);
+        if (!lesson || !lesson.content?.package) {
+            throw new NotFoundError(lesson ? 'Lesson package' : 'Lesson');
+        }
+        return lesson;
+    }
+}
+
+export default ScormRuntimeService;
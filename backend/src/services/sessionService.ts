@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import RefreshSession, { IRefreshSession, SessionRevokeReason } from '../models/RefreshSession';
+import User from '../models/User';
+import { JWT_CONFIG, JWTUtils } from '../config/jwt';
+import { AuthenticationError, NotFoundError } from '../utils/errors';
+import logger from '../config/logger';
+
+// Signing in on another device beyond this revokes the least recently used session
+export const MAX_SESSIONS_PER_USER = 10;
+
+export interface ClientInfo {
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+export interface IssuedTokens {
+    accessToken: string;
+    refreshToken: string;
+    sessionId: string;
+}
+
+export interface SessionSummary {
+    id: string;
+    userAgent?: string;
+    ipAddress?: string;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    current: boolean;
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export class SessionService {
+    /**
+     * Sign a user in on a device: start a new refresh-token family and issue its
+     * first token pair
+     */
+    static async createSession(user: { id: string; role: string }, client: ClientInfo): Promise<IssuedTokens> {
+        const session = new RefreshSession({
+            userId: user.id,
+            tokenHash: 'pending',
+            userAgent: client.userAgent?.slice(0, 500),
+            ipAddress: client.ipAddress,
+            expiresAt: new Date(Date.now() + JWT_CONFIG.COOKIE.REFRESH_TOKEN_MAX_AGE)
+        });
+        const tokens = this.issueTokens(user, session.id);
+        session.tokenHash = hashToken(tokens.refreshToken);
+        await session.save();
+
+        await this.enforceSessionLimit(user.id);
+        return tokens;
+    }
+
+    /**
+     * Exchange a refresh token for a new pair. The presented token must be the
+     * latest of its family; an older one means it was copied, so the whole
+     * family is revoked and the device has to sign in again.
+     */
+    static async rotate(refreshToken: string, client: ClientInfo): Promise<IssuedTokens> {
+        const payload = JWTUtils.verifyRefreshToken(refreshToken);
+        if (!payload.sid || !Types.ObjectId.isValid(payload.sid)) {
+            throw new AuthenticationError('Invalid refresh token');
+        }
+
+        const session = await RefreshSession.findOne({ _id: payload.sid, userId: payload.user.id });
+        if (!session || session.revokedAt || session.expiresAt < new Date()) {
+            throw new AuthenticationError('Session has ended. Please sign in again.');
+        }
+
+        if (session.tokenHash !== hashToken(refreshToken)) {
+            await this.revoke(session, 'TOKEN_REUSE');
+            logger.warn(`Refresh token reuse detected for user ${payload.user.id}; session ${session.id} revoked`);
+            throw new AuthenticationError('Session has ended. Please sign in again.');
+        }
+
+        // The role may have changed since the last refresh
+        const user = await User.findById(payload.user.id).select('role enrollmentStatus');
+        if (!user || user.enrollmentStatus !== 'active') {
+            await this.revoke(session, 'ADMIN_REVOKED');
+            throw new AuthenticationError('Account is not active');
+        }
+
+        // Conditional on the presented hash so two concurrent refreshes cannot both win
+        const tokens = this.issueTokens({ id: user.id, role: user.role }, session.id);
+        const rotated = await RefreshSession.findOneAndUpdate(
+            { _id: session._id, tokenHash: session.tokenHash, revokedAt: null },
+            {
+                $set: {
+                    tokenHash: hashToken(tokens.refreshToken),
+                    lastUsedAt: new Date(),
+                    userAgent: client.userAgent?.slice(0, 500) || session.userAgent,
+                    ipAddress: client.ipAddress || session.ipAddress,
+                    expiresAt: new Date(Date.now() + JWT_CONFIG.COOKIE.REFRESH_TOKEN_MAX_AGE)
+                },
+                $inc: { rotationCount: 1 }
+            }
+        );
+        if (!rotated) {
+            throw new AuthenticationError('Session has ended. Please sign in again.');
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Session id carried by a refresh token, or null when the token is invalid
+     */
+    static getSessionId(refreshToken?: string): string | null {
+        if (!refreshToken) {
+            return null;
+        }
+        try {
+            return JWTUtils.verifyRefreshToken(refreshToken).sid || null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Whether a session is still signed in. Access tokens carry their session id,
+     * so a revoked session's tokens stop working before they expire.
+     */
+    static async isActive(sessionId: string): Promise<boolean> {
+        if (!Types.ObjectId.isValid(sessionId)) {
+            return false;
+        }
+        const session = await RefreshSession.exists({ _id: sessionId, revokedAt: null, expiresAt: { $gt: new Date() } });
+        return session !== null;
+    }
+
+    /**
+     * End the session a refresh token belongs to (signing out on this device)
+     */
+    static async endSession(refreshToken: string | undefined, userId: string): Promise<void> {
+        const sessionId = this.getSessionId(refreshToken);
+        if (!sessionId) {
+            return;
+        }
+        const session = await RefreshSession.findOne({ _id: sessionId, userId, revokedAt: null });
+        if (session) {
+            await this.revoke(session, 'LOGOUT');
+        }
+    }
+
+    /**
+     * A user's signed-in devices, most recently used first
+     */
+    static async listSessions(userId: string, currentSessionId?: string | null): Promise<SessionSummary[]> {
+        const sessions = await RefreshSession.find({
+            userId,
+            revokedAt: null,
+            expiresAt: { $gt: new Date() }
+        }).sort({ lastUsedAt: -1 });
+
+        return sessions.map(session => ({
+            id: session.id,
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+            current: session.id === currentSessionId
+        }));
+    }
+
+    /**
+     * Sign a user out of one of their devices
+     */
+    static async revokeSession(userId: string, sessionId: string): Promise<void> {
+        const session = Types.ObjectId.isValid(sessionId)
+            ? await RefreshSession.findOne({ _id: sessionId, userId, revokedAt: null })
+            : null;
+        if (!session) {
+            throw new NotFoundError('Session');
+        }
+        await this.revoke(session, 'USER_REVOKED');
+    }
+
+    /**
+     * Sign a user out everywhere, optionally keeping one session (the caller's)
+     */
+    static async revokeAllSessions(userId: string, reason: SessionRevokeReason, exceptSessionId?: string | null): Promise<number> {
+        const filter: Record<string, any> = { userId, revokedAt: null };
+        if (exceptSessionId && Types.ObjectId.isValid(exceptSessionId)) {
+            filter._id = { $ne: exceptSessionId };
+        }
+
+        const result = await RefreshSession.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+        if (result.modifiedCount > 0) {
+            logger.info(`Revoked ${result.modifiedCount} session(s) for user ${userId} (${reason})`);
+        }
+        return result.modifiedCount;
+    }
+
+    private static issueTokens(user: { id: string; role: string }, sessionId: string): IssuedTokens {
+        const payload = { user: { id: user.id, role: user.role }, sid: sessionId };
+        return {
+            accessToken: JWTUtils.generateAccessToken(payload),
+            refreshToken: JWTUtils.generateRefreshToken(payload),
+            sessionId
+        };
+    }
+
+    private static async revoke(session: IRefreshSession, reason: SessionRevokeReason): Promise<void> {
+        session.revokedAt = new Date();
+        session.revokedReason = reason;
+        await session.save();
+    }
+
+    private static async enforceSessionLimit(userId: string): Promise<void> {
+        const stale = await RefreshSession.find({ userId, revokedAt: null })
+            .sort({ lastUsedAt: -1 })
+            .skip(MAX_SESSIONS_PER_USER)
+            .select('_id');
+        if (stale.length > 0) {
+            await RefreshSession.updateMany(
+                { _id: { $in: stale.map(session => session._id) } },
+                { revokedAt: new Date(), revokedReason: 'SESSION_LIMIT' }
+            );
+        }
+    }
+}
+
+export default SessionService;
@@ -0,0 +1,133 @@
+import PlatformSettings, { IPlatformSettings } from '../models/PlatformSettings';
+import logger from '../config/logger';
+
+export type PlatformSettingsValues = Pick<IPlatformSettings,
+    | 'siteName'
+    | 'siteDescription'
+    | 'contactEmail'
+    | 'supportEmail'
+    | 'maxFileSize'
+    | 'allowedFileTypes'
+    | 'enableRegistration'
+    | 'requireEmailVerification'
+    | 'enableDiscordIntegration'
+    | 'enableAnalytics'
+    | 'maintenanceMode'
+    | 'requireAdminTwoFactor'
+    | 'defaultUserRole'
+>;
+
+export const EDITABLE_SETTINGS: (keyof PlatformSettingsValues)[] = [
+    'siteName',
+    'siteDescription',
+    'contactEmail',
+    'supportEmail',
+    'maxFileSize',
+    'allowedFileTypes',
+    'enableRegistration',
+    'requireEmailVerification',
+    'enableDiscordIntegration',
+    'enableAnalytics',
+    'maintenanceMode',
+    'requireAdminTwoFactor',
+    'defaultUserRole'
+];
+
+// Settings are read on every request by the maintenance middleware, so keep a short-lived copy
+const CACHE_TTL_MS = 30 * 1000;
+
+export class SettingsService {
+    private static cached: PlatformSettingsValues | null = null;
+    private static cachedAt = 0;
+
+    /**
+     * Load the settings document, creating it with defaults on first use
+     */
+    static async getSettingsDocument(): Promise<IPlatformSettings> {
+        return PlatformSettings.findOneAndUpdate(
+            { key: 'platform' },
+            { $setOnInsert: { key: 'platform' } },
+            { new: true, upsert: true, setDefaultsOnInsert: true }
+        ) as Promise<IPlatformSettings>;
+    }
+
+    /**
+     * Get the current settings values (cached)
+     */
+    static async getSettings(): Promise<PlatformSettingsValues> {
+        if (this.cached && Date.now() - this.cachedAt < CACHE_TTL_MS) {
+            return this.cached;
+        }
+
+        const settings = await this.getSettingsDocument();
+        this.cached = this.toValues(settings);
+        this.cachedAt = Date.now();
+        return this.cached;
+    }
+
+    /**
+     * Get the current settings, falling back to defaults if the database is unavailable
+     * so that request handling is never blocked by a settings lookup.
+     */
+    static async getSettingsSafely(): Promise<PlatformSettingsValues> {
+        try {
+            return await this.getSettings();
+        } catch (error) {
+            logger.error('Failed to load platform settings, using defaults:', error);
+            return this.cached || this.toValues(new PlatformSettings());
+        }
+    }
+
+    /**
+     * Update editable settings. Unknown keys are ignored.
+     */
+    static async updateSettings(updates: Partial<PlatformSettingsValues>, updatedBy?: string): Promise<PlatformSettingsValues> {
+        const settings = await this.getSettingsDocument();
+
+        for (const key of EDITABLE_SETTINGS) {
+            if (updates[key] !== undefined) {
+                settings.set(key, updates[key]);
+            }
+        }
+        if (updates.allowedFileTypes) {
+            settings.allowedFileTypes = updates.allowedFileTypes
+                .map(type => type.trim().toLowerCase().replace(/^\./, ''))
+                .filter(Boolean);
+        }
+        if (updatedBy) {
+            settings.set('updatedBy', updatedBy);
+        }
+
+        await settings.save();
+        this.clearCache();
+        return this.getSettings();
+    }
+
+    /**
+     * Drop the cached settings so the next read hits the database
+     */
+    static clearCache(): void {
+        this.cached = null;
+        this.cachedAt = 0;
+    }
+
+    private static toValues(settings: IPlatformSettings): PlatformSettingsValues {
+        return {
+            siteName: settings.siteName,
+            siteDescription: settings.siteDescription,
+            contactEmail: settings.contactEmail,
+            supportEmail: settings.supportEmail,
+            maxFileSize: settings.maxFileSize,
+            allowedFileTypes: [...settings.allowedFileTypes],
+            enableRegistration: settings.enableRegistration,
+            requireEmailVerification: settings.requireEmailVerification,
+            enableDiscordIntegration: settings.enableDiscordIntegration,
+            enableAnalytics: settings.enableAnalytics,
+            maintenanceMode: settings.maintenanceMode,
+            requireAdminTwoFactor: settings.requireAdminTwoFactor,
+            defaultUserRole: settings.defaultUserRole
+        };
+    }
+}
+
+export default SettingsService;
@@ -0,0 +1,52 @@
+import { WebhookNotifier, NotificationMessage, NOTIFICATION_FOOTER } from './webhookNotifier';
+
+// Subset of Block Kit used by our messages
+export type SlackBlock =
+  | { type: 'header'; text: { type: 'plain_text'; text: string; emoji?: boolean } }
+  | { type: 'section'; text?: { type: 'mrkdwn'; text: string }; fields?: Array<{ type: 'mrkdwn'; text: string }> }
+  | { type: 'context'; elements: Array<{ type: 'mrkdwn'; text: string }> };
+
+export interface SlackWebhookPayload {
+  text: string; // fallback for notifications and clients without Block Kit
+  attachments: Array<{
+    color: string;
+    blocks: SlackBlock[];
+  }>;
+}
+
+// Slack's mrkdwn uses single asterisks for bold
+const toMrkdwn = (text: string): string => text.replace(/\*\*(.+?)\*\*/g, '*$1*');
+
+/**
+ * Slack incoming webhooks, laid out with Block Kit
+ */
+class SlackService extends WebhookNotifier<SlackWebhookPayload> {
+  readonly platform = 'slack' as const;
+  protected readonly displayName = 'Slack';
+  protected readonly webhookHosts = ['hooks.slack.com'];
+
+  protected formatMessage(message: NotificationMessage): SlackWebhookPayload {
+    const blocks: SlackBlock[] = [
+      { type: 'header', text: { type: 'plain_text', text: message.title, emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: toMrkdwn(message.text) } }
+    ];
+    if (message.fields?.length) {
+      blocks.push({
+        type: 'section',
+        fields: message.fields.map(field => ({ type: 'mrkdwn', text: `*${field.name}*\n${field.value}` }))
+      });
+    }
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: NOTIFICATION_FOOTER }] });
+
+    return {
+      text: `${message.title}: ${message.text.replace(/\*\*/g, '')}`,
+      // The attachment only adds the coloured bar beside the blocks
+      attachments: [{
+        color: `#${message.color.toString(16).padStart(6, '0')}`,
+        blocks
+      }]
+    };
+  }
+}
+
+export default new SlackService();
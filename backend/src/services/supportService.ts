@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import SupportTicket, { ISupportTicket, SupportCategory } from '../models/SupportTicket';
+import FaqEntry, { IFaqEntry } from '../models/FaqEntry';
+import NotificationService from './notificationService';
+import logger from '../config/logger';
+
+export type TicketStatus = ISupportTicket['status'];
+export type TicketPriority = ISupportTicket['priority'];
+
+export interface CreateTicketInput {
+    subject: string;
+    category?: SupportCategory;
+    priority?: TicketPriority;
+    message: string;
+}
+
+export interface TicketUpdateInput {
+    status?: TicketStatus;
+    priority?: TicketPriority;
+    assignedTo?: string | null;
+}
+
+const TICKET_AUTHOR_FIELDS = 'firstName lastName username role';
+
+type FaqDefinition = Pick<IFaqEntry, 'question' | 'answer' | 'category' | 'order'>;
+
+/**
+ * FAQ entries created the first time the FAQ is requested, so a fresh
+ * install shows the same help content the page used to hardcode.
+ */
+const DEFAULT_FAQS: FaqDefinition[] = [
+    {
+        question: 'How do I reset my password?',
+        answer: 'You can reset your password by clicking the "Forgot Password" link on the login page. You\'ll receive an email with instructions to create a new password.',
+        category: 'ACCOUNT',
+        order: 1
+    },
+    {
+        question: 'How do I enroll in a course?',
+        answer: 'To enroll in a course, navigate to the course page and click the "Enroll Now" button. You\'ll be redirected to complete the enrollment process.',
+        category: 'COURSE',
+        order: 2
+    },
+    {
+        question: 'Can I access course materials offline?',
+        answer: 'Currently, course materials are only available online. However, you can download some resources like PDFs and documents for offline viewing.',
+        category: 'TECHNICAL',
+        order: 3
+    },
+    {
+        question: 'How do I track my progress?',
+        answer: 'Your progress is automatically tracked as you complete lessons and quizzes. You can view your progress on the dashboard and analytics pages.',
+        category: 'COURSE',
+        order: 4
+    },
+    {
+        question: 'How do I join live sessions?',
+        answer: 'Live sessions can be joined through the Live Sessions page. Reserve a place, then click the "Join Session" button once the session starts.',
+        category: 'TECHNICAL',
+        order: 5
+    },
+    {
+        question: 'How do I update my profile information?',
+        answer: 'You can update your profile information by going to your profile page and clicking the "Edit Profile" button.',
+        category: 'ACCOUNT',
+        order: 6
+    }
+];
+
+export class SupportService {
+    /**
+     * Seed the FAQ when the collection is empty. Once admins have edited it, nothing is re-created.
+     */
+    static async ensureDefaultFaqs(): Promise<void> {
+        const count = await FaqEntry.estimatedDocumentCount();
+        if (count === 0) {
+            await FaqEntry.insertMany(DEFAULT_FAQS);
+        }
+    }
+
+    /**
+     * Get published FAQ entries in display order
+     */
+    static async getPublishedFaqs(): Promise<IFaqEntry[]> {
+        await this.ensureDefaultFaqs();
+        return FaqEntry.find({ isPublished: true }).sort({ order: 1, createdAt: 1 });
+    }
+
+    /**
+     * Open a new ticket with the student's first message
+     */
+    static async createTicket(studentId: string, input: CreateTicketInput): Promise<ISupportTicket> {
+        const ticketNumber = await this.generateUniqueTicketNumber();
+
+        const ticket = await SupportTicket.create({
+            ticketNumber,
+            studentId,
+            subject: input.subject,
+            category: input.category,
+            priority: input.priority,
+            messages: [{ authorId: studentId, authorRole: 'student', body: input.message }]
+        });
+
+        logger.info(`Support ticket ${ticketNumber} opened by ${studentId}`);
+        return ticket;
+    }
+
+    /**
+     * Append a message to a ticket thread. A student reply puts the ticket back in the
+     * support queue; a support reply waits on the student unless a status is given.
+     */
+    static async addMessage(
+        ticket: ISupportTicket,
+        authorId: string,
+        authorRole: 'student' | 'admin',
+        body: string,
+        status?: TicketStatus
+    ): Promise<ISupportTicket> {
+        if (ticket.status === 'CLOSED') {
+            throw new Error('Ticket is closed');
+        }
+
+        ticket.messages.push({ authorId: authorId as any, authorRole, body, createdAt: new Date() });
+        ticket.lastActivityAt = new Date();
+        this.applyStatus(ticket, status || (authorRole === 'student' ? 'OPEN' : 'PENDING'));
+        await ticket.save();
+
+        if (authorRole === 'admin') {
+            await NotificationService.notifySafely(ticket.studentId.toString(), {
+                type: 'SUPPORT_REPLY',
+                title: `New reply on ticket ${ticket.ticketNumber}`,
+                message: ticket.subject,
+                data: { ticketId: ticket._id, ticketNumber: ticket.ticketNumber, status: ticket.status }
+            });
+        }
+
+        return ticket;
+    }
+
+    /**
+     * Apply an admin update to a ticket's status, priority or assignee
+     */
+    static async updateTicket(ticket: ISupportTicket, updates: TicketUpdateInput): Promise<ISupportTicket> {
+        if (updates.priority) {
+            ticket.priority = updates.priority;
+        }
+        if (updates.assignedTo !== undefined) {
+            ticket.set('assignedTo', updates.assignedTo || undefined);
+        }
+        if (updates.status && updates.status !== ticket.status) {
+            this.applyStatus(ticket, updates.status);
+            ticket.lastActivityAt = new Date();
+
+            if (updates.status === 'RESOLVED' || updates.status === 'CLOSED') {
+                await NotificationService.notifySafely(ticket.studentId.toString(), {
+                    type: 'SUPPORT_REPLY',
+                    title: `Ticket ${ticket.ticketNumber} ${updates.status === 'RESOLVED' ? 'resolved' : 'closed'}`,
+                    message: ticket.subject,
+                    data: { ticketId: ticket._id, ticketNumber: ticket.ticketNumber, status: ticket.status }
+                });
+            }
+        }
+
+        await ticket.save();
+        return ticket;
+    }
+
+    /**
+     * Set a ticket status and keep the resolution timestamps consistent with it
+     */
+    static applyStatus(ticket: ISupportTicket, status: TicketStatus): void {
+        ticket.status = status;
+
+        if (status === 'RESOLVED') {
+            ticket.resolvedAt = ticket.resolvedAt || new Date();
+        } else if (status !== 'CLOSED') {
+            ticket.set('resolvedAt', undefined);
+        }
+        ticket.set('closedAt', status === 'CLOSED' ? new Date() : undefined);
+    }
+
+    /**
+     * Load a ticket with message authors and assignee populated
+     */
+    static async getTicketDetails(ticketId: string): Promise<ISupportTicket | null> {
+        return SupportTicket.findById(ticketId)
+            .populate('studentId', 'firstName lastName email username')
+            .populate('assignedTo', 'firstName lastName username')
+            .populate('messages.authorId', TICKET_AUTHOR_FIELDS);
+    }
+
+    private static async generateUniqueTicketNumber(): Promise<string> {
+        const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const candidate = `TKT-${datePart}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+            const taken = await SupportTicket.exists({ ticketNumber: candidate });
+            if (!taken) {
+                return candidate;
+            }
+        }
+        throw new Error('Unable to generate a unique ticket number');
+    }
+}
+
+export default SupportService;
@@ -0,0 +1,75 @@
+import { WebhookNotifier, NotificationMessage, NOTIFICATION_FOOTER } from './webhookNotifier';
+
+// Subset of the Adaptive Card schema used by our messages
+export type AdaptiveCardElement =
+  | {
+    type: 'TextBlock';
+    text: string;
+    wrap?: boolean;
+    weight?: 'Bolder';
+    size?: 'Small' | 'Medium' | 'Large';
+    color?: 'Accent' | 'Good' | 'Warning' | 'Attention';
+    isSubtle?: boolean;
+  }
+  | { type: 'FactSet'; facts: Array<{ title: string; value: string }> };
+
+export interface TeamsWebhookPayload {
+  type: 'message';
+  attachments: Array<{
+    contentType: 'application/vnd.microsoft.card.adaptive';
+    contentUrl: null;
+    content: {
+      $schema: string;
+      type: 'AdaptiveCard';
+      version: string;
+      body: AdaptiveCardElement[];
+    };
+  }>;
+}
+
+// Cards have named colours only, so map our accent colours onto them
+const cardColor = (color: number): 'Accent' | 'Good' | 'Warning' | 'Attention' => {
+  switch (color) {
+    case 0x10B981: return 'Good';
+    case 0xF59E0B: return 'Warning';
+    case 0xEF4444: return 'Attention';
+    default: return 'Accent';
+  }
+};
+
+/**
+ * Microsoft Teams incoming webhooks (channel connectors and Workflows), sent
+ * as Adaptive Cards
+ */
+class TeamsService extends WebhookNotifier<TeamsWebhookPayload> {
+  readonly platform = 'teams' as const;
+  protected readonly displayName = 'Teams';
+  protected readonly webhookHosts = ['.webhook.office.com', '.logic.azure.com', '.powerplatform.com'];
+
+  protected formatMessage(message: NotificationMessage): TeamsWebhookPayload {
+    const body: AdaptiveCardElement[] = [
+      { type: 'TextBlock', text: message.title, weight: 'Bolder', size: 'Medium', color: cardColor(message.color), wrap: true },
+      { type: 'TextBlock', text: message.text, wrap: true }
+    ];
+    if (message.fields?.length) {
+      body.push({ type: 'FactSet', facts: message.fields.map(field => ({ title: field.name, value: field.value })) });
+    }
+    body.push({ type: 'TextBlock', text: NOTIFICATION_FOOTER, size: 'Small', isSubtle: true, wrap: true });
+
+    return {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body
+        }
+      }]
+    };
+  }
+}
+
+export default new TeamsService();
@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+import User, { IUser } from '../models/User';
+import SettingsService from './settingsService';
+import { AuthenticationError, AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+// RFC 6238 parameters understood by every common authenticator app
+const TOTP = {
+    digits: 6,
+    period: 30, // seconds
+    window: 1, // accept codes one step either side of now for clock drift
+    secretBytes: 20
+};
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export interface TwoFactorEnrollment {
+    secret: string; // base32, for manual entry
+    otpauthUrl: string; // provisioning URI to render as a QR code
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt?: Date;
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorCredentials {
+    code?: string;
+    recoveryCode?: string;
+}
+
+const SECRET_FIELDS = '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedStep';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+/**
+ * HOTP value (RFC 4226) for one time step
+ */
+const generateCode = (secret: string, step: number): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** TOTP.digits).toString().padStart(TOTP.digits, '0');
+};
+
+const currentStep = (): number => Math.floor(Date.now() / 1000 / TOTP.period);
+
+/**
+ * Time step the code belongs to, or null when it matches none in the window.
+ * Steps at or before `lastUsedStep` are skipped so a code cannot be replayed.
+ */
+const matchStep = (secret: string, code: string, lastUsedStep?: number): number | null => {
+    const normalized = code.replace(/\s+/g, '');
+    if (!new RegExp(`^\\d{${TOTP.digits}}$`).test(normalized)) {
+        return null;
+    }
+    const now = currentStep();
+    for (let step = now - TOTP.window; step <= now + TOTP.window; step++) {
+        if (lastUsedStep !== undefined && step <= lastUsedStep) {
+            continue;
+        }
+        if (crypto.timingSafeEqual(Buffer.from(generateCode(secret, step)), Buffer.from(normalized))) {
+            return step;
+        }
+    }
+    return null;
+};
+
+// Secrets are encrypted at rest so a database dump alone cannot mint codes
+const encryptionKey = (): Buffer =>
+    crypto.createHash('sha256').update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || '').digest();
+
+const encryptSecret = (secret: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+};
+
+const decryptSecret = (stored: string): string => {
+    const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string): string =>
+    crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+// Recovery codes look like "3f9a-c01b" so they are easy to copy from a printout
+const generateRecoveryCodes = (): string[] =>
+    Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const hex = crypto.randomBytes(4).toString('hex');
+        return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+    });
+
+export class TwoFactorService {
+    /**
+     * Whether the platform policy requires two-factor authentication for a role
+     */
+    static async isRequired(role: string): Promise<boolean> {
+        const settings = await SettingsService.getSettingsSafely();
+        return role === 'admin' && settings.requireAdminTwoFactor;
+    }
+
+    static async getStatus(userId: string): Promise<TwoFactorStatus> {
+        const user = await this.loadUser(userId);
+        return {
+            enabled: user.twoFactor?.enabled === true,
+            enabledAt: user.twoFactor?.enabledAt,
+            required: await this.isRequired(user.role),
+            recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length || 0
+        };
+    }
+
+    /**
+     * Generate a new secret for the user to add to their authenticator app. It
+     * only takes effect once confirmed with a code from the app.
+     */
+    static async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+        const user = await this.loadUser(userId);
+        if (user.twoFactor?.enabled) {
+            throw new ConflictError('Two-factor authentication is already enabled');
+        }
+
+        const secret = base32Encode(crypto.randomBytes(TOTP.secretBytes));
+        user.set('twoFactor.pendingSecret', encryptSecret(secret));
+        await user.save();
+
+        const { siteName } = await SettingsService.getSettingsSafely();
+        const issuer = siteName || 'EduKnit Learn';
+        const params = new URLSearchParams({
+            secret,
+            issuer,
+            algorithm: 'SHA1',
+            digits: String(TOTP.digits),
+            period: String(TOTP.period)
+        });
+        return {
+            secret,
+            otpauthUrl: `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(user.email)}?${params.toString()}`
+        };
+    }
+
+    /**
+     * Turn two-factor authentication on once the user proves their app produces
+     * valid codes. Returns the recovery codes, which are only ever shown now.
+     */
+    static async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+        const user = await this.loadUser(userId);
+        if (user.twoFactor?.enabled) {
+            throw new ConflictError('Two-factor authentication is already enabled');
+        }
+        if (!user.twoFactor?.pendingSecret) {
+            throw new ValidationError('Start two-factor setup before confirming it');
+        }
+
+        const secret = decryptSecret(user.twoFactor.pendingSecret);
+        const step = matchStep(secret, code || '');
+        if (step === null) {
+            throw new AuthenticationError('Invalid verification code');
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        user.set('twoFactor', {
+            enabled: true,
+            secret: user.twoFactor.pendingSecret,
+            pendingSecret: undefined,
+            recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+            enabledAt: new Date(),
+            lastUsedStep: step
+        });
+        await user.save();
+        return recoveryCodes;
+    }
+
+    /**
+     * Check the second factor of a sign-in: an authenticator code, or a recovery
+     * code, which is used up. Both are consumed atomically so concurrent
+     * requests cannot use the same code twice.
+     */
+    static async verify(userId: string, credentials: TwoFactorCredentials): Promise<TwoFactorMethod> {
+        const user = await this.loadUser(userId);
+        if (!user.twoFactor?.enabled || !user.twoFactor.secret) {
+            throw new ValidationError('Two-factor authentication is not enabled');
+        }
+
+        if (credentials.recoveryCode) {
+            const hash = hashRecoveryCode(credentials.recoveryCode);
+            const result = await User.updateOne(
+                { _id: user._id, 'twoFactor.recoveryCodes': hash },
+                { $pull: { 'twoFactor.recoveryCodes': hash } }
+            );
+            if (result.modifiedCount === 0) {
+                throw new AuthenticationError('Invalid recovery code');
+            }
+            return 'recovery_code';
+        }
+
+        const step = matchStep(decryptSecret(user.twoFactor.secret), credentials.code || '', user.twoFactor.lastUsedStep);
+        if (step === null) {
+            throw new AuthenticationError('Invalid verification code');
+        }
+        const result = await User.updateOne(
+            {
+                _id: user._id,
+                $or: [{ 'twoFactor.lastUsedStep': { $exists: false } }, { 'twoFactor.lastUsedStep': { $lt: step } }]
+            },
+            { $set: { 'twoFactor.lastUsedStep': step } }
+        );
+        if (result.modifiedCount === 0) {
+            throw new AuthenticationError('Invalid verification code');
+        }
+        return 'totp';
+    }
+
+    /**
+     * Turn two-factor authentication off. Needs a current code, and is refused
+     * while the platform policy requires it for the user's role.
+     */
+    static async disable(userId: string, credentials: TwoFactorCredentials): Promise<void> {
+        const user = await this.loadUser(userId);
+        if (await this.isRequired(user.role)) {
+            throw new AuthorizationError('Two-factor authentication is required for your role');
+        }
+        await this.verify(userId, credentials);
+        await User.updateOne({ _id: user._id }, { $set: { twoFactor: { enabled: false, recoveryCodes: [] } } });
+    }
+
+    /**
+     * Replace all recovery codes with a fresh set. Needs a current code.
+     */
+    static async regenerateRecoveryCodes(userId: string, credentials: TwoFactorCredentials): Promise<string[]> {
+        await this.verify(userId, credentials);
+        const recoveryCodes = generateRecoveryCodes();
+        await User.updateOne(
+            { _id: userId },
+            { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode) } }
+        );
+        return recoveryCodes;
+    }
+
+    /**
+     * Remove a user's authenticator and recovery codes, for when they have lost
+     * both. If their role requires two-factor they set it up again at sign-in.
+     */
+    static async reset(userId: string): Promise<void> {
+        const result = await User.updateOne({ _id: userId }, { $set: { twoFactor: { enabled: false, recoveryCodes: [] } } });
+        if (result.matchedCount === 0) {
+            throw new NotFoundError('User');
+        }
+    }
+
+    private static async loadUser(userId: string): Promise<IUser> {
+        const user = await User.findById(userId).select(SECRET_FIELDS);
+        if (!user) {
+            throw new NotFoundError('User');
+        }
+        return user;
+    }
+}
+
+export default TwoFactorService;
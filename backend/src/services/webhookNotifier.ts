@@ -0,0 +1,233 @@
+import Integration, { IIntegration } from '../models/Integration';
+import NotificationQueueService from './notificationQueueService';
+import logger from '../config/logger';
+
+export type NotifierPlatform = Exclude<IIntegration['platform'], 'zoom'>;
+
+/**
+ * What every chat integration can be asked to post. Notifications go through
+ * the notification queue, so each method returns whether a message was queued;
+ * nothing is queued when the user has no enabled integration for the platform
+ * or has turned that kind of message off.
+ */
+export interface IntegrationNotifier {
+  readonly platform: NotifierPlatform;
+  notifyEnrollment(userId: string, courseName: string): Promise<boolean>;
+  notifyAchievement(userId: string, achievementName: string, points: number): Promise<boolean>;
+  notifyProgress(userId: string, courseName: string, progress: number): Promise<boolean>;
+  sendAnnouncement(userId: string, title: string, message: string): Promise<boolean>;
+  isAllowedWebhookUrl(webhookUrl: string): boolean;
+  validateWebhook(webhookUrl: string): Promise<boolean>;
+  testConnection(userId: string): Promise<boolean>;
+}
+
+// A platform-neutral message; `text` may use **bold** markdown
+export interface NotificationMessage {
+  title: string;
+  text: string;
+  color: number;
+  fields?: Array<{ name: string; value: string }>;
+  timestamp?: string;
+}
+
+export const NOTIFICATION_FOOTER = 'EduKnit Learning Platform';
+
+// Only send notifications for milestone progress (25%, 50%, 75%, 100%)
+const PROGRESS_MILESTONES = [25, 50, 75, 100];
+
+/**
+ * Shared behaviour for notifiers that post to an incoming webhook. Platforms
+ * only decide how a message is laid out (`formatMessage`) and which hosts
+ * their webhooks live on.
+ */
+export abstract class WebhookNotifier<TPayload> implements IntegrationNotifier {
+  abstract readonly platform: NotifierPlatform;
+  protected abstract readonly displayName: string;
+  protected abstract readonly webhookHosts: string[];
+
+  protected abstract formatMessage(message: NotificationMessage): TPayload;
+
+  /**
+   * Webhooks must point at the platform, so user-supplied URLs cannot be used
+   * to reach other hosts. INTEGRATION_WEBHOOK_HOSTS adds hosts (e.g. a local
+   * stub or a self-hosted relay).
+   */
+  isAllowedWebhookUrl(webhookUrl: string): boolean {
+    let url: URL;
+    try {
+      url = new URL(webhookUrl);
+    } catch {
+      return false;
+    }
+    const extraHosts = (process.env.INTEGRATION_WEBHOOK_HOSTS || '')
+      .split(',')
+      .map(host => host.trim())
+      .filter(Boolean);
+    if (extraHosts.includes(url.host) || extraHosts.includes(url.hostname)) {
+      return true;
+    }
+    return url.protocol === 'https:' && this.webhookHosts.some(host =>
+      host.startsWith('.') ? url.hostname.endsWith(host) : url.hostname === host
+    );
+  }
+
+  /**
+   * Post a payload to a webhook straight away, for checks the user is waiting
+   * on. Notifications are queued instead (see `notify`).
+   */
+  async sendWebhookMessage(webhookUrl: string, payload: TPayload): Promise<boolean> {
+    try {
+      if (!this.isAllowedWebhookUrl(webhookUrl)) {
+        logger.warn(`${this.displayName} webhook URL rejected: not a ${this.displayName} host`);
+        return false;
+      }
+
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      logger.info(`${this.displayName} webhook message sent successfully`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to send ${this.displayName} webhook message:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Send course enrollment notification
+   */
+  async notifyEnrollment(userId: string, courseName: string): Promise<boolean> {
+    return this.notify(userId, 'notifications', 'enrollment notification', {
+      title: '🎓 New Course Enrollment',
+      text: `Successfully enrolled in **${courseName}**!`,
+      color: 0x3B82F6, // Blue color
+      fields: [
+        { name: '📚 Course', value: courseName },
+        { name: '📅 Date', value: new Date().toLocaleDateString() }
+      ]
+    });
+  }
+
+  /**
+   * Send achievement notification
+   */
+  async notifyAchievement(userId: string, achievementName: string, points: number): Promise<boolean> {
+    return this.notify(userId, 'achievementSharing', 'achievement notification', {
+      title: '🏆 Achievement Unlocked!',
+      text: `Earned the **${achievementName}** achievement!`,
+      color: 0xF59E0B, // Amber color
+      fields: [
+        { name: '🎖️ Achievement', value: achievementName },
+        { name: '⭐ Points', value: `+${points}` }
+      ]
+    });
+  }
+
+  /**
+   * Send progress update notification
+   */
+  async notifyProgress(userId: string, courseName: string, progress: number): Promise<boolean> {
+    if (!PROGRESS_MILESTONES.includes(Math.round(progress))) {
+      return false;
+    }
+
+    const completed = Math.round(progress) === 100;
+    return this.notify(userId, 'progressUpdates', 'progress notification', {
+      title: completed ? '🎉 Course Completed!' : '📈 Progress Update',
+      text: `Made progress in **${courseName}**`,
+      color: completed ? 0x10B981 : 0x8B5CF6, // Green for completion, purple for progress
+      fields: [
+        { name: '📚 Course', value: courseName },
+        { name: '📊 Progress', value: `${Math.round(progress)}%` }
+      ]
+    });
+  }
+
+  /**
+   * Send announcement
+   */
+  async sendAnnouncement(userId: string, title: string, message: string): Promise<boolean> {
+    return this.notify(userId, 'announcements', 'announcement', {
+      title: `📢 ${title}`,
+      text: message,
+      color: 0xEF4444 // Red color for announcements
+    });
+  }
+
+  /**
+   * Validate a webhook URL by posting a test message to it
+   */
+  async validateWebhook(webhookUrl: string): Promise<boolean> {
+    return this.sendWebhookMessage(webhookUrl, this.formatMessage({
+      title: '✅ Integration Test',
+      text: `EduKnit ${this.displayName} integration is working!`,
+      color: 0x10B981
+    }));
+  }
+
+  /**
+   * Test integration connection
+   */
+  async testConnection(userId: string): Promise<boolean> {
+    try {
+      const integration = await this.findIntegration(userId);
+      if (!integration) {
+        return false;
+      }
+      return await this.validateWebhook(integration.config.webhookUrl!);
+    } catch (error) {
+      logger.error(`Error testing ${this.displayName} connection:`, error);
+      return false;
+    }
+  }
+
+  private async findIntegration(userId: string): Promise<IIntegration | null> {
+    const integration = await Integration.findOne({
+      userId,
+      platform: this.platform,
+      enabled: true
+    });
+    return integration?.config.webhookUrl ? integration : null;
+  }
+
+  private async notify(
+    userId: string,
+    preference: keyof IIntegration['preferences'],
+    description: string,
+    message: NotificationMessage
+  ): Promise<boolean> {
+    try {
+      const integration = await this.findIntegration(userId);
+      if (!integration || !integration.preferences[preference]) {
+        return false;
+      }
+
+      const webhookUrl = integration.config.webhookUrl!;
+      if (!this.isAllowedWebhookUrl(webhookUrl)) {
+        logger.warn(`${this.displayName} webhook URL rejected: not a ${this.displayName} host`);
+        return false;
+      }
+
+      await NotificationQueueService.enqueue({
+        channel: 'webhook',
+        destination: webhookUrl,
+        description: `${this.displayName} ${description}`,
+        payload: this.formatMessage({ ...message, timestamp: new Date().toISOString() }) as Record<string, any>,
+        integrationId: integration._id
+      });
+      return true;
+    } catch (error) {
+      logger.error(`Error queueing ${this.displayName} ${description}:`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import ProgrammeLesson, { IProgrammeLesson } from '../models/ProgrammeLesson';
+import XapiStatement from '../models/XapiStatement';
+import LessonPackageService, { LessonPackageResult } from './lessonPackageService';
+import PermissionService from './permissionService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+// Version of the xAPI spec the statement endpoint speaks
+export const XAPI_VERSION = '1.0.3';
+
+const VERB_COMPLETED = 'http://adlnet.gov/expapi/verbs/completed';
+const VERB_PASSED = 'http://adlnet.gov/expapi/verbs/passed';
+const VERB_FAILED = 'http://adlnet.gov/expapi/verbs/failed';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ISO 8601 duration as used by xAPI, e.g. PT1H2M3.5S
+const DURATION_PATTERN = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseDuration = (value: unknown): number => {
+    const match = typeof value === 'string' ? value.match(DURATION_PATTERN) : null;
+    if (!match) {
+        return 0;
+    }
+    const [, days, hours, minutes, seconds] = match.map(part => Number(part || 0));
+    return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+};
+
+// Score as a percentage: scaled (-1 to 1), or raw within min and max
+const scorePercentage = (score: unknown): number | undefined => {
+    if (!isRecord(score)) {
+        return undefined;
+    }
+    if (typeof score.scaled === 'number') {
+        return score.scaled * 100;
+    }
+    if (typeof score.raw === 'number') {
+        if (typeof score.min === 'number' && typeof score.max === 'number' && score.max > score.min) {
+            return (score.raw - score.min) / (score.max - score.min) * 100;
+        }
+        return score.raw;
+    }
+    return undefined;
+};
+
+class XapiService {
+    /**
+     * Store statements sent by a lesson's xAPI package for the caller. Statements
+     * about the package's own activity count towards the lesson: completed and
+     * passed verbs, or a result with completion or a score. Statements resent
+     * with the same id are accepted once. Returns the statement ids.
+     */
+    static async storeStatements(studentId: string, lessonId: string, input: unknown, statementId?: string): Promise<string[]> {
+        const lesson = await this.findXapiLesson(lessonId);
+        const statements = Array.isArray(input) && statementId === undefined ? input : [input];
+        if (statements.length === 0) {
+            throw new ValidationError('No statements given');
+        }
+        if (statementId !== undefined && (!UUID_PATTERN.test(statementId) || (isRecord(input) && input.id !== undefined && input.id !== statementId))) {
+            throw new ValidationError('statementId must be a UUID matching the statement id');
+        }
+
+        const errors: { field: string; message: string }[] = [];
+        statements.forEach((statement, index) => {
+            const label = `statements[${index}]`;
+            if (!isRecord(statement)) {
+                errors.push({ field: label, message: 'Statement must be an object' });
+                return;
+            }
+            if (statement.id !== undefined && (typeof statement.id !== 'string' || !UUID_PATTERN.test(statement.id))) {
+                errors.push({ field: `${label}.id`, message: 'Statement id must be a UUID' });
+            }
+            if (!isRecord(statement.verb) || typeof statement.verb.id !== 'string' || !statement.verb.id) {
+                errors.push({ field: `${label}.verb.id`, message: 'Verb id is required' });
+            }
+            if (!isRecord(statement.object)) {
+                errors.push({ field: `${label}.object`, message: 'Object is required' });
+            }
+            if (statement.timestamp !== undefined && isNaN(Date.parse(statement.timestamp))) {
+                errors.push({ field: `${label}.timestamp`, message: 'Timestamp must be an ISO 8601 date' });
+            }
+        });
+        if (errors.length > 0) {
+            throw new ValidationError('Invalid xAPI statement', errors);
+        }
+
+        const [enrolled, started] = await Promise.all([
+            PermissionService.isEnrolled(studentId, String(lesson.programmeId)),
+            XapiStatement.exists({ studentId, lessonId: lesson._id }).then(exists => !exists)
+        ]);
+
+        const ids: string[] = [];
+        for (const statement of statements as Record<string, any>[]) {
+            const id = (statementId || statement.id || crypto.randomUUID()).toLowerCase();
+            ids.push(id);
+
+            const duplicate = await XapiStatement.findOne({ statementId: id }).select('studentId');
+            if (duplicate) {
+                if (String(duplicate.studentId) !== studentId) {
+                    throw new ConflictError(`Statement ${id} already exists`);
+                }
+                continue;
+            }
+
+            const stored = new Date();
+            const isActivity = !statement.object.objectType || statement.object.objectType === 'Activity';
+            await XapiStatement.create({
+                statementId: id,
+                studentId,
+                programmeId: lesson.programmeId,
+                lessonId: lesson._id,
+                verb: statement.verb.id,
+                objectId: isActivity ? statement.object.id : undefined,
+                statement: { ...statement, id, stored: stored.toISOString() },
+                timestamp: statement.timestamp ? new Date(statement.timestamp) : stored,
+                stored
+            });
+
+            // Staff previewing the lesson have no progress to record
+            const result = enrolled && isActivity && statement.object.id === lesson.content.package!.activityId
+                ? this.toLessonResult(statement, started && ids.length === 1)
+                : null;
+            if (result) {
+                await LessonPackageService.recordResult(lesson, studentId, result);
+            }
+        }
+
+        return ids;
+    }
+
+    /**
+     * A statement the caller stored for a lesson
+     */
+    static async getStatement(studentId: string, lessonId: string, statementId: string): Promise<Record<string, any>> {
+        const lesson = await this.findXapiLesson(lessonId);
+        const stored = await XapiStatement.findOne({ statementId: statementId.toLowerCase(), studentId, lessonId: lesson._id });
+        if (!stored) {
+            throw new NotFoundError('Statement');
+        }
+        return stored.statement;
+    }
+
+    // What a statement about the package's activity says about the lesson, if anything
+    private static toLessonResult(statement: Record<string, any>, started: boolean): LessonPackageResult | null {
+        const verb = statement.verb.id;
+        const result = isRecord(statement.result) ? statement.result : {};
+        const percentage = scorePercentage(result.score);
+        const failed = verb === VERB_FAILED || result.success === false;
+        const completed = !failed && (verb === VERB_COMPLETED || verb === VERB_PASSED || result.completion === true);
+
+        if (!completed && !failed && percentage === undefined && !started) {
+            return null;
+        }
+        return {
+            completed,
+            percentage,
+            passed: !failed && (verb === VERB_PASSED || result.success === true || completed),
+            timeSpent: parseDuration(result.duration),
+            started,
+            source: 'xapi'
+        };
+    }
+
+    private static async findXapiLesson(lessonId: string): Promise<IProgrammeLesson> {
+        if (!Types.ObjectId.isValid(lessonId)) {
+            throw new ValidationError('Invalid lesson ID');
+        }
+        const lesson = await ProgrammeLesson.findById(lessonId);
+        if (!lesson) {
+            throw new NotFoundError('Lesson');
+        }
+        if (lesson.content?.package?.standard !== 'XAPI') {
+            throw new NotFoundError('xAPI package');
+        }
+        return lesson;
+    }
+}
+
+export default XapiService;
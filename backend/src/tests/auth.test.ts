@@ -53,6 +53,16 @@ describe('Auth Routes', () => {
       expect(savedUser?.email).toBe(testUser.email);
     });
 
+    it('should ignore a role sent with the registration', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ ...testUser, role: 'admin' })
+        .expect(201);
+
+      const savedUser = await User.findOne({ email: testUser.email });
+      expect(savedUser?.role).toBe('user');
+    });
+
     it('should not register user with existing email', async () => {
       // Create user first
       await User.create(testUser);
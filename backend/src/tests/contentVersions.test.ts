@@ -0,0 +1,206 @@
+import request from 'supertest';
+import express from 'express';
+import mongoose from 'mongoose';
+import ProgrammeModule from '../models/ProgrammeModule';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import ContentVersion from '../models/ContentVersion';
+import UserCourseProgress from '../models/UserCourseProgress';
+import ContentVersionService from '../services/contentVersionService';
+import adminRoutes from '../routes/admin';
+import { generateAccessToken } from '../utils/jwt';
+import { createProgramme, createModule, createLesson } from './fixtures';
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRoutes);
+
+describe('Lesson and module publishing', () => {
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const adminToken = generateAccessToken({ user: { id: adminId, role: 'admin' } });
+  let programmeId: string;
+  let moduleId: string;
+
+  beforeEach(async () => {
+    programmeId = (await createProgramme()).id;
+    moduleId = (await createModule(programmeId, { title: 'Basics' })).id;
+  });
+
+  const admin = (method: 'get' | 'post' | 'put' | 'delete', url: string) =>
+    request(app)[method](`/api/admin${url}`).set('Authorization', `Bearer ${adminToken}`);
+
+  const createPublishedLesson = async () => {
+    const created = await admin('post', '/lessons').send({
+      moduleId,
+      programmeId,
+      title: 'Variables',
+      description: 'Storing values',
+      type: 'TEXT',
+      content: { textContent: 'A variable holds a value.', contentFormat: 'HTML' },
+      estimatedDuration: 10
+    });
+    const lessonId = created.body.data.id;
+    await admin('post', `/lessons/${lessonId}/publish`).send({});
+    return lessonId;
+  };
+
+  it('should keep new lessons hidden until they are published', async () => {
+    const created = await admin('post', '/lessons').send({
+      moduleId,
+      programmeId,
+      title: 'Variables',
+      description: 'Storing values',
+      type: 'TEXT',
+      content: { textContent: 'First draft' },
+      isActive: true
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.data.isActive).toBe(false);
+    expect(created.body.data.publishing).toMatchObject({ status: 'DRAFT', version: 0 });
+    const lessonId = created.body.data.id;
+
+    // Before the first publish, edits go straight to the lesson
+    await admin('put', `/lessons/${lessonId}`).send({ content: { textContent: 'Second draft' }, isActive: true });
+    let lesson = await ProgrammeLesson.findById(lessonId);
+    expect(lesson?.content.textContent).toBe('Second draft');
+    expect(lesson?.isActive).toBe(false);
+
+    const published = await admin('post', `/lessons/${lessonId}/publish`).send({ note: 'First release' });
+    expect(published.status).toBe(200);
+    expect(published.body.data.publishing).toMatchObject({ status: 'PUBLISHED', version: 1, hasDraft: false });
+
+    lesson = await ProgrammeLesson.findById(lessonId);
+    expect(lesson?.isActive).toBe(true);
+    const versions = await admin('get', `/lessons/${lessonId}/versions`);
+    expect(versions.body.data).toHaveLength(1);
+    expect(versions.body.data[0]).toMatchObject({ version: 1, note: 'First release' });
+
+    const again = await admin('post', `/lessons/${lessonId}/publish`).send({});
+    expect(again.status).toBe(400);
+  });
+
+  it('should save edits to published lessons as a draft and publish them as a new version', async () => {
+    const lessonId = await createPublishedLesson();
+    const studentId = new mongoose.Types.ObjectId();
+    await UserCourseProgress.create({ studentId, programmeId, moduleId, lessonId, status: 'COMPLETED', progressPercentage: 100 });
+
+    const edited = await admin('put', `/lessons/${lessonId}`).send({
+      title: 'Variables and Constants',
+      content: { textContent: 'A variable holds a value; a constant never changes.', contentFormat: 'HTML' },
+      orderIndex: 3
+    });
+    expect(edited.status).toBe(200);
+    expect(edited.body.data.title).toBe('Variables and Constants');
+    expect(edited.body.data.publishing.hasDraft).toBe(true);
+
+    // Students still see the published content; structural fields apply at once
+    let lesson = await ProgrammeLesson.findById(lessonId);
+    expect(lesson?.title).toBe('Variables');
+    expect(lesson?.orderIndex).toBe(3);
+    expect(lesson?.toJSON().publishing.draft).toBeUndefined();
+
+    const diff = await admin('get', `/lessons/${lessonId}/versions/diff?from=published&to=draft`);
+    expect(diff.body.data.changes).toEqual([
+      { path: 'content.textContent', change: 'changed', before: 'A variable holds a value.', after: 'A variable holds a value; a constant never changes.' },
+      { path: 'title', change: 'changed', before: 'Variables', after: 'Variables and Constants' }
+    ]);
+
+    const published = await admin('post', `/lessons/${lessonId}/publish`).send({});
+    expect(published.body.data.publishing.version).toBe(2);
+    lesson = await ProgrammeLesson.findById(lessonId);
+    expect(lesson?.title).toBe('Variables and Constants');
+    expect(lesson?.publishing.draft).toBeUndefined();
+
+    // Progress keeps pointing at the same lesson
+    expect(await UserCourseProgress.countDocuments({ studentId, lessonId })).toBe(1);
+
+    // Saving the published content again leaves no draft behind
+    await admin('put', `/lessons/${lessonId}`).send({ title: 'Variables and Constants' });
+    expect((await ProgrammeLesson.findById(lessonId))?.publishing.draft).toBeUndefined();
+  });
+
+  it('should roll back to an earlier version without touching the quiz', async () => {
+    const lessonId = await createPublishedLesson();
+    await admin('put', `/lessons/${lessonId}`).send({ title: 'Renamed', content: { textContent: 'Rewritten' } });
+    await admin('post', `/lessons/${lessonId}/publish`).send({});
+    await ProgrammeLesson.updateOne({ _id: lessonId }, {
+      'content.quiz': { questions: [{ id: 'q1', question: 'What is a variable?', type: 'SHORT_ANSWER', correctAnswer: 'A named value', points: 1 }], passingScore: 50 }
+    });
+
+    const rolledBack = await admin('post', `/lessons/${lessonId}/versions/1/rollback`);
+    expect(rolledBack.status).toBe(200);
+    expect(rolledBack.body.data.publishing.version).toBe(3);
+
+    const lesson = await ProgrammeLesson.findById(lessonId);
+    expect(lesson?.title).toBe('Variables');
+    expect(lesson?.content.textContent).toBe('A variable holds a value.');
+    expect(lesson?.content.quiz?.questions).toHaveLength(1);
+
+    const version = await admin('get', `/lessons/${lessonId}/versions/3`);
+    expect(version.body.data).toMatchObject({ restoredFrom: 1, snapshot: { title: 'Variables' } });
+
+    const missing = await admin('post', `/lessons/${lessonId}/versions/9/rollback`);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should publish scheduled changes once their time comes', async () => {
+    const lessonId = await createPublishedLesson();
+
+    const nothing = await admin('put', `/lessons/${lessonId}/schedule`).send({ publishAt: new Date(Date.now() + 60000).toISOString() });
+    expect(nothing.status).toBe(400);
+
+    await admin('put', `/lessons/${lessonId}`).send({ description: 'Storing and naming values' });
+    const past = await admin('put', `/lessons/${lessonId}/schedule`).send({ publishAt: new Date(Date.now() - 60000).toISOString() });
+    expect(past.status).toBe(400);
+
+    const publishAt = new Date(Date.now() + 60 * 60000);
+    const scheduled = await admin('put', `/lessons/${lessonId}/schedule`).send({ publishAt: publishAt.toISOString() });
+    expect(scheduled.status).toBe(200);
+    expect(new Date(scheduled.body.data.publishing.scheduledAt).getTime()).toBe(publishAt.getTime());
+
+    expect(await ContentVersionService.publishDue(new Date())).toBe(0);
+    expect(await ContentVersionService.publishDue(new Date(publishAt.getTime() + 1000))).toBe(1);
+
+    const lesson = await ProgrammeLesson.findById(lessonId);
+    expect(lesson?.description).toBe('Storing and naming values');
+    expect(lesson?.publishing).toMatchObject({ version: 2 });
+    expect(lesson?.publishing.scheduledAt).toBeUndefined();
+    expect(String(lesson?.publishing.publishedBy)).toBe(adminId);
+  });
+
+  it('should keep content from before versioning as version 1', async () => {
+    const lesson = await createLesson(programmeId, { moduleId, title: 'Loops', orderIndex: 1 });
+    expect(lesson.publishing).toMatchObject({ status: 'PUBLISHED', version: 0 });
+
+    await admin('put', `/lessons/${lesson.id}`).send({ title: 'Loops and Iteration' });
+    await admin('post', `/lessons/${lesson.id}/publish`).send({});
+
+    const versions = await ContentVersion.find({ contentId: lesson._id }).sort({ version: 1 });
+    expect(versions.map(version => version.version)).toEqual([1, 2]);
+    expect(versions[0].snapshot.title).toBe('Loops');
+    expect(versions[1].snapshot.title).toBe('Loops and Iteration');
+  });
+
+  it('should version modules the same way', async () => {
+    const edited = await admin('put', `/modules/${moduleId}`).send({ title: 'Getting Started', totalLessons: 4 });
+    expect(edited.status).toBe(200);
+
+    let module = await ProgrammeModule.findById(moduleId);
+    expect(module?.title).toBe('Basics');
+    expect(module?.totalLessons).toBe(4);
+
+    const listed = await admin('get', `/modules?programmeId=${programmeId}`);
+    expect(listed.body.data.modules[0]).toMatchObject({ title: 'Getting Started', publishing: { hasDraft: true } });
+
+    const discarded = await admin('delete', `/modules/${moduleId}/draft`);
+    expect(discarded.body.data.title).toBe('Basics');
+
+    await admin('put', `/modules/${moduleId}`).send({ title: 'Getting Started' });
+    await admin('post', `/modules/${moduleId}/publish`).send({});
+    module = await ProgrammeModule.findById(moduleId);
+    expect(module?.title).toBe('Getting Started');
+    expect(module?.publishing.version).toBe(2);
+
+    const invalid = await admin('put', `/modules/${moduleId}`).send({ title: '' });
+    expect(invalid.status).toBe(400);
+  });
+});
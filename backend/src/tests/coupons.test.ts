@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import Coupon, { ICoupon } from '../models/Coupon';
+import CouponRedemption from '../models/CouponRedemption';
+import CouponService, { PriceQuote, RedemptionContext } from '../services/couponService';
+import { ValidationError } from '../utils/errors';
+
+describe('Coupon redemption limits', () => {
+  const programmeId = new mongoose.Types.ObjectId().toString();
+
+  const createCoupon = (fields: Record<string, unknown> = {}): Promise<ICoupon> =>
+    Coupon.create({ code: 'SAVE20', discountType: 'PERCENT', discountValue: 20, ...fields });
+
+  const quoteFor = (coupon: ICoupon): PriceQuote => ({
+    originalPrice: 100,
+    discountAmount: 20,
+    discountApplied: 20,
+    finalPrice: 80,
+    currency: 'USD',
+    enrollmentSource: 'PROMOTION',
+    code: coupon.code,
+    couponId: String(coupon._id)
+  });
+
+  const contextFor = (studentId = new mongoose.Types.ObjectId().toString(), fields: Partial<RedemptionContext> = {}): RedemptionContext => ({
+    studentId,
+    programmeId,
+    orderId: new mongoose.Types.ObjectId().toString(),
+    ...fields
+  });
+
+  it('should refuse redemptions past the coupon limit', async () => {
+    const coupon = await createCoupon({ maxRedemptions: 2 });
+
+    await CouponService.redeem(quoteFor(coupon), contextFor());
+    await CouponService.redeem(quoteFor(coupon), contextFor());
+    await expect(CouponService.redeem(quoteFor(coupon), contextFor())).rejects.toThrow(ValidationError);
+
+    const stored = await Coupon.findById(coupon._id);
+    expect(stored!.redemptionCount).toBe(2);
+    expect(await CouponRedemption.countDocuments({ couponId: coupon._id })).toBe(2);
+  });
+
+  it('should not go over the coupon limit with concurrent redemptions', async () => {
+    const coupon = await createCoupon({ maxRedemptions: 3 });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, () => CouponService.redeem(quoteFor(coupon), contextFor()))
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3);
+    const stored = await Coupon.findById(coupon._id);
+    expect(stored!.redemptionCount).toBe(3);
+    expect(await CouponRedemption.countDocuments({ couponId: coupon._id })).toBe(3);
+  });
+
+  it('should refuse redemptions past the per-student limit', async () => {
+    const coupon = await createCoupon({ maxRedemptionsPerStudent: 1 });
+    const studentId = new mongoose.Types.ObjectId().toString();
+
+    await CouponService.redeem(quoteFor(coupon), contextFor(studentId));
+    await expect(CouponService.redeem(quoteFor(coupon), contextFor(studentId))).rejects.toThrow('You have already used this code');
+
+    const stored = await Coupon.findById(coupon._id);
+    expect(stored!.redemptionCount).toBe(1);
+    expect(await CouponRedemption.countDocuments({ couponId: coupon._id, studentId })).toBe(1);
+  });
+
+  it('should keep a student within their limit with concurrent redemptions', async () => {
+    const coupon = await createCoupon({ maxRedemptionsPerStudent: 1 });
+    const studentId = new mongoose.Types.ObjectId().toString();
+
+    await Promise.allSettled(
+      Array.from({ length: 5 }, () => CouponService.redeem(quoteFor(coupon), contextFor(studentId)))
+    );
+
+    const redemptions = await CouponRedemption.countDocuments({ couponId: coupon._id, studentId });
+    expect(redemptions).toBeLessThanOrEqual(1);
+    const stored = await Coupon.findById(coupon._id);
+    expect(stored!.redemptionCount).toBe(redemptions);
+  });
+
+  it('should count an order redeemed twice once', async () => {
+    const coupon = await createCoupon({ maxRedemptionsPerStudent: 1 });
+    const context = contextFor();
+
+    await CouponService.redeem(quoteFor(coupon), context);
+    const enrollmentId = new mongoose.Types.ObjectId().toString();
+    await CouponService.redeem(quoteFor(coupon), { ...context, enrollmentId });
+
+    const stored = await Coupon.findById(coupon._id);
+    expect(stored!.redemptionCount).toBe(1);
+    const redemption = await CouponRedemption.findOne({ orderId: context.orderId });
+    expect(String(redemption!.enrollmentId)).toBe(enrollmentId);
+  });
+});
@@ -0,0 +1,176 @@
+import request from 'supertest';
+import express from 'express';
+import mongoose from 'mongoose';
+import Programme from '../models/Programme';
+import ProgrammeModule from '../models/ProgrammeModule';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import adminRoutes from '../routes/admin';
+import CoursePackageService, { CoursePackage } from '../services/coursePackageService';
+import { generateAccessToken } from '../utils/jwt';
+import { createProgramme, createModule, createLesson } from './fixtures';
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRoutes);
+
+describe('Course packages', () => {
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const adminToken = generateAccessToken({ user: { id: adminId, role: 'admin' } });
+  const instructorToken = generateAccessToken({ user: { id: new mongoose.Types.ObjectId().toString(), role: 'instructor' } });
+  let programmeId: string;
+
+  beforeEach(async () => {
+    const programme = await createProgramme({ slug: 'packaged-course', totalModules: 2, totalLessons: 3 });
+    programmeId = programme.id;
+
+    const [first, second] = await Promise.all([0, 1].map(orderIndex =>
+      createModule(programmeId, { title: `Module ${orderIndex + 1}`, orderIndex, totalLessons: 2 })));
+    await ProgrammeModule.updateOne({ _id: second._id }, { prerequisites: [first._id] });
+
+    const intro = await createLesson(programmeId, {
+      moduleId: first._id,
+      title: 'Introduction',
+      content: {
+        contentFormat: 'JSON',
+        richContent: [{ id: 'block-1', type: 'text', content: '<p>Welcome</p>' }]
+      },
+      resources: [{ title: 'Slides', url: 'https://example.com/slides.pdf', type: 'PDF' }]
+    });
+    await createLesson(programmeId, {
+      moduleId: first._id,
+      title: 'Check your understanding',
+      orderIndex: 1,
+      type: 'QUIZ',
+      prerequisites: [intro._id],
+      quiz: {
+        questions: [{ id: 'q1', question: '2 + 2?', type: 'MULTIPLE_CHOICE', options: ['3', '4'], correctAnswer: 1, points: 1 }],
+        passingScore: 70
+      }
+    });
+    await createLesson(programmeId, { moduleId: second._id, title: 'Going further' });
+  });
+
+  const exportPackage = async (): Promise<CoursePackage> =>
+    JSON.parse(JSON.stringify(await CoursePackageService.exportPackage(programmeId)));
+
+  const clearCourse = () => Promise.all([
+    Programme.deleteMany({}),
+    ProgrammeModule.deleteMany({}),
+    ProgrammeLesson.deleteMany({})
+  ]);
+
+  it('should recreate a course from its ZIP package with new ids', async () => {
+    const zip = CoursePackageService.toZip(await exportPackage());
+    await clearCourse();
+
+    const result = await CoursePackageService.importPackage(CoursePackageService.parse(zip), { userId: adminId });
+    expect(result.summary).toEqual({ create: 6, update: 0, unchanged: 0, deactivate: 0 });
+
+    const programme = await Programme.findOne({ slug: 'packaged-course' });
+    expect(programme?.id).toBe(result.programme.id);
+    expect(programme?.id).not.toBe(programmeId);
+
+    const modules = await ProgrammeModule.find({ programmeId: programme!._id }).sort({ orderIndex: 1 });
+    expect(modules.map(module => module.prerequisites.map(String))).toEqual([[], [modules[0].id]]);
+
+    const quiz = await ProgrammeLesson.findOne({ programmeId: programme!._id, type: 'QUIZ' });
+    const intro = await ProgrammeLesson.findOne({ programmeId: programme!._id, title: 'Introduction' });
+    expect(quiz?.prerequisites.map(String)).toEqual([intro!.id]);
+    expect(String(quiz?.moduleId)).toBe(modules[0].id);
+    expect(quiz?.quiz?.questions[0].correctAnswer).toBe(1);
+    expect(intro?.content.richContent?.[0].content).toBe('<p>Welcome</p>');
+    expect(intro?.resources[0].url).toBe('https://example.com/slides.pdf');
+  });
+
+  it('should find nothing to change when the same package is imported again', async () => {
+    const result = await CoursePackageService.importPackage(await exportPackage(), { userId: adminId });
+
+    expect(result.programme.id).toBe(programmeId);
+    expect(result.summary).toEqual({ create: 0, update: 0, unchanged: 6, deactivate: 0 });
+  });
+
+  it('should describe changes without writing them on a dry run', async () => {
+    const coursePackage = await exportPackage();
+    coursePackage.lessons[0].title = 'Welcome';
+    coursePackage.lessons.pop();
+
+    const result = await CoursePackageService.importPackage(coursePackage, { userId: adminId, dryRun: true });
+
+    expect(result.lessons[0]).toMatchObject({ action: 'update', fields: ['title'], title: 'Welcome' });
+    expect(result.lessons.find(change => change.action === 'deactivate')?.title).toBe('Going further');
+    expect(await ProgrammeLesson.countDocuments({ title: 'Welcome' })).toBe(0);
+    expect(await ProgrammeLesson.countDocuments({ isActive: false })).toBe(0);
+  });
+
+  it('should update lessons in place and deactivate the ones left out', async () => {
+    const coursePackage = await exportPackage();
+    const introId = coursePackage.lessons[0].key;
+    coursePackage.lessons[0].title = 'Welcome';
+    coursePackage.lessons.pop();
+
+    await CoursePackageService.importPackage(coursePackage, { userId: adminId });
+
+    expect((await ProgrammeLesson.findById(introId))?.title).toBe('Welcome');
+    expect((await ProgrammeLesson.findOne({ title: 'Going further' }))?.isActive).toBe(false);
+    expect(await ProgrammeLesson.countDocuments({})).toBe(3);
+  });
+
+  it('should reject a package with broken references before writing anything', async () => {
+    const coursePackage = await exportPackage();
+    await clearCourse();
+    coursePackage.lessons[1].moduleKey = 'missing-module';
+    coursePackage.lessons[2].prerequisites = ['missing-lesson'];
+
+    const response = await request(app)
+      .post('/api/admin/courses/import')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(coursePackage);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details.map((detail: { field: string }) => detail.field)).toEqual([
+      'lessons[1].moduleKey',
+      'lessons[2].prerequisites[0]'
+    ]);
+    expect(await Programme.countDocuments({})).toBe(0);
+  });
+
+  it('should report invalid field values with their location', async () => {
+    const coursePackage = await exportPackage();
+    delete coursePackage.modules[1].title;
+    coursePackage.lessons[0].type = 'PODCAST';
+
+    await expect(CoursePackageService.importPackage(coursePackage, { userId: adminId })).rejects.toMatchObject({
+      details: expect.arrayContaining([
+        expect.objectContaining({ field: 'modules[1].title' }),
+        expect.objectContaining({ field: 'lessons[0].type' })
+      ])
+    });
+  });
+
+  it('should export over HTTP and keep imports to admins', async () => {
+    const exported = await request(app)
+      .get(`/api/admin/courses/${programmeId}/export?format=zip`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(exported.status).toBe(200);
+    expect(exported.headers['content-disposition']).toContain('packaged-course.course.zip');
+
+    const forbidden = await request(app)
+      .post('/api/admin/courses/import')
+      .set('Authorization', `Bearer ${instructorToken}`)
+      .attach('package', exported.body, 'packaged-course.course.zip');
+    expect(forbidden.status).toBe(403);
+
+    const dryRun = await request(app)
+      .post('/api/admin/courses/import?dryRun=true')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .attach('package', exported.body, 'packaged-course.course.zip');
+    expect(dryRun.status).toBe(200);
+    expect(dryRun.body.data.summary.unchanged).toBe(6);
+  });
+});
@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import Programme, { IProgramme } from '../models/Programme';
+import ProgrammeModule, { IProgrammeModule } from '../models/ProgrammeModule';
+import ProgrammeLesson, { IProgrammeLesson } from '../models/ProgrammeLesson';
+
+/**
+ * Programmes, modules and lessons with every field their schemas require, so
+ * suites only spell out the fields they test
+ */
+
+type Fields = Record<string, unknown>;
+
+export const createProgramme = (fields: Fields = {}): Promise<IProgramme> => {
+  const adminId = new mongoose.Types.ObjectId();
+  return Programme.create({
+    title: 'Test Programme',
+    slug: `test-programme-${adminId}`,
+    description: 'A programme',
+    category: 'TECHNICAL_SKILLS',
+    instructor: 'Instructor',
+    duration: '4 weeks',
+    timeframe: '1 month',
+    level: 'BEGINNER',
+    overview: 'Overview',
+    totalModules: 1,
+    totalLessons: 1,
+    estimatedDuration: 1,
+    createdBy: adminId,
+    lastModifiedBy: adminId,
+    ...fields
+  });
+};
+
+export const createModule = (programmeId: string, fields: Fields = {}): Promise<IProgrammeModule> =>
+  ProgrammeModule.create({
+    programmeId,
+    title: 'Module 1',
+    description: 'A module',
+    orderIndex: 0,
+    estimatedDuration: 30,
+    totalLessons: 1,
+    ...fields
+  });
+
+// Lessons get a module id of their own unless one is given
+export const createLesson = (programmeId: string, fields: Fields = {}): Promise<IProgrammeLesson> =>
+  ProgrammeLesson.create({
+    programmeId,
+    moduleId: new mongoose.Types.ObjectId(),
+    title: 'Lesson 1',
+    description: 'A lesson',
+    orderIndex: 0,
+    type: 'TEXT',
+    estimatedDuration: 10,
+    ...fields
+  });
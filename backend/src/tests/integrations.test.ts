@@ -0,0 +1,185 @@
+import request from 'supertest';
+import express from 'express';
+import mongoose from 'mongoose';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import Integration from '../models/Integration';
+import integrationRoutes from '../routes/integrations';
+import NotificationQueueService from '../services/notificationQueueService';
+import { generateAccessToken } from '../utils/jwt';
+
+const app = express();
+app.use(express.json());
+app.use('/api/integrations', integrationRoutes);
+
+// Stands in for the Slack/Teams webhook endpoints and keeps what was posted
+const webhookStub = express();
+webhookStub.use(express.json());
+let received: Array<{ path: string; body: any }> = [];
+let failWebhooks = false;
+
+webhookStub.post('/hooks/:id', (req, res) => {
+  if (failWebhooks) {
+    res.status(500).end();
+    return;
+  }
+  received.push({ path: req.path, body: req.body });
+  res.status(200).send('ok');
+});
+
+describe('Slack and Teams integrations', () => {
+  let server: Server;
+  let baseUrl: string;
+  let hookCount = 0;
+  const userId = new mongoose.Types.ObjectId().toString();
+  const token = generateAccessToken({ user: { id: userId, role: 'student' } });
+
+  // Webhooks are rate limited per URL, so every test gets a fresh one
+  const nextWebhookUrl = () => `${baseUrl}/hooks/${++hookCount}`;
+
+  beforeAll(() => {
+    server = webhookStub.listen(0);
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+    process.env.INTEGRATION_WEBHOOK_HOSTS = `127.0.0.1:${port}`;
+  });
+
+  afterAll(done => {
+    delete process.env.INTEGRATION_WEBHOOK_HOSTS;
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    received = [];
+    failWebhooks = false;
+  });
+
+  const connect = (platform: string, webhookUrl = nextWebhookUrl(), preferences?: Record<string, boolean>) =>
+    Integration.create({
+      userId,
+      platform,
+      enabled: true,
+      config: { webhookUrl },
+      preferences: preferences || {
+        notifications: true,
+        announcements: true,
+        progressUpdates: true,
+        achievementSharing: true
+      }
+    });
+
+  const notify = (platform: string, type: string) =>
+    request(app)
+      .post('/api/integrations/notify')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ platform, type });
+
+  it('should validate a Slack webhook with a Block Kit test message when saving', async () => {
+    const webhookUrl = nextWebhookUrl();
+    await request(app)
+      .post('/api/integrations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ platform: 'slack', enabled: true, config: { webhookUrl } })
+      .expect(200);
+
+    expect(received).toHaveLength(1);
+    const { text, attachments } = received[0].body;
+    expect(text).toContain('EduKnit Slack integration is working!');
+    expect(attachments[0].color).toBe('#10b981');
+    expect(attachments[0].blocks[0]).toEqual({
+      type: 'header',
+      text: { type: 'plain_text', text: '✅ Integration Test', emoji: true }
+    });
+    expect(await Integration.exists({ userId, platform: 'slack' })).toBeTruthy();
+  });
+
+  it('should reject webhook URLs on hosts other than the platform', async () => {
+    const response = await request(app)
+      .post('/api/integrations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ platform: 'teams', enabled: true, config: { webhookUrl: 'https://example.com/hooks/1' } })
+      .expect(400);
+
+    expect(response.body.error.message).toContain('not a teams webhook');
+    expect(received).toHaveLength(0);
+  });
+
+  it('should send Slack notifications as Block Kit with fields', async () => {
+    await connect('slack');
+
+    await notify('slack', 'enrollment').expect(200);
+    await NotificationQueueService.processDue();
+
+    const { text, attachments } = received[0].body;
+    expect(text).toBe('🎓 New Course Enrollment: Successfully enrolled in Test Course - Integration Demo!');
+    const blocks = attachments[0].blocks;
+    expect(blocks.map((block: any) => block.type)).toEqual(['header', 'section', 'section', 'context']);
+    expect(blocks[1].text).toEqual({
+      type: 'mrkdwn',
+      text: 'Successfully enrolled in *Test Course - Integration Demo*!'
+    });
+    expect(blocks[2].fields[0]).toEqual({ type: 'mrkdwn', text: '*📚 Course*\nTest Course - Integration Demo' });
+  });
+
+  it('should send Teams notifications as Adaptive Cards', async () => {
+    await connect('teams');
+
+    await notify('teams', 'achievement').expect(200);
+    await NotificationQueueService.processDue();
+
+    const { body } = received[0];
+    expect(body.type).toBe('message');
+    expect(body.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+    const card = body.attachments[0].content;
+    expect(card.type).toBe('AdaptiveCard');
+    expect(card.body[0]).toMatchObject({ type: 'TextBlock', text: '🏆 Achievement Unlocked!', color: 'Warning' });
+    expect(card.body[2]).toEqual({
+      type: 'FactSet',
+      facts: [
+        { title: '🎖️ Achievement', value: 'Integration Master' },
+        { title: '⭐ Points', value: '+100' }
+      ]
+    });
+  });
+
+  it('should test the connection for every chat platform', async () => {
+    await connect('slack');
+    await connect('teams');
+
+    for (const platform of ['slack', 'teams']) {
+      const response = await request(app)
+        .post(`/api/integrations/${platform}/test`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(response.body.data.connected).toBe(true);
+    }
+    expect(received).toHaveLength(2);
+  });
+
+  it('should not send notification types the user turned off', async () => {
+    await connect('teams', nextWebhookUrl(), {
+      notifications: true,
+      announcements: false,
+      progressUpdates: false,
+      achievementSharing: false
+    });
+
+    const response = await notify('teams', 'announcement').expect(400);
+
+    expect(response.body.error.code).toBe('TEST_FAILED');
+    expect(received).toHaveLength(0);
+  });
+
+  it('should queue notifications and record a retry when the webhook errors', async () => {
+    await connect('slack');
+    failWebhooks = true;
+
+    await notify('slack', 'announcement').expect(200);
+    expect(received).toHaveLength(0);
+    await NotificationQueueService.processDue();
+
+    const integration = await Integration.findOne({ userId, platform: 'slack' });
+    expect(integration?.metadata.syncStatus).toBe('pending');
+    expect(integration?.metadata.errorMessage).toContain('retrying');
+  });
+});
@@ -0,0 +1,169 @@
+import mongoose from 'mongoose';
+import LearningEvent from '../models/LearningEvent';
+import Enrollment from '../models/Enrollment';
+import UserCourse from '../models/UserCourse';
+import UserCourseProgress from '../models/UserCourseProgress';
+import LessonCompletion from '../models/LessonCompletion';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import LearningLedgerService from '../services/learningLedgerService';
+
+describe('Learning ledger', () => {
+  const studentId = new mongoose.Types.ObjectId().toString();
+  const programmeId = new mongoose.Types.ObjectId().toString();
+  const moduleId = new mongoose.Types.ObjectId().toString();
+  let lessonIds: string[];
+
+  beforeEach(async () => {
+    const lessons = await ProgrammeLesson.create([0, 1].map(orderIndex => ({
+      programmeId,
+      moduleId,
+      title: `Lesson ${orderIndex + 1}`,
+      description: 'A lesson',
+      orderIndex,
+      type: 'TEXT',
+      estimatedDuration: 10
+    })));
+    lessonIds = lessons.map(lesson => lesson.id);
+
+    await Enrollment.create({ studentId, programmeId, status: 'ACTIVE' });
+    await UserCourse.create({ userId: studentId, courseId: programmeId });
+  });
+
+  const record = (lessonId: string, type: 'LESSON_PROGRESSED' | 'LESSON_COMPLETED', extra: Record<string, any> = {}) =>
+    LearningLedgerService.record({ studentId, programmeId, lessonId, type, source: 'test', ...extra });
+
+  it('should keep every progress store in agreement', async () => {
+    await record(lessonIds[0], 'LESSON_PROGRESSED', { progressPercentage: 40, timeSpent: 5 });
+    const result = await record(lessonIds[0], 'LESSON_COMPLETED', { timeSpent: 3 });
+
+    expect(result.lessonProgress?.status).toBe('COMPLETED');
+    expect(result.lessonProgress?.timeSpent).toBe(8);
+    expect(result.lessonProgress?.attempts).toBe(1);
+
+    const enrollment = await Enrollment.findOne({ studentId, programmeId });
+    expect(enrollment?.progress.completedLessons.map(String)).toEqual([lessonIds[0]]);
+    expect(enrollment?.progress.totalProgress).toBe(50);
+    expect(enrollment?.progress.timeSpent).toBe(8);
+
+    const userCourse = await UserCourse.findOne({ userId: studentId, courseId: programmeId });
+    expect(userCourse?.completedLessons.map(String)).toEqual([lessonIds[0]]);
+    expect(userCourse?.progressPercent).toBe(50);
+    expect(userCourse?.studyTime).toBe(8);
+
+    const completions = await LessonCompletion.find({ userId: studentId });
+    expect(completions.map(completion => String(completion.lessonId))).toEqual([lessonIds[0]]);
+    expect(completions[0].timeSpent).toBe(8);
+  });
+
+  it('should complete the enrollment once every lesson is done', async () => {
+    await record(lessonIds[0], 'LESSON_COMPLETED');
+    const result = await record(lessonIds[1], 'LESSON_COMPLETED');
+
+    expect(result.courseCompleted).toBe(true);
+    expect(result.enrollment?.status).toBe('COMPLETED');
+    expect(result.enrollment?.progress.completedModules.map(String)).toEqual([moduleId]);
+    expect((await UserCourse.findOne({ userId: studentId }))?.status).toBe('COMPLETED');
+  });
+
+  it('should not count a lesson twice when it is completed again', async () => {
+    await record(lessonIds[0], 'LESSON_COMPLETED', { timeSpent: 5 });
+    await record(lessonIds[0], 'LESSON_COMPLETED', { timeSpent: 2 });
+
+    const enrollment = await Enrollment.findOne({ studentId, programmeId });
+    expect(enrollment?.progress.completedLessons).toHaveLength(1);
+    expect(enrollment?.progress.totalProgress).toBe(50);
+    expect(enrollment?.progress.timeSpent).toBe(7);
+  });
+
+  it('should start a lesson once when its first activities arrive together', async () => {
+    await Promise.all([
+      record(lessonIds[0], 'LESSON_PROGRESSED', { progressPercentage: 20 }),
+      record(lessonIds[0], 'LESSON_PROGRESSED', { progressPercentage: 30 })
+    ]);
+
+    expect(await LearningEvent.countDocuments({ studentId, lessonId: lessonIds[0], type: 'LESSON_STARTED' })).toBe(1);
+    const lessonProgress = await UserCourseProgress.findOne({ studentId, lessonId: lessonIds[0] });
+    expect(lessonProgress?.attempts).toBe(1);
+    expect(lessonProgress?.progressPercentage).toBe(30);
+  });
+
+  it('should refuse to modify recorded events', async () => {
+    const { event } = await record(lessonIds[0], 'LESSON_COMPLETED');
+
+    await expect(LearningEvent.updateOne({ _id: event._id }, { timeSpent: 100 })).rejects.toThrow('append-only');
+
+    event.timeSpent = 100;
+    await expect(event.save()).rejects.toThrow('append-only');
+  });
+
+  it('should repair projections that were edited directly', async () => {
+    await record(lessonIds[0], 'LESSON_COMPLETED', { timeSpent: 5 });
+    await Enrollment.updateOne({ studentId, programmeId }, { 'progress.totalProgress': 100, 'progress.completedLessons': [] });
+    await LessonCompletion.deleteMany({});
+
+    await LearningLedgerService.rebuild({ studentId });
+
+    const enrollment = await Enrollment.findOne({ studentId, programmeId });
+    expect(enrollment?.progress.totalProgress).toBe(50);
+    expect(enrollment?.progress.completedLessons).toHaveLength(1);
+    expect(await LessonCompletion.countDocuments({ userId: studentId })).toBe(1);
+  });
+
+  describe('backfill', () => {
+    beforeEach(async () => {
+      // Progress written by the old code paths, each store knowing a different part
+      await UserCourseProgress.create({
+        studentId,
+        programmeId,
+        moduleId,
+        lessonId: lessonIds[0],
+        status: 'IN_PROGRESS',
+        progressPercentage: 60,
+        timeSpent: 12
+      });
+      await Enrollment.updateOne({ studentId, programmeId }, {
+        'progress.completedLessons': [lessonIds[1]],
+        'progress.timeSpent': 20
+      });
+    });
+
+    it('should merge the old stores into events once', async () => {
+      const first = await LearningLedgerService.rebuild();
+      const second = await LearningLedgerService.rebuild();
+
+      expect(first.backfilledPairs).toBe(1);
+      expect(second.backfilledPairs).toBe(0);
+      expect(await LearningEvent.countDocuments({ studentId, source: 'backfill' })).toBe(first.backfilledEvents);
+
+      const enrollment = await Enrollment.findOne({ studentId, programmeId });
+      expect(enrollment?.progress.completedLessons.map(String)).toEqual([lessonIds[1]]);
+      expect(enrollment?.progress.timeSpent).toBe(20);
+
+      const lessonProgress = await UserCourseProgress.findOne({ studentId, lessonId: lessonIds[0] });
+      expect(lessonProgress?.status).toBe('IN_PROGRESS');
+      expect(lessonProgress?.progressPercentage).toBe(60);
+      expect(await UserCourseProgress.countDocuments({ studentId, status: 'COMPLETED' })).toBe(1);
+      expect(await LessonCompletion.countDocuments({ userId: studentId })).toBe(1);
+    });
+
+    it('should keep old progress when the first event arrives before a rebuild', async () => {
+      await record(lessonIds[0], 'LESSON_COMPLETED', { timeSpent: 3 });
+
+      const enrollment = await Enrollment.findOne({ studentId, programmeId });
+      expect(enrollment?.progress.completedLessons).toHaveLength(2);
+      expect(enrollment?.status).toBe('COMPLETED');
+      expect(enrollment?.progress.timeSpent).toBe(23);
+    });
+
+    it('should backfill once when the first events arrive together', async () => {
+      await Promise.all([
+        record(lessonIds[0], 'LESSON_PROGRESSED', { progressPercentage: 70 }),
+        record(lessonIds[0], 'LESSON_PROGRESSED', { progressPercentage: 80 }),
+        LearningLedgerService.rebuild({ studentId })
+      ]);
+
+      expect(await LearningEvent.countDocuments({ studentId, source: 'backfill', lessonId: lessonIds[1], type: 'LESSON_COMPLETED' })).toBe(1);
+      expect(await LearningEvent.countDocuments({ studentId, source: 'backfill', lessonId: lessonIds[0], type: 'LESSON_STARTED' })).toBe(1);
+    });
+  });
+});
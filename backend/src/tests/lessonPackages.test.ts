@@ -0,0 +1,248 @@
+import request from 'supertest';
+import express from 'express';
+import mongoose from 'mongoose';
+import fs from 'fs/promises';
+import path from 'path';
+import ProgrammeLesson from '../models/ProgrammeLesson';
+import Enrollment from '../models/Enrollment';
+import UserCourseProgress from '../models/UserCourseProgress';
+import QuizAttempt from '../models/QuizAttempt';
+import XapiStatement from '../models/XapiStatement';
+import adminRoutes from '../routes/admin';
+import lessonRoutes from '../routes/lessons';
+import { LESSON_PACKAGES_DIR } from '../services/lessonPackageService';
+import { createZip } from '../utils/zip';
+import { generateAccessToken } from '../utils/jwt';
+import { createProgramme, createLesson } from './fixtures';
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRoutes);
+app.use('/api/lessons', lessonRoutes);
+
+const scormManifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="course" version="1.0" xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+  <metadata><schema>ADL SCORM</schema><schemaversion>1.2</schemaversion></metadata>
+  <organizations default="org">
+    <organization identifier="org">
+      <title>Safety Basics</title>
+      <item identifier="item" identifierref="sco"><title>Safety Basics</title><adlcp:masteryscore>70</adlcp:masteryscore></item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="sco" type="webcontent" adlcp:scormtype="sco" href="index.html"><file href="index.html"/></resource>
+  </resources>
+</manifest>`;
+
+const tincanManifest = `<?xml version="1.0" encoding="utf-8"?>
+<tincan xmlns="http://projecttincan.com/tincan.xsd">
+  <activities>
+    <activity id="https://example.com/courses/safety" type="http://adlnet.gov/expapi/activities/course">
+      <name>Safety Basics</name>
+      <launch lang="en-US">story.html</launch>
+    </activity>
+  </activities>
+</tincan>`;
+
+const zip = (files: Record<string, string>) =>
+  createZip(Object.entries(files).map(([name, content]) => ({ name, data: Buffer.from(content) })));
+
+describe('Lesson packages', () => {
+  const studentId = new mongoose.Types.ObjectId().toString();
+  const studentToken = generateAccessToken({ user: { id: studentId, role: 'student' } });
+  const otherToken = generateAccessToken({ user: { id: new mongoose.Types.ObjectId().toString(), role: 'student' } });
+  const adminToken = generateAccessToken({ user: { id: new mongoose.Types.ObjectId().toString(), role: 'admin' } });
+  let lessonId: string;
+
+  beforeEach(async () => {
+    const programme = await createProgramme();
+    lessonId = (await createLesson(programme.id, { title: 'Safety Basics' })).id;
+
+    await Enrollment.create({ studentId, programmeId: programme._id, status: 'ACTIVE' });
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.join(LESSON_PACKAGES_DIR, lessonId), { recursive: true, force: true });
+  });
+
+  const upload = (archive: Buffer, token = adminToken) => request(app)
+    .post(`/api/admin/lessons/${lessonId}/package`)
+    .set('Authorization', `Bearer ${token}`)
+    .attach('package', archive, 'package.zip');
+
+  const commit = (values: Record<string, unknown>) => request(app)
+    .put(`/api/lessons/${lessonId}/package/runtime`)
+    .set('Authorization', `Bearer ${studentToken}`)
+    .send(values);
+
+  const launchToken = async (token = studentToken) => {
+    const runtime = await request(app)
+      .get(`/api/lessons/${lessonId}/package/runtime`)
+      .set('Authorization', `Bearer ${token}`);
+    return runtime.body.data?.launchToken as string | undefined;
+  };
+
+  it('should install a SCORM 1.2 package and serve its files sandboxed to enrolled students only', async () => {
+    const response = await upload(zip({
+      'imsmanifest.xml': scormManifest,
+      'index.html': '<html><head><title>Safety</title></head><body><script>API.LMSInitialize("")</script></body></html>',
+      'assets/style.css': 'body {}'
+    }));
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({ standard: 'SCORM_1_2', launchPath: 'index.html', masteryScore: 70, fileCount: 3 });
+    const lesson = await ProgrammeLesson.findById(lessonId);
+    expect(lesson?.type).toBe('INTERACTIVE');
+
+    const token = await launchToken();
+    const file = await request(app).get(`/api/lessons/${lessonId}/package/files/${token}/assets/style.css`);
+    expect(file.status).toBe(200);
+    expect(file.text).toBe('body {}');
+    expect(file.headers['content-security-policy']).toMatch(/^sandbox allow-scripts allow-forms allow-popups allow-modals;/);
+    expect(file.headers['content-security-policy']).toContain("frame-ancestors 'self'");
+
+    // The launch page gets the runtime API ahead of the SCO's own scripts
+    const launch = await request(app).get(`/api/lessons/${lessonId}/package/files/${token}/index.html`);
+    expect(launch.headers['cache-control']).toBe('no-store');
+    expect(launch.text).toMatch(/^<html><head><script>\(function \(cmi, messageSource\)/);
+    expect(launch.text).toContain(`"studentId":"${studentId}"`);
+    expect(launch.text).toContain('<title>Safety</title>');
+
+    const traversal = await request(app).get(`/api/lessons/${lessonId}/package/files/${token}/..%2F..%2Fpackage.json`);
+    expect(traversal.status).toBe(404);
+
+    // Session credentials are not enough, and a token only opens its own lesson
+    const withSession = await request(app)
+      .get(`/api/lessons/${lessonId}/package/files/not-a-token/index.html`)
+      .set('Authorization', `Bearer ${studentToken}`);
+    expect(withSession.status).toBe(401);
+    const otherLesson = await request(app).get(`/api/lessons/${new mongoose.Types.ObjectId()}/package/files/${token}/index.html`);
+    expect(otherLesson.status).toBe(403);
+
+    expect(await launchToken(otherToken)).toBeUndefined();
+  });
+
+  it('should reject archives that are not SCORM 1.2 or xAPI packages', async () => {
+    const noManifest = await upload(zip({ 'index.html': '<p>Hi</p>' }));
+    expect(noManifest.status).toBe(400);
+
+    const missingLaunch = await upload(zip({ 'imsmanifest.xml': scormManifest }));
+    expect(missingLaunch.status).toBe(400);
+    expect(missingLaunch.body.error.message).toContain('index.html');
+
+    const unsafe = await upload(zip({ 'imsmanifest.xml': scormManifest, 'index.html': '', '../evil.js': '' }));
+    expect(unsafe.status).toBe(400);
+
+    const forbidden = await upload(zip({ 'imsmanifest.xml': scormManifest, 'index.html': '' }), studentToken);
+    expect(forbidden.status).toBe(403);
+
+    // Packages run their own scripts for every learner, so instructors cannot upload them
+    const instructorToken = generateAccessToken({ user: { id: new mongoose.Types.ObjectId().toString(), role: 'instructor' } });
+    const instructor = await upload(zip({ 'imsmanifest.xml': scormManifest, 'index.html': '' }), instructorToken);
+    expect(instructor.status).toBe(403);
+  });
+
+  it('should resume SCORM data and record the score against the mastery score', async () => {
+    await upload(zip({ 'imsmanifest.xml': scormManifest, 'index.html': '' }));
+
+    const first = await commit({ sessionId: 'session-1', lessonStatus: 'incomplete', lessonLocation: 'page-3', suspendData: 'p=3', exit: 'suspend', sessionTime: '0000:05:00', finished: true });
+    expect(first.status).toBe(200);
+
+    const runtime = await request(app)
+      .get(`/api/lessons/${lessonId}/package/runtime`)
+      .set('Authorization', `Bearer ${studentToken}`);
+    expect(runtime.body.data.mode).toBe('normal');
+    expect(runtime.body.data.cmi).toMatchObject({
+      entry: 'resume',
+      lessonStatus: 'incomplete',
+      lessonLocation: 'page-3',
+      suspendData: 'p=3',
+      totalTime: '0000:05:00.00',
+      masteryScore: '70'
+    });
+
+    const progress = await UserCourseProgress.findOne({ studentId, lessonId });
+    expect(progress?.status).toBe('IN_PROGRESS');
+    expect(progress?.timeSpent).toBe(5);
+
+    // The package reports completed, the mastery score decides pass or fail
+    const second = await commit({ sessionId: 'session-2', lessonStatus: 'completed', scoreRaw: '85', scoreMin: '0', scoreMax: '100', sessionTime: '0000:10:00', finished: true });
+    expect(second.body.data.lessonStatus).toBe('passed');
+
+    const attempts = await QuizAttempt.find({ studentId, lessonId });
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0]).toMatchObject({ percentage: 85, isPassed: true, passingScore: 70, status: 'COMPLETED' });
+    expect((await UserCourseProgress.findOne({ studentId, lessonId }))?.status).toBe('COMPLETED');
+
+    const finishedAgain = await commit({ sessionId: 'session-2', finished: true });
+    expect(finishedAgain.status).toBe(409);
+  });
+
+  it('should reject invalid SCORM values and commits from students outside the course', async () => {
+    await upload(zip({ 'imsmanifest.xml': scormManifest, 'index.html': '' }));
+
+    const invalid = await commit({ sessionId: 'session-1', lessonStatus: 'done', scoreRaw: 'high', suspendData: 'x'.repeat(4097) });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details.map((detail: { field: string }) => detail.field)).toEqual(['lessonStatus', 'suspendData', 'scoreRaw']);
+
+    const stranger = await request(app)
+      .put(`/api/lessons/${lessonId}/package/runtime`)
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({ sessionId: 'session-1', lessonStatus: 'completed' });
+    expect(stranger.status).toBe(403);
+  });
+
+  it('should store xAPI statements and complete the lesson from the package activity', async () => {
+    const installed = await upload(zip({ 'tincan.xml': tincanManifest, 'story.html': '' }));
+    expect(installed.body.data).toMatchObject({ standard: 'XAPI', activityId: 'https://example.com/courses/safety' });
+
+    const token = await launchToken();
+    const statementId = '6c1a7bb4-2e4e-4c1f-9a43-bd0cf8f4c2a1';
+    const statement = {
+      id: statementId,
+      actor: { objectType: 'Agent', account: { homePage: 'http://localhost', name: studentId } },
+      verb: { id: 'http://adlnet.gov/expapi/verbs/passed' },
+      object: { id: 'https://example.com/courses/safety' },
+      result: { score: { scaled: 0.9 }, success: true, completion: true, duration: 'PT12M' }
+    };
+
+    const stored = await request(app)
+      .post(`/api/lessons/${lessonId}/xapi/statements`)
+      .set('Authorization', `Bearer ${token}`)
+      .send([statement, { verb: { id: 'http://adlnet.gov/expapi/verbs/answered' }, object: { id: 'https://example.com/courses/safety/q1' } }]);
+    expect(stored.status).toBe(200);
+    expect(stored.headers['x-experience-api-version']).toBe('1.0.3');
+    expect(stored.body[0]).toBe(statementId);
+    expect(stored.body).toHaveLength(2);
+
+    // Resending a statement is accepted without counting it twice
+    const resent = await request(app)
+      .put(`/api/lessons/${lessonId}/xapi/statements?statementId=${statementId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(statement);
+    expect(resent.status).toBe(204);
+
+    expect(await XapiStatement.countDocuments({ lessonId })).toBe(2);
+    expect(await QuizAttempt.countDocuments({ studentId, lessonId })).toBe(1);
+    const progress = await UserCourseProgress.findOne({ studentId, lessonId });
+    expect(progress?.status).toBe('COMPLETED');
+
+    const fetched = await request(app)
+      .get(`/api/lessons/${lessonId}/xapi/statements?statementId=${statementId}`)
+      .set('Authorization', `Bearer ${token}`);
+    expect(fetched.body.verb.id).toBe('http://adlnet.gov/expapi/verbs/passed');
+
+    const invalid = await request(app)
+      .post(`/api/lessons/${lessonId}/xapi/statements`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ object: { id: 'https://example.com/courses/safety' } });
+    expect(invalid.status).toBe(400);
+
+    // The xAPI endpoint only takes the launch token, not session credentials
+    const withSession = await request(app)
+      .post(`/api/lessons/${lessonId}/xapi/statements`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send(statement);
+    expect(withSession.status).toBe(401);
+  });
+});
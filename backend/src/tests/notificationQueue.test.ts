@@ -0,0 +1,254 @@
+import request from 'supertest';
+import express from 'express';
+import mongoose from 'mongoose';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import OutboundMessage from '../models/OutboundMessage';
+import Integration from '../models/Integration';
+import adminRoutes from '../routes/admin';
+import NotificationQueueService from '../services/notificationQueueService';
+import { generateAccessToken } from '../utils/jwt';
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRoutes);
+
+// A webhook endpoint that answers with whatever status the test asks for
+const webhookStub = express();
+webhookStub.use(express.json());
+let received: any[] = [];
+let nextResponse: { status: number; headers?: Record<string, string> } = { status: 200 };
+
+webhookStub.post('/hooks/:id', (req, res) => {
+  received.push(req.body);
+  res.set(nextResponse.headers || {}).status(nextResponse.status).end();
+});
+
+describe('Notification queue', () => {
+  let server: Server;
+  let baseUrl: string;
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const adminToken = generateAccessToken({ user: { id: adminId, role: 'admin' } });
+  const studentToken = generateAccessToken({ user: { id: new mongoose.Types.ObjectId().toString(), role: 'student' } });
+
+  beforeAll(() => {
+    server = webhookStub.listen(0);
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    received = [];
+    nextResponse = { status: 200 };
+  });
+
+  const enqueueWebhook = (path: string, options: { integrationId?: unknown; maxAttempts?: number } = {}) =>
+    NotificationQueueService.enqueue({
+      channel: 'webhook',
+      destination: `${baseUrl}/hooks/${path}`,
+      description: 'Test webhook',
+      payload: { text: `message for ${path}` },
+      ...options
+    });
+
+  // Make a queued message due now, as if its retry delay had passed
+  const makeDue = (id: unknown) =>
+    OutboundMessage.updateOne({ _id: id }, { nextAttemptAt: new Date(Date.now() - 1000) });
+
+  it('should deliver queued webhook messages', async () => {
+    const message = await enqueueWebhook('a');
+
+    expect(await NotificationQueueService.processDue()).toBe(1);
+
+    expect(received).toEqual([{ text: 'message for a' }]);
+    const sent = await OutboundMessage.findById(message._id);
+    expect(sent?.status).toBe('sent');
+    expect(sent?.attempts).toBe(1);
+    expect(sent?.sentAt).toBeDefined();
+  });
+
+  it('should delay messages to a rate limited destination instead of dropping them', async () => {
+    const first = await enqueueWebhook('same');
+    const second = await enqueueWebhook('same');
+
+    await NotificationQueueService.processDue();
+
+    expect(received).toHaveLength(1);
+    const delayed = await OutboundMessage.findById(second._id);
+    expect(delayed?.status).toBe('pending');
+    expect(delayed?.attempts).toBe(0);
+    expect(delayed!.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    await OutboundMessage.updateOne({ _id: first._id }, { lastAttemptAt: new Date(Date.now() - 5000) });
+    await makeDue(second._id);
+    await NotificationQueueService.processDue();
+
+    expect(received).toHaveLength(2);
+    expect((await OutboundMessage.findById(second._id))?.status).toBe('sent');
+  });
+
+  it('should retry server errors with exponential backoff', async () => {
+    nextResponse = { status: 503 };
+    const message = await enqueueWebhook('flaky');
+
+    await NotificationQueueService.processDue();
+    let retried = await OutboundMessage.findById(message._id);
+    expect(retried?.status).toBe('pending');
+    expect(retried?.lastError).toContain('503');
+    const firstDelay = retried!.nextAttemptAt.getTime() - retried!.lastAttemptAt!.getTime();
+    expect(firstDelay).toBeGreaterThanOrEqual(30 * 1000);
+
+    await OutboundMessage.updateOne({ _id: message._id }, { lastAttemptAt: new Date(Date.now() - 5000) });
+    await makeDue(message._id);
+    await NotificationQueueService.processDue();
+    retried = await OutboundMessage.findById(message._id);
+    expect(retried?.attempts).toBe(2);
+    const secondDelay = retried!.nextAttemptAt.getTime() - retried!.lastAttemptAt!.getTime();
+    expect(secondDelay).toBeGreaterThanOrEqual(60 * 1000);
+
+    expect(NotificationQueueService.retryDelay(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('should wait as long as a 429 Retry-After header asks', async () => {
+    nextResponse = { status: 429, headers: { 'Retry-After': '120' } };
+    const message = await enqueueWebhook('limited');
+
+    await NotificationQueueService.processDue();
+
+    const retried = await OutboundMessage.findById(message._id);
+    expect(retried?.status).toBe('pending');
+    expect(retried!.nextAttemptAt.getTime() - retried!.lastAttemptAt!.getTime()).toBeGreaterThanOrEqual(120 * 1000);
+  });
+
+  it('should dead-letter permanent failures and mark the integration as failed', async () => {
+    const integration = await Integration.create({
+      userId: new mongoose.Types.ObjectId(),
+      platform: 'slack',
+      enabled: true,
+      config: { webhookUrl: `${baseUrl}/hooks/gone` }
+    });
+    nextResponse = { status: 404 };
+    const message = await enqueueWebhook('gone', { integrationId: integration._id });
+
+    await NotificationQueueService.processDue();
+
+    const dead = await OutboundMessage.findById(message._id);
+    expect(dead?.status).toBe('dead');
+    expect(dead?.attempts).toBe(1);
+    const updated = await Integration.findById(integration._id);
+    expect(updated?.metadata.syncStatus).toBe('failed');
+    expect(updated?.metadata.errorMessage).toContain('404');
+  });
+
+  it('should dead-letter messages that run out of attempts', async () => {
+    nextResponse = { status: 500 };
+    const message = await enqueueWebhook('down', { maxAttempts: 1 });
+
+    await NotificationQueueService.processDue();
+
+    expect((await OutboundMessage.findById(message._id))?.status).toBe('dead');
+  });
+
+  it('should pick up messages left locked by a crashed worker', async () => {
+    const message = await enqueueWebhook('stuck');
+    await OutboundMessage.updateOne({ _id: message._id }, {
+      status: 'processing',
+      lockedUntil: new Date(Date.now() - 1000)
+    });
+
+    await NotificationQueueService.processDue();
+
+    expect((await OutboundMessage.findById(message._id))?.status).toBe('sent');
+  });
+
+  describe('admin deliveries', () => {
+    it('should list failed deliveries without their payloads', async () => {
+      nextResponse = { status: 404 };
+      await enqueueWebhook('gone');
+      await enqueueWebhook('ok');
+      await NotificationQueueService.processDue();
+
+      const response = await request(app)
+        .get('/api/admin/notifications/deliveries')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.messages).toHaveLength(2);
+      expect(response.body.data.messages[0].payload).toBeUndefined();
+      expect(response.body.data.messages.map((message: any) => message.destination)).toEqual([baseUrl, baseUrl]);
+      expect(response.body.data.counts.dead).toBe(2);
+    });
+
+    it('should not match webhook URLs when searching', async () => {
+      nextResponse = { status: 404 };
+      await enqueueWebhook('secret-token');
+      await NotificationQueueService.processDue();
+
+      const response = await request(app)
+        .get('/api/admin/notifications/deliveries?search=secret-token')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.messages).toHaveLength(0);
+    });
+
+    it('should reject unknown status and channel filters', async () => {
+      for (const query of ['status=nope', 'status[$ne]=sent', 'channel=sms', 'channel[$exists]=true']) {
+        await request(app)
+          .get(`/api/admin/notifications/deliveries?${query}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(400);
+      }
+    });
+
+    it('should replay a failed delivery', async () => {
+      nextResponse = { status: 404 };
+      const message = await enqueueWebhook('fixed');
+      await NotificationQueueService.processDue();
+
+      const response = await request(app)
+        .post(`/api/admin/notifications/deliveries/${message.id}/replay`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(response.body.data.payload).toBeUndefined();
+      expect(response.body.data.destination).toBe(baseUrl);
+
+      const replayed = await OutboundMessage.findById(message._id);
+      expect(replayed?.status).toBe('pending');
+      expect(replayed?.attempts).toBe(0);
+      expect(String(replayed?.replayedBy)).toBe(adminId);
+
+      nextResponse = { status: 200 };
+      await OutboundMessage.updateOne({ _id: message._id }, { lastAttemptAt: new Date(Date.now() - 5000) });
+      await NotificationQueueService.processDue();
+      expect((await OutboundMessage.findById(message._id))?.status).toBe('sent');
+    });
+
+    it('should only replay failed deliveries', async () => {
+      const message = await enqueueWebhook('queued');
+
+      await request(app)
+        .post(`/api/admin/notifications/deliveries/${message.id}/replay`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+    });
+
+    it('should answer 404 when replaying a malformed delivery id', async () => {
+      await request(app)
+        .post('/api/admin/notifications/deliveries/not-an-id/replay')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should not let students see deliveries', async () => {
+      await request(app)
+        .get('/api/admin/notifications/deliveries')
+        .set('Authorization', `Bearer ${studentToken}`)
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import request from 'supertest';
+import express from 'express';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import User from '../models/User';
+import UserIdentity from '../models/UserIdentity';
+import StudentProfile from '../models/StudentProfile';
+import authRoutes from '../routes/auth';
+import { configureSecurity } from '../middleware/security';
+import { registerOAuthProvider } from '../config/oauth';
+
+// Mock email service
+jest.mock('../services/emailService', () => require('./__mocks__/emailService'));
+
+const app = express();
+
+// Configure security middleware
+configureSecurity(app);
+
+// Body parsing middleware
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+// Use auth routes
+app.use('/api/auth', authRoutes);
+
+// A provider that issues one code per test and checks the PKCE verifier like a real one
+const mockProvider = express();
+mockProvider.use(express.urlencoded({ extended: true }));
+let mockUser = { sub: 'mock-1', email: 'oauth@example.com', email_verified: true, given_name: 'Oauth', family_name: 'User' };
+let issuedChallenge = '';
+
+mockProvider.post('/token', (req, res) => {
+  const challenge = crypto.createHash('sha256').update(req.body.code_verifier || '').digest('base64url');
+  if (req.body.code !== 'mock-code' || challenge !== issuedChallenge) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+  res.json({ access_token: 'mock-access-token', token_type: 'Bearer' });
+});
+
+mockProvider.get('/userinfo', (req, res) => {
+  if (req.headers.authorization !== 'Bearer mock-access-token') {
+    res.status(401).end();
+    return;
+  }
+  res.json(mockUser);
+});
+
+describe('OAuth sign-in', () => {
+  let server: Server;
+
+  beforeAll(async () => {
+    server = mockProvider.listen(0);
+    const { port } = server.address() as AddressInfo;
+    registerOAuthProvider({
+      id: 'mock',
+      name: 'Mock',
+      clientId: 'mock-client',
+      authorizationUrl: `http://127.0.0.1:${port}/authorize`,
+      tokenUrl: `http://127.0.0.1:${port}/token`,
+      userInfoUrl: `http://127.0.0.1:${port}/userinfo`,
+      scopes: ['openid', 'email'],
+      mapProfile: claims => ({
+        subject: claims.sub,
+        email: claims.email,
+        emailVerified: claims.email_verified,
+        firstName: claims.given_name,
+        lastName: claims.family_name
+      })
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(async () => {
+    await User.deleteMany({});
+    await UserIdentity.deleteMany({});
+    mockUser = { sub: 'mock-1', email: 'oauth@example.com', email_verified: true, given_name: 'Oauth', family_name: 'User' };
+  });
+
+  // Start a login and return the state the provider would echo back
+  const startLogin = async (): Promise<string> => {
+    const response = await request(app).get('/api/auth/oauth/mock/authorize').expect(302);
+    const authorizationUrl = new URL(response.headers.location);
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    issuedChallenge = authorizationUrl.searchParams.get('code_challenge')!;
+    return authorizationUrl.searchParams.get('state')!;
+  };
+
+  const callback = (state: string) =>
+    request(app).get('/api/auth/oauth/mock/callback').query({ code: 'mock-code', state }).expect(302);
+
+  it('should create a user with a student profile on first sign-in', async () => {
+    const response = await callback(await startLogin());
+
+    expect(response.headers.location).toContain('/auth/callback');
+    expect(response.headers['set-cookie']).toEqual(
+      expect.arrayContaining([expect.stringContaining('accessToken=')])
+    );
+
+    const user = await User.findOne({ email: 'oauth@example.com' });
+    expect(user).toBeTruthy();
+    expect(user?.isEmailVerified).toBe(true);
+    expect(user?.hasPassword).toBe(false);
+    expect(await StudentProfile.exists({ userId: user!._id })).toBeTruthy();
+    expect(await UserIdentity.countDocuments({ userId: user!._id, provider: 'mock' })).toBe(1);
+  });
+
+  it('should link to an existing user with the same verified email', async () => {
+    const existing = await User.create({
+      username: 'existing',
+      email: 'oauth@example.com',
+      password: 'TestPassword123!',
+      isEmailVerified: true,
+      enrollmentStatus: 'active'
+    });
+
+    await callback(await startLogin());
+
+    expect(await User.countDocuments({ email: 'oauth@example.com' })).toBe(1);
+    const identity = await UserIdentity.findOne({ provider: 'mock', subject: 'mock-1' });
+    expect(String(identity?.userId)).toBe(existing.id);
+  });
+
+  it('should not sign in with an unverified provider email', async () => {
+    mockUser = { ...mockUser, email_verified: false };
+
+    const response = await callback(await startLogin());
+
+    expect(response.headers.location).toContain('oauthError=');
+    expect(await User.countDocuments({})).toBe(0);
+  });
+
+  it('should not sign in to a locked account', async () => {
+    await callback(await startLogin());
+    await User.updateOne({ email: 'oauth@example.com' }, { lockUntil: new Date(Date.now() + 60 * 60 * 1000) });
+
+    const response = await callback(await startLogin());
+
+    expect(response.headers.location).toContain('/login?oauthError=');
+    expect(response.headers.location).not.toContain('challengeToken');
+    expect(response.headers['set-cookie']).toBeUndefined();
+  });
+
+  it('should not link to a locked account with the same verified email', async () => {
+    const existing = await User.create({
+      username: 'existing',
+      email: 'oauth@example.com',
+      password: 'TestPassword123!',
+      isEmailVerified: true,
+      enrollmentStatus: 'active',
+      lockUntil: new Date(Date.now() + 60 * 60 * 1000)
+    });
+
+    const response = await callback(await startLogin());
+
+    expect(response.headers.location).toContain('/login?oauthError=');
+    expect(await UserIdentity.countDocuments({ userId: existing._id })).toBe(0);
+  });
+
+  it('should not accept a state twice', async () => {
+    const state = await startLogin();
+    await callback(state);
+
+    const response = await callback(state);
+    expect(response.headers.location).toContain('/login?oauthError=');
+  });
+});
@@ -0,0 +1,175 @@
+import request from 'supertest';
+import express from 'express';
+import mongoose from 'mongoose';
+import Enrollment from '../models/Enrollment';
+import UserCourseProgress from '../models/UserCourseProgress';
+import progressRoutes from '../routes/progress';
+import courseContentRoutes from '../routes/courseContent';
+import lessonRoutes from '../routes/lessons';
+import courseRoutes from '../routes/course';
+import userRoutes from '../routes/user';
+import { generateAccessToken } from '../utils/jwt';
+import { createProgramme, createLesson } from './fixtures';
+
+const app = express();
+app.use(express.json());
+app.use('/api/progress', progressRoutes);
+app.use('/api/courses', courseContentRoutes);
+app.use('/api/lessons', lessonRoutes);
+app.use('/api/course', courseRoutes);
+app.use('/api/user', userRoutes);
+
+type Method = 'get' | 'post' | 'put';
+
+interface RouteCase {
+  method: Method;
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+describe('Ownership policies', () => {
+  const ownerId = new mongoose.Types.ObjectId().toString();
+  const otherId = new mongoose.Types.ObjectId().toString();
+  const instructorId = new mongoose.Types.ObjectId().toString();
+  const strangerInstructorId = new mongoose.Types.ObjectId().toString();
+
+  const tokens = {
+    owner: generateAccessToken({ user: { id: ownerId, role: 'student' } }),
+    other: generateAccessToken({ user: { id: otherId, role: 'student' } }),
+    admin: generateAccessToken({ user: { id: new mongoose.Types.ObjectId().toString(), role: 'admin' } }),
+    instructor: generateAccessToken({ user: { id: instructorId, role: 'instructor' } }),
+    strangerInstructor: generateAccessToken({ user: { id: strangerInstructorId, role: 'instructor' } })
+  };
+
+  let programmeId: string;
+  let moduleId: string;
+  let lessonId: string;
+
+  beforeEach(async () => {
+    const programme = await createProgramme({ instructorIds: [instructorId] });
+    programmeId = programme.id;
+    moduleId = new mongoose.Types.ObjectId().toString();
+    lessonId = (await createLesson(programmeId, { moduleId })).id;
+
+    await Enrollment.create({ studentId: ownerId, programmeId, status: 'ACTIVE' });
+  });
+
+  const send = (route: RouteCase, token?: string) => {
+    const req = request(app)[route.method](route.path);
+    if (token) {
+      req.set('Authorization', `Bearer ${token}`);
+    }
+    return route.body ? req.send(route.body) : req;
+  };
+
+  // Routes that read or change one student's data, named in the path or query
+  const ownerRoutes = (): RouteCase[] => [
+    { method: 'get', path: `/api/progress/student/${ownerId}` },
+    { method: 'get', path: `/api/progress/course/${ownerId}/${programmeId}` },
+    { method: 'get', path: `/api/progress/quiz/${ownerId}/${lessonId}` },
+    { method: 'get', path: `/api/progress/dashboard/${ownerId}` },
+    { method: 'get', path: `/api/courses/modules/${programmeId}?studentId=${ownerId}` },
+    { method: 'get', path: `/api/courses/lessons/${moduleId}?studentId=${ownerId}` },
+    { method: 'get', path: `/api/courses/lesson/${lessonId}?studentId=${ownerId}` },
+    { method: 'get', path: `/api/courses/lesson-content/${lessonId}?studentId=${ownerId}` },
+    { method: 'get', path: `/api/lessons/${lessonId}/content?studentId=${ownerId}` },
+    { method: 'get', path: `/api/courses/next-module/${programmeId}?studentId=${ownerId}` },
+    { method: 'get', path: `/api/courses/progress/${programmeId}?studentId=${ownerId}` },
+    { method: 'get', path: `/api/course/${programmeId}?studentId=${ownerId}` },
+    { method: 'get', path: `/api/user/${ownerId}` },
+    { method: 'put', path: `/api/user/${ownerId}`, body: { firstName: 'Changed' } }
+  ];
+
+  // Routes that record progress for the caller in the lesson's programme
+  const enrolledRoutes = (): RouteCase[] => [
+    { method: 'post', path: `/api/progress/lesson/${lessonId}/complete`, body: { timeSpent: 5 } },
+    { method: 'put', path: `/api/progress/lesson/${lessonId}/progress`, body: { progressPercentage: 50 } },
+    { method: 'post', path: `/api/progress/lesson/${lessonId}/quiz`, body: { score: 8, maxScore: 10, passed: true } },
+    { method: 'put', path: `/api/courses/lesson-progress/${lessonId}`, body: { studentId: ownerId, progressPercentage: 50 } },
+    { method: 'post', path: `/api/courses/quiz/${lessonId}`, body: { studentId: ownerId, answers: [] } }
+  ];
+
+  // Routes an instructor of the programme may read for their students
+  const instructorRoutes = (): RouteCase[] => [
+    { method: 'get', path: `/api/progress/course/${ownerId}/${programmeId}` },
+    { method: 'get', path: `/api/progress/quiz/${ownerId}/${lessonId}` },
+    { method: 'get', path: `/api/courses/progress/${programmeId}?studentId=${ownerId}` }
+  ];
+
+  const label = (route: RouteCase) => `${route.method.toUpperCase()} ${route.path.split('?')[0]}`;
+
+  it('should deny another student on every route that names a student', async () => {
+    for (const route of ownerRoutes()) {
+      const response = await send(route, tokens.other);
+      expect([label(route), response.status]).toEqual([label(route), 403]);
+    }
+  });
+
+  it('should let the student and admins through', async () => {
+    for (const route of ownerRoutes()) {
+      for (const token of [tokens.owner, tokens.admin]) {
+        const response = await send(route, token);
+        expect([label(route), [401, 403].includes(response.status)]).toEqual([label(route), false]);
+      }
+    }
+  });
+
+  it('should require sign-in before naming a student on public routes', async () => {
+    const publicRoutes = ownerRoutes().filter(route => route.path.includes('?studentId='));
+    for (const route of publicRoutes) {
+      const response = await send(route);
+      expect([label(route), response.status]).toEqual([label(route), 401]);
+
+      const anonymous = await send({ ...route, path: route.path.split('?')[0] });
+      expect([label(route), [401, 403].includes(anonymous.status)]).toEqual([label(route), false]);
+    }
+  });
+
+  it('should only let instructors assigned to the programme read its students', async () => {
+    for (const route of instructorRoutes()) {
+      const assigned = await send(route, tokens.instructor);
+      expect([label(route), [401, 403].includes(assigned.status)]).toEqual([label(route), false]);
+
+      const stranger = await send(route, tokens.strangerInstructor);
+      expect([label(route), stranger.status]).toEqual([label(route), 403]);
+    }
+
+    const dashboard = await send({ method: 'get', path: `/api/progress/dashboard/${ownerId}` }, tokens.instructor);
+    expect(dashboard.status).toBe(403);
+  });
+
+  it('should deny progress writes from students who are not enrolled', async () => {
+    for (const route of enrolledRoutes()) {
+      const response = await send(route, tokens.other);
+      expect([label(route), response.status]).toEqual([label(route), 403]);
+    }
+    expect(await UserCourseProgress.countDocuments({})).toBe(0);
+  });
+
+  it('should let enrolled students record their own progress', async () => {
+    for (const route of enrolledRoutes()) {
+      const response = await send(route, tokens.owner);
+      expect([label(route), [401, 403].includes(response.status)]).toEqual([label(route), false]);
+    }
+  });
+
+  it('should record progress for the caller, not the student named in the body', async () => {
+    await Enrollment.create({ studentId: otherId, programmeId, status: 'ACTIVE' });
+
+    const response = await send({
+      method: 'put',
+      path: `/api/courses/lesson-progress/${lessonId}`,
+      body: { studentId: ownerId, progressPercentage: 40 }
+    }, tokens.other);
+
+    expect(response.status).toBe(200);
+    expect(await UserCourseProgress.countDocuments({ studentId: ownerId })).toBe(0);
+    expect(await UserCourseProgress.countDocuments({ studentId: otherId })).toBe(1);
+  });
+
+  it('should reject unknown lessons before checking enrollment', async () => {
+    const missing = new mongoose.Types.ObjectId().toString();
+    const response = await send({ method: 'post', path: `/api/progress/lesson/${missing}/complete` }, tokens.owner);
+    expect(response.status).toBe(404);
+  });
+});
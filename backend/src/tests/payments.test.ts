@@ -0,0 +1,153 @@
+import request from 'supertest';
+import express from 'express';
+import mongoose from 'mongoose';
+import Coupon from '../models/Coupon';
+import CouponRedemption from '../models/CouponRedemption';
+import Enrollment from '../models/Enrollment';
+import PaymentOrder, { IPaymentOrder } from '../models/PaymentOrder';
+import paymentRoutes from '../routes/payments';
+import { FakePaymentProvider, PaymentEvent, getPaymentProvider } from '../services/paymentProviders';
+import PaymentService from '../services/paymentService';
+import { createProgramme } from './fixtures';
+
+const app = express();
+app.use('/api/payments/webhook', express.raw({ type: '*/*' }));
+app.use('/api/payments', paymentRoutes);
+
+describe('Payment webhooks', () => {
+  const studentId = new mongoose.Types.ObjectId().toString();
+  const provider = getPaymentProvider('fake') as FakePaymentProvider;
+  let order: IPaymentOrder;
+
+  beforeEach(async () => {
+    const programme = await createProgramme({ price: 100, currency: 'USD' });
+    order = await PaymentService.createCheckout(studentId, String(programme._id));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const paymentSucceeded = (id = 'evt_1'): PaymentEvent => ({
+    id,
+    type: 'payment.succeeded',
+    providerOrderId: order.providerOrderId!,
+    providerPaymentId: 'fake_pay_1'
+  });
+
+  const deliver = (rawBody: Buffer, headers: Record<string, any>) =>
+    request(app)
+      .post('/api/payments/webhook/fake')
+      .set(headers)
+      .send(rawBody);
+
+  const deliverSigned = (event: PaymentEvent) => {
+    const { rawBody, headers } = provider.signEvent(event);
+    return deliver(rawBody, headers);
+  };
+
+  it('should reject webhooks without a valid signature', async () => {
+    const { rawBody, headers } = provider.signEvent(paymentSucceeded());
+    const tampered = Buffer.from(rawBody.toString('utf8').replace('fake_pay_1', 'fake_pay_2'));
+
+    const unsigned = await deliver(rawBody, { 'content-type': 'application/json' });
+    expect(unsigned.status).toBe(401);
+
+    const forged = await deliver(tampered, headers);
+    expect(forged.status).toBe(401);
+
+    const stored = await PaymentOrder.findById(order._id);
+    expect(stored!.status).toBe('PENDING');
+    expect(stored!.processedEvents).toHaveLength(0);
+  });
+
+  it('should apply an event delivered twice only once', async () => {
+    const event = paymentSucceeded();
+
+    const first = await deliverSigned(event);
+    expect(first.status).toBe(200);
+    const second = await deliverSigned(event);
+    expect(second.status).toBe(200);
+
+    const stored = await PaymentOrder.findById(order._id);
+    expect(stored!.status).toBe('PAID');
+    expect(Array.from(stored!.processedEvents)).toEqual([event.id]);
+    expect(await Enrollment.countDocuments({ studentId })).toBe(1);
+  });
+
+  it('should apply an event again when its first delivery failed', async () => {
+    const event = paymentSucceeded();
+    jest.spyOn(Enrollment, 'create').mockRejectedValueOnce(new Error('Database unavailable'));
+
+    const failed = await deliverSigned(event);
+    expect(failed.status).toBe(500);
+
+    let stored = await PaymentOrder.findById(order._id);
+    expect(stored!.status).toBe('PENDING');
+    expect(stored!.processedEvents).toHaveLength(0);
+
+    const retried = await deliverSigned(event);
+    expect(retried.status).toBe(200);
+
+    stored = await PaymentOrder.findById(order._id);
+    expect(stored!.status).toBe('PAID');
+    expect(Array.from(stored!.processedEvents)).toEqual([event.id]);
+    const enrollment = await Enrollment.findOne({ studentId });
+    expect(enrollment!.status).toBe('ACTIVE');
+    expect(String(stored!.enrollmentId)).toBe(String(enrollment!._id));
+  });
+});
+
+describe('Paid checkouts with a capped coupon', () => {
+  const provider = getPaymentProvider('fake') as FakePaymentProvider;
+  let programmeId: string;
+
+  beforeEach(async () => {
+    const programme = await createProgramme({ price: 100, currency: 'USD' });
+    programmeId = String(programme._id);
+    await Coupon.create({ code: 'ONCE', discountType: 'PERCENT', discountValue: 20, maxRedemptions: 1 });
+  });
+
+  const checkout = () => PaymentService.createCheckout(new mongoose.Types.ObjectId().toString(), programmeId, 'ONCE');
+
+  it('should discount only as many concurrent checkouts as the coupon allows', async () => {
+    const results = await Promise.allSettled(Array.from({ length: 5 }, checkout));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await PaymentOrder.countDocuments({ code: 'ONCE' })).toBe(1);
+    const coupon = await Coupon.findOne({ code: 'ONCE' });
+    expect(coupon!.redemptionCount).toBe(1);
+  });
+
+  it('should give the coupon use back when the payment fails', async () => {
+    const order = await checkout();
+    await expect(checkout()).rejects.toThrow('This code has reached its usage limit');
+
+    const { rawBody, headers } = provider.signEvent({
+      id: 'evt_failed',
+      type: 'payment.failed',
+      providerOrderId: order.providerOrderId!,
+      failureReason: 'Card declined'
+    });
+    await PaymentService.handleWebhook('fake', rawBody, headers);
+
+    expect(await CouponRedemption.countDocuments({ orderId: order._id })).toBe(0);
+    const next = await checkout();
+    expect(next.code).toBe('ONCE');
+  });
+
+  it('should give the coupon use back when the checkout expires', async () => {
+    const order = await checkout();
+    await PaymentOrder.collection.updateOne(
+      { _id: order._id },
+      { $set: { createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) } }
+    );
+
+    expect(await PaymentService.expireStaleOrders()).toBe(1);
+
+    const stored = await PaymentOrder.findById(order._id);
+    expect(stored!.status).toBe('CANCELLED');
+    const coupon = await Coupon.findOne({ code: 'ONCE' });
+    expect(coupon!.redemptionCount).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import QuestionScoring, { QuizQuestion } from '../services/questionScoring';
+
+describe('True/false scoring', () => {
+  const question = (correctAnswer: unknown): QuizQuestion => ({
+    id: 'q1',
+    question: 'The earth is flat',
+    type: 'TRUE_FALSE',
+    correctAnswer,
+    points: 2
+  });
+
+  it('should give no credit for an unanswered question', () => {
+    for (const answer of [undefined, null, '', '  ']) {
+      const scored = QuestionScoring.score(question(false), answer);
+      expect(scored.isCorrect).toBe(false);
+      expect(scored.pointsAwarded).toBe(0);
+    }
+  });
+
+  it('should give credit for a boolean answer matching the key', () => {
+    expect(QuestionScoring.score(question(false), false).pointsAwarded).toBe(2);
+    expect(QuestionScoring.score(question(true), true).pointsAwarded).toBe(2);
+    expect(QuestionScoring.score(question(true), false).pointsAwarded).toBe(0);
+  });
+
+  it('should accept answers and keys stored as strings', () => {
+    expect(QuestionScoring.score(question('false'), false).pointsAwarded).toBe(2);
+    expect(QuestionScoring.score(question(false), 'false').pointsAwarded).toBe(2);
+    expect(QuestionScoring.score(question('true'), 'false').pointsAwarded).toBe(0);
+    expect(QuestionScoring.validate(question('false'))).toBeNull();
+    expect(QuestionScoring.validate(question('no'))).not.toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import request from 'supertest';
+import express from 'express';
+import User, { IUser } from '../models/User';
+import RefreshSession from '../models/RefreshSession';
+import SessionService from '../services/sessionService';
+import { authenticateJWT, AuthRequest } from '../middleware/auth';
+import { AuthenticationError } from '../utils/errors';
+
+const app = express();
+app.get('/me', authenticateJWT, (req: AuthRequest, res) => {
+  res.json({ id: req.user.id });
+});
+
+describe('Refresh sessions', () => {
+  const client = { userAgent: 'jest', ipAddress: '127.0.0.1' };
+  let user: IUser;
+
+  beforeEach(async () => {
+    user = await User.create({
+      username: 'sessions',
+      email: 'sessions@example.com',
+      password: 'TestPassword123!',
+      firstName: 'Session',
+      lastName: 'User',
+      role: 'student'
+    });
+  });
+
+  const signIn = () => SessionService.createSession({ id: user.id, role: user.role }, client);
+
+  const getMe = (accessToken: string) =>
+    request(app)
+      .get('/me')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+  it('should rotate a refresh token within its session', async () => {
+    const first = await signIn();
+
+    const second = await SessionService.rotate(first.refreshToken, client);
+
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    const session = await RefreshSession.findById(first.sessionId);
+    expect(session!.rotationCount).toBe(1);
+    expect(session!.revokedAt).toBeUndefined();
+    await getMe(second.accessToken).expect(200);
+  });
+
+  it('should revoke the session when an old refresh token is reused', async () => {
+    const first = await signIn();
+    const second = await SessionService.rotate(first.refreshToken, client);
+
+    await expect(SessionService.rotate(first.refreshToken, client)).rejects.toThrow(AuthenticationError);
+
+    const session = await RefreshSession.findById(first.sessionId);
+    expect(session!.revokedReason).toBe('TOKEN_REUSE');
+    await expect(SessionService.rotate(second.refreshToken, client)).rejects.toThrow(AuthenticationError);
+    await getMe(second.accessToken).expect(401);
+  });
+
+  it('should refuse access tokens of a revoked session before they expire', async () => {
+    const revoked = await signIn();
+    const kept = await signIn();
+    await getMe(revoked.accessToken).expect(200);
+
+    await SessionService.revokeSession(user.id, revoked.sessionId);
+
+    const response = await getMe(revoked.accessToken).expect(401);
+    expect(response.body.code).toBe('SESSION_REVOKED');
+    await getMe(kept.accessToken).expect(200);
+  });
+
+  it('should refuse access tokens after signing out everywhere', async () => {
+    const tokens = await signIn();
+
+    await SessionService.revokeAllSessions(user.id, 'PASSWORD_CHANGED');
+
+    await getMe(tokens.accessToken).expect(401);
+    await expect(SessionService.rotate(tokens.refreshToken, client)).rejects.toThrow(AuthenticationError);
+  });
+});
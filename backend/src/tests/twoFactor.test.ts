@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import User, { IUser } from '../models/User';
+import TwoFactorService, { RECOVERY_CODE_COUNT } from '../services/twoFactorService';
+import { AuthenticationError, ConflictError } from '../utils/errors';
+
+// An authenticator app's code for a time step, computed independently of the service (RFC 6238)
+const totp = (secret: string, step: number): string => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const bits = secret.split('').map(char => alphabet.indexOf(char).toString(2).padStart(5, '0')).join('');
+  const key = Buffer.from(bits.match(/.{8}/g)!.map(byte => parseInt(byte, 2)));
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).toString().padStart(6, '0');
+};
+
+describe('Two-factor authentication', () => {
+  // Pinned mid-step so codes cannot roll over while a test runs
+  const now = 1_700_000_015_000;
+  const step = Math.floor(now / 1000 / 30);
+  let user: IUser;
+
+  beforeEach(async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    user = await User.create({
+      username: 'twofactor',
+      email: 'twofactor@example.com',
+      password: 'TestPassword123!',
+      firstName: 'Two',
+      lastName: 'Factor'
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const enroll = async () => {
+    const { secret } = await TwoFactorService.beginEnrollment(user.id);
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(user.id, totp(secret, step));
+    return { secret, recoveryCodes };
+  };
+
+  it('should only enable two-factor once a code from the app is confirmed', async () => {
+    const { secret, otpauthUrl } = await TwoFactorService.beginEnrollment(user.id);
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect((await TwoFactorService.getStatus(user.id)).enabled).toBe(false);
+
+    await expect(TwoFactorService.confirmEnrollment(user.id, '000000')).rejects.toThrow(AuthenticationError);
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(user.id, totp(secret, step));
+
+    expect(recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    const status = await TwoFactorService.getStatus(user.id);
+    expect(status.enabled).toBe(true);
+    expect(status.recoveryCodesRemaining).toBe(RECOVERY_CODE_COUNT);
+    await expect(TwoFactorService.beginEnrollment(user.id)).rejects.toThrow(ConflictError);
+  });
+
+  it('should store the secret encrypted', async () => {
+    const { secret } = await enroll();
+
+    const stored = await User.findById(user.id).select('+twoFactor.secret');
+    expect(stored!.twoFactor!.secret).toBeDefined();
+    expect(stored!.twoFactor!.secret).not.toContain(secret);
+  });
+
+  it('should accept codes from the neighbouring steps and reject others', async () => {
+    const { secret } = await enroll();
+
+    await expect(TwoFactorService.verify(user.id, { code: totp(secret, step + 3) })).rejects.toThrow(AuthenticationError);
+    await expect(TwoFactorService.verify(user.id, { code: 'abcdef' })).rejects.toThrow(AuthenticationError);
+    expect(await TwoFactorService.verify(user.id, { code: totp(secret, step + 1) })).toBe('totp');
+  });
+
+  it('should not accept a code twice or a code older than the last one used', async () => {
+    const { secret } = await enroll();
+
+    // The confirmation code has been used up
+    await expect(TwoFactorService.verify(user.id, { code: totp(secret, step) })).rejects.toThrow(AuthenticationError);
+
+    const next = totp(secret, step + 1);
+    const results = await Promise.allSettled([
+      TwoFactorService.verify(user.id, { code: next }),
+      TwoFactorService.verify(user.id, { code: next })
+    ]);
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    await expect(TwoFactorService.verify(user.id, { code: totp(secret, step - 1) })).rejects.toThrow(AuthenticationError);
+  });
+
+  it('should use up recovery codes', async () => {
+    const { recoveryCodes } = await enroll();
+
+    expect(await TwoFactorService.verify(user.id, { recoveryCode: recoveryCodes[0].toUpperCase() })).toBe('recovery_code');
+    await expect(TwoFactorService.verify(user.id, { recoveryCode: recoveryCodes[0] })).rejects.toThrow('Invalid recovery code');
+    expect((await TwoFactorService.getStatus(user.id)).recoveryCodesRemaining).toBe(RECOVERY_CODE_COUNT - 1);
+  });
+
+  it('should replace every recovery code when they are regenerated', async () => {
+    const { secret, recoveryCodes } = await enroll();
+
+    const replaced = await TwoFactorService.regenerateRecoveryCodes(user.id, { code: totp(secret, step + 1) });
+
+    expect(replaced).toHaveLength(RECOVERY_CODE_COUNT);
+    await expect(TwoFactorService.verify(user.id, { recoveryCode: recoveryCodes[1] })).rejects.toThrow('Invalid recovery code');
+    expect(await TwoFactorService.verify(user.id, { recoveryCode: replaced[0] })).toBe('recovery_code');
+  });
+});
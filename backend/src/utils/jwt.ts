@@ -1,5 +1,6 @@
 import type { Request, Response, NextFunction } from 'express';
 import { IUser } from '../models/User';
+import type { PackageLaunchPayload } from '../config/jwt';
 
 // Re-export from the comprehensive JWT configuration
 export * from '../config/jwt';
@@ -14,6 +15,10 @@ export interface JWTPayload {
 
 export interface AuthenticatedRequest extends Request {
   user?: IUser;
+  // Set by requirePermission for instructors: the programmes they are assigned to
+  programmeScope?: string[];
+  // Set by authenticatePackageLaunch for requests made by a launched lesson package
+  packageLaunch?: PackageLaunchPayload;
 }
 
 // Re-export commonly used functions for backward compatibility
@@ -36,6 +41,10 @@ export const clearTokensFromCookies = JWTUtils.clearTokensFromCookies.bind(JWTUt
 export const extractTokenFromHeader = JWTUtils.extractTokenFromHeader.bind(JWTUtils);
 export const extractTokenFromCookies = JWTUtils.extractTokenFromCookies.bind(JWTUtils);
 export const generateTokenPair = JWTUtils.generateTokenPair.bind(JWTUtils);
+export const generateMfaChallengeToken = JWTUtils.generateMfaChallengeToken.bind(JWTUtils);
+export const verifyMfaChallengeToken = JWTUtils.verifyMfaChallengeToken.bind(JWTUtils);
+export const generatePackageLaunchToken = JWTUtils.generatePackageLaunchToken.bind(JWTUtils);
+export const verifyPackageLaunchToken = JWTUtils.verifyPackageLaunchToken.bind(JWTUtils);
 export const isTokenExpired = JWTUtils.isTokenExpired.bind(JWTUtils);
 export const getTokenExpiration = JWTUtils.getTokenExpiration.bind(JWTUtils);
 export const decodeToken = JWTUtils.decodeToken.bind(JWTUtils);
@@ -117,4 +126,4 @@ export const requireUserOrAdmin = authorizeRoles('user', 'admin');
 export const requireStudentOrAdmin = authorizeRoles('student', 'admin');
 
 // Any authenticated user middleware
-export const requireAuthenticated = authorizeRoles('admin', 'user', 'student', 'visitor');
+export const requireAuthenticated = authorizeRoles('admin', 'instructor', 'user', 'student', 'visitor');
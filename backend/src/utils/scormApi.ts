@@ -0,0 +1,210 @@
+import type { ScormCmi } from '../services/scormRuntimeService';
+
+/**
+ * SCORM 1.2 runtime API for packages that run in a sandboxed frame. The frame
+ * has an opaque origin, so the SCO cannot reach an `API` object on the player's
+ * window; instead this script installs `window.API` in the SCO's own document,
+ * before its scripts run. Values live in the frame while the SCO runs, and the
+ * values it sets, LMSCommit and LMSFinish are posted to the player, which saves
+ * them for the student.
+ */
+
+// `source` of the messages posted to the player
+export const SCORM_MESSAGE_SOURCE = 'eduknit-scorm';
+
+// Plain ES5, since it runs inside whatever page the package ships
+const RUNTIME = `
+var ERROR_STRINGS = {
+  '0': 'No error',
+  '101': 'General exception',
+  '201': 'Invalid argument error',
+  '202': 'Element cannot have children',
+  '203': 'Element not an array - cannot have count',
+  '301': 'Not initialized',
+  '401': 'Not implemented error',
+  '402': 'Invalid set value, element is a keyword',
+  '403': 'Element is read only',
+  '404': 'Element is write only',
+  '405': 'Incorrect data type'
+};
+var LESSON_STATUSES = ['passed', 'completed', 'failed', 'incomplete', 'browsed'];
+var EXIT_VALUES = ['time-out', 'suspend', 'logout', ''];
+var maxLength = function (length) { return function (value) { return value.length <= length; }; };
+var isScore = function (value) { return value === '' || (/^-?\\d+(\\.\\d+)?$/.test(value) && Number(value) >= 0 && Number(value) <= 100); };
+var isTimespan = function (value) { return /^\\d{2,4}:[0-5]\\d:[0-5]\\d(\\.\\d{1,2})?$/.test(value); };
+var oneOf = function (list) { return function (value) { return list.indexOf(value) !== -1; }; };
+
+// Elements with a field are posted to the player when set
+var ELEMENTS = {
+  'cmi._version': { access: 'ro' },
+  'cmi.core._children': { access: 'ro' },
+  'cmi.core.student_id': { access: 'ro' },
+  'cmi.core.student_name': { access: 'ro' },
+  'cmi.core.lesson_location': { access: 'rw', field: 'lessonLocation', validate: maxLength(255) },
+  'cmi.core.credit': { access: 'ro' },
+  'cmi.core.lesson_status': { access: 'rw', field: 'lessonStatus', validate: oneOf(LESSON_STATUSES) },
+  'cmi.core.entry': { access: 'ro' },
+  'cmi.core.score._children': { access: 'ro' },
+  'cmi.core.score.raw': { access: 'rw', field: 'scoreRaw', validate: isScore },
+  'cmi.core.score.min': { access: 'rw', field: 'scoreMin', validate: isScore },
+  'cmi.core.score.max': { access: 'rw', field: 'scoreMax', validate: isScore },
+  'cmi.core.total_time': { access: 'ro' },
+  'cmi.core.lesson_mode': { access: 'ro' },
+  'cmi.core.exit': { access: 'wo', field: 'exit', validate: oneOf(EXIT_VALUES) },
+  'cmi.core.session_time': { access: 'wo', field: 'sessionTime', validate: isTimespan },
+  'cmi.suspend_data': { access: 'rw', field: 'suspendData', validate: maxLength(4096) },
+  'cmi.launch_data': { access: 'ro' },
+  'cmi.comments': { access: 'rw', validate: maxLength(4096) },
+  'cmi.comments_from_lms': { access: 'ro' },
+  'cmi.student_data._children': { access: 'ro' },
+  'cmi.student_data.mastery_score': { access: 'ro' }
+};
+
+// Objectives and interactions are accepted so SCOs that report them keep
+// working, but they stay in the frame
+var LIST_PATTERN = /^cmi\\.(objectives|interactions)\\.(\\d+)\\.[a-z_.]+$/;
+
+var values = {
+  'cmi._version': '3.4',
+  'cmi.core._children': 'student_id,student_name,lesson_location,credit,lesson_status,entry,score,total_time,lesson_mode,exit,session_time',
+  'cmi.core.student_id': cmi.studentId,
+  'cmi.core.student_name': cmi.studentName,
+  'cmi.core.lesson_location': cmi.lessonLocation,
+  'cmi.core.credit': cmi.credit,
+  'cmi.core.lesson_status': cmi.lessonStatus,
+  'cmi.core.entry': cmi.entry,
+  'cmi.core.score._children': 'raw,min,max',
+  'cmi.core.score.raw': cmi.scoreRaw,
+  'cmi.core.score.min': cmi.scoreMin,
+  'cmi.core.score.max': cmi.scoreMax,
+  'cmi.core.total_time': cmi.totalTime,
+  'cmi.core.lesson_mode': cmi.lessonMode,
+  'cmi.suspend_data': cmi.suspendData,
+  'cmi.launch_data': '',
+  'cmi.comments': '',
+  'cmi.comments_from_lms': '',
+  'cmi.student_data._children': 'mastery_score',
+  'cmi.student_data.mastery_score': cmi.masteryScore
+};
+var initialized = false;
+var finished = false;
+var lastError = '0';
+
+// The player's origin is not known inside the sandbox; frame-ancestors limits
+// which pages can frame the package
+var post = function (message) {
+  message.source = messageSource;
+  window.parent.postMessage(message, '*');
+};
+var succeed = function () { lastError = '0'; return 'true'; };
+var fail = function (code) { lastError = code; return 'false'; };
+var isEmpty = function (parameter) { return parameter === undefined || parameter === ''; };
+
+var unknownElementError = function (element) {
+  if (/\\._children$/.test(element)) { return '202'; }
+  if (/\\._count$/.test(element)) { return '203'; }
+  return element.indexOf('cmi.') === 0 ? '401' : '201';
+};
+
+var listCount = function (list) {
+  var indexes = {};
+  var count = 0;
+  for (var key in values) {
+    var match = key.match(LIST_PATTERN);
+    if (match && match[1] === list && !indexes[match[2]]) {
+      indexes[match[2]] = true;
+      count++;
+    }
+  }
+  return count;
+};
+
+window.API = {
+  LMSInitialize: function (parameter) {
+    if (!isEmpty(parameter)) { return fail('201'); }
+    if (initialized || finished) { return fail('101'); }
+    initialized = true;
+    post({ action: 'initialize' });
+    return succeed();
+  },
+
+  LMSFinish: function (parameter) {
+    if (!isEmpty(parameter)) { return fail('201'); }
+    if (!initialized) { return fail('301'); }
+    initialized = false;
+    finished = true;
+    post({ action: 'finish' });
+    return succeed();
+  },
+
+  LMSGetValue: function (element) {
+    if (!initialized) { fail('301'); return ''; }
+    var list = String(element).match(/^cmi\\.(objectives|interactions)\\._(count|children)$/);
+    if (list) {
+      lastError = '0';
+      return list[2] === 'count' ? String(listCount(list[1])) : '';
+    }
+    if (LIST_PATTERN.test(element)) {
+      lastError = '0';
+      return values.hasOwnProperty(element) ? values[element] : '';
+    }
+    var definition = ELEMENTS.hasOwnProperty(element) ? ELEMENTS[element] : null;
+    if (!definition) { fail(unknownElementError(String(element))); return ''; }
+    if (definition.access === 'wo') { fail('404'); return ''; }
+    lastError = '0';
+    return values.hasOwnProperty(element) ? values[element] : '';
+  },
+
+  LMSSetValue: function (element, value) {
+    if (!initialized) { return fail('301'); }
+    var stringValue = String(value);
+    if (/\\._(children|count|version)$/.test(element)) { return fail('402'); }
+    if (LIST_PATTERN.test(element)) {
+      values[element] = stringValue;
+      return succeed();
+    }
+    var definition = ELEMENTS.hasOwnProperty(element) ? ELEMENTS[element] : null;
+    if (!definition) { return fail(unknownElementError(String(element))); }
+    if (definition.access === 'ro') { return fail('403'); }
+    if (definition.validate && !definition.validate(stringValue)) { return fail('405'); }
+    values[element] = stringValue;
+    if (definition.field) {
+      post({ action: 'set', field: definition.field, value: stringValue });
+    }
+    return succeed();
+  },
+
+  LMSCommit: function (parameter) {
+    if (!isEmpty(parameter)) { return fail('201'); }
+    if (!initialized) { return fail('301'); }
+    post({ action: 'commit' });
+    return succeed();
+  },
+
+  LMSGetLastError: function () { return lastError; },
+  LMSGetErrorString: function (code) { return ERROR_STRINGS[String(code)] || ''; },
+  LMSGetDiagnostic: function (code) { return ERROR_STRINGS[String(code || lastError)] || ''; }
+};
+`;
+
+// JSON embedded in a <script> must not be able to close it
+const scriptJson = (value: unknown): string =>
+  JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+
+/**
+ * Add the runtime API, set up with the student's saved data, to a SCO's
+ * launch page: at the start of its head, so it is in place before the SCO's
+ * own scripts look for it
+ */
+export const injectScormApi = (html: string, cmi: ScormCmi): string => {
+  const script = `<script>(function (cmi, messageSource) {${RUNTIME}})(${scriptJson(cmi)}, ${scriptJson(SCORM_MESSAGE_SOURCE)});</script>`;
+  const insertAfter = html.match(/<head(\s[^>]*)?>/i) || html.match(/<html(\s[^>]*)?>/i);
+  if (!insertAfter || insertAfter.index === undefined) {
+    return script + html;
+  }
+  const position = insertAfter.index + insertAfter[0].length;
+  return html.slice(0, position) + script + html.slice(position);
+};
@@ -17,6 +17,7 @@ import ProgramsPage from "./pages/ProgramsPage";
 import ProgramDetailPage from "./pages/ProgramDetailPage";
 import CourseDetailPage from "./pages/courses/CourseDetailPage";
 import LoginPage from "./pages/LoginPage";
+import OAuthCallbackPage from "./pages/OAuthCallbackPage";
 import RegisterPage from "./pages/RegisterPage";
 import VerificationPage from "./pages/VerificationPage";
 import ChatPage from "./pages/ChatPage";
@@ -44,6 +45,11 @@ import AdminQuizManagement from './pages/admin/AdminQuizManagement';
 import AdminUserManagement from './pages/admin/AdminUserManagement';
 import AdminAnalyticsPage from './pages/admin/AdminAnalyticsPage';
 import AdminSettingsPage from './pages/admin/AdminSettingsPage';
+import AdminSupportPage from './pages/admin/AdminSupportPage';
+import AdminCouponsPage from './pages/admin/AdminCouponsPage';
+import AdminNotificationDeliveriesPage from './pages/admin/AdminNotificationDeliveriesPage';
+import AdminQuestionBankPage from './pages/admin/AdminQuestionBankPage';
+import AdminQuizGradingPage from './pages/admin/AdminQuizGradingPage';
 import StudentDashboardPage from "./pages/StudentDashboardPage";
 import StudentProfilePage from "./pages/StudentProfilePageNew";
 import StudentAnalyticsPage from "./pages/StudentAnalyticsPage";
@@ -58,6 +64,7 @@ import ForgotPasswordPage from "./pages/ForgotPasswordPage";
 import ResetPasswordPage from "./pages/ResetPasswordPage";
 import ProgressTestPage from "./pages/ProgressTestPage";
 import CalendarPage from './pages/dashboard/CalendarPage';
+import CheckoutPage from './pages/CheckoutPage';
 import AssignmentsPage from './pages/dashboard/AssignmentsPage';
 import LiveSessionsPage from './pages/dashboard/LiveSessionsPage';
 import HelpSupportPage from './pages/dashboard/HelpSupportPage';
@@ -95,6 +102,7 @@ const App = () => (
             
             {/* Auth Routes */}
             <Route path="/login" element={<LoginPage />} />
+            <Route path="/auth/callback" element={<OAuthCallbackPage />} />
             <Route path="/register" element={<RegisterPage />} />
             <Route path="/verify" element={<VerificationPage />} />
             <Route path="/verification" element={<VerificationPage />} />
@@ -131,7 +139,7 @@ const App = () => (
             <Route 
               path="/admin/courses" 
               element={
-                <ProtectedRoute requiredRole="admin">
+                <ProtectedRoute allowedRoles={['admin', 'instructor']}>
                   <AdminCourseManagement />
                 </ProtectedRoute>
               } 
@@ -139,7 +147,7 @@ const App = () => (
             <Route 
               path="/admin/modules" 
               element={
-                <ProtectedRoute requiredRole="admin">
+                <ProtectedRoute allowedRoles={['admin', 'instructor']}>
                   <AdminModuleManagement />
                 </ProtectedRoute>
               } 
@@ -147,7 +155,7 @@ const App = () => (
             <Route 
               path="/admin/modules/:moduleId/lessons" 
               element={
-                <ProtectedRoute requiredRole="admin">
+                <ProtectedRoute allowedRoles={['admin', 'instructor']}>
                   <AdminLessonManagement />
                 </ProtectedRoute>
               } 
@@ -155,7 +163,7 @@ const App = () => (
             <Route 
               path="/admin/lessons/:lessonId/quiz" 
               element={
-                <ProtectedRoute requiredRole="admin">
+                <ProtectedRoute allowedRoles={['admin', 'instructor']}>
                   <AdminQuizManagement />
                 </ProtectedRoute>
               } 
@@ -176,6 +184,46 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/support" 
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <AdminSupportPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/coupons" 
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <AdminCouponsPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/notifications" 
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <AdminNotificationDeliveriesPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/question-bank" 
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <AdminQuestionBankPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/quiz-grading" 
+              element={
+                <ProtectedRoute allowedRoles={['admin', 'instructor']}>
+                  <AdminQuizGradingPage />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/student-dashboard" 
               element={
@@ -293,6 +341,7 @@ const App = () => (
             {/* Dashboard Routes */}
             <Route path="/dashboard" element={<ProtectedRoute><StudentDashboardPage /></ProtectedRoute>} />
             <Route path="/dashboard/analytics" element={<ProtectedRoute><StudentAnalyticsPage /></ProtectedRoute>} />
+            <Route path="/checkout/:orderId" element={<ProtectedRoute allowedRoles={['student', 'user']}><CheckoutPage /></ProtectedRoute>} />
             <Route path="/dashboard/calendar" element={<ProtectedRoute><CalendarPage /></ProtectedRoute>} />
             <Route path="/dashboard/assignments" element={<ProtectedRoute><AssignmentsPage /></ProtectedRoute>} />
             <Route path="/dashboard/live-sessions" element={<ProtectedRoute><LiveSessionsPage /></ProtectedRoute>} />
@@ -11,6 +11,11 @@ import {
   Users, 
   BarChart3, 
   Settings,
+  LifeBuoy,
+  Ticket,
+  Library,
+  ClipboardCheck,
+  Send,
   Home
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContextUtils';
@@ -21,12 +26,14 @@ interface NavItem {
   icon: React.ReactNode;
   description: string;
   badge?: string;
+  instructorAccess?: boolean; // also shown to instructors, for their assigned courses
 }
 
 const AdminNavigation = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
+  const isInstructor = user?.role === 'instructor';
 
   const navItems: NavItem[] = [
     {
@@ -39,13 +46,28 @@ const AdminNavigation = () => {
       title: 'Courses',
       path: '/admin/courses',
       icon: <BookOpen className="h-5 w-5" />,
-      description: 'Manage course content'
+      description: 'Manage course content',
+      instructorAccess: true
     },
     {
       title: 'Modules',
       path: '/admin/modules',
       icon: <FileText className="h-5 w-5" />,
-      description: 'Organize course modules'
+      description: 'Organize course modules',
+      instructorAccess: true
+    },
+    {
+      title: 'Question Bank',
+      path: '/admin/question-bank',
+      icon: <Library className="h-5 w-5" />,
+      description: 'Reusable quiz questions'
+    },
+    {
+      title: 'Grading',
+      path: '/admin/quiz-grading',
+      icon: <ClipboardCheck className="h-5 w-5" />,
+      description: 'Grade essay answers',
+      instructorAccess: true
     },
     {
       title: 'Users',
@@ -60,6 +82,24 @@ const AdminNavigation = () => {
       description: 'View platform analytics',
       badge: 'New'
     },
+    {
+      title: 'Support',
+      path: '/admin/support',
+      icon: <LifeBuoy className="h-5 w-5" />,
+      description: 'Student tickets and FAQ'
+    },
+    {
+      title: 'Coupons',
+      path: '/admin/coupons',
+      icon: <Ticket className="h-5 w-5" />,
+      description: 'Discount codes'
+    },
+    {
+      title: 'Deliveries',
+      path: '/admin/notifications',
+      icon: <Send className="h-5 w-5" />,
+      description: 'Failed emails and webhooks'
+    },
     {
       title: 'Settings',
       path: '/admin/settings',
@@ -68,6 +108,8 @@ const AdminNavigation = () => {
     }
   ];
 
+  const visibleItems = isInstructor ? navItems.filter(item => item.instructorAccess) : navItems;
+
   const isActive = (path: string) => {
     return location.pathname === path || location.pathname.startsWith(path + '/');
   };
@@ -88,12 +130,12 @@ const AdminNavigation = () => {
               <span className="font-semibold">EduKnit</span>
             </Button>
             <div className="h-6 w-px bg-gray-300"></div>
-            <span className="text-sm font-medium text-gray-600">Admin Panel</span>
+            <span className="text-sm font-medium text-gray-600">{isInstructor ? 'Instructor Panel' : 'Admin Panel'}</span>
           </div>
 
           {/* Navigation Items */}
           <nav className="flex items-center space-x-1">
-            {navItems.map((item) => (
+            {visibleItems.map((item) => (
               <Button
                 key={item.path}
                 variant={isActive(item.path) ? "default" : "ghost"}
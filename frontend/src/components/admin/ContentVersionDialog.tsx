@@ -0,0 +1,373 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarClock, History, Loader2, RotateCcw, Send, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  contentVersionApi,
+  ContentPublishing,
+  ContentRef,
+  ContentVersion,
+  VersionedContentType,
+} from '@/services/contentVersionApi';
+
+interface ContentVersionDialogProps {
+  contentType: VersionedContentType;
+  contentId: string;
+  title: string;
+  publishing?: ContentPublishing;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after publishing, scheduling or rolling back, to reload the list
+  onChanged: () => void;
+}
+
+const REF_LABELS: Record<string, string> = {
+  draft: 'Working copy',
+  published: 'Published',
+};
+
+const refLabel = (ref: ContentRef) => REF_LABELS[String(ref)] || `Version ${ref}`;
+
+const parseRef = (value: string): ContentRef =>
+  value === 'draft' || value === 'published' ? value : Number(value);
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const publisherName = (version: ContentVersion) => {
+  const user = version.publishedBy;
+  if (!user) return '—';
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username;
+};
+
+/**
+ * Publishing controls and version history of a lesson or module: publish or
+ * schedule the pending changes, compare any two versions and roll back.
+ */
+const ContentVersionDialog: React.FC<ContentVersionDialogProps> = ({
+  contentType,
+  contentId,
+  title,
+  publishing,
+  open,
+  onOpenChange,
+  onChanged,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [publishAt, setPublishAt] = useState('');
+  const [compare, setCompare] = useState<{ from: ContentRef; to: ContentRef }>({ from: 'published', to: 'draft' });
+
+  const pending = !publishing || publishing.status === 'DRAFT' || publishing.hasDraft;
+  const label = contentType === 'lesson' ? 'lesson' : 'module';
+
+  useEffect(() => {
+    if (open) {
+      setNote('');
+      setPublishAt('');
+      setCompare({ from: 'published', to: 'draft' });
+    }
+  }, [open, contentId]);
+
+  const { data: versions = [], isLoading: versionsLoading } = useQuery({
+    queryKey: ['content-versions', contentType, contentId],
+    queryFn: () => contentVersionApi.getVersions(contentType, contentId),
+    enabled: open,
+  });
+
+  const { data: diff, isLoading: diffLoading, error: diffError } = useQuery({
+    queryKey: ['content-diff', contentType, contentId, compare.from, compare.to],
+    queryFn: () => contentVersionApi.getDiff(contentType, contentId, compare.from, compare.to),
+    enabled: open && compare.from !== compare.to,
+  });
+
+  const handleDone = (message: string) => {
+    toast({ title: 'Success', description: message });
+    queryClient.invalidateQueries({ queryKey: ['content-versions', contentType, contentId] });
+    queryClient.invalidateQueries({ queryKey: ['content-diff', contentType, contentId] });
+    onChanged();
+  };
+
+  const handleError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: () => contentVersionApi.publish(contentType, contentId, note.trim() || undefined),
+    onSuccess: (result) => {
+      setNote('');
+      handleDone(`Published as version ${result.publishing.version}`);
+    },
+    onError: handleError,
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: () => contentVersionApi.schedule(contentType, contentId, new Date(publishAt)),
+    onSuccess: () => handleDone('Publish scheduled'),
+    onError: handleError,
+  });
+
+  const cancelScheduleMutation = useMutation({
+    mutationFn: () => contentVersionApi.cancelSchedule(contentType, contentId),
+    onSuccess: () => handleDone('Scheduled publish cancelled'),
+    onError: handleError,
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: () => contentVersionApi.discardDraft(contentType, contentId),
+    onSuccess: () => handleDone('Unpublished changes discarded'),
+    onError: handleError,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: number) => contentVersionApi.rollback(contentType, contentId, version),
+    onSuccess: (result, version) => handleDone(`Version ${version} republished as version ${result.publishing.version}`),
+    onError: handleError,
+  });
+
+  const handleDiscard = () => {
+    if (confirm(`Discard the unpublished changes to this ${label}?`)) {
+      discardMutation.mutate();
+    }
+  };
+
+  const handleRollback = (version: number) => {
+    const warning = publishing?.hasDraft ? ' Unpublished changes will be discarded.' : '';
+    if (confirm(`Publish the content of version ${version} again as a new version?${warning}`)) {
+      rollbackMutation.mutate(version);
+    }
+  };
+
+  const refOptions: ContentRef[] = ['draft', 'published', ...versions.map(version => version.version)];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>
+            {publishing?.status === 'DRAFT'
+              ? `This ${label} is a draft and hidden from students until it is published.`
+              : `${publishing?.version ? `Students see version ${publishing.version}.` : 'Students see the content from before version history was kept.'} Edits are saved as unpublished changes until you publish them.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Publishing */}
+          <div className="space-y-3 rounded-md border p-4">
+            <div className="flex items-center gap-2">
+              {publishing?.status === 'DRAFT' ? (
+                <Badge className="bg-gray-100 text-gray-800">Draft</Badge>
+              ) : publishing?.hasDraft ? (
+                <Badge className="bg-yellow-100 text-yellow-800">Unpublished changes</Badge>
+              ) : (
+                <Badge className="bg-green-100 text-green-800">Up to date</Badge>
+              )}
+              {publishing?.scheduledAt && (
+                <span className="flex items-center gap-1 text-sm text-gray-600">
+                  <CalendarClock className="h-4 w-4" />
+                  Publishes {new Date(publishing.scheduledAt).toLocaleString()}
+                </span>
+              )}
+            </div>
+
+            {pending && (
+              <>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Label htmlFor="version-note">Version note</Label>
+                    <Input
+                      id="version-note"
+                      value={note}
+                      maxLength={500}
+                      onChange={(event) => setNote(event.target.value)}
+                      placeholder="What changed (optional)"
+                    />
+                  </div>
+                  <Button onClick={() => publishMutation.mutate()} disabled={publishMutation.isPending}>
+                    <Send className="h-4 w-4 mr-2" />
+                    {publishMutation.isPending ? 'Publishing...' : 'Publish now'}
+                  </Button>
+                </div>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Label htmlFor="publish-at">Publish later</Label>
+                    <Input
+                      id="publish-at"
+                      type="datetime-local"
+                      value={publishAt}
+                      onChange={(event) => setPublishAt(event.target.value)}
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => scheduleMutation.mutate()}
+                    disabled={!publishAt || scheduleMutation.isPending}
+                  >
+                    <CalendarClock className="h-4 w-4 mr-2" />
+                    Schedule
+                  </Button>
+                  {publishing?.scheduledAt && (
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelScheduleMutation.mutate()}
+                      disabled={cancelScheduleMutation.isPending}
+                    >
+                      Cancel schedule
+                    </Button>
+                  )}
+                  {publishing?.hasDraft && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDiscard}
+                      disabled={discardMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Discard changes
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Versions */}
+          <div>
+            <h3 className="font-medium mb-2">Versions</h3>
+            {versionsLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-gray-500">No versions have been published yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Published</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {versions.map((version) => (
+                    <TableRow key={version.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">v{version.version}</span>
+                          {version.version === publishing?.version && <Badge variant="secondary">Live</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(version.publishedAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">{publisherName(version)}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {version.restoredFrom ? `Rollback to v${version.restoredFrom}` : version.note || '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setCompare({ from: version.version, to: publishing?.hasDraft ? 'draft' : 'published' })}
+                          >
+                            Compare
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRollback(version.version)}
+                            disabled={version.version === publishing?.version || rollbackMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Roll back
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {/* Diff */}
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <h3 className="font-medium mr-auto">Changes</h3>
+              {(['from', 'to'] as const).map((side) => (
+                <Select
+                  key={side}
+                  value={String(compare[side])}
+                  onValueChange={(value) => setCompare(current => ({ ...current, [side]: parseRef(value) }))}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {refOptions.map((ref) => (
+                      <SelectItem key={String(ref)} value={String(ref)}>{refLabel(ref)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+            {compare.from === compare.to ? (
+              <p className="text-sm text-gray-500">Choose two different versions to compare.</p>
+            ) : diffLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+            ) : diffError ? (
+              <p className="text-sm text-red-600">{diffError instanceof Error ? diffError.message : 'Failed to compare versions'}</p>
+            ) : !diff || diff.changes.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No differences between {refLabel(compare.from).toLowerCase()} and {refLabel(compare.to).toLowerCase()}.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-1/5">Field</TableHead>
+                    <TableHead className="w-2/5">{refLabel(compare.from)}</TableHead>
+                    <TableHead className="w-2/5">{refLabel(compare.to)}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.changes.map((change) => (
+                    <TableRow key={change.path}>
+                      <TableCell className="font-mono text-xs align-top">{change.path}</TableCell>
+                      <TableCell className="align-top">
+                        <div className={`whitespace-pre-wrap break-words text-sm rounded p-2 ${change.change === 'added' ? 'text-gray-400' : 'bg-red-50 text-red-900'}`}>
+                          {formatValue(change.before)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <div className={`whitespace-pre-wrap break-words text-sm rounded p-2 ${change.change === 'removed' ? 'text-gray-400' : 'bg-green-50 text-green-900'}`}>
+                          {formatValue(change.after)}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContentVersionDialog;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { userApi } from '@/services/userApi';
+
+interface InstructorPickerProps {
+  id: string;
+  value: string[];
+  onChange: (instructorIds: string[]) => void;
+}
+
+/**
+ * Choose the instructor accounts assigned to a course. Assigned instructors can
+ * edit the course's modules, lessons and quizzes and see its analytics.
+ */
+const InstructorPicker: React.FC<InstructorPickerProps> = ({ id, value, onChange }) => {
+  const { data: instructors = [], isLoading } = useQuery({
+    queryKey: ['users', 'instructors'],
+    queryFn: async () => (await userApi.getAllUsers({ role: 'instructor', limit: 100 })).data.users,
+  });
+
+  const toggle = (instructorId: string, checked: boolean) => {
+    onChange(checked ? [...value, instructorId] : value.filter(entry => entry !== instructorId));
+  };
+
+  return (
+    <div>
+      <Label>Instructor accounts</Label>
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 mt-2 animate-spin text-gray-500" />
+      ) : instructors.length === 0 ? (
+        <p className="text-sm text-gray-500 mt-1">
+          No users have the instructor role yet.
+        </p>
+      ) : (
+        <div className="mt-2 max-h-32 overflow-y-auto space-y-2 border rounded-md p-2">
+          {instructors.map(instructor => (
+            <div key={instructor.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${id}-${instructor.id}`}
+                checked={value.includes(instructor.id)}
+                onCheckedChange={checked => toggle(instructor.id, checked === true)}
+              />
+              <Label htmlFor={`${id}-${instructor.id}`} className="text-sm font-normal">
+                {[instructor.firstName, instructor.lastName].filter(Boolean).join(' ') || instructor.username}
+                <span className="text-gray-500"> ({instructor.email})</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstructorPicker;
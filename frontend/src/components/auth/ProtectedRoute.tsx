@@ -5,8 +5,8 @@ import { Loader2 } from 'lucide-react';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'admin' | 'user' | 'student' | 'visitor';
-  allowedRoles?: ('admin' | 'user' | 'student' | 'visitor')[];
+  requiredRole?: 'admin' | 'instructor' | 'user' | 'student' | 'visitor';
+  allowedRoles?: ('admin' | 'instructor' | 'user' | 'student' | 'visitor')[];
   fallbackPath?: string;
 }
 
@@ -67,6 +67,8 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     
     if (user?.role === 'admin') {
       redirectPath = '/admin/dashboard';
+    } else if (user?.role === 'instructor') {
+      redirectPath = '/admin/courses';
     } else if (user?.role === 'user') {
       redirectPath = '/student-dashboard';
     } else if (user?.role === 'student') {
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Copy, Download, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import type { TwoFactorEnrollment } from '@/services/twoFactorApi';
+
+const copyToClipboard = async (text: string, what: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast({ title: 'Copied', description: `${what} copied to the clipboard.` });
+  } catch {
+    toast({ title: 'Copy failed', description: 'Select the text and copy it manually.', variant: 'destructive' });
+  }
+};
+
+// Group the base32 secret in fours so it is easier to type into an app
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') || secret;
+
+interface AuthenticatorSetupProps {
+  enrollment: TwoFactorEnrollment;
+}
+
+/**
+ * How to add the account to an authenticator app: the otpauth:// link opens
+ * the app directly on phones, the secret can be typed in anywhere else.
+ */
+export const AuthenticatorSetup: React.FC<AuthenticatorSetupProps> = ({ enrollment }) => (
+  <div className="space-y-3 text-sm">
+    <p className="text-gray-600 dark:text-gray-300">
+      Add this account to an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+      then enter the 6-digit code it shows.
+    </p>
+    <div className="rounded-lg bg-gray-50 dark:bg-gray-900 border p-3">
+      <p className="text-xs text-gray-500 mb-1">Setup key</p>
+      <div className="flex items-center justify-between gap-2">
+        <code className="font-mono text-sm break-all">{formatSecret(enrollment.secret)}</code>
+        <Button type="button" variant="ghost" size="sm" onClick={() => copyToClipboard(enrollment.secret, 'Setup key')}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+    <Button type="button" variant="outline" size="sm" asChild>
+      <a href={enrollment.otpauthUrl}>
+        <ExternalLink className="h-4 w-4 mr-2" />
+        Open in authenticator app
+      </a>
+    </Button>
+  </div>
+);
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+/**
+ * Recovery codes are only shown once, so offer to copy or download them
+ */
+export const RecoveryCodesList: React.FC<RecoveryCodesListProps> = ({ codes }) => {
+  const handleDownload = () => {
+    const blob = new Blob([`${codes.join('\n')}\n`], { type: 'text/plain;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 dark:bg-gray-900 border p-3">
+        {codes.map(code => (
+          <code key={code} className="font-mono text-sm">{code}</code>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => copyToClipboard(codes.join('\n'), 'Recovery codes')}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Link2, Loader2, Unlink } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { oauthApi } from '@/services/oauthApi';
+
+const LinkedAccountsCard: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['linked-identities'],
+    queryFn: () => oauthApi.getIdentities(),
+  });
+
+  // Linking finishes at the provider, which sends the browser back here
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const linked = params.get('linked');
+    const oauthError = params.get('oauthError');
+    if (!linked && !oauthError) {
+      return;
+    }
+    if (linked) {
+      toast({ title: 'Account linked', description: `You can now sign in with ${linked}.` });
+    } else {
+      toast({ title: 'Linking failed', description: oauthError!, variant: 'destructive' });
+    }
+    navigate(location.pathname, { replace: true });
+  }, [location, navigate, toast]);
+
+  const linkMutation = useMutation({
+    mutationFn: (providerId: string) => oauthApi.startLink(providerId),
+    onSuccess: (authorizationUrl) => {
+      window.location.assign(authorizationUrl);
+    },
+    onError: (mutationError: Error) => {
+      toast({ title: 'Error', description: mutationError.message, variant: 'destructive' });
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: (identityId: string) => oauthApi.unlinkIdentity(identityId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['linked-identities'] });
+      toast({ title: 'Account unlinked' });
+    },
+    onError: (mutationError: Error) => {
+      toast({ title: 'Error', description: mutationError.message, variant: 'destructive' });
+    },
+  });
+
+  // Nothing to show when the platform has no providers configured
+  if (!isLoading && !error && data && data.providers.length === 0 && data.identities.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Link2 className="h-5 w-5 mr-2" />
+          Linked Accounts
+        </CardTitle>
+        <CardDescription>
+          Sign in with an account you already have at another service.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+          </div>
+        ) : error || !data ? (
+          <p className="text-sm text-gray-600">{(error as Error)?.message || 'Linked accounts unavailable'}</p>
+        ) : (
+          <div className="space-y-3">
+            {data.providers.map(provider => {
+              const identity = data.identities.find(entry => entry.provider === provider.id);
+              return (
+                <div key={provider.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium">{provider.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {identity
+                        ? `Linked${identity.email ? ` as ${identity.email}` : ''} · ${new Date(identity.createdAt).toLocaleDateString()}`
+                        : 'Not linked'}
+                    </p>
+                  </div>
+                  {identity ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => unlinkMutation.mutate(identity.id)}
+                      disabled={unlinkMutation.isPending}
+                    >
+                      <Unlink className="h-4 w-4 mr-1" />
+                      Unlink
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => linkMutation.mutate(provider.id)}
+                      disabled={linkMutation.isPending}
+                    >
+                      {linkMutation.isPending && linkMutation.variables === provider.id && (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      )}
+                      Link
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+            {!data.hasPassword && (
+              <p className="text-xs text-gray-500">
+                Your account has no password yet. Use "Forgot password" on the sign-in page to create one.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LinkedAccountsCard;
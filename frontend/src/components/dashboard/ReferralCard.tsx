@@ -0,0 +1,75 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Gift, Copy, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { couponApi } from '@/services/couponApi';
+
+const ReferralCard: React.FC = () => {
+  const { toast } = useToast();
+  const { data: referral, isLoading, error } = useQuery({
+    queryKey: ['student-referral'],
+    queryFn: () => couponApi.getReferral(),
+  });
+
+  const handleCopy = async () => {
+    if (!referral) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(referral.code);
+      toast({ title: 'Copied', description: 'Your referral code is on the clipboard.' });
+    } catch {
+      toast({ title: 'Copy failed', description: 'Select the code and copy it manually.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="h-5 w-5" />
+          Refer a Friend
+        </CardTitle>
+        <CardDescription>
+          {referral
+            ? `Share your code. You earn ${referral.pointsPerReferral} points when a new student enrolls with it.`
+            : 'Share your code and earn points when friends enroll'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+          </div>
+        ) : error || !referral ? (
+          <p className="text-sm text-gray-600">{(error as Error)?.message || 'Referral code unavailable'}</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Input value={referral.code} readOnly className="font-mono" />
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{referral.referrals}</div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">Friends referred</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{referral.pointsEarned}</div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">Points earned</div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReferralCard;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { AuthenticatorSetup, RecoveryCodesList } from '@/components/auth/TwoFactorSetup';
+import { twoFactorApi, type TwoFactorCredentials, type TwoFactorEnrollment } from '@/services/twoFactorApi';
+
+// Actions that need a current code before they run
+type ConfirmAction = 'disable' | 'regenerate';
+
+const TwoFactorCard: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading, error } = useQuery({
+    queryKey: ['two-factor-status'],
+    queryFn: () => twoFactorApi.getStatus(),
+  });
+
+  const onError = (mutationError: Error) => {
+    toast({ title: 'Error', description: mutationError.message, variant: 'destructive' });
+  };
+
+  const reset = () => {
+    setEnrollment(null);
+    setConfirmAction(null);
+    setCode('');
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => twoFactorApi.setup(),
+    onSuccess: setEnrollment,
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (enableCode: string) => twoFactorApi.enable(enableCode),
+    onSuccess: (codes) => {
+      reset();
+      setRecoveryCodes(codes);
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] });
+      toast({ title: 'Two-factor authentication enabled', description: 'You will be asked for a code when you sign in.' });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: (credentials: TwoFactorCredentials) => twoFactorApi.disable(credentials),
+    onSuccess: () => {
+      reset();
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] });
+      toast({ title: 'Two-factor authentication disabled' });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (credentials: TwoFactorCredentials) => twoFactorApi.regenerateRecoveryCodes(credentials),
+    onSuccess: (codes) => {
+      reset();
+      setRecoveryCodes(codes);
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] });
+      toast({ title: 'New recovery codes generated', description: 'Your previous codes no longer work.' });
+    },
+    onError,
+  });
+
+  const isPending = setupMutation.isPending || enableMutation.isPending || disableMutation.isPending || regenerateMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = code.trim();
+    if (!value) {
+      return;
+    }
+    if (enrollment) {
+      enableMutation.mutate(value);
+      return;
+    }
+    // A 6-digit value is an authenticator code, anything else a recovery code
+    const credentials = /^\d{6}$/.test(value) ? { code: value } : { recoveryCode: value };
+    if (confirmAction === 'disable') {
+      disableMutation.mutate(credentials);
+    } else if (confirmAction === 'regenerate') {
+      regenerateMutation.mutate(credentials);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="h-5 w-5 mr-2" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge className="ml-2 bg-green-100 text-green-800">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app as well as your password when signing in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+          </div>
+        ) : error || !status ? (
+          <p className="text-sm text-gray-600">{(error as Error)?.message || 'Two-factor status unavailable'}</p>
+        ) : recoveryCodes ? (
+          <>
+            <RecoveryCodesList codes={recoveryCodes} />
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </>
+        ) : enrollment || confirmAction ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {enrollment ? (
+              <AuthenticatorSetup enrollment={enrollment} />
+            ) : (
+              <p className="text-sm text-gray-600">
+                {confirmAction === 'disable'
+                  ? 'Enter a code from your authenticator app, or a recovery code, to turn two-factor authentication off.'
+                  : 'Enter a code from your authenticator app, or a recovery code, to replace your recovery codes.'}
+              </p>
+            )}
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="twoFactorSettingsCode">{enrollment ? 'Authentication code' : 'Code'}</Label>
+              <Input
+                id="twoFactorSettingsCode"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                maxLength={20}
+                autoFocus
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant={confirmAction === 'disable' ? 'destructive' : 'default'} disabled={isPending || !code.trim()}>
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {enrollment ? 'Enable' : confirmAction === 'disable' ? 'Turn Off' : 'Generate New Codes'}
+              </Button>
+              <Button type="button" variant="outline" onClick={reset} disabled={isPending}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : status.enabled ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Enabled {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : ''} ·
+              {' '}{status.recoveryCodesRemaining} recovery code(s) left
+            </p>
+            {status.required && (
+              <p className="text-sm text-gray-600">Two-factor authentication is required for your account and cannot be turned off.</p>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setConfirmAction('regenerate')}>
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" className="text-red-600" onClick={() => setConfirmAction('disable')}>
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={isPending}>
+            {setupMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Set Up Two-Factor Authentication
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorCard;
@@ -11,10 +11,49 @@ import {
   AlertCircle,
   Bell,
   BellOff,
-  Trash2
+  Trash2,
+  Hash,
+  Users
 } from 'lucide-react';
 import { integrationApi, type Integration, type CreateIntegrationData } from '../../services/integrationApi';
 
+type WebhookPlatform = 'discord' | 'slack' | 'teams';
+
+// Chat platforms that deliver notifications through an incoming webhook
+const WEBHOOK_PLATFORMS: Record<WebhookPlatform, {
+  name: string;
+  description: string;
+  icon: React.ReactNode;
+  iconBackground: string;
+  webhookPlaceholder: string;
+  webhookHelp: string;
+}> = {
+  discord: {
+    name: 'Discord',
+    description: 'Get notifications and updates in your Discord server',
+    icon: <MessageSquare className="w-6 h-6 text-white" />,
+    iconBackground: 'bg-indigo-600',
+    webhookPlaceholder: 'https://discord.com/api/webhooks/...',
+    webhookHelp: 'Create a webhook in your Discord server settings to receive notifications'
+  },
+  slack: {
+    name: 'Slack',
+    description: 'Post notifications and updates to a Slack channel',
+    icon: <Hash className="w-6 h-6 text-white" />,
+    iconBackground: 'bg-green-600',
+    webhookPlaceholder: 'https://hooks.slack.com/services/...',
+    webhookHelp: 'Add an Incoming Webhook to your Slack app and pick the channel to post to'
+  },
+  teams: {
+    name: 'Microsoft Teams',
+    description: 'Post notifications and updates to a Teams channel',
+    icon: <Users className="w-6 h-6 text-white" />,
+    iconBackground: 'bg-blue-600',
+    webhookPlaceholder: 'https://xxxx.webhook.office.com/...',
+    webhookHelp: 'Add an Incoming Webhook connector or workflow to your Teams channel'
+  }
+};
+
 const IntegrationSettings: React.FC = () => {
   const [integrations, setIntegrations] = useState<Integration[]>([]);
   const [loading, setLoading] = useState(true);
@@ -136,7 +175,7 @@ const IntegrationSettings: React.FC = () => {
       });
       toast({
         title: 'Success',
-        description: `Test notification sent to ${platform}`
+        description: `Test notification queued for ${platform}`
       });
     } catch (error) {
       console.error('Failed to send test notification:', error);
@@ -195,16 +234,20 @@ const IntegrationSettings: React.FC = () => {
       </div>
 
       <div className="space-y-6">
-        {/* Discord Integration */}
-        <DiscordIntegrationCard
-          integration={getIntegration('discord')}
-          onSave={handleSaveIntegration}
-          onTest={handleTestIntegration}
-          onDelete={handleDeleteIntegration}
-          onSendTestNotification={handleSendTestNotification}
-          isSaving={savingPlatforms.has('discord')}
-          isTesting={testingPlatforms.has('discord')}
-        />
+        {/* Discord, Slack and Teams Integrations */}
+        {(Object.keys(WEBHOOK_PLATFORMS) as WebhookPlatform[]).map(platform => (
+          <WebhookIntegrationCard
+            key={platform}
+            platform={platform}
+            integration={getIntegration(platform)}
+            onSave={handleSaveIntegration}
+            onTest={handleTestIntegration}
+            onDelete={handleDeleteIntegration}
+            onSendTestNotification={handleSendTestNotification}
+            isSaving={savingPlatforms.has(platform)}
+            isTesting={testingPlatforms.has(platform)}
+          />
+        ))}
 
         {/* Future integrations can be added here */}
         <div className="border border-gray-200 rounded-lg p-6">
@@ -215,7 +258,7 @@ const IntegrationSettings: React.FC = () => {
               </div>
               <div className="ml-3">
                 <h3 className="text-lg font-medium text-gray-900">More Integrations</h3>
-                <p className="text-sm text-gray-600">Slack, Teams, and Zoom coming soon</p>
+                <p className="text-sm text-gray-600">Zoom coming soon</p>
               </div>
             </div>
             <span className="px-3 py-1 text-sm bg-yellow-100 text-yellow-800 rounded-full">
@@ -228,7 +271,8 @@ const IntegrationSettings: React.FC = () => {
   );
 };
 
-interface DiscordIntegrationCardProps {
+interface WebhookIntegrationCardProps {
+  platform: WebhookPlatform;
   integration?: Integration;
   onSave: (data: CreateIntegrationData) => Promise<void>;
   onTest: (platform: string) => Promise<void>;
@@ -238,7 +282,8 @@ interface DiscordIntegrationCardProps {
   isTesting: boolean;
 }
 
-const DiscordIntegrationCard: React.FC<DiscordIntegrationCardProps> = ({
+const WebhookIntegrationCard: React.FC<WebhookIntegrationCardProps> = ({
+  platform,
   integration,
   onSave,
   onTest,
@@ -259,7 +304,7 @@ const DiscordIntegrationCard: React.FC<DiscordIntegrationCardProps> = ({
 
   const handleSave = () => {
     onSave({
-      platform: 'discord',
+      platform,
       enabled,
       config: { webhookUrl: webhookUrl.trim() },
       preferences
@@ -272,20 +317,21 @@ const DiscordIntegrationCard: React.FC<DiscordIntegrationCardProps> = ({
 
   const isConfigured = webhookUrl.trim() !== '';
   const status = integration?.metadata.syncStatus;
-  const staticInviteLink = integrationApi.getDiscordInviteLink();
+  const details = WEBHOOK_PLATFORMS[platform];
+  const staticInviteLink = platform === 'discord' ? integrationApi.getDiscordInviteLink() : null;
 
   return (
     <div className="border border-gray-200 rounded-lg overflow-hidden">
       <div className="bg-indigo-50 p-6">
         <div className="flex items-center justify-between">
           <div className="flex items-center">
-            <div className="w-12 h-12 bg-indigo-600 rounded-lg flex items-center justify-center">
-              <MessageSquare className="w-6 h-6 text-white" />
+            <div className={`w-12 h-12 ${details.iconBackground} rounded-lg flex items-center justify-center`}>
+              {details.icon}
             </div>
             <div className="ml-4">
-              <h3 className="text-lg font-semibold text-gray-900">Discord</h3>
+              <h3 className="text-lg font-semibold text-gray-900">{details.name}</h3>
               <p className="text-sm text-gray-600">
-                Get notifications and updates in your Discord server
+                {details.description}
               </p>
             </div>
           </div>
@@ -316,14 +362,14 @@ const DiscordIntegrationCard: React.FC<DiscordIntegrationCardProps> = ({
         {/* Configuration Section */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Discord Webhook URL
+            {details.name} Webhook URL
           </label>
           <div className="flex space-x-3">
             <input
               type="url"
               value={webhookUrl}
               onChange={(e) => setWebhookUrl(e.target.value)}
-              placeholder="https://discord.com/api/webhooks/..."
+              placeholder={details.webhookPlaceholder}
               className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
             />
             <button
@@ -340,7 +386,7 @@ const DiscordIntegrationCard: React.FC<DiscordIntegrationCardProps> = ({
             </button>
           </div>
           <p className="mt-1 text-xs text-gray-500">
-            Create a webhook in your Discord server settings to receive notifications
+            {details.webhookHelp}
           </p>
         </div>
 
@@ -372,7 +418,7 @@ const DiscordIntegrationCard: React.FC<DiscordIntegrationCardProps> = ({
             {isConfigured && (
               <>
                 <button
-                  onClick={() => onTest('discord')}
+                  onClick={() => onTest(platform)}
                   disabled={isTesting}
                   className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
                 >
@@ -384,7 +430,7 @@ const DiscordIntegrationCard: React.FC<DiscordIntegrationCardProps> = ({
                   <span className="ml-2">{isTesting ? 'Testing...' : 'Test Connection'}</span>
                 </button>
                 <button
-                  onClick={() => onSendTestNotification('discord')}
+                  onClick={() => onSendTestNotification(platform)}
                   className="flex items-center px-3 py-2 text-sm bg-indigo-100 text-indigo-700 rounded-md hover:bg-indigo-200"
                 >
                   <Bell className="w-4 h-4" />
@@ -396,19 +442,21 @@ const DiscordIntegrationCard: React.FC<DiscordIntegrationCardProps> = ({
 
           <div className="flex items-center space-x-3">
             {/* Static invite link fallback */}
-            <a
-              href={staticInviteLink}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="flex items-center px-3 py-2 text-sm text-indigo-600 hover:text-indigo-700"
-            >
-              <ExternalLink className="w-4 h-4" />
-              <span className="ml-2">Join Community</span>
-            </a>
+            {staticInviteLink && (
+              <a
+                href={staticInviteLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center px-3 py-2 text-sm text-indigo-600 hover:text-indigo-700"
+              >
+                <ExternalLink className="w-4 h-4" />
+                <span className="ml-2">Join Community</span>
+              </a>
+            )}
 
             {integration && (
               <button
-                onClick={() => onDelete('discord')}
+                onClick={() => onDelete(platform)}
                 className="flex items-center px-3 py-2 text-sm text-red-600 hover:text-red-700"
               >
                 <Trash2 className="w-4 h-4" />
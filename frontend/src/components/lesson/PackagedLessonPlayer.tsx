@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Eye } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { lessonPackageApi, packageFileUrl, xapiEndpoint, PackageRuntime } from '@/services/lessonPackageApi';
+import { ScormSession } from '@/utils/scormRuntime';
+
+// Package content runs in its own opaque origin, so it cannot reach the app's
+// cookies, storage or API. The backend sends the same sandbox with every file.
+const PACKAGE_SANDBOX = 'allow-scripts allow-forms allow-popups allow-modals';
+
+interface PackagedLessonPlayerProps {
+  lessonId: string;
+  // Called once the package's results are saved, so progress can be refreshed
+  onProgressSaved?: () => void;
+}
+
+const newRegistration = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : '00000000-0000-4000-8000-000000000000'.replace(/0/g, () => Math.floor(Math.random() * 16).toString(16));
+
+// xAPI launch: the package reads its statement endpoint, credentials and
+// learner from the query string
+const xapiLaunchUrl = (runtime: PackageRuntime, registration: string): string => {
+  const [launchPath, query] = runtime.package.launchPath.split('?');
+  const params = new URLSearchParams(query);
+  params.set('endpoint', xapiEndpoint(runtime.lessonId));
+  params.set('auth', `Bearer ${runtime.launchToken}`);
+  params.set('actor', JSON.stringify({
+    objectType: 'Agent',
+    name: runtime.learner.name,
+    account: { homePage: window.location.origin, name: runtime.learner.id },
+  }));
+  params.set('registration', registration);
+  if (runtime.package.activityId) {
+    params.set('activity_id', runtime.package.activityId);
+  }
+  return `${packageFileUrl(runtime, launchPath)}?${params.toString()}`;
+};
+
+/**
+ * Plays a lesson's SCORM 1.2 or xAPI package in a sandboxed iframe. SCORM
+ * packages post what they report to this window, which saves it; xAPI packages
+ * send their statements to the lesson's statement endpoint.
+ */
+const PackagedLessonPlayer: React.FC<PackagedLessonPlayerProps> = ({ lessonId, onProgressSaved }) => {
+  const { toast } = useToast();
+  const registration = useMemo(newRegistration, []);
+  const [scormReady, setScormReady] = useState(false);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  // Kept in refs so a new callback does not restart the SCORM session
+  const onProgressSavedRef = useRef(onProgressSaved);
+  onProgressSavedRef.current = onProgressSaved;
+  const toastRef = useRef(toast);
+  toastRef.current = toast;
+
+  const { data: runtime, isLoading, error } = useQuery({
+    queryKey: ['lesson-package-runtime', lessonId],
+    queryFn: () => lessonPackageApi.getRuntime(lessonId),
+    // Saved SCORM data is read once per launch: a refetch would restart the session
+    staleTime: Infinity,
+    gcTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!runtime?.cmi) {
+      return;
+    }
+
+    const scorm = new ScormSession({
+      browse: runtime.mode === 'browse',
+      commit: (values, options) => lessonPackageApi.commitScorm(lessonId, values, options),
+      onCommitted: () => onProgressSavedRef.current?.(),
+      onError: (commitError) => {
+        toastRef.current({
+          title: 'Progress not saved',
+          description: commitError.message,
+          variant: 'destructive',
+        });
+      },
+    });
+    // Only the package's own frame can report for it
+    const handleMessage = (event: MessageEvent) => {
+      if (frameRef.current && event.source === frameRef.current.contentWindow) {
+        scorm.handleMessage(event.data);
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    setScormReady(true);
+
+    // Leaving the page without the SCO calling LMSFinish still saves the session
+    const handlePageHide = () => scorm.terminate();
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      window.removeEventListener('pagehide', handlePageHide);
+      scorm.terminate();
+      setScormReady(false);
+    };
+  }, [runtime, lessonId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (error || !runtime) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>
+          {error instanceof Error ? error.message : 'This interactive lesson could not be loaded.'}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const src = runtime.package.standard === 'XAPI'
+    ? xapiLaunchUrl(runtime, registration)
+    : packageFileUrl(runtime, runtime.package.launchPath);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">{runtime.package.standard === 'XAPI' ? 'xAPI' : 'SCORM 1.2'}</Badge>
+        {runtime.mode === 'browse' && (
+          <span className="flex items-center gap-1 text-sm text-gray-500">
+            <Eye className="h-4 w-4" />
+            Preview mode: progress is not saved
+          </span>
+        )}
+      </div>
+      <div className="relative bg-gray-100 rounded-lg overflow-hidden h-[75vh] min-h-[480px]">
+        {/* Mounted only once the SCORM session listens, since SCOs initialize on load */}
+        {(runtime.package.standard === 'XAPI' || scormReady) && (
+          <iframe
+            key={runtime.package.id}
+            ref={frameRef}
+            src={src}
+            sandbox={PACKAGE_SANDBOX}
+            className="w-full h-full"
+            frameBorder="0"
+            allow="fullscreen; autoplay"
+            allowFullScreen
+            title={runtime.package.title || 'Interactive lesson'}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PackagedLessonPlayer;
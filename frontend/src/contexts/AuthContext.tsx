@@ -2,13 +2,24 @@ import React, { useState, ReactNode } from "react";
 import axios from "axios";
 import { useToast } from "../hooks/use-toast";
 import { AuthContext } from "./AuthContextContext";
-import { authApi, type AuthUser, type LoginCredentials, type RegisterData } from "../services/authApi";
+import {
+  authApi,
+  isMfaChallenge,
+  type AuthUser,
+  type LoginCredentials,
+  type LoginResponse,
+  type MfaChallenge,
+  type RegisterData
+} from "../services/authApi";
+import type { TwoFactorCredentials } from "../services/twoFactorApi";
 
 export interface AuthContextType {
   user: AuthUser | null;
   loading: boolean;
   register: (formData: RegisterData) => Promise<void>;
-  login: (credentials: LoginCredentials) => Promise<void>;
+  // Resolves with a challenge when the account needs a second factor
+  login: (credentials: LoginCredentials) => Promise<MfaChallenge | null>;
+  completeTwoFactorLogin: (challengeToken: string, credentials: TwoFactorCredentials) => Promise<LoginResponse>;
   logout: () => Promise<void>;
   forgotPassword: (email: string) => Promise<void>;
   resetPassword: (token: string, password: string) => Promise<void>;
@@ -96,6 +107,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
       const userData = await authApi.login(credentials);
       console.log('Login API response:', userData);
+
+      // Password accepted, but the account needs a second factor before signing in
+      if (isMfaChallenge(userData)) {
+        return userData;
+      }
       
       // The API now returns the user object directly
       setUser(userData as AuthUser);
@@ -109,7 +125,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         description: "Welcome back! Redirecting to your dashboard...",
       });
 
-      return; // Successfully completed
+      return null; // Successfully completed
     } catch (error) {
       console.error("Login error:", error);
       let errorMessage = "Login failed";
@@ -130,10 +146,28 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Second login step for accounts with two-factor authentication
+  const completeTwoFactorLogin = async (challengeToken: string, credentials: TwoFactorCredentials) => {
+    const userData = await authApi.verifyTwoFactor(challengeToken, credentials);
+    // Recovery codes are shown once by the login page and never stored
+    const profile = { ...userData };
+    delete profile.recoveryCodes;
+
+    setUser(profile as AuthUser);
+    localStorage.setItem("user", JSON.stringify(profile));
+    setAuthChecked(true);
+
+    toast.toast({
+      title: "Login Successful!",
+      description: "Welcome back! Redirecting to your dashboard...",
+    });
+    return userData;
+  };
+
   const register = async (formData: RegisterData): Promise<void> => {
     try {
       setLoading(true);
-      await authApi.register(formData);
+      const registeredUser = await authApi.register(formData);
 
       // Registration was successful - do not auto-login until email is verified
       setUser(null);
@@ -141,7 +175,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       
       toast.toast({
         title: "Registration Successful!",
-        description: "Please check your email to verify your account.",
+        description: registeredUser.isEmailVerified
+          ? "Your account is ready. You can now log in."
+          : "Please check your email to verify your account.",
       });
     } catch (error) {
       let message = "Registration failed.";
@@ -302,6 +338,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     loading,
     register,
     login,
+    completeTwoFactorLogin,
     logout,
     forgotPassword,
     resetPassword,
@@ -325,7 +325,7 @@ export const useEnrollment = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
 
-  const enrollInCourse = useCallback(async (programmeId: string) => {
+  const enrollInCourse = useCallback(async (programmeId: string, code?: string) => {
     if (!user?.id) {
       throw new Error('User not authenticated');
     }
@@ -338,7 +338,7 @@ export const useEnrollment = () => {
       console.log('API base URL:', '/api (using Vite proxy)');
       console.log('Full URL will be:', '/api/student/enroll (proxied to backend)');
       
-      const result = await progressApi.enrollInProgram(programmeId);
+      const result = await progressApi.enrollInProgram(programmeId, code);
       console.log('Enrollment successful:', result);
       
       // Invalidate and refetch all related queries to update the UI immediately
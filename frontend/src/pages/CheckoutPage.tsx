@@ -0,0 +1,214 @@
+import React from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/layout/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertCircle,
+  CheckCircle,
+  CreditCard,
+  Loader2,
+  RotateCcw,
+  XCircle
+} from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { paymentApi, formatOrderAmount, type PaymentOrder, type PaymentOrderStatus } from '@/services/paymentApi';
+
+const STATUS_STYLES: Record<PaymentOrderStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  PAID: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+  REFUNDED: 'bg-blue-100 text-blue-800',
+};
+
+const getProgrammeTitle = (order: PaymentOrder) =>
+  typeof order.programmeId === 'string' ? 'Programme' : order.programmeId.title;
+
+const getProgrammeId = (order: PaymentOrder) =>
+  typeof order.programmeId === 'string' ? order.programmeId : order.programmeId._id;
+
+const CheckoutPage: React.FC = () => {
+  const { orderId } = useParams<{ orderId: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: order, isLoading, error } = useQuery({
+    queryKey: ['payment-order', orderId],
+    queryFn: () => paymentApi.getOrder(orderId!),
+    enabled: !!orderId,
+    // Real providers confirm payment by webhook, so poll until the order settles
+    refetchInterval: (query) =>
+      query.state.data?.status === 'PENDING' && query.state.data.provider !== 'fake' ? 3000 : false,
+  });
+
+  const onOrderSettled = (updated: PaymentOrder) => {
+    queryClient.setQueryData(['payment-order', orderId], updated);
+    if (updated.status === 'PAID') {
+      queryClient.invalidateQueries({ queryKey: ['student-enrollments'] });
+      queryClient.invalidateQueries({ queryKey: ['enrolled-programs'] });
+      queryClient.invalidateQueries({ queryKey: ['student-dashboard'] });
+    }
+  };
+
+  const fakePaymentMutation = useMutation({
+    mutationFn: (outcome: 'success' | 'failure') => paymentApi.completeFakeCheckout(orderId!, outcome),
+    onSuccess: onOrderSettled,
+    onError: (error: Error) => {
+      toast({ title: 'Payment failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (programmeId: string) => paymentApi.createCheckout(programmeId),
+    onSuccess: (newOrder) => {
+      if (newOrder.checkoutUrl && !newOrder.checkoutUrl.startsWith(window.location.origin)) {
+        window.location.assign(newOrder.checkoutUrl);
+      } else {
+        navigate(`/checkout/${newOrder.id}`);
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Checkout failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <Layout>
+        <div className="edu-container py-16 max-w-xl">
+          <Card>
+            <CardContent className="p-12 text-center">
+              <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+              <h3 className="text-lg font-semibold mb-2">Unable to load your order</h3>
+              <p className="text-gray-600">{(error as Error)?.message || 'Order not found'}</p>
+            </CardContent>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
+
+  const amount = formatOrderAmount(order.amount, order.currency);
+
+  return (
+    <Layout>
+      <div className="edu-container py-16 max-w-xl space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="h-5 w-5" />
+                Checkout
+              </CardTitle>
+              <Badge className={STATUS_STYLES[order.status]}>{order.status}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium">{getProgrammeTitle(order)}</div>
+                <div className="text-sm text-gray-600">Order {order.orderNumber}</div>
+              </div>
+              <div className="text-right">
+                {order.discountApplied > 0 && (
+                  <div className="text-sm text-gray-500 line-through">
+                    {formatOrderAmount(order.originalPrice, order.currency)}
+                  </div>
+                )}
+                <div className="text-2xl font-bold">{amount}</div>
+              </div>
+            </div>
+
+            {order.status === 'PENDING' && order.provider === 'fake' && (
+              <div className="rounded-lg border border-dashed border-yellow-300 bg-yellow-50 p-4 space-y-3">
+                <p className="text-sm text-yellow-800">
+                  Test mode: no real payment is taken. Choose the outcome to simulate.
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    className="flex-1 bg-eduOrange-500 hover:bg-eduOrange-600"
+                    disabled={fakePaymentMutation.isPending}
+                    onClick={() => fakePaymentMutation.mutate('success')}
+                  >
+                    {fakePaymentMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                    Pay {amount}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    disabled={fakePaymentMutation.isPending}
+                    onClick={() => fakePaymentMutation.mutate('failure')}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {order.status === 'PENDING' && order.provider !== 'fake' && (
+              <div className="space-y-3 text-center">
+                <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Waiting for payment confirmation...
+                </div>
+                {order.checkoutUrl && (
+                  <Button variant="outline" onClick={() => window.location.assign(order.checkoutUrl!)}>
+                    Continue to payment
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {order.status === 'PAID' && (
+              <div className="text-center space-y-3">
+                <CheckCircle className="h-12 w-12 mx-auto text-green-500" />
+                <p className="font-medium">Payment successful. You're enrolled!</p>
+                <Button onClick={() => navigate('/student-dashboard/courses')}>Go to my courses</Button>
+              </div>
+            )}
+
+            {order.status === 'FAILED' && (
+              <div className="text-center space-y-3">
+                <XCircle className="h-12 w-12 mx-auto text-red-500" />
+                <p className="font-medium">Payment failed</p>
+                {order.failureReason && <p className="text-sm text-gray-600">{order.failureReason}</p>}
+                <Button
+                  disabled={retryMutation.isPending}
+                  onClick={() => retryMutation.mutate(getProgrammeId(order))}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Try again
+                </Button>
+              </div>
+            )}
+
+            {order.status === 'REFUNDED' && (
+              <p className="text-sm text-gray-600 text-center">
+                This order was refunded{order.refund?.refundedAt ? ` on ${new Date(order.refund.refundedAt).toLocaleDateString()}` : ''}.
+                Access to the programme has ended.
+              </p>
+            )}
+
+            {order.status === 'CANCELLED' && (
+              <p className="text-sm text-gray-600 text-center">This order was cancelled.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default CheckoutPage;
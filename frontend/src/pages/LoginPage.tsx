@@ -1,9 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
-import { Eye, EyeOff, Mail } from 'lucide-react';
+import { Eye, EyeOff, Mail, ShieldCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import axios from 'axios';
 
@@ -18,7 +18,12 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AuthenticatorSetup, RecoveryCodesList } from '@/components/auth/TwoFactorSetup';
 import { useAuth } from '@/contexts/AuthContextUtils';
+import { authApi, type MfaChallenge } from '@/services/authApi';
+import type { TwoFactorEnrollment } from '@/services/twoFactorApi';
+import { oauthApi, type OAuthProvider } from '@/services/oauthApi';
 
 const loginSchema = z.object({
   email: z.string().email({ message: 'Please enter a valid email address.' }),
@@ -36,23 +41,41 @@ const LoginPage = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
-  const { login, user, loading } = useAuth();
+  const { login, completeTwoFactorLogin, user, loading } = useAuth();
+  // Second sign-in step, when the account uses (or must set up) two-factor authentication
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  // Stay on the page after a sign-in that set up two-factor until the recovery codes are saved
+  const [holdRedirect, setHoldRedirect] = useState(false);
+  const [providers, setProviders] = useState<OAuthProvider[]>([]);
+
+  // Social sign-in buttons, for whichever providers the platform has configured
+  useEffect(() => {
+    oauthApi.getProviders()
+      .then(setProviders)
+      .catch(error => console.error('Failed to fetch sign-in providers:', error));
+  }, []);
   
   // Check if user is already logged in
   useEffect(() => {
     console.log('LoginPage useEffect - user:', user, 'loading:', loading);
-    if (user && !loading) {
+    if (user && !loading && !holdRedirect) {
       console.log('User detected, redirecting based on role:', user.role);
       // Redirect based on role
       if (user.role === 'admin') {
         navigate('/admin/dashboard', { replace: true });
+      } else if (user.role === 'instructor') {
+        navigate('/admin/courses', { replace: true });
       } else if (user.role === 'user' || user.role === 'student') {
         navigate('/student-dashboard', { replace: true });
       } else {
         navigate('/visitor', { replace: true });
       }
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, holdRedirect, navigate]);
   
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -63,6 +86,48 @@ const LoginPage = () => {
     },
   });
 
+  const resetTwoFactor = useCallback(() => {
+    setChallenge(null);
+    setEnrollment(null);
+    setTwoFactorCode('');
+    setUseRecoveryCode(false);
+    setHoldRedirect(false);
+  }, []);
+
+  // Move to the second step; accounts that must set up two-factor get a new secret first
+  const beginChallenge = useCallback(async (mfaChallenge: MfaChallenge) => {
+    setChallenge(mfaChallenge);
+    if (!mfaChallenge.enrollmentRequired) {
+      return;
+    }
+    setHoldRedirect(true);
+    try {
+      setEnrollment(await authApi.setupLoginTwoFactor(mfaChallenge.challengeToken));
+    } catch (setupError) {
+      toast({
+        title: 'Two-Factor Setup Failed',
+        description: setupError instanceof Error ? setupError.message : 'Please try signing in again.',
+        variant: 'destructive',
+      });
+      resetTwoFactor();
+    }
+  }, [toast, resetTwoFactor]);
+
+  // Coming back from a provider: either its error or a two-factor challenge
+  useEffect(() => {
+    const oauthError = new URLSearchParams(location.search).get('oauthError');
+    if (oauthError) {
+      toast({ title: 'Sign-in Failed', description: oauthError, variant: 'destructive' });
+      navigate('/login', { replace: true });
+      return;
+    }
+    const pending = (location.state as { challenge?: MfaChallenge } | null)?.challenge;
+    if (pending) {
+      navigate('/login', { replace: true, state: null });
+      beginChallenge(pending);
+    }
+  }, [location, navigate, toast, beginChallenge]);
+
   const onSubmit = async (data: LoginFormValues) => {
     try {
       setIsSubmitting(true);
@@ -70,10 +135,15 @@ const LoginPage = () => {
       setShowSuccessMessage(false); // Reset success message
       
       console.log('Attempting login with:', data.email);
-      await login({
+      const mfaChallenge = await login({
         email: data.email,
         password: data.password,
       });
+
+      if (mfaChallenge) {
+        await beginChallenge(mfaChallenge);
+        return;
+      }
       
       console.log('Login successful, user state should be updated');
       
@@ -92,6 +162,8 @@ const LoginPage = () => {
       }, 1000);
     } catch (error: unknown) {
       console.error('Login error:', error);
+      setChallenge(null);
+      setHoldRedirect(false);
       
       // Check for authentication errors that might indicate non-existent account
       if (axios.isAxiosError(error)) {
@@ -117,6 +189,34 @@ const LoginPage = () => {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge || !twoFactorCode.trim()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const result = await completeTwoFactorLogin(
+        challenge.challengeToken,
+        useRecoveryCode ? { recoveryCode: twoFactorCode.trim() } : { code: twoFactorCode.replace(/\s+/g, '') }
+      );
+      if (result.recoveryCodes?.length) {
+        setRecoveryCodes(result.recoveryCodes);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Verification failed';
+      toast({ title: 'Verification Failed', description: message, variant: 'destructive' });
+      setTwoFactorCode('');
+      // The challenge only lasts a few minutes; start over from the password
+      if (message.toLowerCase().includes('expired')) {
+        resetTwoFactor();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Show loading while checking authentication
   if (loading) {
     return (
@@ -194,90 +294,190 @@ const LoginPage = () => {
               </div>
             )}
             
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Input 
-                          type="email" 
-                          placeholder="you@example.com" 
-                          {...field}
-                          className="pl-10"
-                          disabled={isSubmitting}
-                        />
-                        <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            {recoveryCodes ? (
+              <div className="space-y-6">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5 text-green-600" />
+                  <h2 className="font-semibold text-gray-900 dark:text-white">Two-factor authentication is on</h2>
+                </div>
+                <RecoveryCodesList codes={recoveryCodes} />
+                <Button className="w-full" onClick={() => setHoldRedirect(false)}>
+                  I have saved my recovery codes
+                </Button>
+              </div>
+            ) : challenge ? (
+              <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5 text-eduBlue-500" />
+                  <h2 className="font-semibold text-gray-900 dark:text-white">
+                    {challenge.enrollmentRequired ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+                  </h2>
+                </div>
+                {challenge.enrollmentRequired ? (
+                  <>
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
+                      Your account must use two-factor authentication before you can sign in.
+                    </p>
+                    {enrollment ? (
+                      <AuthenticatorSetup enrollment={enrollment} />
+                    ) : (
+                      <div className="flex justify-center py-4">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
                       </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {useRecoveryCode
+                      ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                      : 'Enter the 6-digit code from your authenticator app.'}
+                  </p>
                 )}
-              />
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorCode">{useRecoveryCode ? 'Recovery code' : 'Authentication code'}</Label>
+                  <Input
+                    id="twoFactorCode"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                    maxLength={useRecoveryCode ? 20 : 6}
+                    autoFocus
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isSubmitting || !twoFactorCode.trim()}>
+                  {isSubmitting ? 'Verifying...' : 'Verify'}
+                </Button>
+                <div className="flex justify-between">
+                  <Button type="button" variant="link" className="p-0 h-auto text-sm" onClick={resetTwoFactor}>
+                    Back to sign in
+                  </Button>
+                  {!challenge.enrollmentRequired && (
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="p-0 h-auto text-sm text-eduBlue-500"
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode);
+                        setTwoFactorCode('');
+                      }}
+                    >
+                      {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                    </Button>
+                  )}
+                </div>
+              </form>
+            ) : (
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Input 
+                            type="email" 
+                            placeholder="you@example.com" 
+                            {...field}
+                            className="pl-10"
+                            disabled={isSubmitting}
+                          />
+                          <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <div className="flex justify-between items-center">
-                      <FormLabel>Password</FormLabel>
-                      <Button 
-                        variant="link" 
-                        className="p-0 h-auto text-sm text-eduBlue-500"
-                        onClick={() => navigate('/forgot-password')}
-                        type="button"
-                      >
-                        Forgot password?
-                      </Button>
-                    </div>
-                    <FormControl>
-                      <div className="relative">
-                        <Input 
-                          type={showPassword ? "text" : "password"} 
-                          placeholder="••••••••" 
-                          {...field}
-                          className="pr-10"
-                          disabled={isSubmitting}
-                        />
-                        <button
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex justify-between items-center">
+                        <FormLabel>Password</FormLabel>
+                        <Button 
+                          variant="link" 
+                          className="p-0 h-auto text-sm text-eduBlue-500"
+                          onClick={() => navigate('/forgot-password')}
                           type="button"
-                          onClick={() => setShowPassword(!showPassword)}
-                          className="absolute right-3 top-3"
                         >
-                          {showPassword ? (
-                            <EyeOff className="h-4 w-4 text-gray-400" />
-                          ) : (
-                            <Eye className="h-4 w-4 text-gray-400" />
-                          )}
-                        </button>
+                          Forgot password?
+                        </Button>
                       </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                      <FormControl>
+                        <div className="relative">
+                          <Input 
+                            type={showPassword ? "text" : "password"} 
+                            placeholder="••••••••" 
+                            {...field}
+                            className="pr-10"
+                            disabled={isSubmitting}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setShowPassword(!showPassword)}
+                            className="absolute right-3 top-3"
+                          >
+                            {showPassword ? (
+                              <EyeOff className="h-4 w-4 text-gray-400" />
+                            ) : (
+                              <Eye className="h-4 w-4 text-gray-400" />
+                            )}
+                          </button>
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={isSubmitting}
-              >
-                {isSubmitting ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Signing in...
-                  </>
-                ) : (
-                  'Sign In'
-                )}
-              </Button>
-            </form>
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                      Signing in...
+                    </>
+                  ) : (
+                    'Sign In'
+                  )}
+                </Button>
+              </form>
+            )}
           </Form>
 
+          {!challenge && !recoveryCodes && providers.length > 0 && (
+            <div className="mt-6 space-y-3">
+              <div className="relative text-center">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-gray-200 dark:border-gray-700" />
+                </div>
+                <span className="relative bg-white dark:bg-gray-800 px-2 text-sm text-gray-500">or</span>
+              </div>
+              {providers.map(provider => (
+                <Button
+                  key={provider.id}
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  disabled={isSubmitting}
+                  onClick={() => window.location.assign(oauthApi.getLoginUrl(provider.id))}
+                >
+                  Continue with {provider.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
           <div className="mt-6 text-center">
             <p className="text-gray-600 dark:text-gray-300">
               Don't have an account?{' '}
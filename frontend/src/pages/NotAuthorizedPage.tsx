@@ -22,6 +22,8 @@ const NotAuthorizedPage = () => {
     switch (user.role) {
       case 'admin':
         return '/admin/dashboard';
+      case 'instructor':
+        return '/admin/courses';
       case 'user':
         return '/student-dashboard';
       case 'visitor':
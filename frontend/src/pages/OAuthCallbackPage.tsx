@@ -0,0 +1,67 @@
+import React, { useEffect } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import Layout from '@/components/layout/Layout';
+import { Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContextUtils';
+import type { MfaChallenge } from '@/services/authApi';
+
+/**
+ * Where the API sends the browser after signing in with a provider. The
+ * session cookies are already set, so the user is loaded like on any page
+ * load; accounts with two-factor authentication continue on the login page.
+ */
+const OAuthCallbackPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, loading } = useAuth();
+
+  useEffect(() => {
+    // The two-factor challenge comes in the fragment so it never reaches a server
+    const fragment = new URLSearchParams(location.hash.replace(/^#/, ''));
+    const challengeToken = fragment.get('challengeToken');
+    if (challengeToken) {
+      const challenge: MfaChallenge = {
+        mfaRequired: true,
+        challengeToken,
+        enrollmentRequired: fragment.get('enrollmentRequired') === 'true',
+      };
+      navigate('/login', { replace: true, state: { challenge } });
+      return;
+    }
+
+    if (loading) {
+      return;
+    }
+    if (!user) {
+      navigate('/login?oauthError=' + encodeURIComponent('Sign-in failed. Please try again.'), { replace: true });
+      return;
+    }
+
+    if (new URLSearchParams(location.search).get('welcome')) {
+      toast({ title: 'Welcome!', description: 'Your account has been created.' });
+    }
+    if (user.role === 'admin') {
+      navigate('/admin/dashboard', { replace: true });
+    } else if (user.role === 'instructor') {
+      navigate('/admin/courses', { replace: true });
+    } else if (user.role === 'user' || user.role === 'student') {
+      navigate('/student-dashboard', { replace: true });
+    } else {
+      navigate('/visitor', { replace: true });
+    }
+  }, [user, loading, location, navigate]);
+
+  return (
+    <Layout>
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="flex flex-col items-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          <p className="text-gray-600">Signing you in...</p>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default OAuthCallbackPage;
@@ -4,6 +4,7 @@ import { useQuery } from '@tanstack/react-query';
 import Layout from '@/components/layout/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -19,11 +20,15 @@ import {
   Award,
   Calendar,
   MapPin,
-  GraduationCap
+  GraduationCap,
+  Tag,
+  X
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContextUtils';
 import { useEnrollment } from '@/hooks/useCourseProgress';
 import { useToast } from '@/hooks/use-toast';
+import { paymentApi, formatOrderAmount } from '@/services/paymentApi';
+import { couponApi, type PriceQuote } from '@/services/couponApi';
 import axios from 'axios';
 
 interface Course {
@@ -53,6 +58,10 @@ const ProgramDetailPage: React.FC = () => {
   const { toast } = useToast();
   const { enrollInCourse, loading: enrollLoading } = useEnrollment();
   const [activeTab, setActiveTab] = useState('overview');
+  const [checkoutLoading, setCheckoutLoading] = useState(false);
+  const [codeInput, setCodeInput] = useState('');
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
 
   // Fetch course by slug
   const { data: courseData, isLoading, error } = useQuery({
@@ -66,6 +75,38 @@ const ProgramDetailPage: React.FC = () => {
 
   const course = courseData as Course;
 
+  const handleApplyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeInput.trim()) {
+      return;
+    }
+    try {
+      setQuoteLoading(true);
+      const result = await couponApi.getQuote(course.id, codeInput.trim());
+      setQuote(result);
+      toast({
+        title: "Code Applied",
+        description: result.enrollmentSource === 'REFERRAL'
+          ? "Referral code applied. Your friend will be rewarded when you enroll."
+          : `You save ${formatOrderAmount(result.discountAmount, result.currency)}.`,
+      });
+    } catch (error) {
+      setQuote(null);
+      toast({
+        title: "Invalid Code",
+        description: error instanceof Error ? error.message : 'Failed to apply code',
+        variant: "destructive",
+      });
+    } finally {
+      setQuoteLoading(false);
+    }
+  };
+
+  const handleClearCode = () => {
+    setQuote(null);
+    setCodeInput('');
+  };
+
   const handleEnrollNow = async () => {
     if (!user) {
       toast({
@@ -77,8 +118,30 @@ const ProgramDetailPage: React.FC = () => {
       return;
     }
 
+    // Paid programmes go through checkout; the enrollment is created once payment succeeds
+    if (course.price > 0) {
+      try {
+        setCheckoutLoading(true);
+        const order = await paymentApi.createCheckout(course.id, quote?.code);
+        if (order.checkoutUrl && !order.checkoutUrl.startsWith(window.location.origin)) {
+          window.location.assign(order.checkoutUrl);
+        } else {
+          navigate(`/checkout/${order.id}`);
+        }
+      } catch (error) {
+        toast({
+          title: "Checkout Failed",
+          description: error instanceof Error ? error.message : 'Failed to start checkout',
+          variant: "destructive",
+        });
+      } finally {
+        setCheckoutLoading(false);
+      }
+      return;
+    }
+
     try {
-      await enrollInCourse(course.id);
+      await enrollInCourse(course.id, quote?.code);
       toast({
         title: "Enrollment Successful!",
         description: `You've been enrolled in ${course.title}`,
@@ -237,10 +300,14 @@ const ProgramDetailPage: React.FC = () => {
                 <div className="flex flex-col sm:flex-row gap-4">
                   <Button
                     onClick={handleEnrollNow}
-                    disabled={!course.isActive || enrollLoading}
+                    disabled={!course.isActive || enrollLoading || checkoutLoading}
                     className="bg-[#f57920] hover:bg-[#e06a1a] text-white px-8 py-3 text-lg"
                   >
-                    {enrollLoading ? "Enrolling..." : "Enroll Now"}
+                    {enrollLoading || checkoutLoading
+                      ? "Enrolling..."
+                      : course.price > 0
+                        ? `Enroll for ${formatOrderAmount(quote ? quote.finalPrice : course.price, course.currency || 'USD')}`
+                        : "Enroll Now"}
                   </Button>
                   <Button
                     variant="outline"
@@ -250,6 +317,54 @@ const ProgramDetailPage: React.FC = () => {
                     View Curriculum
                   </Button>
                 </div>
+
+                {/* Coupon / referral code */}
+                {user && course.isActive && (
+                  quote?.code ? (
+                    <div className="flex flex-wrap items-center gap-3 mt-4 text-sm">
+                      <Badge className="bg-white/20 text-white">
+                        <Tag className="h-3 w-3 mr-1" />
+                        {quote.code}
+                      </Badge>
+                      {quote.discountAmount > 0 ? (
+                        <span>
+                          <span className="line-through text-gray-300 mr-2">
+                            {formatOrderAmount(quote.originalPrice, quote.currency)}
+                          </span>
+                          {formatOrderAmount(quote.finalPrice, quote.currency)} ({quote.discountApplied}% off)
+                        </span>
+                      ) : (
+                        <span className="text-gray-200">Referral code applied</span>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="text-white hover:bg-white/10"
+                        onClick={handleClearCode}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <form onSubmit={handleApplyCode} className="flex gap-2 mt-4 max-w-sm">
+                      <Input
+                        value={codeInput}
+                        onChange={(e) => setCodeInput(e.target.value)}
+                        placeholder="Coupon or referral code"
+                        className="bg-white/10 border-white/30 text-white placeholder:text-gray-300"
+                      />
+                      <Button
+                        type="submit"
+                        variant="outline"
+                        className="border-white/30 text-white hover:bg-white/10"
+                        disabled={!codeInput.trim() || quoteLoading}
+                      >
+                        Apply
+                      </Button>
+                    </form>
+                  )
+                )}
               </div>
             </div>
           </div>
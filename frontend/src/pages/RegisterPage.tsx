@@ -102,7 +102,6 @@ const RegisterPage = () => {
         password: data.password,
         firstName: data.firstName,
         lastName: data.lastName,
-        role: 'student', // Default to student role
       });
       
       // Registration successful - show success message and start countdown
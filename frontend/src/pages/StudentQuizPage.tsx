@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Clock, CheckCircle, XCircle, AlertTriangle, Play, RotateCcw, Eye } from 'lucide-react';
+import { Clock, CheckCircle, XCircle, AlertTriangle, Play, RotateCcw, Eye, ArrowUp, ArrowDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -9,22 +9,33 @@ import { Progress } from '@/components/ui/progress';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import api from '@/services/api';
+import type { CorrectAnswer, QuestionType } from '@/services/questionBankApi';
 import Layout from '@/components/layout/Layout';
 
-type AnswerType = string | boolean | number;
+// Matching answers map each left item to the chosen right item
+type AnswerType = string | boolean | number | string[] | Record<string, string>;
 
 interface QuizQuestion {
   id: string;
   question: string;
-  type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER';
+  type: QuestionType;
   options?: string[];
+  matchLeft?: string[];
+  blankCount?: number;
   points: number;
-  correctAnswer?: AnswerType;
+  correctAnswer?: CorrectAnswer;
+  acceptedAnswers?: string[];
+  tolerance?: number;
+  explanation?: string;
   studentAnswer?: AnswerType;
   isCorrect?: boolean;
   pointsAwarded?: number;
+  needsReview?: boolean;
 }
 
 interface Quiz {
@@ -38,20 +49,29 @@ interface Quiz {
     allowMultipleAttempts: boolean;
     showCorrectAnswers: boolean;
     showFeedback: boolean;
+    maxAttempts: number | null;
+    retakeCooldownMinutes: number;
   };
   totalQuestions: number;
   maxScore: number;
   previousAttempts: number;
   bestScore: number | null;
   canAttempt: boolean;
+  attemptsRemaining: number | null;
+  nextAttemptAt?: string;
+  cannotAttemptReason?: string;
+  inProgressAttemptId?: string;
 }
 
 interface QuizAttempt {
   attemptId: string;
   attemptNumber: number;
   startedAt: string;
+  expiresAt?: string;
   timeLimit?: number;
   maxScore: number;
+  questions: QuizQuestion[];
+  resumed?: boolean;
 }
 
 interface QuizResults {
@@ -60,14 +80,51 @@ interface QuizResults {
   maxScore: number;
   percentage: number;
   isPassed: boolean;
+  status: 'COMPLETED' | 'PENDING_REVIEW';
+  pendingReview: boolean;
   gradeLetter: string;
   timeSpent: number;
   completedAt: string;
   questions: QuizQuestion[];
   feedback: string;
   canRetake: boolean;
+  attemptsRemaining: number | null;
+  nextAttemptAt?: string;
 }
 
+// Prefer the server's explanation (attempt limits, cooldowns) over the generic axios message
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+  return message || (error instanceof Error ? error.message : fallback);
+};
+
+// Render any answer shape as readable text for the results review
+const formatAnswer = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => {
+      if (item && typeof item === 'object') {
+        if ('left' in item) {
+          return `${item.left} → ${item.right}`;
+        }
+        if ('accepted' in item) {
+          return (item.accepted as string[])[0] || (item.pattern ? `/${item.pattern}/` : '');
+        }
+      }
+      return String(item);
+    }).join(', ');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, string>).map(([left, right]) => `${left} → ${right}`).join(', ');
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  return String(value);
+};
+
 const StudentQuizPage = () => {
   const { lessonId } = useParams<{ lessonId: string }>();
   const navigate = useNavigate();
@@ -85,6 +142,15 @@ const StudentQuizPage = () => {
   
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<Date | null>(null);
+  // Seconds spent on each question, for per-question timing in item analysis
+  const questionTimesRef = useRef<Record<string, number>>({});
+  const questionShownAtRef = useRef<number>(Date.now());
+
+  const recordQuestionTime = useCallback((questionId: string) => {
+    const now = Date.now();
+    questionTimesRef.current[questionId] = (questionTimesRef.current[questionId] || 0) + (now - questionShownAtRef.current) / 1000;
+    questionShownAtRef.current = now;
+  }, []);
 
   const fetchQuiz = useCallback(async () => {
     try {
@@ -110,11 +176,16 @@ const StudentQuizPage = () => {
     
     try {
       setSubmitting(true);
+      const shownQuestion = currentAttempt.questions[currentQuestionIndex];
+      if (shownQuestion) {
+        recordQuestionTime(shownQuestion.id);
+      }
       
-      const submissionAnswers = quiz.questions.map(question => ({
+      // Ordering questions the student left untouched are submitted in the order shown
+      const submissionAnswers = currentAttempt.questions.map(question => ({
         questionId: question.id,
-        answer: answers[question.id] || '',
-        timeSpent: 0
+        answer: answers[question.id] ?? (question.type === 'ORDERING' ? question.options || [] : ''),
+        timeSpent: Math.round(questionTimesRef.current[question.id] || 0)
       }));
 
       const response = await api.post(`/quiz/attempt/${currentAttempt.attemptId}/submit`, {
@@ -132,21 +203,23 @@ const StudentQuizPage = () => {
         
         toast({
           title: 'Quiz Submitted',
-          description: `You scored ${response.data.data.percentage}%!`,
-          variant: response.data.data.isPassed ? 'default' : 'destructive'
+          description: response.data.data.pendingReview
+            ? 'Some answers will be graded by your instructor.'
+            : `You scored ${response.data.data.percentage}%!`,
+          variant: response.data.data.isPassed || response.data.data.pendingReview ? 'default' : 'destructive'
         });
       }
     } catch (error: unknown) {
       console.error('Error submitting quiz:', error);
       toast({
         title: 'Error',
-        description: error instanceof Error ? error.message : 'Failed to submit quiz',
+        description: getErrorMessage(error, 'Failed to submit quiz'),
         variant: 'destructive'
       });
     } finally {
       setSubmitting(false);
     }
-  }, [currentAttempt, quiz, answers, toast]);
+  }, [currentAttempt, quiz, answers, currentQuestionIndex, recordQuestionTime, toast]);
 
   const handleTimeUp = useCallback(() => {
     toast({
@@ -169,6 +242,14 @@ const StudentQuizPage = () => {
     };
   }, [lessonId, fetchQuiz]);
 
+  // Time on a question runs from when it is shown until the student moves away
+  useEffect(() => {
+    const question = currentAttempt?.questions[currentQuestionIndex];
+    if (!question) return;
+    questionShownAtRef.current = Date.now();
+    return () => recordQuestionTime(question.id);
+  }, [currentAttempt, currentQuestionIndex, recordQuestionTime]);
+
   useEffect(() => {
     if (currentAttempt && timeRemaining !== null && timeRemaining > 0) {
       timerRef.current = setInterval(() => {
@@ -199,15 +280,21 @@ const StudentQuizPage = () => {
         setQuizState('taking');
         setCurrentQuestionIndex(0);
         setAnswers({});
-        startTimeRef.current = new Date();
+        questionTimesRef.current = {};
+        startTimeRef.current = new Date(attempt.startedAt);
         
-        if (attempt.timeLimit) {
-          setTimeRemaining(attempt.timeLimit * 60);
+        // The server sets the deadline, so a resumed attempt keeps counting down from where it was
+        if (attempt.expiresAt) {
+          setTimeRemaining(Math.max(0, Math.floor((new Date(attempt.expiresAt).getTime() - Date.now()) / 1000)));
+        } else {
+          setTimeRemaining(null);
         }
         
         toast({
-          title: 'Quiz Started',
-          description: 'Good luck! Take your time and read each question carefully.',
+          title: attempt.resumed ? 'Quiz Resumed' : 'Quiz Started',
+          description: attempt.resumed
+            ? 'Your earlier attempt is still open. Previous answers were not saved.'
+            : 'Good luck! Take your time and read each question carefully.',
           variant: 'default'
         });
       }
@@ -215,9 +302,10 @@ const StudentQuizPage = () => {
       console.error('Error starting quiz:', error);
       toast({
         title: 'Error',
-        description: error instanceof Error ? error.message : 'Failed to start quiz',
+        description: getErrorMessage(error, 'Failed to start quiz'),
         variant: 'destructive'
       });
+      fetchQuiz();
     } finally {
       setLoading(false);
     }
@@ -236,14 +324,24 @@ const StudentQuizPage = () => {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
-  const renderQuestion = (question: QuizQuestion, index: number) => {
-    const answer = answers[question.id] || '';
+  const moveOrderingItem = (question: QuizQuestion, itemIndex: number, offset: number) => {
+    const order = [...((answers[question.id] as string[] | undefined) || question.options || [])];
+    const targetIndex = itemIndex + offset;
+    if (targetIndex < 0 || targetIndex >= order.length) {
+      return;
+    }
+    [order[itemIndex], order[targetIndex]] = [order[targetIndex], order[itemIndex]];
+    handleAnswerChange(question.id, order);
+  };
+
+  const renderQuestion = (question: QuizQuestion, index: number, total: number) => {
+    const answer = answers[question.id] ?? '';
 
     return (
       <Card key={question.id} className="w-full">
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>Question {index + 1} of {quiz?.totalQuestions}</span>
+            <span>Question {index + 1} of {total}</span>
             <Badge variant="outline">{question.points} point{question.points !== 1 ? 's' : ''}</Badge>
           </CardTitle>
           <CardDescription>{question.question}</CardDescription>
@@ -287,6 +385,127 @@ const StudentQuizPage = () => {
               className="w-full"
             />
           )}
+
+          {question.type === 'ESSAY' && (
+            <Textarea
+              value={String(answer)}
+              onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+              placeholder="Write your answer here..."
+              rows={8}
+              className="w-full"
+            />
+          )}
+
+          {question.type === 'MULTI_SELECT' && question.options && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600">Select all that apply.</p>
+              {question.options.map((option, optionIndex) => {
+                const selected = Array.isArray(answer) ? answer : [];
+                return (
+                  <div key={optionIndex} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`${question.id}-${optionIndex}`}
+                      checked={selected.includes(option)}
+                      onCheckedChange={(checked) => handleAnswerChange(
+                        question.id,
+                        checked === true ? [...selected, option] : selected.filter(item => item !== option)
+                      )}
+                    />
+                    <Label htmlFor={`${question.id}-${optionIndex}`}>{option}</Label>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {question.type === 'NUMERIC' && (
+            <Input
+              type="number"
+              step="any"
+              value={String(answer)}
+              onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+              placeholder="Enter a number"
+              className="max-w-xs"
+            />
+          )}
+
+          {question.type === 'ORDERING' && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600">Put the items in the correct order.</p>
+              {((Array.isArray(answer) ? answer : question.options) || []).map((item, itemIndex, order) => (
+                <div key={item} className="flex items-center justify-between border rounded-md px-3 py-2">
+                  <span>{itemIndex + 1}. {item}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveOrderingItem(question, itemIndex, -1)}
+                      disabled={itemIndex === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveOrderingItem(question, itemIndex, 1)}
+                      disabled={itemIndex === order.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {question.type === 'MATCHING' && question.matchLeft && (
+            <div className="space-y-3">
+              {question.matchLeft.map((left) => {
+                const matches = answer && typeof answer === 'object' && !Array.isArray(answer) ? answer : {};
+                return (
+                  <div key={left} className="grid grid-cols-2 gap-4 items-center">
+                    <span>{left}</span>
+                    <Select
+                      value={matches[left] || ''}
+                      onValueChange={(value) => handleAnswerChange(question.id, { ...matches, [left]: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a match" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(question.options || []).map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {question.type === 'FILL_IN_BLANK' && (
+            <div className="space-y-2">
+              {Array.from({ length: question.blankCount || 1 }, (_, blankIndex) => {
+                const blanks = Array.isArray(answer) ? answer : [];
+                return (
+                  <div key={blankIndex} className="flex items-center gap-2">
+                    <Label className="w-20">Blank {blankIndex + 1}</Label>
+                    <Input
+                      value={blanks[blankIndex] || ''}
+                      onChange={(e) => {
+                        const updated = Array.from({ length: question.blankCount || 1 }, (_, i) => blanks[i] || '');
+                        updated[blankIndex] = e.target.value;
+                        handleAnswerChange(question.id, updated);
+                      }}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </CardContent>
       </Card>
     );
@@ -332,14 +551,26 @@ const StudentQuizPage = () => {
               <AlertDescription>
                 You have attempted this quiz {quiz.previousAttempts} time{quiz.previousAttempts !== 1 ? 's' : ''}.
                 {quiz.bestScore !== null && ` Your best score is ${quiz.bestScore}%.`}
+                {quiz.attemptsRemaining !== null && ` ${quiz.attemptsRemaining} attempt${quiz.attemptsRemaining !== 1 ? 's' : ''} remaining.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {quiz && !quiz.canAttempt && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {quiz.nextAttemptAt
+                  ? `You can retake this quiz after ${new Date(quiz.nextAttemptAt).toLocaleString()}.`
+                  : quiz.cannotAttemptReason || 'You cannot start another attempt.'}
               </AlertDescription>
             </Alert>
           )}
 
           <div className="flex gap-4 justify-center">
-            <Button onClick={startQuiz} size="lg" className="flex items-center gap-2">
+            <Button onClick={startQuiz} size="lg" className="flex items-center gap-2" disabled={!quiz?.canAttempt}>
               <Play className="h-4 w-4" />
-              Start Quiz
+              {quiz?.inProgressAttemptId ? 'Resume Quiz' : 'Start Quiz'}
             </Button>
             <Button variant="outline" onClick={() => navigate(-1)}>
               Back to Lesson
@@ -353,8 +584,11 @@ const StudentQuizPage = () => {
   const renderQuizTaking = () => {
     if (!quiz || !currentAttempt) return null;
     
-    const currentQuestion = quiz.questions[currentQuestionIndex];
-    const progress = ((currentQuestionIndex + 1) / quiz.totalQuestions) * 100;
+    // Each attempt has its own question set, including questions drawn from the question bank
+    const questions = currentAttempt.questions;
+    const totalQuestions = questions.length;
+    const currentQuestion = questions[currentQuestionIndex];
+    const progress = ((currentQuestionIndex + 1) / totalQuestions) * 100;
 
     return (
       <div className="max-w-4xl mx-auto p-6 space-y-6">
@@ -373,12 +607,12 @@ const StudentQuizPage = () => {
             </div>
             <Progress value={progress} className="w-full" />
             <div className="mt-2 text-sm text-gray-600">
-              Question {currentQuestionIndex + 1} of {quiz.totalQuestions}
+              Question {currentQuestionIndex + 1} of {totalQuestions}
             </div>
           </CardContent>
         </Card>
 
-        {renderQuestion(currentQuestion, currentQuestionIndex)}
+        {renderQuestion(currentQuestion, currentQuestionIndex, totalQuestions)}
 
         <Card>
           <CardContent className="pt-6">
@@ -392,10 +626,10 @@ const StudentQuizPage = () => {
               </Button>
               
               <div className="text-sm text-gray-600">
-                Answered: {Object.keys(answers).length} / {quiz.totalQuestions}
+                Answered: {Object.keys(answers).length} / {totalQuestions}
               </div>
 
-              {currentQuestionIndex < quiz.totalQuestions - 1 ? (
+              {currentQuestionIndex < totalQuestions - 1 ? (
                 <Button
                   onClick={() => setCurrentQuestionIndex(currentQuestionIndex + 1)}
                 >
@@ -425,7 +659,9 @@ const StudentQuizPage = () => {
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              {results.isPassed ? (
+              {results.pendingReview ? (
+                <Clock className="h-6 w-6 text-orange-600" />
+              ) : results.isPassed ? (
                 <CheckCircle className="h-6 w-6 text-green-600" />
               ) : (
                 <XCircle className="h-6 w-6 text-red-600" />
@@ -456,6 +692,8 @@ const StudentQuizPage = () => {
             <Alert>
               <AlertDescription>
                 {results.feedback}
+                {!results.isPassed && !results.pendingReview && results.nextAttemptAt && ` You can retake it after ${new Date(results.nextAttemptAt).toLocaleString()}.`}
+                {!results.isPassed && !results.pendingReview && results.attemptsRemaining === 0 && ' You have no attempts left.'}
               </AlertDescription>
             </Alert>
 
@@ -490,25 +728,33 @@ const StudentQuizPage = () => {
                 <div className="flex items-center justify-between">
                   <h4 className="font-medium">Question {index + 1}</h4>
                   <div className="flex items-center gap-2">
-                    {question.isCorrect ? (
+                    {question.needsReview ? (
+                      <Clock className="h-4 w-4 text-orange-600" />
+                    ) : question.isCorrect ? (
                       <CheckCircle className="h-4 w-4 text-green-600" />
                     ) : (
                       <XCircle className="h-4 w-4 text-red-600" />
                     )}
                     <span className="text-sm">
-                      {question.pointsAwarded}/{question.points} points
+                      {question.needsReview ? 'Awaiting grading' : `${question.pointsAwarded}/${question.points} points`}
                     </span>
                   </div>
                 </div>
                 <p className="text-gray-700">{question.question}</p>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                   <div>
-                    <strong>Your Answer:</strong> {String(question.studentAnswer)}
-                  </div>
-                  <div>
-                    <strong>Correct Answer:</strong> {String(question.correctAnswer)}
+                    <strong>Your Answer:</strong> {formatAnswer(question.studentAnswer)}
                   </div>
+                  {question.type !== 'ESSAY' && (
+                    <div>
+                      <strong>Correct Answer:</strong> {formatAnswer(question.correctAnswer)}
+                      {question.type === 'NUMERIC' && question.tolerance ? ` (± ${question.tolerance})` : ''}
+                    </div>
+                  )}
                 </div>
+                {question.explanation && (
+                  <p className="text-sm text-gray-600">{question.explanation}</p>
+                )}
               </div>
             ))}
           </CardContent>
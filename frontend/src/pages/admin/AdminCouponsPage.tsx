@@ -0,0 +1,520 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/layout/Layout';
+import AdminNavigation from '@/components/admin/AdminNavigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Ticket,
+  Search,
+  Loader2,
+  AlertCircle,
+  Plus,
+  Edit,
+  Trash2,
+  Receipt
+} from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { courseContentApi } from '@/services/courseContentApi';
+import { formatOrderAmount } from '@/services/paymentApi';
+import {
+  adminCouponApi,
+  type Coupon,
+  type CouponDiscountType
+} from '@/services/couponApi';
+
+interface CouponForm {
+  id?: string;
+  code: string;
+  description: string;
+  discountType: CouponDiscountType;
+  discountValue: string;
+  currency: string;
+  programmeIds: string[];
+  validFrom: string;
+  expiresAt: string;
+  maxRedemptions: string;
+  maxRedemptionsPerStudent: string;
+  isActive: boolean;
+}
+
+const EMPTY_COUPON: CouponForm = {
+  code: '',
+  description: '',
+  discountType: 'PERCENT',
+  discountValue: '10',
+  currency: 'USD',
+  programmeIds: [],
+  validFrom: '',
+  expiresAt: '',
+  maxRedemptions: '',
+  maxRedemptionsPerStudent: '1',
+  isActive: true
+};
+
+// Dates are edited as yyyy-mm-dd and apply from the start of that day
+const toDateInput = (value?: string) => (value ? value.slice(0, 10) : '');
+
+const toForm = (coupon: Coupon): CouponForm => ({
+  id: coupon.id,
+  code: coupon.code,
+  description: coupon.description || '',
+  discountType: coupon.discountType,
+  discountValue: String(coupon.discountValue),
+  currency: coupon.currency || 'USD',
+  programmeIds: coupon.programmeIds.map(programme => programme._id),
+  validFrom: toDateInput(coupon.validFrom),
+  expiresAt: toDateInput(coupon.expiresAt),
+  maxRedemptions: coupon.maxRedemptions ? String(coupon.maxRedemptions) : '',
+  maxRedemptionsPerStudent: String(coupon.maxRedemptionsPerStudent),
+  isActive: coupon.isActive
+});
+
+const formatDate = (dateString?: string) => {
+  return dateString
+    ? new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : '—';
+};
+
+const AdminCouponsPage = () => {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('ALL');
+  const [editingCoupon, setEditingCoupon] = useState<CouponForm | null>(null);
+  const [redemptionsCouponId, setRedemptionsCouponId] = useState<string | null>(null);
+
+  const { data: coupons = [], isLoading, error } = useQuery({
+    queryKey: ['admin-coupons', search, statusFilter],
+    queryFn: () => adminCouponApi.getCoupons({
+      search: search || undefined,
+      isActive: statusFilter === 'ALL' ? undefined : statusFilter === 'ACTIVE'
+    }),
+  });
+
+  const { data: programmes = [] } = useQuery({
+    queryKey: ['admin-coupon-programmes'],
+    queryFn: async () => (await courseContentApi.getAllCourses()).data,
+  });
+
+  const { data: redemptionReport, isLoading: redemptionsLoading } = useQuery({
+    queryKey: ['admin-coupon-redemptions', redemptionsCouponId],
+    queryFn: () => adminCouponApi.getRedemptions(redemptionsCouponId!),
+    enabled: !!redemptionsCouponId,
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveCouponMutation = useMutation({
+    mutationFn: (form: CouponForm) => {
+      const input = {
+        description: form.description,
+        discountType: form.discountType,
+        discountValue: parseFloat(form.discountValue) || 0,
+        currency: form.discountType === 'FIXED' ? form.currency.toUpperCase() : null,
+        programmeIds: form.programmeIds,
+        validFrom: form.validFrom || null,
+        expiresAt: form.expiresAt || null,
+        maxRedemptions: form.maxRedemptions ? parseInt(form.maxRedemptions) : null,
+        maxRedemptionsPerStudent: parseInt(form.maxRedemptionsPerStudent) || 1,
+        isActive: form.isActive
+      };
+      return form.id
+        ? adminCouponApi.updateCoupon(form.id, input)
+        : adminCouponApi.createCoupon({ ...input, code: form.code });
+    },
+    onSuccess: (coupon) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-coupons'] });
+      setEditingCoupon(null);
+      toast({ title: 'Coupon saved', description: `${coupon.code} is ready to use.` });
+    },
+    onError: onMutationError,
+  });
+
+  const deleteCouponMutation = useMutation({
+    mutationFn: (couponId: string) => adminCouponApi.deleteCoupon(couponId),
+    onSuccess: (message) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-coupons'] });
+      toast({ title: 'Coupon removed', description: message });
+    },
+    onError: onMutationError,
+  });
+
+  const formatDiscount = (coupon: Coupon) => {
+    return coupon.discountType === 'PERCENT'
+      ? `${coupon.discountValue}% off`
+      : `${formatOrderAmount(coupon.discountValue, coupon.currency || 'USD')} off`;
+  };
+
+  const getStatusBadge = (coupon: Coupon) => {
+    if (!coupon.isActive) {
+      return <Badge className="bg-gray-100 text-gray-800">Inactive</Badge>;
+    }
+    if (coupon.expiresAt && new Date(coupon.expiresAt) < new Date()) {
+      return <Badge className="bg-red-100 text-red-800">Expired</Badge>;
+    }
+    if (coupon.maxRedemptions && coupon.redemptionCount >= coupon.maxRedemptions) {
+      return <Badge className="bg-yellow-100 text-yellow-800">Used up</Badge>;
+    }
+    return <Badge className="bg-green-100 text-green-800">Active</Badge>;
+  };
+
+  const toggleProgramme = (programmeId: string, checked: boolean) => {
+    if (!editingCoupon) {
+      return;
+    }
+    setEditingCoupon({
+      ...editingCoupon,
+      programmeIds: checked
+        ? [...editingCoupon.programmeIds, programmeId]
+        : editingCoupon.programmeIds.filter(id => id !== programmeId)
+    });
+  };
+
+  const handleSaveCoupon = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingCoupon) {
+      saveCouponMutation.mutate(editingCoupon);
+    }
+  };
+
+  const handleDeleteCoupon = (coupon: Coupon) => {
+    if (window.confirm(`Delete coupon ${coupon.code}? Coupons that have been used are deactivated instead.`)) {
+      deleteCouponMutation.mutate(coupon.id);
+    }
+  };
+
+  return (
+    <Layout>
+      <AdminNavigation />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Coupons</h1>
+            <p className="text-gray-600 mt-2">
+              Create discount codes for programme enrollments
+            </p>
+          </div>
+          <Button onClick={() => setEditingCoupon({ ...EMPTY_COUPON })}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Coupon
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Discount Codes</CardTitle>
+            <CardDescription>Students enter these codes on a programme page before enrolling</CardDescription>
+            <div className="flex flex-col sm:flex-row gap-2 pt-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search code or description..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All coupons</SelectItem>
+                  <SelectItem value="ACTIVE">Active</SelectItem>
+                  <SelectItem value="INACTIVE">Inactive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+              </div>
+            ) : error ? (
+              <div className="text-center py-8">
+                <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+                <p className="text-gray-600">{(error as Error).message}</p>
+              </div>
+            ) : coupons.length === 0 ? (
+              <div className="text-center py-8 text-gray-600">
+                <Ticket className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                No coupons yet.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Discount</TableHead>
+                    <TableHead>Programmes</TableHead>
+                    <TableHead>Valid</TableHead>
+                    <TableHead>Used</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {coupons.map(coupon => (
+                    <TableRow key={coupon.id}>
+                      <TableCell>
+                        <p className="font-mono font-medium">{coupon.code}</p>
+                        {coupon.description && <p className="text-xs text-gray-500">{coupon.description}</p>}
+                      </TableCell>
+                      <TableCell>{formatDiscount(coupon)}</TableCell>
+                      <TableCell className="text-sm">
+                        {coupon.programmeIds.length === 0
+                          ? 'All programmes'
+                          : coupon.programmeIds.map(programme => programme.title).join(', ')}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(coupon.validFrom)} – {formatDate(coupon.expiresAt)}
+                      </TableCell>
+                      <TableCell>
+                        {coupon.redemptionCount}{coupon.maxRedemptions ? ` / ${coupon.maxRedemptions}` : ''}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(coupon)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setRedemptionsCouponId(coupon.id)}>
+                            <Receipt className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => setEditingCoupon(toForm(coupon))}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleDeleteCoupon(coupon)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Coupon editor */}
+        <Dialog open={!!editingCoupon} onOpenChange={(open) => !open && setEditingCoupon(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingCoupon?.id ? `Edit ${editingCoupon.code}` : 'New Coupon'}</DialogTitle>
+            </DialogHeader>
+            {editingCoupon && (
+              <form onSubmit={handleSaveCoupon} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="couponCode">Code</Label>
+                    <Input
+                      id="couponCode"
+                      value={editingCoupon.code}
+                      onChange={(e) => setEditingCoupon({ ...editingCoupon, code: e.target.value.toUpperCase() })}
+                      placeholder="SPRING25"
+                      disabled={!!editingCoupon.id}
+                      required
+                    />
+                  </div>
+                  <div className="flex items-end justify-between">
+                    <Label htmlFor="couponActive">Active</Label>
+                    <Switch
+                      id="couponActive"
+                      checked={editingCoupon.isActive}
+                      onCheckedChange={(isActive) => setEditingCoupon({ ...editingCoupon, isActive })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="couponDescription">Description</Label>
+                  <Textarea
+                    id="couponDescription"
+                    value={editingCoupon.description}
+                    onChange={(e) => setEditingCoupon({ ...editingCoupon, description: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label>Discount Type</Label>
+                    <Select
+                      value={editingCoupon.discountType}
+                      onValueChange={(discountType) => setEditingCoupon({ ...editingCoupon, discountType: discountType as CouponDiscountType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="PERCENT">Percent</SelectItem>
+                        <SelectItem value="FIXED">Fixed amount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="couponValue">{editingCoupon.discountType === 'PERCENT' ? 'Percent Off' : 'Amount Off'}</Label>
+                    <Input
+                      id="couponValue"
+                      type="number"
+                      min="0"
+                      max={editingCoupon.discountType === 'PERCENT' ? '100' : undefined}
+                      step="0.01"
+                      value={editingCoupon.discountValue}
+                      onChange={(e) => setEditingCoupon({ ...editingCoupon, discountValue: e.target.value })}
+                      required
+                    />
+                  </div>
+                  {editingCoupon.discountType === 'FIXED' && (
+                    <div>
+                      <Label htmlFor="couponCurrency">Currency</Label>
+                      <Input
+                        id="couponCurrency"
+                        value={editingCoupon.currency}
+                        maxLength={3}
+                        onChange={(e) => setEditingCoupon({ ...editingCoupon, currency: e.target.value.toUpperCase() })}
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="couponValidFrom">Valid From</Label>
+                    <Input
+                      id="couponValidFrom"
+                      type="date"
+                      value={editingCoupon.validFrom}
+                      onChange={(e) => setEditingCoupon({ ...editingCoupon, validFrom: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="couponExpiresAt">Expires</Label>
+                    <Input
+                      id="couponExpiresAt"
+                      type="date"
+                      value={editingCoupon.expiresAt}
+                      onChange={(e) => setEditingCoupon({ ...editingCoupon, expiresAt: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="couponMaxRedemptions">Total Uses (blank for unlimited)</Label>
+                    <Input
+                      id="couponMaxRedemptions"
+                      type="number"
+                      min="1"
+                      value={editingCoupon.maxRedemptions}
+                      onChange={(e) => setEditingCoupon({ ...editingCoupon, maxRedemptions: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="couponMaxPerStudent">Uses per Student</Label>
+                    <Input
+                      id="couponMaxPerStudent"
+                      type="number"
+                      min="1"
+                      value={editingCoupon.maxRedemptionsPerStudent}
+                      onChange={(e) => setEditingCoupon({ ...editingCoupon, maxRedemptionsPerStudent: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label>Programmes</Label>
+                  <p className="text-xs text-gray-500 mb-2">Leave all unchecked to apply the coupon to every programme.</p>
+                  <div className="max-h-40 overflow-y-auto border rounded-md p-3 space-y-2">
+                    {programmes.map(programme => (
+                      <label key={programme.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={editingCoupon.programmeIds.includes(programme.id)}
+                          onCheckedChange={(checked) => toggleProgramme(programme.id, checked === true)}
+                        />
+                        {programme.title}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setEditingCoupon(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveCouponMutation.isPending}>
+                    {saveCouponMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save
+                  </Button>
+                </DialogFooter>
+              </form>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Redemptions */}
+        <Dialog open={!!redemptionsCouponId} onOpenChange={(open) => !open && setRedemptionsCouponId(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Redemptions{redemptionReport ? ` of ${redemptionReport.coupon.code}` : ''}</DialogTitle>
+            </DialogHeader>
+            {redemptionsLoading || !redemptionReport ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+              </div>
+            ) : redemptionReport.redemptions.length === 0 ? (
+              <p className="text-center text-gray-600 py-8">This coupon has not been used yet.</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                  {redemptionReport.totals.map(total => (
+                    <span key={total.currency}>
+                      {total.count} use(s) · {formatOrderAmount(total.discountAmount, total.currency)} discounted · {formatOrderAmount(total.revenue, total.currency)} charged
+                    </span>
+                  ))}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Programme</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Discount</TableHead>
+                      <TableHead>Date</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {redemptionReport.redemptions.map(redemption => (
+                      <TableRow key={redemption.id}>
+                        <TableCell>
+                          {typeof redemption.studentId === 'string'
+                            ? redemption.studentId
+                            : [redemption.studentId.firstName, redemption.studentId.lastName].filter(Boolean).join(' ') || redemption.studentId.email}
+                        </TableCell>
+                        <TableCell>
+                          {typeof redemption.programmeId === 'string' ? redemption.programmeId : redemption.programmeId.title}
+                        </TableCell>
+                        <TableCell>{formatOrderAmount(redemption.finalPrice, redemption.currency)}</TableCell>
+                        <TableCell>-{formatOrderAmount(redemption.discountAmount, redemption.currency)}</TableCell>
+                        <TableCell>{formatDate(redemption.createdAt)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminCouponsPage;
@@ -5,6 +5,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import Layout from '@/components/layout/Layout';
 import AdminNavigation from '@/components/admin/AdminNavigation';
+import InstructorPicker from '@/components/admin/InstructorPicker';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -39,6 +40,7 @@ const courseSchema = z.object({
   description: z.string().min(1, 'Description is required').max(1000, 'Description must be less than 1000 characters'),
   category: z.enum(['AI_CERTIFICATE', 'DATA_CERTIFICATION', 'PROFESSIONAL_SKILLS', 'TECHNICAL_SKILLS']),
   instructor: z.string().min(1, 'Instructor is required').max(100, 'Instructor must be less than 100 characters'),
+  instructorIds: z.array(z.string()).default([]),
   duration: z.string().optional(),
   timeframe: z.string().optional(),
   level: z.enum(['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'ALL_LEVELS']).default('BEGINNER'),
@@ -63,6 +65,7 @@ interface Course {
   description: string;
   category: string;
   instructor: string;
+  instructorIds?: string[];
   duration: string;
   timeframe: string;
   level: string;
@@ -126,6 +129,7 @@ const AdminCourseManagement = () => {
     handleSubmit,
     reset,
     setValue,
+    watch,
     formState: { errors, isSubmitting }
   } = useForm<CourseFormData>({
     resolver: zodResolver(courseSchema),
@@ -133,6 +137,7 @@ const AdminCourseManagement = () => {
       level: 'BEGINNER',
       price: 0,
       currency: 'USD',
+      instructorIds: [],
       skills: [],
       prerequisites: [],
       totalModules: 0,
@@ -386,6 +391,7 @@ const AdminCourseManagement = () => {
     setValue('description', course.description);
     setValue('category', course.category as any);
     setValue('instructor', course.instructor);
+    setValue('instructorIds', course.instructorIds || []);
     setValue('duration', course.duration);
     setValue('timeframe', course.timeframe);
     setValue('level', course.level as any);
@@ -481,7 +487,10 @@ const AdminCourseManagement = () => {
     return colors[level as keyof typeof colors] || 'bg-gray-100 text-gray-800';
   };
 
-  if (!user || user.role !== 'admin') {
+  // Instructors see their assigned courses but only admins change the catalogue
+  const isAdmin = user?.role === 'admin';
+
+  if (!user || (user.role !== 'admin' && user.role !== 'instructor')) {
     return (
       <Layout>
         <div className="flex items-center justify-center min-h-screen">
@@ -508,12 +517,14 @@ const AdminCourseManagement = () => {
             <p className="text-gray-600 mt-2">Manage all courses and their content</p>
           </div>
           <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Create Course
-              </Button>
-            </DialogTrigger>
+            {isAdmin && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Course
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create New Course</DialogTitle>
@@ -547,6 +558,12 @@ const AdminCourseManagement = () => {
                     )}
                   </div>
 
+                  <InstructorPicker
+                    id="instructorIds"
+                    value={watch('instructorIds') || []}
+                    onChange={instructorIds => setValue('instructorIds', instructorIds)}
+                  />
+
                   <div>
                     <Label htmlFor="category">Category *</Label>
                     <Select onValueChange={(value) => setValue('category', value as any)}>
@@ -856,28 +873,32 @@ const AdminCourseManagement = () => {
                             >
                               <Eye className="h-4 w-4" />
                             </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEditCourse(course)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleToggleStatus(course.id)}
-                            >
-                              {course.isActive ? 'Deactivate' : 'Activate'}
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDeleteCourse(course.id)}
-                              className="text-red-600 hover:text-red-700"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                            {isAdmin && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleEditCourse(course)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleToggleStatus(course.id)}
+                                >
+                                  {course.isActive ? 'Deactivate' : 'Activate'}
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDeleteCourse(course.id)}
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -1050,6 +1071,12 @@ const AdminCourseManagement = () => {
                   )}
                 </div>
 
+                <InstructorPicker
+                  id="edit-instructorIds"
+                  value={watch('instructorIds') || []}
+                  onChange={instructorIds => setValue('instructorIds', instructorIds)}
+                />
+
                 <div>
                   <Label htmlFor="edit-category">Category *</Label>
                   <Select onValueChange={(value) => setValue('category', value as any)}>
@@ -31,11 +31,16 @@ import {
   Image,
   Link,
   CheckCircle,
-  HelpCircle
+  HelpCircle,
+  Upload,
+  History
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContextUtils';
 import RichContentEditor from '@/components/admin/RichContentEditor';
+import ContentVersionDialog from '@/components/admin/ContentVersionDialog';
+import { adminLessonPackageApi } from '@/services/lessonPackageApi';
+import type { ContentPublishing } from '@/services/contentVersionApi';
 
 // Lesson form schema
 const lessonSchema = z.object({
@@ -73,6 +78,7 @@ interface Lesson {
   moduleTitle?: string;
   courseId?: string;
   courseTitle?: string;
+  publishing?: ContentPublishing;
 }
 
 interface Module {
@@ -101,6 +107,8 @@ const AdminLessonManagement = () => {
   const [editingLesson, setEditingLesson] = useState<Lesson | null>(null);
   const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
   const [richContent, setRichContent] = useState<ContentBlock[]>([]);
+  const [uploadingPackage, setUploadingPackage] = useState(false);
+  const [historyLesson, setHistoryLesson] = useState<Lesson | null>(null);
   // Ensure pagination is always initialized
   const [pagination, setPagination] = useState({
     page: 1,
@@ -290,9 +298,13 @@ const AdminLessonManagement = () => {
 
       const result = await response.json();
       
+      let description = editingLesson ? "Lesson updated successfully" : "Lesson created as a draft. Publish it to make it visible to students.";
+      if (editingLesson && result.data?.publishing?.hasDraft) {
+        description = "Changes saved as a draft. Publish them to make them visible to students.";
+      }
       toast({
         title: "Success",
-        description: editingLesson ? "Lesson updated successfully" : "Lesson created successfully",
+        description,
       });
 
       setShowCreateDialog(false);
@@ -402,6 +414,48 @@ const AdminLessonManagement = () => {
     setShowEditDialog(true);
   };
 
+  // Upload a SCORM 1.2 or xAPI package as the lesson's content
+  const handleUploadPackage = async (lessonId: string, file: File) => {
+    setUploadingPackage(true);
+    try {
+      const lessonPackage = await adminLessonPackageApi.upload(lessonId, file);
+      toast({
+        title: "Success",
+        description: `${lessonPackage.standard === 'XAPI' ? 'xAPI' : 'SCORM 1.2'} package installed (${lessonPackage.fileCount} files)`,
+      });
+      fetchLessons();
+    } catch (error) {
+      console.error('Error uploading lesson package:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload package",
+        variant: "destructive"
+      });
+    } finally {
+      setUploadingPackage(false);
+    }
+  };
+
+  const handleRemovePackage = async (lessonId: string) => {
+    if (!confirm('Remove this lesson\'s package? Learners will no longer be able to open it.')) {
+      return;
+    }
+    try {
+      await adminLessonPackageApi.remove(lessonId);
+      toast({
+        title: "Success",
+        description: "Lesson package removed",
+      });
+    } catch (error) {
+      console.error('Error removing lesson package:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove package",
+        variant: "destructive"
+      });
+    }
+  };
+
   // View lesson details
   const handleViewLesson = (lesson: Lesson) => {
     setSelectedLesson(lesson);
@@ -589,9 +643,21 @@ const AdminLessonManagement = () => {
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge className={getStatusColor(lesson.isActive)}>
-                            {lesson.isActive ? 'Active' : 'Inactive'}
-                          </Badge>
+                          <div className="flex flex-col items-start gap-1">
+                            <Badge className={getStatusColor(lesson.isActive)}>
+                              {lesson.isActive ? 'Active' : 'Inactive'}
+                            </Badge>
+                            {lesson.publishing?.status === 'DRAFT' ? (
+                              <Badge variant="outline">Draft</Badge>
+                            ) : lesson.publishing?.hasDraft ? (
+                              <Badge className="bg-yellow-100 text-yellow-800">Unpublished changes</Badge>
+                            ) : null}
+                            {lesson.publishing?.scheduledAt && (
+                              <span className="text-xs text-gray-500">
+                                Publishes {new Date(lesson.publishing.scheduledAt).toLocaleString()}
+                              </span>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell>
                           <div className="text-sm text-gray-500">
@@ -622,10 +688,19 @@ const AdminLessonManagement = () => {
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setHistoryLesson(lesson)}
+                              title="Publish & Version History"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
                               onClick={() => handleToggleStatus(lesson.id)}
+                              disabled={lesson.publishing?.status === 'DRAFT'}
                             >
                               {lesson.isActive ? 'Deactivate' : 'Activate'}
                             </Button>
@@ -1014,6 +1089,42 @@ const AdminLessonManagement = () => {
                 )}
               </div>
 
+              {/* Packages run their own scripts, so only admins can upload them */}
+              {editingLesson && user?.role === 'admin' && watch('lessonType') === 'INTERACTIVE' && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-package">SCORM 1.2 / xAPI Package</Label>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      id="edit-package"
+                      type="file"
+                      accept=".zip,application/zip"
+                      disabled={uploadingPackage}
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        if (file) {
+                          handleUploadPackage(editingLesson.id, file);
+                        }
+                        event.target.value = '';
+                      }}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleRemovePackage(editingLesson.id)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                  <p className="text-sm text-gray-500 flex items-center">
+                    <Upload className="h-4 w-4 mr-1" />
+                    {uploadingPackage
+                      ? 'Installing package...'
+                      : 'Uploading a ZIP replaces the lesson content with the package.'}
+                  </p>
+                </div>
+              )}
+
               <div className="flex justify-end space-x-2">
                 <Button
                   type="button"
@@ -1035,6 +1146,19 @@ const AdminLessonManagement = () => {
           </DialogContent>
         </Dialog>
 
+        {/* Publish & Version History Dialog */}
+        {historyLesson && (
+          <ContentVersionDialog
+            contentType="lesson"
+            contentId={historyLesson.id}
+            title={historyLesson.title}
+            publishing={lessons.find(lesson => lesson.id === historyLesson.id)?.publishing}
+            open={!!historyLesson}
+            onOpenChange={(open) => !open && setHistoryLesson(null)}
+            onChanged={fetchLessons}
+          />
+        )}
+
         {/* View Lesson Dialog */}
         <Dialog open={!!selectedLesson} onOpenChange={() => setSelectedLesson(null)}>
           <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
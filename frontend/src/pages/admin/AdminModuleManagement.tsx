@@ -27,10 +27,13 @@ import {
   Clock,
   ArrowLeft,
   List,
-  FileText
+  FileText,
+  History
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContextUtils';
+import ContentVersionDialog from '@/components/admin/ContentVersionDialog';
+import type { ContentPublishing } from '@/services/contentVersionApi';
 
 // Module form schema
 const moduleSchema = z.object({
@@ -61,6 +64,7 @@ interface Module {
   lessonsCount?: number;
   courseId: string;
   courseTitle?: string;
+  publishing?: ContentPublishing;
 }
 
 interface Course {
@@ -78,6 +82,7 @@ const AdminModuleManagement = () => {
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingModule, setEditingModule] = useState<Module | null>(null);
   const [selectedModule, setSelectedModule] = useState<Module | null>(null);
+  const [historyModule, setHistoryModule] = useState<Module | null>(null);
   // Ensure pagination is always initialized with proper defaults
   const [pagination, setPagination] = useState(() => ({
     page: 1,
@@ -229,9 +234,13 @@ const AdminModuleManagement = () => {
 
       const result = await response.json();
       
+      let description = editingModule ? "Module updated successfully" : "Module created as a draft. Publish it to make it visible to students.";
+      if (editingModule && result.data?.publishing?.hasDraft) {
+        description = "Changes saved as a draft. Publish them to make them visible to students.";
+      }
       toast({
         title: "Success",
-        description: editingModule ? "Module updated successfully" : "Module created successfully",
+        description,
       });
 
       setShowCreateDialog(false);
@@ -500,9 +509,21 @@ const AdminModuleManagement = () => {
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge className={getStatusColor(module.isActive)}>
-                            {module.isActive ? 'Active' : 'Inactive'}
-                          </Badge>
+                          <div className="flex flex-col items-start gap-1">
+                            <Badge className={getStatusColor(module.isActive)}>
+                              {module.isActive ? 'Active' : 'Inactive'}
+                            </Badge>
+                            {module.publishing?.status === 'DRAFT' ? (
+                              <Badge variant="outline">Draft</Badge>
+                            ) : module.publishing?.hasDraft ? (
+                              <Badge className="bg-yellow-100 text-yellow-800">Unpublished changes</Badge>
+                            ) : null}
+                            {module.publishing?.scheduledAt && (
+                              <span className="text-xs text-gray-500">
+                                Publishes {new Date(module.publishing.scheduledAt).toLocaleString()}
+                              </span>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell>
                           <div className="text-sm text-gray-500">
@@ -532,10 +553,19 @@ const AdminModuleManagement = () => {
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setHistoryModule(module)}
+                              title="Publish & Version History"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
                               onClick={() => handleToggleStatus(module.id)}
+                              disabled={module.publishing?.status === 'DRAFT'}
                             >
                               {module.isActive ? 'Deactivate' : 'Activate'}
                             </Button>
@@ -775,6 +805,19 @@ const AdminModuleManagement = () => {
           </DialogContent>
         </Dialog>
 
+        {/* Publish & Version History Dialog */}
+        {historyModule && (
+          <ContentVersionDialog
+            contentType="module"
+            contentId={historyModule.id}
+            title={historyModule.title}
+            publishing={modules.find(module => module.id === historyModule.id)?.publishing}
+            open={!!historyModule}
+            onOpenChange={(open) => !open && setHistoryModule(null)}
+            onChanged={() => fetchModules()}
+          />
+        )}
+
         {/* View Module Dialog */}
         <Dialog open={!!selectedModule} onOpenChange={() => setSelectedModule(null)}>
           <DialogContent className="max-w-2xl">
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/layout/Layout';
+import AdminNavigation from '@/components/admin/AdminNavigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Send,
+  Search,
+  Loader2,
+  AlertCircle,
+  RotateCcw,
+  Mail,
+  Webhook
+} from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  notificationDeliveryApi,
+  type OutboundMessage,
+  type OutboundMessageStatus
+} from '@/services/notificationDeliveryApi';
+
+const STATUS_LABELS: Record<OutboundMessageStatus, string> = {
+  dead: 'Failed',
+  pending: 'Queued',
+  processing: 'Sending',
+  sent: 'Sent'
+};
+
+const STATUS_STYLES: Record<OutboundMessageStatus, string> = {
+  dead: 'bg-red-100 text-red-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800'
+};
+
+const formatDateTime = (dateString?: string) => {
+  return dateString
+    ? new Date(dateString).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : '—';
+};
+
+// The server only sends a webhook's origin; the host is enough to tell them apart
+const formatDestination = (message: OutboundMessage) => {
+  if (message.channel !== 'webhook') {
+    return message.destination;
+  }
+  try {
+    return new URL(message.destination).host;
+  } catch {
+    return 'webhook';
+  }
+};
+
+const AdminNotificationDeliveriesPage = () => {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<OutboundMessageStatus>('dead');
+  const [channel, setChannel] = useState<string>('ALL');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['admin-notification-deliveries', status, channel, search, page],
+    queryFn: () => notificationDeliveryApi.getDeliveries({
+      status,
+      channel: channel === 'ALL' ? undefined : channel as OutboundMessage['channel'],
+      search: search || undefined,
+      page
+    }),
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (messageId: string) => notificationDeliveryApi.replayDelivery(messageId),
+    onSuccess: (message) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-notification-deliveries'] });
+      toast({ title: 'Delivery queued', description: `${message.description} will be sent again.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const messages = data?.messages || [];
+  const pagination = data?.pagination;
+
+  return (
+    <Layout>
+      <AdminNavigation />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Notification Deliveries</h1>
+          <p className="text-gray-600 mt-2">
+            Emails and chat notifications are retried automatically; the ones that still fail are kept here
+          </p>
+        </div>
+
+        {/* Queue summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {(Object.keys(STATUS_LABELS) as OutboundMessageStatus[]).map(key => (
+            <Card
+              key={key}
+              className={`cursor-pointer ${status === key ? 'ring-2 ring-eduBlue-500' : ''}`}
+              onClick={() => { setStatus(key); setPage(1); }}
+            >
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">{STATUS_LABELS[key]}</p>
+                <p className="text-2xl font-bold">{data?.counts[key] ?? 0}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{STATUS_LABELS[status]} Deliveries</CardTitle>
+            <CardDescription>
+              {status === 'dead'
+                ? 'Replay a delivery once the problem is fixed, e.g. after a webhook URL is updated'
+                : 'Messages waiting in or delivered by the queue'}
+            </CardDescription>
+            <div className="flex flex-col sm:flex-row gap-2 pt-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search recipient or description..."
+                  value={search}
+                  onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={channel} onValueChange={(value) => { setChannel(value); setPage(1); }}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All channels</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                  <SelectItem value="webhook">Webhooks</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+              </div>
+            ) : error ? (
+              <div className="text-center py-8">
+                <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+                <p className="text-gray-600">{(error as Error).message}</p>
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="text-center py-8 text-gray-600">
+                <Send className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                No {STATUS_LABELS[status].toLowerCase()} deliveries.
+              </div>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Message</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>{status === 'dead' ? 'Failed' : status === 'sent' ? 'Sent' : 'Next attempt'}</TableHead>
+                      <TableHead>Status</TableHead>
+                      {status === 'dead' && <TableHead className="text-right">Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {messages.map(message => (
+                      <TableRow key={message.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {message.channel === 'email'
+                              ? <Mail className="h-4 w-4 text-gray-500" />
+                              : <Webhook className="h-4 w-4 text-gray-500" />}
+                            <p className="font-medium">{message.description}</p>
+                          </div>
+                          {message.lastError && (
+                            <p className="text-xs text-red-600 mt-1">{message.lastError}</p>
+                          )}
+                          {message.replayedAt && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Replayed {formatDateTime(message.replayedAt)}
+                              {message.replayedBy ? ` by ${message.replayedBy.email || message.replayedBy.username}` : ''}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{formatDestination(message)}</TableCell>
+                        <TableCell>{message.attempts} / {message.maxAttempts}</TableCell>
+                        <TableCell className="text-sm">
+                          {formatDateTime(
+                            status === 'dead' ? message.deadAt : status === 'sent' ? message.sentAt : message.nextAttemptAt
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[message.status]}>{STATUS_LABELS[message.status]}</Badge>
+                        </TableCell>
+                        {status === 'dead' && (
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => replayMutation.mutate(message.id)}
+                              disabled={replayMutation.isPending}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Replay
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {pagination && pagination.pages > 1 && (
+                  <div className="flex items-center justify-between pt-4">
+                    <p className="text-sm text-gray-600">
+                      Page {pagination.page} of {pagination.pages} ({pagination.total} deliveries)
+                    </p>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                      </Button>
+                      <Button variant="outline" size="sm" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminNotificationDeliveriesPage;
@@ -0,0 +1,851 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/layout/Layout';
+import AdminNavigation from '@/components/admin/AdminNavigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Library,
+  Search,
+  Loader2,
+  AlertCircle,
+  Plus,
+  Edit,
+  Trash2,
+  X
+} from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  adminQuestionBankApi,
+  type BlankAnswer,
+  type CorrectAnswer,
+  type MatchingPair,
+  type QuestionBankItem,
+  type QuestionBankItemInput,
+  type QuestionDifficulty,
+  type QuestionType
+} from '@/services/questionBankApi';
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  MULTIPLE_CHOICE: 'Multiple choice',
+  MULTI_SELECT: 'Multi-select',
+  TRUE_FALSE: 'True / false',
+  SHORT_ANSWER: 'Short answer',
+  NUMERIC: 'Numeric',
+  ORDERING: 'Ordering',
+  MATCHING: 'Matching',
+  FILL_IN_BLANK: 'Fill in the blank',
+  ESSAY: 'Essay'
+};
+
+const DIFFICULTIES: QuestionDifficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+// Types whose answers have several parts that can be partly right
+const PARTIAL_CREDIT_TYPES: QuestionType[] = ['MULTI_SELECT', 'ORDERING', 'MATCHING', 'FILL_IN_BLANK'];
+
+interface BlankForm {
+  accepted: string;
+  pattern: string;
+  caseSensitive: boolean;
+}
+
+interface QuestionForm {
+  id?: string;
+  question: string;
+  type: QuestionType;
+  options: string;
+  answer: string;
+  selected: string[];
+  trueFalse: boolean;
+  acceptedAnswers: string;
+  tolerance: string;
+  pairs: MatchingPair[];
+  blanks: BlankForm[];
+  partialCredit: boolean;
+  points: string;
+  explanation: string;
+  tags: string;
+  difficulty: QuestionDifficulty;
+  isActive: boolean;
+}
+
+const EMPTY_QUESTION: QuestionForm = {
+  question: '',
+  type: 'MULTIPLE_CHOICE',
+  options: '',
+  answer: '',
+  selected: [],
+  trueFalse: true,
+  acceptedAnswers: '',
+  tolerance: '',
+  pairs: [{ left: '', right: '' }, { left: '', right: '' }],
+  blanks: [{ accepted: '', pattern: '', caseSensitive: false }],
+  partialCredit: false,
+  points: '1',
+  explanation: '',
+  tags: '',
+  difficulty: 'MEDIUM',
+  isActive: true
+};
+
+const splitLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+const splitList = (value: string) => value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+const toForm = (item: QuestionBankItem): QuestionForm => {
+  const form: QuestionForm = {
+    ...EMPTY_QUESTION,
+    id: item.id,
+    question: item.question,
+    type: item.type,
+    options: item.options.join('\n'),
+    acceptedAnswers: item.acceptedAnswers.join('\n'),
+    tolerance: item.tolerance !== undefined ? String(item.tolerance) : '',
+    partialCredit: item.partialCredit,
+    points: String(item.points),
+    explanation: item.explanation || '',
+    tags: item.tags.join(', '),
+    difficulty: item.difficulty,
+    isActive: item.isActive
+  };
+
+  switch (item.type) {
+    case 'MULTI_SELECT':
+      form.selected = item.correctAnswer as string[];
+      break;
+    case 'TRUE_FALSE':
+      form.trueFalse = item.correctAnswer === true;
+      break;
+    case 'ORDERING':
+      form.options = (item.correctAnswer as string[]).join('\n');
+      break;
+    case 'MATCHING':
+      form.pairs = item.correctAnswer as MatchingPair[];
+      break;
+    case 'FILL_IN_BLANK':
+      form.blanks = (item.correctAnswer as BlankAnswer[]).map(blank => ({
+        accepted: (blank.accepted || []).join(', '),
+        pattern: blank.pattern || '',
+        caseSensitive: !!blank.caseSensitive
+      }));
+      break;
+    default:
+      form.answer = String(item.correctAnswer ?? '');
+  }
+  return form;
+};
+
+const toInput = (form: QuestionForm): QuestionBankItemInput => {
+  const options = splitLines(form.options);
+  let correctAnswer: CorrectAnswer;
+
+  switch (form.type) {
+    case 'MULTI_SELECT':
+      correctAnswer = form.selected.filter(option => options.includes(option));
+      break;
+    case 'TRUE_FALSE':
+      correctAnswer = form.trueFalse;
+      break;
+    case 'NUMERIC':
+      correctAnswer = parseFloat(form.answer);
+      break;
+    case 'ORDERING':
+      correctAnswer = options;
+      break;
+    case 'MATCHING':
+      correctAnswer = form.pairs.map(pair => ({ left: pair.left.trim(), right: pair.right.trim() }));
+      break;
+    case 'FILL_IN_BLANK':
+      correctAnswer = form.blanks.map(blank => ({
+        accepted: splitList(blank.accepted),
+        pattern: blank.pattern.trim() || undefined,
+        caseSensitive: blank.caseSensitive
+      }));
+      break;
+    default:
+      correctAnswer = form.answer.trim();
+  }
+
+  return {
+    question: form.question,
+    type: form.type,
+    options: form.type === 'MULTIPLE_CHOICE' || form.type === 'MULTI_SELECT' ? options : [],
+    correctAnswer,
+    acceptedAnswers: form.type === 'SHORT_ANSWER' ? splitLines(form.acceptedAnswers) : [],
+    tolerance: form.type === 'NUMERIC' && form.tolerance ? parseFloat(form.tolerance) : undefined,
+    partialCredit: PARTIAL_CREDIT_TYPES.includes(form.type) && form.partialCredit,
+    points: parseFloat(form.points) || 0,
+    explanation: form.explanation,
+    tags: splitList(form.tags),
+    difficulty: form.difficulty,
+    isActive: form.isActive
+  };
+};
+
+const formatAnswer = (item: QuestionBankItem) => {
+  switch (item.type) {
+    case 'TRUE_FALSE':
+      return item.correctAnswer ? 'True' : 'False';
+    case 'MULTI_SELECT':
+      return (item.correctAnswer as string[]).join(', ');
+    case 'ORDERING':
+      return (item.correctAnswer as string[]).join(' → ');
+    case 'MATCHING':
+      return (item.correctAnswer as MatchingPair[]).map(pair => `${pair.left} = ${pair.right}`).join('; ');
+    case 'FILL_IN_BLANK':
+      return (item.correctAnswer as BlankAnswer[])
+        .map(blank => [...(blank.accepted || []), blank.pattern && `/${blank.pattern}/`].filter(Boolean).join(' | '))
+        .join('; ');
+    case 'NUMERIC':
+      return item.tolerance ? `${item.correctAnswer} ± ${item.tolerance}` : String(item.correctAnswer);
+    case 'ESSAY':
+      return item.correctAnswer ? `Graded manually: ${item.correctAnswer}` : 'Graded manually';
+    default:
+      return String(item.correctAnswer);
+  }
+};
+
+const AdminQuestionBankPage = () => {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string>('ALL');
+  const [typeFilter, setTypeFilter] = useState<string>('ALL');
+  const [difficultyFilter, setDifficultyFilter] = useState<string>('ALL');
+  const [page, setPage] = useState(1);
+  const [editingQuestion, setEditingQuestion] = useState<QuestionForm | null>(null);
+
+  const { data: questionPage, isLoading, error } = useQuery({
+    queryKey: ['admin-question-bank', search, tagFilter, typeFilter, difficultyFilter, page],
+    queryFn: () => adminQuestionBankApi.getItems({
+      search: search || undefined,
+      tag: tagFilter === 'ALL' ? undefined : tagFilter,
+      type: typeFilter === 'ALL' ? undefined : typeFilter as QuestionType,
+      difficulty: difficultyFilter === 'ALL' ? undefined : difficultyFilter as QuestionDifficulty,
+      page
+    }),
+  });
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['admin-question-bank-tags'],
+    queryFn: () => adminQuestionBankApi.getTags(),
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const invalidateQuestions = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-question-bank'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-question-bank-tags'] });
+  };
+
+  const saveQuestionMutation = useMutation({
+    mutationFn: (form: QuestionForm) => {
+      const input = toInput(form);
+      return form.id
+        ? adminQuestionBankApi.updateItem(form.id, input)
+        : adminQuestionBankApi.createItem(input);
+    },
+    onSuccess: () => {
+      invalidateQuestions();
+      setEditingQuestion(null);
+      toast({ title: 'Question saved', description: 'The question bank has been updated.' });
+    },
+    onError: onMutationError,
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: (itemId: string) => adminQuestionBankApi.deleteItem(itemId),
+    onSuccess: (message) => {
+      invalidateQuestions();
+      toast({ title: 'Question removed', description: message });
+    },
+    onError: onMutationError,
+  });
+
+  const updateForm = (changes: Partial<QuestionForm>) => {
+    if (editingQuestion) {
+      setEditingQuestion({ ...editingQuestion, ...changes });
+    }
+  };
+
+  const updatePair = (index: number, changes: Partial<MatchingPair>) => {
+    if (editingQuestion) {
+      updateForm({ pairs: editingQuestion.pairs.map((pair, i) => (i === index ? { ...pair, ...changes } : pair)) });
+    }
+  };
+
+  const updateBlank = (index: number, changes: Partial<BlankForm>) => {
+    if (editingQuestion) {
+      updateForm({ blanks: editingQuestion.blanks.map((blank, i) => (i === index ? { ...blank, ...changes } : blank)) });
+    }
+  };
+
+  const handleSaveQuestion = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingQuestion) {
+      saveQuestionMutation.mutate(editingQuestion);
+    }
+  };
+
+  const handleDeleteQuestion = (item: QuestionBankItem) => {
+    if (window.confirm('Delete this question? Questions used in past attempts are deactivated instead.')) {
+      deleteQuestionMutation.mutate(item.id);
+    }
+  };
+
+  const resetPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const renderAnswerEditor = (form: QuestionForm) => {
+    const options = splitLines(form.options);
+
+    switch (form.type) {
+      case 'MULTIPLE_CHOICE':
+      case 'MULTI_SELECT':
+        return (
+          <>
+            <div>
+              <Label htmlFor="questionOptions">Options (one per line)</Label>
+              <Textarea
+                id="questionOptions"
+                value={form.options}
+                onChange={(e) => updateForm({ options: e.target.value })}
+                rows={4}
+              />
+            </div>
+            {form.type === 'MULTIPLE_CHOICE' ? (
+              <div>
+                <Label>Correct Answer</Label>
+                <Select value={form.answer} onValueChange={(answer) => updateForm({ answer })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select the correct option" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {options.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <Label>Correct Answers</Label>
+                <div className="border rounded-md p-3 space-y-2">
+                  {options.map(option => (
+                    <label key={option} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.selected.includes(option)}
+                        onCheckedChange={(checked) => updateForm({
+                          selected: checked === true
+                            ? [...form.selected, option]
+                            : form.selected.filter(selected => selected !== option)
+                        })}
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        );
+      case 'TRUE_FALSE':
+        return (
+          <div>
+            <Label>Correct Answer</Label>
+            <Select value={String(form.trueFalse)} onValueChange={(value) => updateForm({ trueFalse: value === 'true' })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="true">True</SelectItem>
+                <SelectItem value="false">False</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'SHORT_ANSWER':
+        return (
+          <>
+            <div>
+              <Label htmlFor="questionAnswer">Correct Answer</Label>
+              <Input
+                id="questionAnswer"
+                value={form.answer}
+                onChange={(e) => updateForm({ answer: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="questionAccepted">Also Accept (one per line)</Label>
+              <p className="text-xs text-gray-500 mb-2">Answers are compared ignoring case and extra spaces.</p>
+              <Textarea
+                id="questionAccepted"
+                value={form.acceptedAnswers}
+                onChange={(e) => updateForm({ acceptedAnswers: e.target.value })}
+                rows={3}
+              />
+            </div>
+          </>
+        );
+      case 'ESSAY':
+        return (
+          <div>
+            <Label htmlFor="questionGuide">Marking Guide (Optional)</Label>
+            <p className="text-xs text-gray-500 mb-2">Essay answers are scored by a grader, who sees this guide.</p>
+            <Textarea
+              id="questionGuide"
+              value={form.answer}
+              onChange={(e) => updateForm({ answer: e.target.value })}
+              rows={4}
+            />
+          </div>
+        );
+      case 'NUMERIC':
+        return (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="questionNumber">Correct Answer</Label>
+              <Input
+                id="questionNumber"
+                type="number"
+                step="any"
+                value={form.answer}
+                onChange={(e) => updateForm({ answer: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="questionTolerance">Tolerance (±)</Label>
+              <Input
+                id="questionTolerance"
+                type="number"
+                step="any"
+                min="0"
+                value={form.tolerance}
+                onChange={(e) => updateForm({ tolerance: e.target.value })}
+                placeholder="Exact"
+              />
+            </div>
+          </div>
+        );
+      case 'ORDERING':
+        return (
+          <div>
+            <Label htmlFor="questionOrdering">Items in Correct Order (one per line)</Label>
+            <p className="text-xs text-gray-500 mb-2">Students see the items shuffled.</p>
+            <Textarea
+              id="questionOrdering"
+              value={form.options}
+              onChange={(e) => updateForm({ options: e.target.value })}
+              rows={5}
+            />
+          </div>
+        );
+      case 'MATCHING':
+        return (
+          <div>
+            <Label>Matching Pairs</Label>
+            <p className="text-xs text-gray-500 mb-2">Students match each left item to a shuffled right item.</p>
+            <div className="space-y-2">
+              {form.pairs.map((pair, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input value={pair.left} onChange={(e) => updatePair(index, { left: e.target.value })} placeholder="Left" />
+                  <Input value={pair.right} onChange={(e) => updatePair(index, { right: e.target.value })} placeholder="Right" />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateForm({ pairs: form.pairs.filter((_, i) => i !== index) })}
+                    disabled={form.pairs.length <= 2}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => updateForm({ pairs: [...form.pairs, { left: '', right: '' }] })}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Pair
+              </Button>
+            </div>
+          </div>
+        );
+      case 'FILL_IN_BLANK':
+        return (
+          <div>
+            <Label>Blanks</Label>
+            <p className="text-xs text-gray-500 mb-2">
+              Mark each blank in the question text with ___. Accept listed answers (comma separated) or anything matching a regular expression.
+            </p>
+            <div className="space-y-3">
+              {form.blanks.map((blank, index) => (
+                <div key={index} className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Blank {index + 1}</span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateForm({ blanks: form.blanks.filter((_, i) => i !== index) })}
+                      disabled={form.blanks.length <= 1}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Input
+                    value={blank.accepted}
+                    onChange={(e) => updateBlank(index, { accepted: e.target.value })}
+                    placeholder="Accepted answers"
+                  />
+                  <Input
+                    value={blank.pattern}
+                    onChange={(e) => updateBlank(index, { pattern: e.target.value })}
+                    placeholder="Pattern (optional), e.g. colou?r"
+                    className="font-mono"
+                  />
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={blank.caseSensitive}
+                      onCheckedChange={(checked) => updateBlank(index, { caseSensitive: checked === true })}
+                    />
+                    Case sensitive
+                  </label>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateForm({ blanks: [...form.blanks, { accepted: '', pattern: '', caseSensitive: false }] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Blank
+              </Button>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  const items = questionPage?.items || [];
+  const pagination = questionPage?.pagination;
+
+  return (
+    <Layout>
+      <AdminNavigation />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Question Bank</h1>
+            <p className="text-gray-600 mt-2">
+              Reusable questions that quizzes draw from by tag
+            </p>
+          </div>
+          <Button onClick={() => setEditingQuestion({ ...EMPTY_QUESTION })}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Question
+          </Button>
+        </div>
+
+        {/* Tag summary */}
+        {tags.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Tags</CardTitle>
+              <CardDescription>Active questions available to question pools</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              {tags.map(tag => (
+                <button
+                  key={tag.tag}
+                  type="button"
+                  onClick={() => resetPage(setTagFilter)(tagFilter === tag.tag ? 'ALL' : tag.tag)}
+                >
+                  <Badge variant={tagFilter === tag.tag ? 'default' : 'outline'}>
+                    {tag.tag} · {tag.total}
+                    <span className="ml-1 text-xs opacity-70">
+                      ({DIFFICULTIES.map(difficulty => `${difficulty[0]}${tag.byDifficulty[difficulty] || 0}`).join(' ')})
+                    </span>
+                  </Badge>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Questions</CardTitle>
+            <CardDescription>{pagination ? `${pagination.total} question(s)` : 'Loading questions'}</CardDescription>
+            <div className="flex flex-col sm:flex-row gap-2 pt-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search question text..."
+                  value={search}
+                  onChange={(e) => resetPage(setSearch)(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={tagFilter} onValueChange={resetPage(setTagFilter)}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All tags</SelectItem>
+                  {tags.map(tag => (
+                    <SelectItem key={tag.tag} value={tag.tag}>{tag.tag}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={typeFilter} onValueChange={resetPage(setTypeFilter)}>
+                <SelectTrigger className="sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All types</SelectItem>
+                  {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                    <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={difficultyFilter} onValueChange={resetPage(setDifficultyFilter)}>
+                <SelectTrigger className="sm:w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">Any difficulty</SelectItem>
+                  {DIFFICULTIES.map(difficulty => (
+                    <SelectItem key={difficulty} value={difficulty}>{difficulty}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+              </div>
+            ) : error ? (
+              <div className="text-center py-8">
+                <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+                <p className="text-gray-600">{(error as Error).message}</p>
+              </div>
+            ) : items.length === 0 ? (
+              <div className="text-center py-8 text-gray-600">
+                <Library className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                No questions found.
+              </div>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Question</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Difficulty</TableHead>
+                      <TableHead>Tags</TableHead>
+                      <TableHead>Points</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map(item => (
+                      <TableRow key={item.id} className={item.isActive ? undefined : 'opacity-60'}>
+                        <TableCell className="max-w-md">
+                          <p className="font-medium">{item.question}</p>
+                          <p className="text-xs text-gray-500 truncate">Answer: {formatAnswer(item)}</p>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {QUESTION_TYPE_LABELS[item.type]}
+                          {item.partialCredit && <p className="text-xs text-gray-500">Partial credit</p>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{item.difficulty}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {item.tags.map(tag => (
+                              <Badge key={tag} variant="secondary">{tag}</Badge>
+                            ))}
+                            {!item.isActive && <Badge className="bg-gray-100 text-gray-800">Inactive</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>{item.points}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setEditingQuestion(toForm(item))}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => handleDeleteQuestion(item)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {pagination && pagination.pages > 1 && (
+                  <div className="flex items-center justify-between pt-4">
+                    <span className="text-sm text-gray-600">Page {pagination.page} of {pagination.pages}</span>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                        Previous
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pagination.pages}>
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Question editor */}
+        <Dialog open={!!editingQuestion} onOpenChange={(open) => !open && setEditingQuestion(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingQuestion?.id ? 'Edit Question' : 'New Question'}</DialogTitle>
+            </DialogHeader>
+            {editingQuestion && (
+              <form onSubmit={handleSaveQuestion} className="space-y-4">
+                <div>
+                  <Label htmlFor="questionText">Question</Label>
+                  <Textarea
+                    id="questionText"
+                    value={editingQuestion.question}
+                    onChange={(e) => updateForm({ question: e.target.value })}
+                    rows={3}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label>Type</Label>
+                    <Select
+                      value={editingQuestion.type}
+                      onValueChange={(type) => updateForm({ type: type as QuestionType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                          <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Difficulty</Label>
+                    <Select
+                      value={editingQuestion.difficulty}
+                      onValueChange={(difficulty) => updateForm({ difficulty: difficulty as QuestionDifficulty })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DIFFICULTIES.map(difficulty => (
+                          <SelectItem key={difficulty} value={difficulty}>{difficulty}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="questionPoints">Points</Label>
+                    <Input
+                      id="questionPoints"
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={editingQuestion.points}
+                      onChange={(e) => updateForm({ points: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+
+                {renderAnswerEditor(editingQuestion)}
+
+                {PARTIAL_CREDIT_TYPES.includes(editingQuestion.type) && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="questionPartial">Partial Credit</Label>
+                      <p className="text-xs text-gray-500">Award a share of the points for partly correct answers</p>
+                    </div>
+                    <Switch
+                      id="questionPartial"
+                      checked={editingQuestion.partialCredit}
+                      onCheckedChange={(partialCredit) => updateForm({ partialCredit })}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="questionExplanation">Explanation (shown after submitting)</Label>
+                  <Textarea
+                    id="questionExplanation"
+                    value={editingQuestion.explanation}
+                    onChange={(e) => updateForm({ explanation: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="questionTags">Tags (comma separated)</Label>
+                    <Input
+                      id="questionTags"
+                      value={editingQuestion.tags}
+                      onChange={(e) => updateForm({ tags: e.target.value })}
+                      placeholder="algebra, week-1"
+                    />
+                  </div>
+                  <div className="flex items-end justify-between">
+                    <Label htmlFor="questionActive">Active</Label>
+                    <Switch
+                      id="questionActive"
+                      checked={editingQuestion.isActive}
+                      onCheckedChange={(isActive) => updateForm({ isActive })}
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setEditingQuestion(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveQuestionMutation.isPending}>
+                    {saveQuestionMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save
+                  </Button>
+                </DialogFooter>
+              </form>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminQuestionBankPage;
@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/layout/Layout';
+import AdminNavigation from '@/components/admin/AdminNavigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, Loader2, AlertCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  adminQuizGradingApi,
+  type AnswerGrade,
+  type GradingAttempt,
+  type GradingQueueEntry
+} from '@/services/quizGradingApi';
+
+interface GradeForm {
+  points: string;
+  comment: string;
+}
+
+const studentName = (student?: GradingQueueEntry['student']) =>
+  student
+    ? [student.firstName, student.lastName].filter(Boolean).join(' ') || student.username || student.email
+    : 'Unknown student';
+
+// Render any stored answer shape as readable text
+const formatAnswer = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return 'No answer';
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => formatAnswer(entry)).join(', ');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).map(([key, entry]) => `${key} = ${formatAnswer(entry)}`).join('; ');
+  }
+  return String(value);
+};
+
+const AdminQuizGradingPage = () => {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [gradingId, setGradingId] = useState<string | null>(null);
+  const [grades, setGrades] = useState<Record<string, GradeForm>>({});
+  const [feedback, setFeedback] = useState('');
+
+  const { data: queue, isLoading, error } = useQuery({
+    queryKey: ['admin-quiz-grading', page],
+    queryFn: () => adminQuizGradingApi.getQueue({ page }),
+  });
+
+  const { data: attempt, isLoading: attemptLoading } = useQuery({
+    queryKey: ['admin-quiz-grading-attempt', gradingId],
+    queryFn: () => adminQuizGradingApi.getAttempt(gradingId!),
+    enabled: !!gradingId,
+  });
+
+  // Start each attempt with an empty grade for every answer still waiting for review
+  useEffect(() => {
+    if (attempt) {
+      setGrades(Object.fromEntries(attempt.questions
+        .filter(question => question.needsReview)
+        .map(question => [question.id, { points: '', comment: question.graderComment || '' }])));
+      setFeedback(attempt.feedback || '');
+    }
+  }, [attempt]);
+
+  const gradeMutation = useMutation({
+    mutationFn: ({ attemptId, answerGrades }: { attemptId: string; answerGrades: AnswerGrade[] }) =>
+      adminQuizGradingApi.gradeAttempt(attemptId, answerGrades, feedback || undefined),
+    onSuccess: ({ result, message }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-quiz-grading'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-quiz-grading-attempt'] });
+      setGradingId(null);
+      toast({
+        title: result.status === 'COMPLETED' ? `Graded: ${result.percentage}%` : 'Grades saved',
+        description: message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateGrade = (questionId: string, changes: Partial<GradeForm>) => {
+    setGrades({ ...grades, [questionId]: { ...grades[questionId], ...changes } });
+  };
+
+  const handleSubmitGrades = (e: React.FormEvent, current: GradingAttempt) => {
+    e.preventDefault();
+    // Answers left without points stay in the queue for later
+    const answerGrades = Object.entries(grades)
+      .filter(([, grade]) => grade.points.trim() !== '')
+      .map(([questionId, grade]) => ({
+        questionId,
+        pointsAwarded: parseFloat(grade.points),
+        comment: grade.comment.trim() || undefined
+      }));
+
+    if (answerGrades.length === 0) {
+      toast({ title: 'Nothing to save', description: 'Award points to at least one answer.', variant: 'destructive' });
+      return;
+    }
+    gradeMutation.mutate({ attemptId: current.id, answerGrades });
+  };
+
+  const attempts = queue?.attempts || [];
+  const pagination = queue?.pagination;
+
+  return (
+    <Layout>
+      <AdminNavigation />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Quiz Grading</h1>
+          <p className="text-gray-600 mt-2">
+            Quiz attempts with essay answers waiting for a grade
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Grading Queue</CardTitle>
+            <CardDescription>{pagination ? `${pagination.total} attempt(s) waiting, oldest first` : 'Loading queue'}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+              </div>
+            ) : error ? (
+              <div className="text-center py-8">
+                <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+                <p className="text-gray-600">{(error as Error).message}</p>
+              </div>
+            ) : attempts.length === 0 ? (
+              <div className="text-center py-8 text-gray-600">
+                <ClipboardCheck className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                Nothing to grade.
+              </div>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Quiz</TableHead>
+                      <TableHead>Submitted</TableHead>
+                      <TableHead>Auto-scored</TableHead>
+                      <TableHead>To Grade</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {attempts.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell>
+                          <p className="font-medium">{studentName(entry.student)}</p>
+                          <p className="text-xs text-gray-500">{entry.student?.email}</p>
+                        </TableCell>
+                        <TableCell>
+                          <p>{entry.lesson?.title}</p>
+                          <p className="text-xs text-gray-500">{entry.programme?.title} · Attempt {entry.attemptNumber}</p>
+                        </TableCell>
+                        <TableCell className="text-sm">{new Date(entry.completedAt).toLocaleString()}</TableCell>
+                        <TableCell>{entry.score}/{entry.maxScore}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{entry.answersToGrade}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" onClick={() => setGradingId(entry.id)}>
+                            Grade
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {pagination && pagination.pages > 1 && (
+                  <div className="flex items-center justify-between pt-4">
+                    <span className="text-sm text-gray-600">Page {pagination.page} of {pagination.pages}</span>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                        Previous
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pagination.pages}>
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Grading dialog */}
+        <Dialog open={!!gradingId} onOpenChange={(open) => !open && setGradingId(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {attempt ? `${studentName(attempt.student)} · ${attempt.lesson?.title}` : 'Grade Attempt'}
+              </DialogTitle>
+            </DialogHeader>
+            {attemptLoading || !attempt ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+              </div>
+            ) : (
+              <form onSubmit={(e) => handleSubmitGrades(e, attempt)} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Auto-scored {attempt.score}/{attempt.maxScore} · Passing score {attempt.passingScore}%
+                </p>
+                {attempt.questions.map((question, index) => (
+                  <div key={question.id} className={`border rounded-lg p-4 space-y-2 ${question.needsReview ? 'border-orange-300' : ''}`}>
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium">Question {index + 1}</h4>
+                      {question.needsReview ? (
+                        <Badge className="bg-orange-100 text-orange-800">Needs grading</Badge>
+                      ) : (
+                        <span className="text-sm text-gray-600">{question.pointsAwarded}/{question.points} points</span>
+                      )}
+                    </div>
+                    <p className="text-gray-700">{question.question}</p>
+                    <div className="text-sm bg-gray-50 rounded p-3 whitespace-pre-wrap">{formatAnswer(question.answer)}</div>
+                    {question.correctAnswer !== undefined && question.correctAnswer !== '' && (
+                      <p className="text-xs text-gray-500">
+                        {question.needsReview ? 'Marking guide' : 'Correct answer'}: {formatAnswer(question.correctAnswer)}
+                      </p>
+                    )}
+                    {question.needsReview && grades[question.id] && (
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-2">
+                        <div>
+                          <Label htmlFor={`points-${question.id}`}>Points (max {question.points})</Label>
+                          <Input
+                            id={`points-${question.id}`}
+                            type="number"
+                            min={0}
+                            max={question.points}
+                            step="any"
+                            value={grades[question.id].points}
+                            onChange={(e) => updateGrade(question.id, { points: e.target.value })}
+                          />
+                        </div>
+                        <div className="md:col-span-3">
+                          <Label htmlFor={`comment-${question.id}`}>Comment for the student</Label>
+                          <Textarea
+                            id={`comment-${question.id}`}
+                            value={grades[question.id].comment}
+                            onChange={(e) => updateGrade(question.id, { comment: e.target.value })}
+                            rows={2}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <div>
+                  <Label htmlFor="gradingFeedback">Overall Feedback</Label>
+                  <Textarea
+                    id="gradingFeedback"
+                    value={feedback}
+                    onChange={(e) => setFeedback(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setGradingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={gradeMutation.isPending}>
+                    {gradeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save Grades
+                  </Button>
+                </DialogFooter>
+              </form>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminQuizGradingPage;
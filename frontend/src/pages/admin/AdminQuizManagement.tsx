@@ -31,16 +31,25 @@ import {
   XCircle,
   Eye,
   Edit,
-  AlertTriangle
+  AlertTriangle,
+  Library,
+  Download,
+  Flag
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import api from '@/services/api';
+import {
+  adminQuestionBankApi,
+  type QuestionDifficulty,
+  type QuestionPool,
+  type QuestionTagSummary
+} from '@/services/questionBankApi';
 
 // Quiz form schema
 const quizQuestionSchema = z.object({
   id: z.string().optional(),
   question: z.string().min(1, 'Question is required'),
-  type: z.enum(['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER']),
+  type: z.enum(['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER', 'ESSAY']),
   options: z.array(z.string()).optional(),
   correctAnswer: z.union([z.string(), z.boolean()]),
   points: z.number().min(1, 'Points must be at least 1'),
@@ -48,7 +57,8 @@ const quizQuestionSchema = z.object({
 });
 
 const quizSchema = z.object({
-  questions: z.array(quizQuestionSchema).min(1, 'At least one question is required'),
+  // Quizzes may draw all of their questions from question pools instead
+  questions: z.array(quizQuestionSchema),
   settings: z.object({
     timeLimit: z.number().optional(),
     passingScore: z.number().min(0).max(100).default(60),
@@ -56,6 +66,7 @@ const quizSchema = z.object({
     showCorrectAnswers: z.boolean().default(true),
     showFeedback: z.boolean().default(true),
     maxAttempts: z.number().min(1).default(3),
+    retakeCooldownMinutes: z.number().min(0).default(0),
     questionsRandomized: z.boolean().default(false),
     optionsRandomized: z.boolean().default(false)
   })
@@ -67,7 +78,7 @@ interface Quiz {
   questions: Array<{
     id: string;
     question: string;
-    type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER';
+    type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER' | 'ESSAY';
     options?: string[];
     correctAnswer: string | boolean;
     points: number;
@@ -79,10 +90,12 @@ interface Quiz {
     allowMultipleAttempts: boolean;
     showCorrectAnswers: boolean;
     showFeedback: boolean;
-    maxAttempts: number;
+    maxAttempts: number | null;
+    retakeCooldownMinutes?: number;
     questionsRandomized: boolean;
     optionsRandomized: boolean;
   };
+  questionPools?: QuestionPool[];
 }
 
 interface QuizAnalytics {
@@ -117,6 +130,55 @@ interface QuizAnalytics {
   quiz: Quiz;
 }
 
+type ItemFlag =
+  | 'TOO_EASY'
+  | 'TOO_HARD'
+  | 'LOW_DISCRIMINATION'
+  | 'NEGATIVE_DISCRIMINATION'
+  | 'DISTRACTOR_OUTSCORES_KEY'
+  | 'UNUSED_DISTRACTOR';
+
+interface ItemStatistics {
+  questionId: string;
+  question: string;
+  type: string;
+  points: number;
+  responses: number;
+  pValue: number | null;
+  pointBiserial: number | null;
+  averageTimeSpent: number | null;
+  options: Array<{
+    option: string;
+    isCorrect: boolean;
+    count: number;
+    rate: number;
+  }>;
+  omitted: number;
+  flags: ItemFlag[];
+  needsReview: boolean;
+}
+
+interface QuizItemAnalysis {
+  attemptsAnalyzed: number;
+  minResponsesForFlags: number;
+  items: ItemStatistics[];
+}
+
+const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  TOO_EASY: 'Too easy',
+  TOO_HARD: 'Too hard',
+  LOW_DISCRIMINATION: 'Low discrimination',
+  NEGATIVE_DISCRIMINATION: 'Negative discrimination',
+  DISTRACTOR_OUTSCORES_KEY: 'Distractor chosen over answer',
+  UNUSED_DISTRACTOR: 'Unused distractor'
+};
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
 const AdminQuizManagement = () => {
   const { lessonId } = useParams<{ lessonId: string }>();
   const navigate = useNavigate();
@@ -124,9 +186,12 @@ const AdminQuizManagement = () => {
   
   const [loading, setLoading] = useState(false);
   const [analytics, setAnalytics] = useState<QuizAnalytics | null>(null);
+  const [itemAnalysis, setItemAnalysis] = useState<QuizItemAnalysis | null>(null);
   const [lessonTitle, setLessonTitle] = useState('');
   const [activeTab, setActiveTab] = useState('manage');
   const [previewMode, setPreviewMode] = useState(false);
+  const [questionPools, setQuestionPools] = useState<QuestionPool[]>([]);
+  const [bankTags, setBankTags] = useState<QuestionTagSummary[]>([]);
 
   const {
     control,
@@ -153,6 +218,7 @@ const AdminQuizManagement = () => {
         showCorrectAnswers: true,
         showFeedback: true,
         maxAttempts: 3,
+        retakeCooldownMinutes: 0,
         questionsRandomized: false,
         optionsRandomized: false
       }
@@ -190,7 +256,11 @@ const AdminQuizManagement = () => {
             points: q.points,
             explanation: q.explanation || ''
           })),
-          settings: quizData.settings
+          settings: {
+            ...quizData.settings,
+            // Unlimited attempts come back as null
+            maxAttempts: quizData.settings.maxAttempts ?? undefined
+          }
         });
       }
     } catch (error) {
@@ -205,10 +275,21 @@ const AdminQuizManagement = () => {
       const response = await api.get(`/quiz/lesson/${lessonId}/admin-analytics`);
       if (response.data.success) {
         setAnalytics(response.data.data);
+        setQuestionPools(response.data.data.quiz?.questionPools || []);
       }
     } catch (error) {
       console.log('No analytics data available');
     }
+
+    try {
+      const response = await api.get(`/quiz/lesson/${lessonId}/item-analysis`);
+      if (response.data.success) {
+        setItemAnalysis(response.data.data);
+      }
+    } catch {
+      // Quizzes without attempts have no item analysis yet
+      setItemAnalysis(null);
+    }
   }, [lessonId]);
 
   useEffect(() => {
@@ -216,13 +297,31 @@ const AdminQuizManagement = () => {
     fetchAnalytics();
   }, [fetchLessonData, fetchAnalytics]);
 
+  useEffect(() => {
+    adminQuestionBankApi.getTags()
+      .then(setBankTags)
+      // Tag suggestions are optional; the tag field still accepts free text
+      .catch(() => setBankTags([]));
+  }, []);
+
   const onSubmit = async (data: QuizFormData) => {
+    const pools = questionPools.filter(pool => pool.tag.trim() && pool.count > 0);
+    if (data.questions.length === 0 && pools.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Add at least one question or question pool',
+        variant: 'destructive'
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       
       const response = await api.post(`/quiz/lesson/${lessonId}/manage`, {
         questions: data.questions,
-        settings: data.settings
+        settings: data.settings,
+        questionPools: pools
       });
 
       if (response.data.success) {
@@ -274,11 +373,13 @@ const AdminQuizManagement = () => {
             showCorrectAnswers: true,
             showFeedback: true,
             maxAttempts: 3,
+            retakeCooldownMinutes: 0,
             questionsRandomized: false,
             optionsRandomized: false
           }
         });
         setAnalytics(null);
+        setQuestionPools([]);
       }
     } catch (error: unknown) {
       toast({
@@ -317,6 +418,27 @@ const AdminQuizManagement = () => {
     }
   };
 
+  const addQuestionPool = () => {
+    setQuestionPools([...questionPools, { tag: bankTags[0]?.tag || '', count: 1 }]);
+  };
+
+  const updateQuestionPool = (poolIndex: number, changes: Partial<QuestionPool>) => {
+    setQuestionPools(questionPools.map((pool, index) => (index === poolIndex ? { ...pool, ...changes } : pool)));
+  };
+
+  const removeQuestionPool = (poolIndex: number) => {
+    setQuestionPools(questionPools.filter((_, index) => index !== poolIndex));
+  };
+
+  // Active bank questions a pool can draw from
+  const getPoolAvailability = (pool: QuestionPool) => {
+    const tag = bankTags.find(summary => summary.tag === pool.tag.trim().toLowerCase());
+    if (!tag) {
+      return 0;
+    }
+    return pool.difficulty ? tag.byDifficulty[pool.difficulty] || 0 : tag.total;
+  };
+
   const calculateTotalScore = () => {
     return watchedQuestions.reduce((total, question) => total + (question.points || 0), 0);
   };
@@ -339,7 +461,7 @@ const AdminQuizManagement = () => {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Question {questionIndex + 1}</CardTitle>
-            {fields.length > 1 && (
+            {(fields.length > 1 || questionPools.length > 0) && (
               <Button
                 type="button"
                 variant="outline"
@@ -372,7 +494,7 @@ const AdminQuizManagement = () => {
               <Select
                 value={questionType}
                 onValueChange={(value) => {
-                  setValue(`questions.${questionIndex}.type`, value as 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER');
+                  setValue(`questions.${questionIndex}.type`, value as 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER' | 'ESSAY');
                   // Reset options and correct answer when type changes
                   if (value === 'TRUE_FALSE') {
                     setValue(`questions.${questionIndex}.options`, []);
@@ -393,6 +515,7 @@ const AdminQuizManagement = () => {
                   <SelectItem value="MULTIPLE_CHOICE">Multiple Choice</SelectItem>
                   <SelectItem value="TRUE_FALSE">True/False</SelectItem>
                   <SelectItem value="SHORT_ANSWER">Short Answer</SelectItem>
+                  <SelectItem value="ESSAY">Essay (graded manually)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -493,6 +616,18 @@ const AdminQuizManagement = () => {
             </div>
           )}
 
+          {/* Essay */}
+          {questionType === 'ESSAY' && (
+            <div>
+              <Label htmlFor={`questions.${questionIndex}.correctAnswer`}>Marking Guide (Optional)</Label>
+              <Textarea
+                {...register(`questions.${questionIndex}.correctAnswer`)}
+                placeholder="What graders should look for. Essay answers are scored in the grading queue."
+                className="mt-1"
+              />
+            </div>
+          )}
+
           <div>
             <Label htmlFor={`questions.${questionIndex}.explanation`}>Explanation (Optional)</Label>
             <Textarea
@@ -506,6 +641,37 @@ const AdminQuizManagement = () => {
     );
   };
 
+  const formatQuestionTime = (seconds: number | null) => {
+    if (seconds === null) return 'N/A';
+    return seconds < 60 ? `${Math.round(seconds)}s` : formatTime(seconds);
+  };
+
+  const handleExportItemAnalysis = () => {
+    if (!itemAnalysis) return;
+
+    const header = ['Question', 'Type', 'Points', 'Responses', 'Omitted', 'P-Value', 'Point-Biserial', 'Avg Time (s)', 'Option Frequencies', 'Flags'];
+    const rows = itemAnalysis.items.map(item => [
+      item.question,
+      item.type,
+      item.points,
+      item.responses,
+      item.omitted,
+      item.pValue,
+      item.pointBiserial,
+      item.averageTimeSpent,
+      item.options.map(option => `${option.option}${option.isCorrect ? ' (correct)' : ''}: ${option.count}`).join('; '),
+      item.flags.map(flag => ITEM_FLAG_LABELS[flag]).join('; ')
+    ]);
+    const csv = [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `quiz-item-analysis-${lessonId}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const renderAnalytics = () => {
     if (!analytics) {
       return (
@@ -668,6 +834,77 @@ const AdminQuizManagement = () => {
             </CardContent>
           </Card>
         )}
+
+        {/* Item Analysis */}
+        {itemAnalysis && itemAnalysis.items.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Item Analysis</CardTitle>
+                  <CardDescription>
+                    Difficulty (p-value: share of points earned) and discrimination (point-biserial: how well
+                    the question separates stronger from weaker students) across {itemAnalysis.attemptsAnalyzed} completed
+                    attempt(s). Questions are flagged once they have {itemAnalysis.minResponsesForFlags} responses.
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleExportItemAnalysis}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Responses</TableHead>
+                    <TableHead>P-Value</TableHead>
+                    <TableHead>Point-Biserial</TableHead>
+                    <TableHead>Avg Time</TableHead>
+                    <TableHead>Options Chosen</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {itemAnalysis.items.map(item => (
+                    <TableRow key={item.questionId} className={item.needsReview ? 'bg-orange-50' : undefined}>
+                      <TableCell className="max-w-xs">
+                        <p className="font-medium">{item.question}</p>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {item.flags.map(flag => (
+                            <Badge key={flag} className="bg-orange-100 text-orange-800">
+                              <Flag className="h-3 w-3 mr-1" />
+                              {ITEM_FLAG_LABELS[flag]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {item.responses}
+                        {item.omitted > 0 && <p className="text-xs text-gray-500">{item.omitted} blank</p>}
+                      </TableCell>
+                      <TableCell>{item.pValue ?? 'N/A'}</TableCell>
+                      <TableCell>{item.pointBiserial ?? 'N/A'}</TableCell>
+                      <TableCell>{formatQuestionTime(item.averageTimeSpent)}</TableCell>
+                      <TableCell className="text-sm">
+                        {item.options.length === 0 ? (
+                          <span className="text-gray-500">—</span>
+                        ) : (
+                          item.options.map(option => (
+                            <div key={option.option} className={option.isCorrect ? 'text-green-700 font-medium' : 'text-gray-700'}>
+                              {option.option}: {Math.round(option.rate * 100)}% ({option.count})
+                            </div>
+                          ))
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
       </div>
     );
   };
@@ -735,6 +972,16 @@ const AdminQuizManagement = () => {
                     />
                   </div>
 
+                  <div>
+                    <Label htmlFor="settings.retakeCooldownMinutes">Wait Between Attempts (minutes)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      {...register('settings.retakeCooldownMinutes', { valueAsNumber: true })}
+                      placeholder="No wait"
+                    />
+                  </div>
+
                   <div className="space-y-2">
                     <Label>Options</Label>
                     <div className="flex flex-col space-y-2">
@@ -784,6 +1031,92 @@ const AdminQuizManagement = () => {
                 </CardContent>
               </Card>
 
+              {/* Question Pools */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Question Pools</CardTitle>
+                      <CardDescription>
+                        Each attempt also gets random questions from the question bank by tag
+                      </CardDescription>
+                    </div>
+                    <Button type="button" variant="outline" onClick={addQuestionPool}>
+                      <Library className="h-4 w-4 mr-1" />
+                      Add Pool
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {questionPools.length === 0 ? (
+                    <p className="text-sm text-gray-500">No pools. Only the questions above are used.</p>
+                  ) : (
+                    questionPools.map((pool, poolIndex) => {
+                      const available = getPoolAvailability(pool);
+                      return (
+                        <div key={poolIndex} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                          <div>
+                            <Label>Tag</Label>
+                            <Input
+                              list="question-bank-tags"
+                              value={pool.tag}
+                              onChange={(e) => updateQuestionPool(poolIndex, { tag: e.target.value })}
+                              placeholder="e.g. algebra"
+                            />
+                          </div>
+                          <div>
+                            <Label>Difficulty</Label>
+                            <Select
+                              value={pool.difficulty || 'ANY'}
+                              onValueChange={(value) => updateQuestionPool(poolIndex, {
+                                difficulty: value === 'ANY' ? undefined : value as QuestionDifficulty
+                              })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="ANY">Any difficulty</SelectItem>
+                                <SelectItem value="EASY">Easy</SelectItem>
+                                <SelectItem value="MEDIUM">Medium</SelectItem>
+                                <SelectItem value="HARD">Hard</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label>Questions per Attempt</Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={pool.count}
+                              onChange={(e) => updateQuestionPool(poolIndex, { count: parseInt(e.target.value) || 0 })}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className={`text-sm ${available < pool.count ? 'text-red-600' : 'text-gray-500'}`}>
+                              {available} available
+                            </span>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeQuestionPool(poolIndex)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })
+                  )}
+                  <datalist id="question-bank-tags">
+                    {bankTags.map(tag => (
+                      <option key={tag.tag} value={tag.tag} />
+                    ))}
+                  </datalist>
+                </CardContent>
+              </Card>
+
               {/* Action Buttons */}
               <div className="flex items-center justify-between">
                 <Button
@@ -874,6 +1207,13 @@ const AdminQuizManagement = () => {
                         </div>
                       )}
 
+                      {question.type === 'ESSAY' && (
+                        <div>
+                          <textarea disabled rows={5} className="w-full p-2 border rounded" placeholder="Student essay will appear here..." />
+                          <p className="text-sm text-gray-600 mt-1">Graded manually{question.correctAnswer ? `. Marking guide: ${question.correctAnswer}` : ''}</p>
+                        </div>
+                      )}
+
                       {question.explanation && (
                         <div className="mt-4 p-3 bg-blue-50 rounded">
                           <p className="text-sm"><strong>Explanation:</strong> {question.explanation}</p>
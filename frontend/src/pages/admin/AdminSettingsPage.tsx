@@ -32,6 +32,7 @@ interface PlatformSettings {
   enableDiscordIntegration: boolean;
   enableAnalytics: boolean;
   maintenanceMode: boolean;
+  requireAdminTwoFactor: boolean;
   defaultUserRole: string;
 }
 
@@ -48,6 +49,7 @@ const AdminSettingsPage = () => {
     enableDiscordIntegration: false,
     enableAnalytics: true,
     maintenanceMode: false,
+    requireAdminTwoFactor: true,
     defaultUserRole: 'student'
   });
   const [loading, setLoading] = useState(true);
@@ -259,6 +261,18 @@ const AdminSettingsPage = () => {
                   />
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="requireAdminTwoFactor">Require Two-Factor for Admins</Label>
+                    <p className="text-sm text-gray-600">Admins must set up an authenticator app to sign in</p>
+                  </div>
+                  <Switch
+                    id="requireAdminTwoFactor"
+                    checked={settings.requireAdminTwoFactor}
+                    onCheckedChange={(checked) => handleSettingChange('requireAdminTwoFactor', checked)}
+                  />
+                </div>
+
                 <div>
                   <Label htmlFor="defaultUserRole">Default User Role</Label>
                   <Select
@@ -302,7 +316,16 @@ const AdminSettingsPage = () => {
                 </div>
 
                 <div>
-                  <Label>Allowed File Types</Label>
+                  <Label htmlFor="allowedFileTypes">Allowed File Types</Label>
+                  <Input
+                    id="allowedFileTypes"
+                    value={settings.allowedFileTypes.join(', ')}
+                    onChange={(e) => handleSettingChange(
+                      'allowedFileTypes',
+                      e.target.value.split(',').map(type => type.trim().toLowerCase()).filter(Boolean)
+                    )}
+                    placeholder="jpg, png, pdf"
+                  />
                   <div className="flex flex-wrap gap-2 mt-2">
                     {settings.allowedFileTypes.map((type, index) => (
                       <Badge key={index} variant="secondary">
@@ -311,7 +334,7 @@ const AdminSettingsPage = () => {
                     ))}
                   </div>
                   <p className="text-sm text-gray-600 mt-1">
-                    Supported: jpg, png, pdf, mp4, doc, docx, txt
+                    Comma-separated file extensions accepted by uploads
                   </p>
                 </div>
               </CardContent>
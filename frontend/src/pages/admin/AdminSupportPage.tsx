@@ -0,0 +1,563 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/layout/Layout';
+import AdminNavigation from '@/components/admin/AdminNavigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  LifeBuoy,
+  HelpCircle,
+  Search,
+  Send,
+  Loader2,
+  AlertCircle,
+  Plus,
+  Edit,
+  Trash2,
+  UserCheck,
+  RefreshCw
+} from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContextUtils';
+import {
+  adminSupportApi,
+  getTicketUserName,
+  type FaqEntry,
+  type FaqInput,
+  type SupportCategory,
+  type TicketPriority,
+  type TicketStatus
+} from '@/services/supportApi';
+
+const STATUSES: TicketStatus[] = ['OPEN', 'PENDING', 'RESOLVED', 'CLOSED'];
+const PRIORITIES: TicketPriority[] = ['URGENT', 'HIGH', 'MEDIUM', 'LOW'];
+const CATEGORIES: SupportCategory[] = ['GENERAL', 'TECHNICAL', 'COURSE', 'PAYMENT', 'ACCOUNT'];
+
+const EMPTY_FAQ: FaqInput = {
+  question: '',
+  answer: '',
+  category: 'GENERAL',
+  order: 0,
+  isPublished: true
+};
+
+const AdminSupportPage = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<string>('ACTIVE');
+  const [assigneeFilter, setAssigneeFilter] = useState<string>('ALL');
+  const [search, setSearch] = useState('');
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+  const [replyMessage, setReplyMessage] = useState('');
+  const [replyStatus, setReplyStatus] = useState<string>('PENDING');
+  const [editingFaq, setEditingFaq] = useState<(FaqInput & { id?: string }) | null>(null);
+
+  const {
+    data: queue,
+    isLoading: queueLoading,
+    error: queueError,
+    refetch: refetchQueue
+  } = useQuery({
+    queryKey: ['admin-support-queue', statusFilter, assigneeFilter, search],
+    queryFn: () => adminSupportApi.getQueue({
+      status: statusFilter === 'ACTIVE' ? undefined : statusFilter as TicketStatus,
+      assignedTo: assigneeFilter === 'ALL' ? undefined : assigneeFilter,
+      search: search || undefined,
+      limit: 50
+    }),
+  });
+
+  const { data: selectedTicket, isLoading: ticketLoading } = useQuery({
+    queryKey: ['admin-support-ticket', selectedTicketId],
+    queryFn: () => adminSupportApi.getTicket(selectedTicketId!),
+    enabled: !!selectedTicketId,
+  });
+
+  const { data: faqs = [], isLoading: faqsLoading } = useQuery({
+    queryKey: ['admin-faqs'],
+    queryFn: () => adminSupportApi.getFaqs(),
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onTicketChanged = (ticketId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['admin-support-ticket', ticketId] });
+    queryClient.invalidateQueries({ queryKey: ['admin-support-queue'] });
+  };
+
+  const updateTicketMutation = useMutation({
+    mutationFn: ({ ticketId, updates }: { ticketId: string; updates: Parameters<typeof adminSupportApi.updateTicket>[1] }) =>
+      adminSupportApi.updateTicket(ticketId, updates),
+    onSuccess: (ticket) => onTicketChanged(ticket.id),
+    onError: onMutationError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: (ticketId: string) => adminSupportApi.reply(ticketId, replyMessage, replyStatus as TicketStatus),
+    onSuccess: (ticket) => {
+      onTicketChanged(ticket.id);
+      setReplyMessage('');
+      toast({ title: 'Reply sent', description: `The student has been notified about ${ticket.ticketNumber}.` });
+    },
+    onError: onMutationError,
+  });
+
+  const saveFaqMutation = useMutation({
+    mutationFn: ({ id, ...input }: FaqInput & { id?: string }) =>
+      id ? adminSupportApi.updateFaq(id, input) : adminSupportApi.createFaq(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-faqs'] });
+      setEditingFaq(null);
+      toast({ title: 'FAQ saved', description: 'The help page has been updated.' });
+    },
+    onError: onMutationError,
+  });
+
+  const deleteFaqMutation = useMutation({
+    mutationFn: (faqId: string) => adminSupportApi.deleteFaq(faqId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-faqs'] });
+    },
+    onError: onMutationError,
+  });
+
+  const getStatusBadge = (status: TicketStatus) => {
+    switch (status) {
+      case 'OPEN':
+        return <Badge className="bg-yellow-100 text-yellow-800">Open</Badge>;
+      case 'PENDING':
+        return <Badge className="bg-blue-100 text-blue-800">Pending</Badge>;
+      case 'RESOLVED':
+        return <Badge className="bg-green-100 text-green-800">Resolved</Badge>;
+      case 'CLOSED':
+        return <Badge className="bg-gray-100 text-gray-800">Closed</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const getPriorityBadge = (priority: TicketPriority) => {
+    switch (priority) {
+      case 'URGENT':
+        return <Badge className="bg-red-600 text-white">Urgent</Badge>;
+      case 'HIGH':
+        return <Badge className="bg-red-100 text-red-800">High</Badge>;
+      case 'MEDIUM':
+        return <Badge className="bg-yellow-100 text-yellow-800">Medium</Badge>;
+      case 'LOW':
+        return <Badge className="bg-green-100 text-green-800">Low</Badge>;
+      default:
+        return <Badge variant="outline">{priority}</Badge>;
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const handleSubmitReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedTicketId && replyMessage.trim()) {
+      replyMutation.mutate(selectedTicketId);
+    }
+  };
+
+  const handleSaveFaq = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingFaq) {
+      saveFaqMutation.mutate(editingFaq);
+    }
+  };
+
+  const handleDeleteFaq = (faq: FaqEntry) => {
+    if (window.confirm(`Delete the FAQ entry "${faq.question}"?`)) {
+      deleteFaqMutation.mutate(faq.id);
+    }
+  };
+
+  return (
+    <Layout>
+      <AdminNavigation />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Support</h1>
+            <p className="text-gray-600 mt-2">
+              Answer student tickets and manage the help page FAQ
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => refetchQueue()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        <Tabs defaultValue="tickets">
+          <TabsList>
+            <TabsTrigger value="tickets">
+              <LifeBuoy className="h-4 w-4 mr-2" />
+              Tickets
+            </TabsTrigger>
+            <TabsTrigger value="faq">
+              <HelpCircle className="h-4 w-4 mr-2" />
+              FAQ
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="tickets" className="mt-6">
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+              {/* Queue */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Queue</CardTitle>
+                  <CardDescription>
+                    {STATUSES.map(status => `${queue?.counts[status] || 0} ${status.toLowerCase()}`).join(' · ')}
+                  </CardDescription>
+                  <div className="space-y-2 pt-2">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                      <Input
+                        placeholder="Search subject or ticket number..."
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={statusFilter} onValueChange={setStatusFilter}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ACTIVE">Open & pending</SelectItem>
+                          {STATUSES.map(status => (
+                            <SelectItem key={status} value={status}>{status}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ALL">Everyone</SelectItem>
+                          <SelectItem value="me">Assigned to me</SelectItem>
+                          <SelectItem value="unassigned">Unassigned</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {queueLoading ? (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+                    </div>
+                  ) : queueError ? (
+                    <div className="text-center py-8">
+                      <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+                      <p className="text-gray-600">{(queueError as Error).message}</p>
+                    </div>
+                  ) : !queue || queue.tickets.length === 0 ? (
+                    <p className="text-center text-gray-600 py-8">No tickets match these filters.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {queue.tickets.map(ticket => (
+                        <button
+                          key={ticket.id}
+                          className={`w-full text-left border rounded-lg p-3 hover:bg-gray-50 ${selectedTicketId === ticket.id ? 'border-eduBlue-600 bg-eduBlue-50' : ''}`}
+                          onClick={() => setSelectedTicketId(ticket.id)}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="min-w-0">
+                              <p className="font-medium truncate">{ticket.subject}</p>
+                              <p className="text-xs text-gray-500">
+                                {ticket.ticketNumber} · {getTicketUserName(ticket.studentId)}
+                              </p>
+                            </div>
+                            <div className="flex flex-col items-end gap-1">
+                              {getStatusBadge(ticket.status)}
+                              {getPriorityBadge(ticket.priority)}
+                            </div>
+                          </div>
+                          <div className="flex justify-between text-xs text-gray-500 mt-2">
+                            <span>{ticket.assignedTo ? getTicketUserName(ticket.assignedTo) : 'Unassigned'}</span>
+                            <span>{formatDate(ticket.lastActivityAt)}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Ticket thread */}
+              <Card className="lg:col-span-3">
+                {!selectedTicketId ? (
+                  <CardContent className="py-16 text-center text-gray-600">
+                    <LifeBuoy className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                    Select a ticket to view the conversation.
+                  </CardContent>
+                ) : ticketLoading || !selectedTicket ? (
+                  <CardContent className="flex justify-center py-16">
+                    <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+                  </CardContent>
+                ) : (
+                  <>
+                    <CardHeader>
+                      <CardTitle>{selectedTicket.subject}</CardTitle>
+                      <CardDescription>
+                        {selectedTicket.ticketNumber} · {selectedTicket.category} · opened by {getTicketUserName(selectedTicket.studentId)} on {formatDate(selectedTicket.createdAt)}
+                      </CardDescription>
+                      <div className="flex flex-wrap items-center gap-2 pt-2">
+                        <Select
+                          value={selectedTicket.status}
+                          onValueChange={(status) => updateTicketMutation.mutate({ ticketId: selectedTicket.id, updates: { status: status as TicketStatus } })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STATUSES.map(status => (
+                              <SelectItem key={status} value={status}>{status}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={selectedTicket.priority}
+                          onValueChange={(priority) => updateTicketMutation.mutate({ ticketId: selectedTicket.id, updates: { priority: priority as TicketPriority } })}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PRIORITIES.map(priority => (
+                              <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {user && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={updateTicketMutation.isPending}
+                            onClick={() => updateTicketMutation.mutate({ ticketId: selectedTicket.id, updates: { assignedTo: user.id } })}
+                          >
+                            <UserCheck className="h-4 w-4 mr-2" />
+                            Assign to me
+                          </Button>
+                        )}
+                        <span className="text-sm text-gray-500">
+                          Assignee: {selectedTicket.assignedTo ? getTicketUserName(selectedTicket.assignedTo) : 'none'}
+                        </span>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="max-h-[28rem] overflow-y-auto space-y-3">
+                        {selectedTicket.messages.map(message => (
+                          <div
+                            key={message._id}
+                            className={`rounded-lg p-3 ${message.authorRole === 'admin' ? 'bg-eduBlue-50 ml-8' : 'bg-gray-50 mr-8'}`}
+                          >
+                            <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                              <span className="font-medium">
+                                {getTicketUserName(message.authorId)}{message.authorRole === 'admin' ? ' (Support)' : ''}
+                              </span>
+                              <span>{formatDate(message.createdAt)}</span>
+                            </div>
+                            <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                          </div>
+                        ))}
+                      </div>
+                      {selectedTicket.status === 'CLOSED' ? (
+                        <p className="text-sm text-gray-500 text-center">Reopen this ticket to reply.</p>
+                      ) : (
+                        <form onSubmit={handleSubmitReply} className="space-y-3">
+                          <Textarea
+                            value={replyMessage}
+                            onChange={(e) => setReplyMessage(e.target.value)}
+                            placeholder="Write a reply to the student..."
+                            rows={4}
+                          />
+                          <div className="flex items-center justify-end gap-2">
+                            <Label className="text-sm text-gray-600">After replying, set status to</Label>
+                            <Select value={replyStatus} onValueChange={setReplyStatus}>
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="PENDING">PENDING</SelectItem>
+                                <SelectItem value="RESOLVED">RESOLVED</SelectItem>
+                                <SelectItem value="OPEN">OPEN</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Button type="submit" disabled={!replyMessage.trim() || replyMutation.isPending}>
+                              {replyMutation.isPending ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <Send className="h-4 w-4 mr-2" />
+                              )}
+                              Send Reply
+                            </Button>
+                          </div>
+                        </form>
+                      )}
+                    </CardContent>
+                  </>
+                )}
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="faq" className="mt-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle>FAQ Entries</CardTitle>
+                  <CardDescription>Published entries appear on the student Help & Support page</CardDescription>
+                </div>
+                <Button onClick={() => setEditingFaq({ ...EMPTY_FAQ, order: faqs.length + 1 })}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Entry
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {faqsLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+                  </div>
+                ) : faqs.length === 0 ? (
+                  <p className="text-center text-gray-600 py-8">No FAQ entries yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {faqs.map(faq => (
+                      <div key={faq.id} className="border rounded-lg p-4 flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-xs text-gray-500">#{faq.order}</span>
+                            <h4 className="font-medium">{faq.question}</h4>
+                          </div>
+                          <p className="text-sm text-gray-600">{faq.answer}</p>
+                          <div className="flex gap-2 mt-2">
+                            <Badge variant="outline">{faq.category}</Badge>
+                            {!faq.isPublished && <Badge variant="secondary">Draft</Badge>}
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setEditingFaq(faq)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleDeleteFaq(faq)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        {/* FAQ editor */}
+        <Dialog open={!!editingFaq} onOpenChange={(open) => !open && setEditingFaq(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingFaq?.id ? 'Edit FAQ Entry' : 'New FAQ Entry'}</DialogTitle>
+            </DialogHeader>
+            {editingFaq && (
+              <form onSubmit={handleSaveFaq} className="space-y-4">
+                <div>
+                  <Label htmlFor="faqQuestion">Question</Label>
+                  <Input
+                    id="faqQuestion"
+                    value={editingFaq.question}
+                    onChange={(e) => setEditingFaq({ ...editingFaq, question: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="faqAnswer">Answer</Label>
+                  <Textarea
+                    id="faqAnswer"
+                    value={editingFaq.answer}
+                    onChange={(e) => setEditingFaq({ ...editingFaq, answer: e.target.value })}
+                    rows={5}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Category</Label>
+                    <Select
+                      value={editingFaq.category}
+                      onValueChange={(category) => setEditingFaq({ ...editingFaq, category: category as SupportCategory })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CATEGORIES.map(category => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="faqOrder">Display Order</Label>
+                    <Input
+                      id="faqOrder"
+                      type="number"
+                      value={editingFaq.order}
+                      onChange={(e) => setEditingFaq({ ...editingFaq, order: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="faqPublished">Published</Label>
+                  <Switch
+                    id="faqPublished"
+                    checked={editingFaq.isPublished}
+                    onCheckedChange={(isPublished) => setEditingFaq({ ...editingFaq, isPublished })}
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setEditingFaq(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveFaqMutation.isPending}>
+                    {saveFaqMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save
+                  </Button>
+                </DialogFooter>
+              </form>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminSupportPage;
@@ -24,7 +24,9 @@ import {
   Trash2,
   Shield,
   Activity,
-  ArrowLeft
+  ArrowLeft,
+  LogOut,
+  KeyRound
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -72,7 +74,7 @@ const AdminUserManagement = () => {
     password: '',
     firstName: '',
     lastName: '',
-    role: 'student' as 'admin' | 'user' | 'student' | 'visitor',
+    role: 'student' as 'admin' | 'instructor' | 'user' | 'student' | 'visitor',
     enrollmentStatus: 'active' as 'active' | 'inactive' | 'suspended'
   });
 
@@ -142,6 +144,46 @@ const AdminUserManagement = () => {
     }
   };
 
+  const handleResetTwoFactor = async (userId: string) => {
+    if (!window.confirm("Reset this user's two-factor authentication? They will need to set it up again.")) {
+      return;
+    }
+    try {
+      await userAPI.resetUserTwoFactor(userId);
+      toast({
+        title: "Success",
+        description: "Two-factor authentication reset",
+      });
+    } catch (error: unknown) {
+      console.error('Reset two-factor error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset two-factor authentication",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRevokeSessions = async (userId: string) => {
+    if (!window.confirm('Sign this user out of every device?')) {
+      return;
+    }
+    try {
+      const revoked = await userAPI.revokeUserSessions(userId);
+      toast({
+        title: "Success",
+        description: `Signed out of ${revoked} session(s)`,
+      });
+    } catch (error: unknown) {
+      console.error('Revoke sessions error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke sessions",
+        variant: "destructive"
+      });
+    }
+  };
+
   const getUserId = (user: User): string => {
     return user.id || (user as User & { _id?: string })._id || '';
   };
@@ -285,6 +327,7 @@ const AdminUserManagement = () => {
   const getRoleBadge = (role: string) => {
     const colors = {
       admin: 'bg-red-100 text-red-800',
+      instructor: 'bg-purple-100 text-purple-800',
       user: 'bg-blue-100 text-blue-800',
       student: 'bg-green-100 text-green-800',
       visitor: 'bg-gray-100 text-gray-800'
@@ -394,13 +437,14 @@ const AdminUserManagement = () => {
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <Label htmlFor="role">Role</Label>
-                    <Select value={newUserData.role} onValueChange={(value: 'admin' | 'user' | 'student' | 'visitor') => setNewUserData({...newUserData, role: value})}>
+                    <Select value={newUserData.role} onValueChange={(value: 'admin' | 'instructor' | 'user' | 'student' | 'visitor') => setNewUserData({...newUserData, role: value})}>
                       <SelectTrigger>
                         <SelectValue placeholder="Select role" />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="student">Student</SelectItem>
                         <SelectItem value="user">User</SelectItem>
+                        <SelectItem value="instructor">Instructor</SelectItem>
                         <SelectItem value="admin">Admin</SelectItem>
                         <SelectItem value="visitor">Visitor</SelectItem>
                       </SelectContent>
@@ -575,6 +619,14 @@ const AdminUserManagement = () => {
                               <Shield className="h-4 w-4 mr-2" />
                               Suspend
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleRevokeSessions(getUserId(user))}>
+                              <LogOut className="h-4 w-4 mr-2" />
+                              Sign Out Everywhere
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleResetTwoFactor(getUserId(user))}>
+                              <KeyRound className="h-4 w-4 mr-2" />
+                              Reset Two-Factor
+                            </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem 
                               onClick={() => handleDeleteUser(getUserId(user))}
@@ -653,13 +705,14 @@ const AdminUserManagement = () => {
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="edit-role">Role</Label>
-                  <Select value={newUserData.role} onValueChange={(value: 'admin' | 'user' | 'student' | 'visitor') => setNewUserData({...newUserData, role: value})}>
+                  <Select value={newUserData.role} onValueChange={(value: 'admin' | 'instructor' | 'user' | 'student' | 'visitor') => setNewUserData({...newUserData, role: value})}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select role" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="student">Student</SelectItem>
                       <SelectItem value="user">User</SelectItem>
+                      <SelectItem value="instructor">Instructor</SelectItem>
                       <SelectItem value="admin">Admin</SelectItem>
                       <SelectItem value="visitor">Visitor</SelectItem>
                     </SelectContent>
@@ -27,6 +27,7 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { studentApi as studentAPI } from '@/services/studentApi';
+import { certificateApi } from '@/services/certificateApi';
 import { useAuth } from '@/contexts/AuthContextUtils';
 import { useUpdateEnrollmentStatus } from '@/hooks/useCourseProgress';
 import { toast } from '@/hooks/use-toast';
@@ -49,6 +50,8 @@ interface CourseEnrollment {
     timeSpent: number;
     lastActivityDate?: string;
   };
+  certificateIssued?: boolean;
+  certificateId?: string;
   programme: {
     id: string;
     title: string;
@@ -181,6 +184,21 @@ const MyCoursesPage: React.FC = () => {
     navigate(`/student-dashboard/courses/${enrollment.programmeId}?enrollmentId=${enrollment.id}`);
   };
 
+  const handleDownloadCertificate = async (enrollment: CourseEnrollment) => {
+    try {
+      // Certificates are issued on completion; claim covers courses completed before issuance existed
+      const certificateId = enrollment.certificateId
+        || (await certificateApi.claimCertificate(enrollment.id)).certificateId;
+      await certificateApi.downloadCertificate(certificateId);
+    } catch (error) {
+      toast({
+        title: "Certificate unavailable",
+        description: error instanceof Error ? error.message : "Failed to download certificate",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleStatusUpdate = async (enrollmentId: string, newStatus: 'ACTIVE' | 'COMPLETED' | 'PAUSED') => {
     try {
       await updateStatus(enrollmentId, newStatus);
@@ -567,11 +585,12 @@ const MyCoursesPage: React.FC = () => {
                         <div className="flex gap-2">
                           <Button 
                             variant="outline" 
-                            onClick={() => handleViewCourse(enrollment)}
+                            onClick={() => handleDownloadCertificate(enrollment)}
                             className="flex-1"
                             disabled={statusUpdateLoading}
                           >
-                            View Certificate
+                            <Award className="h-4 w-4 mr-2" />
+                            Download Certificate
                           </Button>
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
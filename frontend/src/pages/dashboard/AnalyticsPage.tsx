@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
 import DashboardLayout from '@/components/dashboard/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -20,106 +20,22 @@ import {
   Trophy,
   Star,
   Eye,
-  Download
+  Download,
+  Loader2,
+  AlertCircle
 } from 'lucide-react';
-import { useAuth } from '@/contexts/AuthContextUtils';
-
-interface AnalyticsData {
-  totalCourses: number;
-  completedCourses: number;
-  totalLessons: number;
-  completedLessons: number;
-  totalQuizzes: number;
-  passedQuizzes: number;
-  averageScore: number;
-  studyTime: number; // in minutes
-  streakDays: number;
-  currentLevel: number;
-  experiencePoints: number;
-  nextLevelXP: number;
-  weeklyProgress: {
-    date: string;
-    lessonsCompleted: number;
-    timeSpent: number;
-    quizzesPassed: number;
-  }[];
-  courseProgress: {
-    courseId: string;
-    courseTitle: string;
-    progress: number;
-    lessonsCompleted: number;
-    totalLessons: number;
-    averageScore: number;
-  }[];
-  achievements: {
-    id: string;
-    title: string;
-    description: string;
-    icon: string;
-    earnedAt: string;
-    progress: number;
-    maxProgress: number;
-  }[];
-  learningStreak: {
-    date: string;
-    active: boolean;
-    minutes: number;
-  }[];
-}
+import { analyticsApi } from '@/services/analyticsApi';
 
 const AnalyticsPage: React.FC = () => {
-  const { user } = useAuth();
   const [timeRange, setTimeRange] = useState('30'); // days
   const [selectedCourse, setSelectedCourse] = useState('all');
 
-  // Mock analytics data (would be fetched from API)
-  const mockAnalyticsData: AnalyticsData = {
-    totalCourses: 8,
-    completedCourses: 3,
-    totalLessons: 156,
-    completedLessons: 89,
-    totalQuizzes: 45,
-    passedQuizzes: 38,
-    averageScore: 87.5,
-    studyTime: 2840, // minutes
-    streakDays: 12,
-    currentLevel: 7,
-    experiencePoints: 2840,
-    nextLevelXP: 3200,
-    weeklyProgress: [
-      { date: '2024-01-01', lessonsCompleted: 3, timeSpent: 120, quizzesPassed: 2 },
-      { date: '2024-01-02', lessonsCompleted: 2, timeSpent: 90, quizzesPassed: 1 },
-      { date: '2024-01-03', lessonsCompleted: 4, timeSpent: 180, quizzesPassed: 3 },
-      { date: '2024-01-04', lessonsCompleted: 1, timeSpent: 45, quizzesPassed: 1 },
-      { date: '2024-01-05', lessonsCompleted: 5, timeSpent: 210, quizzesPassed: 4 },
-      { date: '2024-01-06', lessonsCompleted: 2, timeSpent: 75, quizzesPassed: 2 },
-      { date: '2024-01-07', lessonsCompleted: 3, timeSpent: 135, quizzesPassed: 2 },
-    ],
-    courseProgress: [
-      { courseId: '1', courseTitle: 'JavaScript Basics', progress: 85, lessonsCompleted: 17, totalLessons: 20, averageScore: 92 },
-      { courseId: '2', courseTitle: 'Web Development Fundamentals', progress: 60, lessonsCompleted: 12, totalLessons: 20, averageScore: 88 },
-      { courseId: '3', courseTitle: 'Data Science Fundamentals', progress: 45, lessonsCompleted: 9, totalLessons: 20, averageScore: 85 },
-      { courseId: '4', courseTitle: 'Python Programming', progress: 100, lessonsCompleted: 20, totalLessons: 20, averageScore: 94 },
-      { courseId: '5', courseTitle: 'Digital Marketing Mastery', progress: 30, lessonsCompleted: 6, totalLessons: 20, averageScore: 82 },
-    ],
-    achievements: [
-      { id: '1', title: 'First Steps', description: 'Complete your first lesson', icon: '🎯', earnedAt: '2024-01-01', progress: 1, maxProgress: 1 },
-      { id: '2', title: 'Quiz Master', description: 'Pass 10 quizzes with 90%+ score', icon: '🏆', earnedAt: '2024-01-05', progress: 12, maxProgress: 10 },
-      { id: '3', title: 'Streak Champion', description: 'Maintain a 7-day learning streak', icon: '🔥', earnedAt: '2024-01-07', progress: 12, maxProgress: 7 },
-      { id: '4', title: 'Course Completer', description: 'Complete your first course', icon: '🎓', earnedAt: '2024-01-10', progress: 3, maxProgress: 1 },
-      { id: '5', title: 'Time Warrior', description: 'Study for 50 hours total', icon: '⏰', earnedAt: '', progress: 47, maxProgress: 50 },
-      { id: '6', title: 'Perfect Score', description: 'Get 100% on 5 quizzes', icon: '⭐', earnedAt: '', progress: 3, maxProgress: 5 },
-    ],
-    learningStreak: Array.from({ length: 30 }, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - (29 - i));
-      return {
-        date: date.toISOString().split('T')[0],
-        active: i >= 18, // Last 12 days are active
-        minutes: i >= 18 ? Math.floor(Math.random() * 120) + 30 : 0
-      };
-    })
-  };
+  const { data: analytics, isLoading, error } = useQuery({
+    queryKey: ['student-analytics', timeRange, selectedCourse],
+    queryFn: () => analyticsApi.getDashboardAnalytics(Number(timeRange), selectedCourse),
+    // Keep the page on screen while switching range or course
+    placeholderData: keepPreviousData,
+  });
 
   const formatTime = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
@@ -141,17 +57,63 @@ const AnalyticsPage: React.FC = () => {
     return 'text-red-600';
   };
 
+  const percentage = (part: number, total: number) => {
+    return total > 0 ? Math.round((part / total) * 100) : 0;
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <DashboardLayout>
+        <Card>
+          <CardContent className="p-12 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+            <h3 className="text-lg font-semibold mb-2">Unable to load your analytics</h3>
+            <p className="text-gray-600">{(error as Error)?.message}</p>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
   const getLevelProgress = () => {
-    const currentLevelXP = 2400; // XP needed for current level
-    const nextLevelXP = 3200; // XP needed for next level
-    const xpInLevel = mockAnalyticsData.experiencePoints - currentLevelXP;
-    const xpNeededForNext = nextLevelXP - currentLevelXP;
-    return (xpInLevel / xpNeededForNext) * 100;
+    const xpInLevel = analytics.experiencePoints - analytics.currentLevelXP;
+    const xpNeededForNext = analytics.nextLevelXP - analytics.currentLevelXP;
+    return Math.min(percentage(xpInLevel, xpNeededForNext), 100);
   };
 
+  // Short ranges are listed day by day, longer ones week by week
+  const showDaily = timeRange === '7';
+  const progressRows = showDaily ? [...analytics.daily].reverse() : [...analytics.weekly].reverse();
+  const streakDays = analytics.learningStreak.slice(-30);
+
   const handleExportData = () => {
-    // This would export analytics data as CSV/PDF
-    console.log('Export analytics data');
+    const header = ['Date', 'Lessons Completed', 'Minutes Studied', 'Quizzes Taken', 'Quizzes Passed', 'Points Earned'];
+    const rows = analytics.daily.map(day => [
+      day.date,
+      day.lessonsCompleted,
+      day.timeSpent,
+      day.quizzesTaken,
+      day.quizzesPassed,
+      day.pointsEarned,
+    ]);
+    const csv = [header, ...rows].map(row => row.join(',')).join('\n');
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `analytics-${analytics.range.days}-days.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   return (
@@ -166,6 +128,19 @@ const AnalyticsPage: React.FC = () => {
             </p>
           </div>
           <div className="flex gap-2">
+            <Select value={selectedCourse} onValueChange={setSelectedCourse}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All courses</SelectItem>
+                {analytics.courses.map((course) => (
+                  <SelectItem key={course.courseId} value={course.courseId}>
+                    {course.courseTitle}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Select value={timeRange} onValueChange={setTimeRange}>
               <SelectTrigger className="w-[140px]">
                 <SelectValue />
@@ -193,10 +168,10 @@ const AnalyticsPage: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-eduBlue-600">
-                {mockAnalyticsData.completedCourses}/{mockAnalyticsData.totalCourses}
+                {analytics.completedCourses}/{analytics.totalCourses}
               </div>
               <p className="text-xs text-muted-foreground">
-                {Math.round((mockAnalyticsData.completedCourses / mockAnalyticsData.totalCourses) * 100)}% completion rate
+                {percentage(analytics.completedCourses, analytics.totalCourses)}% completion rate
               </p>
             </CardContent>
           </Card>
@@ -208,10 +183,10 @@ const AnalyticsPage: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-600">
-                {mockAnalyticsData.completedLessons}/{mockAnalyticsData.totalLessons}
+                {analytics.completedLessons}/{analytics.totalLessons}
               </div>
               <p className="text-xs text-muted-foreground">
-                {Math.round((mockAnalyticsData.completedLessons / mockAnalyticsData.totalLessons) * 100)}% completion rate
+                {percentage(analytics.completedLessons, analytics.totalLessons)}% completion rate
               </p>
             </CardContent>
           </Card>
@@ -223,10 +198,10 @@ const AnalyticsPage: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-purple-600">
-                {mockAnalyticsData.averageScore}%
+                {analytics.averageScore}%
               </div>
               <p className="text-xs text-muted-foreground">
-                Across {mockAnalyticsData.passedQuizzes} quizzes
+                Across {analytics.totalQuizzes} quizzes
               </p>
             </CardContent>
           </Card>
@@ -238,10 +213,10 @@ const AnalyticsPage: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-orange-600">
-                {formatTime(mockAnalyticsData.studyTime)}
+                {formatTime(analytics.studyTime)}
               </div>
               <p className="text-xs text-muted-foreground">
-                {mockAnalyticsData.streakDays} day streak
+                {analytics.streakDays} day streak
               </p>
             </CardContent>
           </Card>
@@ -258,14 +233,14 @@ const AnalyticsPage: React.FC = () => {
           <CardContent>
             <div className="flex items-center justify-between mb-4">
               <div>
-                <div className="text-2xl font-bold">Level {mockAnalyticsData.currentLevel}</div>
+                <div className="text-2xl font-bold">Level {analytics.currentLevel}</div>
                 <div className="text-sm text-gray-600">
-                  {mockAnalyticsData.experiencePoints} / {mockAnalyticsData.nextLevelXP} XP
+                  {analytics.experiencePoints} / {analytics.nextLevelXP} XP
                 </div>
               </div>
               <div className="text-right">
                 <div className="text-sm font-medium">Next Level</div>
-                <div className="text-lg font-bold text-eduBlue-600">Level {mockAnalyticsData.currentLevel + 1}</div>
+                <div className="text-lg font-bold text-eduBlue-600">Level {analytics.currentLevel + 1}</div>
               </div>
             </div>
             <div className="w-full bg-gray-200 rounded-full h-3">
@@ -275,7 +250,7 @@ const AnalyticsPage: React.FC = () => {
               ></div>
             </div>
             <div className="mt-2 text-sm text-gray-600">
-              {mockAnalyticsData.nextLevelXP - mockAnalyticsData.experiencePoints} XP needed for next level
+              {analytics.nextLevelXP - analytics.experiencePoints} XP needed for next level
             </div>
           </CardContent>
         </Card>
@@ -293,14 +268,16 @@ const AnalyticsPage: React.FC = () => {
             {/* Weekly Progress Chart */}
             <Card>
               <CardHeader>
-                <CardTitle>Weekly Progress</CardTitle>
+                <CardTitle>{showDaily ? 'Daily Progress' : 'Weekly Progress'}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {mockAnalyticsData.weeklyProgress.map((day, index) => (
-                    <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  {progressRows.map((day) => (
+                    <div key={day.date} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                       <div className="flex items-center gap-4">
-                        <div className="text-sm font-medium">{formatDate(day.date)}</div>
+                        <div className="text-sm font-medium">
+                          {showDaily ? formatDate(day.date) : `Week of ${formatDate(day.date)}`}
+                        </div>
                         <div className="flex items-center gap-4 text-sm text-gray-600">
                           <div className="flex items-center gap-1">
                             <BookOpen className="h-4 w-4" />
@@ -312,12 +289,14 @@ const AnalyticsPage: React.FC = () => {
                           </div>
                           <div className="flex items-center gap-1">
                             <Award className="h-4 w-4" />
-                            {day.quizzesPassed} quizzes
+                            {day.quizzesPassed}/{day.quizzesTaken} quizzes passed
                           </div>
                         </div>
                       </div>
-                      <div className="text-sm font-medium text-green-600">
-                        {day.lessonsCompleted > 0 ? 'Active' : 'No activity'}
+                      <div className={`text-sm font-medium ${
+                        day.lessonsCompleted > 0 || day.quizzesTaken > 0 ? 'text-green-600' : 'text-gray-400'
+                      }`}>
+                        {day.lessonsCompleted > 0 || day.quizzesTaken > 0 ? `+${day.pointsEarned} XP` : 'No activity'}
                       </div>
                     </div>
                   ))}
@@ -334,19 +313,19 @@ const AnalyticsPage: React.FC = () => {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   <div className="text-center">
                     <div className="text-3xl font-bold text-green-600">
-                      {mockAnalyticsData.passedQuizzes}
+                      {analytics.passedQuizzes}
                     </div>
                     <div className="text-sm text-gray-600">Quizzes Passed</div>
                   </div>
                   <div className="text-center">
                     <div className="text-3xl font-bold text-blue-600">
-                      {mockAnalyticsData.totalQuizzes - mockAnalyticsData.passedQuizzes}
+                      {analytics.totalQuizzes - analytics.passedQuizzes}
                     </div>
                     <div className="text-sm text-gray-600">Quizzes Failed</div>
                   </div>
                   <div className="text-center">
                     <div className="text-3xl font-bold text-purple-600">
-                      {Math.round((mockAnalyticsData.passedQuizzes / mockAnalyticsData.totalQuizzes) * 100)}%
+                      {percentage(analytics.passedQuizzes, analytics.totalQuizzes)}%
                     </div>
                     <div className="text-sm text-gray-600">Success Rate</div>
                   </div>
@@ -362,13 +341,16 @@ const AnalyticsPage: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {mockAnalyticsData.courseProgress.map((course) => (
+                  {analytics.courseProgress.length === 0 && (
+                    <p className="text-sm text-gray-600 text-center py-6">You are not enrolled in any courses yet.</p>
+                  )}
+                  {analytics.courseProgress.map((course) => (
                     <div key={course.courseId} className="border rounded-lg p-4">
                       <div className="flex items-center justify-between mb-3">
                         <div>
                           <h4 className="font-medium">{course.courseTitle}</h4>
                           <p className="text-sm text-gray-600">
-                            {course.lessonsCompleted} of {course.totalLessons} lessons completed
+                            {course.lessonsCompleted} of {course.totalLessons} lessons completed · {formatTime(course.timeSpent)}
                           </p>
                         </div>
                         <div className="text-right">
@@ -404,7 +386,7 @@ const AnalyticsPage: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {mockAnalyticsData.achievements.map((achievement) => (
+                  {analytics.achievements.map((achievement) => (
                     <div 
                       key={achievement.id} 
                       className={`border rounded-lg p-4 text-center ${
@@ -427,7 +409,7 @@ const AnalyticsPage: React.FC = () => {
                           <div className="w-full bg-gray-200 rounded-full h-2">
                             <div 
                               className="bg-blue-500 h-2 rounded-full"
-                              style={{ width: `${(achievement.progress / achievement.maxProgress) * 100}%` }}
+                              style={{ width: `${percentage(achievement.progress, achievement.maxProgress)}%` }}
                             ></div>
                           </div>
                         </div>
@@ -443,11 +425,12 @@ const AnalyticsPage: React.FC = () => {
             <Card>
               <CardHeader>
                 <CardTitle>Learning Streak</CardTitle>
+                <p className="text-sm text-gray-600">Last {streakDays.length} days</p>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-7 gap-2">
-                  {mockAnalyticsData.learningStreak.map((day, index) => (
-                    <div key={index} className="text-center">
+                  {streakDays.map((day) => (
+                    <div key={day.date} className="text-center">
                       <div className={`w-8 h-8 rounded-full mx-auto mb-1 flex items-center justify-center text-xs ${
                         day.active ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-500'
                       }`}>
@@ -466,9 +449,11 @@ const AnalyticsPage: React.FC = () => {
                 </div>
                 <div className="mt-4 text-center">
                   <div className="text-lg font-semibold text-green-600">
-                    {mockAnalyticsData.streakDays} day streak!
+                    {analytics.streakDays} day streak!
                   </div>
-                  <p className="text-sm text-gray-600">Keep up the great work!</p>
+                  <p className="text-sm text-gray-600">
+                    Longest streak: {analytics.longestStreak} days
+                  </p>
                 </div>
               </CardContent>
             </Card>
@@ -1,12 +1,22 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import DashboardLayout from '@/components/dashboard/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { 
   FileText, 
   Clock, 
@@ -18,92 +28,55 @@ import {
   Calendar,
   BookOpen,
   TrendingUp,
-  Filter,
-  Search
+  Search,
+  Loader2
 } from 'lucide-react';
-import { useAuth } from '@/contexts/AuthContextUtils';
-
-interface Assignment {
-  id: string;
-  title: string;
-  description: string;
-  courseTitle: string;
-  dueDate: string;
-  submittedAt?: string;
-  status: 'PENDING' | 'SUBMITTED' | 'GRADED' | 'OVERDUE';
-  grade?: number;
-  maxGrade?: number;
-  feedback?: string;
-  submissionUrl?: string;
-  attachments?: string[];
-  priority: 'LOW' | 'MEDIUM' | 'HIGH';
-}
+import { toast } from '@/hooks/use-toast';
+import { assignmentApi, type AssignmentSubmissionFile, type StudentAssignment } from '@/services/assignmentApi';
 
 const AssignmentsPage: React.FC = () => {
-  const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
+  const [submittingAssignment, setSubmittingAssignment] = useState<StudentAssignment | null>(null);
+  const [viewingAssignment, setViewingAssignment] = useState<StudentAssignment | null>(null);
+  const [textResponse, setTextResponse] = useState('');
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
 
-  // Mock assignments data (would be fetched from API)
-  const mockAssignments: Assignment[] = [
-    {
-      id: '1',
-      title: 'JavaScript Project Submission',
-      description: 'Create a responsive web application using JavaScript, HTML, and CSS. Include at least 3 interactive features.',
-      courseTitle: 'JavaScript Basics',
-      dueDate: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
-      status: 'PENDING',
-      priority: 'HIGH',
-      attachments: ['project-requirements.pdf', 'rubric.docx']
-    },
-    {
-      id: '2',
-      title: 'Data Visualization Assignment',
-      description: 'Create interactive data visualizations using D3.js or Chart.js. Analyze a dataset and present findings.',
-      courseTitle: 'Data Science Fundamentals',
-      dueDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(),
-      status: 'SUBMITTED',
-      submittedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-      priority: 'MEDIUM',
-      submissionUrl: 'https://github.com/student/data-viz-project'
-    },
-    {
-      id: '3',
-      title: 'Marketing Plan Draft',
-      description: 'Submit first draft of comprehensive marketing plan for a fictional product or service.',
-      courseTitle: 'Digital Marketing Mastery',
-      dueDate: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-      status: 'OVERDUE',
-      priority: 'HIGH'
+  const {
+    data: assignments = [],
+    isLoading,
+    error
+  } = useQuery({
+    queryKey: ['student-assignments'],
+    queryFn: () => assignmentApi.getAssignments(),
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: ({ assignmentId, text, files }: { assignmentId: string; text: string; files: File[] }) =>
+      assignmentApi.submitAssignment(assignmentId, { textResponse: text, files }),
+    onSuccess: (assignment) => {
+      queryClient.invalidateQueries({ queryKey: ['student-assignments'] });
+      closeSubmitDialog();
+      toast({
+        title: 'Assignment submitted',
+        description: assignment.isLate
+          ? `${assignment.title} was submitted after the due date.`
+          : `${assignment.title} was submitted successfully.`,
+      });
     },
-    {
-      id: '4',
-      title: 'CSS Layout Exercise',
-      description: 'Create a responsive layout using CSS Grid and Flexbox. Implement mobile-first design principles.',
-      courseTitle: 'Web Development Fundamentals',
-      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-      status: 'PENDING',
-      priority: 'LOW',
-      attachments: ['layout-requirements.pdf']
+    onError: (error: Error) => {
+      toast({
+        title: 'Submission failed',
+        description: error.message,
+        variant: 'destructive',
+      });
     },
-    {
-      id: '5',
-      title: 'Python Data Analysis',
-      description: 'Analyze a dataset using Python pandas and matplotlib. Create visualizations and write a report.',
-      courseTitle: 'Python Programming',
-      dueDate: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-      status: 'GRADED',
-      submittedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-      grade: 85,
-      maxGrade: 100,
-      feedback: 'Excellent analysis and visualizations. Consider adding more statistical insights in future assignments.',
-      priority: 'MEDIUM'
-    }
-  ];
+  });
 
   // Filter assignments
-  const filteredAssignments = mockAssignments.filter(assignment => {
+  const filteredAssignments = assignments.filter(assignment => {
     const matchesSearch = assignment.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          assignment.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          assignment.courseTitle.toLowerCase().includes(searchTerm.toLowerCase());
@@ -182,20 +155,87 @@ const AssignmentsPage: React.FC = () => {
   };
 
   const handleSubmitAssignment = (assignmentId: string) => {
-    // This would open a file upload dialog or submission form
-    console.log('Submit assignment:', assignmentId);
+    const assignment = assignments.find(a => a.id === assignmentId);
+    if (!assignment) return;
+    setTextResponse(assignment.submission?.textResponse || '');
+    setSelectedFiles([]);
+    setSubmittingAssignment(assignment);
+  };
+
+  const closeSubmitDialog = () => {
+    setSubmittingAssignment(null);
+    setTextResponse('');
+    setSelectedFiles([]);
+  };
+
+  const handleConfirmSubmit = () => {
+    if (!submittingAssignment) return;
+    if (!textResponse.trim() && selectedFiles.length === 0) {
+      toast({
+        title: 'Nothing to submit',
+        description: 'Add a text response or attach at least one file.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    submitMutation.mutate({
+      assignmentId: submittingAssignment.id,
+      text: textResponse.trim(),
+      files: selectedFiles,
+    });
   };
 
   const handleViewSubmission = (assignmentId: string) => {
-    // This would open the submission details
-    console.log('View submission:', assignmentId);
+    const assignment = assignments.find(a => a.id === assignmentId);
+    if (assignment) {
+      setViewingAssignment(assignment);
+    }
+  };
+
+  const handleDownloadAttachment = (attachment: { name: string; url: string }) => {
+    window.open(attachment.url, '_blank', 'noopener,noreferrer');
   };
 
-  const handleDownloadAttachment = (attachment: string) => {
-    // This would trigger a download
-    console.log('Download attachment:', attachment);
+  const handleDownloadSubmissionFile = async (submissionId: string, file: AssignmentSubmissionFile) => {
+    try {
+      await assignmentApi.downloadSubmissionFile(submissionId, file);
+    } catch (error) {
+      toast({
+        title: 'File unavailable',
+        description: error instanceof Error ? error.message : 'Failed to download file',
+        variant: 'destructive',
+      });
+    }
   };
 
+  const gradedPercentages = gradedAssignments
+    .filter(a => a.grade !== undefined)
+    .map(a => ((a.grade || 0) / (a.maxGrade || 1)) * 100);
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <Card className="max-w-7xl mx-auto">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+            <h3 className="text-lg font-semibold mb-2">Unable to load assignments</h3>
+            <p className="text-gray-600">{(error as Error).message}</p>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
   return (
     <DashboardLayout>
       <div className="max-w-7xl mx-auto space-y-6">
@@ -217,7 +257,7 @@ const AssignmentsPage: React.FC = () => {
               <FileText className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-eduBlue-600">{mockAssignments.length}</div>
+              <div className="text-2xl font-bold text-eduBlue-600">{assignments.length}</div>
               <p className="text-xs text-muted-foreground">
                 Across all courses
               </p>
@@ -257,8 +297,8 @@ const AssignmentsPage: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-600">
-                {gradedAssignments.length > 0 
-                  ? Math.round(gradedAssignments.reduce((sum, a) => sum + (a.grade || 0), 0) / gradedAssignments.length)
+                {gradedPercentages.length > 0
+                  ? Math.round(gradedPercentages.reduce((sum, percentage) => sum + percentage, 0) / gradedPercentages.length)
                   : 0}%
               </div>
               <p className="text-xs text-muted-foreground">
@@ -392,7 +432,7 @@ const AssignmentsPage: React.FC = () => {
                                 onClick={() => handleDownloadAttachment(attachment)}
                               >
                                 <Download className="h-3 w-3 mr-1" />
-                                {attachment}
+                                {attachment.name}
                               </Button>
                             ))}
                           </div>
@@ -420,7 +460,7 @@ const AssignmentsPage: React.FC = () => {
                               View Feedback
                             </Button>
                           )}
-                          {assignment.status === 'OVERDUE' && (
+                          {assignment.status === 'OVERDUE' && assignment.allowLateSubmission && (
                             <Button onClick={() => handleSubmitAssignment(assignment.id)}>
                               <Upload className="h-4 w-4 mr-2" />
                               Submit Late
@@ -651,12 +691,14 @@ const AssignmentsPage: React.FC = () => {
                           </div>
                         </div>
                       </div>
-                      <div className="flex justify-end pt-4 border-t">
-                        <Button onClick={() => handleSubmitAssignment(assignment.id)}>
-                          <Upload className="h-4 w-4 mr-2" />
-                          Submit Late
-                        </Button>
-                      </div>
+                      {assignment.allowLateSubmission && (
+                        <div className="flex justify-end pt-4 border-t">
+                          <Button onClick={() => handleSubmitAssignment(assignment.id)}>
+                            <Upload className="h-4 w-4 mr-2" />
+                            Submit Late
+                          </Button>
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
@@ -664,6 +706,152 @@ const AssignmentsPage: React.FC = () => {
             )}
           </TabsContent>
         </Tabs>
+
+        {/* Submit Dialog */}
+        <Dialog open={!!submittingAssignment} onOpenChange={(open) => !open && closeSubmitDialog()}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Submit Assignment</DialogTitle>
+              <DialogDescription>
+                {submittingAssignment?.title} &middot; Due {submittingAssignment ? formatDate(submittingAssignment.dueDate) : ''}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {submittingAssignment?.instructions && (
+                <p className="text-sm text-gray-600 whitespace-pre-line">{submittingAssignment.instructions}</p>
+              )}
+              {submittingAssignment?.submissionTypes.includes('TEXT') && (
+                <div className="space-y-2">
+                  <Label htmlFor="assignment-text">Response</Label>
+                  <Textarea
+                    id="assignment-text"
+                    rows={6}
+                    value={textResponse}
+                    onChange={(e) => setTextResponse(e.target.value)}
+                    placeholder="Write your answer or paste a link to your work..."
+                  />
+                </div>
+              )}
+              {submittingAssignment?.submissionTypes.includes('FILE') && (
+                <div className="space-y-2">
+                  <Label htmlFor="assignment-files">Files</Label>
+                  <Input
+                    id="assignment-files"
+                    type="file"
+                    multiple
+                    accept=".pdf,.doc,.docx,.zip,.txt,.jpg,.jpeg,.png"
+                    onChange={(e) => setSelectedFiles(Array.from(e.target.files || []).slice(0, 5))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Up to 5 files, 10MB each. PDF, Word, ZIP, text or images.
+                  </p>
+                </div>
+              )}
+              {submittingAssignment?.status === 'SUBMITTED' && (
+                <p className="text-xs text-muted-foreground">
+                  Resubmitting replaces your previous submission.
+                </p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={closeSubmitDialog} disabled={submitMutation.isPending}>
+                Cancel
+              </Button>
+              <Button onClick={handleConfirmSubmit} disabled={submitMutation.isPending}>
+                {submitMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Submit
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Submission / Feedback Dialog */}
+        <Dialog open={!!viewingAssignment} onOpenChange={(open) => !open && setViewingAssignment(null)}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{viewingAssignment?.title}</DialogTitle>
+              <DialogDescription>
+                {viewingAssignment?.submittedAt
+                  ? `Submitted ${formatDate(viewingAssignment.submittedAt)}${viewingAssignment.isLate ? ' (late)' : ''}`
+                  : 'Not submitted'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {viewingAssignment?.submission?.textResponse && (
+                <div>
+                  <h4 className="text-sm font-medium mb-1">Response:</h4>
+                  <p className="text-sm text-gray-600 whitespace-pre-line">{viewingAssignment.submission.textResponse}</p>
+                </div>
+              )}
+              {viewingAssignment?.submission && viewingAssignment.submission.files.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Files:</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {viewingAssignment.submission.files.map((file) => (
+                      <Button
+                        key={file.filename}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownloadSubmissionFile(viewingAssignment.submission!.id, file)}
+                      >
+                        <Download className="h-3 w-3 mr-1" />
+                        {file.originalName}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {viewingAssignment?.grade !== undefined && (
+                <div className={`text-2xl font-bold ${getGradeColor(viewingAssignment.grade, viewingAssignment.maxGrade)}`}>
+                  {viewingAssignment.grade}/{viewingAssignment.maxGrade}
+                </div>
+              )}
+              {viewingAssignment?.submission && viewingAssignment.submission.rubricScores.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Rubric:</h4>
+                  {viewingAssignment.submission.rubricScores.map((score) => {
+                    const criterion = viewingAssignment.rubric.find(item => item.criterion === score.criterion);
+                    return (
+                      <div key={score.criterion} className="text-sm">
+                        <div className="flex justify-between">
+                          <span>{score.criterion}</span>
+                          <span className="font-medium">{score.points}/{criterion?.maxPoints ?? '-'}</span>
+                        </div>
+                        {score.comment && <p className="text-gray-500">{score.comment}</p>}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {viewingAssignment?.feedback && (
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <h4 className="text-sm font-medium mb-1">Feedback:</h4>
+                  <p className="text-sm text-gray-600">{viewingAssignment.feedback}</p>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              {viewingAssignment?.status === 'SUBMITTED' && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    const assignmentId = viewingAssignment.id;
+                    setViewingAssignment(null);
+                    handleSubmitAssignment(assignmentId);
+                  }}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Resubmit
+                </Button>
+              )}
+              <Button onClick={() => setViewingAssignment(null)}>Close</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
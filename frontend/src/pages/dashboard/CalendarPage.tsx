@@ -1,89 +1,74 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import DashboardLayout from '@/components/dashboard/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { 
   Calendar as CalendarIcon, 
   Clock, 
   Video, 
   BookOpen,
   AlertCircle,
-  Plus
+  Copy,
+  Link as LinkIcon,
+  Loader2,
+  RefreshCw
 } from 'lucide-react';
-import { studentApi as studentAPI } from '@/services/studentApi';
+import { useNavigate } from 'react-router-dom';
+import { toast } from '@/hooks/use-toast';
+import { calendarApi, type CalendarEvent } from '@/services/calendarApi';
 import { useAuth } from '@/contexts/AuthContextUtils';
 
-interface CalendarEvent {
-  id: string;
-  title: string;
-  description: string;
-  date: string;
-  time?: string;
-  type: 'LIVE_SESSION' | 'DEADLINE' | 'ASSIGNMENT' | 'QUIZ';
-  courseTitle?: string;
-  zoomLink?: string;
-  priority: 'LOW' | 'MEDIUM' | 'HIGH';
-}
-
 const CalendarPage: React.FC = () => {
   const { user } = useAuth();
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
 
-  // Fetch calendar events (this would be implemented in the backend)
-  const { data: eventsData, isLoading } = useQuery({
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [showSubscribe, setShowSubscribe] = useState(false);
+
+  const { data: eventsData, isLoading, error } = useQuery({
     queryKey: ['calendar-events'],
-    queryFn: () => Promise.resolve({ data: { events: [] } }), // Mock data for now
+    queryFn: () => calendarApi.getEvents(),
     enabled: !!user?.id,
   });
 
-  const events = (eventsData?.data?.events || []) as CalendarEvent[];
+  const { data: feedUrl, isLoading: feedUrlLoading } = useQuery({
+    queryKey: ['calendar-feed-url'],
+    queryFn: () => calendarApi.getFeedUrl(),
+    enabled: showSubscribe,
+  });
 
-  // Mock events for demonstration
-  const mockEvents: CalendarEvent[] = [
-    {
-      id: '1',
-      title: 'Advanced CSS Techniques',
-      description: 'Live session on advanced CSS techniques and best practices',
-      date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(), // 2 days from now
-      time: '15:30 - 17:00',
-      type: 'LIVE_SESSION',
-      courseTitle: 'Web Development Fundamentals',
-      zoomLink: 'https://zoom.us/j/123456789',
-      priority: 'HIGH'
+  const regenerateFeedMutation = useMutation({
+    mutationFn: () => calendarApi.regenerateFeedUrl(),
+    onSuccess: (url) => {
+      queryClient.setQueryData(['calendar-feed-url'], url);
+      toast({ title: 'Subscription link replaced', description: 'Calendars using the old link will stop updating.' });
     },
-    {
-      id: '2',
-      title: 'JavaScript Project Submission',
-      description: 'Final project submission deadline',
-      date: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(), // 5 days from now
-      type: 'DEADLINE',
-      courseTitle: 'JavaScript Basics',
-      priority: 'HIGH'
+    onError: (error: Error) => {
+      toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' });
     },
-    {
-      id: '3',
-      title: 'Data Visualization Assignment',
-      description: 'Assignment on creating interactive data visualizations',
-      date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days from now
-      type: 'ASSIGNMENT',
-      courseTitle: 'Data Science Fundamentals',
-      priority: 'MEDIUM'
-    },
-    {
-      id: '4',
-      title: 'Marketing Plan Draft',
-      description: 'Submit first draft of marketing plan',
-      date: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days from now
-      type: 'DEADLINE',
-      courseTitle: 'Digital Marketing Mastery',
-      priority: 'LOW'
-    }
-  ];
+  });
+
+  const allEvents = (eventsData?.events || []).filter(event => !event.cancelled);
 
-  const allEvents = [...events, ...mockEvents];
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: 'Link copied', description: 'Paste it into your calendar app to subscribe.' });
+  };
+
+  const handleJoin = (event: CalendarEvent) => {
+    if (event.zoomLink) {
+      window.open(event.zoomLink, '_blank', 'noopener,noreferrer');
+    } else {
+      navigate(event.path);
+    }
+  };
 
   const getEventIcon = (type: string) => {
     switch (type) {
@@ -93,8 +78,8 @@ const CalendarPage: React.FC = () => {
         return <AlertCircle className="h-4 w-4" />;
       case 'ASSIGNMENT':
         return <BookOpen className="h-4 w-4" />;
-      case 'QUIZ':
-        return <AlertCircle className="h-4 w-4" />;
+      case 'ACCESS_EXPIRY':
+        return <Clock className="h-4 w-4" />;
       default:
         return <CalendarIcon className="h-4 w-4" />;
     }
@@ -121,8 +106,8 @@ const CalendarPage: React.FC = () => {
         return <Badge className="bg-red-100 text-red-800">Deadline</Badge>;
       case 'ASSIGNMENT':
         return <Badge className="bg-purple-100 text-purple-800">Assignment</Badge>;
-      case 'QUIZ':
-        return <Badge className="bg-orange-100 text-orange-800">Quiz</Badge>;
+      case 'ACCESS_EXPIRY':
+        return <Badge className="bg-orange-100 text-orange-800">Access Ends</Badge>;
       default:
         return <Badge variant="outline">{type}</Badge>;
     }
@@ -137,29 +122,54 @@ const CalendarPage: React.FC = () => {
     });
   };
 
-  const formatTime = (timeString?: string) => {
-    if (!timeString) return '';
-    return timeString;
+  const formatTime = (event: CalendarEvent) => {
+    const format = (dateString: string) => new Date(dateString).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    return event.end ? `${format(event.start)} - ${format(event.end)}` : `Due ${format(event.start)}`;
   };
 
   const getUpcomingEvents = () => {
     const now = new Date();
     return allEvents
-      .filter(event => new Date(event.date) >= now)
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .filter(event => new Date(event.start) >= now && !event.completed)
       .slice(0, 5);
   };
 
-  const getTodayEvents = () => {
-    const today = new Date();
-    return allEvents.filter(event => {
-      const eventDate = new Date(event.date);
-      return eventDate.toDateString() === today.toDateString();
-    });
+  const getEventsOn = (date?: Date) => {
+    if (!date) return [];
+    return allEvents.filter(event => new Date(event.start).toDateString() === date.toDateString());
   };
 
   const upcomingEvents = getUpcomingEvents();
-  const todayEvents = getTodayEvents();
+  const selectedDayEvents = getEventsOn(selectedDate);
+  const eventDays = allEvents.map(event => new Date(event.start));
+  const isSelectedToday = selectedDate?.toDateString() === new Date().toDateString();
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <Card>
+          <CardContent className="p-12 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+            <h3 className="text-lg font-semibold mb-2">Unable to load your calendar</h3>
+            <p className="text-gray-600">{(error as Error).message}</p>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
 
   return (
     <DashboardLayout>
@@ -172,9 +182,9 @@ const CalendarPage: React.FC = () => {
               Track your learning schedule and upcoming events
             </p>
           </div>
-          <Button>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Event
+          <Button onClick={() => setShowSubscribe(true)}>
+            <LinkIcon className="h-4 w-4 mr-2" />
+            Subscribe to Calendar
           </Button>
         </div>
 
@@ -193,6 +203,8 @@ const CalendarPage: React.FC = () => {
                   mode="single"
                   selected={selectedDate}
                   onSelect={setSelectedDate}
+                  modifiers={{ hasEvents: eventDays }}
+                  modifiersClassNames={{ hasEvents: 'font-bold underline decoration-eduBlue-600 decoration-2' }}
                   className="rounded-md border"
                 />
               </CardContent>
@@ -205,18 +217,20 @@ const CalendarPage: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Clock className="h-5 w-5" />
-                  Today's Events
+                  {isSelectedToday || !selectedDate
+                    ? "Today's Events"
+                    : selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {todayEvents.length === 0 ? (
+                {selectedDayEvents.length === 0 ? (
                   <div className="text-center py-4">
                     <CalendarIcon className="h-8 w-8 mx-auto mb-2 text-gray-400" />
-                    <p className="text-gray-600">No events today</p>
+                    <p className="text-gray-600">No events {isSelectedToday ? 'today' : 'on this day'}</p>
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {todayEvents.map((event) => (
+                    {selectedDayEvents.map((event) => (
                       <div key={event.id} className="p-3 border rounded-lg">
                         <div className="flex items-start justify-between mb-2">
                           <div className="flex items-center gap-2">
@@ -226,17 +240,15 @@ const CalendarPage: React.FC = () => {
                           {getPriorityBadge(event.priority)}
                         </div>
                         <p className="text-xs text-gray-600 mb-2">{event.description}</p>
-                        {event.time && (
-                          <div className="flex items-center gap-1 text-xs text-gray-500 mb-2">
-                            <Clock className="h-3 w-3" />
-                            {formatTime(event.time)}
-                          </div>
-                        )}
+                        <div className="flex items-center gap-1 text-xs text-gray-500 mb-2">
+                          <Clock className="h-3 w-3" />
+                          {formatTime(event)}
+                        </div>
                         {event.courseTitle && (
                           <p className="text-xs text-gray-500">{event.courseTitle}</p>
                         )}
                         {event.zoomLink && (
-                          <Button size="sm" className="mt-2 w-full">
+                          <Button size="sm" className="mt-2 w-full" onClick={() => handleJoin(event)}>
                             Join Session
                           </Button>
                         )}
@@ -275,24 +287,20 @@ const CalendarPage: React.FC = () => {
                         <p className="text-xs text-gray-600 mb-2">{event.description}</p>
                         <div className="flex items-center gap-2 mb-2">
                           <CalendarIcon className="h-3 w-3 text-gray-500" />
-                          <span className="text-xs text-gray-500">{formatDate(event.date)}</span>
+                          <span className="text-xs text-gray-500">{formatDate(event.start)}</span>
+                        </div>
+                        <div className="flex items-center gap-1 text-xs text-gray-500 mb-2">
+                          <Clock className="h-3 w-3" />
+                          {formatTime(event)}
                         </div>
-                        {event.time && (
-                          <div className="flex items-center gap-1 text-xs text-gray-500 mb-2">
-                            <Clock className="h-3 w-3" />
-                            {formatTime(event.time)}
-                          </div>
-                        )}
                         {event.courseTitle && (
                           <p className="text-xs text-gray-500">{event.courseTitle}</p>
                         )}
                         <div className="flex items-center gap-2 mt-2">
                           {getEventTypeBadge(event.type)}
-                          {event.zoomLink && (
-                            <Button size="sm" variant="outline">
-                              Join
-                            </Button>
-                          )}
+                          <Button size="sm" variant="outline" onClick={() => handleJoin(event)}>
+                            {event.zoomLink ? 'Join' : 'Open'}
+                          </Button>
                         </div>
                       </div>
                     ))}
@@ -316,14 +324,15 @@ const CalendarPage: React.FC = () => {
                 <p className="text-gray-600 mb-4">
                   Your learning calendar is empty. Check back for upcoming events and deadlines.
                 </p>
-                <Button>Browse Courses</Button>
+                <Button onClick={() => navigate('/student/my-courses')}>Browse Courses</Button>
               </div>
             ) : (
               <div className="space-y-4">
-                {allEvents
-                  .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-                  .map((event) => (
-                    <div key={event.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50">
+                {allEvents.map((event) => (
+                    <div
+                      key={event.id}
+                      className={`flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 ${event.completed ? 'opacity-60' : ''}`}
+                    >
                       <div className="flex items-center gap-4">
                         <div className="flex items-center gap-2">
                           {getEventIcon(event.type)}
@@ -335,17 +344,15 @@ const CalendarPage: React.FC = () => {
                       </div>
                       <div className="flex items-center gap-4">
                         <div className="text-right">
-                          <div className="text-sm font-medium">{formatDate(event.date)}</div>
-                          {event.time && (
-                            <div className="text-xs text-gray-500">{formatTime(event.time)}</div>
-                          )}
+                          <div className="text-sm font-medium">{formatDate(event.start)}</div>
+                          <div className="text-xs text-gray-500">{formatTime(event)}</div>
                         </div>
                         <div className="flex items-center gap-2">
                           {getEventTypeBadge(event.type)}
                           {getPriorityBadge(event.priority)}
                         </div>
                         {event.zoomLink && (
-                          <Button size="sm">
+                          <Button size="sm" onClick={() => handleJoin(event)}>
                             Join Session
                           </Button>
                         )}
@@ -356,6 +363,47 @@ const CalendarPage: React.FC = () => {
             )}
           </CardContent>
         </Card>
+
+        {/* Subscribe Dialog */}
+        <Dialog open={showSubscribe} onOpenChange={setShowSubscribe}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Subscribe to your learning calendar</DialogTitle>
+              <DialogDescription>
+                Add this link to Google Calendar ("From URL") or Outlook ("Subscribe from web") to see your
+                deadlines and live sessions alongside your other events. Keep it private: anyone with the link
+                can see your schedule.
+              </DialogDescription>
+            </DialogHeader>
+            {feedUrlLoading || !feedUrl ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-eduBlue-600" />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" onClick={copyFeedUrl}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex justify-between">
+                  <Button
+                    variant="ghost"
+                    onClick={() => regenerateFeedMutation.mutate()}
+                    disabled={regenerateFeedMutation.isPending}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Reset link
+                  </Button>
+                  <Button asChild>
+                    <a href={feedUrl.replace(/^https?:/, 'webcal:')}>Open in calendar app</a>
+                  </Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
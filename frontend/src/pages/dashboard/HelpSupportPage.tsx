@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import DashboardLayout from '@/components/dashboard/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -6,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { 
   HelpCircle, 
   MessageCircle, 
@@ -19,27 +21,16 @@ import {
   ChevronDown,
   ChevronRight,
   Clock,
-  User,
-  Send
+  Send,
+  Loader2,
+  AlertCircle
 } from 'lucide-react';
-
-interface FAQItem {
-  id: string;
-  question: string;
-  answer: string;
-  category: 'GENERAL' | 'TECHNICAL' | 'COURSE' | 'PAYMENT' | 'ACCOUNT';
-}
-
-interface SupportTicket {
-  id: string;
-  title: string;
-  description: string;
-  status: 'OPEN' | 'IN_PROGRESS' | 'RESOLVED' | 'CLOSED';
-  priority: 'LOW' | 'MEDIUM' | 'HIGH';
-  createdAt: string;
-  updatedAt: string;
-  category: string;
-}
+import { toast } from '@/hooks/use-toast';
+import {
+  supportApi,
+  getTicketUserName,
+  type SupportCategory
+} from '@/services/supportApi';
 
 const HelpSupportPage: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
@@ -51,81 +42,76 @@ const HelpSupportPage: React.FC = () => {
     category: 'GENERAL'
   });
 
-  // Mock FAQ data
-  const faqData: FAQItem[] = [
-    {
-      id: '1',
-      question: 'How do I reset my password?',
-      answer: 'You can reset your password by clicking the "Forgot Password" link on the login page. You\'ll receive an email with instructions to create a new password.',
-      category: 'ACCOUNT'
-    },
-    {
-      id: '2',
-      question: 'How do I enroll in a course?',
-      answer: 'To enroll in a course, navigate to the course page and click the "Enroll Now" button. You\'ll be redirected to complete the enrollment process.',
-      category: 'COURSE'
-    },
-    {
-      id: '3',
-      question: 'Can I access course materials offline?',
-      answer: 'Currently, course materials are only available online. However, you can download some resources like PDFs and documents for offline viewing.',
-      category: 'TECHNICAL'
-    },
-    {
-      id: '4',
-      question: 'How do I track my progress?',
-      answer: 'Your progress is automatically tracked as you complete lessons and quizzes. You can view your progress on the dashboard and analytics pages.',
-      category: 'COURSE'
-    },
-    {
-      id: '5',
-      question: 'What payment methods do you accept?',
-      answer: 'We accept major credit cards, PayPal, and bank transfers. All payments are processed securely through our payment partners.',
-      category: 'PAYMENT'
-    },
-    {
-      id: '6',
-      question: 'How do I join live sessions?',
-      answer: 'Live sessions can be joined through the Live Sessions page. Click the "Join Session" button to open the meeting in your browser or Zoom app.',
-      category: 'TECHNICAL'
+  const queryClient = useQueryClient();
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+  const [replyMessage, setReplyMessage] = useState('');
+
+  const {
+    data: faqData = [],
+    isLoading: faqLoading,
+    error: faqError
+  } = useQuery({
+    queryKey: ['support-faqs'],
+    queryFn: () => supportApi.getFaqs(),
+  });
+
+  const {
+    data: tickets = [],
+    isLoading: ticketsLoading,
+    error: ticketsError
+  } = useQuery({
+    queryKey: ['support-tickets'],
+    queryFn: () => supportApi.getTickets(),
+  });
+
+  const { data: selectedTicket, isLoading: ticketLoading } = useQuery({
+    queryKey: ['support-ticket', selectedTicketId],
+    queryFn: () => supportApi.getTicket(selectedTicketId!),
+    enabled: !!selectedTicketId,
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: 'Something went wrong',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const createTicketMutation = useMutation({
+    mutationFn: () => supportApi.createTicket({
+      subject: contactForm.subject,
+      category: contactForm.category as SupportCategory,
+      message: contactForm.message,
+    }),
+    onSuccess: (ticket) => {
+      queryClient.invalidateQueries({ queryKey: ['support-tickets'] });
+      toast({ title: 'Ticket created', description: `Your ticket ${ticket.ticketNumber} has been sent to our support team.` });
+      setShowContactForm(false);
+      setContactForm({ subject: '', message: '', category: 'GENERAL' });
     },
-    {
-      id: '7',
-      question: 'Can I get a refund?',
-      answer: 'We offer a 30-day money-back guarantee for all courses. Contact our support team if you\'re not satisfied with your purchase.',
-      category: 'PAYMENT'
+    onError: onMutationError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: (ticketId: string) => supportApi.reply(ticketId, replyMessage),
+    onSuccess: (ticket) => {
+      queryClient.setQueryData(['support-ticket', ticket.id], ticket);
+      queryClient.invalidateQueries({ queryKey: ['support-tickets'] });
+      setReplyMessage('');
     },
-    {
-      id: '8',
-      question: 'How do I update my profile information?',
-      answer: 'You can update your profile information by going to your profile page and clicking the "Edit Profile" button. Changes are saved automatically.',
-      category: 'ACCOUNT'
-    }
-  ];
+    onError: onMutationError,
+  });
 
-  // Mock support tickets
-  const mockTickets: SupportTicket[] = [
-    {
-      id: '1',
-      title: 'Cannot access course materials',
-      description: 'I\'m having trouble accessing the video content for the JavaScript course.',
-      status: 'RESOLVED',
-      priority: 'HIGH',
-      createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-      updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-      category: 'TECHNICAL'
+  const closeTicketMutation = useMutation({
+    mutationFn: (ticketId: string) => supportApi.closeTicket(ticketId),
+    onSuccess: (ticket) => {
+      queryClient.invalidateQueries({ queryKey: ['support-ticket', ticket.id] });
+      queryClient.invalidateQueries({ queryKey: ['support-tickets'] });
+      toast({ title: 'Ticket closed', description: `Ticket ${ticket.ticketNumber} has been closed.` });
     },
-    {
-      id: '2',
-      title: 'Payment confirmation needed',
-      description: 'I made a payment but haven\'t received confirmation yet.',
-      status: 'IN_PROGRESS',
-      priority: 'MEDIUM',
-      createdAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-      updatedAt: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString(),
-      category: 'PAYMENT'
-    }
-  ];
+    onError: onMutationError,
+  });
 
   // Filter FAQ based on search
   const filteredFAQ = faqData.filter(faq => {
@@ -148,8 +134,8 @@ const HelpSupportPage: React.FC = () => {
     switch (status) {
       case 'OPEN':
         return <Badge className="bg-yellow-100 text-yellow-800">Open</Badge>;
-      case 'IN_PROGRESS':
-        return <Badge className="bg-blue-100 text-blue-800">In Progress</Badge>;
+      case 'PENDING':
+        return <Badge className="bg-blue-100 text-blue-800">Awaiting Your Reply</Badge>;
       case 'RESOLVED':
         return <Badge className="bg-green-100 text-green-800">Resolved</Badge>;
       case 'CLOSED':
@@ -161,6 +147,8 @@ const HelpSupportPage: React.FC = () => {
 
   const getPriorityBadge = (priority: string) => {
     switch (priority) {
+      case 'URGENT':
+        return <Badge className="bg-red-600 text-white">Urgent</Badge>;
       case 'HIGH':
         return <Badge className="bg-red-100 text-red-800">High</Badge>;
       case 'MEDIUM':
@@ -184,10 +172,19 @@ const HelpSupportPage: React.FC = () => {
 
   const handleSubmitContactForm = (e: React.FormEvent) => {
     e.preventDefault();
-    // This would submit the form to the backend
-    console.log('Submit contact form:', contactForm);
-    setShowContactForm(false);
-    setContactForm({ subject: '', message: '', category: 'GENERAL' });
+    createTicketMutation.mutate();
+  };
+
+  const handleSubmitReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedTicketId && replyMessage.trim()) {
+      replyMutation.mutate(selectedTicketId);
+    }
+  };
+
+  const closeTicketDialog = () => {
+    setSelectedTicketId(null);
+    setReplyMessage('');
   };
 
   return (
@@ -301,7 +298,17 @@ const HelpSupportPage: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {filteredFAQ.length === 0 ? (
+                {faqLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+                  </div>
+                ) : faqError ? (
+                  <div className="text-center py-8">
+                    <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+                    <h3 className="text-lg font-semibold mb-2">Unable to load FAQ</h3>
+                    <p className="text-gray-600">{(faqError as Error).message}</p>
+                  </div>
+                ) : filteredFAQ.length === 0 ? (
                   <div className="text-center py-8">
                     <Search className="h-12 w-12 mx-auto mb-4 text-gray-400" />
                     <h3 className="text-lg font-semibold mb-2">No FAQ found</h3>
@@ -348,7 +355,17 @@ const HelpSupportPage: React.FC = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {mockTickets.length === 0 ? (
+            {ticketsLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+              </div>
+            ) : ticketsError ? (
+              <div className="text-center py-8">
+                <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+                <h3 className="text-lg font-semibold mb-2">Unable to load support tickets</h3>
+                <p className="text-gray-600">{(ticketsError as Error).message}</p>
+              </div>
+            ) : tickets.length === 0 ? (
               <div className="text-center py-8">
                 <FileText className="h-12 w-12 mx-auto mb-4 text-gray-400" />
                 <h3 className="text-lg font-semibold mb-2">No support tickets</h3>
@@ -356,12 +373,21 @@ const HelpSupportPage: React.FC = () => {
               </div>
             ) : (
               <div className="space-y-4">
-                {mockTickets.map((ticket) => (
-                  <div key={ticket.id} className="border rounded-lg p-4">
+                {tickets.map((ticket) => (
+                  <button
+                    key={ticket.id}
+                    className="w-full text-left border rounded-lg p-4 hover:bg-gray-50"
+                    onClick={() => setSelectedTicketId(ticket.id)}
+                  >
                     <div className="flex items-start justify-between mb-3">
                       <div className="flex-1">
-                        <h4 className="font-medium">{ticket.title}</h4>
-                        <p className="text-sm text-gray-600 mt-1">{ticket.description}</p>
+                        <h4 className="font-medium">{ticket.subject}</h4>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {ticket.ticketNumber} · {ticket.category} · {ticket.messageCount} message{ticket.messageCount === 1 ? '' : 's'}
+                        </p>
+                        {ticket.lastMessage && (
+                          <p className="text-sm text-gray-600 mt-1 line-clamp-2">{ticket.lastMessage.body}</p>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         {getStatusBadge(ticket.status)}
@@ -370,9 +396,9 @@ const HelpSupportPage: React.FC = () => {
                     </div>
                     <div className="flex items-center justify-between text-sm text-gray-500">
                       <div>Created: {formatDate(ticket.createdAt)}</div>
-                      <div>Updated: {formatDate(ticket.updatedAt)}</div>
+                      <div>Updated: {formatDate(ticket.lastActivityAt)}</div>
                     </div>
-                  </div>
+                  </button>
                 ))}
               </div>
             )}
@@ -470,8 +496,12 @@ const HelpSupportPage: React.FC = () => {
                   />
                 </div>
                 <div className="flex gap-2">
-                  <Button type="submit" className="flex-1">
-                    <Send className="h-4 w-4 mr-2" />
+                  <Button type="submit" className="flex-1" disabled={createTicketMutation.isPending}>
+                    {createTicketMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4 mr-2" />
+                    )}
                     Send Message
                   </Button>
                   <Button
@@ -486,6 +516,76 @@ const HelpSupportPage: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* Ticket Thread Dialog */}
+        <Dialog open={!!selectedTicketId} onOpenChange={(open) => !open && closeTicketDialog()}>
+          <DialogContent className="max-w-2xl">
+            {ticketLoading || !selectedTicket ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+              </div>
+            ) : (
+              <>
+                <DialogHeader>
+                  <DialogTitle>{selectedTicket.subject}</DialogTitle>
+                  <DialogDescription className="flex items-center gap-2">
+                    <span>{selectedTicket.ticketNumber}</span>
+                    {getStatusBadge(selectedTicket.status)}
+                    {getPriorityBadge(selectedTicket.priority)}
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="max-h-96 overflow-y-auto space-y-3">
+                  {selectedTicket.messages.map((message) => (
+                    <div
+                      key={message._id}
+                      className={`rounded-lg p-3 ${message.authorRole === 'admin' ? 'bg-eduBlue-50 mr-8' : 'bg-gray-50 ml-8'}`}
+                    >
+                      <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                        <span className="font-medium">
+                          {message.authorRole === 'admin' ? `${getTicketUserName(message.authorId)} (Support)` : 'You'}
+                        </span>
+                        <span>{formatDate(message.createdAt)}</span>
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                    </div>
+                  ))}
+                </div>
+                {selectedTicket.status === 'CLOSED' ? (
+                  <p className="text-sm text-gray-500 text-center">
+                    This ticket is closed. Open a new ticket if you need more help.
+                  </p>
+                ) : (
+                  <form onSubmit={handleSubmitReply} className="space-y-3">
+                    <Textarea
+                      value={replyMessage}
+                      onChange={(e) => setReplyMessage(e.target.value)}
+                      placeholder="Write a reply..."
+                      rows={3}
+                    />
+                    <div className="flex justify-between">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => closeTicketMutation.mutate(selectedTicket.id)}
+                        disabled={closeTicketMutation.isPending}
+                      >
+                        Close Ticket
+                      </Button>
+                      <Button type="submit" disabled={!replyMessage.trim() || replyMutation.isPending}>
+                        {replyMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Send className="h-4 w-4 mr-2" />
+                        )}
+                        Send Reply
+                      </Button>
+                    </div>
+                  </form>
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
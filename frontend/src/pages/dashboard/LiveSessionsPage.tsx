@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import DashboardLayout from '@/components/dashboard/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,123 +14,65 @@ import {
   Play,
   AlertCircle,
   CheckCircle,
-  BookOpen,
-  Filter,
-  Search
+  Search,
+  Loader2,
+  UserPlus,
+  UserMinus
 } from 'lucide-react';
-import { useAuth } from '@/contexts/AuthContextUtils';
 import { Input } from '@/components/ui/input';
-
-interface LiveSession {
-  id: string;
-  title: string;
-  description: string;
-  courseTitle: string;
-  instructor: string;
-  startTime: string;
-  endTime: string;
-  duration: number; // in minutes
-  status: 'UPCOMING' | 'LIVE' | 'COMPLETED' | 'CANCELLED';
-  zoomLink?: string;
-  meetingId?: string;
-  password?: string;
-  maxParticipants: number;
-  currentParticipants: number;
-  topics: string[];
-  recordingUrl?: string;
-}
+import { toast } from '@/hooks/use-toast';
+import { liveSessionApi, type LiveSession } from '@/services/liveSessionApi';
 
 const LiveSessionsPage: React.FC = () => {
-  const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
 
-  // Mock live sessions data (would be fetched from API)
-  const mockLiveSessions: LiveSession[] = [
-    {
-      id: '1',
-      title: 'Advanced CSS Techniques',
-      description: 'Learn advanced CSS techniques including Grid, Flexbox, and modern layout methods.',
-      courseTitle: 'Web Development Fundamentals',
-      instructor: 'Dr. Sarah Johnson',
-      startTime: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(), // 2 hours from now
-      endTime: new Date(Date.now() + 3.5 * 60 * 60 * 1000).toISOString(),
-      duration: 90,
-      status: 'UPCOMING',
-      zoomLink: 'https://zoom.us/j/123456789',
-      meetingId: '123 456 789',
-      password: 'css2024',
-      maxParticipants: 50,
-      currentParticipants: 23,
-      topics: ['CSS Grid', 'Flexbox', 'Responsive Design', 'CSS Variables']
-    },
-    {
-      id: '2',
-      title: 'JavaScript Fundamentals Q&A',
-      description: 'Open Q&A session for JavaScript fundamentals. Bring your questions!',
-      courseTitle: 'JavaScript Basics',
-      instructor: 'Prof. Michael Chen',
-      startTime: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 1 day from now
-      endTime: new Date(Date.now() + 25 * 60 * 60 * 1000).toISOString(),
-      duration: 60,
-      status: 'UPCOMING',
-      zoomLink: 'https://zoom.us/j/987654321',
-      meetingId: '987 654 321',
-      password: 'jsqa2024',
-      maxParticipants: 30,
-      currentParticipants: 15,
-      topics: ['JavaScript Basics', 'DOM Manipulation', 'Event Handling', 'Q&A']
+  const {
+    data: sessions = [],
+    isLoading,
+    error
+  } = useQuery({
+    queryKey: ['student-live-sessions'],
+    queryFn: () => liveSessionApi.getLiveSessions(),
+    refetchInterval: 60 * 1000, // keep LIVE/COMPLETED status current
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: 'Something went wrong',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const rsvpMutation = useMutation({
+    mutationFn: (sessionId: string) => liveSessionApi.rsvp(sessionId),
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: ['student-live-sessions'] });
+      toast({ title: 'Place reserved', description: `You're registered for ${session.title}.` });
     },
-    {
-      id: '3',
-      title: 'Data Visualization Workshop',
-      description: 'Hands-on workshop on creating interactive data visualizations with D3.js.',
-      courseTitle: 'Data Science Fundamentals',
-      instructor: 'Dr. Emily Rodriguez',
-      startTime: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
-      endTime: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
-      duration: 90,
-      status: 'COMPLETED',
-      recordingUrl: 'https://example.com/recording/data-viz-workshop',
-      maxParticipants: 40,
-      currentParticipants: 35,
-      topics: ['D3.js', 'Data Visualization', 'Interactive Charts', 'Best Practices']
+    onError: onMutationError,
+  });
+
+  const cancelRsvpMutation = useMutation({
+    mutationFn: (sessionId: string) => liveSessionApi.cancelRsvp(sessionId),
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: ['student-live-sessions'] });
+      toast({ title: 'Reservation cancelled', description: `Your place in ${session.title} was released.` });
     },
-    {
-      id: '4',
-      title: 'Python Data Analysis Live Coding',
-      description: 'Live coding session demonstrating Python data analysis with pandas and matplotlib.',
-      courseTitle: 'Python Programming',
-      instructor: 'Prof. David Kim',
-      startTime: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days from now
-      endTime: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000 + 2 * 60 * 60 * 1000).toISOString(),
-      duration: 120,
-      status: 'UPCOMING',
-      zoomLink: 'https://zoom.us/j/456789123',
-      meetingId: '456 789 123',
-      password: 'python2024',
-      maxParticipants: 45,
-      currentParticipants: 28,
-      topics: ['Pandas', 'Matplotlib', 'Data Cleaning', 'Statistical Analysis']
+    onError: onMutationError,
+  });
+
+  const attendMutation = useMutation({
+    mutationFn: (sessionId: string) => liveSessionApi.attend(sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student-live-sessions'] });
     },
-    {
-      id: '5',
-      title: 'Digital Marketing Strategy Session',
-      description: 'Interactive session on developing effective digital marketing strategies.',
-      courseTitle: 'Digital Marketing Mastery',
-      instructor: 'Prof. Lisa Thompson',
-      startTime: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(), // 1 day ago
-      endTime: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000 + 75 * 60 * 1000).toISOString(),
-      duration: 75,
-      status: 'COMPLETED',
-      recordingUrl: 'https://example.com/recording/marketing-strategy',
-      maxParticipants: 35,
-      currentParticipants: 30,
-      topics: ['Marketing Strategy', 'Social Media', 'Content Marketing', 'Analytics']
-    }
-  ];
+    onError: onMutationError,
+  });
 
   // Filter sessions based on search
-  const filteredSessions = mockLiveSessions.filter(session => {
+  const filteredSessions = sessions.filter(session => {
     return session.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
            session.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
            session.courseTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -195,8 +137,11 @@ const LiveSessionsPage: React.FC = () => {
   };
 
   const handleJoinSession = (session: LiveSession) => {
-    if (session.zoomLink) {
-      window.open(session.zoomLink, '_blank');
+    if (!session.zoomLink) return;
+    // Open the window synchronously so popup blockers allow it, then record attendance
+    window.open(session.zoomLink, '_blank', 'noopener,noreferrer');
+    if (session.status === 'LIVE' && !session.attended) {
+      attendMutation.mutate(session.id);
     }
   };
 
@@ -204,6 +149,55 @@ const LiveSessionsPage: React.FC = () => {
     window.open(recordingUrl, '_blank');
   };
 
+  const renderReservationButton = (session: LiveSession) => {
+    if (session.isRsvped) {
+      return session.status === 'UPCOMING' ? (
+        <Button
+          variant="outline"
+          onClick={() => cancelRsvpMutation.mutate(session.id)}
+          disabled={cancelRsvpMutation.isPending}
+        >
+          <UserMinus className="h-4 w-4 mr-2" />
+          Cancel Reservation
+        </Button>
+      ) : null;
+    }
+    const isFull = session.currentParticipants >= session.maxParticipants;
+    return (
+      <Button
+        onClick={() => rsvpMutation.mutate(session.id)}
+        disabled={isFull || rsvpMutation.isPending}
+      >
+        <UserPlus className="h-4 w-4 mr-2" />
+        {isFull ? 'Session Full' : 'Reserve Place'}
+      </Button>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="h-8 w-8 animate-spin text-eduBlue-600" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <Card className="max-w-7xl mx-auto">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
+            <h3 className="text-lg font-semibold mb-2">Unable to load live sessions</h3>
+            <p className="text-gray-600">{(error as Error).message}</p>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
   return (
     <DashboardLayout>
       <div className="max-w-7xl mx-auto space-y-6">
@@ -225,7 +219,7 @@ const LiveSessionsPage: React.FC = () => {
               <Video className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-eduBlue-600">{mockLiveSessions.length}</div>
+              <div className="text-2xl font-bold text-eduBlue-600">{sessions.length}</div>
               <p className="text-xs text-muted-foreground">
                 All time sessions
               </p>
@@ -365,12 +359,15 @@ const LiveSessionsPage: React.FC = () => {
                           <Users className="h-4 w-4" />
                           {session.currentParticipants}/{session.maxParticipants} participants
                         </div>
-                        {session.zoomLink && (
-                          <Button onClick={() => handleJoinSession(session)}>
-                            <ExternalLink className="h-4 w-4 mr-2" />
-                            Join Session
-                          </Button>
-                        )}
+                        <div className="flex items-center gap-2">
+                          {renderReservationButton(session)}
+                          {session.zoomLink && (
+                            <Button onClick={() => handleJoinSession(session)}>
+                              <ExternalLink className="h-4 w-4 mr-2" />
+                              Join Session
+                            </Button>
+                          )}
+                        </div>
                       </div>
 
                       {/* Meeting Info */}
@@ -443,11 +440,13 @@ const LiveSessionsPage: React.FC = () => {
                           <Users className="h-4 w-4" />
                           {session.currentParticipants}/{session.maxParticipants} participants
                         </div>
-                        {session.zoomLink && (
+                        {session.zoomLink ? (
                           <Button onClick={() => handleJoinSession(session)}>
                             <Play className="h-4 w-4 mr-2" />
                             Join Now
                           </Button>
+                        ) : (
+                          renderReservationButton(session)
                         )}
                       </div>
                     </CardContent>
@@ -505,7 +504,7 @@ const LiveSessionsPage: React.FC = () => {
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2 text-sm text-gray-600">
                           <CheckCircle className="h-4 w-4" />
-                          Session completed
+                          {session.attended ? 'You attended' : 'Session completed'}
                         </div>
                         {session.recordingUrl && (
                           <Button variant="outline" onClick={() => handleViewRecording(session.recordingUrl!)}>
@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import DashboardLayout from '@/components/dashboard/DashboardLayout';
+import ReferralCard from '@/components/dashboard/ReferralCard';
+import TwoFactorCard from '@/components/dashboard/TwoFactorCard';
+import LinkedAccountsCard from '@/components/dashboard/LinkedAccountsCard';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -29,11 +32,14 @@ import {
   CheckCircle,
   Clock,
   FileText,
-  Loader2
+  Loader2,
+  Monitor,
+  LogOut
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useUpdateStudentProfile } from '@/hooks/use-student-profile';
 import api, { ApiResponse } from '@/services/api';
+import { sessionApi, type UserSession } from '@/services/sessionApi';
 import { AxiosError } from 'axios';
 
 interface PrivacySettings {
@@ -84,6 +90,24 @@ interface DeletionStatus {
   remainingDays?: number;
 }
 
+// A readable "Browser on OS" label from a user agent string
+const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+};
+
 const SettingsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState('general');
   const [loading, setLoading] = useState(false);
@@ -128,6 +152,8 @@ const SettingsPage: React.FC = () => {
   const [deletionConfirmText, setDeletionConfirmText] = useState('');
   const [showDeletionForm, setShowDeletionForm] = useState(false);
   const [deletionStatus, setDeletionStatus] = useState<DeletionStatus | null>(null);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [revokingSession, setRevokingSession] = useState<string | null>(null);
 
   const { toast } = useToast();
   const updateProfile = useUpdateStudentProfile();
@@ -148,6 +174,7 @@ const SettingsPage: React.FC = () => {
     fetchDeletionRequests();
     fetchAuditLogs();
     fetchDeletionStatus();
+    fetchSessions();
   }, []);
 
   // API functions
@@ -215,6 +242,54 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  const fetchSessions = async (): Promise<void> => {
+    try {
+      setSessions(await sessionApi.getSessions());
+    } catch (error: unknown) {
+      console.error('Failed to fetch sessions:', error);
+    }
+  };
+
+  const handleRevokeSession = async (sessionId: string): Promise<void> => {
+    setRevokingSession(sessionId);
+    try {
+      await sessionApi.revokeSession(sessionId);
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      toast({
+        title: 'Device signed out',
+        description: 'That device will need to sign in again.',
+      });
+    } catch (error: unknown) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to sign out device',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingSession(null);
+    }
+  };
+
+  const handleRevokeOtherSessions = async (): Promise<void> => {
+    setRevokingSession('others');
+    try {
+      const revoked = await sessionApi.revokeOtherSessions();
+      setSessions(prev => prev.filter(session => session.current));
+      toast({
+        title: 'Signed out other devices',
+        description: `${revoked} device(s) signed out.`,
+      });
+    } catch (error: unknown) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to sign out other devices',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingSession(null);
+    }
+  };
+
   const handleSettingChange = (category: string, key: string, value: any) => {
     setSettings(prev => ({
       ...prev,
@@ -566,6 +641,9 @@ const SettingsPage: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Referral Code */}
+            <ReferralCard />
           </TabsContent>
 
           {/* Notification Settings */}
@@ -869,6 +947,78 @@ const SettingsPage: React.FC = () => {
               </Card>
             )}
 
+            <TwoFactorCard />
+
+            <LinkedAccountsCard />
+
+            {/* Active Sessions */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center">
+                      <Monitor className="h-5 w-5 mr-2" />
+                      Active Sessions
+                    </CardTitle>
+                    <CardDescription>
+                      Devices signed in to your account. Sign out any you don't recognise.
+                    </CardDescription>
+                  </div>
+                  {sessions.some(session => !session.current) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRevokeOtherSessions}
+                      disabled={revokingSession !== null}
+                    >
+                      {revokingSession === 'others' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Sign out other devices
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {sessions.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">No active sessions found</p>
+                ) : (
+                  <div className="space-y-3">
+                    {sessions.map((session) => (
+                      <div key={session.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div className="flex items-center space-x-3">
+                          <Smartphone className="h-5 w-5 text-gray-500" />
+                          <div>
+                            <p className="text-sm font-medium">
+                              {describeDevice(session.userAgent)}
+                              {session.current && (
+                                <Badge variant="secondary" className="ml-2 text-xs">This device</Badge>
+                              )}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                              Last active {new Date(session.lastUsedAt).toLocaleString()} · Signed in {new Date(session.createdAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                        {!session.current && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevokeSession(session.id)}
+                            disabled={revokingSession !== null}
+                          >
+                            {revokingSession === session.id
+                              ? <Loader2 className="h-4 w-4 animate-spin" />
+                              : <LogOut className="h-4 w-4" />}
+                            <span className="ml-1">Sign out</span>
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Audit Logs */}
             {auditLogs.length > 0 && (
               <Card>
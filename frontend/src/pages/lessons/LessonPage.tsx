@@ -32,6 +32,8 @@ import {
 import { courseContentApi as courseContentAPI } from '@/services/courseContentApi';
 import { useAuth } from '@/contexts/AuthContextUtils';
 import LessonContentRenderer, { LessonContent as ContentItem } from '@/components/lesson/LessonContentRenderer';
+import PackagedLessonPlayer from '@/components/lesson/PackagedLessonPlayer';
+import type { LessonPackage } from '@/services/lessonPackageApi';
 import api from '@/services/api';
 
 interface InteractiveElement {
@@ -86,6 +88,8 @@ interface LessonData {
       };
     }>;
     contentFormat?: 'HTML' | 'JSON' | 'LEGACY';
+    // SCORM/xAPI package played instead of the content above
+    package?: LessonPackage;
   };
   estimatedDuration: number;
   learningObjectives: string[];
@@ -241,6 +245,10 @@ const LessonPage: React.FC = () => {
     setTimeSpent(time);
   };
 
+  const handlePackageProgressSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['lesson-content', lessonId] });
+  };
+
   const handleBookmarkContent = (contentId: string) => {
     setBookmarkedItems(prev => 
       prev.includes(contentId) 
@@ -489,18 +497,25 @@ const LessonPage: React.FC = () => {
                 </div>
               )}
 
-              {/* Enhanced Content Renderer */}
-              <LessonContentRenderer
-                content={contentArray}
-                onProgressUpdate={handleProgressUpdate}
-                onTimeSpent={handleTimeSpent}
-                onBookmark={handleBookmarkContent}
-                onNoteAdd={handleNoteAdd}
-                bookmarkedItems={bookmarkedItems}
-                notes={contentNotes}
-                showProgress={true}
-                currentProgress={currentProgress}
-              />
+              {/* SCORM/xAPI packages report their own progress */}
+              {lesson.content.package ? (
+                <PackagedLessonPlayer
+                  lessonId={lessonId!}
+                  onProgressSaved={handlePackageProgressSaved}
+                />
+              ) : (
+                <LessonContentRenderer
+                  content={contentArray}
+                  onProgressUpdate={handleProgressUpdate}
+                  onTimeSpent={handleTimeSpent}
+                  onBookmark={handleBookmarkContent}
+                  onNoteAdd={handleNoteAdd}
+                  bookmarkedItems={bookmarkedItems}
+                  notes={contentNotes}
+                  showProgress={true}
+                  currentProgress={currentProgress}
+                />
+              )}
 
               {/* Resources */}
               {lesson.resources && lesson.resources.length > 0 && renderResources()}
@@ -518,7 +533,7 @@ const LessonPage: React.FC = () => {
                       <CheckCircle className="h-3 w-3 mr-1" />
                       Completed
                     </Badge>
-                  ) : (
+                  ) : !lesson.content.package && (
                     <Button onClick={handleLessonComplete}>
                       Mark as Complete
                     </Button>
@@ -52,6 +52,61 @@ export interface StreakData {
   }[];
 }
 
+export interface ActivityPoint {
+  date: string;
+  lessonsCompleted: number;
+  timeSpent: number; // minutes
+  quizzesTaken: number;
+  quizzesPassed: number;
+  pointsEarned: number;
+}
+
+export interface StudentAnalyticsReport {
+  range: { days: number; from: string; to: string; courseId?: string };
+  totalCourses: number;
+  completedCourses: number;
+  totalLessons: number;
+  completedLessons: number;
+  totalQuizzes: number;
+  passedQuizzes: number;
+  averageScore: number;
+  studyTime: number; // minutes
+  streakDays: number;
+  longestStreak: number;
+  currentLevel: number;
+  experiencePoints: number;
+  currentLevelXP: number;
+  nextLevelXP: number;
+  liveSessionsAttended: number;
+  courses: { courseId: string; courseTitle: string }[];
+  daily: ActivityPoint[];
+  weekly: (ActivityPoint & { weekStart: string; activeDays: number })[];
+  courseProgress: {
+    courseId: string;
+    courseTitle: string;
+    progress: number;
+    lessonsCompleted: number;
+    totalLessons: number;
+    averageScore: number;
+    timeSpent: number;
+    lastAccessed: string;
+  }[];
+  achievements: {
+    id: string;
+    title: string;
+    description: string;
+    icon: string;
+    earnedAt?: string;
+    progress: number;
+    maxProgress: number;
+  }[];
+  learningStreak: {
+    date: string;
+    active: boolean;
+    minutes: number;
+  }[];
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   message?: string;
@@ -60,6 +115,22 @@ export interface ApiResponse<T> {
 
 // Analytics API
 export const analyticsApi = {
+  // Get the full analytics report for the analytics page
+  async getDashboardAnalytics(days: number = 30, courseId?: string): Promise<StudentAnalyticsReport> {
+    try {
+      const response = await api.get<ApiResponse<StudentAnalyticsReport>>('/analytics/dashboard', {
+        params: { days, courseId: courseId && courseId !== 'all' ? courseId : undefined },
+      });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch analytics');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to fetch analytics');
+    }
+  },
+
   // Get analytics overview
   async getOverview(): Promise<AnalyticsOverview> {
     try {
@@ -126,7 +126,7 @@ export interface User {
   email: string;
   firstName?: string;
   lastName?: string;
-  role: 'admin' | 'user' | 'student' | 'visitor';
+  role: 'admin' | 'instructor' | 'user' | 'student' | 'visitor';
   profilePicture?: string;
   enrollmentStatus: 'active' | 'inactive' | 'suspended';
   isEmailVerified: boolean;
@@ -145,7 +145,7 @@ export interface RegisterData {
   password: string;
   firstName?: string;
   lastName?: string;
-  role?: 'admin' | 'user' | 'student' | 'visitor';
+  role?: 'admin' | 'instructor' | 'user' | 'student' | 'visitor';
 }
 
 export interface UserUpdateData {
@@ -681,7 +681,7 @@ export const userAPI = {
     username: string;
     email: string;
     password: string;
-    role?: 'admin' | 'user' | 'student' | 'visitor';
+    role?: 'admin' | 'instructor' | 'user' | 'student' | 'visitor';
     firstName?: string;
     lastName?: string;
     enrollmentStatus?: 'active' | 'inactive' | 'suspended';
@@ -0,0 +1,128 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Assignment types
+export type AssignmentStatus = 'PENDING' | 'SUBMITTED' | 'GRADED' | 'OVERDUE';
+
+export interface AssignmentSubmissionFile {
+  filename: string;
+  originalName: string;
+  url: string;
+  size: number;
+  mimeType: string;
+}
+
+export interface StudentAssignment {
+  id: string;
+  title: string;
+  description: string;
+  instructions?: string;
+  programmeId: string;
+  courseTitle: string;
+  lessonId: string;
+  moduleId: string;
+  dueDate: string;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH';
+  submissionTypes: ('FILE' | 'TEXT')[];
+  allowLateSubmission: boolean;
+  attachments: { name: string; url: string }[];
+  rubric: { criterion: string; description?: string; maxPoints: number }[];
+  status: AssignmentStatus;
+  maxGrade: number;
+  grade?: number;
+  feedback?: string;
+  submittedAt?: string;
+  isLate?: boolean;
+  submission?: {
+    id: string;
+    textResponse?: string;
+    files: AssignmentSubmissionFile[];
+    rubricScores: { criterion: string; points: number; comment?: string }[];
+  };
+}
+
+export interface AssignmentSubmissionInput {
+  textResponse?: string;
+  files?: File[];
+}
+
+// Assignment API functions
+export const assignmentApi = {
+  // Get assignments for the current student's enrolled programmes
+  async getAssignments(programmeId?: string): Promise<StudentAssignment[]> {
+    try {
+      const response = await api.get<ApiResponse<StudentAssignment[]>>('/student/assignments', {
+        params: programmeId ? { programmeId } : undefined,
+      });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch assignments');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to fetch assignments');
+    }
+  },
+
+  // Get a single assignment with the student's submission
+  async getAssignment(assignmentId: string): Promise<StudentAssignment> {
+    try {
+      const response = await api.get<ApiResponse<StudentAssignment>>(`/student/assignments/${assignmentId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch assignment');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to fetch assignment');
+    }
+  },
+
+  // Submit (or resubmit) an assignment with files and/or a text response
+  async submitAssignment(assignmentId: string, input: AssignmentSubmissionInput): Promise<StudentAssignment> {
+    try {
+      const formData = new FormData();
+      if (input.textResponse) {
+        formData.append('textResponse', input.textResponse);
+      }
+      (input.files || []).forEach(file => formData.append('files', file));
+
+      const response = await api.post<ApiResponse<StudentAssignment>>(
+        `/student/assignments/${assignmentId}/submit`,
+        formData,
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+      );
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to submit assignment');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to submit assignment');
+    }
+  },
+
+  // Download a submitted file and save it through the browser
+  async downloadSubmissionFile(submissionId: string, file: AssignmentSubmissionFile): Promise<void> {
+    try {
+      const response = await api.get<Blob>(
+        `/student/assignment-submissions/${submissionId}/files/${encodeURIComponent(file.filename)}`,
+        { responseType: 'blob' }
+      );
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.originalName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.message || 'Failed to download file');
+    }
+  },
+};
+
+export default assignmentApi;
@@ -1,6 +1,7 @@
 import api from './api';
 import type { ApiResponse, User } from './api';
 import type { AxiosError } from 'axios';
+import type { TwoFactorCredentials, TwoFactorEnrollment } from './twoFactorApi';
 
 // Auth-related types
 export interface LoginCredentials {
@@ -14,7 +15,6 @@ export interface RegisterData {
   password: string;
   firstName: string;
   lastName: string;
-  role?: string;
 }
 
 export interface ForgotPasswordData {
@@ -34,7 +34,7 @@ export interface ChangePasswordData {
 export interface AuthUser extends User {
   firstName: string;
   lastName: string;
-  role: 'admin' | 'user' | 'student' | 'visitor';
+  role: 'admin' | 'instructor' | 'user' | 'student' | 'visitor';
   isEmailVerified: boolean;
   enrollmentStatus: 'active' | 'inactive' | 'suspended';
 }
@@ -45,11 +45,22 @@ export interface LoginResponse {
   email: string;
   firstName: string;
   lastName: string;
-  role: 'admin' | 'user' | 'student' | 'visitor';
+  role: 'admin' | 'instructor' | 'user' | 'student' | 'visitor';
   isEmailVerified: boolean;
   enrollmentStatus: 'active' | 'inactive' | 'suspended';
+  recoveryCodes?: string[]; // only when two-factor setup was completed while signing in
 }
 
+// Sent instead of the user when the password is right but a second factor is needed
+export interface MfaChallenge {
+  mfaRequired: true;
+  enrollmentRequired: boolean; // the role requires two-factor authentication and it is not set up yet
+  challengeToken: string;
+}
+
+export const isMfaChallenge = (response: LoginResponse | MfaChallenge): response is MfaChallenge =>
+  (response as MfaChallenge).mfaRequired === true;
+
 export interface RegisterResponse {
   id: string;
   username: string;
@@ -84,9 +95,9 @@ export const authApi = {
   },
 
   // Login user
-  async login(credentials: LoginCredentials): Promise<LoginResponse> {
+  async login(credentials: LoginCredentials): Promise<LoginResponse | MfaChallenge> {
     try {
-      const response = await api.post<ApiResponse<LoginResponse>>('/auth/login', credentials);
+      const response = await api.post<ApiResponse<LoginResponse | MfaChallenge>>('/auth/login', credentials);
       if (!response.data.success) {
         throw new Error(response.data.message || 'Login failed');
       }
@@ -97,6 +108,34 @@ export const authApi = {
     }
   },
 
+  // Start the two-factor setup required for the account while signing in
+  async setupLoginTwoFactor(challengeToken: string): Promise<TwoFactorEnrollment> {
+    try {
+      const response = await api.post<ApiResponse<TwoFactorEnrollment>>('/auth/login/2fa/setup', { challengeToken });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to start two-factor setup');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to start two-factor setup');
+    }
+  },
+
+  // Second sign-in step: exchange the challenge and a code for a session
+  async verifyTwoFactor(challengeToken: string, credentials: TwoFactorCredentials): Promise<LoginResponse> {
+    try {
+      const response = await api.post<ApiResponse<LoginResponse>>('/auth/login/2fa', { challengeToken, ...credentials });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Verification failed');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Verification failed');
+    }
+  },
+
   // Logout user
   async logout(): Promise<void> {
     try {
@@ -0,0 +1,77 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Calendar types
+export type CalendarEventType = 'LIVE_SESSION' | 'ASSIGNMENT' | 'DEADLINE' | 'ACCESS_EXPIRY';
+
+export interface CalendarEvent {
+  id: string;
+  type: CalendarEventType;
+  title: string;
+  description: string;
+  start: string;
+  end?: string;
+  programmeId: string;
+  courseTitle: string;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH';
+  cancelled?: boolean;
+  completed?: boolean;
+  zoomLink?: string;
+  path: string;
+}
+
+export interface CalendarEventsResponse {
+  events: CalendarEvent[];
+  from: string;
+  to: string;
+}
+
+// Calendar API functions
+export const calendarApi = {
+  // Get events for the current student, optionally within a date window
+  async getEvents(range?: { from?: string; to?: string }): Promise<CalendarEventsResponse> {
+    try {
+      const response = await api.get<ApiResponse<CalendarEventsResponse>>('/student/calendar', {
+        params: range,
+      });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch calendar events');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to fetch calendar events');
+    }
+  },
+
+  // Get the private iCalendar subscription URL
+  async getFeedUrl(): Promise<string> {
+    try {
+      const response = await api.get<ApiResponse<{ feedUrl: string }>>('/student/calendar/feed');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch calendar feed URL');
+      }
+      return response.data.data!.feedUrl;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to fetch calendar feed URL');
+    }
+  },
+
+  // Replace the subscription URL; calendars subscribed to the old one stop updating
+  async regenerateFeedUrl(): Promise<string> {
+    try {
+      const response = await api.post<ApiResponse<{ feedUrl: string }>>('/student/calendar/feed/regenerate');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to regenerate calendar feed URL');
+      }
+      return response.data.data!.feedUrl;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to regenerate calendar feed URL');
+    }
+  },
+};
+
+export default calendarApi;
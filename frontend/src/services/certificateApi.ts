@@ -0,0 +1,97 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Certificate types
+export interface StudentCertificate {
+  id: string;
+  certificateId: string;
+  programmeId: string;
+  enrollmentId: string;
+  programmeTitle: string;
+  studentName: string;
+  issuedAt: string;
+  completionDate?: string;
+  status: 'ISSUED' | 'REVOKED';
+  downloadUrl: string;
+}
+
+export interface CertificateVerification {
+  valid: boolean;
+  certificateId: string;
+  status?: 'ISSUED' | 'REVOKED';
+  studentName?: string;
+  programmeTitle?: string;
+  issuedAt?: string;
+  completionDate?: string;
+  revokedAt?: string;
+}
+
+// Certificate API functions
+export const certificateApi = {
+  // Get certificates earned by the current student
+  async getMyCertificates(): Promise<StudentCertificate[]> {
+    try {
+      const response = await api.get<ApiResponse<StudentCertificate[]>>('/certificates');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch certificates');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to fetch certificates');
+    }
+  },
+
+  // Issue the certificate for a completed enrollment
+  async claimCertificate(enrollmentId: string): Promise<{ certificateId: string; issuedAt: string; downloadUrl: string }> {
+    try {
+      const response = await api.post<ApiResponse<{ certificateId: string; issuedAt: string; downloadUrl: string }>>(
+        `/certificates/enrollments/${enrollmentId}`
+      );
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to issue certificate');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.error?.message || axiosError.message || 'Failed to issue certificate');
+    }
+  },
+
+  // Download a certificate and save it through the browser
+  async downloadCertificate(certificateId: string): Promise<void> {
+    try {
+      const response = await api.get<Blob>(`/certificates/${certificateId}/download`, {
+        responseType: 'blob',
+      });
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${certificateId}.svg`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.message || 'Failed to download certificate');
+    }
+  },
+
+  // Verify a certificate ID
+  async verifyCertificate(certificateId: string): Promise<CertificateVerification> {
+    try {
+      const response = await api.get<ApiResponse<CertificateVerification>>(`/certificates/verify/${certificateId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to verify certificate');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to verify certificate');
+    }
+  },
+};
+
+export default certificateApi;
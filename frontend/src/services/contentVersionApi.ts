@@ -0,0 +1,120 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Draft/publish and version history types for lessons and modules
+export type VersionedContentType = 'lesson' | 'module';
+
+export interface ContentPublishing {
+  // DRAFT until the first publish; drafts are hidden from students
+  status: 'DRAFT' | 'PUBLISHED';
+  version: number;
+  hasDraft: boolean;
+  draftUpdatedAt?: string;
+  scheduledAt?: string;
+  publishedAt?: string;
+}
+
+export interface ContentVersion {
+  id: string;
+  version: number;
+  note?: string;
+  restoredFrom?: number;
+  publishedBy?: { id: string; username: string; firstName?: string; lastName?: string } | null;
+  publishedAt: string;
+  snapshot?: Record<string, unknown>;
+}
+
+// A version number, the published content or the working copy
+export type ContentRef = number | 'published' | 'draft';
+
+export interface ContentChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  before: unknown;
+  after: unknown;
+}
+
+export interface ContentDiff {
+  from: ContentRef;
+  to: ContentRef;
+  changes: ContentChange[];
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+const basePath = (contentType: VersionedContentType, id: string) =>
+  `/admin/${contentType === 'lesson' ? 'lessons' : 'modules'}/${id}`;
+
+const request = async <T>(call: () => Promise<{ data: ApiResponse<T> }>, fallback: string): Promise<T> => {
+  try {
+    const response = await call();
+    if (!response.data.success) {
+      throw new Error(response.data.message || fallback);
+    }
+    return response.data.data as T;
+  } catch (error) {
+    throw new Error(getErrorMessage(error, fallback));
+  }
+};
+
+export const contentVersionApi = {
+  // Publish the pending changes as a new version
+  publish(contentType: VersionedContentType, id: string, note?: string) {
+    return request<{ publishing: ContentPublishing }>(
+      () => api.post(`${basePath(contentType, id)}/publish`, { note }),
+      'Failed to publish'
+    );
+  },
+
+  schedule(contentType: VersionedContentType, id: string, publishAt: Date) {
+    return request<{ publishing: ContentPublishing }>(
+      () => api.put(`${basePath(contentType, id)}/schedule`, { publishAt: publishAt.toISOString() }),
+      'Failed to schedule publish'
+    );
+  },
+
+  cancelSchedule(contentType: VersionedContentType, id: string) {
+    return request<{ publishing: ContentPublishing }>(
+      () => api.delete(`${basePath(contentType, id)}/schedule`),
+      'Failed to cancel scheduled publish'
+    );
+  },
+
+  discardDraft(contentType: VersionedContentType, id: string) {
+    return request<{ publishing: ContentPublishing }>(
+      () => api.delete(`${basePath(contentType, id)}/draft`),
+      'Failed to discard draft'
+    );
+  },
+
+  getVersions(contentType: VersionedContentType, id: string) {
+    return request<ContentVersion[]>(
+      () => api.get(`${basePath(contentType, id)}/versions`),
+      'Failed to load version history'
+    );
+  },
+
+  getDiff(contentType: VersionedContentType, id: string, from: ContentRef, to: ContentRef) {
+    return request<ContentDiff>(
+      () => api.get(`${basePath(contentType, id)}/versions/diff`, { params: { from, to } }),
+      'Failed to compare versions'
+    );
+  },
+
+  // Publish an earlier version's content as a new version
+  rollback(contentType: VersionedContentType, id: string, version: number) {
+    return request<{ publishing: ContentPublishing }>(
+      () => api.post(`${basePath(contentType, id)}/versions/${version}/rollback`),
+      'Failed to roll back'
+    );
+  },
+};
+
+export default contentVersionApi;
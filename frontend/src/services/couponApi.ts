@@ -0,0 +1,194 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Coupon and referral types
+export type CouponDiscountType = 'PERCENT' | 'FIXED';
+export type EnrollmentSource = 'DIRECT' | 'PROMOTION' | 'REFERRAL';
+
+export interface PriceQuote {
+  originalPrice: number;
+  discountAmount: number;
+  discountApplied: number;
+  finalPrice: number;
+  currency: string;
+  enrollmentSource: EnrollmentSource;
+  code?: string;
+}
+
+export interface ReferralSummary {
+  code: string;
+  referrals: number;
+  pointsEarned: number;
+  pointsPerReferral: number;
+}
+
+export interface CouponProgramme {
+  _id: string;
+  title: string;
+}
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  currency?: string;
+  programmeIds: CouponProgramme[];
+  validFrom?: string;
+  expiresAt?: string;
+  maxRedemptions?: number;
+  maxRedemptionsPerStudent: number;
+  redemptionCount: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CouponInput {
+  code?: string;
+  description?: string;
+  discountType?: CouponDiscountType;
+  discountValue?: number;
+  currency?: string | null;
+  programmeIds?: string[];
+  validFrom?: string | null;
+  expiresAt?: string | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerStudent?: number;
+  isActive?: boolean;
+}
+
+export interface CouponRedemption {
+  id: string;
+  code: string;
+  studentId: { _id: string; firstName?: string; lastName?: string; email?: string; username?: string } | string;
+  programmeId: CouponProgramme | string;
+  orderId?: string;
+  originalPrice: number;
+  discountAmount: number;
+  finalPrice: number;
+  currency: string;
+  createdAt: string;
+}
+
+export interface CouponRedemptionReport {
+  coupon: Coupon;
+  redemptions: CouponRedemption[];
+  totals: {
+    currency: string;
+    discountAmount: number;
+    revenue: number;
+    count: number;
+  }[];
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+// Student coupon and referral API functions
+export const couponApi = {
+  // Price a programme with an optional coupon or referral code
+  async getQuote(programmeId: string, code?: string): Promise<PriceQuote> {
+    try {
+      const response = await api.get<ApiResponse<PriceQuote>>('/student/pricing', {
+        params: { programmeId, code: code || undefined }
+      });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to apply code');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to apply code'));
+    }
+  },
+
+  // Get the current student's referral code and rewards
+  async getReferral(): Promise<ReferralSummary> {
+    try {
+      const response = await api.get<ApiResponse<ReferralSummary>>('/student/referral');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch referral code');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch referral code'));
+    }
+  },
+};
+
+// Admin coupon management API functions
+export const adminCouponApi = {
+  // List coupons
+  async getCoupons(params: { isActive?: boolean; search?: string } = {}): Promise<Coupon[]> {
+    try {
+      const response = await api.get<ApiResponse<Coupon[]>>('/admin/coupons', { params });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch coupons');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch coupons'));
+    }
+  },
+
+  // Create a coupon
+  async createCoupon(input: CouponInput): Promise<Coupon> {
+    try {
+      const response = await api.post<ApiResponse<Coupon>>('/admin/coupons', input);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to create coupon');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to create coupon'));
+    }
+  },
+
+  // Update a coupon
+  async updateCoupon(couponId: string, input: CouponInput): Promise<Coupon> {
+    try {
+      const response = await api.put<ApiResponse<Coupon>>(`/admin/coupons/${couponId}`, input);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to update coupon');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to update coupon'));
+    }
+  },
+
+  // Delete a coupon (redeemed coupons are deactivated instead)
+  async deleteCoupon(couponId: string): Promise<string> {
+    try {
+      const response = await api.delete<ApiResponse>(`/admin/coupons/${couponId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to delete coupon');
+      }
+      return response.data.message || 'Coupon deleted';
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to delete coupon'));
+    }
+  },
+
+  // Get the redemptions of a coupon
+  async getRedemptions(couponId: string): Promise<CouponRedemptionReport> {
+    try {
+      const response = await api.get<ApiResponse<CouponRedemptionReport>>(`/admin/coupons/${couponId}/redemptions`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch redemptions');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch redemptions'));
+    }
+  },
+};
+
+export default couponApi;
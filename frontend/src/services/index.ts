@@ -22,6 +22,7 @@ export type {
   ChangePasswordData,
   AuthUser,
   LoginResponse,
+  MfaChallenge,
   RegisterResponse,
 } from './authApi';
 
@@ -99,6 +100,108 @@ export type {
   DetailedHealthStatus,
 } from './healthApi';
 
+// Certificate API
+export { certificateApi, default as certificateApiDefault } from './certificateApi';
+export type {
+  StudentCertificate,
+  CertificateVerification,
+} from './certificateApi';
+
+// Assignment API
+export { assignmentApi, default as assignmentApiDefault } from './assignmentApi';
+export type {
+  StudentAssignment,
+  AssignmentStatus,
+  AssignmentSubmissionFile,
+  AssignmentSubmissionInput,
+} from './assignmentApi';
+
+// Live Session API
+export { liveSessionApi, default as liveSessionApiDefault } from './liveSessionApi';
+export type {
+  LiveSession,
+  LiveSessionStatus,
+} from './liveSessionApi';
+
+// Support API
+export { supportApi, adminSupportApi, default as supportApiDefault } from './supportApi';
+export type {
+  FaqEntry,
+  SupportTicket,
+  SupportTicketSummary,
+  TicketMessage,
+  TicketStatus,
+  TicketPriority,
+  SupportCategory,
+} from './supportApi';
+
+// Calendar API
+export { calendarApi, default as calendarApiDefault } from './calendarApi';
+export type {
+  CalendarEvent,
+  CalendarEventType,
+  CalendarEventsResponse,
+} from './calendarApi';
+
+// Payment API
+export { paymentApi, formatOrderAmount, default as paymentApiDefault } from './paymentApi';
+export type {
+  PaymentOrder,
+  PaymentOrderStatus,
+} from './paymentApi';
+
+// Coupon API
+export { couponApi, adminCouponApi, default as couponApiDefault } from './couponApi';
+export type {
+  PriceQuote,
+  ReferralSummary,
+  Coupon,
+  CouponInput,
+  CouponDiscountType,
+  CouponRedemption,
+  CouponRedemptionReport,
+} from './couponApi';
+
+// Question bank API
+export { adminQuestionBankApi, default as questionBankApiDefault } from './questionBankApi';
+
+export { adminQuizGradingApi, default as quizGradingApiDefault } from './quizGradingApi';
+export type {
+  GradingQueueEntry,
+  GradingQueuePage,
+  GradingQuestion,
+  GradingAttempt,
+  AnswerGrade,
+  GradeResult,
+} from './quizGradingApi';
+export type {
+  QuestionType,
+  QuestionDifficulty,
+  QuestionBankItem,
+  QuestionBankItemInput,
+  QuestionBankFilters,
+  QuestionTagSummary,
+  QuestionPool,
+} from './questionBankApi';
+
+export { sessionApi, default as sessionApiDefault } from './sessionApi';
+export type { UserSession } from './sessionApi';
+
+export { twoFactorApi, default as twoFactorApiDefault } from './twoFactorApi';
+export type { TwoFactorStatus, TwoFactorEnrollment, TwoFactorCredentials } from './twoFactorApi';
+
+export { oauthApi, default as oauthApiDefault } from './oauthApi';
+export type { OAuthProvider, LinkedIdentity, LinkedIdentities } from './oauthApi';
+
+export { notificationDeliveryApi, default as notificationDeliveryApiDefault } from './notificationDeliveryApi';
+export type {
+  OutboundChannel,
+  OutboundMessageStatus,
+  OutboundMessage,
+  OutboundMessageList,
+  OutboundMessageFilters,
+} from './notificationDeliveryApi';
+
 // Combined APIs object for easy access
 import { authApi } from './authApi';
 import { userApi } from './userApi';
@@ -108,6 +211,16 @@ import { progressApi } from './progressApi';
 import { integrationApi } from './integrationApi';
 import { privacyApi } from './privacyApi';
 import { healthApi } from './healthApi';
+import { certificateApi } from './certificateApi';
+import { assignmentApi } from './assignmentApi';
+import { liveSessionApi } from './liveSessionApi';
+import { supportApi } from './supportApi';
+import { calendarApi } from './calendarApi';
+import { paymentApi } from './paymentApi';
+import { couponApi } from './couponApi';
+import { sessionApi } from './sessionApi';
+import { twoFactorApi } from './twoFactorApi';
+import { oauthApi } from './oauthApi';
 
 export const APIs = {
   auth: authApi,
@@ -118,6 +231,16 @@ export const APIs = {
   integration: integrationApi,
   privacy: privacyApi,
   health: healthApi,
+  certificate: certificateApi,
+  assignment: assignmentApi,
+  liveSession: liveSessionApi,
+  support: supportApi,
+  calendar: calendarApi,
+  payment: paymentApi,
+  coupon: couponApi,
+  session: sessionApi,
+  twoFactor: twoFactorApi,
+  oauth: oauthApi,
 };
 
 export default APIs;
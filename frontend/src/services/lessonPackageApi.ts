@@ -0,0 +1,117 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+import type { ScormCmi, ScormCommitValues } from '@/utils/scormRuntime';
+
+// SCORM/xAPI lesson package types
+export type LessonPackageStandard = 'SCORM_1_2' | 'XAPI';
+
+export interface LessonPackage {
+  id: string;
+  standard: LessonPackageStandard;
+  title?: string;
+  launchPath: string;
+  activityId?: string;
+  masteryScore?: number;
+  fileCount: number;
+  uploadedAt: string;
+}
+
+export interface PackageRuntime {
+  lessonId: string;
+  package: Pick<LessonPackage, 'id' | 'standard' | 'title' | 'launchPath' | 'activityId'>;
+  learner: { id: string; name: string };
+  // Staff previewing a lesson they are not enrolled in: nothing is saved
+  mode: 'normal' | 'browse';
+  // Authenticates the package's own file and xAPI requests, which run sandboxed without the session cookie
+  launchToken: string;
+  cmi?: ScormCmi;
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+const lessonPath = (lessonId: string) => `${api.defaults.baseURL}/lessons/${lessonId}`;
+
+// URL of a file in the lesson's package, as loaded by the player's iframe.
+// Relative URLs inside the package keep the launch token.
+export const packageFileUrl = (runtime: PackageRuntime, filePath: string): string =>
+  `${lessonPath(runtime.lessonId)}/package/files/${runtime.launchToken}/${filePath}`;
+
+// xAPI launch endpoint; statements are authenticated with the launch token
+export const xapiEndpoint = (lessonId: string): string =>
+  `${window.location.origin}${lessonPath(lessonId)}/xapi/`;
+
+export const lessonPackageApi = {
+  // Launch data for the lesson's package, with the caller's saved SCORM data
+  async getRuntime(lessonId: string): Promise<PackageRuntime> {
+    try {
+      const response = await api.get<ApiResponse<PackageRuntime>>(`/lessons/${lessonId}/package/runtime`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to load lesson package');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to load lesson package'));
+    }
+  },
+
+  // Save values committed through the SCORM runtime API. Commits sent while
+  // the page unloads use fetch with keepalive, which axios cannot do.
+  async commitScorm(lessonId: string, values: ScormCommitValues, options: { keepalive?: boolean } = {}): Promise<void> {
+    if (options.keepalive) {
+      const response = await fetch(`${lessonPath(lessonId)}/package/runtime`, {
+        method: 'PUT',
+        credentials: 'include',
+        keepalive: true,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save SCORM data');
+      }
+      return;
+    }
+
+    try {
+      await api.put<ApiResponse>(`/lessons/${lessonId}/package/runtime`, values);
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to save SCORM data'));
+    }
+  },
+};
+
+export const adminLessonPackageApi = {
+  // Upload a SCORM 1.2 or xAPI ZIP as the lesson's content
+  async upload(lessonId: string, file: File): Promise<LessonPackage> {
+    try {
+      const formData = new FormData();
+      formData.append('package', file);
+      const response = await api.post<ApiResponse<LessonPackage>>(`/admin/lessons/${lessonId}/package`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        timeout: 120000,
+      });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to upload package');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to upload package'));
+    }
+  },
+
+  async remove(lessonId: string): Promise<void> {
+    try {
+      await api.delete<ApiResponse>(`/admin/lessons/${lessonId}/package`);
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to remove package'));
+    }
+  },
+};
+
+export default lessonPackageApi;
@@ -0,0 +1,92 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Live session types
+export type LiveSessionStatus = 'UPCOMING' | 'LIVE' | 'COMPLETED' | 'CANCELLED';
+
+export interface LiveSession {
+  id: string;
+  programmeId: string;
+  moduleId?: string;
+  title: string;
+  description: string;
+  courseTitle: string;
+  instructor: string;
+  startTime: string;
+  endTime: string;
+  duration: number; // in minutes
+  status: LiveSessionStatus;
+  zoomLink?: string;
+  meetingId?: string;
+  password?: string;
+  maxParticipants: number;
+  currentParticipants: number;
+  topics: string[];
+  recordingUrl?: string;
+  isRsvped: boolean;
+  attended: boolean;
+}
+
+// Live session API functions
+export const liveSessionApi = {
+  // Get live sessions for the current student's enrolled programmes
+  async getLiveSessions(programmeId?: string): Promise<LiveSession[]> {
+    try {
+      const response = await api.get<ApiResponse<LiveSession[]>>('/student/live-sessions', {
+        params: programmeId ? { programmeId } : undefined,
+      });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch live sessions');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to fetch live sessions');
+    }
+  },
+
+  // Reserve a place in a session
+  async rsvp(sessionId: string): Promise<LiveSession> {
+    try {
+      const response = await api.post<ApiResponse<LiveSession>>(`/student/live-sessions/${sessionId}/rsvp`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to reserve a place');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to reserve a place');
+    }
+  },
+
+  // Cancel a reservation
+  async cancelRsvp(sessionId: string): Promise<LiveSession> {
+    try {
+      const response = await api.delete<ApiResponse<LiveSession>>(`/student/live-sessions/${sessionId}/rsvp`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to cancel reservation');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to cancel reservation');
+    }
+  },
+
+  // Check in to a session, recording attendance
+  async attend(sessionId: string): Promise<LiveSession> {
+    try {
+      const response = await api.post<ApiResponse<LiveSession>>(`/student/live-sessions/${sessionId}/attend`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to record attendance');
+      }
+      return response.data.data!;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to record attendance');
+    }
+  },
+};
+
+export default liveSessionApi;
@@ -0,0 +1,85 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Outbound notification queue types
+export type OutboundChannel = 'email' | 'webhook';
+export type OutboundMessageStatus = 'pending' | 'processing' | 'sent' | 'dead';
+
+export interface OutboundMessage {
+  id: string;
+  channel: OutboundChannel;
+  destination: string;
+  description: string;
+  integrationId?: string;
+  status: OutboundMessageStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+  sentAt?: string;
+  deadAt?: string;
+  replayedBy?: { _id: string; firstName?: string; lastName?: string; email?: string; username?: string };
+  replayedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OutboundMessageList {
+  messages: OutboundMessage[];
+  counts: Partial<Record<OutboundMessageStatus, number>>;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface OutboundMessageFilters {
+  status?: OutboundMessageStatus;
+  channel?: OutboundChannel;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+// Admin notification delivery API functions
+export const notificationDeliveryApi = {
+  // List queued, sent or failed deliveries (failed by default)
+  async getDeliveries(filters: OutboundMessageFilters = {}): Promise<OutboundMessageList> {
+    try {
+      const response = await api.get<ApiResponse<OutboundMessageList>>('/admin/notifications/deliveries', { params: filters });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch deliveries');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch deliveries'));
+    }
+  },
+
+  // Queue a failed delivery again
+  async replayDelivery(messageId: string): Promise<OutboundMessage> {
+    try {
+      const response = await api.post<ApiResponse<OutboundMessage>>(`/admin/notifications/deliveries/${messageId}/replay`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to replay delivery');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to replay delivery'));
+    }
+  },
+};
+
+export default notificationDeliveryApi;
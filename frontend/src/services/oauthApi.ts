@@ -0,0 +1,95 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// A configured social sign-in provider
+export interface OAuthProvider {
+  id: string;
+  name: string;
+}
+
+// A provider account linked to the user
+export interface LinkedIdentity {
+  id: string;
+  provider: string;
+  email?: string;
+  emailVerified: boolean;
+  displayName?: string;
+  avatarUrl?: string;
+  lastLoginAt?: string;
+  createdAt: string;
+}
+
+export interface LinkedIdentities {
+  hasPassword: boolean; // false until an account created through a provider sets a password
+  identities: LinkedIdentity[];
+  providers: OAuthProvider[];
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+// Social sign-in and account linking API functions
+export const oauthApi = {
+  async getProviders(): Promise<OAuthProvider[]> {
+    try {
+      const response = await api.get<ApiResponse<OAuthProvider[]>>('/auth/oauth/providers');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch sign-in providers');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch sign-in providers'));
+    }
+  },
+
+  // The provider redirects back to the API, which then returns to /auth/callback
+  getLoginUrl(providerId: string): string {
+    return `${api.defaults.baseURL}/auth/oauth/${encodeURIComponent(providerId)}/authorize`;
+  },
+
+  async getIdentities(): Promise<LinkedIdentities> {
+    try {
+      const response = await api.get<ApiResponse<LinkedIdentities>>('/auth/identities');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch linked accounts');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch linked accounts'));
+    }
+  },
+
+  // Get the provider URL that links an account to the signed-in user
+  async startLink(providerId: string): Promise<string> {
+    try {
+      const response = await api.post<ApiResponse<{ authorizationUrl: string }>>(
+        `/auth/oauth/${encodeURIComponent(providerId)}/link`
+      );
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to start linking');
+      }
+      return response.data.data!.authorizationUrl;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to start linking'));
+    }
+  },
+
+  async unlinkIdentity(identityId: string): Promise<void> {
+    try {
+      const response = await api.delete<ApiResponse>(`/auth/identities/${identityId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to unlink account');
+      }
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to unlink account'));
+    }
+  },
+};
+
+export default oauthApi;
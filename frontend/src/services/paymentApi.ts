@@ -0,0 +1,110 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Payment types
+export type PaymentOrderStatus = 'PENDING' | 'PAID' | 'FAILED' | 'CANCELLED' | 'REFUNDED';
+
+export interface PaymentOrderProgramme {
+  _id: string;
+  title: string;
+  slug?: string;
+  imageUrl?: string;
+}
+
+export interface PaymentOrder {
+  id: string;
+  orderNumber: string;
+  studentId: string;
+  programmeId: PaymentOrderProgramme | string;
+  enrollmentId?: string;
+  provider: string;
+  checkoutUrl?: string;
+  originalPrice: number;
+  discountAmount: number;
+  discountApplied: number;
+  amount: number;
+  enrollmentSource: 'DIRECT' | 'PROMOTION' | 'REFERRAL';
+  code?: string;
+  currency: string;
+  status: PaymentOrderStatus;
+  failureReason?: string;
+  paidAt?: string;
+  refund?: {
+    amount: number;
+    reason?: string;
+    refundedAt: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+// Format an order amount in its currency
+export const formatOrderAmount = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+};
+
+// Payment API functions
+export const paymentApi = {
+  // Start checkout for a paid programme, optionally with a coupon or referral code
+  async createCheckout(programmeId: string, code?: string): Promise<PaymentOrder> {
+    try {
+      const response = await api.post<ApiResponse<PaymentOrder>>('/student/checkout', { programmeId, code: code || undefined });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to start checkout');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to start checkout'));
+    }
+  },
+
+  // Get the current student's orders
+  async getOrders(): Promise<PaymentOrder[]> {
+    try {
+      const response = await api.get<ApiResponse<PaymentOrder[]>>('/student/orders');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch orders');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch orders'));
+    }
+  },
+
+  // Get a single order
+  async getOrder(orderId: string): Promise<PaymentOrder> {
+    try {
+      const response = await api.get<ApiResponse<PaymentOrder>>(`/student/orders/${orderId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch order');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch order'));
+    }
+  },
+
+  // Simulate paying (or declining) an order with the local fake provider
+  async completeFakeCheckout(orderId: string, outcome: 'success' | 'failure'): Promise<PaymentOrder> {
+    try {
+      const response = await api.post<ApiResponse<PaymentOrder>>(`/student/orders/${orderId}/fake-complete`, { outcome });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to complete checkout');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to complete checkout'));
+    }
+  },
+};
+
+export default paymentApi;
@@ -322,8 +322,8 @@ export const progressApi = {
     return response.data;
   },
 
-  async enrollInProgram(programmeId: string): Promise<any> {
-    const response = await api.post('/student/enroll', { programmeId });
+  async enrollInProgram(programmeId: string, code?: string): Promise<any> {
+    const response = await api.post('/student/enroll', { programmeId, code: code || undefined });
     return response.data;
   },
 
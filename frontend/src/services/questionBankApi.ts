@@ -0,0 +1,161 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Question bank types
+export type QuestionType =
+  | 'MULTIPLE_CHOICE'
+  | 'MULTI_SELECT'
+  | 'TRUE_FALSE'
+  | 'SHORT_ANSWER'
+  | 'NUMERIC'
+  | 'ORDERING'
+  | 'MATCHING'
+  | 'FILL_IN_BLANK'
+  | 'ESSAY';
+
+export type QuestionDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+export interface BlankAnswer {
+  accepted: string[];
+  pattern?: string;
+  caseSensitive?: boolean;
+}
+
+export type CorrectAnswer = string | number | boolean | string[] | MatchingPair[] | BlankAnswer[];
+
+export interface QuestionBankItem {
+  id: string;
+  question: string;
+  type: QuestionType;
+  options: string[];
+  correctAnswer: CorrectAnswer;
+  acceptedAnswers: string[];
+  tolerance?: number;
+  partialCredit: boolean;
+  points: number;
+  explanation?: string;
+  tags: string[];
+  difficulty: QuestionDifficulty;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type QuestionBankItemInput = Partial<Omit<QuestionBankItem, 'id' | 'createdAt' | 'updatedAt'>>;
+
+export interface QuestionBankFilters {
+  tag?: string;
+  difficulty?: QuestionDifficulty;
+  type?: QuestionType;
+  isActive?: boolean;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface QuestionBankPage {
+  items: QuestionBankItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface QuestionTagSummary {
+  tag: string;
+  total: number;
+  byDifficulty: Partial<Record<QuestionDifficulty, number>>;
+}
+
+// A quiz draws `count` random bank questions with this tag for every attempt
+export interface QuestionPool {
+  tag: string;
+  count: number;
+  difficulty?: QuestionDifficulty;
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+// Admin question bank API functions
+export const adminQuestionBankApi = {
+  // List bank questions
+  async getItems(filters: QuestionBankFilters = {}): Promise<QuestionBankPage> {
+    try {
+      const response = await api.get<ApiResponse<QuestionBankPage>>('/admin/question-bank', { params: filters });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch questions');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch questions'));
+    }
+  },
+
+  // List tags with active question counts
+  async getTags(): Promise<QuestionTagSummary[]> {
+    try {
+      const response = await api.get<ApiResponse<QuestionTagSummary[]>>('/admin/question-bank/tags');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch question tags');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch question tags'));
+    }
+  },
+
+  // Add a question to the bank
+  async createItem(input: QuestionBankItemInput): Promise<QuestionBankItem> {
+    try {
+      const response = await api.post<ApiResponse<QuestionBankItem>>('/admin/question-bank', input);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to create question');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to create question'));
+    }
+  },
+
+  // Update a bank question
+  async updateItem(itemId: string, input: QuestionBankItemInput): Promise<QuestionBankItem> {
+    try {
+      const response = await api.put<ApiResponse<QuestionBankItem>>(`/admin/question-bank/${itemId}`, input);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to update question');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to update question'));
+    }
+  },
+
+  // Delete a bank question (questions used in attempts are deactivated instead)
+  async deleteItem(itemId: string): Promise<string> {
+    try {
+      const response = await api.delete<ApiResponse>(`/admin/question-bank/${itemId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to delete question');
+      }
+      return response.data.message || 'Question deleted';
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to delete question'));
+    }
+  },
+};
+
+export default adminQuestionBankApi;
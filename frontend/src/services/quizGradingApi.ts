@@ -0,0 +1,136 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+import type { CorrectAnswer, QuestionType } from './questionBankApi';
+
+// Quiz grading types
+interface GradingStudent {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  email: string;
+  username?: string;
+}
+
+interface GradingRef {
+  id: string;
+  title: string;
+}
+
+export interface GradingQueueEntry {
+  id: string;
+  student: GradingStudent;
+  lesson: GradingRef;
+  programme: GradingRef;
+  attemptNumber: number;
+  completedAt: string;
+  score: number;
+  maxScore: number;
+  answersToGrade: number;
+}
+
+export interface GradingQueuePage {
+  attempts: GradingQueueEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface GradingQuestion {
+  id: string;
+  question: string;
+  type: QuestionType;
+  options?: string[];
+  correctAnswer?: CorrectAnswer;
+  points: number;
+  explanation?: string;
+  answer: unknown;
+  isCorrect: boolean;
+  pointsAwarded: number;
+  needsReview: boolean;
+  graderComment?: string;
+}
+
+export interface GradingAttempt {
+  id: string;
+  student: GradingStudent;
+  lesson: GradingRef;
+  attemptNumber: number;
+  status: string;
+  completedAt: string;
+  score: number;
+  maxScore: number;
+  passingScore: number;
+  feedback?: string;
+  questions: GradingQuestion[];
+}
+
+export interface AnswerGrade {
+  questionId: string;
+  pointsAwarded: number;
+  comment?: string;
+}
+
+export interface GradeResult {
+  id: string;
+  status: 'PENDING_REVIEW' | 'COMPLETED';
+  score: number;
+  maxScore: number;
+  percentage: number;
+  isPassed: boolean;
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+// Admin quiz grading API functions
+export const adminQuizGradingApi = {
+  // Attempts waiting for manual grading, oldest first
+  async getQueue(params: { programmeId?: string; lessonId?: string; page?: number; limit?: number } = {}): Promise<GradingQueuePage> {
+    try {
+      const response = await api.get<ApiResponse<GradingQueuePage>>('/admin/quiz-grading', { params });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch grading queue');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch grading queue'));
+    }
+  },
+
+  // An attempt with the student's answers and the answer key
+  async getAttempt(attemptId: string): Promise<GradingAttempt> {
+    try {
+      const response = await api.get<ApiResponse<GradingAttempt>>(`/admin/quiz-grading/${attemptId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch quiz attempt');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch quiz attempt'));
+    }
+  },
+
+  // Award points and comments; the attempt completes once every answer is graded
+  async gradeAttempt(attemptId: string, grades: AnswerGrade[], feedback?: string): Promise<{ result: GradeResult; message: string }> {
+    try {
+      const response = await api.put<ApiResponse<GradeResult>>(`/admin/quiz-grading/${attemptId}`, { grades, feedback });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to grade quiz attempt');
+      }
+      return { result: response.data.data!, message: response.data.message || 'Grades saved' };
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to grade quiz attempt'));
+    }
+  },
+};
+
+export default adminQuizGradingApi;
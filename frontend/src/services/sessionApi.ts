@@ -0,0 +1,65 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// A device the user is signed in on
+export interface UserSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+// Session management API functions
+export const sessionApi = {
+  // List the devices the current user is signed in on
+  async getSessions(): Promise<UserSession[]> {
+    try {
+      const response = await api.get<ApiResponse<UserSession[]>>('/auth/sessions');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch sessions');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch sessions'));
+    }
+  },
+
+  // Sign out of one device
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      const response = await api.delete<ApiResponse>(`/auth/sessions/${sessionId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to sign out device');
+      }
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to sign out device'));
+    }
+  },
+
+  // Sign out of every device except this one
+  async revokeOtherSessions(): Promise<number> {
+    try {
+      const response = await api.delete<ApiResponse<{ revoked: number }>>('/auth/sessions');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to sign out other devices');
+      }
+      return response.data.data!.revoked;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to sign out other devices'));
+    }
+  },
+};
+
+export default sessionApi;
@@ -129,6 +129,7 @@ export interface StudentAnalytics {
     completedCourses: number;
     activeEnrollments: number;
     certificatesEarned: number;
+    liveSessionsAttended: number;
     totalTimeSpent: number;
     averageProgress: number;
   };
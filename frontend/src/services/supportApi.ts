@@ -0,0 +1,294 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+// Support types
+export type SupportCategory = 'GENERAL' | 'TECHNICAL' | 'COURSE' | 'PAYMENT' | 'ACCOUNT';
+export type TicketStatus = 'OPEN' | 'PENDING' | 'RESOLVED' | 'CLOSED';
+export type TicketPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export interface FaqEntry {
+  id: string;
+  question: string;
+  answer: string;
+  category: SupportCategory;
+  order: number;
+  isPublished: boolean;
+}
+
+export interface TicketUser {
+  _id: string;
+  firstName?: string;
+  lastName?: string;
+  username: string;
+  email?: string;
+  role?: string;
+}
+
+export interface TicketMessage {
+  _id: string;
+  authorId: TicketUser | string;
+  authorRole: 'student' | 'admin';
+  body: string;
+  createdAt: string;
+}
+
+export interface SupportTicket {
+  id: string;
+  ticketNumber: string;
+  studentId: TicketUser | string;
+  subject: string;
+  category: SupportCategory;
+  priority: TicketPriority;
+  status: TicketStatus;
+  assignedTo?: TicketUser | string;
+  messages: TicketMessage[];
+  lastActivityAt: string;
+  resolvedAt?: string;
+  closedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SupportTicketSummary extends Omit<SupportTicket, 'messages'> {
+  messageCount: number;
+  lastMessage?: Omit<TicketMessage, 'authorId'>;
+}
+
+export interface CreateTicketInput {
+  subject: string;
+  category: SupportCategory;
+  priority?: TicketPriority;
+  message: string;
+}
+
+export interface SupportQueueFilters {
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  category?: SupportCategory;
+  assignedTo?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface SupportQueue {
+  tickets: Omit<SupportTicket, 'messages'>[];
+  counts: Partial<Record<TicketStatus, number>>;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface TicketUpdateInput {
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  assignedTo?: string | null;
+}
+
+export type FaqInput = Partial<Omit<FaqEntry, 'id'>>;
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message || axiosError.message || fallback;
+};
+
+// Display name for a ticket participant
+export const getTicketUserName = (user?: TicketUser | string): string => {
+  if (!user || typeof user === 'string') {
+    return 'Unknown';
+  }
+  return user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.username;
+};
+
+// Student support API functions
+export const supportApi = {
+  // Get published FAQ entries
+  async getFaqs(): Promise<FaqEntry[]> {
+    try {
+      const response = await api.get<ApiResponse<FaqEntry[]>>('/student/support/faqs');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch FAQ');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch FAQ'));
+    }
+  },
+
+  // Get the current student's tickets
+  async getTickets(): Promise<SupportTicketSummary[]> {
+    try {
+      const response = await api.get<ApiResponse<SupportTicketSummary[]>>('/student/support/tickets');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch support tickets');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch support tickets'));
+    }
+  },
+
+  // Get a ticket with its full message thread
+  async getTicket(ticketId: string): Promise<SupportTicket> {
+    try {
+      const response = await api.get<ApiResponse<SupportTicket>>(`/student/support/tickets/${ticketId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch support ticket');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch support ticket'));
+    }
+  },
+
+  // Open a new ticket
+  async createTicket(input: CreateTicketInput): Promise<SupportTicket> {
+    try {
+      const response = await api.post<ApiResponse<SupportTicket>>('/student/support/tickets', input);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to create support ticket');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to create support ticket'));
+    }
+  },
+
+  // Reply to a ticket
+  async reply(ticketId: string, message: string): Promise<SupportTicket> {
+    try {
+      const response = await api.post<ApiResponse<SupportTicket>>(`/student/support/tickets/${ticketId}/messages`, { message });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to send reply');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to send reply'));
+    }
+  },
+
+  // Close a ticket
+  async closeTicket(ticketId: string): Promise<SupportTicket> {
+    try {
+      const response = await api.put<ApiResponse<SupportTicket>>(`/student/support/tickets/${ticketId}/close`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to close support ticket');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to close support ticket'));
+    }
+  },
+};
+
+// Admin support API functions
+export const adminSupportApi = {
+  // Get the support queue
+  async getQueue(filters: SupportQueueFilters = {}): Promise<SupportQueue> {
+    try {
+      const response = await api.get<ApiResponse<SupportQueue>>('/admin/support/tickets', { params: filters });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch support queue');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch support queue'));
+    }
+  },
+
+  // Get a ticket with its full message thread
+  async getTicket(ticketId: string): Promise<SupportTicket> {
+    try {
+      const response = await api.get<ApiResponse<SupportTicket>>(`/admin/support/tickets/${ticketId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch support ticket');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch support ticket'));
+    }
+  },
+
+  // Assign a ticket or change its status or priority
+  async updateTicket(ticketId: string, updates: TicketUpdateInput): Promise<SupportTicket> {
+    try {
+      const response = await api.put<ApiResponse<SupportTicket>>(`/admin/support/tickets/${ticketId}`, updates);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to update support ticket');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to update support ticket'));
+    }
+  },
+
+  // Reply to a ticket, optionally setting its status
+  async reply(ticketId: string, message: string, status?: TicketStatus): Promise<SupportTicket> {
+    try {
+      const response = await api.post<ApiResponse<SupportTicket>>(`/admin/support/tickets/${ticketId}/messages`, { message, status });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to send reply');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to send reply'));
+    }
+  },
+
+  // Get all FAQ entries, including unpublished ones
+  async getFaqs(): Promise<FaqEntry[]> {
+    try {
+      const response = await api.get<ApiResponse<FaqEntry[]>>('/admin/faqs');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch FAQ');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch FAQ'));
+    }
+  },
+
+  // Create an FAQ entry
+  async createFaq(input: FaqInput): Promise<FaqEntry> {
+    try {
+      const response = await api.post<ApiResponse<FaqEntry>>('/admin/faqs', input);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to create FAQ entry');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to create FAQ entry'));
+    }
+  },
+
+  // Update an FAQ entry
+  async updateFaq(faqId: string, input: FaqInput): Promise<FaqEntry> {
+    try {
+      const response = await api.put<ApiResponse<FaqEntry>>(`/admin/faqs/${faqId}`, input);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to update FAQ entry');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to update FAQ entry'));
+    }
+  },
+
+  // Delete an FAQ entry
+  async deleteFaq(faqId: string): Promise<void> {
+    try {
+      const response = await api.delete<ApiResponse>(`/admin/faqs/${faqId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to delete FAQ entry');
+      }
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to delete FAQ entry'));
+    }
+  },
+};
+
+export default supportApi;
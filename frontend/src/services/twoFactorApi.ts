@@ -0,0 +1,98 @@
+import api from './api';
+import type { ApiResponse } from './api';
+import type { AxiosError } from 'axios';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  required: boolean; // the platform requires it for the user's role
+  recoveryCodesRemaining: number;
+}
+
+// Secret to add to an authenticator app, by hand or from the otpauth:// link
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// Either a code from the authenticator app or one of the recovery codes
+export interface TwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as AxiosError<ApiResponse>;
+  return axiosError.response?.data?.message
+    || axiosError.response?.data?.error?.message
+    || axiosError.message
+    || fallback;
+};
+
+// Two-factor authentication management API functions
+export const twoFactorApi = {
+  // Whether two-factor authentication is on for the current user
+  async getStatus(): Promise<TwoFactorStatus> {
+    try {
+      const response = await api.get<ApiResponse<TwoFactorStatus>>('/auth/2fa');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to fetch two-factor status');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to fetch two-factor status'));
+    }
+  },
+
+  // Generate a secret for a new authenticator
+  async setup(): Promise<TwoFactorEnrollment> {
+    try {
+      const response = await api.post<ApiResponse<TwoFactorEnrollment>>('/auth/2fa/setup');
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to start two-factor setup');
+      }
+      return response.data.data!;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to start two-factor setup'));
+    }
+  },
+
+  // Confirm the authenticator with its first code; returns the recovery codes
+  async enable(code: string): Promise<string[]> {
+    try {
+      const response = await api.post<ApiResponse<{ recoveryCodes: string[] }>>('/auth/2fa/enable', { code });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to enable two-factor authentication');
+      }
+      return response.data.data!.recoveryCodes;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to enable two-factor authentication'));
+    }
+  },
+
+  async disable(credentials: TwoFactorCredentials): Promise<void> {
+    try {
+      const response = await api.post<ApiResponse>('/auth/2fa/disable', credentials);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to disable two-factor authentication');
+      }
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to disable two-factor authentication'));
+    }
+  },
+
+  // Replace the recovery codes; the old ones stop working
+  async regenerateRecoveryCodes(credentials: TwoFactorCredentials): Promise<string[]> {
+    try {
+      const response = await api.post<ApiResponse<{ recoveryCodes: string[] }>>('/auth/2fa/recovery-codes', credentials);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to generate recovery codes');
+      }
+      return response.data.data!.recoveryCodes;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to generate recovery codes'));
+    }
+  },
+};
+
+export default twoFactorApi;
@@ -28,7 +28,7 @@ export interface CreateUserData {
   password: string;
   firstName?: string;
   lastName?: string;
-  role: 'admin' | 'user' | 'student' | 'visitor';
+  role: 'admin' | 'instructor' | 'user' | 'student' | 'visitor';
   enrollmentStatus?: 'active' | 'inactive' | 'suspended';
 }
 
@@ -37,7 +37,7 @@ export interface UpdateUserData {
   email?: string;
   firstName?: string;
   lastName?: string;
-  role?: 'admin' | 'user' | 'student' | 'visitor';
+  role?: 'admin' | 'instructor' | 'user' | 'student' | 'visitor';
   enrollmentStatus?: 'active' | 'inactive' | 'suspended';
   isEmailVerified?: boolean;
 }
@@ -182,6 +182,33 @@ export const userApi = {
     }
   },
 
+  // Sign a user out of every device (admin function)
+  async revokeUserSessions(userId: string): Promise<number> {
+    try {
+      const response = await api.delete<ApiResponse<{ revoked: number }>>(`/user/${userId}/sessions`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to revoke sessions');
+      }
+      return response.data.data!.revoked;
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to revoke sessions');
+    }
+  },
+
+  // Remove a user's authenticator and recovery codes (admin function)
+  async resetUserTwoFactor(userId: string): Promise<void> {
+    try {
+      const response = await api.delete<ApiResponse>(`/user/${userId}/two-factor`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to reset two-factor authentication');
+      }
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      throw new Error(axiosError.response?.data?.message || axiosError.message || 'Failed to reset two-factor authentication');
+    }
+  },
+
   // Create new user (admin function)
   async createUser(userData: CreateUserData): Promise<{ success: boolean; message: string; user: User }> {
     try {
@@ -0,0 +1,151 @@
+/**
+ * Player side of the SCORM 1.2 runtime. A SCO runs in a sandboxed frame with
+ * an opaque origin, so it cannot reach an `API` object on this window; the
+ * backend adds the runtime API to the SCO's launch page instead, and that API
+ * posts the values the SCO sets, LMSCommit and LMSFinish to the player. The
+ * session sends them to the backend, which records completion, score and time
+ * in the student's progress.
+ */
+
+export interface ScormCmi {
+  studentId: string;
+  studentName: string;
+  lessonLocation: string;
+  credit: 'credit' | 'no-credit';
+  lessonStatus: string;
+  entry: 'ab-initio' | 'resume' | '';
+  scoreRaw: string;
+  scoreMin: string;
+  scoreMax: string;
+  totalTime: string;
+  lessonMode: 'normal' | 'browse';
+  suspendData: string;
+  masteryScore: string;
+}
+
+export interface ScormCommitValues {
+  sessionId: string;
+  finished?: boolean;
+  lessonStatus?: string;
+  lessonLocation?: string;
+  suspendData?: string;
+  exit?: string;
+  scoreRaw?: string;
+  scoreMin?: string;
+  scoreMax?: string;
+  sessionTime?: string;
+}
+
+// `source` of the messages the runtime API in the frame posts
+export const SCORM_MESSAGE_SOURCE = 'eduknit-scorm';
+
+type CommitField = Exclude<keyof ScormCommitValues, 'sessionId' | 'finished'>;
+
+const COMMIT_FIELDS: readonly string[] = [
+  'lessonStatus',
+  'lessonLocation',
+  'suspendData',
+  'exit',
+  'scoreRaw',
+  'scoreMin',
+  'scoreMax',
+  'sessionTime',
+];
+
+export type ScormMessage =
+  | { source: typeof SCORM_MESSAGE_SOURCE; action: 'initialize' | 'commit' | 'finish' }
+  | { source: typeof SCORM_MESSAGE_SOURCE; action: 'set'; field: CommitField; value: string };
+
+const isScormMessage = (data: unknown): data is ScormMessage => {
+  const message = data as Partial<Record<string, unknown>> | null;
+  if (!message || typeof message !== 'object' || message.source !== SCORM_MESSAGE_SOURCE) {
+    return false;
+  }
+  if (message.action === 'set') {
+    return COMMIT_FIELDS.includes(String(message.field)) && typeof message.value === 'string';
+  }
+  return message.action === 'initialize' || message.action === 'commit' || message.action === 'finish';
+};
+
+export interface ScormSessionOptions {
+  // Browse mode: nothing is sent to the backend
+  browse: boolean;
+  commit: (values: ScormCommitValues, options: { keepalive: boolean }) => Promise<unknown>;
+  onCommitted?: () => void;
+  onError?: (error: Error) => void;
+}
+
+const newSessionId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+export class ScormSession {
+  private changed: Partial<Record<CommitField, string>> = {};
+  private initialized = false;
+  private finished = false;
+  private pending: Promise<void> = Promise.resolve();
+  private readonly sessionId = newSessionId();
+  private readonly options: ScormSessionOptions;
+
+  constructor(options: ScormSessionOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Handle a message from the SCO's frame. The frame runs package code, so
+   * anything that is not a runtime API message is ignored; the values
+   * themselves are validated by the backend.
+   */
+  handleMessage(data: unknown): void {
+    if (!isScormMessage(data)) {
+      return;
+    }
+    switch (data.action) {
+      case 'initialize':
+        this.initialized = !this.finished;
+        break;
+      case 'set':
+        if (this.initialized) {
+          this.changed[data.field] = data.value;
+        }
+        break;
+      case 'commit':
+        if (this.initialized) {
+          this.send(false, false);
+        }
+        break;
+      case 'finish':
+        if (this.initialized) {
+          this.initialized = false;
+          this.finished = true;
+          this.send(true, false);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Finish a session the SCO left open, e.g. when the learner leaves the page.
+   * The request is sent with keepalive so it survives the page unloading.
+   */
+  terminate(): void {
+    if (this.initialized) {
+      this.initialized = false;
+      this.finished = true;
+      this.send(true, true);
+    }
+  }
+
+  private send(finished: boolean, keepalive: boolean): void {
+    if (this.options.browse) {
+      return;
+    }
+    const values: ScormCommitValues = { ...this.changed, sessionId: this.sessionId, finished };
+    // Commits are sent in order, so a later commit never lands before an earlier one
+    this.pending = this.pending
+      .then(() => this.options.commit(values, { keepalive }))
+      .then(() => this.options.onCommitted?.())
+      .catch(error => this.options.onError?.(error instanceof Error ? error : new Error(String(error))));
+  }
+}